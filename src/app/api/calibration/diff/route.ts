@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CalibrationHistoryStore, diffCalibrationVersions } from "@/lib/signals/calibration-history";
+
+/**
+ * GET /api/calibration/diff?from=3&to=5
+ *
+ * Diferencias de umbrales y métricas de entrada entre dos versiones del
+ * historial de calibración. Sin `to` compara contra la última versión.
+ */
+export async function GET(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const from = Number(params.get("from"));
+  const toParam = params.get("to");
+  if (!Number.isInteger(from) || from < 1) {
+    return NextResponse.json({ error: "from debe ser un entero positivo" }, { status: 400 });
+  }
+
+  try {
+    const store = new CalibrationHistoryStore(supabase);
+    const [a, b] = await Promise.all([
+      store.get(user.id, from),
+      toParam !== null ? store.get(user.id, Number(toParam)) : store.latest(user.id),
+    ]);
+
+    if (!a) {
+      return NextResponse.json({ error: `Versión ${from} no encontrada` }, { status: 404 });
+    }
+    if (!b) {
+      return NextResponse.json({ error: `Versión ${toParam ?? "última"} no encontrada` }, { status: 404 });
+    }
+
+    return NextResponse.json({ diff: diffCalibrationVersions(a, b), from: a, to: b });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { IncrementalCalibrator } from "@/lib/signals/incremental-calibrator";
+
+/**
+ * POST /api/calibration/rollback
+ *
+ * Body: { version, note? } → restaura los umbrales de esa versión en
+ * calibration_state y registra el rollback como versión nueva. El
+ * siguiente ciclo parte de esos umbrales (y el walk-forward decide si
+ * los vuelve a mover).
+ */
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: { version?: unknown; note?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body JSON inválido" }, { status: 400 });
+  }
+
+  const version = Number(body.version);
+  if (!Number.isInteger(version) || version < 1) {
+    return NextResponse.json({ error: "version debe ser un entero positivo" }, { status: 400 });
+  }
+  const note = typeof body.note === "string" && body.note.trim() ? body.note.trim().slice(0, 200) : undefined;
+
+  try {
+    const result = await new IncrementalCalibrator(supabase).rollback(user.id, version, note);
+    if (!result) {
+      return NextResponse.json({ error: `Versión ${version} no encontrada` }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { IncrementalCalibrator } from "@/lib/signals/incremental-calibrator";
+import { CalibrationHistoryStore } from "@/lib/signals/calibration-history";
+
+/**
+ * GET /api/calibration?limit=100
+ *
+ * Estado de calibración actual del usuario y su historial de versiones
+ * (más reciente primero): umbrales, métricas de entrada y walk-forward.
+ */
+export async function GET(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const limit = Math.min(Math.max(Number(new URL(req.url).searchParams.get("limit")) || 100, 1), 500);
+
+  try {
+    const [current, history] = await Promise.all([
+      new IncrementalCalibrator(supabase).getCurrentState(user.id),
+      new CalibrationHistoryStore(supabase).list(user.id, limit),
+    ]);
+
+    return NextResponse.json({ current, history });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  STRATEGY_DEFAULTS,
+  STRATEGY_SCHEMA,
+  StrategyConfigStore,
+  resolveStrategyConfig,
+  validateStrategyConfig,
+} from "@/lib/signals/strategy-config";
+
+/**
+ * GET /api/config
+ *
+ * Configuración de estrategia del usuario: versión activa, defaults,
+ * configuración efectiva, esquema de campos y versiones anteriores.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  try {
+    const store = new StrategyConfigStore(supabase);
+    const [active, versions] = await Promise.all([
+      store.getActive(user.id),
+      store.listVersions(user.id),
+    ]);
+
+    return NextResponse.json({
+      active,
+      defaults: STRATEGY_DEFAULTS,
+      effective: resolveStrategyConfig(active?.config ?? null),
+      schema: STRATEGY_SCHEMA,
+      versions,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/config
+ *
+ * Body: { config, note? } → valida y guarda una versión nueva activa.
+ *       { activateVersion } → reactiva una versión anterior.
+ * El siguiente ciclo del Orchestrator usa la versión activa.
+ */
+export async function PUT(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: { config?: unknown; note?: unknown; activateVersion?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body JSON inválido" }, { status: 400 });
+  }
+
+  const store = new StrategyConfigStore(supabase);
+
+  try {
+    if (body.activateVersion !== undefined) {
+      const version = Number(body.activateVersion);
+      if (!Number.isInteger(version) || version < 1) {
+        return NextResponse.json({ error: "activateVersion debe ser un entero positivo" }, { status: 400 });
+      }
+      const activated = await store.activateVersion(user.id, version);
+      if (!activated) {
+        return NextResponse.json({ error: `Versión ${version} no encontrada` }, { status: 404 });
+      }
+      return NextResponse.json({ active: activated, effective: resolveStrategyConfig(activated.config) });
+    }
+
+    const { config, errors } = validateStrategyConfig(body.config);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Configuración inválida", errors }, { status: 400 });
+    }
+
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim().slice(0, 200) : undefined;
+    const saved = await store.saveVersion(user.id, config, note);
+    return NextResponse.json({ active: saved, effective: resolveStrategyConfig(saved.config) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
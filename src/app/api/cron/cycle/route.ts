@@ -1,12 +1,17 @@
 import { NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { Orchestrator } from "@/lib/signals/orchestrator";
+import { verifyCronAuth, envInt } from "@/lib/cron/auth";
+import { CycleScheduler } from "@/lib/signals/cycle-scheduler";
+
+export const maxDuration = 60;
 
 /**
- * GET /api/cron/cycle — ejecutado por Vercel Cron cada 15 min.
+ * GET /api/cron/cycle — ejecutado por el scheduler externo cada 15 min.
  *
  * Protegido por CRON_SECRET en producción.
- * Ejecuta un ciclo del motor para TODOS los usuarios activos.
+ * Un discovery de mercado compartido y después un ciclo por usuario activo,
+ * en paralelo (CYCLE_CONCURRENCY) y dentro de un presupuesto de tiempo
+ * (CYCLE_BUDGET_MS). Los usuarios que no caben pasan al siguiente tick.
  */
 export async function GET(req: Request) {
   if (!verifyCronAuth(req)) {
@@ -23,45 +28,28 @@ export async function GET(req: Request) {
     );
   }
 
-  const { data: users } = await supabase
-    .from("risk_state")
-    .select("user_id")
-    .eq("is_paused", false);
-
-  if (!users?.length) {
-    return NextResponse.json({ message: "No hay usuarios activos", cycles: 0 });
-  }
-
-  const results = [];
-
-  for (const { user_id } of users) {
-    try {
-      const orchestrator = new Orchestrator(supabase, user_id);
-      const result = await orchestrator.runCycle();
-      results.push({ userId: user_id, ...result });
-    } catch (err) {
-      results.push({
-        userId: user_id,
-        error: err instanceof Error ? err.message : String(err),
-      });
+  try {
+    const concurrency = envInt("CYCLE_CONCURRENCY");
+    const budgetMs = envInt("CYCLE_BUDGET_MS");
+    const scheduler = new CycleScheduler(supabase, {
+      ...(concurrency ? { concurrency } : {}),
+      ...(budgetMs ? { budgetMs } : {}),
+    });
+    const summary = await scheduler.tick();
+
+    if (summary.usersTotal === 0) {
+      return NextResponse.json({ message: "No hay usuarios activos", cycles: 0, ...summary });
     }
-  }
-
-  return NextResponse.json({
-    timestamp: new Date().toISOString(),
-    usersProcessed: users.length,
-    results,
-  });
-}
 
-function verifyCronAuth(req: Request): boolean {
-  const secret = process.env.CRON_SECRET;
-  if (!secret) return true; // dev mode sin secret → permitir
-
-  const authHeader = req.headers.get("authorization");
-  if (authHeader === `Bearer ${secret}`) return true;
-
-  const url = new URL(req.url);
-  const querySecret = url.searchParams.get("secret");
-  return querySecret === secret;
+    return NextResponse.json({
+      timestamp: summary.finishedAt,
+      usersProcessed: summary.runs.filter((r) => r.status === "ran").length,
+      ...summary,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
 }
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { verifyCronAuth, envInt } from "@/lib/cron/auth";
+import { ReconcileScheduler } from "@/lib/signals/reconcile-scheduler";
+
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/reconcile — ejecutado cada hora por GitHub Actions
+ * (.github/workflows/position-reconcile.yml).
+ *
+ * Reconciliación de posiciones para cada usuario con trades live abiertos
+ * o recientes (posibles huérfanos), en paralelo (RECONCILE_CONCURRENCY) y
+ * dentro de un presupuesto de tiempo (RECONCILE_BUDGET_MS). Solo propone
+ * salvo que RECONCILE_AUTO_APPLY=true, en cuyo caso cierra los phantom y
+ * reduce los shortfall con exit_reason `reconciled`. Un usuario con un
+ * ciclo en curso, o que no cabe en el presupuesto, pasa a la siguiente.
+ */
+export async function GET(req: Request) {
+  if (!verifyCronAuth(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let supabase;
+  try {
+    supabase = createAdminClient();
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const concurrency = envInt("RECONCILE_CONCURRENCY");
+    const budgetMs = envInt("RECONCILE_BUDGET_MS");
+    const scheduler = new ReconcileScheduler(supabase, {
+      ...(concurrency ? { concurrency } : {}),
+      ...(budgetMs ? { budgetMs } : {}),
+    });
+    const summary = await scheduler.tick({
+      autoApply: process.env.RECONCILE_AUTO_APPLY === "true",
+    });
+
+    return NextResponse.json({
+      timestamp: summary.finishedAt,
+      usersProcessed: summary.runs.filter((r) => r.status === "ran").length,
+      ...summary,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { verifyCronAuth } from "@/lib/cron/auth";
 
 /**
  * GET /api/cron/risk-reset — ejecutado por Vercel Cron a las 00:00 UTC diario.
@@ -71,15 +72,3 @@ export async function GET(req: Request) {
     unpauseError: unpauseError?.message ?? null,
   });
 }
-
-function verifyCronAuth(req: Request): boolean {
-  const secret = process.env.CRON_SECRET;
-  if (!secret) return true;
-
-  const authHeader = req.headers.get("authorization");
-  if (authHeader === `Bearer ${secret}`) return true;
-
-  const url = new URL(req.url);
-  const querySecret = url.searchParams.get("secret");
-  return querySecret === secret;
-}
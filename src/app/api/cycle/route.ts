@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { Orchestrator } from "@/lib/signals/orchestrator";
+import { CycleLockedError } from "@/lib/signals/cycle-lock";
 
 /**
  * POST /api/cycle — ejecuta un ciclo completo del motor:
@@ -14,6 +15,7 @@ import { Orchestrator } from "@/lib/signals/orchestrator";
  *  7. PositionManager cierra trades que toque
  *
  * En producción será un cron. Por ahora se dispara manualmente.
+ * 409 si ya hay un ciclo en curso para el usuario (cron u otra pestaña).
  */
 export async function POST() {
   const supabase = await createClient();
@@ -25,8 +27,17 @@ export async function POST() {
     return NextResponse.json({ error: "No autenticado" }, { status: 401 });
   }
 
-  const orchestrator = new Orchestrator(supabase, user.id);
-  const result = await orchestrator.runCycle();
-
-  return NextResponse.json(result);
+  try {
+    const orchestrator = new Orchestrator(supabase, user.id);
+    const result = await orchestrator.runCycle();
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof CycleLockedError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
 }
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CredentialVault, ExchangeConnectionStore, createExchangeClient } from "@/lib/exchanges";
+
+/**
+ * POST /api/exchanges/check
+ *
+ * Body: { id }
+ * Descifra las credenciales, consulta saldo y permisos en el exchange y
+ * guarda el resultado en last_check_at / last_check_ok / last_check_error.
+ * Un fallo del exchange no es un error HTTP: vuelve en `check.error`.
+ */
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: { id?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body JSON inválido" }, { status: 400 });
+  }
+
+  if (typeof body.id !== "string" || !body.id) {
+    return NextResponse.json({ error: "id es obligatorio" }, { status: 400 });
+  }
+
+  try {
+    const store = new ExchangeConnectionStore(supabase, CredentialVault.fromEnv());
+    const connection = await store.getCredentials(user.id, body.id);
+    if (!connection) {
+      return NextResponse.json({ error: "Conexión no encontrada" }, { status: 404 });
+    }
+
+    const client = createExchangeClient(connection.exchange, connection.credentials, {
+      isTestnet: connection.isTestnet,
+    });
+    const check = await client.checkConnectivity();
+    await store.recordCheck(user.id, connection.id, check);
+
+    return NextResponse.json({ check });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  CredentialVault,
+  EXCHANGE_IDS,
+  EXCHANGE_REQUIRES_PASSPHRASE,
+  ExchangeConnectionStore,
+  validateExchangeConnectionInput,
+} from "@/lib/exchanges";
+
+/**
+ * GET /api/exchanges
+ *
+ * Conexiones del usuario (sin credenciales, solo la pista de la API key),
+ * exchanges soportados y si el servidor tiene clave de cifrado.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  try {
+    const connections = await new ExchangeConnectionStore(supabase).list(user.id);
+    return NextResponse.json({
+      exchanges: EXCHANGE_IDS.map((id) => ({ id, requiresPassphrase: EXCHANGE_REQUIRES_PASSPHRASE[id] })),
+      encryptionConfigured: Boolean(process.env.EXCHANGE_ENCRYPTION_KEY),
+      connections,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/exchanges
+ *
+ * Body: { connection: { id?, exchange, label?, apiKey?, apiSecret?, passphrase?, isTestnet?, isActive? } }
+ * Sin id crea la conexión; con id la actualiza. Omitir apiKey/apiSecret
+ * conserva las credenciales guardadas (p.ej. para activar/desactivar).
+ * 404 si el id no existe o es de otro usuario.
+ */
+export async function PUT(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: { connection?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body JSON inválido" }, { status: 400 });
+  }
+
+  const { input, errors } = validateExchangeConnectionInput(body.connection);
+  if (!input) {
+    return NextResponse.json({ error: "Conexión inválida", errors }, { status: 400 });
+  }
+
+  try {
+    const vault = input.apiKey !== undefined ? CredentialVault.fromEnv() : null;
+    const connection = await new ExchangeConnectionStore(supabase, vault).save(user.id, input);
+    if (!connection) {
+      return NextResponse.json({ error: "Conexión no encontrada" }, { status: 404 });
+    }
+    return NextResponse.json({ connection });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/exchanges?id=<connectionId>
+ *
+ * Borra la conexión y sus credenciales; los trades que la usaban se
+ * conservan con exchange_connection_id null.
+ */
+export async function DELETE(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const id = new URL(req.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Falta el parámetro id" }, { status: 400 });
+  }
+
+  try {
+    await new ExchangeConnectionStore(supabase).remove(user.id, id);
+    return NextResponse.json({ deleted: id });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
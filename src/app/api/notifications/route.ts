@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CredentialVault } from "@/lib/exchanges";
+import { NOTIFICATION_EVENT_TYPES, sealChannelSecret, validateChannelInput } from "@/lib/notifications";
+
+/**
+ * GET /api/notifications
+ *
+ * Canales de notificación del usuario (sin secretos, solo `hasSecret`),
+ * eventos disponibles y las últimas 50 entregas.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  try {
+    const [channelsRes, deliveriesRes] = await Promise.all([
+      supabase
+        .from("notification_channels")
+        .select("id, kind, target, secret, secret_encrypted, events, enabled, max_per_hour, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("notification_deliveries")
+        .select("id, channel_id, event_type, status, http_status, error, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(50),
+    ]);
+
+    if (channelsRes.error) throw new Error(channelsRes.error.message);
+    if (deliveriesRes.error) throw new Error(deliveriesRes.error.message);
+
+    return NextResponse.json({
+      eventTypes: NOTIFICATION_EVENT_TYPES,
+      channels: (channelsRes.data ?? []).map((c) => ({
+        id: c.id,
+        kind: c.kind,
+        target: c.target,
+        hasSecret: Boolean(c.secret_encrypted || c.secret),
+        events: c.events ?? [],
+        enabled: c.enabled,
+        maxPerHour: c.max_per_hour,
+        createdAt: c.created_at,
+      })),
+      deliveries: (deliveriesRes.data ?? []).map((d) => ({
+        id: d.id,
+        channelId: d.channel_id,
+        eventType: d.event_type,
+        status: d.status,
+        httpStatus: d.http_status,
+        error: d.error,
+        createdAt: d.created_at,
+      })),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/notifications
+ *
+ * Body: { channel: { id?, kind, target, secret?, events?, enabled?, maxPerHour? } }
+ * Sin id crea el canal; con id lo actualiza. Omitir `secret` conserva el
+ * guardado; el secreto se guarda sellado (requiere EXCHANGE_ENCRYPTION_KEY).
+ */
+export async function PUT(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: { channel?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body JSON inválido" }, { status: 400 });
+  }
+
+  const { input, errors } = validateChannelInput(body.channel);
+  if (!input) {
+    return NextResponse.json({ error: "Canal inválido", errors }, { status: 400 });
+  }
+
+  const row: Record<string, unknown> = {
+    user_id: user.id,
+    kind: input.kind,
+    target: input.target,
+    events: input.events,
+    enabled: input.enabled,
+    max_per_hour: input.maxPerHour,
+    updated_at: new Date().toISOString(),
+  };
+
+  try {
+    if (input.secret) {
+      Object.assign(row, sealChannelSecret(CredentialVault.fromEnv(), user.id, input.secret), {
+        secret: null,
+      });
+    } else if (input.secret === "") {
+      Object.assign(row, {
+        secret: null,
+        secret_encrypted: null,
+        secret_data_key_encrypted: null,
+        secret_key_id: null,
+      });
+    }
+
+    const query = input.id
+      ? supabase.from("notification_channels").update(row).eq("id", input.id).eq("user_id", user.id)
+      : supabase.from("notification_channels").insert(row);
+
+    const { data, error } = await query.select("id").single();
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({ id: data.id });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/notifications?id=<channelId>
+ *
+ * Borra el canal; sus entregas se conservan en el log con channel_id null.
+ */
+export async function DELETE(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const id = new URL(req.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Falta el parámetro id" }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("notification_channels")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", user.id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ deleted: id });
+}
@@ -8,9 +8,9 @@ import { ForwardPredictor } from "@/lib/engine/forward-predictor";
  *
  * Devuelve:
  *  - KPIs globales: expectancy, profit factor, win rate, max drawdown
- *  - Desglose Core vs Satellite
+ *  - Desglose Core vs Satellite y por red
  *  - Estado de riesgo actual
- *  - Posiciones abiertas
+ *  - Posiciones abiertas (y exposición abierta por red)
  *  - Rolling metrics (7d y 30d) con métricas forward-looking
  */
 export async function GET() {
@@ -26,16 +26,16 @@ export async function GET() {
   const [closedResult, openResult, riskResult] = await Promise.all([
     supabase
       .from("trades")
-      .select("pnl_abs, pnl_pct, is_win, layer, fees_abs, execution_mode, closed_at")
+      .select("pnl_abs, pnl_pct, is_win, layer, fees_abs, execution_mode, closed_at, metadata")
       .eq("user_id", user.id)
       .eq("status", "closed")
-      .eq("execution_mode", "paper"),
+      .in("execution_mode", ["paper", "shadow"]),
     supabase
       .from("trades")
       .select("id, symbol, layer, entry_price, quantity, metadata, opened_at")
       .eq("user_id", user.id)
       .eq("status", "open")
-      .eq("execution_mode", "paper"),
+      .in("execution_mode", ["paper", "shadow"]),
     supabase
       .from("risk_state")
       .select("*")
@@ -49,6 +49,19 @@ export async function GET() {
   const core = closed.filter((t) => t.layer === "core");
   const satellite = closed.filter((t) => t.layer === "satellite");
 
+  const byNetwork: Record<string, ReturnType<typeof calcMetrics>> = {};
+  for (const network of new Set(closed.map((t) => tradeNetwork(t.metadata)))) {
+    byNetwork[network] = calcMetrics(closed.filter((t) => tradeNetwork(t.metadata) === network));
+  }
+
+  const openExposureByNetwork: Record<string, number> = {};
+  for (const t of open) {
+    const network = tradeNetwork(t.metadata);
+    openExposureByNetwork[network] = round(
+      (openExposureByNetwork[network] ?? 0) + Number(t.quantity) * Number(t.entry_price)
+    );
+  }
+
   let rolling7d = null;
   let rolling30d = null;
   let forwardPrediction7d = null;
@@ -70,7 +83,9 @@ export async function GET() {
     global: calcMetrics(closed),
     core: calcMetrics(core),
     satellite: calcMetrics(satellite),
+    byNetwork,
     openPositions: open.length,
+    openExposureByNetwork,
     forwardPrediction7d,
     forwardPrediction30d,
     riskState: riskResult.data
@@ -89,6 +104,11 @@ export async function GET() {
   });
 }
 
+function tradeNetwork(metadata: unknown): string {
+  const network = (metadata as { network?: unknown } | null)?.network;
+  return typeof network === "string" && network ? network : "unknown";
+}
+
 function calcMetrics(trades: { pnl_abs: unknown; pnl_pct: unknown; is_win: unknown; fees_abs: unknown }[]) {
   if (trades.length === 0) {
     return {
@@ -5,6 +5,7 @@ import { DexScreenerClient } from "@/lib/market/dexscreener";
 export interface LivePriceRow {
   id: string;
   symbol: string;
+  side: "buy" | "sell";
   tokenAddress: string;
   network: string;
   dexUrl: string;
@@ -22,7 +23,8 @@ export interface LivePriceRow {
  *
  * Obtiene precios en tiempo real para posiciones abiertas.
  * Consulta DexScreener para cada token y devuelve precio actual,
- * PnL %, variación 24h/1h y enlace al chart.
+ * PnL % (con el signo del lado: en short gana si el precio baja),
+ * variación 24h/1h y enlace al chart.
  */
 export async function GET() {
   const supabase = await createClient();
@@ -36,10 +38,10 @@ export async function GET() {
 
   const { data: trades } = await supabase
     .from("trades")
-    .select("id, symbol, entry_price, opened_at, metadata")
+    .select("id, symbol, side, entry_price, opened_at, metadata")
     .eq("user_id", user.id)
     .eq("status", "open")
-    .eq("execution_mode", "paper");
+    .in("execution_mode", ["paper", "shadow", "live"]);
 
   if (!trades || trades.length === 0) {
     return NextResponse.json({ positions: [] });
@@ -57,6 +59,7 @@ export async function GET() {
       results.push({
         id: t.id,
         symbol: t.symbol,
+        side: t.side === "sell" ? "sell" : "buy",
         tokenAddress: "",
         network,
         dexUrl: "",
@@ -77,6 +80,7 @@ export async function GET() {
         results.push({
           id: t.id,
           symbol: t.symbol,
+        side: t.side === "sell" ? "sell" : "buy",
           tokenAddress,
           network,
           dexUrl: "",
@@ -93,7 +97,8 @@ export async function GET() {
 
       const entryPrice = Number(t.entry_price) || 0;
       const currentPrice = parseFloat(pair.priceUsd) || 0;
-      const pnlPct = entryPrice > 0 ? ((currentPrice - entryPrice) / entryPrice) * 100 : 0;
+      const sign = t.side === "sell" ? -1 : 1;
+      const pnlPct = entryPrice > 0 ? sign * ((currentPrice - entryPrice) / entryPrice) * 100 : 0;
       const priceChange24h = pair.priceChange?.h24 ?? 0;
       const priceChange1h = pair.priceChange?.h1 ?? 0;
       const liquidityUsd = pair.liquidity?.usd ?? 0;
@@ -101,6 +106,7 @@ export async function GET() {
       results.push({
         id: t.id,
         symbol: t.symbol,
+        side: t.side === "sell" ? "sell" : "buy",
         tokenAddress,
         network,
         dexUrl: pair.url ?? `https://dexscreener.com/${network}/${tokenAddress}`,
@@ -116,6 +122,7 @@ export async function GET() {
       results.push({
         id: t.id,
         symbol: t.symbol,
+        side: t.side === "sell" ? "sell" : "buy",
         tokenAddress,
         network,
         dexUrl: `https://dexscreener.com/${network}/${tokenAddress}`,
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { Orchestrator } from "@/lib/signals/orchestrator";
+import { CycleLockedError } from "@/lib/signals/cycle-lock";
+import { PositionManager } from "@/lib/signals/position-manager";
+import { PositionReconciler } from "@/lib/signals/position-reconciler";
+import { createReconcilerVenues } from "@/lib/engine/broker-factory";
+
+/**
+ * GET /api/positions/reconcile — últimas reconciliaciones de posiciones live.
+ * GET /api/positions/reconcile?limit=20
+ */
+export async function GET(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(parseInt(searchParams.get("limit") ?? "10") || 10, 50);
+
+  try {
+    const reconciler = new PositionReconciler(
+      supabase,
+      new PositionManager(supabase),
+      createReconcilerVenues(supabase, user.id)
+    );
+    const reports = await reconciler.listReports(user.id, limit);
+    return NextResponse.json({ reports });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/positions/reconcile
+ *
+ * Body: { apply?: boolean }
+ * Cuadra los trades live abiertos con los saldos de wallet y exchanges.
+ * Sin `apply` solo propone; con `apply: true` cierra los phantom y reduce
+ * los shortfall (exit_reason `reconciled`). 409 si hay un ciclo en curso.
+ */
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: { apply?: unknown } = {};
+  try {
+    body = await req.json();
+  } catch {
+    // sin body: solo propuesta
+  }
+
+  try {
+    const orchestrator = new Orchestrator(supabase, user.id);
+    const report = await orchestrator.reconcilePositions(body.apply === true);
+    return NextResponse.json({ report });
+  } catch (err) {
+    if (err instanceof CycleLockedError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -24,7 +24,7 @@ export async function GET(req: Request) {
     .from("trades")
     .select("*")
     .eq("user_id", user.id)
-    .eq("execution_mode", "paper")
+    .in("execution_mode", ["paper", "shadow", "live"])
     .order("opened_at", { ascending: false })
     .limit(limit);
 
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { PositionWatcher } from "@/lib/signals/position-watcher";
+import type { WatcherEvent } from "@/lib/signals/position-watcher";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * GET /api/positions/stream — Server-Sent Events con las posiciones
+ * abiertas del usuario en tiempo real.
+ *
+ * Arranca un PositionWatcher de solo lectura para el usuario mientras la
+ * conexión siga abierta: cada tick del feed (WebSocket o polling) llega
+ * como evento `update`, con `pendingExit` si dispara una regla de salida.
+ * No ejecuta salidas: eso lo hace el runner del watcher (`npm run
+ * watcher`), que no depende de que haya un dashboard abierto ni de
+ * `maxDuration`. Eventos: snapshot, update, error.
+ *
+ * La función se corta en `maxDuration`; EventSource reconecta solo.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const watcher = new PositionWatcher(supabase, { userIds: [user.id], exits: null });
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    watcher.stop();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      watcher.onEvent((event: WatcherEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // ya cerrado
+        }
+      });
+
+      write("retry: 5000\n\n");
+      await watcher.start();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
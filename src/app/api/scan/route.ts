@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { ArkhamClient } from "@/lib/arkham/client";
-import { WalletTracker } from "@/lib/arkham/wallet-tracker";
+import { ArkhamSwapFeed, WalletTracker } from "@/lib/arkham/wallet-tracker";
 import { WalletScorer } from "@/lib/arkham/wallet-scorer";
 import { SignalGenerator } from "@/lib/arkham/signal-generator";
 
@@ -33,7 +33,7 @@ export async function POST() {
     );
   }
 
-  const tracker = new WalletTracker(arkham, supabase);
+  const tracker = new WalletTracker(new ArkhamSwapFeed(arkham), supabase);
   const scorer = new WalletScorer(supabase);
   const signalGen = new SignalGenerator(supabase, user.id);
 
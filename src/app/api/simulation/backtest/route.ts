@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { Backtester, parseDataset } from "@/lib/backtest";
+import type { BacktestConfig, BacktestDataset } from "@/lib/backtest";
+
+const MAX_RANGE_DAYS = 90;
+
+/**
+ * POST /api/simulation/backtest
+ *
+ * Reproduce el pipeline del Orchestrator sobre datos grabados con reloj
+ * virtual y aleatoriedad con semilla (misma semilla → mismo resultado).
+ *
+ * Body:
+ *  - dataset?: { ticks?, snapshots } importado desde fichero
+ *  - from?, to?: rango ISO cuando se usan los datos propios de Supabase
+ *    (cycle_runs + signal_outcomes + token_health_snapshots). Por defecto 30d.
+ *  - seed?, initialCapital?, closeOpenAtEnd?
+ *  - momentum?, early?, confluence?, positions?, risk?: overrides de config
+ *  - includeCycles?: devuelve todos los ciclos (por defecto solo los que operan)
+ */
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  let body: Partial<BacktestConfig> & {
+    dataset?: unknown;
+    from?: string;
+    to?: string;
+    includeCycles?: boolean;
+  } = {};
+
+  try {
+    body = await req.json();
+  } catch {
+    // payload opcional
+  }
+
+  const initialCapital = Number(body.initialCapital ?? 10_000);
+  if (!Number.isFinite(initialCapital) || initialCapital <= 0) {
+    return NextResponse.json(
+      { error: "initialCapital debe ser un número > 0" },
+      { status: 400 }
+    );
+  }
+
+  const backtester = new Backtester(supabase, user.id, {
+    seed: body.seed ?? 42,
+    initialCapital,
+    closeOpenAtEnd: body.closeOpenAtEnd ?? true,
+    momentum: body.momentum,
+    early: body.early,
+    confluence: body.confluence,
+    positions: body.positions,
+    risk: body.risk,
+  });
+
+  let dataset: BacktestDataset;
+  try {
+    if (body.dataset) {
+      dataset = parseDataset(body.dataset);
+    } else {
+      const to = body.to ? new Date(body.to) : new Date();
+      const from = body.from
+        ? new Date(body.from)
+        : new Date(to.getTime() - 30 * 24 * 3600_000);
+
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+        return NextResponse.json(
+          { error: "Rango inválido: from debe ser anterior a to" },
+          { status: 400 }
+        );
+      }
+      if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 3600_000) {
+        return NextResponse.json(
+          { error: `Rango máximo ${MAX_RANGE_DAYS} días` },
+          { status: 400 }
+        );
+      }
+
+      dataset = await backtester.loadFromSupabase({ from, to });
+    }
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 400 }
+    );
+  }
+
+  if (dataset.ticks.length === 0) {
+    return NextResponse.json(
+      { error: "Dataset vacío: no hay ticks ni snapshots en el rango" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await backtester.run(dataset);
+    return NextResponse.json({
+      ...result,
+      cycles: body.includeCycles
+        ? result.cycles
+        : result.cycles.filter((c) => c.entries.length > 0 || c.exits.length > 0),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
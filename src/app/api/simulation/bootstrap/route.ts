@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { Orchestrator } from "@/lib/signals/orchestrator";
+import { CycleLockedError } from "@/lib/signals/cycle-lock";
 
 type WalletInput = {
   address: string;
@@ -133,9 +134,15 @@ export async function POST(req: Request) {
   }
 
   let firstCycle: Awaited<ReturnType<Orchestrator["runCycle"]>> | null = null;
+  let firstCycleSkipped: string | null = null;
   if (runFirstCycle) {
     const orchestrator = new Orchestrator(supabase, user.id);
-    firstCycle = await orchestrator.runCycle();
+    try {
+      firstCycle = await orchestrator.runCycle();
+    } catch (err) {
+      if (!(err instanceof CycleLockedError)) throw err;
+      firstCycleSkipped = err.message;
+    }
   }
 
   return NextResponse.json({
@@ -145,7 +152,8 @@ export async function POST(req: Request) {
     initialCapital,
     stateReset: resetState,
     walletsUpserted,
-    firstCycleExecuted: runFirstCycle,
+    firstCycleExecuted: firstCycle !== null,
+    firstCycleSkipped,
     firstCycle,
     nextSteps: [
       "Invocar POST /api/cycle manualmente o esperar scheduler automático.",
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { EXCHANGE_IDS, getMockExchange } from "@/lib/exchanges";
+import type { ExchangeId } from "@/lib/exchanges";
+
+/**
+ * /api/simulation/mock-exchange/<exchange>/<path>
+ *
+ * Exchange en memoria con las APIs REST firmadas de Binance, Bybit v5 y
+ * OKX v5, para probar conexiones sin claves reales. Para usarlo:
+ *   EXCHANGE_API_URL_BINANCE=https://<app>/api/simulation/mock-exchange/binance
+ * y key/secret MOCK_EXCHANGE_API_KEY / MOCK_EXCHANGE_API_SECRET.
+ *
+ * Solo en desarrollo/test y con esas credenciales definidas en env: la
+ * firma de cada request contra ellas es la autenticación. En producción,
+ * o sin credenciales, responde 404.
+ */
+async function handle(req: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "No disponible en producción" }, { status: 404 });
+  }
+  const mock = getMockExchange();
+  if (!mock) {
+    return NextResponse.json(
+      { error: "Mock exchange no configurado (MOCK_EXCHANGE_API_KEY / MOCK_EXCHANGE_API_SECRET)" },
+      { status: 404 }
+    );
+  }
+
+  const [exchange, ...rest] = (await params).path;
+  if (!EXCHANGE_IDS.includes(exchange as ExchangeId)) {
+    return NextResponse.json(
+      { error: `Exchange desconocido: ${exchange}. Usa ${EXCHANGE_IDS.join(", ")}` },
+      { status: 404 }
+    );
+  }
+
+  return mock.handle(exchange as ExchangeId, `/${rest.join("/")}`, req);
+}
+
+export const GET = handle;
+export const POST = handle;
+export const DELETE = handle;
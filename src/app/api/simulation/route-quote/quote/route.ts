@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { DexScreenerQuoteFetcher } from "@/lib/market/quote-fetcher";
+import { quoteMintFor, stubRoute, toJupiterResponse } from "@/lib/engine/route-quoter";
+
+/**
+ * GET /api/simulation/route-quote/quote
+ *
+ * Stub local con el formato de Jupiter `/quote` para shadow mode.
+ * Cotiza sobre un pool de producto constante con precios de DexScreener.
+ * Para usarlo: ROUTE_QUOTE_API_URL=https://<app>/api/simulation/route-quote
+ *
+ * Query: inputMint, outputMint, amount (unidades mínimas), network,
+ *        slippageBps (opcional), tokenDecimals (opcional, 9 por defecto).
+ *
+ * Solo en desarrollo/test: no tiene sesión (lo llama el propio servidor)
+ * y en producción responde 404 en vez de hacer de proxy de DexScreener.
+ */
+export async function GET(req: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "No disponible en producción" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const inputMint = searchParams.get("inputMint");
+  const outputMint = searchParams.get("outputMint");
+  const amountRaw = searchParams.get("amount");
+  const network = searchParams.get("network") ?? "solana";
+  const slippageBps = parseInt(searchParams.get("slippageBps") ?? "50") || 50;
+  const tokenDecimals = parseInt(searchParams.get("tokenDecimals") ?? "9") || 9;
+
+  if (!inputMint || !outputMint || !amountRaw || !/^\d+$/.test(amountRaw)) {
+    return NextResponse.json(
+      { error: "inputMint, outputMint y amount (entero) son obligatorios" },
+      { status: 400 }
+    );
+  }
+
+  const usdc = quoteMintFor(network).toLowerCase();
+  const isBuy = inputMint.toLowerCase() === usdc;
+  if (!isBuy && outputMint.toLowerCase() !== usdc) {
+    return NextResponse.json(
+      { error: `El stub solo cotiza pares contra USDC en ${network}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const token = isBuy ? outputMint : inputMint;
+    const quote = await new DexScreenerQuoteFetcher().getQuote(token, network);
+    if (quote.price <= 0) {
+      return NextResponse.json({ error: `Precio inválido para ${token}` }, { status: 400 });
+    }
+
+    const amount = BigInt(amountRaw);
+    const amountUsd = isBuy
+      ? Number(amount) / 1e6
+      : (Number(amount) / 10 ** tokenDecimals) * quote.price;
+    const side = isBuy ? "buy" : "sell";
+    const route = stubRoute(quote, side, amountUsd);
+
+    return NextResponse.json(
+      toJupiterResponse(inputMint, outputMint, amount, side, route, slippageBps, tokenDecimals)
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ShadowReportEngine } from "@/lib/engine/shadow-report";
+
+/**
+ * GET /api/simulation/shadow-report?days=30
+ *
+ * Compara el slippage simulado (SlippageModel + CompetitionSimulator)
+ * con el cotizado por la ruta en los fills de shadow mode, global,
+ * por red y por liquidez. Indica si paper es fiable antes de ir a live.
+ */
+export async function GET(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const days = Math.min(Math.max(parseInt(searchParams.get("days") ?? "30") || 30, 1), 180);
+
+  try {
+    const report = await new ShadowReportEngine(supabase).compute(user.id, days);
+    return NextResponse.json(report);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getProviderRouter } from "@/lib/market/provider-router";
+import type { ProviderHealth } from "@/lib/market/provider-router";
 
 /**
- * GET /api/status — verifica que la configuración del sistema está completa.
+ * GET /api/status — verifica que la configuración del sistema está completa
+ * e informa de la salud de las fuentes de market data (por instancia).
  *
  * No expone valores de secretos, solo presencia.
  */
@@ -14,6 +17,7 @@ export async function GET() {
     CRON_SECRET: !!process.env.CRON_SECRET,
     BIRDEYE_API_KEY: !!process.env.BIRDEYE_API_KEY,
     ARKHAM_API_KEY: !!process.env.ARKHAM_API_KEY,
+    EXCHANGE_ENCRYPTION_KEY: !!process.env.EXCHANGE_ENCRYPTION_KEY,
   };
 
   let dbConnected = false;
@@ -75,6 +79,7 @@ export async function GET() {
     checks.CRON_SECRET;
 
   const ready = allEnvs && dbConnected && tablesReady && userAuthenticated;
+  const providers = getProviderRouter().getHealth();
 
   return NextResponse.json({
     ready,
@@ -83,7 +88,8 @@ export async function GET() {
     tablesReady,
     userAuthenticated,
     riskStateExists,
-    nextSteps: buildNextSteps(checks, dbConnected, tablesReady, userAuthenticated, riskStateExists),
+    providers,
+    nextSteps: buildNextSteps(checks, dbConnected, tablesReady, userAuthenticated, riskStateExists, providers),
   });
 }
 
@@ -92,7 +98,8 @@ function buildNextSteps(
   db: boolean,
   tables: boolean,
   auth: boolean,
-  risk: boolean
+  risk: boolean,
+  providers: ProviderHealth[]
 ): string[] {
   const steps: string[] = [];
 
@@ -120,6 +127,9 @@ function buildNextSteps(
   if (auth && !risk) {
     steps.push("Ve a Simulación y haz click en 'Inicializar simulación' para crear tu estado de riesgo.");
   }
+  for (const p of providers.filter((h) => h.state === "open")) {
+    steps.push(`${p.provider} en circuit-break hasta ${p.openedUntil} (${p.lastError ?? "errores repetidos"}); el discovery usa la fuente alternativa.`);
+  }
   if (steps.length === 0) {
     steps.push("Todo listo. Puedes ejecutar ciclos desde Simulación.");
   }
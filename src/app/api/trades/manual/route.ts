@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { ExchangeConnectionStore } from "@/lib/exchanges";
 
 type TradeSide = "buy" | "sell";
 
@@ -43,6 +44,16 @@ export async function POST(req: Request) {
     );
   }
 
+  if (exchangeConnectionId) {
+    const connection = await new ExchangeConnectionStore(supabase).get(user.id, exchangeConnectionId);
+    if (!connection || !connection.isActive) {
+      return NextResponse.json(
+        { error: "exchangeConnectionId no existe o está desactivada" },
+        { status: 400 }
+      );
+    }
+  }
+
   const { data, error } = await supabase
     .from("trades")
     .insert({
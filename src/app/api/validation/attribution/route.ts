@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { SignalAttributionEngine } from "@/lib/signals/signal-attribution";
+
+/**
+ * GET /api/validation/attribution?days=90
+ *
+ * Regresión del PnL forward (1h/6h/24h/48h/7d) de las señales sobre los
+ * puntos de cada capa de confluencia, con pesos recomendados por capa.
+ */
+export async function GET(req: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const days = Math.min(Math.max(parseInt(searchParams.get("days") ?? "90") || 90, 1), 365);
+
+  try {
+    const report = await new SignalAttributionEngine(supabase).compute(user.id, days);
+    return NextResponse.json(report);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
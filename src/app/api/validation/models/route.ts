@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ConfluenceModelManager } from "@/lib/signals/learned-scoring";
+
+/**
+ * GET /api/validation/models
+ *
+ * Versiones del modelo aprendido de confluencia del usuario (activo,
+ * shadow y retirados) con su AUC fuera de muestra frente a las reglas.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  try {
+    const models = await new ConfluenceModelManager(supabase).listModels(user.id);
+    return NextResponse.json({ models });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -132,9 +132,10 @@ export default function AboutPage() {
               (Alpha Whale, DeFi OG, Early Sniper, Trend Surfer, Patient Whale)
               de forma determinista por (token + fecha). Cada wallet tiene su
               estilo, win rate histórico y redes preferidas. Los movimientos
-              se persisten en wallet_movements y el ConfluenceEngine los
-              detecta como wallet confluence real. Permite validar señales
-              incluso sin Arkham API."
+              se persisten en wallet_movements marcados como simulados, junto
+              a los reales del WalletTracker (Arkham). Cada usuario decide si
+              la confluencia simulada cuenta, y la validación compara el win
+              rate con y sin ella."
           />
           <Block
             title="10. Validación Forward + Reentrenamiento Incremental v2"
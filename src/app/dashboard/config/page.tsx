@@ -1,12 +1,20 @@
+import NotificationSettings from "@/components/dashboard/NotificationSettings";
+import StrategyConfigForm from "@/components/dashboard/StrategyConfigForm";
+
 export default function ConfigPage() {
   return (
-    <div>
-      <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
-        Configuración
-      </h1>
-      <p className="mt-1 text-slate-500 dark:text-slate-400">
-        Ajustes de estrategia, riesgo y APIs. Próximamente.
-      </p>
+    <div className="space-y-7">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold text-white">Configuración</h1>
+        <p className="mt-1 text-sm sm:text-base text-slate-300">
+          Umbrales de los detectores, confluencia, gestión de posiciones y riesgo. Cada
+          guardado crea una versión nueva que el siguiente ciclo aplica.
+        </p>
+      </div>
+
+      <StrategyConfigForm />
+
+      <NotificationSettings />
     </div>
   );
 }
@@ -1,12 +1,17 @@
+import ExchangeConnections from "@/components/dashboard/ExchangeConnections";
+
 export default function ExchangesPage() {
   return (
-    <div>
-      <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
-        Exchanges
-      </h1>
-      <p className="mt-1 text-slate-500 dark:text-slate-400">
-        Conecta tus APIs de exchange para ejecutar compras y ventas. Próximamente.
-      </p>
+    <div className="space-y-7">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold text-white">Exchanges</h1>
+        <p className="mt-1 text-sm sm:text-base text-slate-300">
+          Conecta tus APIs de Binance, Bybit u OKX para ejecutar compras y ventas. Prueba
+          cada conexión antes de activarla; en local puedes apuntarlas al exchange simulado.
+        </p>
+      </div>
+
+      <ExchangeConnections />
     </div>
   );
 }
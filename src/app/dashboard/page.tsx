@@ -1,4 +1,5 @@
 import { createClient } from "@/lib/supabase/server";
+import ReconciliationPanel from "@/components/dashboard/ReconciliationPanel";
 
 function startOfTodayIso() {
   const now = new Date();
@@ -119,6 +120,8 @@ export default async function DashboardPage() {
           </div>
         </div>
       </div>
+
+      <ReconciliationPanel />
     </div>
   );
 }
@@ -1,3 +1,5 @@
+import AttributionPanel from "@/components/dashboard/AttributionPanel";
+import CalibrationTimeline from "@/components/dashboard/CalibrationTimeline";
 import ValidationConsole from "@/components/dashboard/ValidationConsole";
 
 export default function ValidacionPage() {
@@ -14,6 +16,8 @@ export default function ValidacionPage() {
         </p>
       </div>
       <ValidationConsole />
+      <AttributionPanel />
+      <CalibrationTimeline />
     </div>
   );
 }
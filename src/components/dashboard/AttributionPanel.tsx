@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Component = "detector" | "wallet" | "health" | "regime" | "pattern";
+
+type Coefficient = {
+  component: Component;
+  coefficient: number;
+  stdError: number;
+  tStat: number;
+  correlation: number;
+  meanPts: number;
+};
+
+type WindowRegression = {
+  window: string;
+  samples: number;
+  intercept: number;
+  rSquared: number;
+  coefficients: Coefficient[];
+  constantComponents: Component[];
+};
+
+type Recommendation = {
+  component: Component;
+  currentMaxPts: number;
+  recommendedMaxPts: number;
+  reason: string;
+};
+
+type AttributionReport = {
+  days: number;
+  samples: number;
+  windows: WindowRegression[];
+  primaryWindow: string | null;
+  recommendations: Recommendation[];
+  verdict: string;
+};
+
+const COMPONENT_LABELS: Record<Component, string> = {
+  detector: "Detector",
+  wallet: "Wallets",
+  health: "Token health",
+  regime: "Régimen",
+  pattern: "Patrón",
+};
+
+const COMPONENTS: Component[] = ["detector", "wallet", "health", "regime", "pattern"];
+
+export default function AttributionPanel() {
+  const [report, setReport] = useState<AttributionReport | null>(null);
+  const [days, setDays] = useState(90);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void refresh(days);
+  }, [days]);
+
+  async function refresh(d: number) {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/validation/attribution?days=${d}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `HTTP ${res.status}`);
+      setReport(body as AttributionReport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+          Atribución por capa de confluencia
+        </h2>
+        <div className="flex items-center gap-2 text-xs">
+          {[30, 90, 180].map((d) => (
+            <button
+              key={d}
+              type="button"
+              onClick={() => setDays(d)}
+              disabled={loading}
+              className={`rounded-lg border px-2.5 py-1 ${
+                days === d
+                  ? "border-cyan-300/40 bg-cyan-400/10 text-cyan-200"
+                  : "border-white/20 bg-white/5 text-slate-300 hover:bg-white/10"
+              }`}
+            >
+              {d}d
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-400">
+        Coeficiente de una regresión del PnL forward sobre los puntos que aportó cada capa:
+        PnL extra por punto (t entre paréntesis). En verde, edge significativo; en rojo, capas
+        que restan.
+      </p>
+
+      {error && (
+        <p className="text-xs rounded-lg border border-rose-400/30 bg-rose-400/10 px-3 py-2 text-rose-200">
+          {error}
+        </p>
+      )}
+      {loading && !report && <p className="text-sm text-slate-400">Calculando atribución...</p>}
+
+      {report && (
+        <>
+          <p className="text-sm text-slate-200">{report.verdict}</p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-slate-300">
+              <thead>
+                <tr className="text-left text-slate-400">
+                  <th className="py-1 pr-3">Ventana</th>
+                  <th className="py-1 pr-3">Señales</th>
+                  <th className="py-1 pr-3">R²</th>
+                  {COMPONENTS.map((c) => (
+                    <th key={c} className="py-1 pr-3">{COMPONENT_LABELS[c]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.windows.map((w) => (
+                  <tr
+                    key={w.window}
+                    className={`border-t border-white/5 ${w.window === report.primaryWindow ? "text-white" : ""}`}
+                  >
+                    <td className="py-1.5 pr-3">{w.window}</td>
+                    <td className="py-1.5 pr-3">{w.samples}</td>
+                    <td className="py-1.5 pr-3">{w.coefficients.length > 0 ? w.rSquared.toFixed(2) : "-"}</td>
+                    {COMPONENTS.map((c) => {
+                      const coef = w.coefficients.find((x) => x.component === c);
+                      if (!coef) return <td key={c} className="py-1.5 pr-3 text-slate-500">-</td>;
+                      const tone =
+                        coef.tStat >= 1 ? "text-emerald-300" : coef.tStat <= -1 ? "text-rose-300" : "";
+                      return (
+                        <td key={c} className={`py-1.5 pr-3 ${tone}`}>
+                          {coef.coefficient.toFixed(3)} ({coef.tStat.toFixed(1)})
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.primaryWindow && (
+            <div className="rounded-xl border border-white/10 p-4 space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                Pesos recomendados (máx. puntos por capa, ventana {report.primaryWindow})
+              </h3>
+              <ul className="space-y-1 text-xs text-slate-300">
+                {report.recommendations.map((r) => {
+                  const delta = r.recommendedMaxPts - r.currentMaxPts;
+                  return (
+                    <li key={r.component} className="flex flex-wrap gap-x-2">
+                      <span className="w-24 text-slate-200">{COMPONENT_LABELS[r.component]}</span>
+                      <span>
+                        {r.currentMaxPts} → {r.recommendedMaxPts}
+                      </span>
+                      {delta !== 0 && (
+                        <span className={delta > 0 ? "text-emerald-300" : "text-rose-300"}>
+                          ({delta > 0 ? "+" : ""}{delta})
+                        </span>
+                      )}
+                      <span className="text-slate-500">{r.reason}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
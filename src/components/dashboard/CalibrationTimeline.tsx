@@ -0,0 +1,393 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Thresholds = {
+  momentumScoreThreshold: number;
+  earlyScoreThreshold: number;
+  coreMinConfidence: number;
+  satelliteMinConfidence: number;
+};
+
+type CalibrationVersion = {
+  id: string;
+  version: number;
+  source: "recalibration" | "rollback";
+  outcome: "applied" | "rejected" | "unchanged";
+  restoredVersion: number | null;
+  thresholds: Thresholds;
+  inputs: {
+    hitRate24h_core: number;
+    hitRate24h_satellite: number;
+    profitFactor_rolling: number;
+    exposureMomentumPct: number;
+    exposureEarlyPct: number;
+  };
+  walkForward: { accepted: boolean; reason: string } | null;
+  note: string | null;
+  createdAt: string;
+};
+
+type FieldDiff = {
+  field: string;
+  from: number | string | null;
+  to: number | string | null;
+  delta: number | null;
+};
+
+type CalibrationDiff = {
+  from: number;
+  to: number;
+  thresholds: FieldDiff[];
+  inputs: FieldDiff[];
+};
+
+const SERIES: { key: keyof Thresholds; label: string; color: string }[] = [
+  { key: "momentumScoreThreshold", label: "Momentum", color: "#22d3ee" },
+  { key: "earlyScoreThreshold", label: "Early", color: "#a78bfa" },
+  { key: "coreMinConfidence", label: "Core conf", color: "#34d399" },
+  { key: "satelliteMinConfidence", label: "Sat conf", color: "#fbbf24" },
+];
+
+const PF_COLOR = "#f472b6";
+const CHART_W = 600;
+const CHART_H = 200;
+const PAD = 28;
+
+const SELECT_CLASS =
+  "rounded-lg border border-white/15 bg-[#0e1538] px-2 py-1 text-xs text-white outline-none focus:border-cyan-300/40";
+
+export default function CalibrationTimeline() {
+  const [history, setHistory] = useState<CalibrationVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [diffFrom, setDiffFrom] = useState<number | null>(null);
+  const [diffTo, setDiffTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<CalibrationDiff | null>(null);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    setLastError(null);
+    try {
+      const res = await fetch("/api/calibration");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Calibración HTTP ${res.status}`);
+      const versions = (body.history ?? []) as CalibrationVersion[];
+      setHistory(versions);
+      if (versions.length > 1) {
+        setDiffFrom((prev) => prev ?? versions[1].version);
+        setDiffTo((prev) => prev ?? versions[0].version);
+      }
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function compare() {
+    if (diffFrom === null || diffTo === null) return;
+    setLastError(null);
+    try {
+      const res = await fetch(`/api/calibration/diff?from=${diffFrom}&to=${diffTo}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Diff HTTP ${res.status}`);
+      setDiff(body.diff as CalibrationDiff);
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function rollback(version: number) {
+    setBusy(true);
+    setLastError(null);
+    setLastAction(null);
+    try {
+      const res = await fetch("/api/calibration/rollback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Rollback HTTP ${res.status}`);
+      setLastAction(`Umbrales de v${version} restaurados como v${body.entry.version}.`);
+      setDiff(null);
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const timeline = [...history].reverse();
+  const latest = history[0]?.version ?? null;
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+          Evolución de la calibración
+        </h2>
+        <button
+          type="button"
+          onClick={() => void load()}
+          disabled={loading}
+          className="rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 disabled:opacity-60 px-3 py-1 text-xs text-slate-100"
+        >
+          {loading ? "Cargando..." : "Actualizar"}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Umbrales del auto-calibrador en cada versión (escala 0-100) junto al profit factor
+        rolling con el que se decidió el cambio (eje derecho).
+      </p>
+
+      {lastAction && (
+        <p className="text-xs rounded-lg border border-emerald-400/30 bg-emerald-400/10 px-3 py-2 text-emerald-200">
+          {lastAction}
+        </p>
+      )}
+      {lastError && (
+        <p className="text-xs rounded-lg border border-rose-400/30 bg-rose-400/10 px-3 py-2 text-rose-200">
+          {lastError}
+        </p>
+      )}
+
+      {!loading && history.length === 0 && (
+        <p className="text-sm text-slate-400">
+          Aún no hay versiones: el calibrador necesita al menos 20 señales con PnL a 24h.
+        </p>
+      )}
+
+      {timeline.length > 0 && <TimelineChart timeline={timeline} />}
+
+      {history.length > 1 && (
+        <div className="rounded-xl border border-white/10 p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+            <span>Comparar</span>
+            <select
+              value={diffFrom ?? ""}
+              onChange={(e) => setDiffFrom(Number(e.target.value))}
+              className={SELECT_CLASS}
+            >
+              {history.map((v) => (
+                <option key={v.id} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+            <span>con</span>
+            <select
+              value={diffTo ?? ""}
+              onChange={(e) => setDiffTo(Number(e.target.value))}
+              className={SELECT_CLASS}
+            >
+              {history.map((v) => (
+                <option key={v.id} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void compare()}
+              className="rounded border border-white/20 px-2 py-0.5 hover:bg-white/10"
+            >
+              Ver diff
+            </button>
+          </div>
+          {diff && <DiffTable diff={diff} />}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-slate-300">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="py-1 pr-3">Versión</th>
+                <th className="py-1 pr-3">Fecha</th>
+                <th className="py-1 pr-3">Mom / Early</th>
+                <th className="py-1 pr-3">Core / Sat</th>
+                <th className="py-1 pr-3">PF</th>
+                <th className="py-1 pr-3">Origen</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((v) => (
+                <tr key={v.id} className="border-t border-white/5">
+                  <td className="py-1.5 pr-3">v{v.version}</td>
+                  <td className="py-1.5 pr-3">{new Date(v.createdAt).toLocaleString()}</td>
+                  <td className="py-1.5 pr-3">
+                    {v.thresholds.momentumScoreThreshold} / {v.thresholds.earlyScoreThreshold}
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    {v.thresholds.coreMinConfidence} / {v.thresholds.satelliteMinConfidence}
+                  </td>
+                  <td className="py-1.5 pr-3">{v.inputs.profitFactor_rolling.toFixed(2)}</td>
+                  <td className="py-1.5 pr-3">
+                    {v.source === "rollback"
+                      ? `rollback a v${v.restoredVersion}`
+                      : v.outcome === "unchanged"
+                        ? "sin cambios"
+                        : v.walkForward
+                          ? `walk-forward${v.outcome === "rejected" ? " (rechazado)" : ""}: ${v.walkForward.reason}`
+                          : "recalibrado"}
+                  </td>
+                  <td className="py-1.5 text-right">
+                    {v.version === latest ? (
+                      <span className="text-emerald-300">actual</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => void rollback(v.version)}
+                        disabled={busy}
+                        className="rounded border border-white/20 px-2 py-0.5 hover:bg-white/10 disabled:opacity-60"
+                      >
+                        Restaurar
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function TimelineChart({ timeline }: { timeline: CalibrationVersion[] }) {
+  const innerW = CHART_W - PAD * 2;
+  const innerH = CHART_H - PAD * 2;
+  const maxPf = Math.max(2, ...timeline.map((v) => v.inputs.profitFactor_rolling));
+
+  const x = (i: number) => PAD + (timeline.length > 1 ? (i / (timeline.length - 1)) * innerW : innerW / 2);
+  const yThreshold = (value: number) => PAD + innerH - (Math.min(Math.max(value, 0), 100) / 100) * innerH;
+  const yPf = (value: number) => PAD + innerH - (Math.min(value, maxPf) / maxPf) * innerH;
+
+  // Escalones: el umbral se mantiene hasta la siguiente versión
+  const stepPath = (value: (v: CalibrationVersion) => number, y: (n: number) => number) =>
+    timeline
+      .map((v, i) => {
+        const point = `${x(i)} ${y(value(v))}`;
+        return i === 0 ? `M${point}` : `H${x(i)} V${y(value(v))}`;
+      })
+      .join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-52 rounded-xl border border-white/10 bg-[#0e1538]">
+        {[0, 25, 50, 75, 100].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PAD}
+              x2={CHART_W - PAD}
+              y1={yThreshold(tick)}
+              y2={yThreshold(tick)}
+              stroke="rgba(148,163,184,0.15)"
+            />
+            <text x={PAD - 6} y={yThreshold(tick) + 3} textAnchor="end" fontSize="9" fill="#94a3b8">
+              {tick}
+            </text>
+            <text x={CHART_W - PAD + 6} y={yThreshold(tick) + 3} fontSize="9" fill={PF_COLOR}>
+              {((tick / 100) * maxPf).toFixed(1)}
+            </text>
+          </g>
+        ))}
+        {SERIES.map((s) => (
+          <path
+            key={s.key}
+            d={stepPath((v) => v.thresholds[s.key], yThreshold)}
+            fill="none"
+            stroke={s.color}
+            strokeWidth="2"
+          />
+        ))}
+        <polyline
+          points={timeline.map((v, i) => `${x(i)},${yPf(v.inputs.profitFactor_rolling)}`).join(" ")}
+          fill="none"
+          stroke={PF_COLOR}
+          strokeWidth="1.5"
+          strokeDasharray="4 3"
+        />
+        {timeline.map((v, i) => (
+          <g key={v.id}>
+            <circle
+              cx={x(i)}
+              cy={yPf(v.inputs.profitFactor_rolling)}
+              r="2.5"
+              fill={v.source === "rollback" ? "#f87171" : PF_COLOR}
+            />
+            <text x={x(i)} y={CHART_H - 8} textAnchor="middle" fontSize="9" fill="#94a3b8">
+              v{v.version}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-xs text-slate-300">
+        {SERIES.map((s) => (
+          <span key={s.key} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-3 rounded-sm" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-3 rounded-sm" style={{ backgroundColor: PF_COLOR }} />
+          PF rolling
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-full bg-red-400" />
+          rollback
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function DiffTable({ diff }: { diff: CalibrationDiff }) {
+  const rows = [
+    ...diff.thresholds.map((d) => ({ ...d, group: "Umbral" })),
+    ...diff.inputs.map((d) => ({ ...d, group: "Entrada" })),
+  ];
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-slate-400">v{diff.from} y v{diff.to} son idénticas.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs text-slate-300">
+      <thead>
+        <tr className="text-left text-slate-400">
+          <th className="py-1 pr-3" />
+          <th className="py-1 pr-3">Campo</th>
+          <th className="py-1 pr-3">v{diff.from}</th>
+          <th className="py-1 pr-3">v{diff.to}</th>
+          <th className="py-1">Δ</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((d) => (
+          <tr key={`${d.group}-${d.field}`} className="border-t border-white/5">
+            <td className="py-1 pr-3 text-slate-500">{d.group}</td>
+            <td className="py-1 pr-3">{d.field}</td>
+            <td className="py-1 pr-3">{d.from ?? "-"}</td>
+            <td className="py-1 pr-3">{d.to ?? "-"}</td>
+            <td
+              className={`py-1 ${
+                d.delta === null ? "" : d.delta > 0 ? "text-emerald-300" : "text-rose-300"
+              }`}
+            >
+              {d.delta === null ? "-" : `${d.delta > 0 ? "+" : ""}${d.delta}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
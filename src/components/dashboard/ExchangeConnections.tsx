@@ -0,0 +1,409 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ExchangeId = "binance" | "bybit" | "okx";
+
+type Connection = {
+  id: string;
+  exchange: ExchangeId;
+  label: string | null;
+  apiKeyHint: string | null;
+  hasPassphrase: boolean;
+  isTestnet: boolean;
+  isActive: boolean;
+  lastCheckAt: string | null;
+  lastCheckOk: boolean | null;
+  lastCheckError: string | null;
+  createdAt: string;
+};
+
+type ExchangesResponse = {
+  exchanges: { id: ExchangeId; requiresPassphrase: boolean }[];
+  encryptionConfigured: boolean;
+  connections: Connection[];
+};
+
+type CheckResult = {
+  ok: boolean;
+  latencyMs: number;
+  assets: number;
+  canTrade: boolean | null;
+  error: string | null;
+};
+
+type Draft = {
+  id?: string;
+  exchange: ExchangeId;
+  label: string;
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string;
+  isTestnet: boolean;
+  isActive: boolean;
+};
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-white/15 bg-[#0e1538] px-3 py-2 text-sm text-white outline-none focus:border-cyan-300/40";
+
+const EXCHANGE_LABELS: Record<ExchangeId, string> = {
+  binance: "Binance",
+  bybit: "Bybit",
+  okx: "OKX",
+};
+
+const EMPTY_DRAFT: Draft = {
+  exchange: "binance",
+  label: "",
+  apiKey: "",
+  apiSecret: "",
+  passphrase: "",
+  isTestnet: true,
+  isActive: true,
+};
+
+export default function ExchangeConnections() {
+  const [data, setData] = useState<ExchangesResponse | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function load() {
+    try {
+      const res = await fetch("/api/exchanges");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Exchanges HTTP ${res.status}`);
+      setData(body as ExchangesResponse);
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function put(connection: Record<string, unknown>): Promise<void> {
+    const res = await fetch("/api/exchanges", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ connection }),
+    });
+    const body = await res.json();
+    if (!res.ok) {
+      setFieldErrors(Array.isArray(body?.errors) ? body.errors : []);
+      throw new Error(body?.error ?? `Exchanges HTTP ${res.status}`);
+    }
+  }
+
+  async function save() {
+    setSaving(true);
+    setLastAction(null);
+    setLastError(null);
+    setFieldErrors([]);
+    try {
+      // al editar, key y secret vacías conservan las credenciales guardadas
+      const withCredentials = !draft.id || Boolean(draft.apiKey || draft.apiSecret);
+      await put({
+        id: draft.id,
+        exchange: draft.exchange,
+        label: draft.label,
+        apiKey: withCredentials ? draft.apiKey : undefined,
+        apiSecret: withCredentials ? draft.apiSecret : undefined,
+        passphrase: withCredentials ? draft.passphrase : undefined,
+        isTestnet: draft.isTestnet,
+        isActive: draft.isActive,
+      });
+      setLastAction(draft.id ? "Conexión actualizada" : "Conexión creada");
+      setDraft(EMPTY_DRAFT);
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(c: Connection) {
+    setLastAction(null);
+    setLastError(null);
+    setFieldErrors([]);
+    try {
+      await put({
+        id: c.id,
+        exchange: c.exchange,
+        label: c.label ?? "",
+        isTestnet: c.isTestnet,
+        isActive: !c.isActive,
+      });
+      setLastAction(c.isActive ? "Conexión desactivada" : "Conexión activada");
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function check(id: string) {
+    setCheckingId(id);
+    setLastAction(null);
+    setLastError(null);
+    try {
+      const res = await fetch("/api/exchanges/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Exchanges HTTP ${res.status}`);
+      const result = body.check as CheckResult;
+      if (result.ok) {
+        const trade =
+          result.canTrade === false ? " · key de solo lectura" : result.canTrade ? " · trading habilitado" : "";
+        setLastAction(`Conexión OK en ${result.latencyMs} ms · ${result.assets} activos con saldo${trade}`);
+      } else {
+        setLastError(`La prueba falló: ${result.error ?? "sin detalle"}`);
+      }
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCheckingId(null);
+    }
+  }
+
+  async function remove(id: string) {
+    setLastAction(null);
+    setLastError(null);
+    try {
+      const res = await fetch(`/api/exchanges?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Exchanges HTTP ${res.status}`);
+      setLastAction("Conexión eliminada");
+      if (draft.id === id) setDraft(EMPTY_DRAFT);
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function edit(c: Connection) {
+    setDraft({
+      id: c.id,
+      exchange: c.exchange,
+      label: c.label ?? "",
+      apiKey: "",
+      apiSecret: "",
+      passphrase: "",
+      isTestnet: c.isTestnet,
+      isActive: c.isActive,
+    });
+  }
+
+  const requiresPassphrase =
+    data?.exchanges.find((e) => e.id === draft.exchange)?.requiresPassphrase ?? false;
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4">
+      <div>
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+          Conexiones
+        </h2>
+        <p className="mt-1 text-xs text-slate-400">
+          Las API keys se guardan cifradas (una data key por conexión, envuelta con la
+          clave del servidor) y nunca vuelven al navegador: solo se muestran sus últimos
+          4 caracteres. Usa keys sin permiso de retirada.
+        </p>
+      </div>
+
+      {data && !data.encryptionConfigured && (
+        <p className="text-xs rounded-lg border border-amber-400/30 bg-amber-400/10 px-3 py-2 text-amber-200">
+          EXCHANGE_ENCRYPTION_KEY no está configurada en el servidor: no se pueden guardar
+          ni probar conexiones.
+        </p>
+      )}
+      {lastAction && (
+        <p className="text-xs rounded-lg border border-emerald-400/30 bg-emerald-400/10 px-3 py-2 text-emerald-200">
+          {lastAction}
+        </p>
+      )}
+      {lastError && (
+        <div className="text-xs rounded-lg border border-rose-400/30 bg-rose-400/10 px-3 py-2 text-rose-200 space-y-1">
+          <p>{lastError}</p>
+          {fieldErrors.length > 0 && (
+            <ul className="space-y-0.5">
+              {fieldErrors.map((e) => (
+                <li key={e}>&bull; {e}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {data && data.connections.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-slate-300">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="py-1 pr-3">Exchange</th>
+                <th className="py-1 pr-3">Etiqueta</th>
+                <th className="py-1 pr-3">API key</th>
+                <th className="py-1 pr-3">Red</th>
+                <th className="py-1 pr-3">Último check</th>
+                <th className="py-1 pr-3">Estado</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.connections.map((c) => (
+                <tr key={c.id} className="border-t border-white/5">
+                  <td className="py-2 pr-3">{EXCHANGE_LABELS[c.exchange]}</td>
+                  <td className="py-2 pr-3">{c.label ?? "—"}</td>
+                  <td className="py-2 pr-3 font-mono">{c.apiKeyHint ? `••••${c.apiKeyHint}` : "—"}</td>
+                  <td className="py-2 pr-3">{c.isTestnet ? "Testnet" : "Mainnet"}</td>
+                  <td className="py-2 pr-3" title={c.lastCheckError ?? undefined}>
+                    {c.lastCheckAt ? (
+                      <span className={c.lastCheckOk ? "text-emerald-300" : "text-rose-300"}>
+                        {c.lastCheckOk ? "OK" : "Error"} · {new Date(c.lastCheckAt).toLocaleString()}
+                      </span>
+                    ) : (
+                      <span className="text-slate-500">Sin probar</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    {c.isActive ? (
+                      <span className="text-emerald-300">Activa</span>
+                    ) : (
+                      <span className="text-slate-500">Desactivada</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => void check(c.id)}
+                      disabled={checkingId !== null}
+                      className="underline text-cyan-300 disabled:opacity-60"
+                    >
+                      {checkingId === c.id ? "Probando..." : "Probar"}
+                    </button>
+                    <button type="button" onClick={() => void toggleActive(c)} className="ml-3 underline text-amber-300">
+                      {c.isActive ? "Desactivar" : "Activar"}
+                    </button>
+                    <button type="button" onClick={() => edit(c)} className="ml-3 underline text-cyan-300">
+                      Editar
+                    </button>
+                    <button type="button" onClick={() => void remove(c.id)} className="ml-3 underline text-rose-300">
+                      Borrar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="rounded-xl border border-white/10 p-4 space-y-4">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {draft.id ? "Editar conexión" : "Nueva conexión"}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">Exchange</span>
+            <select
+              value={draft.exchange}
+              onChange={(e) => setDraft({ ...draft, exchange: e.target.value as ExchangeId })}
+              disabled={Boolean(draft.id)}
+              className={INPUT_CLASS}
+            >
+              {(Object.keys(EXCHANGE_LABELS) as ExchangeId[]).map((id) => (
+                <option key={id} value={id}>{EXCHANGE_LABELS[id]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">Etiqueta (opcional)</span>
+            <input
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">
+              API key{draft.id && " · vacío = conservar"}
+            </span>
+            <input
+              value={draft.apiKey}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+              className={INPUT_CLASS}
+              autoComplete="off"
+            />
+          </label>
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">
+              API secret{draft.id && " · vacío = conservar"}
+            </span>
+            <input
+              type="password"
+              value={draft.apiSecret}
+              onChange={(e) => setDraft({ ...draft, apiSecret: e.target.value })}
+              className={INPUT_CLASS}
+              autoComplete="off"
+            />
+          </label>
+          {requiresPassphrase && (
+            <label className="space-y-1 block">
+              <span className="text-xs text-slate-400">Passphrase</span>
+              <input
+                type="password"
+                value={draft.passphrase}
+                onChange={(e) => setDraft({ ...draft, passphrase: e.target.value })}
+                className={INPUT_CLASS}
+                autoComplete="off"
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.isTestnet}
+              onChange={(e) => setDraft({ ...draft, isTestnet: e.target.checked })}
+            />
+            Testnet
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.isActive}
+              onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+            />
+            Activa
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void save()}
+            disabled={saving}
+            className="rounded-lg bg-cyan-500/80 hover:bg-cyan-400 disabled:opacity-60 px-4 py-2 text-sm font-semibold text-[#041025]"
+          >
+            {saving ? "Guardando..." : draft.id ? "Guardar conexión" : "Añadir conexión"}
+          </button>
+          {draft.id && (
+            <button
+              type="button"
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 px-4 py-2 text-sm text-slate-100"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,376 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ChannelKind = "webhook" | "telegram" | "email";
+
+type Channel = {
+  id: string;
+  kind: ChannelKind;
+  target: string;
+  hasSecret: boolean;
+  events: string[];
+  enabled: boolean;
+  maxPerHour: number;
+  createdAt: string;
+};
+
+type Delivery = {
+  id: string;
+  channelId: string | null;
+  eventType: string;
+  status: "sent" | "failed" | "rate_limited";
+  httpStatus: number | null;
+  error: string | null;
+  createdAt: string;
+};
+
+type NotificationsResponse = {
+  eventTypes: string[];
+  channels: Channel[];
+  deliveries: Delivery[];
+};
+
+type Draft = {
+  id?: string;
+  kind: ChannelKind;
+  target: string;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  maxPerHour: string;
+};
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-white/15 bg-[#0e1538] px-3 py-2 text-sm text-white outline-none focus:border-cyan-300/40";
+
+const KIND_LABELS: Record<ChannelKind, { label: string; target: string; secret: string }> = {
+  webhook: { label: "Webhook", target: "URL (https://...)", secret: "Secreto HMAC (opcional)" },
+  telegram: { label: "Telegram", target: "chat_id", secret: "Token del bot (vacío = TELEGRAM_BOT_TOKEN)" },
+  email: { label: "Email", target: "Dirección de email", secret: "" },
+};
+
+const EMPTY_DRAFT: Draft = {
+  kind: "webhook",
+  target: "",
+  secret: "",
+  events: [],
+  enabled: true,
+  maxPerHour: "20",
+};
+
+export default function NotificationSettings() {
+  const [data, setData] = useState<NotificationsResponse | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function load() {
+    try {
+      const res = await fetch("/api/notifications");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Notificaciones HTTP ${res.status}`);
+      setData(body as NotificationsResponse);
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function save() {
+    setSaving(true);
+    setLastAction(null);
+    setLastError(null);
+    setFieldErrors([]);
+    try {
+      const res = await fetch("/api/notifications", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          channel: {
+            id: draft.id,
+            kind: draft.kind,
+            target: draft.target,
+            // al editar, vacío conserva el secreto guardado
+            secret: draft.id && !draft.secret ? undefined : draft.secret,
+            events: draft.events,
+            enabled: draft.enabled,
+            maxPerHour: Number(draft.maxPerHour),
+          },
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setFieldErrors(Array.isArray(body?.errors) ? body.errors : []);
+        throw new Error(body?.error ?? `Notificaciones HTTP ${res.status}`);
+      }
+      setLastAction(draft.id ? "Canal actualizado" : "Canal creado");
+      setDraft(EMPTY_DRAFT);
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(id: string) {
+    setLastAction(null);
+    setLastError(null);
+    try {
+      const res = await fetch(`/api/notifications?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Notificaciones HTTP ${res.status}`);
+      setLastAction("Canal eliminado");
+      if (draft.id === id) setDraft(EMPTY_DRAFT);
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function edit(channel: Channel) {
+    setDraft({
+      id: channel.id,
+      kind: channel.kind,
+      target: channel.target,
+      secret: "",
+      events: channel.events,
+      enabled: channel.enabled,
+      maxPerHour: String(channel.maxPerHour),
+    });
+  }
+
+  function toggleEvent(event: string) {
+    setDraft((d) => ({
+      ...d,
+      events: d.events.includes(event) ? d.events.filter((e) => e !== event) : [...d.events, event],
+    }));
+  }
+
+  const labels = KIND_LABELS[draft.kind];
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4">
+      <div>
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+          Notificaciones
+        </h2>
+        <p className="mt-1 text-xs text-slate-400">
+          Eventos de cada ciclo (trades, pausas del RiskGate, stress events, cambios de
+          calibración y errores) por webhook firmado, Telegram o email.
+        </p>
+      </div>
+
+      {lastAction && (
+        <p className="text-xs rounded-lg border border-emerald-400/30 bg-emerald-400/10 px-3 py-2 text-emerald-200">
+          {lastAction}
+        </p>
+      )}
+      {lastError && (
+        <div className="text-xs rounded-lg border border-rose-400/30 bg-rose-400/10 px-3 py-2 text-rose-200 space-y-1">
+          <p>{lastError}</p>
+          {fieldErrors.length > 0 && (
+            <ul className="space-y-0.5">
+              {fieldErrors.map((e) => (
+                <li key={e}>&bull; {e}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {data && data.channels.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-slate-300">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="py-1 pr-3">Canal</th>
+                <th className="py-1 pr-3">Destino</th>
+                <th className="py-1 pr-3">Eventos</th>
+                <th className="py-1 pr-3">Máx/h</th>
+                <th className="py-1 pr-3">Estado</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.channels.map((c) => (
+                <tr key={c.id} className="border-t border-white/5">
+                  <td className="py-2 pr-3">{KIND_LABELS[c.kind].label}</td>
+                  <td className="py-2 pr-3 max-w-[16rem] truncate" title={c.target}>{c.target}</td>
+                  <td className="py-2 pr-3">{c.events.length === 0 ? "todos" : c.events.join(", ")}</td>
+                  <td className="py-2 pr-3">{c.maxPerHour}</td>
+                  <td className="py-2 pr-3">
+                    {c.enabled ? (
+                      <span className="text-emerald-300">Activo</span>
+                    ) : (
+                      <span className="text-slate-500">Pausado</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button type="button" onClick={() => edit(c)} className="underline text-cyan-300">
+                      Editar
+                    </button>
+                    <button type="button" onClick={() => void remove(c.id)} className="ml-3 underline text-rose-300">
+                      Borrar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="rounded-xl border border-white/10 p-4 space-y-4">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {draft.id ? "Editar canal" : "Nuevo canal"}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">Tipo</span>
+            <select
+              value={draft.kind}
+              onChange={(e) => setDraft({ ...draft, kind: e.target.value as ChannelKind })}
+              disabled={Boolean(draft.id)}
+              className={INPUT_CLASS}
+            >
+              {(Object.keys(KIND_LABELS) as ChannelKind[]).map((k) => (
+                <option key={k} value={k}>{KIND_LABELS[k].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 block lg:col-span-2">
+            <span className="text-xs text-slate-400">{labels.target}</span>
+            <input
+              value={draft.target}
+              onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">Máximo por hora</span>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={draft.maxPerHour}
+              onChange={(e) => setDraft({ ...draft, maxPerHour: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          {labels.secret && (
+            <label className="space-y-1 block lg:col-span-2">
+              <span className="text-xs text-slate-400">
+                {labels.secret}
+                {draft.id && " · vacío = conservar"}
+              </span>
+              <input
+                type="password"
+                value={draft.secret}
+                onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+                className={INPUT_CLASS}
+                autoComplete="off"
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+            />
+            Activo
+          </label>
+        </div>
+
+        {data && (
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Eventos (ninguno marcado = todos)</span>
+            <div className="flex flex-wrap gap-3">
+              {data.eventTypes.map((event) => (
+                <label key={event} className="flex items-center gap-1.5 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                  />
+                  {event}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void save()}
+            disabled={saving}
+            className="rounded-lg bg-cyan-500/80 hover:bg-cyan-400 disabled:opacity-60 px-4 py-2 text-sm font-semibold text-[#041025]"
+          >
+            {saving ? "Guardando..." : draft.id ? "Guardar canal" : "Añadir canal"}
+          </button>
+          {draft.id && (
+            <button
+              type="button"
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 px-4 py-2 text-sm text-slate-100"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </div>
+
+      {data && data.deliveries.length > 0 && (
+        <details className="rounded-xl border border-white/10 p-4">
+          <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Últimas entregas ({data.deliveries.length})
+          </summary>
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-xs text-slate-300">
+              <thead>
+                <tr className="text-left text-slate-400">
+                  <th className="py-1 pr-3">Fecha</th>
+                  <th className="py-1 pr-3">Evento</th>
+                  <th className="py-1 pr-3">Estado</th>
+                  <th className="py-1 pr-3">Detalle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.deliveries.map((d) => (
+                  <tr key={d.id} className="border-t border-white/5">
+                    <td className="py-2 pr-3 text-slate-400">{new Date(d.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-3">{d.eventType}</td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className={
+                          d.status === "sent"
+                            ? "text-emerald-300"
+                            : d.status === "failed"
+                              ? "text-rose-300"
+                              : "text-amber-300"
+                        }
+                      >
+                        {d.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3 text-slate-400">
+                      {d.httpStatus ? `HTTP ${d.httpStatus}` : ""} {d.error ?? ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </section>
+  );
+}
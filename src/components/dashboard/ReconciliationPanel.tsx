@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ItemStatus = "ok" | "phantom" | "shortfall" | "surplus" | "orphaned" | "unchecked";
+
+type Item = {
+  venue: string;
+  status: ItemStatus;
+  tradeId: string | null;
+  symbol: string;
+  network: string | null;
+  asset: string | null;
+  expectedQuantity: number;
+  heldQuantity: number;
+  differenceUsd: number;
+  action: "close" | "reduce" | "none";
+  applied: boolean;
+  note: string;
+};
+
+type Report = {
+  id: string | null;
+  createdAt: string;
+  autoApply: boolean;
+  venuesChecked: number;
+  positionsChecked: number;
+  issues: number;
+  applied: number;
+  items: Item[];
+  errors: string[];
+};
+
+const STATUS_LABELS: Record<ItemStatus, { label: string; className: string }> = {
+  ok: { label: "OK", className: "text-emerald-300" },
+  phantom: { label: "Fantasma", className: "text-rose-300" },
+  shortfall: { label: "Faltante", className: "text-amber-300" },
+  surplus: { label: "Sobrante", className: "text-cyan-300" },
+  orphaned: { label: "Huérfano", className: "text-amber-300" },
+  unchecked: { label: "Sin revisar", className: "text-slate-500" },
+};
+
+const ACTION_LABELS: Record<Item["action"], string> = {
+  close: "Cerrar",
+  reduce: "Reducir",
+  none: "—",
+};
+
+export default function ReconciliationPanel() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [running, setRunning] = useState(false);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function load() {
+    try {
+      const res = await fetch("/api/positions/reconcile?limit=1");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Reconcile HTTP ${res.status}`);
+      setReport((body.reports as Report[])[0] ?? null);
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function run(apply: boolean) {
+    setRunning(true);
+    setLastAction(null);
+    setLastError(null);
+    try {
+      const res = await fetch("/api/positions/reconcile", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apply }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Reconcile HTTP ${res.status}`);
+      const next = body.report as Report;
+      setReport(next);
+      setLastAction(
+        apply
+          ? `${next.applied} corrección(es) aplicada(s)`
+          : next.issues > 0
+            ? `${next.issues} posición(es) no cuadran`
+            : "Todas las posiciones cuadran con los saldos"
+      );
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  const pending = report?.items.filter((i) => i.action !== "none" && !i.applied).length ?? 0;
+  const visible = report?.items.filter((i) => i.status !== "ok") ?? [];
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+            Reconciliación de posiciones
+          </h2>
+          <p className="mt-1 text-xs text-slate-400">
+            Compara los trades live abiertos con los saldos reales de la wallet y de los
+            exchanges. Los trades sin saldo se proponen para cerrar como <code>reconciled</code>.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void run(false)}
+            disabled={running}
+            className="rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 disabled:opacity-60 px-4 py-2 text-sm text-slate-100"
+          >
+            {running ? "Revisando..." : "Revisar ahora"}
+          </button>
+          {pending > 0 && (
+            <button
+              type="button"
+              onClick={() => void run(true)}
+              disabled={running}
+              className="rounded-lg bg-cyan-500/80 hover:bg-cyan-400 disabled:opacity-60 px-4 py-2 text-sm font-semibold text-[#041025]"
+            >
+              Aplicar {pending} corrección(es)
+            </button>
+          )}
+        </div>
+      </div>
+
+      {lastAction && (
+        <p className="text-xs rounded-lg border border-emerald-400/30 bg-emerald-400/10 px-3 py-2 text-emerald-200">
+          {lastAction}
+        </p>
+      )}
+      {lastError && (
+        <p className="text-xs rounded-lg border border-rose-400/30 bg-rose-400/10 px-3 py-2 text-rose-200">
+          {lastError}
+        </p>
+      )}
+
+      {!report ? (
+        <p className="text-xs text-slate-500">Todavía no hay ninguna reconciliación.</p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">
+            {new Date(report.createdAt).toLocaleString()} · {report.positionsChecked} posiciones ·{" "}
+            {report.venuesChecked} venues · {report.issues} incidencias
+            {report.autoApply && ` · ${report.applied} aplicadas`}
+          </p>
+
+          {report.errors.length > 0 && (
+            <ul className="text-xs rounded-lg border border-amber-400/30 bg-amber-400/10 px-3 py-2 text-amber-200 space-y-0.5">
+              {report.errors.map((e) => (
+                <li key={e}>&bull; {e}</li>
+              ))}
+            </ul>
+          )}
+
+          {visible.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-slate-300">
+                <thead>
+                  <tr className="text-left text-slate-400">
+                    <th className="py-1 pr-3">Token</th>
+                    <th className="py-1 pr-3">Venue</th>
+                    <th className="py-1 pr-3">Estado</th>
+                    <th className="py-1 pr-3 text-right">Trade</th>
+                    <th className="py-1 pr-3 text-right">Saldo</th>
+                    <th className="py-1 pr-3 text-right">Diferencia</th>
+                    <th className="py-1 pr-3">Acción</th>
+                    <th className="py-1">Detalle</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((item, i) => (
+                    <tr key={`${item.tradeId ?? item.venue}-${item.symbol}-${i}`} className="border-t border-white/5">
+                      <td className="py-2 pr-3">{item.asset ?? item.symbol}</td>
+                      <td className="py-2 pr-3 font-mono">{venueLabel(item.venue)}</td>
+                      <td className={`py-2 pr-3 ${STATUS_LABELS[item.status].className}`}>
+                        {STATUS_LABELS[item.status].label}
+                      </td>
+                      <td className="py-2 pr-3 text-right">{formatQty(item.expectedQuantity)}</td>
+                      <td className="py-2 pr-3 text-right">{formatQty(item.heldQuantity)}</td>
+                      <td className="py-2 pr-3 text-right">${item.differenceUsd.toFixed(2)}</td>
+                      <td className="py-2 pr-3">
+                        {item.applied ? <span className="text-emerald-300">Aplicada</span> : ACTION_LABELS[item.action]}
+                      </td>
+                      <td className="py-2 text-slate-400">{item.note}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+/** "onchain:base" tal cual; en exchanges solo el nombre, sin el id de la conexión. */
+function venueLabel(venue: string): string {
+  return venue.startsWith("onchain:") ? venue : venue.split(":")[0];
+}
+
+function formatQty(qty: number): string {
+  return qty === 0 ? "0" : qty.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
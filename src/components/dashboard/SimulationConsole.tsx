@@ -167,6 +167,7 @@ type PositionsResponse = {
 type LivePriceRow = {
   id: string;
   symbol: string;
+  side: "buy" | "sell";
   tokenAddress: string;
   network: string;
   dexUrl: string;
@@ -179,6 +180,20 @@ type LivePriceRow = {
   openedAt: string;
 };
 
+/** Evento `update` de /api/positions/stream (PositionUpdate del watcher). */
+type StreamPositionUpdate = {
+  tradeId: string;
+  symbol: string;
+  side: "buy" | "sell";
+  network: string;
+  tokenAddress: string;
+  entryPrice: number;
+  currentPrice: number;
+  pnlPct: number;
+  liquidityUsd: number;
+  pendingExit: string | null;
+};
+
 type CycleSummary = {
   timestamp?: string;
   regime?: string;
@@ -195,6 +210,16 @@ type CycleSummary = {
     earlyThreshold: number;
     coreMinConf: number;
     satMinConf: number;
+    walkForward?: {
+      accepted: boolean;
+      reason: string;
+    };
+  };
+  marketDataCache?: {
+    hits: number;
+    misses: number;
+    coalesced: number;
+    hitRate: number;
   };
 };
 
@@ -257,6 +282,8 @@ export default function SimulationConsole() {
   const [loadingAdvanced, setLoadingAdvanced] = useState<string | null>(null);
   const [livePrices, setLivePrices] = useState<LivePriceRow[] | null>(null);
   const [loadingLivePrices, setLoadingLivePrices] = useState(false);
+  const [liveStream, setLiveStream] = useState(false);
+  const hasOpenPositions = (positions?.positions ?? []).some((p) => p.status === "open");
 
   useEffect(() => {
     void checkStatus();
@@ -322,6 +349,32 @@ export default function SimulationConsole() {
     }
   }
 
+  // Precios en streaming mientras haya posiciones abiertas; el polling
+  // (fetchLivePrices) queda para el botón y la carga inicial
+  useEffect(() => {
+    if (!hasOpenPositions || typeof EventSource === "undefined") return;
+    const source = new EventSource("/api/positions/stream");
+    // Las salidas las ejecuta el runner del watcher: se detectan cuando
+    // cambia el conjunto de posiciones abiertas del snapshot
+    let openIds: string | null = null;
+    source.onopen = () => setLiveStream(true);
+    source.onerror = () => setLiveStream(false);
+    source.addEventListener("update", (ev) => {
+      const { update } = JSON.parse((ev as MessageEvent).data) as { update: StreamPositionUpdate };
+      setLivePrices((prev) => mergeStreamUpdate(prev, update));
+    });
+    source.addEventListener("snapshot", (ev) => {
+      const { positions } = JSON.parse((ev as MessageEvent).data) as { positions: StreamPositionUpdate[] };
+      const ids = positions.map((p) => p.tradeId).sort().join(",");
+      if (openIds !== null && ids !== openIds) void refreshAll();
+      openIds = ids;
+    });
+    return () => {
+      source.close();
+      setLiveStream(false);
+    };
+  }, [hasOpenPositions]);
+
   async function fetchLivePrices() {
     setLoadingLivePrices(true);
     try {
@@ -362,6 +415,7 @@ export default function SimulationConsole() {
         tradesClosed: data.tradesClosed,
         errors: data.errors,
         calibration: data.calibration,
+        marketDataCache: data.marketDataCache,
       });
       setLastAction("Ciclo ejecutado correctamente.");
       await refreshAll();
@@ -415,6 +469,7 @@ export default function SimulationConsole() {
               tradesClosed: data.firstCycle.tradesClosed,
               errors: data.firstCycle.errors,
               calibration: data.firstCycle.calibration,
+              marketDataCache: data.firstCycle.marketDataCache,
             }
           : null
       );
@@ -547,7 +602,7 @@ export default function SimulationConsole() {
           Entorno actual
         </span>
         <span className="text-xs text-cyan-100">
-          Discovery: <strong>Birdeye</strong> · Red activa: <strong>Solana only</strong>
+          Discovery: <strong>Birdeye</strong> (Solana) + <strong>GeckoTerminal</strong> (EVM) · Redes y umbrales por red en Configuración
         </span>
       </section>
 
@@ -699,6 +754,24 @@ export default function SimulationConsole() {
                     Early &ge;{lastCycle.calibration.earlyThreshold},
                     Core &ge;{lastCycle.calibration.coreMinConf},
                     Sat &ge;{lastCycle.calibration.satMinConf}
+                    {lastCycle.calibration.walkForward && (
+                      <p
+                        className={
+                          lastCycle.calibration.walkForward.accepted ? "text-emerald-300" : "text-amber-300"
+                        }
+                      >
+                        Walk-forward: {lastCycle.calibration.walkForward.accepted ? "aceptado" : "rechazado"} ·{" "}
+                        {lastCycle.calibration.walkForward.reason}
+                      </p>
+                    )}
+                  </li>
+                )}
+                {lastCycle.marketDataCache && (
+                  <li>
+                    Caché market data: {lastCycle.marketDataCache.hits} hits ·{" "}
+                    {lastCycle.marketDataCache.coalesced} coalesced ·{" "}
+                    {lastCycle.marketDataCache.misses} misses (
+                    {(lastCycle.marketDataCache.hitRate * 100).toFixed(0)}%)
                   </li>
                 )}
               </ul>
@@ -1024,8 +1097,13 @@ export default function SimulationConsole() {
           <div className="flex items-center justify-between gap-2">
             <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
               Posiciones
+              {liveStream && (
+                <span className="ml-2 rounded bg-emerald-400/15 px-1.5 py-0.5 text-[10px] normal-case text-emerald-200">
+                  en vivo
+                </span>
+              )}
             </h3>
-            {(positions?.positions ?? []).some((p) => p.status === "open") && (
+            {hasOpenPositions && (
               <button
                 type="button"
                 onClick={() => void fetchLivePrices()}
@@ -1063,7 +1141,14 @@ export default function SimulationConsole() {
                     const pnlVal = live ? live.pnlPct : (p.pnl_pct != null ? Number(p.pnl_pct) * 100 : null);
                     return (
                       <tr key={p.id} className="border-t border-white/5 text-slate-200">
-                        <td className="py-2 pr-3 font-medium">{p.symbol}</td>
+                        <td className="py-2 pr-3 font-medium">
+                          {p.symbol}
+                          {p.side === "sell" && (
+                            <span className="ml-1.5 rounded bg-rose-400/15 px-1.5 py-0.5 text-[10px] text-rose-200">
+                              short
+                            </span>
+                          )}
+                        </td>
                         <td className="py-2 pr-3 max-w-[100px] truncate" title={tokenAddr || "-"}>
                           {tokenAddr ? (
                             <a
@@ -1211,6 +1296,24 @@ export default function SimulationConsole() {
                     Early &ge;{lastCycle.calibration.earlyThreshold},
                     Core &ge;{lastCycle.calibration.coreMinConf},
                     Sat &ge;{lastCycle.calibration.satMinConf}
+                    {lastCycle.calibration.walkForward && (
+                      <p
+                        className={
+                          lastCycle.calibration.walkForward.accepted ? "text-emerald-300" : "text-amber-300"
+                        }
+                      >
+                        Walk-forward: {lastCycle.calibration.walkForward.accepted ? "aceptado" : "rechazado"} ·{" "}
+                        {lastCycle.calibration.walkForward.reason}
+                      </p>
+                    )}
+                  </li>
+                )}
+                {lastCycle.marketDataCache && (
+                  <li>
+                    Caché market data: {lastCycle.marketDataCache.hits} hits ·{" "}
+                    {lastCycle.marketDataCache.coalesced} coalesced ·{" "}
+                    {lastCycle.marketDataCache.misses} misses (
+                    {(lastCycle.marketDataCache.hitRate * 100).toFixed(0)}%)
                   </li>
                 )}
               </ul>
@@ -1259,6 +1362,44 @@ function RollingMetricCard({
   );
 }
 
+function mergeStreamUpdate(
+  prev: LivePriceRow[] | null,
+  update: StreamPositionUpdate
+): LivePriceRow[] {
+  const rows = prev ?? [];
+  const patch = {
+    currentPrice: update.currentPrice,
+    pnlPct: update.pnlPct * 100,
+    liquidityUsd: update.liquidityUsd || undefined,
+  };
+  const existing = rows.find((r) => r.id === update.tradeId);
+  if (existing) {
+    return rows.map((r) =>
+      r.id === update.tradeId
+        ? { ...r, ...patch, liquidityUsd: patch.liquidityUsd ?? r.liquidityUsd }
+        : r
+    );
+  }
+  return [
+    ...rows,
+    {
+      id: update.tradeId,
+      symbol: update.symbol,
+      side: update.side,
+      tokenAddress: update.tokenAddress,
+      network: update.network,
+      dexUrl: `https://dexscreener.com/${update.network}/${update.tokenAddress}`,
+      entryPrice: update.entryPrice,
+      currentPrice: update.currentPrice,
+      pnlPct: update.pnlPct * 100,
+      priceChange24h: 0,
+      priceChange1h: 0,
+      liquidityUsd: update.liquidityUsd,
+      openedAt: "",
+    },
+  ];
+}
+
 function parseWalletLines(raw: string): Array<{
   address: string;
   network?: string;
@@ -0,0 +1,499 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+type FieldSpec = {
+  key: string;
+  label: string;
+  kind: "number" | "integer" | "enum" | "list" | "boolean";
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+  optional?: boolean;
+  group?: string;
+};
+
+type SectionSchema = { label: string; fields: FieldSpec[] };
+
+type Section = "momentum" | "early" | "confluence" | "positions" | "risk" | "adaptiveRisk";
+
+type ConfigTree = Record<Section, Record<string, unknown>>;
+
+type ConfigVersion = {
+  id: string;
+  version: number;
+  config: ConfigTree;
+  isActive: boolean;
+  note: string | null;
+  createdAt: string;
+};
+
+type ConfigResponse = {
+  active: ConfigVersion | null;
+  defaults: ConfigTree;
+  effective: ConfigTree;
+  schema: Record<Section, SectionSchema>;
+  versions: ConfigVersion[];
+};
+
+/** Valor del formulario: texto para números/enums/booleanos, lista para redes. */
+type FieldValue = string | string[];
+
+type FormState = Record<Section, Record<string, FieldValue>>;
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-white/15 bg-[#0e1538] px-3 py-2 text-sm text-white outline-none focus:border-cyan-300/40";
+
+export default function StrategyConfigForm() {
+  const [data, setData] = useState<ConfigResponse | null>(null);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    setLastError(null);
+    try {
+      const res = await fetch("/api/config");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body?.error ?? `Config HTTP ${res.status}`);
+      applyResponse(body as ConfigResponse);
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function applyResponse(body: ConfigResponse) {
+    setData(body);
+    setForm(toForm(body.schema, body.effective));
+  }
+
+  async function save(payload: Record<string, unknown>, okMessage: (v: ConfigVersion) => string) {
+    setSaving(true);
+    setLastError(null);
+    setLastAction(null);
+    setFieldErrors([]);
+    try {
+      const res = await fetch("/api/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        if (Array.isArray(body?.errors)) setFieldErrors(body.errors);
+        throw new Error(body?.error ?? `Config HTTP ${res.status}`);
+      }
+      setLastAction(okMessage(body.active as ConfigVersion));
+      setNote("");
+      await load();
+    } catch (err) {
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function saveForm() {
+    if (!data || !form) return;
+    const { config, errors } = fromForm(data.schema, data.defaults, form);
+    if (errors.length > 0) {
+      setFieldErrors(errors);
+      setLastError("Revisa los campos marcados.");
+      return;
+    }
+    void save({ config, note }, (v) => `Configuración guardada como versión ${v.version}.`);
+  }
+
+  function activate(version: number) {
+    void save({ activateVersion: version }, (v) => `Versión ${v.version} activada.`);
+  }
+
+  function resetToDefaults() {
+    if (!data) return;
+    setForm(toForm(data.schema, data.defaults));
+  }
+
+  function setField(section: Section, key: string, value: FieldValue) {
+    setForm((prev) => (prev ? { ...prev, [section]: { ...prev[section], [key]: value } } : prev));
+  }
+
+  const sections = useMemo(
+    () => (data ? (Object.keys(data.schema) as Section[]) : []),
+    [data]
+  );
+
+  return (
+    <div className="space-y-5">
+      <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+            Versión activa
+          </h2>
+          <span className="text-xs text-slate-400">
+            {data?.active
+              ? `v${data.active.version} · ${new Date(data.active.createdAt).toLocaleString()}`
+              : "Sin overrides (defaults del sistema)"}
+          </span>
+        </div>
+        <p className="text-xs text-slate-400">
+          Los cambios se aplican en el siguiente ciclo. Los campos que coinciden con el
+          default no se guardan como override.
+        </p>
+
+        {lastAction && (
+          <p className="text-xs rounded-lg border border-emerald-400/30 bg-emerald-400/10 px-3 py-2 text-emerald-200">
+            {lastAction}
+          </p>
+        )}
+        {lastError && (
+          <div className="text-xs rounded-lg border border-rose-400/30 bg-rose-400/10 px-3 py-2 text-rose-200 space-y-1">
+            <p>{lastError}</p>
+            {fieldErrors.length > 0 && (
+              <ul className="space-y-0.5">
+                {fieldErrors.map((e) => (
+                  <li key={e}>&bull; {e}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+
+      {loading && !form && <p className="text-sm text-slate-400">Cargando configuración...</p>}
+
+      {data && form && sections.map((section) => (
+        <section
+          key={section}
+          className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4"
+        >
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+            {data.schema[section].label}
+          </h2>
+          {groupFields(data.schema[section].fields).map(({ group, fields }) => {
+            const grid = (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {fields.map((field) => (
+                  <ConfigField
+                    key={field.key}
+                    field={field}
+                    value={form[section][field.key]}
+                    defaultValue={getPath(data.defaults[section], field.key)}
+                    onChange={(v) => setField(section, field.key, v)}
+                  />
+                ))}
+              </div>
+            );
+            if (!group) return <div key="general">{grid}</div>;
+            return (
+              <details key={group} className="rounded-xl border border-white/10 p-4">
+                <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  {group}
+                  <span className="ml-2 normal-case font-normal text-slate-500">
+                    vacío = usa el valor global
+                  </span>
+                </summary>
+                <div className="mt-4">{grid}</div>
+              </details>
+            );
+          })}
+        </section>
+      ))}
+
+      {data && form && (
+        <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-4">
+          <label className="space-y-1 block">
+            <span className="text-xs text-slate-400">Nota de la versión (opcional)</span>
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className={INPUT_CLASS}
+              placeholder="p. ej. trailing más amplio en satellite"
+              maxLength={200}
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={saveForm}
+              disabled={saving}
+              className="rounded-lg bg-cyan-500/80 hover:bg-cyan-400 disabled:opacity-60 px-4 py-2 text-sm font-semibold text-[#041025]"
+            >
+              {saving ? "Guardando..." : "Guardar nueva versión"}
+            </button>
+            <button
+              type="button"
+              onClick={resetToDefaults}
+              disabled={saving}
+              className="rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 disabled:opacity-60 px-4 py-2 text-sm text-slate-100"
+            >
+              Restaurar defaults
+            </button>
+          </div>
+        </section>
+      )}
+
+      {data && data.versions.length > 0 && (
+        <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5 space-y-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+            Historial de versiones
+          </h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-slate-300">
+              <thead>
+                <tr className="text-left text-slate-400">
+                  <th className="py-1 pr-3">Versión</th>
+                  <th className="py-1 pr-3">Fecha</th>
+                  <th className="py-1 pr-3">Overrides</th>
+                  <th className="py-1 pr-3">Nota</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {data.versions.map((v) => (
+                  <tr key={v.id} className="border-t border-white/5">
+                    <td className="py-1.5 pr-3">v{v.version}</td>
+                    <td className="py-1.5 pr-3">{new Date(v.createdAt).toLocaleString()}</td>
+                    <td className="py-1.5 pr-3">{countOverrides(v.config)}</td>
+                    <td className="py-1.5 pr-3">{v.note ?? "-"}</td>
+                    <td className="py-1.5 text-right">
+                      {v.isActive ? (
+                        <span className="text-emerald-300">activa</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => activate(v.version)}
+                          disabled={saving}
+                          className="rounded border border-white/20 px-2 py-0.5 hover:bg-white/10 disabled:opacity-60"
+                        >
+                          Activar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function ConfigField({
+  field,
+  value,
+  defaultValue,
+  onChange,
+}: {
+  field: FieldSpec;
+  value: FieldValue | undefined;
+  defaultValue: unknown;
+  onChange: (value: FieldValue) => void;
+}) {
+  const hint =
+    defaultValue === undefined
+      ? "Default: valor global"
+      : `Default: ${Array.isArray(defaultValue) ? defaultValue.join(", ") : String(defaultValue)}`;
+
+  if (field.kind === "list") {
+    const selected = Array.isArray(value) ? value : [];
+    return (
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">{field.label}</span>
+        <div className="flex flex-wrap gap-3 text-xs text-slate-300">
+          {(field.options ?? []).map((opt) => (
+            <label key={opt} className="inline-flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={selected.includes(opt)}
+                onChange={(e) =>
+                  onChange(e.target.checked ? [...selected, opt] : selected.filter((s) => s !== opt))
+                }
+              />
+              {opt}
+            </label>
+          ))}
+        </div>
+        <span className="block text-[10px] text-slate-500">{hint}</span>
+      </div>
+    );
+  }
+
+  if (field.kind === "boolean") {
+    return (
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">{field.label}</span>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={value === "true"}
+            onChange={(e) => onChange(String(e.target.checked))}
+          />
+          Activado
+        </label>
+        <span className="block text-[10px] text-slate-500">{hint}</span>
+      </div>
+    );
+  }
+
+  if (field.kind === "enum") {
+    return (
+      <label className="space-y-1">
+        <span className="text-xs text-slate-400">{field.label}</span>
+        <select
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className={INPUT_CLASS}
+        >
+          {(field.options ?? []).map((opt) => (
+            <option key={opt} value={opt}>
+              {opt}
+            </option>
+          ))}
+        </select>
+        <span className="block text-[10px] text-slate-500">{hint}</span>
+      </label>
+    );
+  }
+
+  return (
+    <label className="space-y-1">
+      <span className="text-xs text-slate-400">{field.label}</span>
+      <input
+        type="number"
+        value={typeof value === "string" ? value : ""}
+        min={field.min}
+        max={field.max}
+        step={field.kind === "integer" ? 1 : field.step ?? "any"}
+        onChange={(e) => onChange(e.target.value)}
+        className={INPUT_CLASS}
+      />
+      <span className="block text-[10px] text-slate-500">{hint}</span>
+    </label>
+  );
+}
+
+// ---- helpers ----
+
+function toForm(schema: Record<Section, SectionSchema>, values: ConfigTree): FormState {
+  const form = {} as FormState;
+  for (const section of Object.keys(schema) as Section[]) {
+    form[section] = {};
+    for (const field of schema[section].fields) {
+      const v = getPath(values[section], field.key);
+      form[section][field.key] = Array.isArray(v) ? v.map(String) : v === undefined ? "" : String(v);
+    }
+  }
+  return form;
+}
+
+/**
+ * Construye el JSON de overrides: solo los campos distintos del default.
+ * El rango se valida otra vez en el servidor.
+ */
+function fromForm(
+  schema: Record<Section, SectionSchema>,
+  defaults: ConfigTree,
+  form: FormState
+): { config: ConfigTree; errors: string[] } {
+  const config = {} as ConfigTree;
+  const errors: string[] = [];
+
+  for (const section of Object.keys(schema) as Section[]) {
+    config[section] = {};
+    for (const field of schema[section].fields) {
+      const raw = form[section][field.key];
+      const def = getPath(defaults[section], field.key);
+      let value: unknown;
+
+      if (field.kind === "list") {
+        const list = Array.isArray(raw) ? raw : [];
+        if (list.length === 0) {
+          errors.push(`${section}.${field.key}: selecciona al menos una opción`);
+          continue;
+        }
+        value = list;
+      } else if (field.kind === "boolean") {
+        value = raw === "true";
+      } else if (field.kind === "enum") {
+        value = raw;
+      } else if (raw === "" && field.optional) {
+        continue;
+      } else {
+        const n = Number(raw);
+        if (raw === "" || !Number.isFinite(n)) {
+          errors.push(`${section}.${field.key}: debe ser un número`);
+          continue;
+        }
+        value = n;
+      }
+
+      if (JSON.stringify(value) !== JSON.stringify(def)) {
+        setPath(config[section], field.key, value);
+      }
+    }
+  }
+
+  return { config, errors };
+}
+
+/** Campos sin grupo primero, luego un bloque por grupo en orden de aparición. */
+function groupFields(fields: FieldSpec[]): { group: string | null; fields: FieldSpec[] }[] {
+  const groups: { group: string | null; fields: FieldSpec[] }[] = [
+    { group: null, fields: fields.filter((f) => !f.group) },
+  ];
+  for (const field of fields) {
+    if (!field.group) continue;
+    const existing = groups.find((g) => g.group === field.group);
+    if (existing) existing.fields.push(field);
+    else groups.push({ group: field.group, fields: [field] });
+  }
+  return groups;
+}
+
+function countOverrides(config: ConfigTree): number {
+  let count = 0;
+  const walk = (obj: unknown) => {
+    if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+      count++;
+      return;
+    }
+    for (const v of Object.values(obj)) walk(v);
+  };
+  for (const section of Object.values(config ?? {})) {
+    for (const v of Object.values(section ?? {})) walk(v);
+  }
+  return count;
+}
+
+function getPath(obj: Record<string, unknown> | undefined, path: string): unknown {
+  let cur: unknown = obj;
+  for (const part of path.split(".")) {
+    if (typeof cur !== "object" || cur === null) return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split(".");
+  let cur = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (typeof cur[part] !== "object" || cur[part] === null) cur[part] = {};
+    cur = cur[part] as Record<string, unknown>;
+  }
+  cur[parts[parts.length - 1]] = value;
+}
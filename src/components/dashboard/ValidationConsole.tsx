@@ -44,6 +44,13 @@ type ValidationData = {
     risk_off: LayerValidation;
     neutral: LayerValidation;
   };
+  byNetwork: Record<string, LayerValidation>;
+  smartMoney?: {
+    withSimulated: LayerValidation;
+    withoutSimulated: LayerValidation;
+    simulatedOnly: LayerValidation;
+    bySource: Record<"none" | "real" | "simulated" | "mixed", LayerValidation>;
+  };
   trackedSignals: number;
   fullyTracked: number;
   pendingTracking: number;
@@ -155,6 +162,38 @@ export default function ValidationConsole() {
                 <LayerRow label="Risk Off" data={data.byRegime.risk_off} />
               </div>
             </div>
+
+            <div className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+                Por red (24h)
+              </h3>
+              <div className="mt-3 space-y-2">
+                {Object.entries(data.byNetwork ?? {})
+                  .sort(([, a], [, b]) => b.count - a.count)
+                  .map(([network, metrics]) => (
+                    <LayerRow key={network} label={network} data={metrics} />
+                  ))}
+              </div>
+            </div>
+
+            {data.smartMoney && (
+              <div className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+                  Smart money real vs simulado (24h)
+                </h3>
+                <div className="mt-3 space-y-2">
+                  <LayerRow label="Con confluencia simulada" data={data.smartMoney.withSimulated} />
+                  <LayerRow label="Sin confluencia simulada" data={data.smartMoney.withoutSimulated} />
+                  <LayerRow label="Solo por simuladas" data={data.smartMoney.simulatedOnly} />
+                </div>
+                <div className="mt-3 space-y-2 border-t border-white/5 pt-3">
+                  <LayerRow label="Wallets reales" data={data.smartMoney.bySource.real} />
+                  <LayerRow label="Mixtas" data={data.smartMoney.bySource.mixed} />
+                  <LayerRow label="Solo simuladas" data={data.smartMoney.bySource.simulated} />
+                  <LayerRow label="Sin wallets" data={data.smartMoney.bySource.none} />
+                </div>
+              </div>
+            )}
           </section>
 
           <section className="rounded-2xl border border-white/10 bg-[#131b43]/90 p-5">
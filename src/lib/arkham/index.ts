@@ -1,7 +1,13 @@
 export { ArkhamClient, ArkhamApiError } from "./client";
-export { WalletTracker } from "./wallet-tracker";
+export { WalletTracker, ArkhamSwapFeed } from "./wallet-tracker";
 export { WalletScorer } from "./wallet-scorer";
 export { SignalGenerator } from "./signal-generator";
-export type { DetectedMovement, TrackedWallet } from "./wallet-tracker";
+export type {
+  DetectedMovement,
+  TrackedWallet,
+  WalletMovementSource,
+  WalletSwap,
+  WalletSwapFeed,
+} from "./wallet-tracker";
 export type { WalletScoreResult } from "./wallet-scorer";
 export type { GeneratedSignal, SignalGeneratorConfig } from "./signal-generator";
@@ -10,6 +10,34 @@ export interface TrackedWallet {
   category: string;
 }
 
+/** Origen de un movimiento real (wallet_movements.source). */
+export type WalletMovementSource = "arkham" | "onchain";
+
+/** Swap de una wallet ya normalizado, venga de Arkham o de un indexer on-chain. */
+export interface WalletSwap {
+  id: string;
+  network: string;
+  direction: "buy" | "sell";
+  tokenAddress: string;
+  tokenSymbol: string;
+  amountToken: number;
+  amountUsd: number;
+  txHash: string;
+  blockNumber: number;
+  timestamp: Date;
+}
+
+/**
+ * Fuente de swaps reales de una wallet. ArkhamSwapFeed es la de por
+ * defecto; un indexer on-chain implementa la misma interfaz con
+ * `source = "onchain"`.
+ */
+export interface WalletSwapFeed {
+  readonly source: WalletMovementSource;
+  /** Swaps de las últimas 24h, más recientes primero. */
+  getRecentSwaps(wallet: TrackedWallet): Promise<WalletSwap[]>;
+}
+
 export interface DetectedMovement {
   walletId: string;
   walletAddress: string;
@@ -22,18 +50,43 @@ export interface DetectedMovement {
   txHash: string;
   blockNumber: number;
   detectedAt: Date;
-  raw: ArkhamSwap;
+  source: WalletMovementSource;
+  swapId: string;
+}
+
+/**
+ * ArkhamSwapFeed — swaps de GET /swaps de Arkham (más relevante para
+ * DeFi que /transfers).
+ */
+export class ArkhamSwapFeed implements WalletSwapFeed {
+  readonly source = "arkham" as const;
+
+  constructor(private arkham: ArkhamClient) {}
+
+  async getRecentSwaps(wallet: TrackedWallet): Promise<WalletSwap[]> {
+    const swaps = await this.arkham.getSwaps({
+      base: wallet.address,
+      chains: wallet.network,
+      flow: "all",
+      timeLast: "24h",
+      sortKey: "time",
+      sortDir: "desc",
+      limit: 50,
+    });
+
+    return (swaps.swaps ?? []).map((swap) => arkhamSwapToWalletSwap(wallet, swap));
+  }
 }
 
 /**
  * WalletTracker — escanea wallets tracked buscando swaps (DEX trades)
- * recientes y los persiste como wallet_movements en Supabase.
- *
- * Usa GET /swaps de Arkham (más relevante para DeFi que /transfers).
+ * recientes y los persiste como wallet_movements en Supabase, marcados
+ * con la fuente real que los detectó. Las wallets del SmartMoneySimulator
+ * no se escanean: sus movimientos son sintéticos.
  */
 export class WalletTracker {
   constructor(
-    private arkham: ArkhamClient,
+    private feed: WalletSwapFeed,
     private supabase: SupabaseClient
   ) {}
 
@@ -54,30 +107,20 @@ export class WalletTracker {
   }
 
   /**
-   * Escanea una wallet individual: obtiene swaps recientes de Arkham,
+   * Escanea una wallet individual: obtiene swaps recientes del feed,
    * filtra los ya conocidos y persiste los nuevos.
    */
   async scanWallet(wallet: TrackedWallet): Promise<DetectedMovement[]> {
-    const swaps = await this.arkham.getSwaps({
-      base: wallet.address,
-      chains: wallet.network,
-      flow: "all",
-      timeLast: "24h",
-      sortKey: "time",
-      sortDir: "desc",
-      limit: 50,
-    });
+    const swaps = await this.feed.getRecentSwaps(wallet);
 
-    if (!swaps.swaps?.length) return [];
+    if (swaps.length === 0) return [];
 
     const knownHashes = await this.getKnownTxHashes(
       wallet.id,
-      swaps.swaps.map((s) => s.transactionHash)
+      swaps.map((s) => s.txHash)
     );
 
-    const newSwaps = swaps.swaps.filter(
-      (s) => !knownHashes.has(s.transactionHash)
-    );
+    const newSwaps = swaps.filter((s) => !knownHashes.has(s.txHash));
 
     const movements: DetectedMovement[] = newSwaps.map((swap) =>
       this.swapToMovement(wallet, swap)
@@ -92,28 +135,22 @@ export class WalletTracker {
 
   private swapToMovement(
     wallet: TrackedWallet,
-    swap: ArkhamSwap
+    swap: WalletSwap
   ): DetectedMovement {
-    const walletIsFrom = swap.addresses?.some(
-      (a) => a.address?.toLowerCase() === wallet.address.toLowerCase()
-    );
-
-    const isBuy = walletIsFrom;
-    const relevantToken = isBuy ? swap.token1 : swap.token0;
-
     return {
       walletId: wallet.id,
       walletAddress: wallet.address,
-      tokenAddress: relevantToken.address,
-      tokenSymbol: relevantToken.symbol,
-      network: swap.chain,
-      direction: isBuy ? "buy" : "sell",
-      amountToken: parseFloat(relevantToken.unitValue) || 0,
-      amountUsd: relevantToken.historicalUSD || swap.historicalUSD || 0,
-      txHash: swap.transactionHash,
+      tokenAddress: swap.tokenAddress,
+      tokenSymbol: swap.tokenSymbol,
+      network: swap.network,
+      direction: swap.direction,
+      amountToken: swap.amountToken,
+      amountUsd: swap.amountUsd,
+      txHash: swap.txHash,
       blockNumber: swap.blockNumber,
-      detectedAt: new Date(swap.blockTimestamp),
-      raw: swap,
+      detectedAt: swap.timestamp,
+      source: this.feed.source,
+      swapId: swap.id,
     };
   }
 
@@ -129,7 +166,8 @@ export class WalletTracker {
       tx_hash: m.txHash,
       block_number: m.blockNumber,
       detected_at: m.detectedAt.toISOString(),
-      metadata: { raw_swap_id: m.raw.id },
+      source: m.source,
+      metadata: { raw_swap_id: m.swapId },
     }));
 
     const { error } = await this.supabase
@@ -146,7 +184,8 @@ export class WalletTracker {
       .from("tracked_wallets")
       .select("id, address, network, label, category")
       .eq("user_id", userId)
-      .eq("is_active", true);
+      .eq("is_active", true)
+      .neq("source", "simulated");
 
     if (error) {
       console.error("[WalletTracker] Error obteniendo wallets:", error.message);
@@ -171,3 +210,25 @@ export class WalletTracker {
     return new Set((data ?? []).map((r) => r.tx_hash));
   }
 }
+
+function arkhamSwapToWalletSwap(wallet: TrackedWallet, swap: ArkhamSwap): WalletSwap {
+  const walletIsFrom = swap.addresses?.some(
+    (a) => a.address?.toLowerCase() === wallet.address.toLowerCase()
+  );
+
+  const isBuy = walletIsFrom;
+  const relevantToken = isBuy ? swap.token1 : swap.token0;
+
+  return {
+    id: swap.id,
+    network: swap.chain,
+    direction: isBuy ? "buy" : "sell",
+    tokenAddress: relevantToken.address,
+    tokenSymbol: relevantToken.symbol,
+    amountToken: parseFloat(relevantToken.unitValue) || 0,
+    amountUsd: relevantToken.historicalUSD || swap.historicalUSD || 0,
+    txHash: swap.transactionHash,
+    blockNumber: swap.blockNumber,
+    timestamp: new Date(swap.blockTimestamp),
+  };
+}
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Backtester } from "./backtester";
+import type { BacktestDataset, BacktestResult, PoolSnapshot } from "./types";
+import type { DexPair } from "../market/dexscreener";
+
+test("la misma semilla sobre el mismo dataset da el mismo resultado", async () => {
+  const first = await run(7);
+  const second = await run(7);
+
+  assert.ok(first.trades.length > 0, "el fixture debe abrir trades");
+  assert.deepEqual(second, first);
+});
+
+test("otra semilla cambia los fills simulados", async () => {
+  const base = await run(7);
+  const other = await run(8);
+
+  assert.equal(other.trades.length, base.trades.length);
+  assert.notDeepEqual(
+    other.trades.map((t) => [t.entryPrice, t.exitPrice, t.feesAbs]),
+    base.trades.map((t) => [t.entryPrice, t.exitPrice, t.feesAbs])
+  );
+  assert.notEqual(other.totalPnl, base.totalPnl);
+});
+
+// ---- helpers ----
+
+function run(seed: number): Promise<BacktestResult> {
+  return new Backtester({} as SupabaseClient, "user-1", { seed }).run(dataset());
+}
+
+const START = Date.parse("2026-03-01T00:00:00.000Z");
+const TICK_MS = 15 * 60_000;
+
+/** Dos tokens con momentum en el primer tick y una serie de precios que sube y cae. */
+function dataset(): BacktestDataset {
+  const ticks = Array.from({ length: 24 }, (_, i) => ({
+    timestamp: new Date(START + i * TICK_MS).toISOString(),
+    regime: "risk_on" as const,
+  }));
+  const snapshots: PoolSnapshot[] = [];
+  for (const [n, token] of ["0xAbC0000000000000000000000000000000000001", "0xAbC0000000000000000000000000000000000002"].entries()) {
+    for (let i = 0; i < ticks.length; i++) {
+      const price = 1 + 0.04 * Math.sin((i + n * 3) / 2.5) + 0.01 * i;
+      snapshots.push({
+        timestamp: new Date(START + i * TICK_MS - 60_000).toISOString(),
+        kind: i === 0 ? "trending" : "price",
+        network: "base",
+        tokenAddress: token,
+        symbol: `TKN${n}`,
+        pair: pair(token, `TKN${n}`, price),
+        health: {
+          healthScore: 85,
+          liquidityUsd: 400_000,
+          volume24hUsd: 900_000,
+          spreadPct: 0.3,
+          contractRiskFlags: [],
+        },
+        walletConfluence: { walletCount: 3, avgWalletScore: 80, totalAmountUsd: 20_000, walletIds: ["w1", "w2", "w3"] },
+      });
+    }
+  }
+  return { source: "file", ticks, snapshots };
+}
+
+function pair(address: string, symbol: string, price: number): DexPair {
+  return {
+    chainId: "base",
+    dexId: "uniswap",
+    url: "",
+    pairAddress: `${address}-pair`,
+    baseToken: { address, name: symbol, symbol },
+    quoteToken: { address: "0x4200000000000000000000000000000000000006", name: "WETH", symbol: "WETH" },
+    priceNative: String(price / 3000),
+    priceUsd: String(price),
+    txns: { m5: { buys: 60, sells: 20 }, h1: { buys: 600, sells: 250 }, h6: { buys: 3000, sells: 1400 }, h24: { buys: 9000, sells: 5000 } },
+    volume: { m5: 20_000, h1: 150_000, h6: 500_000, h24: 900_000 },
+    priceChange: { m5: 2, h1: 12, h6: 35, h24: 60 },
+    liquidity: { usd: 400_000, base: 200_000 / price, quote: 200_000 / 3000 },
+    fdv: 5_000_000,
+    marketCap: 5_000_000,
+    pairCreatedAt: START - 5 * 86_400_000,
+  };
+}
@@ -0,0 +1,553 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { MomentumDetector } from "../signals/momentum-detector";
+import { EarlyDetector } from "../signals/early-detector";
+import { ConfluenceEngine } from "../signals/confluence-engine";
+import type { ConfluenceResult } from "../signals/confluence-engine";
+import { PositionManager } from "../signals/position-manager";
+import type { ExitSignal, MarketObservation, OpenPosition } from "../signals/position-manager";
+import { calculateAdaptivePositionSize } from "../signals/position-sizing";
+import type { CycleResult, EntryResult } from "../signals/orchestrator";
+import type { RegimeSnapshot } from "../market/regime-detector";
+import { AdaptiveRiskGate } from "../engine/adaptive-risk-gate";
+import { PaperBroker } from "../engine/paper-broker";
+import { computeRollingMetrics } from "../engine/rolling-performance";
+import type { RollingTradeRow } from "../engine/rolling-performance";
+import { createSeededRng } from "../engine/random";
+import { VirtualClock } from "../engine/clock";
+import type { ExitOrder, RiskState } from "../engine/types";
+import { ReplayMarket } from "./replay-market";
+import { loadDatasetFromSupabase } from "./dataset-loader";
+import type {
+  BacktestConfig,
+  BacktestDataset,
+  BacktestExecution,
+  BacktestResult,
+  BacktestTrade,
+} from "./types";
+
+const DEFAULT_CONFIG: BacktestConfig = {
+  seed: 42,
+  initialCapital: 10_000,
+  closeOpenAtEnd: true,
+};
+
+interface SimPosition {
+  trade: BacktestTrade;
+  position: OpenPosition;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Backtester — reproduce el pipeline del Orchestrator sobre un reloj virtual.
+ *
+ * Cada tick del dataset equivale a un ciclo:
+ *  0. Rolling metrics sobre los trades simulados → AdaptiveRiskGate
+ *  1. Régimen grabado en el tick
+ *  2. MomentumDetector.scanPairs() con los pools trending del tick
+ *  3. EarlyDetector.scanPairs() con los new pools del tick
+ *  4. ConfluenceEngine (salud + wallets desde snapshots) → sizing → PaperBroker
+ *  5. PositionManager.evaluateMarket() sobre las posiciones abiertas
+ *
+ * Toda la aleatoriedad (latencia, gas, slippage, MEV, stress events) sale de
+ * un PRNG con semilla y el tiempo del VirtualClock, así que la misma semilla
+ * sobre el mismo dataset produce exactamente el mismo resultado. El replay
+ * no hace llamadas de red ni escribe en Supabase.
+ */
+export class Backtester {
+  private config: BacktestConfig;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+    config?: Partial<BacktestConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async loadFromSupabase(range: { from: Date; to: Date }): Promise<BacktestDataset> {
+    return loadDatasetFromSupabase(this.supabase, this.userId, range);
+  }
+
+  async run(dataset: BacktestDataset): Promise<BacktestResult> {
+    const ticks = [...dataset.ticks]
+      .map((t) => ({ ...t, ts: new Date(t.timestamp).getTime() }))
+      .filter((t) => Number.isFinite(t.ts))
+      .sort((a, b) => a.ts - b.ts);
+
+    const startTs = ticks[0]?.ts ?? 0;
+    const clock = new VirtualClock(startTs);
+    const now = clock.asClock();
+    const rng = createSeededRng(this.config.seed);
+
+    const market = new ReplayMarket(dataset.snapshots, now);
+
+    const momentum = new MomentumDetector(this.config.momentum);
+    momentum.setClock(now);
+    const early = new EarlyDetector(this.config.early);
+    early.setClock(now);
+
+    const confluence = new ConfluenceEngine(this.supabase, this.userId, this.config.confluence);
+    confluence.setWalletSource(market);
+
+    const riskGate = new AdaptiveRiskGate(this.config.risk);
+    riskGate.setClock(now);
+    const broker = new PaperBroker(riskGate, market, { rng, clock: now });
+    const positions = new PositionManager(this.supabase, this.config.positions, { rng });
+
+    const riskState: RiskState = {
+      capital: this.config.initialCapital,
+      pnlToday: 0,
+      pnlThisWeek: 0,
+      tradesTodayCore: 0,
+      tradesTodaySatellite: 0,
+      consecutiveLossesSatellite: 0,
+      isPaused: false,
+      pauseReason: null,
+      pauseUntil: null,
+    };
+
+    const open = new Map<string, SimPosition>();
+    const closed: BacktestTrade[] = [];
+    const closedRows: RollingTradeRow[] = [];
+    const cycles: CycleResult[] = [];
+    let tradeSeq = 0;
+    let prevTs = Number.NEGATIVE_INFINITY;
+
+    for (const tick of ticks) {
+      this.resetRiskWindows(riskState, prevTs, tick.ts);
+      clock.set(tick.ts);
+
+      const result: CycleResult = {
+        // determinista: misma semilla → mismos ids
+        cycleId: `backtest-${this.config.seed}-${cycles.length}`,
+        timestamp: new Date(tick.ts),
+        regime: tick.regime,
+        poolsScanned: 0,
+        tokensScanned: 0,
+        earlyPoolsScanned: 0,
+        earlyCandidates: 0,
+        signalsGenerated: 0,
+        tradesOpened: 0,
+        tradesClosed: 0,
+        entries: [],
+        exits: [],
+        errors: [],
+        stressEvents: [],
+      };
+
+      // --- 0. Rolling metrics sobre trades simulados ---
+      const rolling = computeRollingMetrics(closedRows, "30d", tick.ts);
+      riskGate.setRollingMetrics(rolling);
+      result.rollingMetrics = rolling;
+
+      // --- 1. Régimen grabado ---
+      const regime = toRegimeSnapshot(tick.regime);
+      const processedTokens = new Set<string>();
+
+      const tryEnter = async (conf: ConfluenceResult | null): Promise<void> => {
+        if (!conf) return;
+        result.signalsGenerated++;
+
+        const key = tokenKey(conf.network, conf.tokenAddress);
+        if (open.has(key)) {
+          result.entries.push(entryResult(conf, false, "Posición ya abierta en este token"));
+          return;
+        }
+
+        const verdict = riskGate.evaluate(riskState, conf.layer, {
+          candidate: {
+            tokenAddress: conf.tokenAddress,
+            network: conf.network,
+            signalSource: conf.signalSource,
+            side: conf.order.side,
+            regime: tick.regime,
+          },
+          openPositions: [...open.values()].map((p) => ({
+            tokenAddress: p.trade.tokenAddress,
+            network: p.trade.network,
+            signalSource: p.trade.signalSource,
+            side: p.position.side,
+            regime: typeof p.metadata.regime === "string" ? p.metadata.regime : null,
+            usd: p.position.quantity * p.position.entryPrice,
+          })),
+        });
+        if (!verdict.allowed) {
+          result.entries.push(entryResult(conf, false, verdict.reason ?? "Rechazado por RiskGate"));
+          return;
+        }
+
+        const sizing = calculateAdaptivePositionSize(conf, verdict.maxPositionUsd);
+        conf.order.amountUsd = sizing.amountUsd;
+        conf.order.metadata = {
+          ...conf.order.metadata,
+          positionSizing: sizing,
+          priceChange1h: conf.sources.momentum?.priceChange1h ?? conf.sources.early?.priceChange1h ?? conf.sources.distribution?.priceChange1h ?? 0,
+          entryVolume24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h ?? conf.sources.distribution?.volume24h ?? 0,
+        };
+        if (sizing.amountUsd <= 0) {
+          result.entries.push(entryResult(conf, false, "Sizing adaptativo devolvió tamaño <= 0"));
+          return;
+        }
+
+        const brokerResult = await broker.execute(conf.order, riskState);
+        if (broker.lastStressEvent && broker.lastStressEvent.type !== "none") {
+          result.stressEvents.push(broker.lastStressEvent);
+        }
+        if (!brokerResult.executed || !brokerResult.trade || !brokerResult.fill) {
+          result.entries.push(entryResult(conf, false, brokerResult.reason ?? "PaperBroker rechazó"));
+          return;
+        }
+
+        const fill = brokerResult.fill;
+        const trade: BacktestTrade = {
+          id: `bt-${++tradeSeq}`,
+          symbol: conf.token,
+          tokenAddress: conf.tokenAddress,
+          network: conf.network,
+          layer: conf.layer,
+          signalSource: conf.signalSource,
+          confidence: conf.confidence,
+          entryPrice: fill.entryPrice,
+          exitPrice: null,
+          quantity: fill.quantity,
+          amountUsd: sizing.amountUsd,
+          feesAbs: fill.gasCost,
+          slippage: fill.slippage,
+          pnlAbs: null,
+          pnlNetAbs: null,
+          pnlPct: null,
+          openedAt: new Date(tick.ts).toISOString(),
+          closedAt: null,
+          exitReason: null,
+          executions: [{
+            kind: "entry",
+            price: fill.entryPrice,
+            quantity: fill.quantity,
+            pnlAbs: null,
+            feesAbs: fill.gasCost,
+            reason: conf.order.entryReason,
+            executedAt: new Date(tick.ts).toISOString(),
+          }],
+        };
+        const metadata: Record<string, unknown> = {
+          ...brokerResult.trade.metadata,
+          entryVolume24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h ?? conf.sources.distribution?.volume24h,
+          entryLiquidity: conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? conf.sources.distribution?.liquidityUsd,
+          regime: tick.regime,
+        };
+
+        open.set(key, {
+          trade,
+          metadata,
+          position: {
+            tradeId: trade.id,
+            userId: this.userId,
+            symbol: trade.symbol,
+            tokenAddress: trade.tokenAddress,
+            network: trade.network,
+            side: conf.order.side,
+            layer: trade.layer,
+            executionMode: "paper",
+            entryPrice: trade.entryPrice,
+            quantity: trade.quantity,
+            initialQuantity: trade.quantity,
+            realizedPnlAbs: 0,
+            feesAbs: trade.feesAbs,
+            tp1Hit: false,
+            openedAt: new Date(tick.ts),
+            highestPrice: trade.entryPrice,
+            currentPrice: trade.entryPrice,
+            pnlPct: 0,
+            trailingStopPrice: 0,
+            metadata,
+          },
+        });
+
+        result.tradesOpened++;
+        if (conf.layer === "core") riskState.tradesTodayCore += 1;
+        else riskState.tradesTodaySatellite += 1;
+
+        result.entries.push(
+          entryResult(conf, true, `Ejecutado ($${sizing.amountUsd.toFixed(2)}) — ${conf.reasons.join(" | ")}`)
+        );
+      };
+
+      // --- 2. Pipeline TRENDING ---
+      const momentumScan = momentum.scanPairs(market.discover("trending", prevTs, tick.ts));
+      result.poolsScanned = momentumScan.poolsScanned;
+      result.tokensScanned = momentumScan.signals.length;
+
+      for (const signal of momentumScan.signals) {
+        try {
+          processedTokens.add(tokenKey(signal.network, signal.tokenAddress));
+          const health = market.healthAt(signal.network, signal.tokenAddress);
+          await tryEnter(await confluence.evaluate(signal, health, regime));
+        } catch (err) {
+          result.errors.push(`${signal.tokenSymbol}: ${errMsg(err)}`);
+        }
+      }
+
+      // --- 3. Pipeline EARLY ---
+      const earlyScan = early.scanPairs(market.discover("new", prevTs, tick.ts));
+      result.earlyPoolsScanned = earlyScan.poolsScanned;
+      result.earlyCandidates = earlyScan.signals.length;
+
+      for (const signal of earlyScan.signals) {
+        try {
+          const key = tokenKey(signal.network, signal.tokenAddress);
+          if (processedTokens.has(key)) continue;
+          processedTokens.add(key);
+          const health = market.healthAt(signal.network, signal.tokenAddress);
+          await tryEnter(await confluence.evaluateEarly(signal, health, regime));
+        } catch (err) {
+          result.errors.push(`Early ${signal.tokenSymbol}: ${errMsg(err)}`);
+        }
+      }
+
+      // --- 5. Posiciones abiertas ---
+      for (const [key, sim] of open) {
+        const snap = market.observe(sim.trade.network, sim.trade.tokenAddress);
+        if (!snap) continue;
+
+        const stress = positions.rollHoldingStress(
+          sim.position,
+          {
+            price: parseFloat(snap.pair.priceUsd) || 0,
+            liquidityUsd: snap.pair.liquidity?.usd ?? 0,
+            volume24h: snap.pair.volume?.h24 ?? 0,
+          },
+          tick.ts
+        );
+        if (stress.event) result.stressEvents.push(stress.event);
+        sim.position.metadata = { ...sim.position.metadata, ...stress.metadata };
+
+        const evaluation = positions.evaluateMarket(sim.position, stress.market, tick.ts);
+        if (!evaluation) continue;
+
+        sim.position.currentPrice = evaluation.currentPrice;
+        sim.position.highestPrice = evaluation.highestPrice;
+        sim.position.trailingStopPrice = evaluation.trailingStopPrice;
+
+        if (!evaluation.exit) continue;
+        // Misma simulación de fill de salida que PositionManager.fillExit
+        const fill = await broker.executeExit(
+          exitOrder(sim.position, evaluation.exit.quantity, evaluation.exit.exitPrice, evaluation.exit.reason, stress.market)
+        );
+        if (!fill.success) {
+          result.errors.push(`Salida ${sim.trade.symbol}: ${fill.error}`);
+          continue;
+        }
+        const exit = positions.exitFromFill(sim.position, evaluation.exit, fill);
+        result.exits.push(exit);
+
+        if (exit.kind === "partial") {
+          sim.position = positions.applyPartial(sim.position, exit);
+          sim.trade.executions.push(execution("partial_exit", exit, tick.ts));
+          const { newState } = riskGate.applyTradeResult(riskState, sim.trade.layer, exit.netPnlAbs, {
+            partial: true,
+            tradePnl: exit.tradeNetPnlAbs,
+          });
+          Object.assign(riskState, newState);
+          continue;
+        }
+
+        open.delete(key);
+        this.closePosition(sim, exit, tick.ts, riskState, riskGate, closed, closedRows);
+        result.tradesClosed++;
+      }
+
+      cycles.push(result);
+      prevTs = tick.ts;
+    }
+
+    const endTs = ticks[ticks.length - 1]?.ts ?? startTs;
+
+    if (this.config.closeOpenAtEnd) {
+      for (const [key, sim] of open) {
+        const snap = market.observe(sim.trade.network, sim.trade.tokenAddress);
+        const last = positions.stressedMarket(sim.position, {
+          price: snap ? parseFloat(snap.pair.priceUsd) || sim.trade.entryPrice : sim.trade.entryPrice,
+          liquidityUsd: snap?.pair.liquidity?.usd ?? 0,
+          volume24h: snap?.pair.volume?.h24 ?? 0,
+        });
+        const reason = "Fin del backtest — cierre a último precio conocido";
+        const fill = await broker.executeExit(
+          exitOrder(sim.position, sim.position.quantity, last.price, reason, last)
+        );
+        if (!fill.success) continue;
+        const exit = positions.exitFromFill(
+          sim.position,
+          { kind: "full", reason, quantity: sim.position.quantity },
+          fill
+        );
+        open.delete(key);
+        this.closePosition(sim, exit, endTs, riskState, riskGate, closed, closedRows);
+      }
+    }
+
+    const trades = [...closed, ...[...open.values()].map((s) => s.trade)];
+    const totalPnl = closed.reduce((s, t) => s + (t.pnlAbs ?? 0) - t.feesAbs, 0);
+
+    return {
+      seed: this.config.seed,
+      from: ticks[0] ? new Date(ticks[0].ts).toISOString() : null,
+      to: ticks.length > 0 ? new Date(endTs).toISOString() : null,
+      ticks: ticks.length,
+      snapshots: market.size,
+      initialCapital: this.config.initialCapital,
+      finalCapital: round(this.config.initialCapital + totalPnl),
+      totalPnl: round(totalPnl),
+      cycles,
+      trades,
+      rollingMetrics: computeRollingMetrics(closedRows, "30d", endTs),
+    };
+  }
+
+  private closePosition(
+    sim: SimPosition,
+    exit: ExitSignal,
+    ts: number,
+    riskState: RiskState,
+    riskGate: AdaptiveRiskGate,
+    closed: BacktestTrade[],
+    closedRows: RollingTradeRow[]
+  ): void {
+    const closedAt = new Date(ts).toISOString();
+    const entryGas = sim.trade.feesAbs;
+    sim.trade.exitPrice = exit.exitPrice;
+    sim.trade.pnlAbs = exit.tradePnlAbs;
+    sim.trade.pnlNetAbs = exit.tradeNetPnlAbs;
+    sim.trade.feesAbs = exit.tradeFeesAbs;
+    sim.trade.pnlPct = exit.pnlPct;
+    sim.trade.closedAt = closedAt;
+    sim.trade.exitReason = exit.reason;
+    sim.trade.executions.push(execution("exit", exit, ts));
+    closed.push(sim.trade);
+
+    closedRows.push({
+      pnl_abs: exit.tradePnlAbs,
+      pnl_net_abs: exit.tradeNetPnlAbs,
+      pnl_pct: exit.pnlPct,
+      is_win: exit.tradeNetPnlAbs > 0,
+      layer: sim.trade.layer,
+      fees_abs: exit.tradeFeesAbs,
+      slippage_simulated: sim.trade.slippage,
+      gas_simulated: entryGas,
+      latency_ms: null,
+      metadata: sim.metadata,
+      closed_at: closedAt,
+    });
+
+    const { newState } = riskGate.applyTradeResult(riskState, sim.trade.layer, exit.netPnlAbs, {
+      tradePnl: exit.tradeNetPnlAbs,
+    });
+    Object.assign(riskState, newState);
+  }
+
+  /**
+   * Replica /api/cron/risk-reset: reset diario a las 00:00 UTC
+   * y semanal los lunes, más limpieza de pausas expiradas.
+   */
+  private resetRiskWindows(state: RiskState, prevTs: number, ts: number): void {
+    if (!Number.isFinite(prevTs)) return;
+
+    const prevDay = Math.floor(prevTs / 86_400_000);
+    const day = Math.floor(ts / 86_400_000);
+    if (day === prevDay) return;
+
+    state.pnlToday = 0;
+    state.tradesTodayCore = 0;
+    state.tradesTodaySatellite = 0;
+
+    for (let d = prevDay + 1; d <= day; d++) {
+      if (new Date(d * 86_400_000).getUTCDay() === 1) {
+        state.pnlThisWeek = 0;
+        state.consecutiveLossesSatellite = 0;
+        break;
+      }
+    }
+
+    if (state.isPaused && state.pauseUntil && state.pauseUntil.getTime() <= ts) {
+      state.isPaused = false;
+      state.pauseReason = null;
+      state.pauseUntil = null;
+    }
+  }
+}
+
+// ---- helpers ----
+
+/** Clave de token para posiciones abiertas y de-duplicación entre pipelines. */
+function tokenKey(network: string, tokenAddress: string): string {
+  return `${network}:${tokenAddress.toLowerCase()}`;
+}
+
+function toRegimeSnapshot(regime: string): RegimeSnapshot | null {
+  if (regime !== "risk_on" && regime !== "risk_off" && regime !== "neutral") return null;
+  return {
+    regime,
+    fearGreedValue: 0,
+    fearGreedClassification: "replay",
+    btcDominance: 0,
+    totalMarketVolume: 0,
+    sentimentScore: 0,
+    confidence: 0,
+  };
+}
+
+function entryResult(conf: ConfluenceResult, executed: boolean, reason: string): EntryResult {
+  return {
+    symbol: conf.token,
+    layer: conf.layer,
+    confidence: conf.confidence,
+    signalSource: conf.signalSource,
+    executed,
+    reason,
+  };
+}
+
+function execution(
+  kind: BacktestExecution["kind"],
+  exit: ExitSignal,
+  ts: number
+): BacktestExecution {
+  return {
+    kind,
+    price: exit.exitPrice,
+    quantity: exit.quantity,
+    pnlAbs: exit.pnlAbs,
+    feesAbs: exit.feesAbs ?? null,
+    reason: exit.reason,
+    executedAt: new Date(ts).toISOString(),
+  };
+}
+
+function exitOrder(
+  pos: OpenPosition,
+  quantity: number,
+  expectedPrice: number,
+  reason: string,
+  observed: MarketObservation
+): ExitOrder {
+  return {
+    tradeId: pos.tradeId,
+    userId: pos.userId,
+    symbol: pos.symbol,
+    tokenAddress: pos.tokenAddress,
+    network: pos.network,
+    positionSide: pos.side,
+    quantity,
+    expectedPrice,
+    reason,
+    liquidityUsd: observed.liquidityUsd,
+    volume24h: observed.volume24h,
+  };
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
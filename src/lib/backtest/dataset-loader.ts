@@ -0,0 +1,307 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DexPair } from "../market/dexscreener";
+import type { MarketRegime } from "../engine/types";
+import type {
+  BacktestDataset,
+  BacktestTick,
+  HealthSnapshot,
+  PoolSnapshot,
+} from "./types";
+
+const PRICE_WINDOWS = [
+  { field: "price_1h", offsetMs: 1 * 3600_000 },
+  { field: "price_6h", offsetMs: 6 * 3600_000 },
+  { field: "price_24h", offsetMs: 24 * 3600_000 },
+  { field: "price_48h", offsetMs: 48 * 3600_000 },
+  { field: "price_7d", offsetMs: 7 * 24 * 3600_000 },
+] as const;
+
+const DEFAULT_TICK_MS = 15 * 60_000;
+const MAX_ROWS = 5000;
+
+type OutcomeRow = {
+  symbol: string;
+  token_address: string;
+  network: string;
+  entry_price: number | null;
+  liquidity_usd: number | null;
+  volume_24h: number | null;
+  health_score: number | null;
+  price_1h: number | null;
+  price_6h: number | null;
+  price_24h: number | null;
+  price_48h: number | null;
+  price_7d: number | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+};
+
+type HealthRow = {
+  token_id: string;
+  liquidity_usd: number | null;
+  volume_24h_usd: number | null;
+  spread_pct: number | null;
+  holders_count: number | null;
+  top10_concentration_pct: number | null;
+  contract_risk_flags: string[] | null;
+  health_score: number | null;
+  snapshot_at: string;
+};
+
+/**
+ * Construye un dataset de backtest a partir de lo grabado por el sistema:
+ *  - cycle_runs            → ticks del reloj virtual + régimen de cada ciclo
+ *  - signal_outcomes       → pools descubiertos y su trayectoria de precio
+ *                            (1h, 6h, 24h, 48h, 7d)
+ *  - token_health_snapshots → salud del token en cada momento
+ *
+ * Las señales grabadas antes de existir metadata.pairSnapshot se reconstruyen
+ * con un par sintético (sin txns ni priceChange): puntúan peor en los
+ * detectores que un par real, así que conviene usar rangos recientes.
+ */
+export async function loadDatasetFromSupabase(
+  supabase: SupabaseClient,
+  userId: string,
+  range: { from: Date; to: Date }
+): Promise<BacktestDataset> {
+  const fromIso = range.from.toISOString();
+  const toIso = range.to.toISOString();
+
+  const [cyclesRes, outcomesRes, registryRes] = await Promise.all([
+    supabase
+      .from("cycle_runs")
+      .select("timestamp, regime")
+      .eq("user_id", userId)
+      .gte("timestamp", fromIso)
+      .lte("timestamp", toIso)
+      .order("timestamp", { ascending: true })
+      .limit(MAX_ROWS),
+    supabase
+      .from("signal_outcomes")
+      .select(
+        "symbol, token_address, network, entry_price, liquidity_usd, volume_24h, health_score, price_1h, price_6h, price_24h, price_48h, price_7d, metadata, created_at"
+      )
+      .eq("user_id", userId)
+      .gte("created_at", fromIso)
+      .lte("created_at", toIso)
+      .order("created_at", { ascending: true })
+      .limit(MAX_ROWS),
+    supabase
+      .from("token_registry")
+      .select("id, address, network")
+      .eq("user_id", userId),
+  ]);
+
+  if (outcomesRes.error) {
+    throw new Error(`signal_outcomes: ${outcomesRes.error.message}`);
+  }
+
+  const registry = new Map<string, string>();
+  for (const r of (registryRes.data ?? []) as { id: string; address: string; network: string }[]) {
+    registry.set(r.id, tokenKey(r.network, r.address));
+  }
+
+  const healthByToken = new Map<string, HealthRow[]>();
+  if (registry.size > 0) {
+    const { data: healthRows } = await supabase
+      .from("token_health_snapshots")
+      .select(
+        "token_id, liquidity_usd, volume_24h_usd, spread_pct, holders_count, top10_concentration_pct, contract_risk_flags, health_score, snapshot_at"
+      )
+      .in("token_id", [...registry.keys()])
+      .gte("snapshot_at", fromIso)
+      .lte("snapshot_at", toIso)
+      .order("snapshot_at", { ascending: true })
+      .limit(MAX_ROWS);
+
+    for (const h of (healthRows ?? []) as HealthRow[]) {
+      const key = registry.get(h.token_id);
+      if (!key) continue;
+      if (!healthByToken.has(key)) healthByToken.set(key, []);
+      healthByToken.get(key)!.push(h);
+    }
+  }
+
+  const snapshots: PoolSnapshot[] = [];
+
+  for (const row of (outcomesRes.data ?? []) as OutcomeRow[]) {
+    const createdMs = new Date(row.created_at).getTime();
+    const meta = row.metadata ?? {};
+    const basePair =
+      (meta.pairSnapshot as DexPair | undefined) ?? syntheticPair(row, createdMs);
+    const entryPrice = Number(row.entry_price) || parseFloat(basePair.priceUsd) || 0;
+    if (entryPrice <= 0) continue;
+
+    const key = tokenKey(row.network, row.token_address);
+    const health = nearestHealth(healthByToken.get(key), createdMs);
+    const wc = meta.walletConfluence as
+      | { count?: number; avgScore?: number; simulated?: number }
+      | null
+      | undefined;
+
+    snapshots.push({
+      timestamp: row.created_at,
+      kind: meta.signalSource === "early" ? "new" : "trending",
+      network: row.network,
+      tokenAddress: row.token_address,
+      symbol: row.symbol,
+      pair: basePair,
+      health,
+      walletConfluence: wc?.count
+        ? {
+            walletCount: wc.count,
+            avgWalletScore: Number(wc.avgScore ?? 0),
+            totalAmountUsd: 0,
+            walletIds: [],
+            simulatedWalletCount: Number(wc.simulated ?? 0),
+          }
+        : null,
+    });
+
+    for (const win of PRICE_WINDOWS) {
+      const price = Number(row[win.field]);
+      if (!price || price <= 0) continue;
+      const ts = createdMs + win.offsetMs;
+      if (ts > range.to.getTime()) continue;
+
+      snapshots.push({
+        timestamp: new Date(ts).toISOString(),
+        kind: "price",
+        network: row.network,
+        tokenAddress: row.token_address,
+        symbol: row.symbol,
+        pair: { ...basePair, priceUsd: String(price) },
+        health: nearestHealth(healthByToken.get(key), ts),
+      });
+    }
+  }
+
+  let ticks: BacktestTick[] = ((cyclesRes.data ?? []) as { timestamp: string; regime: string }[])
+    .map((c) => ({ timestamp: c.timestamp, regime: toRegime(c.regime) }));
+
+  if (ticks.length === 0) {
+    ticks = buildUniformTicks(snapshots, DEFAULT_TICK_MS);
+  }
+
+  return { source: "supabase", ticks, snapshots };
+}
+
+/**
+ * Valida un dataset importado desde fichero (JSON con ticks + snapshots).
+ * Si no trae ticks se genera un tick cada 15 minutos sobre el rango de snapshots.
+ */
+export function parseDataset(input: unknown): BacktestDataset {
+  if (!input || typeof input !== "object") {
+    throw new Error("Dataset inválido: se esperaba un objeto");
+  }
+  const raw = input as { ticks?: unknown; snapshots?: unknown };
+
+  if (!Array.isArray(raw.snapshots)) {
+    throw new Error("Dataset inválido: falta el array 'snapshots'");
+  }
+
+  const snapshots: PoolSnapshot[] = [];
+  raw.snapshots.forEach((s, i) => {
+    const snap = s as Partial<PoolSnapshot>;
+    if (
+      typeof snap.timestamp !== "string" ||
+      typeof snap.network !== "string" ||
+      typeof snap.tokenAddress !== "string" ||
+      !snap.pair ||
+      typeof snap.pair.priceUsd !== "string"
+    ) {
+      throw new Error(`Dataset inválido: snapshot #${i} incompleto`);
+    }
+    if (snap.kind !== "trending" && snap.kind !== "new" && snap.kind !== "price") {
+      throw new Error(`Dataset inválido: snapshot #${i} con kind desconocido`);
+    }
+    snapshots.push({
+      timestamp: snap.timestamp,
+      kind: snap.kind,
+      network: snap.network,
+      tokenAddress: snap.tokenAddress,
+      symbol: snap.symbol ?? snap.pair.baseToken?.symbol ?? "???",
+      pair: snap.pair,
+      health: snap.health ?? null,
+      walletConfluence: snap.walletConfluence ?? null,
+    });
+  });
+
+  const ticks: BacktestTick[] = Array.isArray(raw.ticks)
+    ? (raw.ticks as Partial<BacktestTick>[]).map((t, i) => {
+        if (typeof t.timestamp !== "string") {
+          throw new Error(`Dataset inválido: tick #${i} sin timestamp`);
+        }
+        return { timestamp: t.timestamp, regime: toRegime(t.regime) };
+      })
+    : buildUniformTicks(snapshots, DEFAULT_TICK_MS);
+
+  return { source: "file", ticks, snapshots };
+}
+
+// ---- helpers ----
+
+function syntheticPair(row: OutcomeRow, createdMs: number): DexPair {
+  const zeroTx = { buys: 0, sells: 0 };
+  return {
+    chainId: row.network,
+    dexId: "replay",
+    url: "",
+    pairAddress: "",
+    baseToken: { address: row.token_address, name: row.symbol, symbol: row.symbol },
+    quoteToken: { address: "", name: "USD", symbol: "USD" },
+    priceNative: "0",
+    priceUsd: String(Number(row.entry_price) || 0),
+    txns: { m5: zeroTx, h1: zeroTx, h6: zeroTx, h24: zeroTx },
+    volume: { m5: 0, h1: 0, h6: 0, h24: Number(row.volume_24h) || 0 },
+    priceChange: { m5: 0, h1: 0, h6: 0, h24: 0 },
+    liquidity: { usd: Number(row.liquidity_usd) || 0, base: 0, quote: 0 },
+    fdv: 0,
+    marketCap: 0,
+    pairCreatedAt: createdMs - 7 * 24 * 3600_000,
+  };
+}
+
+function nearestHealth(rows: HealthRow[] | undefined, ts: number): HealthSnapshot | null {
+  if (!rows?.length) return null;
+  let found: HealthRow | null = null;
+  for (const r of rows) {
+    if (new Date(r.snapshot_at).getTime() > ts) break;
+    found = r;
+  }
+  if (!found || found.health_score == null) return null;
+
+  return {
+    healthScore: Number(found.health_score),
+    liquidityUsd: Number(found.liquidity_usd ?? 0),
+    volume24hUsd: Number(found.volume_24h_usd ?? 0),
+    spreadPct: Number(found.spread_pct ?? 0),
+    contractRiskFlags: found.contract_risk_flags ?? [],
+    holdersCount: found.holders_count,
+    top10ConcentrationPct:
+      found.top10_concentration_pct != null ? Number(found.top10_concentration_pct) : null,
+  };
+}
+
+function buildUniformTicks(snapshots: PoolSnapshot[], stepMs: number): BacktestTick[] {
+  if (snapshots.length === 0) return [];
+  const times = snapshots.map((s) => new Date(s.timestamp).getTime()).filter(Number.isFinite);
+  const start = Math.min(...times);
+  const end = Math.max(...times);
+
+  const ticks: BacktestTick[] = [];
+  for (let t = start; t <= end + stepMs; t += stepMs) {
+    ticks.push({ timestamp: new Date(t).toISOString(), regime: "unknown" });
+  }
+  return ticks;
+}
+
+function toRegime(value: unknown): MarketRegime | "unknown" {
+  return value === "risk_on" || value === "risk_off" || value === "neutral"
+    ? value
+    : "unknown";
+}
+
+function tokenKey(network: string, tokenAddress: string): string {
+  return `${network.toLowerCase()}:${tokenAddress.toLowerCase()}`;
+}
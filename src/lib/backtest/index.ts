@@ -0,0 +1,13 @@
+export { Backtester } from "./backtester";
+export { ReplayMarket } from "./replay-market";
+export { loadDatasetFromSupabase, parseDataset } from "./dataset-loader";
+export type {
+  PoolSnapshot,
+  HealthSnapshot,
+  BacktestTick,
+  BacktestDataset,
+  BacktestConfig,
+  BacktestTrade,
+  BacktestExecution,
+  BacktestResult,
+} from "./types";
@@ -0,0 +1,148 @@
+import type { DexPair } from "../market/dexscreener";
+import type { TokenHealthResult } from "../market/token-health";
+import type { QuoteFetcher } from "../engine/paper-broker";
+import { SlippageModel } from "../engine/slippage-model";
+import type { PriceQuote, TradeSide } from "../engine/types";
+import type { Clock } from "../engine/clock";
+import type {
+  WalletConfluenceInfo,
+  WalletConfluenceSource,
+} from "../signals/confluence-engine";
+import type { PoolSnapshot } from "./types";
+
+const CONFLUENCE_WINDOW_MS = 6 * 3600_000;
+
+/**
+ * ReplayMarket — mercado reconstruido a partir de snapshots grabados.
+ *
+ * Sustituye a DexScreener/Birdeye/Gecko durante un backtest: el discovery,
+ * las quotes del PaperBroker, la salud del token y la wallet confluence
+ * se sirven desde los snapshots con timestamp <= reloj virtual.
+ * Nunca mira al futuro.
+ */
+export class ReplayMarket implements QuoteFetcher, WalletConfluenceSource {
+  private timeline: (PoolSnapshot & { ts: number })[];
+  private byToken = new Map<string, (PoolSnapshot & { ts: number })[]>();
+
+  constructor(
+    snapshots: PoolSnapshot[],
+    private clock: Clock
+  ) {
+    this.timeline = snapshots
+      .map((s) => ({ ...s, ts: new Date(s.timestamp).getTime() }))
+      .filter((s) => Number.isFinite(s.ts))
+      .sort((a, b) => a.ts - b.ts);
+
+    for (const snap of this.timeline) {
+      const key = tokenKey(snap.network, snap.tokenAddress);
+      if (!this.byToken.has(key)) this.byToken.set(key, []);
+      this.byToken.get(key)!.push(snap);
+    }
+  }
+
+  /**
+   * Pares descubiertos en (fromTs, toTs] para el tipo de discovery dado.
+   * Si un token aparece varias veces en la ventana se usa el más reciente.
+   */
+  discover(kind: "trending" | "new", fromTs: number, toTs: number): DexPair[] {
+    const latest = new Map<string, DexPair>();
+    for (const snap of this.timeline) {
+      if (snap.ts <= fromTs) continue;
+      if (snap.ts > toTs) break;
+      if (snap.kind !== kind) continue;
+      latest.set(tokenKey(snap.network, snap.tokenAddress), snap.pair);
+    }
+    return [...latest.values()];
+  }
+
+  /** Último snapshot conocido del token en el instante actual del reloj. */
+  observe(network: string, tokenAddress: string): PoolSnapshot | null {
+    const series = this.byToken.get(tokenKey(network, tokenAddress));
+    if (!series) return null;
+    const now = this.clock();
+
+    let found: PoolSnapshot | null = null;
+    for (const snap of series) {
+      if (snap.ts > now) break;
+      found = snap;
+    }
+    return found;
+  }
+
+  healthAt(network: string, tokenAddress: string): TokenHealthResult | null {
+    const series = this.byToken.get(tokenKey(network, tokenAddress));
+    if (!series) return null;
+    const now = this.clock();
+
+    let found: (PoolSnapshot & { ts: number }) | null = null;
+    for (const snap of series) {
+      if (snap.ts > now) break;
+      if (snap.health) found = snap;
+    }
+    if (!found?.health) return null;
+
+    return {
+      tokenId: "",
+      tokenAddress,
+      network,
+      symbol: found.symbol,
+      liquidityUsd: found.health.liquidityUsd,
+      volume24hUsd: found.health.volume24hUsd,
+      spreadPct: found.health.spreadPct,
+      holdersCount: found.health.holdersCount ?? null,
+      top10ConcentrationPct: found.health.top10ConcentrationPct ?? null,
+      contractRiskFlags: found.health.contractRiskFlags,
+      healthScore: found.health.healthScore,
+      bestPair: found.pair,
+    };
+  }
+
+  async getQuote(tokenAddress: string, network: string): Promise<PriceQuote> {
+    const snap = this.observe(network, tokenAddress);
+    if (!snap) {
+      throw new Error(`Sin snapshot para ${tokenAddress} en ${network}`);
+    }
+
+    const liquidityUsd = snap.pair.liquidity?.usd ?? 0;
+    const volume24h = snap.pair.volume?.h24 ?? 0;
+    const spreadPct = snap.health?.spreadPct ?? SlippageModel.estimateSpreadPct(liquidityUsd, volume24h);
+
+    return {
+      symbol: snap.symbol,
+      tokenAddress,
+      network,
+      price: parseFloat(snap.pair.priceUsd) || 0,
+      liquidityUsd,
+      spreadPct: Math.min(spreadPct, 10),
+      timestamp: new Date(this.clock()),
+    };
+  }
+
+  async getWalletConfluence(
+    tokenAddress: string,
+    network: string,
+    direction: TradeSide = "buy"
+  ): Promise<WalletConfluenceInfo | null> {
+    // Los snapshots solo graban confluencia de compras
+    if (direction !== "buy") return null;
+    const series = this.byToken.get(tokenKey(network, tokenAddress));
+    if (!series) return null;
+    const now = this.clock();
+
+    let found: WalletConfluenceInfo | null = null;
+    for (const snap of series) {
+      if (snap.ts > now) break;
+      if (snap.ts < now - CONFLUENCE_WINDOW_MS) continue;
+      if (snap.walletConfluence) found = snap.walletConfluence;
+    }
+    return found;
+  }
+
+  get size(): number {
+    return this.timeline.length;
+  }
+}
+
+function tokenKey(network: string, tokenAddress: string): string {
+  return `${network.toLowerCase()}:${tokenAddress.toLowerCase()}`;
+}
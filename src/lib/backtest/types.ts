@@ -0,0 +1,113 @@
+import type { DexPair } from "../market/dexscreener";
+import type { MarketRegime, RiskConfig, Layer } from "../engine/types";
+import type { RollingMetrics } from "../engine/rolling-performance";
+import type { MomentumConfig } from "../signals/momentum-detector";
+import type { EarlyConfig } from "../signals/early-detector";
+import type {
+  ConfluenceConfig,
+  WalletConfluenceInfo,
+  SignalSource,
+} from "../signals/confluence-engine";
+import type { PositionManagerConfig } from "../signals/position-manager";
+import type { CycleResult } from "../signals/orchestrator";
+
+/**
+ * Snapshot grabado de un pool en un instante.
+ *  - trending: aparece en el discovery de momentum en ese tick
+ *  - new:      aparece en el discovery early (new pools)
+ *  - price:    solo punto de precio (seguimiento de posiciones abiertas)
+ */
+export interface PoolSnapshot {
+  timestamp: string;
+  kind: "trending" | "new" | "price";
+  network: string;
+  tokenAddress: string;
+  symbol: string;
+  pair: DexPair;
+  health?: HealthSnapshot | null;
+  walletConfluence?: WalletConfluenceInfo | null;
+}
+
+export interface HealthSnapshot {
+  healthScore: number;
+  liquidityUsd: number;
+  volume24hUsd: number;
+  spreadPct: number;
+  contractRiskFlags: string[];
+  holdersCount?: number | null;
+  top10ConcentrationPct?: number | null;
+}
+
+/** Un tick del reloj virtual = un ciclo del Orchestrator. */
+export interface BacktestTick {
+  timestamp: string;
+  regime: MarketRegime | "unknown";
+}
+
+export interface BacktestDataset {
+  source: "supabase" | "file";
+  ticks: BacktestTick[];
+  snapshots: PoolSnapshot[];
+}
+
+export interface BacktestConfig {
+  seed: number | string;
+  initialCapital: number;
+  /** Cierra a último precio conocido las posiciones que sigan abiertas al final. */
+  closeOpenAtEnd: boolean;
+  momentum?: Partial<MomentumConfig>;
+  early?: Partial<EarlyConfig>;
+  confluence?: Partial<ConfluenceConfig>;
+  positions?: Partial<PositionManagerConfig>;
+  risk?: Partial<RiskConfig>;
+}
+
+export interface BacktestTrade {
+  id: string;
+  symbol: string;
+  tokenAddress: string;
+  network: string;
+  layer: Layer;
+  signalSource: SignalSource;
+  confidence: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  quantity: number;
+  amountUsd: number;
+  /** Gas de entrada; al cerrar, todos los costes (entrada + salidas). */
+  feesAbs: number;
+  slippage: number;
+  /** PnL bruto; pnlNetAbs descuenta feesAbs. */
+  pnlAbs: number | null;
+  pnlNetAbs: number | null;
+  pnlPct: number | null;
+  openedAt: string;
+  closedAt: string | null;
+  exitReason: string | null;
+  executions: BacktestExecution[];
+}
+
+/** Fill hijo del trade (equivalente a una fila de trade_executions). */
+export interface BacktestExecution {
+  kind: "entry" | "partial_exit" | "exit";
+  price: number;
+  quantity: number;
+  pnlAbs: number | null;
+  feesAbs: number | null;
+  reason: string | null;
+  executedAt: string;
+}
+
+export interface BacktestResult {
+  seed: number | string;
+  from: string | null;
+  to: string | null;
+  ticks: number;
+  snapshots: number;
+  initialCapital: number;
+  finalCapital: number;
+  totalPnl: number;
+  cycles: CycleResult[];
+  trades: BacktestTrade[];
+  rollingMetrics: RollingMetrics;
+}
@@ -0,0 +1,151 @@
+// ============================================================
+// ABI mínimo para swaps en routers tipo Uniswap V2
+// ============================================================
+
+/** Selectores de 4 bytes de las funciones que usa el broker on-chain. */
+export const SELECTORS = {
+  // swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)
+  swapExactTokensForTokens: "0x5c11d795",
+  // getAmountsOut(uint256,address[])
+  getAmountsOut: "0xd06ca61f",
+  // approve(address,uint256)
+  approve: "0x095ea7b3",
+  // allowance(address,address)
+  allowance: "0xdd62ed3e",
+  // decimals()
+  decimals: "0x313ce567",
+  // balanceOf(address)
+  balanceOf: "0x70a08231",
+} as const;
+
+/** keccak256("Transfer(address,address,uint256)") */
+export const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+export interface SwapCall {
+  amountIn: bigint;
+  amountOutMin: bigint;
+  path: string[];
+  to: string;
+  deadline: bigint;
+}
+
+export function encodeSwapExactTokensForTokens(call: SwapCall): string {
+  // Cabeza: 5 palabras; el array dinámico empieza tras ella (offset 0xa0)
+  const head = [
+    word(call.amountIn),
+    word(call.amountOutMin),
+    word(BigInt(5 * 32)),
+    addressWord(call.to),
+    word(call.deadline),
+  ];
+  const tail = [word(BigInt(call.path.length)), ...call.path.map(addressWord)];
+  return SELECTORS.swapExactTokensForTokens + head.join("") + tail.join("");
+}
+
+export function decodeSwapExactTokensForTokens(data: string): SwapCall {
+  const words = splitWords(data);
+  const pathOffset = Number(BigInt("0x" + words[2])) / 32;
+  const pathLength = Number(BigInt("0x" + words[pathOffset]));
+  const path: string[] = [];
+  for (let i = 0; i < pathLength; i++) {
+    path.push(wordToAddress(words[pathOffset + 1 + i]));
+  }
+  return {
+    amountIn: BigInt("0x" + words[0]),
+    amountOutMin: BigInt("0x" + words[1]),
+    path,
+    to: wordToAddress(words[3]),
+    deadline: BigInt("0x" + words[4]),
+  };
+}
+
+export function encodeGetAmountsOut(amountIn: bigint, path: string[]): string {
+  // Cabeza: amountIn y el offset del array (0x40)
+  return (
+    SELECTORS.getAmountsOut +
+    word(amountIn) +
+    word(BigInt(2 * 32)) +
+    word(BigInt(path.length)) +
+    path.map(addressWord).join("")
+  );
+}
+
+export function decodeGetAmountsOut(data: string): { amountIn: bigint; path: string[] } {
+  const words = splitWords(data);
+  const pathOffset = Number(BigInt("0x" + words[1])) / 32;
+  const pathLength = Number(BigInt("0x" + words[pathOffset]));
+  const path: string[] = [];
+  for (let i = 0; i < pathLength; i++) {
+    path.push(wordToAddress(words[pathOffset + 1 + i]));
+  }
+  return { amountIn: BigInt("0x" + words[0]), path };
+}
+
+/** Respuesta ABI de un `uint256[]` (p. ej. getAmountsOut). */
+export function decodeUintArray(hex: string): bigint[] {
+  const clean = hex.replace(/^0x/, "");
+  const words: string[] = [];
+  for (let i = 0; i < clean.length; i += 64) words.push(clean.slice(i, i + 64));
+  const offset = Number(BigInt("0x" + words[0])) / 32;
+  const length = Number(BigInt("0x" + words[offset]));
+  return words.slice(offset + 1, offset + 1 + length).map((w) => BigInt("0x" + w));
+}
+
+export function encodeApprove(spender: string, amount: bigint): string {
+  return SELECTORS.approve + addressWord(spender) + word(amount);
+}
+
+export function encodeAllowance(owner: string, spender: string): string {
+  return SELECTORS.allowance + addressWord(owner) + addressWord(spender);
+}
+
+export function encodeBalanceOf(owner: string): string {
+  return SELECTORS.balanceOf + addressWord(owner);
+}
+
+export function encodeDecimals(): string {
+  return SELECTORS.decimals;
+}
+
+export function selectorOf(data: string): string {
+  return data.slice(0, 10).toLowerCase();
+}
+
+/** Palabras de 32 bytes (hex sin 0x) de los argumentos de una llamada. */
+export function splitWords(data: string): string[] {
+  const body = data.startsWith("0x") ? data.slice(10) : data.slice(8);
+  const words: string[] = [];
+  for (let i = 0; i < body.length; i += 64) words.push(body.slice(i, i + 64));
+  return words;
+}
+
+export function decodeUint(hex: string): bigint {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+  return clean.length === 0 ? BigInt(0) : BigInt("0x" + clean);
+}
+
+export function addressWord(address: string): string {
+  return address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+export function wordToAddress(w: string): string {
+  return "0x" + w.replace(/^0x/, "").slice(-40);
+}
+
+export function word(value: bigint): string {
+  return value.toString(16).padStart(64, "0");
+}
+
+/** Convierte una cantidad decimal a unidades mínimas del token. */
+export function toUnits(amount: number, decimals: number): bigint {
+  const [int, frac = ""] = amount.toFixed(Math.min(decimals, 18)).split(".");
+  return BigInt(int + frac.padEnd(decimals, "0").slice(0, decimals));
+}
+
+export function fromUnits(amount: bigint, decimals: number): number {
+  const base = BigInt(10) ** BigInt(decimals);
+  return Number(amount / base) + Number(amount % base) / Number(base);
+}
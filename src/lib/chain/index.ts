@@ -0,0 +1,7 @@
+export * from "./types";
+export { EVM_NETWORKS, getEvmNetwork } from "./networks";
+export type { EvmNetworkConfig } from "./networks";
+export { RemoteSigner, MockSigner } from "./signer";
+export { JsonRpcChain } from "./rpc";
+export { MockChainRpc } from "./mock-chain";
+export type { MockChainOptions } from "./mock-chain";
@@ -0,0 +1,267 @@
+import { createHash } from "crypto";
+import type { QuoteFetcher } from "../engine/paper-broker";
+import type { Clock } from "../engine/clock";
+import { systemClock } from "../engine/clock";
+import type { ChainRpc, FeeData, TxLog, TxReceipt } from "./types";
+import { decodeMockRawTx } from "./signer";
+import { EVM_NETWORKS } from "./networks";
+import {
+  SELECTORS,
+  TRANSFER_TOPIC,
+  MAX_UINT256,
+  addressWord,
+  decodeGetAmountsOut,
+  decodeUint,
+  decodeSwapExactTokensForTokens,
+  fromUnits,
+  selectorOf,
+  splitWords,
+  toUnits,
+  word,
+  wordToAddress,
+} from "./abi";
+
+export interface MockChainOptions {
+  /** Comisión del pool en bps (30 = 0.3%, como Uniswap V2). */
+  feeBps?: number;
+  gasUsed?: number;
+  gasPriceWei?: bigint;
+  /** USDC con el que arranca cada wallet la primera vez que aparece. */
+  initialQuoteBalance?: number;
+  tokenDecimals?: number;
+  /**
+   * Los tokens solo tienen pool contra el nativo envuelto (como la mayoría
+   * de memecoins): la ruta directa con USDC no existe y revierte.
+   */
+  wrappedNativePoolsOnly?: boolean;
+  clock?: Clock;
+}
+
+const POOL_ADDRESS = "0x00000000000000000000000000000000000000aa";
+
+/**
+ * MockChainRpc — cadena local en memoria para probar el broker on-chain
+ * sin red ni fondos.
+ *
+ * Entiende las transacciones de MockSigner: registra los approve y
+ * ejecuta swaps (que exigen allowance al router) contra el precio/liquidez del QuoteFetcher con un pool de
+ * producto constante, respeta nonce, deadline y amountOutMin, y emite
+ * logs Transfer como haría el token real. Con `holdReceipts` las tx se
+ * ejecutan pero su receipt no aparece hasta `mine()` (tx pendiente o
+ * RPC que no responde a tiempo).
+ */
+export class MockChainRpc implements ChainRpc {
+  private nonces = new Map<string, number>();
+  private balances = new Map<string, bigint>();
+  private allowances = new Map<string, bigint>();
+  private receipts = new Map<string, TxReceipt>();
+  private held = new Set<string>();
+  private blockNumber = 1;
+  private opts: Required<Omit<MockChainOptions, "clock">>;
+  /** Si las tx nuevas quedan sin receipt hasta `mine()`. */
+  holdReceipts = false;
+  private clock: Clock;
+
+  constructor(private quotes: QuoteFetcher, opts?: MockChainOptions) {
+    this.opts = {
+      feeBps: opts?.feeBps ?? 30,
+      gasUsed: opts?.gasUsed ?? 150_000,
+      gasPriceWei: opts?.gasPriceWei ?? BigInt(1_000_000_000),
+      initialQuoteBalance: opts?.initialQuoteBalance ?? 1_000_000,
+      tokenDecimals: opts?.tokenDecimals ?? 18,
+      wrappedNativePoolsOnly: opts?.wrappedNativePoolsOnly ?? false,
+    };
+    this.clock = opts?.clock ?? systemClock;
+  }
+
+  async getTransactionCount(network: string, address: string): Promise<number> {
+    return this.nonces.get(`${network}:${address.toLowerCase()}`) ?? 0;
+  }
+
+  async getFeeData(): Promise<FeeData> {
+    return {
+      maxFeePerGas: this.opts.gasPriceWei,
+      maxPriorityFeePerGas: this.opts.gasPriceWei / BigInt(10),
+    };
+  }
+
+  async estimateGas(): Promise<bigint> {
+    return BigInt(this.opts.gasUsed);
+  }
+
+  async call(network: string, to: string, data: string): Promise<string> {
+    const selector = selectorOf(data);
+    if (selector === SELECTORS.decimals) {
+      return "0x" + word(BigInt(this.decimalsOf(network, to)));
+    }
+    if (selector === SELECTORS.allowance) {
+      const [owner, spender] = splitWords(data).map(wordToAddress);
+      return "0x" + word(this.allowances.get(allowanceKey(network, to, owner, spender)) ?? BigInt(0));
+    }
+    if (selector === SELECTORS.getAmountsOut) {
+      const { amountIn, path } = decodeGetAmountsOut(data);
+      const amountOut = await this.quoteSwap(network, path, amountIn);
+      if (amountOut === null) throw new Error("MockChain: execution reverted (sin pool para la ruta)");
+      // Solo importan la entrada y la salida: los saltos intermedios van a 0
+      const amounts = path.map((_, i) => (i === 0 ? amountIn : i === path.length - 1 ? amountOut : BigInt(0)));
+      return "0x" + word(BigInt(32)) + word(BigInt(amounts.length)) + amounts.map(word).join("");
+    }
+    if (selector === SELECTORS.balanceOf) {
+      const owner = wordToAddress(splitWords(data)[0]);
+      return "0x" + word(this.balanceOf(network, to, owner));
+    }
+    throw new Error(`MockChain: llamada no soportada ${selector}`);
+  }
+
+  async sendRawTransaction(network: string, rawTx: string): Promise<string> {
+    const tx = decodeMockRawTx(rawTx);
+    const nonceKey = `${network}:${tx.from.toLowerCase()}`;
+    const expectedNonce = this.nonces.get(nonceKey) ?? 0;
+    if (tx.nonce !== expectedNonce) {
+      throw new Error(`MockChain: nonce ${tx.nonce} inválido (esperado ${expectedNonce})`);
+    }
+    this.nonces.set(nonceKey, expectedNonce + 1);
+
+    const txHash = "0x" + createHash("sha256").update(rawTx).digest("hex");
+    let logs: TxLog[] = [];
+    let status: TxReceipt["status"] = "success";
+
+    const selector = selectorOf(tx.data);
+    if (selector === SELECTORS.swapExactTokensForTokens) {
+      const swapLogs = await this.executeSwap(network, tx.from, tx.to, tx.data);
+      if (swapLogs) logs = swapLogs;
+      else status = "reverted";
+    } else if (selector === SELECTORS.approve) {
+      const [spender, amount] = splitWords(tx.data);
+      this.allowances.set(allowanceKey(network, tx.to, tx.from, wordToAddress(spender)), decodeUint(amount));
+    } else {
+      status = "reverted";
+    }
+
+    this.receipts.set(txHash, {
+      txHash,
+      status,
+      blockNumber: this.blockNumber++,
+      gasUsed: BigInt(this.opts.gasUsed),
+      effectiveGasPrice: this.opts.gasPriceWei,
+      logs,
+    });
+    if (this.holdReceipts) this.held.add(txHash);
+
+    return txHash;
+  }
+
+  async getTransactionReceipt(_network: string, txHash: string): Promise<TxReceipt | null> {
+    if (this.held.has(txHash)) return null;
+    return this.receipts.get(txHash) ?? null;
+  }
+
+  async waitForReceipt(_network: string, txHash: string, timeoutMs: number): Promise<TxReceipt> {
+    if (this.held.has(txHash)) {
+      throw new Error(`Timeout esperando receipt de ${txHash} (${timeoutMs}ms)`);
+    }
+    const receipt = this.receipts.get(txHash);
+    if (!receipt) throw new Error(`MockChain: tx ${txHash} desconocida`);
+    return receipt;
+  }
+
+  /** Publica los receipts retenidos con `holdReceipts`. */
+  mine(): void {
+    this.held.clear();
+  }
+
+  /** Saldo de un token (unidades mínimas); útil para inspeccionar el estado. */
+  balanceOf(network: string, token: string, owner: string): bigint {
+    const key = `${network}:${token.toLowerCase()}:${owner.toLowerCase()}`;
+    const existing = this.balances.get(key);
+    if (existing !== undefined) return existing;
+
+    const quote = EVM_NETWORKS[network]?.quoteToken.toLowerCase();
+    const initial = token.toLowerCase() === quote
+      ? toUnits(this.opts.initialQuoteBalance, this.decimalsOf(network, token))
+      : BigInt(0);
+    this.balances.set(key, initial);
+    return initial;
+  }
+
+  private async executeSwap(
+    network: string,
+    from: string,
+    router: string,
+    data: string
+  ): Promise<TxLog[] | null> {
+    const call = decodeSwapExactTokensForTokens(data);
+    const tokenIn = call.path[0];
+    const tokenOut = call.path[call.path.length - 1];
+    if (call.deadline < BigInt(Math.floor(this.clock() / 1000))) return null;
+    if (this.balanceOf(network, tokenIn, from) < call.amountIn) return null;
+    const allowance = this.allowances.get(allowanceKey(network, tokenIn, from, router)) ?? BigInt(0);
+    if (allowance < call.amountIn) return null;
+
+    const amountOut = await this.quoteSwap(network, call.path, call.amountIn);
+    if (amountOut === null || amountOut < call.amountOutMin) return null;
+
+    this.adjust(network, tokenIn, from, -call.amountIn);
+    if (allowance !== MAX_UINT256) {
+      this.allowances.set(allowanceKey(network, tokenIn, from, router), allowance - call.amountIn);
+    }
+    this.adjust(network, tokenOut, call.to, amountOut);
+
+    return [{
+      address: tokenOut,
+      topics: [TRANSFER_TOPIC, "0x" + addressWord(POOL_ADDRESS), "0x" + addressWord(call.to)],
+      data: "0x" + word(amountOut),
+    }];
+  }
+
+  /**
+   * Salida de un swap USDC ↔ token por `path` contra el precio/liquidez del
+   * QuoteFetcher; null si la ruta no existe (p. ej. directa con
+   * `wrappedNativePoolsOnly`).
+   */
+  private async quoteSwap(network: string, path: string[], amountIn: bigint): Promise<bigint | null> {
+    const net = EVM_NETWORKS[network];
+    if (!net || path.length < 2) return null;
+
+    const tokenIn = path[0];
+    const tokenOut = path[path.length - 1];
+    const viaNative = path.length === 3 && path[1].toLowerCase() === net.wrappedNative.toLowerCase();
+    if (path.length > 2 && !viaNative) return null;
+    if (path.length === 2 && this.opts.wrappedNativePoolsOnly) return null;
+
+    const isBuy = tokenIn.toLowerCase() === net.quoteToken.toLowerCase();
+    const token = isBuy ? tokenOut : tokenIn;
+    const quote = await this.quotes.getQuote(token, network);
+    if (quote.price <= 0) return null;
+
+    const decIn = this.decimalsOf(network, tokenIn);
+    const decOut = this.decimalsOf(network, tokenOut);
+    const amountInNum = fromUnits(amountIn, decIn);
+    const usdIn = isBuy ? amountInNum : amountInNum * quote.price;
+
+    // Pool de producto constante con la mitad de la liquidez a cada lado;
+    // cada salto paga su comisión
+    const reserveUsd = Math.max(quote.liquidityUsd / 2, 1);
+    const fee = (1 - this.opts.feeBps / 10_000) ** (path.length - 1);
+    const usdAfterImpact = usdIn * (reserveUsd / (reserveUsd + usdIn)) * fee;
+    const amountOutNum = isBuy ? usdAfterImpact / quote.price : usdAfterImpact;
+    return toUnits(amountOutNum, decOut);
+  }
+
+  private adjust(network: string, token: string, owner: string, delta: bigint): void {
+    const key = `${network}:${token.toLowerCase()}:${owner.toLowerCase()}`;
+    this.balances.set(key, this.balanceOf(network, token, owner) + delta);
+  }
+
+  private decimalsOf(network: string, token: string): number {
+    const net = EVM_NETWORKS[network];
+    if (net && token.toLowerCase() === net.quoteToken.toLowerCase()) return net.quoteTokenDecimals;
+    return this.opts.tokenDecimals;
+  }
+}
+
+// ---- helpers ----
+
+function allowanceKey(network: string, token: string, owner: string, spender: string): string {
+  return `${network}:${token.toLowerCase()}:${owner.toLowerCase()}:${spender.toLowerCase()}`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Redes EVM en las que el broker on-chain puede operar.
+ *
+ * Todas usan un router compatible con Uniswap V2 y USDC como token
+ * de cotización: las compras van USDC → token y las ventas token → USDC,
+ * directas o con salto por `wrappedNative` si el router da más por ahí.
+ * Solana y el resto de redes que escanea el sistema no están soportadas
+ * para ejecución real.
+ */
+export interface EvmNetworkConfig {
+  chainId: number;
+  router: string;
+  quoteToken: string;
+  quoteTokenDecimals: number;
+  wrappedNative: string;
+}
+
+export const EVM_NETWORKS: Record<string, EvmNetworkConfig> = {
+  ethereum: {
+    chainId: 1,
+    router: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+    quoteToken: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+    quoteTokenDecimals: 6,
+    wrappedNative: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  },
+  base: {
+    chainId: 8453,
+    router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+    quoteToken: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    quoteTokenDecimals: 6,
+    wrappedNative: "0x4200000000000000000000000000000000000006",
+  },
+  arbitrum: {
+    chainId: 42161,
+    router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+    quoteToken: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+    quoteTokenDecimals: 6,
+    wrappedNative: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  },
+};
+
+export function getEvmNetwork(network: string): EvmNetworkConfig | null {
+  return EVM_NETWORKS[network.toLowerCase()] ?? null;
+}
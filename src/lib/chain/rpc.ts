@@ -0,0 +1,103 @@
+import type { ChainRpc, FeeData, TxReceipt } from "./types";
+
+const RECEIPT_POLL_MS = 1_500;
+
+/**
+ * JsonRpcChain — cliente JSON-RPC mínimo por red (sin dependencias).
+ *
+ * Las URLs se pasan por red: { ethereum: "https://...", base: "https://..." }.
+ */
+export class JsonRpcChain implements ChainRpc {
+  private requestId = 0;
+
+  constructor(private urls: Record<string, string>) {}
+
+  async getTransactionCount(network: string, address: string): Promise<number> {
+    const res = await this.request<string>(network, "eth_getTransactionCount", [address, "pending"]);
+    return Number(BigInt(res));
+  }
+
+  async getFeeData(network: string): Promise<FeeData> {
+    const [gasPrice, priority] = await Promise.all([
+      this.request<string>(network, "eth_gasPrice", []),
+      this.request<string>(network, "eth_maxPriorityFeePerGas", []).catch(() => "0x0"),
+    ]);
+    const maxPriorityFeePerGas = BigInt(priority);
+    // Margen 2x sobre el gas price actual para no quedarse atascado en un bloque
+    return { maxFeePerGas: BigInt(gasPrice) * BigInt(2) + maxPriorityFeePerGas, maxPriorityFeePerGas };
+  }
+
+  async estimateGas(
+    network: string,
+    tx: { from: string; to: string; data: string; value: bigint }
+  ): Promise<bigint> {
+    const res = await this.request<string>(network, "eth_estimateGas", [{
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: "0x" + tx.value.toString(16),
+    }]);
+    return BigInt(res);
+  }
+
+  async call(network: string, to: string, data: string): Promise<string> {
+    return this.request<string>(network, "eth_call", [{ to, data }, "latest"]);
+  }
+
+  async sendRawTransaction(network: string, rawTx: string): Promise<string> {
+    return this.request<string>(network, "eth_sendRawTransaction", [rawTx]);
+  }
+
+  async getTransactionReceipt(network: string, txHash: string): Promise<TxReceipt | null> {
+    const raw = await this.request<RawReceipt | null>(network, "eth_getTransactionReceipt", [txHash]);
+    if (!raw) return null;
+    return {
+      txHash: raw.transactionHash,
+      status: raw.status === "0x1" ? "success" : "reverted",
+      blockNumber: Number(BigInt(raw.blockNumber)),
+      gasUsed: BigInt(raw.gasUsed),
+      effectiveGasPrice: BigInt(raw.effectiveGasPrice ?? "0x0"),
+      logs: raw.logs.map((l) => ({ address: l.address, topics: l.topics, data: l.data })),
+    };
+  }
+
+  async waitForReceipt(network: string, txHash: string, timeoutMs: number): Promise<TxReceipt> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const receipt = await this.getTransactionReceipt(network, txHash);
+      if (receipt) return receipt;
+      await new Promise((r) => setTimeout(r, RECEIPT_POLL_MS));
+    }
+
+    throw new Error(`Timeout esperando receipt de ${txHash} (${timeoutMs}ms)`);
+  }
+
+  private async request<T>(network: string, method: string, params: unknown[]): Promise<T> {
+    const url = this.urls[network.toLowerCase()];
+    if (!url) throw new Error(`Sin RPC configurado para ${network}`);
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++this.requestId, method, params }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`RPC ${network} ${res.status}: ${res.statusText}`);
+    }
+
+    const json = (await res.json()) as { result?: T; error?: { message: string } };
+    if (json.error) throw new Error(`RPC ${network} ${method}: ${json.error.message}`);
+    return json.result as T;
+  }
+}
+
+interface RawReceipt {
+  transactionHash: string;
+  status: string;
+  blockNumber: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  logs: { address: string; topics: string[]; data: string }[];
+}
@@ -0,0 +1,91 @@
+import type { TxSigner, UnsignedTx } from "./types";
+
+/**
+ * RemoteSigner — firma vía JSON-RPC `eth_signTransaction` contra un
+ * firmante externo (web3signer, Clef o un KMS con interfaz compatible).
+ *
+ * La clave privada nunca entra en el proceso de la app.
+ */
+export class RemoteSigner implements TxSigner {
+  constructor(
+    private url: string,
+    private address: string,
+    private authToken?: string
+  ) {}
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(tx: UnsignedTx): Promise<string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.authToken) headers.Authorization = `Bearer ${this.authToken}`;
+
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "eth_signTransaction",
+        params: [{
+          chainId: hex(tx.chainId),
+          from: tx.from,
+          to: tx.to,
+          data: tx.data,
+          value: hex(tx.value),
+          nonce: hex(tx.nonce),
+          gas: hex(tx.gasLimit),
+          maxFeePerGas: hex(tx.maxFeePerGas),
+          maxPriorityFeePerGas: hex(tx.maxPriorityFeePerGas),
+        }],
+      }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Signer ${res.status}: ${res.statusText}`);
+    }
+
+    const json = (await res.json()) as {
+      result?: string | { raw: string };
+      error?: { message: string };
+    };
+    if (json.error) throw new Error(`Signer: ${json.error.message}`);
+    if (!json.result) throw new Error("Signer no devolvió transacción firmada");
+
+    // Clef devuelve { raw, tx }; web3signer devuelve el raw directamente
+    return typeof json.result === "string" ? json.result : json.result.raw;
+  }
+}
+
+/**
+ * MockSigner — "firma" serializando la transacción en hex.
+ * Solo válido contra MockChainRpc, que sabe decodificarla.
+ */
+export class MockSigner implements TxSigner {
+  constructor(private address = "0x000000000000000000000000000000000000c7ec") {}
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(tx: UnsignedTx): Promise<string> {
+    const payload = JSON.stringify(tx, (_k, v) => (typeof v === "bigint" ? v.toString() : v));
+    return "0x" + Buffer.from(payload, "utf8").toString("hex");
+  }
+}
+
+export function decodeMockRawTx(rawTx: string): UnsignedTx {
+  const parsed = JSON.parse(Buffer.from(rawTx.replace(/^0x/, ""), "hex").toString("utf8"));
+  return {
+    ...parsed,
+    value: BigInt(parsed.value),
+    gasLimit: BigInt(parsed.gasLimit),
+    maxFeePerGas: BigInt(parsed.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(parsed.maxPriorityFeePerGas),
+  };
+}
+
+function hex(value: number | bigint): string {
+  return "0x" + value.toString(16);
+}
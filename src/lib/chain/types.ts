@@ -0,0 +1,60 @@
+// ============================================================
+// Chain – Tipos compartidos de firma y RPC
+// ============================================================
+
+export interface UnsignedTx {
+  chainId: number;
+  from: string;
+  to: string;
+  data: string;
+  value: bigint;
+  nonce: number;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface TxLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface TxReceipt {
+  txHash: string;
+  status: "success" | "reverted";
+  blockNumber: number;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  logs: TxLog[];
+}
+
+export interface FeeData {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Firma transacciones sin exponer la clave al resto del sistema.
+ * La implementación real delega en un firmante externo (KMS, web3signer,
+ * Clef…); la mock solo sirve contra MockChainRpc.
+ */
+export interface TxSigner {
+  getAddress(): Promise<string>;
+  signTransaction(tx: UnsignedTx): Promise<string>;
+}
+
+/** Subconjunto de JSON-RPC que necesita el broker on-chain. */
+export interface ChainRpc {
+  getTransactionCount(network: string, address: string): Promise<number>;
+  getFeeData(network: string): Promise<FeeData>;
+  estimateGas(
+    network: string,
+    tx: { from: string; to: string; data: string; value: bigint }
+  ): Promise<bigint>;
+  call(network: string, to: string, data: string): Promise<string>;
+  sendRawTransaction(network: string, rawTx: string): Promise<string>;
+  /** Receipt si la tx ya está minada; null si sigue pendiente (o no se conoce). */
+  getTransactionReceipt(network: string, txHash: string): Promise<TxReceipt | null>;
+  waitForReceipt(network: string, txHash: string, timeoutMs: number): Promise<TxReceipt>;
+}
@@ -0,0 +1,22 @@
+/**
+ * Autenticación de las rutas /api/cron/*: `Authorization: Bearer
+ * <CRON_SECRET>` (GitHub Actions, Vercel Cron) o `?secret=`. Sin
+ * CRON_SECRET (desarrollo) se permite todo.
+ */
+export function verifyCronAuth(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return true;
+
+  const authHeader = req.headers.get("authorization");
+  if (authHeader === `Bearer ${secret}`) return true;
+
+  const url = new URL(req.url);
+  const querySecret = url.searchParams.get("secret");
+  return querySecret === secret;
+}
+
+/** Entero positivo de una variable de entorno; undefined si no lo es. */
+export function envInt(name: string): number | undefined {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
@@ -2,7 +2,7 @@
 // AdaptiveRiskGate — dynamic risk management based on rolling metrics
 // ============================================================
 
-import type { Layer, RiskConfig, RiskState, RiskVerdict } from "./types";
+import type { Layer, PortfolioExposure, RiskConfig, RiskState, RiskVerdict } from "./types";
 import { RiskGate } from "./risk-gate";
 import type { RollingMetrics } from "./rolling-performance";
 
@@ -14,7 +14,7 @@ export interface AdaptiveRiskConfig {
   drawdownAdaptiveFactor: number;
 }
 
-const DEFAULT_ADAPTIVE: AdaptiveRiskConfig = {
+export const DEFAULT_ADAPTIVE_RISK_CONFIG: AdaptiveRiskConfig = {
   profitFactorFloor: 0.8,
   profitFactorCeiling: 1.5,
   expectancyNegativeStreak: 5,
@@ -43,7 +43,7 @@ export class AdaptiveRiskGate extends RiskGate {
     adaptiveConfig?: Partial<AdaptiveRiskConfig>
   ) {
     super(baseConfig);
-    this.adaptiveConfig = { ...DEFAULT_ADAPTIVE, ...adaptiveConfig };
+    this.adaptiveConfig = { ...DEFAULT_ADAPTIVE_RISK_CONFIG, ...adaptiveConfig };
   }
 
   setRollingMetrics(metrics: RollingMetrics): void {
@@ -54,8 +54,8 @@ export class AdaptiveRiskGate extends RiskGate {
     return this.rollingMetrics;
   }
 
-  evaluate(state: RiskState, layer: Layer): RiskVerdict {
-    const base = super.evaluate(state, layer);
+  evaluate(state: RiskState, layer: Layer, exposure?: PortfolioExposure): RiskVerdict {
+    const base = super.evaluate(state, layer, exposure);
     if (!base.allowed) return base;
 
     if (!this.rollingMetrics || this.rollingMetrics.totalTrades < 10) {
@@ -101,9 +101,12 @@ export class AdaptiveRiskGate extends RiskGate {
         ? this.rollingMetrics.kellyFraction_core
         : this.rollingMetrics.kellyFraction_satellite;
 
+    // El boost por PF alto no puede saltarse los topes de exposición
+    const { headroomUsd } = this.checkPortfolio(state, exposure);
+
     if (kelly > 0) {
       const kellyCap = state.capital * kelly;
-      const adjustedMax = Math.min(base.maxPositionUsd * sizingMultiplier, kellyCap);
+      const adjustedMax = Math.min(base.maxPositionUsd * sizingMultiplier, kellyCap, headroomUsd);
       return {
         allowed: true,
         reason: reasons.length > 0 ? reasons.join("; ") : null,
@@ -114,7 +117,7 @@ export class AdaptiveRiskGate extends RiskGate {
     return {
       allowed: true,
       reason: reasons.length > 0 ? reasons.join("; ") : null,
-      maxPositionUsd: Math.max(base.maxPositionUsd * sizingMultiplier, 0),
+      maxPositionUsd: Math.max(Math.min(base.maxPositionUsd * sizingMultiplier, headroomUsd), 0),
     };
   }
 }
@@ -0,0 +1,194 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Broker, ExecutionMode } from "./types";
+import type { RiskGate } from "./risk-gate";
+import { PaperBroker } from "./paper-broker";
+import type { QuoteFetcher } from "./paper-broker";
+import { OnChainSwapBroker } from "./swap-broker";
+import { ShadowBroker } from "./shadow-broker";
+import { JupiterStyleQuoter, StubRouteQuoter } from "./route-quoter";
+import { EVM_NETWORKS } from "../chain/networks";
+import { JsonRpcChain } from "../chain/rpc";
+import { MockChainRpc } from "../chain/mock-chain";
+import { MockSigner, RemoteSigner } from "../chain/signer";
+import { CexSpotBroker } from "./cex-broker";
+import { CredentialVault } from "../exchanges/credential-vault";
+import { ExchangeConnectionStore } from "../exchanges/connection-store";
+import { createExchangeClient } from "../exchanges/exchange-client";
+import { CexSymbolMapper, cexTokenMapFromEnv } from "../exchanges/symbol-map";
+import type { ReconcilerVenues } from "../signals/position-reconciler";
+
+/**
+ * Crea el broker para el modo de ejecución del usuario.
+ *
+ * shadow — ShadowBroker: paper + cotización quote-only de la ruta.
+ *   ROUTE_QUOTE_API_URL        → API estilo Jupiter `/quote` (sin ella,
+ *                                StubRouteQuoter en proceso)
+ *
+ * live — OnChainSwapBroker. Configuración por entorno:
+ *   LIVE_SIGNER=mock           → MockSigner + MockChainRpc (local, sin fondos)
+ *   LIVE_SIGNER_URL            → firmante externo (eth_signTransaction)
+ *   LIVE_SIGNER_TOKEN          → bearer opcional para el firmante
+ *   LIVE_WALLET_ADDRESS        → dirección que firma y recibe los tokens
+ *   LIVE_OPERATOR_USER_IDS     → cuentas (ids separados por comas) que
+ *                                operan con esa wallet; es una sola para
+ *                                todo el servidor, así que nadie más la usa
+ *   RPC_URL_<RED>              → p. ej. RPC_URL_BASE, RPC_URL_ETHEREUM
+ *
+ * Lanza si live no está configurado o `userId` no es operador: el caller
+ * decide qué hacer, nunca se cae a otro modo en silencio.
+ */
+export function createBroker(
+  mode: ExecutionMode,
+  riskGate: RiskGate,
+  quoteFetcher: QuoteFetcher,
+  env: Record<string, string | undefined> = process.env,
+  userId: string | null = null
+): Broker {
+  if (mode === "paper") {
+    return new PaperBroker(riskGate, quoteFetcher);
+  }
+
+  if (mode === "shadow") {
+    const quoter = env.ROUTE_QUOTE_API_URL
+      ? new JupiterStyleQuoter(env.ROUTE_QUOTE_API_URL, quoteFetcher)
+      : new StubRouteQuoter(quoteFetcher);
+    return new ShadowBroker(riskGate, quoteFetcher, quoter);
+  }
+
+  if (!isLiveWalletOperator(userId, env)) {
+    throw new Error("Broker live no disponible: la wallet live solo opera para LIVE_OPERATOR_USER_IDS");
+  }
+
+  if (env.LIVE_SIGNER === "mock") {
+    return new OnChainSwapBroker(
+      riskGate,
+      quoteFetcher,
+      new MockSigner(env.LIVE_WALLET_ADDRESS),
+      new MockChainRpc(quoteFetcher)
+    );
+  }
+
+  const signerUrl = env.LIVE_SIGNER_URL;
+  const wallet = env.LIVE_WALLET_ADDRESS;
+  if (!signerUrl || !wallet) {
+    throw new Error("Broker live no configurado: faltan LIVE_SIGNER_URL y/o LIVE_WALLET_ADDRESS");
+  }
+
+  const rpcUrls = rpcUrlsFromEnv(env);
+  if (Object.keys(rpcUrls).length === 0) {
+    throw new Error("Broker live no configurado: ninguna RPC_URL_<RED> definida");
+  }
+
+  return new OnChainSwapBroker(
+    riskGate,
+    quoteFetcher,
+    new RemoteSigner(signerUrl, wallet, env.LIVE_SIGNER_TOKEN),
+    new JsonRpcChain(rpcUrls)
+  );
+}
+
+/**
+ * Broker CEX con la conexión de exchange activa del usuario (la última
+ * probada con éxito si hay varias). null si no tiene ninguna o si falta
+ * EXCHANGE_ENCRYPTION_KEY para descifrarla.
+ *
+ *   CEX_QUOTE_ASSET            → quote de los pares (USDT por defecto)
+ *   CEX_TOKEN_MAP              → "red:dirección=ACTIVO,..." además de
+ *                                CEX_LISTED_TOKENS
+ *   EXCHANGE_API_URL_<EXCHANGE> → URL base (mock local incluido)
+ */
+export async function createCexBroker(
+  supabase: SupabaseClient,
+  userId: string,
+  riskGate: RiskGate,
+  quoteFetcher: QuoteFetcher,
+  env: Record<string, string | undefined> = process.env
+): Promise<CexSpotBroker | null> {
+  if (!env.EXCHANGE_ENCRYPTION_KEY) return null;
+
+  const store = new ExchangeConnectionStore(supabase, CredentialVault.fromEnv(env));
+  const active = (await store.list(userId)).filter((c) => c.isActive);
+  if (active.length === 0) return null;
+
+  const chosen =
+    active
+      .filter((c) => c.lastCheckOk && c.lastCheckAt)
+      .sort((a, b) => b.lastCheckAt!.localeCompare(a.lastCheckAt!))[0] ?? active[0];
+  const connection = await store.getCredentials(userId, chosen.id);
+  if (!connection) return null;
+
+  const quoteAsset = env.CEX_QUOTE_ASSET || "USDT";
+  const client = createExchangeClient(connection.exchange, connection.credentials, {
+    isTestnet: connection.isTestnet,
+    env,
+  });
+  return new CexSpotBroker(
+    riskGate,
+    quoteFetcher,
+    client,
+    new CexSymbolMapper(client, quoteAsset, cexTokenMapFromEnv(env)),
+    connection.id,
+    { quoteAsset }
+  );
+}
+
+/**
+ * Venues live de los que el PositionReconciler lee saldos, con la misma
+ * configuración que los brokers: LIVE_WALLET_ADDRESS + RPC_URL_<RED>
+ * para on-chain (solo si `userId` es operador de esa wallet; para el
+ * resto sus trades on-chain quedan unchecked) y EXCHANGE_ENCRYPTION_KEY
+ * para las conexiones de exchange. Con LIVE_SIGNER=mock no hay cadena
+ * que leer: MockChainRpc vive en la memoria de cada proceso.
+ */
+export function createReconcilerVenues(
+  supabase: SupabaseClient,
+  userId: string,
+  env: Record<string, string | undefined> = process.env
+): ReconcilerVenues {
+  const wallet = env.LIVE_WALLET_ADDRESS;
+  const rpcUrls = rpcUrlsFromEnv(env);
+  const chain =
+    env.LIVE_SIGNER !== "mock" &&
+    wallet &&
+    isLiveWalletOperator(userId, env) &&
+    Object.keys(rpcUrls).length > 0
+      ? { rpc: new JsonRpcChain(rpcUrls), wallet }
+      : null;
+
+  return {
+    chain,
+    exchanges: env.EXCHANGE_ENCRYPTION_KEY
+      ? new ExchangeConnectionStore(supabase, CredentialVault.fromEnv(env))
+      : null,
+    exchangeClient: (connection) =>
+      createExchangeClient(connection.exchange, connection.credentials, {
+        isTestnet: connection.isTestnet,
+        env,
+      }),
+    quoteAsset: env.CEX_QUOTE_ASSET || "USDT",
+    tokenOverrides: cexTokenMapFromEnv(env),
+  };
+}
+
+/** Si la cuenta puede operar con la wallet live del servidor (LIVE_OPERATOR_USER_IDS). */
+export function isLiveWalletOperator(
+  userId: string | null,
+  env: Record<string, string | undefined> = process.env
+): boolean {
+  if (!userId) return false;
+  return (env.LIVE_OPERATOR_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(userId);
+}
+
+// ---- helpers ----
+
+function rpcUrlsFromEnv(env: Record<string, string | undefined>): Record<string, string> {
+  const rpcUrls: Record<string, string> = {};
+  for (const network of Object.keys(EVM_NETWORKS)) {
+    const url = env[`RPC_URL_${network.toUpperCase()}`];
+    if (url) rpcUrls[network] = url;
+  }
+  return rpcUrls;
+}
@@ -0,0 +1,194 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CexSpotBroker } from "./cex-broker";
+import { RiskGate } from "./risk-gate";
+import type { ExitOrder, OrderRequest, PendingOrder, RiskState } from "./types";
+import { createExchangeClient } from "../exchanges/exchange-client";
+import { MockExchange } from "../exchanges/mock-exchange";
+import { CexSymbolMapper } from "../exchanges/symbol-map";
+import { PositionManager } from "../signals/position-manager";
+import type { OpenPosition } from "../signals/position-manager";
+
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+test("la cantidad de entrada queda al step del par y la salida la cierra entera", async () => {
+  const { broker } = setup();
+
+  const entry = await broker.execute(buyOrder(333.33), riskState());
+  assert.equal(entry.executed, true);
+  const quantity = entry.trade!.quantity;
+  assert.equal(Number((quantity * 10_000).toFixed(6)) % 1, 0, `${quantity} no está al step 0.0001`);
+
+  const fill = await broker.executeExit(exitOrder(quantity));
+  assert.equal(fill.success, true);
+  assert.equal(fill.quantity, quantity);
+  assert.equal(fill.remainderIsDust, true);
+
+  const exit = positions().exitFromFill(position(quantity), { kind: "full", reason: "tp2", quantity }, fill);
+  assert.equal(exit.kind, "full");
+});
+
+test("un resto por debajo de minQty cierra la posición y un fill incompleto no marca TP1", () => {
+  const pm = positions();
+  const pos = position(1);
+
+  const dust = pm.exitFromFill(pos, { kind: "full", reason: "trailing", quantity: 1 }, {
+    success: true, exitPrice: 3000, quantity: 0.99995, feesAbs: 0, remainderIsDust: true,
+  });
+  assert.equal(dust.kind, "full");
+
+  const short = pm.exitFromFill(pos, { kind: "full", reason: "trailing", quantity: 1 }, {
+    success: true, exitPrice: 3000, quantity: 0.4, feesAbs: 0,
+  });
+  assert.equal(short.kind, "partial");
+  assert.equal(pm.applyPartial(pos, short).tp1Hit, false);
+
+  const tp1 = pm.exitFromFill(pos, { kind: "partial", reason: "TP1", quantity: 0.5, takeProfit1: true }, {
+    success: true, exitPrice: 3000, quantity: 0.5, feesAbs: 0,
+  });
+  assert.equal(pm.applyPartial(pos, tp1).tp1Hit, true);
+});
+
+test("si el polling falla tras enviar la entrada, queda pendiente y se resuelve con el fill real", async () => {
+  const { broker, venue } = setup();
+  await broker.supports(WETH, "ethereum");
+
+  venue.down = true;
+  const entry = await broker.execute(buyOrder(300), riskState());
+  assert.equal(entry.executed, true);
+  const pending = entry.trade!.metadata?.pendingOrder as PendingOrder;
+  assert.ok(pending?.orderId);
+  assert.equal(await broker.resolveOrder(pending), null);
+
+  venue.down = false;
+  const resolution = await resolve(broker, pending);
+  assert.ok(resolution.quantity > 0);
+  assert.equal(resolution.price, 3000);
+  assert.equal(resolution.txHash, `binance:${pending.orderId}`);
+});
+
+test("si el polling falla tras enviar la salida, devuelve la orden pendiente en vez de perderla", async () => {
+  const { broker, venue } = setup();
+  const entry = await broker.execute(buyOrder(300), riskState());
+  const quantity = entry.trade!.quantity;
+
+  venue.down = true;
+  const fill = await broker.executeExit(exitOrder(quantity));
+  assert.equal(fill.success, false);
+  assert.ok(fill.pendingOrder);
+  assert.equal(fill.pendingOrder.quantity, quantity);
+
+  venue.down = false;
+  const resolution = await resolve(broker, fill.pendingOrder);
+  assert.equal(resolution.quantity, quantity);
+  assert.equal(resolution.remainderIsDust, true);
+});
+
+// ---- helpers ----
+
+/** Broker contra un MockExchange en proceso; `venue.down` hace fallar las consultas de órdenes. */
+function setup() {
+  const mock = new MockExchange({ pollsUntilFilled: 1 });
+  const venue = { down: false };
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const req = new Request(String(input), init);
+    const path = new URL(req.url).pathname.split("/").slice(2).join("/");
+    if (venue.down && req.method === "GET" && /order/i.test(path)) throw new Error("ECONNRESET");
+    return mock.handle("binance", `/${path}`, req);
+  }) as typeof fetch;
+
+  const client = createExchangeClient(
+    "binance",
+    { apiKey: "mock-key", apiSecret: "mock-secret", passphrase: null },
+    { env: { EXCHANGE_API_URL_BINANCE: "http://mock/binance" }, fetchImpl, isTestnet: true }
+  );
+  const quotes = { getQuote: async () => ({ price: 2990 }) } as never;
+  const broker = new CexSpotBroker(new RiskGate(), quotes, client, new CexSymbolMapper(client), "conn-1", {
+    sleep: async () => {},
+    pollIntervalMs: 1,
+  });
+  return { broker, mock, venue };
+}
+
+/** El mock deja la orden abierta en la primera consulta: se resuelve en el ciclo siguiente. */
+async function resolve(broker: CexSpotBroker, pending: PendingOrder) {
+  for (let cycle = 0; cycle < 3; cycle++) {
+    const resolution = await broker.resolveOrder(pending);
+    if (resolution) return resolution;
+  }
+  throw new Error(`Orden ${pending.orderId} sin resolver`);
+}
+
+function positions(): PositionManager {
+  return new PositionManager({} as SupabaseClient);
+}
+
+function riskState(): RiskState {
+  return {
+    capital: 100_000,
+    pnlToday: 0,
+    pnlThisWeek: 0,
+    tradesTodayCore: 0,
+    tradesTodaySatellite: 0,
+    consecutiveLossesSatellite: 0,
+    isPaused: false,
+    pauseReason: null,
+    pauseUntil: null,
+  };
+}
+
+function buyOrder(amountUsd: number): OrderRequest {
+  return {
+    userId: "user-1",
+    symbol: "WETH",
+    tokenAddress: WETH,
+    network: "ethereum",
+    side: "buy",
+    amountUsd,
+    layer: "core",
+    executionMode: "live",
+    entryReason: "test",
+  } as OrderRequest;
+}
+
+function exitOrder(quantity: number): ExitOrder {
+  return {
+    tradeId: "trade-1",
+    userId: "user-1",
+    symbol: "WETH",
+    tokenAddress: WETH,
+    network: "ethereum",
+    positionSide: "buy",
+    quantity,
+    expectedPrice: 3000,
+    reason: "test",
+    exchangeConnectionId: "conn-1",
+  };
+}
+
+function position(quantity: number): OpenPosition {
+  return {
+    tradeId: "trade-1",
+    userId: "user-1",
+    symbol: "WETH",
+    tokenAddress: WETH,
+    network: "ethereum",
+    side: "buy",
+    layer: "core",
+    executionMode: "live",
+    entryPrice: 2990,
+    quantity,
+    initialQuantity: quantity,
+    realizedPnlAbs: 0,
+    feesAbs: 0,
+    tp1Hit: false,
+    openedAt: new Date(),
+    highestPrice: 2990,
+    currentPrice: 2990,
+    pnlPct: 0,
+    trailingStopPrice: 0,
+    exchangeConnectionId: "conn-1",
+    metadata: {},
+  };
+}
@@ -0,0 +1,487 @@
+import { randomBytes } from "crypto";
+import type {
+  Broker,
+  BrokerResult,
+  ExecutionMode,
+  ExitFill,
+  ExitOrder,
+  FillResult,
+  OrderRequest,
+  OrderResolution,
+  PendingOrder,
+  RiskState,
+  TradeRecord,
+} from "./types";
+import type { RiskGate } from "./risk-gate";
+import type { QuoteFetcher } from "./paper-broker";
+import type { Clock } from "./clock";
+import { systemClock } from "./clock";
+import type { ExchangeClient } from "../exchanges/exchange-client";
+import type { CexSymbolMapper } from "../exchanges/symbol-map";
+import type { SpotInstrument, SpotOrder } from "../exchanges/types";
+
+export interface CexBrokerOptions {
+  /** Activo con el que se compra y en el que se liquida (USDT). */
+  quoteAsset?: string;
+  pollIntervalMs?: number;
+  /** Tras este tiempo sin fill completo se cancela el resto de la orden. */
+  fillTimeoutMs?: number;
+  /** Comisión supuesta si el exchange cobra en un tercer activo (BNB...). */
+  fallbackFeePct?: number;
+  clock?: Clock;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface OrderFill {
+  order: SpotOrder;
+  /** Comisión convertida a quote. */
+  feeUsd: number;
+  /** Comisión cobrada en el activo base (reduce lo recibido en compras). */
+  feeInBase: number;
+  feeEstimated: boolean;
+  latencyMs: number;
+}
+
+/** La orden se envió pero no se pudo seguir su estado: queda pendiente. */
+class OrderPendingError extends Error {
+  constructor(readonly pending: PendingOrder, cause: unknown) {
+    super(`Orden ${pending.orderId} enviada sin confirmar: ${errMsg(cause)}`);
+    this.name = "OrderPendingError";
+  }
+}
+
+/**
+ * CexSpotBroker — ejecución spot en un exchange centralizado con una
+ * conexión guardada del usuario (exchange_connections).
+ *
+ * Flujo de entrada:
+ *  1. RiskGate.evaluate()      → mismo gate que el resto de brokers
+ *  2. CexSymbolMapper          → dirección del token → par spot listado
+ *  3. orden a mercado en quote → `positionUsd` de USDT
+ *  4. polling de la orden      → hasta fill completo o timeout (cancela
+ *                                el resto y se queda con lo ejecutado)
+ *  5. comisiones               → a USD; si se cobran en base, la cantidad
+ *                                de la posición es la neta, al step del par
+ *
+ * Las salidas venden la cantidad (acotada al saldo libre y al step del
+ * par) a mercado; lo que quede por debajo de minQty/step es polvo y la
+ * salida cuenta como completa. `txHash` guarda la referencia `exchange:orderId`.
+ *
+ * Si la orden se envía pero el polling falla, no se da por rechazada: la
+ * entrada se registra provisional (cantidad estimada al precio de
+ * referencia) y la salida devuelve `pendingOrder`; `resolveOrder` la
+ * cierra en el siguiente ciclo con el fill real.
+ * Spot sin margen: no abre cortos.
+ */
+export class CexSpotBroker implements Broker {
+  readonly mode: ExecutionMode = "live";
+  readonly supportsShort = false;
+  private quoteAsset: string;
+  private pollIntervalMs: number;
+  private fillTimeoutMs: number;
+  private fallbackFeePct: number;
+  private clock: Clock;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private riskGate: RiskGate,
+    private quoteFetcher: QuoteFetcher,
+    private client: ExchangeClient,
+    private symbols: CexSymbolMapper,
+    readonly connectionId: string,
+    opts?: CexBrokerOptions
+  ) {
+    this.quoteAsset = opts?.quoteAsset ?? "USDT";
+    this.pollIntervalMs = opts?.pollIntervalMs ?? 500;
+    this.fillTimeoutMs = opts?.fillTimeoutMs ?? 15_000;
+    this.fallbackFeePct = opts?.fallbackFeePct ?? 0.001;
+    this.clock = opts?.clock ?? systemClock;
+    this.sleep = opts?.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  get exchange(): string {
+    return this.client.exchange;
+  }
+
+  /** Si el token tiene par spot operable en el exchange. */
+  async supports(tokenAddress: string, network: string): Promise<boolean> {
+    try {
+      return (await this.symbols.resolve(tokenAddress, network)) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  async execute(order: OrderRequest, riskState: RiskState): Promise<BrokerResult> {
+    const verdict = this.riskGate.evaluate(riskState, order.layer);
+    if (!verdict.allowed) {
+      return rejected(verdict.reason!);
+    }
+
+    const positionUsd = roundCents(Math.min(order.amountUsd, verdict.maxPositionUsd));
+    if (positionUsd <= 0) {
+      return rejected("Tamaño de posición <= 0 tras ajuste de riesgo");
+    }
+
+    if (order.side !== "buy") {
+      return rejected(`El broker ${this.client.exchange} spot solo abre posiciones long`);
+    }
+
+    let instrument: SpotInstrument | null;
+    try {
+      instrument = await this.symbols.resolve(order.tokenAddress, order.network);
+    } catch (err) {
+      return rejected(`Error resolviendo el par en ${this.client.exchange}: ${errMsg(err)}`);
+    }
+    if (!instrument) {
+      return rejected(`${order.symbol} no tiene par ${this.quoteAsset} en ${this.client.exchange}`);
+    }
+    if (positionUsd < instrument.minNotional) {
+      return rejected(`Orden de $${positionUsd} bajo el mínimo de ${instrument.symbol} ($${instrument.minNotional})`);
+    }
+
+    // Precio de referencia on-chain: solo para medir el slippage frente a la señal
+    let referencePrice: number | null = null;
+    try {
+      const quote = await this.quoteFetcher.getQuote(order.tokenAddress, order.network);
+      if (quote.price > 0) referencePrice = quote.price;
+    } catch { /* la orden no depende de él */ }
+
+    let filled: OrderFill;
+    try {
+      filled = await this.placeAndWait(
+        instrument,
+        { side: "buy", quoteAmount: positionUsd },
+        { tokenAddress: order.tokenAddress, network: order.network }
+      );
+    } catch (err) {
+      if (err instanceof OrderPendingError) {
+        return this.pendingEntry(order, instrument, positionUsd, referencePrice, err);
+      }
+      return rejected(`Error en orden ${this.client.exchange}: ${errMsg(err)}`);
+    }
+
+    const { order: cexOrder } = filled;
+    // La posición es lo vendible: neto de la comisión en base y al step del par
+    const quantity = floorToStep(cexOrder.executedQty - filled.feeInBase, instrument.qtyStep);
+    if (cexOrder.executedQty <= 0 || quantity <= 0) {
+      return rejected(`Orden ${cexOrder.orderId} sin ejecutar (${cexOrder.status})`);
+    }
+
+    const entryPrice = cexOrder.avgPrice;
+    const slippage = referencePrice ? entryPrice / referencePrice - 1 : 0;
+    const reference = `${this.client.exchange}:${cexOrder.orderId}`;
+
+    const fill: FillResult = {
+      success: true,
+      entryPrice,
+      quantity,
+      slippage,
+      gasCost: 0,
+      latencyMs: filled.latencyMs,
+      fillTimestamp: new Date(this.clock()),
+      txHash: reference,
+    };
+
+    const trade: TradeRecord = {
+      userId: order.userId,
+      signalId: order.signalId,
+      symbol: order.symbol,
+      side: order.side,
+      status: "open",
+      quantity,
+      entryPrice,
+      feesAbs: filled.feeUsd,
+      executionMode: this.mode,
+      layer: order.layer,
+      latencyMs: filled.latencyMs,
+      entryReason: order.entryReason,
+      walletMovementId: order.walletMovementId,
+      tokenHealthScoreAtEntry: order.tokenHealthScoreAtEntry,
+      walletScoreAtEntry: order.walletScoreAtEntry,
+      txHash: reference,
+      exchangeConnectionId: this.connectionId,
+      metadata: {
+        ...order.metadata,
+        cexBroker: true,
+        exchange: this.client.exchange,
+        exchangeSymbol: instrument.symbol,
+        exchangeOrderId: cexOrder.orderId,
+        exchangeTestnet: this.client.isTestnet,
+        orderStatus: cexOrder.status,
+        requestedUsd: positionUsd,
+        filledUsd: cexOrder.quoteQty,
+        fee: cexOrder.fee,
+        feeAsset: cexOrder.feeAsset,
+        feeEstimated: filled.feeEstimated,
+        quotePrice: referencePrice,
+        realizedSlippage: slippage,
+      },
+    };
+
+    return { executed: true, reason: null, fill, trade };
+  }
+
+  async executeExit(order: ExitOrder): Promise<ExitFill> {
+    const failed = (error: string): ExitFill => ({
+      success: false,
+      exitPrice: order.expectedPrice,
+      quantity: order.quantity,
+      feesAbs: 0,
+      error,
+    });
+
+    if (order.positionSide !== "buy") return failed("Solo se pueden cerrar posiciones long");
+
+    try {
+      const instrument = await this.symbols.resolve(order.tokenAddress, order.network);
+      if (!instrument) return failed(`${order.symbol} ya no tiene par operable en ${this.client.exchange}`);
+
+      // Por debajo de esto no se puede vender: es polvo que se queda en la cuenta
+      const dust = Math.max(instrument.minQty, instrument.qtyStep);
+      if (order.quantity < dust) {
+        return {
+          success: true,
+          exitPrice: order.expectedPrice,
+          quantity: 0,
+          feesAbs: 0,
+          remainderIsDust: true,
+        };
+      }
+
+      // Lo vendible: la cantidad pedida, sin pasar del saldo libre ni del step
+      const balances = await this.client.getBalances();
+      const free = balances.find((b) => b.asset === instrument.baseAsset)?.free ?? 0;
+      const quantity = floorToStep(Math.min(order.quantity, free), instrument.qtyStep);
+      if (quantity <= 0 || quantity < instrument.minQty) {
+        return failed(`Saldo ${instrument.baseAsset} insuficiente para vender (${free} libre)`);
+      }
+
+      const filled = await this.placeAndWait(
+        instrument,
+        { side: "sell", quantity },
+        { tokenAddress: order.tokenAddress, network: order.network }
+      );
+      const { order: cexOrder } = filled;
+      if (cexOrder.executedQty <= 0) {
+        return failed(`Orden de salida ${cexOrder.orderId} sin ejecutar (${cexOrder.status})`);
+      }
+
+      return {
+        success: true,
+        exitPrice: cexOrder.avgPrice,
+        quantity: cexOrder.executedQty,
+        feesAbs: filled.feeUsd,
+        txHash: `${this.client.exchange}:${cexOrder.orderId}`,
+        remainderIsDust: order.quantity - cexOrder.executedQty < dust,
+      };
+    } catch (err) {
+      if (err instanceof OrderPendingError) {
+        return { ...failed(err.message), pendingOrder: err.pending };
+      }
+      return failed(`Error en orden de salida ${this.client.exchange}: ${errMsg(err)}`);
+    }
+  }
+
+  /**
+   * Estado final de una orden que quedó pendiente. Si sigue abierta pasado
+   * `fillTimeoutMs` desde el envío se cancela el resto, como en el polling
+   * normal; null mientras no sea final o si el exchange no responde.
+   */
+  async resolveOrder(pending: PendingOrder): Promise<OrderResolution | null> {
+    try {
+      const instrument = await this.symbols.resolve(pending.tokenAddress, pending.network);
+      if (!instrument) return null;
+
+      let order = await this.client.getOrder(instrument.symbol, pending.orderId);
+      if (!isFinal(order) && this.clock() - Date.parse(pending.placedAt) >= this.fillTimeoutMs) {
+        try {
+          await this.client.cancelOrder(instrument.symbol, pending.orderId);
+        } catch { /* puede haberse llenado entre medias */ }
+        order = await this.client.getOrder(instrument.symbol, pending.orderId);
+      }
+      if (!isFinal(order)) return null;
+
+      const fee = this.normalizeFee(order, instrument);
+      const txHash = `${this.client.exchange}:${order.orderId}`;
+      if (pending.side === "buy") {
+        return {
+          quantity: Math.max(0, floorToStep(order.executedQty - fee.feeInBase, instrument.qtyStep)),
+          price: order.avgPrice,
+          feesAbs: fee.feeUsd,
+          txHash,
+        };
+      }
+      const dust = Math.max(instrument.minQty, instrument.qtyStep);
+      return {
+        quantity: order.executedQty,
+        price: order.avgPrice,
+        feesAbs: fee.feeUsd,
+        txHash,
+        remainderIsDust: (pending.quantity ?? order.executedQty) - order.executedQty < dust,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Entrada cuya orden se envió sin poder confirmar el fill: se registra
+   * abierta con la cantidad estimada al precio de referencia y la orden en
+   * `metadata.pendingOrder`, para que el PositionManager la resuelva y no
+   * se pierda lo que el exchange sí ejecutó.
+   */
+  private pendingEntry(
+    order: OrderRequest,
+    instrument: SpotInstrument,
+    positionUsd: number,
+    referencePrice: number | null,
+    err: OrderPendingError
+  ): BrokerResult {
+    const entryPrice = referencePrice ?? 0;
+    const quantity = entryPrice > 0 ? floorToStep(positionUsd / entryPrice, instrument.qtyStep) : 0;
+    const reference = `${this.client.exchange}:${err.pending.orderId}`;
+
+    const fill: FillResult = {
+      success: true,
+      entryPrice,
+      quantity,
+      slippage: 0,
+      gasCost: 0,
+      latencyMs: 0,
+      fillTimestamp: new Date(this.clock()),
+      txHash: reference,
+    };
+
+    const trade: TradeRecord = {
+      userId: order.userId,
+      signalId: order.signalId,
+      symbol: order.symbol,
+      side: order.side,
+      status: "open",
+      quantity,
+      entryPrice,
+      feesAbs: 0,
+      executionMode: this.mode,
+      layer: order.layer,
+      latencyMs: 0,
+      entryReason: order.entryReason,
+      walletMovementId: order.walletMovementId,
+      tokenHealthScoreAtEntry: order.tokenHealthScoreAtEntry,
+      walletScoreAtEntry: order.walletScoreAtEntry,
+      txHash: reference,
+      exchangeConnectionId: this.connectionId,
+      metadata: {
+        ...order.metadata,
+        cexBroker: true,
+        exchange: this.client.exchange,
+        exchangeSymbol: instrument.symbol,
+        exchangeOrderId: err.pending.orderId,
+        exchangeTestnet: this.client.isTestnet,
+        orderStatus: "unknown",
+        orderError: err.message,
+        requestedUsd: positionUsd,
+        quotePrice: referencePrice,
+        pendingOrder: err.pending,
+      },
+    };
+
+    return { executed: true, reason: null, fill, trade };
+  }
+
+  /**
+   * Envía la orden a mercado y hace polling hasta un estado final. Si
+   * vence `fillTimeoutMs`, cancela el resto y devuelve lo ejecutado. Si
+   * falla algo después de que el exchange aceptara la orden, lanza
+   * OrderPendingError con el orderId para no perder el fill.
+   */
+  private async placeAndWait(
+    instrument: SpotInstrument,
+    size: { side: "buy" | "sell"; quoteAmount?: number; quantity?: number },
+    token: { tokenAddress: string; network: string }
+  ): Promise<OrderFill> {
+    const startedAt = this.clock();
+    const orderId = await this.client.placeMarketOrder({
+      symbol: instrument.symbol,
+      side: size.side,
+      quoteAmount: size.quoteAmount,
+      quantity: size.quantity,
+      clientOrderId: `ctech${startedAt.toString(36)}${randomBytes(4).toString("hex")}`,
+    });
+
+    let order: SpotOrder;
+    try {
+      order = await this.client.getOrder(instrument.symbol, orderId);
+      while (!isFinal(order) && this.clock() - startedAt < this.fillTimeoutMs) {
+        await this.sleep(this.pollIntervalMs);
+        order = await this.client.getOrder(instrument.symbol, orderId);
+      }
+
+      if (!isFinal(order)) {
+        try {
+          await this.client.cancelOrder(instrument.symbol, orderId);
+        } catch { /* puede haberse llenado entre medias */ }
+        order = await this.client.getOrder(instrument.symbol, orderId);
+      }
+    } catch (err) {
+      throw new OrderPendingError({
+        orderId,
+        symbol: instrument.symbol,
+        side: size.side,
+        tokenAddress: token.tokenAddress,
+        network: token.network,
+        quantity: size.quantity,
+        quoteAmount: size.quoteAmount,
+        exchangeConnectionId: this.connectionId,
+        placedAt: new Date(startedAt).toISOString(),
+      }, err);
+    }
+
+    return {
+      order,
+      ...this.normalizeFee(order, instrument),
+      latencyMs: Math.max(0, this.clock() - startedAt),
+    };
+  }
+
+  private normalizeFee(
+    order: SpotOrder,
+    instrument: SpotInstrument
+  ): Pick<OrderFill, "feeUsd" | "feeInBase" | "feeEstimated"> {
+    if (order.fee <= 0 || !order.feeAsset) {
+      return { feeUsd: 0, feeInBase: 0, feeEstimated: false };
+    }
+    if (order.feeAsset === instrument.quoteAsset) {
+      return { feeUsd: order.fee, feeInBase: 0, feeEstimated: false };
+    }
+    if (order.feeAsset === instrument.baseAsset) {
+      return { feeUsd: order.fee * order.avgPrice, feeInBase: order.fee, feeEstimated: false };
+    }
+    return { feeUsd: order.quoteQty * this.fallbackFeePct, feeInBase: 0, feeEstimated: true };
+  }
+}
+
+// ---- helpers ----
+
+function isFinal(order: SpotOrder): boolean {
+  return order.status === "filled" || order.status === "canceled" || order.status === "rejected";
+}
+
+/** Redondea hacia abajo al step del par, sin ruido de coma flotante. */
+function floorToStep(quantity: number, step: number): number {
+  if (step <= 0) return quantity;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return Number((Math.floor(quantity / step + 1e-9) * step).toFixed(decimals));
+}
+
+function roundCents(usd: number): number {
+  return Math.floor(usd * 100) / 100;
+}
+
+function rejected(reason: string): BrokerResult {
+  return { executed: false, reason, fill: null, trade: null };
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,36 @@
+// ============================================================
+// Clock — injectable time source (epoch ms)
+// ============================================================
+
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+/**
+ * VirtualClock — reloj manual para replays.
+ * El backtester lo avanza tick a tick; los componentes que lo reciben
+ * ven el "ahora" simulado en lugar del reloj del sistema.
+ */
+export class VirtualClock {
+  private current: number;
+
+  constructor(start: number) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  set(ts: number): void {
+    if (ts < this.current) {
+      throw new Error(`VirtualClock no puede retroceder (${ts} < ${this.current})`);
+    }
+    this.current = ts;
+  }
+
+  /** Clock compatible con los componentes del engine. */
+  asClock(): Clock {
+    return () => this.current;
+  }
+}
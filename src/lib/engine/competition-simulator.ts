@@ -2,6 +2,8 @@
 // CompetitionSimulator — MEV, front-running & bot simulation
 // ============================================================
 
+import type { Rng } from "./random";
+
 export interface CompetitionResult {
   additionalSlippagePct: number;
   wasFrontrun: boolean;
@@ -35,7 +37,8 @@ export class CompetitionSimulator {
     network: string,
     positionUsd: number,
     poolLiquidityUsd: number,
-    poolVolume24h: number
+    poolVolume24h: number,
+    rng: Rng = Math.random
   ): CompetitionResult {
     const baseMevRisk = MEV_RISK_BY_NETWORK[network.toLowerCase()] ?? 0.10;
 
@@ -49,18 +52,18 @@ export class CompetitionSimulator {
     const frontrunProb = baseMevRisk * sizeVisibility;
     const backrunProb = baseMevRisk * botDensity * 0.5;
 
-    const wasFrontrun = Math.random() < frontrunProb;
-    const wasBackrun = Math.random() < backrunProb;
+    const wasFrontrun = rng() < frontrunProb;
+    const wasBackrun = rng() < backrunProb;
 
     let additionalSlippagePct = 0;
     const parts: string[] = [];
 
     if (wasFrontrun) {
-      additionalSlippagePct += 0.002 + Math.random() * 0.008;
+      additionalSlippagePct += 0.002 + rng() * 0.008;
       parts.push("front-run detected");
     }
     if (wasBackrun) {
-      additionalSlippagePct += 0.001 + Math.random() * 0.003;
+      additionalSlippagePct += 0.001 + rng() * 0.003;
       parts.push("back-run detected");
     }
 
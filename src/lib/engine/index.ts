@@ -2,3 +2,15 @@ export * from "./types";
 export { RiskGate } from "./risk-gate";
 export { PaperBroker } from "./paper-broker";
 export type { QuoteFetcher, PaperBrokerResult } from "./paper-broker";
+export { OnChainSwapBroker } from "./swap-broker";
+export type { SwapBrokerOptions } from "./swap-broker";
+export { createBroker, createCexBroker } from "./broker-factory";
+export { CexSpotBroker } from "./cex-broker";
+export type { CexBrokerOptions } from "./cex-broker";
+export { LiveVenueRouter } from "./venue-router";
+export { ShadowBroker } from "./shadow-broker";
+export type { ShadowComparison } from "./shadow-broker";
+export { StubRouteQuoter, JupiterStyleQuoter } from "./route-quoter";
+export type { RouteQuote, RouteQuoter, RouteQuoteRequest } from "./route-quoter";
+export { ShadowReportEngine } from "./shadow-report";
+export type { ShadowReport, ShadowGapStats } from "./shadow-report";
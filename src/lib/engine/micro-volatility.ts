@@ -2,6 +2,8 @@
 // MicroVolatility — Geometric Brownian Motion price noise
 // ============================================================
 
+import type { Rng } from "./random";
+
 export interface MicroVolatilityResult {
   adjustedPrice: number;
   noisePct: number;
@@ -11,6 +13,7 @@ export interface MicroVolatilityOpts {
   annualizedVol?: number;
   priceChange1hPct?: number;
   drift?: number;
+  rng?: Rng;
 }
 
 export class MicroVolatility {
@@ -25,6 +28,7 @@ export class MicroVolatility {
    * @param opts.annualizedVol    - Override annualized volatility
    * @param opts.priceChange1hPct - Used to estimate vol if not provided
    * @param opts.drift            - Drift term (default 0 for micro-periods)
+   * @param opts.rng              - Random source (default Math.random)
    */
   static apply(
     price: number,
@@ -42,7 +46,7 @@ export class MicroVolatility {
     const dtYears = latencyMs / 3_600_000 / 8760;
     const sqrtDt = Math.sqrt(dtYears);
 
-    const z = MicroVolatility.boxMuller();
+    const z = MicroVolatility.boxMuller(opts?.rng ?? Math.random);
     const noisePct = drift * dtYears + vol * sqrtDt * z;
     const adjustedPrice = price * (1 + noisePct);
 
@@ -63,9 +67,9 @@ export class MicroVolatility {
     return Math.max(0.5, Math.min(annualized, 20));
   }
 
-  private static boxMuller(): number {
-    const u1 = Math.max(1e-10, Math.random());
-    const u2 = Math.random();
+  private static boxMuller(rng: Rng): number {
+    const u1 = Math.max(1e-10, rng());
+    const u2 = rng();
     return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
   }
 }
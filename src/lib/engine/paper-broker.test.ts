@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PaperBroker } from "./paper-broker";
+import type { QuoteFetcher } from "./paper-broker";
+import { RiskGate } from "./risk-gate";
+import { createSeededRng } from "./random";
+import type { ExitOrder } from "./types";
+import { PositionManager } from "../signals/position-manager";
+import type { OpenPosition } from "../signals/position-manager";
+
+test("la salida simulada paga medio spread como la entrada", async () => {
+  const tight = await exitPrice(0);
+  const wide = await exitPrice(2);
+  // Misma semilla: solo cambia el medio spread (1% del precio)
+  assert.ok(Math.abs(tight - wide - 3000 * 0.01) < 0.5, `${tight} vs ${wide}`);
+});
+
+test("el PnL neto de las ejecuciones suma el neto del trade, con los costes de entrada", () => {
+  const pm = new PositionManager({} as SupabaseClient);
+  let pos = position();
+
+  const partial = pm.exitFromFill(pos, { kind: "partial", reason: "TP1", quantity: 0.5, takeProfit1: true }, {
+    success: true, exitPrice: 3300, quantity: 0.5, feesAbs: 1,
+  });
+  assert.equal(partial.netPnlAbs, 150 - 1 - 5);
+  pos = pm.applyPartial(pos, partial);
+
+  const full = pm.exitFromFill(pos, { kind: "full", reason: "trailing", quantity: 0.5 }, {
+    success: true, exitPrice: 2900, quantity: 0.5, feesAbs: 1,
+  });
+  assert.equal(full.kind, "full");
+  assert.equal(full.netPnlAbs, -50 - 1);
+  assert.equal(partial.netPnlAbs + full.netPnlAbs, full.tradeNetPnlAbs);
+});
+
+// ---- helpers ----
+
+async function exitPrice(spreadPct: number): Promise<number> {
+  const quotes = { getQuote: async () => ({ price: 3000 }) } as unknown as QuoteFetcher;
+  const broker = new PaperBroker(new RiskGate(), quotes, { rng: createSeededRng("exit-spread") });
+  const order: ExitOrder = {
+    tradeId: "trade-1",
+    userId: "user-1",
+    symbol: "WETH",
+    tokenAddress: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+    network: "base",
+    positionSide: "buy",
+    quantity: 0.1,
+    expectedPrice: 3000,
+    reason: "test",
+    liquidityUsd: 5_000_000,
+    volume24h: 1_000_000,
+    spreadPct,
+  };
+  const fill = await broker.executeExit(order);
+  assert.equal(fill.success, true);
+  return fill.exitPrice;
+}
+
+function position(): OpenPosition {
+  return {
+    tradeId: "trade-1",
+    userId: "user-1",
+    symbol: "WETH",
+    tokenAddress: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+    network: "base",
+    side: "buy",
+    layer: "core",
+    executionMode: "paper",
+    entryPrice: 3000,
+    quantity: 1,
+    initialQuantity: 1,
+    realizedPnlAbs: 0,
+    feesAbs: 5,
+    tp1Hit: false,
+    openedAt: new Date(),
+    highestPrice: 3000,
+    currentPrice: 3000,
+    pnlPct: 0,
+    trailingStopPrice: 0,
+    metadata: {},
+  };
+}
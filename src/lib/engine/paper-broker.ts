@@ -1,9 +1,15 @@
 import type {
+  Broker,
+  BrokerResult,
+  ExecutionMode,
+  ExitFill,
+  ExitOrder,
   OrderRequest,
   FillResult,
   TradeRecord,
   PriceQuote,
   RiskState,
+  TradeSide,
 } from "./types";
 import { RiskGate } from "./risk-gate";
 import { SlippageModel } from "./slippage-model";
@@ -11,6 +17,9 @@ import { CompetitionSimulator } from "./competition-simulator";
 import { MicroVolatility } from "./micro-volatility";
 import { StressEventSimulator } from "./stress-events";
 import type { StressEvent } from "./stress-events";
+import type { Rng } from "./random";
+import type { Clock } from "./clock";
+import { systemClock } from "./clock";
 
 /**
  * PaperBroker — ejecuta órdenes contra datos de mercado reales
@@ -24,15 +33,31 @@ import type { StressEvent } from "./stress-events";
  *  5. SlippageModel (AMM)   → impacto no-lineal de precio
  *  6. CompetitionSimulator  → MEV / front-run / back-run
  *  7. buildTradeRecord()    → registro listo para Supabase
+ *
+ * Las salidas (executeExit) pasan por los pasos 4–6 en el lado
+ * contrario y pagan gas, así que el PnL de paper no sale gratis.
+ *
+ * `opts.rng` y `opts.clock` permiten replays deterministas (backtester).
  */
-export class PaperBroker {
+export class PaperBroker implements Broker {
+  readonly mode: ExecutionMode = "paper";
+  /** Paper simula el short como venta con recompra posterior (sin coste de préstamo). */
+  readonly supportsShort = true;
   private riskGate: RiskGate;
   private quoteFetcher: QuoteFetcher;
+  private rng: Rng;
+  private clock: Clock;
   lastStressEvent: StressEvent | null = null;
 
-  constructor(riskGate: RiskGate, quoteFetcher: QuoteFetcher) {
+  constructor(
+    riskGate: RiskGate,
+    quoteFetcher: QuoteFetcher,
+    opts?: PaperBrokerOptions
+  ) {
     this.riskGate = riskGate;
     this.quoteFetcher = quoteFetcher;
+    this.rng = opts?.rng ?? Math.random;
+    this.clock = opts?.clock ?? systemClock;
   }
 
   async execute(
@@ -89,7 +114,8 @@ export class PaperBroker {
     const stressEvent = StressEventSimulator.rollForEvent(
       quote.liquidityUsd,
       pairAgeHours,
-      order.layer
+      order.layer,
+      this.rng
     );
     this.lastStressEvent = stressEvent;
 
@@ -107,7 +133,7 @@ export class PaperBroker {
       };
     }
 
-    const fill = simulateFill(order, positionUsd, quote);
+    const fill = simulateFill(order, positionUsd, quote, this.rng, this.clock);
 
     const trade: TradeRecord = {
       userId: order.userId,
@@ -145,6 +171,28 @@ export class PaperBroker {
 
     return { executed: true, reason: null, fill, trade };
   }
+
+  /**
+   * Salida simulada con los mismos modelos que la entrada, en el lado
+   * contrario de la posición: ruido durante la latencia, medio spread,
+   * SlippageModel y CompetitionSimulator contra la liquidez observada,
+   * más gas. Sin
+   * liquidez en la orden (p. ej. par desaparecido) el SlippageModel
+   * aplica su penalización fija.
+   */
+  async executeExit(order: ExitOrder): Promise<ExitFill> {
+    if (order.expectedPrice <= 0 || order.quantity <= 0) {
+      return {
+        success: false,
+        exitPrice: 0,
+        quantity: 0,
+        feesAbs: 0,
+        error: `Salida inválida para ${order.symbol}: precio ${order.expectedPrice}, cantidad ${order.quantity}`,
+      };
+    }
+
+    return simulateExitFill(order, this.rng);
+  }
 }
 
 // --------------- Simulación de fill (enhanced) ---------------
@@ -152,15 +200,17 @@ export class PaperBroker {
 function simulateFill(
   order: OrderRequest,
   positionUsd: number,
-  quote: PriceQuote
+  quote: PriceQuote,
+  rng: Rng,
+  clock: Clock
 ): FillResult {
-  const latencyMs = simulateLatency();
+  const latencyMs = simulateLatency(rng);
 
   const priceChange1hPct = (order.metadata?.priceChange1h as number) ?? 0;
   const { adjustedPrice: noisePrice, noisePct } = MicroVolatility.apply(
     quote.price,
     latencyMs,
-    { priceChange1hPct }
+    { priceChange1hPct, rng }
   );
 
   const slippageEst = SlippageModel.estimate(
@@ -168,7 +218,7 @@ function simulateFill(
     quote.liquidityUsd,
     noisePrice,
     order.side,
-    { feeRate: 0.003 }
+    { feeRate: 0.003, rng }
   );
 
   const volume24h = (order.metadata?.entryVolume24h as number) ?? 0;
@@ -176,11 +226,12 @@ function simulateFill(
     order.network,
     positionUsd,
     quote.liquidityUsd,
-    volume24h
+    volume24h,
+    rng
   );
 
   const totalSlippage = slippageEst.slippagePct + competition.additionalSlippagePct;
-  const spreadImpact = quote.spreadPct / 2;
+  const spreadImpact = halfSpread(quote.spreadPct);
 
   const priceImpact =
     order.side === "buy"
@@ -190,7 +241,7 @@ function simulateFill(
   const entryPrice = noisePrice * priceImpact;
   const quantity = positionUsd / entryPrice;
 
-  const gasCost = estimateGas(quote.network);
+  const gasCost = estimateGas(quote.network, rng);
 
   return {
     success: true,
@@ -199,7 +250,7 @@ function simulateFill(
     slippage: totalSlippage,
     gasCost,
     latencyMs,
-    fillTimestamp: new Date(),
+    fillTimestamp: new Date(clock()),
     priceImpactPct: slippageEst.priceImpactPct,
     depthScore: slippageEst.depthScore,
     wasFrontrun: competition.wasFrontrun,
@@ -209,6 +260,63 @@ function simulateFill(
   };
 }
 
+function simulateExitFill(order: ExitOrder, rng: Rng): ExitFill {
+  const latencyMs = simulateLatency(rng);
+
+  const { adjustedPrice: noisePrice, noisePct } = MicroVolatility.apply(
+    order.expectedPrice,
+    latencyMs,
+    { rng }
+  );
+
+  const side: TradeSide = order.positionSide === "buy" ? "sell" : "buy";
+  const sizeUsd = order.quantity * noisePrice;
+  const liquidityUsd = order.liquidityUsd ?? 0;
+
+  const slippageEst = SlippageModel.estimate(
+    sizeUsd,
+    liquidityUsd,
+    noisePrice,
+    side,
+    { feeRate: 0.003, rng }
+  );
+
+  const competition = CompetitionSimulator.simulate(
+    order.network,
+    sizeUsd,
+    liquidityUsd,
+    order.volume24h ?? 0,
+    rng
+  );
+
+  const totalSlippage = slippageEst.slippagePct + competition.additionalSlippagePct;
+  const spreadImpact = halfSpread(
+    order.spreadPct ?? SlippageModel.estimateSpreadPct(liquidityUsd, order.volume24h ?? 0)
+  );
+  const priceImpact = side === "sell"
+    ? 1 - totalSlippage - spreadImpact
+    : 1 + totalSlippage + spreadImpact;
+
+  return {
+    success: true,
+    exitPrice: noisePrice * priceImpact,
+    quantity: order.quantity,
+    feesAbs: estimateGas(order.network, rng),
+    slippage: totalSlippage,
+    latencyMs,
+    priceImpactPct: slippageEst.priceImpactPct,
+    wasFrontrun: competition.wasFrontrun,
+    wasBackrun: competition.wasBackrun,
+    competitionSlippagePct: competition.additionalSlippagePct,
+    noisePct,
+  };
+}
+
+/** Medio spread como fracción del precio: se cruza el libro en cada fill. `spreadPct` va en %. */
+function halfSpread(spreadPct: number): number {
+  return spreadPct / 100 / 2;
+}
+
 const GAS_ESTIMATES_USD: Record<string, [number, number]> = {
   ethereum: [3, 25],
   base: [0.01, 0.15],
@@ -219,13 +327,13 @@ const GAS_ESTIMATES_USD: Record<string, [number, number]> = {
   bsc: [0.1, 0.5],
 };
 
-function estimateGas(network: string): number {
+function estimateGas(network: string, rng: Rng): number {
   const range = GAS_ESTIMATES_USD[network.toLowerCase()] ?? [0.5, 5];
-  return range[0] + Math.random() * (range[1] - range[0]);
+  return range[0] + rng() * (range[1] - range[0]);
 }
 
-function simulateLatency(): number {
-  return Math.round(100 + Math.random() * 900);
+function simulateLatency(rng: Rng): number {
+  return Math.round(100 + rng() * 900);
 }
 
 // --------------- Interfaces de abstracción ---------------
@@ -234,9 +342,9 @@ export interface QuoteFetcher {
   getQuote(tokenAddress: string, network: string): Promise<PriceQuote>;
 }
 
-export interface PaperBrokerResult {
-  executed: boolean;
-  reason: string | null;
-  fill: FillResult | null;
-  trade: TradeRecord | null;
+export interface PaperBrokerOptions {
+  rng?: Rng;
+  clock?: Clock;
 }
+
+export type PaperBrokerResult = BrokerResult;
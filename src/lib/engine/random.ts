@@ -0,0 +1,36 @@
+// ============================================================
+// Random — seedable PRNG for reproducible simulations
+// ============================================================
+
+/** Returns a float in [0, 1), same contract as Math.random. */
+export type Rng = () => number;
+
+export const defaultRng: Rng = () => Math.random();
+
+/**
+ * Mulberry32 seeded from a string or number.
+ *
+ * Same seed → same sequence, so a backtest or simulation that threads
+ * this Rng through every stochastic component is fully reproducible.
+ */
+export function createSeededRng(seed: number | string): Rng {
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a 32-bit — stable string → uint32 for seeding. */
+function hashSeed(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
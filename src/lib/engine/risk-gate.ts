@@ -1,5 +1,14 @@
-import type { Layer, RiskConfig, RiskState, RiskVerdict } from "./types";
+import type {
+  ExposurePosition,
+  Layer,
+  PortfolioExposure,
+  RiskConfig,
+  RiskState,
+  RiskVerdict,
+} from "./types";
 import { DEFAULT_RISK_CONFIG } from "./types";
+import type { Clock } from "./clock";
+import { systemClock } from "./clock";
 
 /**
  * RiskGate — portero de cada operación.
@@ -12,16 +21,37 @@ import { DEFAULT_RISK_CONFIG } from "./types";
  *  - Pérdida semanal > maxWeeklyLossPct  → pausa total
  *  - Trades/día por capa superados       → rechaza capa
  *  - 3 pérdidas seguidas satellite       → pausa satellite 24h
+ *  - Exposición abierta total, por token, por red o por fuente de señal
+ *    >= tope → rechaza; si no, el tamaño se limita a lo que queda
+ *  - Demasiadas posiciones del mismo lado abiertas en el mismo régimen
+ *    (memecoins correlacionadas) → rechaza
  *  - Sistema pausado manualmente         → rechaza todo
  */
 export class RiskGate {
   private config: RiskConfig;
+  protected clock: Clock = systemClock;
 
   constructor(config?: Partial<RiskConfig>) {
-    this.config = { ...DEFAULT_RISK_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_RISK_CONFIG,
+      ...config,
+      maxNetworkExposurePct: {
+        ...DEFAULT_RISK_CONFIG.maxNetworkExposurePct,
+        ...config?.maxNetworkExposurePct,
+      },
+    };
   }
 
-  evaluate(state: RiskState, layer: Layer): RiskVerdict {
+  /** Sustituye el reloj del sistema (replays con reloj virtual). */
+  setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * `exposure` es opcional: sin él (brokers, backtester) no se aplican
+   * los límites de cartera.
+   */
+  evaluate(state: RiskState, layer: Layer, exposure?: PortfolioExposure): RiskVerdict {
     const deny = (reason: string): RiskVerdict => ({
       allowed: false,
       reason,
@@ -29,7 +59,7 @@ export class RiskGate {
     });
 
     if (state.isPaused) {
-      if (state.pauseUntil && new Date() < state.pauseUntil) {
+      if (state.pauseUntil && new Date(this.clock()) < state.pauseUntil) {
         return deny(`Sistema pausado hasta ${state.pauseUntil.toISOString()} — ${state.pauseReason ?? "sin motivo"}`);
       }
       // pausa expirada → se permiten trades, el caller debe limpiar el flag
@@ -77,7 +107,13 @@ export class RiskGate {
       }
     }
 
-    const maxPositionUsd = state.capital * layerConfig.maxRiskPerTradePct;
+    let maxPositionUsd = state.capital * layerConfig.maxRiskPerTradePct;
+
+    if (exposure) {
+      const limits = this.checkPortfolio(state, exposure);
+      if (limits.denial) return deny(limits.denial);
+      maxPositionUsd = Math.min(maxPositionUsd, limits.headroomUsd);
+    }
 
     return { allowed: true, reason: null, maxPositionUsd };
   }
@@ -85,24 +121,34 @@ export class RiskGate {
   /**
    * Calcula el nuevo estado de riesgo tras un trade cerrado.
    * El caller persiste el resultado en Supabase.
+   *
+   * `pnl` es lo realizado por esta ejecución, neto de costes. Para
+   * salidas parciales (`opts.partial`) solo se acumula el PnL: no cuenta
+   * como trade ni altera la racha. En el cierre final, `opts.tradePnl` (PnL neto total
+   * del trade incluyendo parciales) decide si la racha suma una pérdida.
    */
   applyTradeResult(
     state: RiskState,
     layer: Layer,
-    pnl: number
+    pnl: number,
+    opts?: { partial?: boolean; tradePnl?: number }
   ): { newState: RiskState; shouldPause: boolean; pauseReason: string | null } {
     const next: RiskState = { ...state };
     next.pnlToday += pnl;
     next.pnlThisWeek += pnl;
 
-    if (layer === "core") {
-      next.tradesTodayCore += 1;
-    } else {
-      next.tradesTodaySatellite += 1;
-      if (pnl < 0) {
-        next.consecutiveLossesSatellite += 1;
+    const tradePnl = opts?.tradePnl ?? pnl;
+
+    if (!opts?.partial) {
+      if (layer === "core") {
+        next.tradesTodayCore += 1;
       } else {
-        next.consecutiveLossesSatellite = 0;
+        next.tradesTodaySatellite += 1;
+        if (tradePnl < 0) {
+          next.consecutiveLossesSatellite += 1;
+        } else {
+          next.consecutiveLossesSatellite = 0;
+        }
       }
     }
 
@@ -130,19 +176,20 @@ export class RiskGate {
     }
 
     if (
+      !opts?.partial &&
       layer === "satellite" &&
       next.consecutiveLossesSatellite >= this.config.satelliteConsecLossLimit
     ) {
       shouldPause = true;
       pauseReason = `Satellite: ${next.consecutiveLossesSatellite} pérdidas consecutivas`;
-      next.pauseUntil = new Date(Date.now() + this.config.satelliteCooldownMs);
+      next.pauseUntil = new Date(this.clock() + this.config.satelliteCooldownMs);
     }
 
     if (shouldPause) {
       next.isPaused = true;
       next.pauseReason = pauseReason;
       if (!next.pauseUntil) {
-        next.pauseUntil = endOfDay();
+        next.pauseUntil = endOfDay(this.clock());
       }
     }
 
@@ -152,10 +199,81 @@ export class RiskGate {
   getConfig(): Readonly<RiskConfig> {
     return this.config;
   }
+
+  /**
+   * Límites de cartera sobre las posiciones abiertas: el primer tope
+   * alcanzado deniega; si ninguno lo está, `headroomUsd` es lo que cabe
+   * hasta el más cercano.
+   */
+  protected checkPortfolio(
+    state: RiskState,
+    exposure?: PortfolioExposure
+  ): { denial: string | null; headroomUsd: number } {
+    if (!exposure) return { denial: null, headroomUsd: Infinity };
+
+    const { candidate, openPositions } = exposure;
+    const sumUsd = (filter: (p: ExposurePosition) => boolean) =>
+      openPositions.filter(filter).reduce((s, p) => s + p.usd, 0);
+
+    const correlated = openPositions.filter(
+      (p) => p.side === candidate.side && p.regime !== null && p.regime === candidate.regime
+    ).length;
+    if (candidate.regime !== null && correlated >= this.config.maxCorrelatedPositions) {
+      return {
+        denial: `Correlación: ${correlated} posiciones ${candidate.side} abiertas en régimen ${candidate.regime}, máximo ${this.config.maxCorrelatedPositions}`,
+        headroomUsd: 0,
+      };
+    }
+
+    const networkCapPct =
+      this.config.maxNetworkExposurePct[candidate.network] ??
+      this.config.defaultNetworkExposurePct;
+
+    const caps: { label: string; capPct: number; openUsd: number }[] = [
+      {
+        label: "total",
+        capPct: this.config.maxTotalExposurePct,
+        openUsd: sumUsd(() => true),
+      },
+      {
+        label: `token ${candidate.tokenAddress}`,
+        capPct: this.config.maxTokenExposurePct,
+        openUsd: sumUsd(
+          (p) =>
+            p.network === candidate.network &&
+            p.tokenAddress.toLowerCase() === candidate.tokenAddress.toLowerCase()
+        ),
+      },
+      {
+        label: `red ${candidate.network}`,
+        capPct: networkCapPct,
+        openUsd: sumUsd((p) => p.network === candidate.network),
+      },
+      {
+        label: `fuente ${candidate.signalSource}`,
+        capPct: this.config.maxSourceExposurePct,
+        openUsd: sumUsd((p) => p.signalSource === candidate.signalSource),
+      },
+    ];
+
+    let headroomUsd = Infinity;
+    for (const cap of caps) {
+      const capUsd = state.capital * cap.capPct;
+      if (cap.openUsd >= capUsd) {
+        return {
+          denial: `Exposición ${cap.label}: $${cap.openUsd.toFixed(2)} abiertos >= tope ${(cap.capPct * 100).toFixed(1)}% del capital`,
+          headroomUsd: 0,
+        };
+      }
+      headroomUsd = Math.min(headroomUsd, capUsd - cap.openUsd);
+    }
+
+    return { denial: null, headroomUsd };
+  }
 }
 
-function endOfDay(): Date {
-  const d = new Date();
+function endOfDay(now: number): Date {
+  const d = new Date(now);
   d.setUTCHours(23, 59, 59, 999);
   return d;
 }
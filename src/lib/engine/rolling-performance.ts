@@ -38,8 +38,11 @@ export interface RollingMetrics {
   computedAt: Date;
 }
 
-interface TradeRow {
+export interface RollingTradeRow {
+  /** PnL bruto (sin gas/fees). */
   pnl_abs: number | null;
+  /** PnL neto de entrada y salidas; null en trades anteriores a guardarlo. */
+  pnl_net_abs: number | null;
   pnl_pct: number | null;
   is_win: boolean | null;
   layer: string;
@@ -61,80 +64,15 @@ export class RollingPerformanceEngine {
     const { data } = await this.supabase
       .from("trades")
       .select(
-        "pnl_abs, pnl_pct, is_win, layer, fees_abs, slippage_simulated, gas_simulated, latency_ms, metadata, closed_at"
+        "pnl_abs, pnl_net_abs, pnl_pct, is_win, layer, fees_abs, slippage_simulated, gas_simulated, latency_ms, metadata, closed_at"
       )
       .eq("user_id", userId)
       .eq("status", "closed")
-      .eq("execution_mode", "paper")
+      .in("execution_mode", ["paper", "shadow"])
       .gte("closed_at", since)
       .order("closed_at", { ascending: true });
 
-    const trades = (data ?? []) as TradeRow[];
-
-    const core = trades.filter((t) => t.layer === "core");
-    const satellite = trades.filter((t) => t.layer === "satellite");
-
-    const pf_core = calcProfitFactor(core);
-    const pf_sat = calcProfitFactor(satellite);
-    const pf_global = calcProfitFactor(trades);
-
-    const wr_core = calcWinRate(core);
-    const wr_sat = calcWinRate(satellite);
-
-    const exp_core = calcExpectancy(core);
-    const exp_sat = calcExpectancy(satellite);
-
-    const { maxDrawdownPct, currentDrawdownPct } = calcDrawdown(trades);
-    const totalNet = trades.reduce((s, t) => s + num(t.pnl_abs) - num(t.fees_abs), 0);
-    const recoveryFactor = maxDrawdownPct > 0 ? totalNet / (maxDrawdownPct * 100) : 0;
-
-    const avgSlip = avg(trades.map((t) => num(t.slippage_simulated)));
-    const avgGas = avg(trades.map((t) => num(t.gas_simulated)));
-    const avgLat = avg(trades.map((t) => num(t.latency_ms)));
-
-    const competitionLoss = avg(
-      trades.map((t) => {
-        const meta = t.metadata as Record<string, unknown> | null;
-        return num(meta?.competitionSlippage as number | null);
-      })
-    );
-
-    const frictionPerTrade = avgSlip * avg(trades.map((t) => Math.abs(num(t.pnl_abs)))) + avgGas;
-    const rawExpectancy = calcExpectancy(trades);
-    const slipAdj = rawExpectancy - frictionPerTrade;
-
-    const kelly_core = kellyFraction(wr_core, pf_core);
-    const kelly_sat = kellyFraction(wr_sat, pf_sat);
-
-    const dailyAvg = trades.length > 0 ? totalNet / days : 0;
-    const projected7d = dailyAvg * 7;
-
-    const streakInfo = calcStreaks(trades);
-
-    return {
-      window,
-      profitFactor_core: round(pf_core),
-      profitFactor_satellite: round(pf_sat),
-      profitFactor_global: round(pf_global),
-      expectancy_core: round(exp_core),
-      expectancy_satellite: round(exp_sat),
-      winRate_core: round(wr_core * 100),
-      winRate_satellite: round(wr_sat * 100),
-      currentDrawdownPct: round(currentDrawdownPct),
-      maxDrawdownPct: round(maxDrawdownPct),
-      recoveryFactor: round(recoveryFactor),
-      avgSlippagePct: round(avgSlip * 100),
-      avgGasCostUsd: round(avgGas),
-      avgLatencyMs: round(avgLat),
-      slippageAdjustedExpectancy: round(slipAdj),
-      competitionLossPct: round(competitionLoss * 100),
-      kellyFraction_core: round(kelly_core),
-      kellyFraction_satellite: round(kelly_sat),
-      projectedPnl7d: round(projected7d),
-      streakInfo,
-      totalTrades: trades.length,
-      computedAt: new Date(),
-    };
+    return computeRollingMetrics((data ?? []) as RollingTradeRow[], window);
   }
 
   async computeBothWindows(
@@ -148,12 +86,97 @@ export class RollingPerformanceEngine {
   }
 }
 
+/**
+ * Calcula las métricas rolling sobre trades cerrados ya cargados
+ * (ordenados por closed_at). Sin acceso a BD: lo usa también el
+ * backtester con los trades simulados y su reloj virtual.
+ */
+export function computeRollingMetrics(
+  rows: RollingTradeRow[],
+  window: "7d" | "30d" = "30d",
+  now: number = Date.now()
+): RollingMetrics {
+  const days = window === "7d" ? 7 : 30;
+  const since = now - days * 24 * 3600_000;
+  const trades = rows.filter((t) => new Date(t.closed_at).getTime() >= since);
+
+  const core = trades.filter((t) => t.layer === "core");
+  const satellite = trades.filter((t) => t.layer === "satellite");
+
+  const pf_core = calcProfitFactor(core);
+  const pf_sat = calcProfitFactor(satellite);
+  const pf_global = calcProfitFactor(trades);
+
+  const wr_core = calcWinRate(core);
+  const wr_sat = calcWinRate(satellite);
+
+  const exp_core = calcExpectancy(core);
+  const exp_sat = calcExpectancy(satellite);
+
+  const { maxDrawdownPct, currentDrawdownPct } = calcDrawdown(trades);
+  const totalNet = trades.reduce((s, t) => s + netPnl(t), 0);
+  const recoveryFactor = maxDrawdownPct > 0 ? totalNet / (maxDrawdownPct * 100) : 0;
+
+  const avgSlip = avg(trades.map((t) => num(t.slippage_simulated)));
+  const avgGas = avg(trades.map((t) => num(t.gas_simulated)));
+  const avgLat = avg(trades.map((t) => num(t.latency_ms)));
+
+  const competitionLoss = avg(
+    trades.map((t) => {
+      const meta = t.metadata as Record<string, unknown> | null;
+      return num(meta?.competitionSlippage as number | null);
+    })
+  );
+
+  const frictionPerTrade = avgSlip * avg(trades.map((t) => Math.abs(num(t.pnl_abs)))) + avgGas;
+  const rawExpectancy = calcExpectancy(trades);
+  const slipAdj = rawExpectancy - frictionPerTrade;
+
+  const kelly_core = kellyFraction(wr_core, pf_core);
+  const kelly_sat = kellyFraction(wr_sat, pf_sat);
+
+  const dailyAvg = trades.length > 0 ? totalNet / days : 0;
+  const projected7d = dailyAvg * 7;
+
+  const streakInfo = calcStreaks(trades);
+
+  return {
+    window,
+    profitFactor_core: round(pf_core),
+    profitFactor_satellite: round(pf_sat),
+    profitFactor_global: round(pf_global),
+    expectancy_core: round(exp_core),
+    expectancy_satellite: round(exp_sat),
+    winRate_core: round(wr_core * 100),
+    winRate_satellite: round(wr_sat * 100),
+    currentDrawdownPct: round(currentDrawdownPct),
+    maxDrawdownPct: round(maxDrawdownPct),
+    recoveryFactor: round(recoveryFactor),
+    avgSlippagePct: round(avgSlip * 100),
+    avgGasCostUsd: round(avgGas),
+    avgLatencyMs: round(avgLat),
+    slippageAdjustedExpectancy: round(slipAdj),
+    competitionLossPct: round(competitionLoss * 100),
+    kellyFraction_core: round(kelly_core),
+    kellyFraction_satellite: round(kelly_sat),
+    projectedPnl7d: round(projected7d),
+    streakInfo,
+    totalTrades: trades.length,
+    computedAt: new Date(now),
+  };
+}
+
 // ---- helpers ----
 
 function num(v: unknown): number {
   return typeof v === "number" ? v : Number(v ?? 0) || 0;
 }
 
+/** PnL neto guardado; en trades antiguos, bruto menos fees_abs. */
+function netPnl(t: RollingTradeRow): number {
+  return t.pnl_net_abs != null ? num(t.pnl_net_abs) : num(t.pnl_abs) - num(t.fees_abs);
+}
+
 function avg(vals: number[]): number {
   if (vals.length === 0) return 0;
   return vals.reduce((s, v) => s + v, 0) / vals.length;
@@ -163,28 +186,27 @@ function round(n: number): number {
   return Math.round(n * 100) / 100;
 }
 
-function calcProfitFactor(trades: TradeRow[]): number {
-  const gains = trades.filter((t) => num(t.pnl_abs) > 0);
-  const losses = trades.filter((t) => num(t.pnl_abs) < 0);
-  const grossProfit = gains.reduce((s, t) => s + num(t.pnl_abs), 0);
-  const grossLoss = Math.abs(losses.reduce((s, t) => s + num(t.pnl_abs), 0));
+function calcProfitFactor(trades: RollingTradeRow[]): number {
+  const pnls = trades.map(netPnl);
+  const grossProfit = pnls.filter((v) => v > 0).reduce((s, v) => s + v, 0);
+  const grossLoss = Math.abs(pnls.filter((v) => v < 0).reduce((s, v) => s + v, 0));
   if (grossLoss <= 0) return grossProfit > 0 ? 10 : 0;
   return grossProfit / grossLoss;
 }
 
-function calcWinRate(trades: TradeRow[]): number {
+function calcWinRate(trades: RollingTradeRow[]): number {
   if (trades.length === 0) return 0;
   const wins = trades.filter((t) => t.is_win === true).length;
   return wins / trades.length;
 }
 
-function calcExpectancy(trades: TradeRow[]): number {
+function calcExpectancy(trades: RollingTradeRow[]): number {
   if (trades.length === 0) return 0;
-  const total = trades.reduce((s, t) => s + num(t.pnl_abs) - num(t.fees_abs), 0);
+  const total = trades.reduce((s, t) => s + netPnl(t), 0);
   return total / trades.length;
 }
 
-function calcDrawdown(trades: TradeRow[]): {
+function calcDrawdown(trades: RollingTradeRow[]): {
   maxDrawdownPct: number;
   currentDrawdownPct: number;
 } {
@@ -195,7 +217,7 @@ function calcDrawdown(trades: TradeRow[]): {
   let maxDD = 0;
 
   for (const t of trades) {
-    cumulative += num(t.pnl_abs);
+    cumulative += netPnl(t);
     if (cumulative > peak) peak = cumulative;
     const dd = peak > 0 ? (peak - cumulative) / peak : 0;
     if (dd > maxDD) maxDD = dd;
@@ -216,7 +238,7 @@ function kellyFraction(winRate: number, profitFactor: number): number {
   return Math.max(0, Math.min(f * 0.5, 0.25));
 }
 
-function calcStreaks(trades: TradeRow[]): {
+function calcStreaks(trades: RollingTradeRow[]): {
   currentStreak: number;
   longestWinStreak: number;
   longestLossStreak: number;
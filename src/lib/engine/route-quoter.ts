@@ -0,0 +1,223 @@
+import type { PriceQuote, TradeSide } from "./types";
+import type { QuoteFetcher } from "./paper-broker";
+import { EVM_NETWORKS } from "../chain/networks";
+
+export interface RouteQuoteRequest {
+  tokenAddress: string;
+  network: string;
+  side: TradeSide;
+  amountUsd: number;
+}
+
+/**
+ * Cotización de un agregador/router para ejecutar la orden ahora mismo.
+ * Los porcentajes son fracciones (0.01 = 1%) respecto al precio medio.
+ */
+export interface RouteQuote {
+  source: string;
+  routeLabel: string;
+  midPrice: number;
+  priceImpactPct: number;
+  feePct: number;
+  /** Precio efectivo por token incluyendo impacto y comisiones. */
+  expectedPrice: number;
+}
+
+/** Obtiene cotizaciones de ruta sin ejecutar nada (quote-only). */
+export interface RouteQuoter {
+  quote(req: RouteQuoteRequest): Promise<RouteQuote>;
+}
+
+/** Respuesta estilo Jupiter `/quote` (v6), la que sirve el stub local. */
+export interface JupiterQuoteResponse {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  swapMode: "ExactIn";
+  slippageBps: number;
+  priceImpactPct: string;
+  routePlan: {
+    swapInfo: {
+      ammKey: string;
+      label: string;
+      inputMint: string;
+      outputMint: string;
+      inAmount: string;
+      outAmount: string;
+      feeAmount: string;
+      feeMint: string;
+    };
+    percent: number;
+  }[];
+}
+
+const SOLANA_USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const QUOTE_DECIMALS = 6;
+const DEFAULT_TOKEN_DECIMALS = 9;
+const DEFAULT_STUB_FEE_BPS = 25;
+
+/** Mint/dirección de USDC que se usa como lado de cotización en cada red. */
+export function quoteMintFor(network: string): string {
+  const net = network.toLowerCase();
+  if (net === "solana") return SOLANA_USDC;
+  return EVM_NETWORKS[net]?.quoteToken ?? "USD";
+}
+
+/**
+ * Ruta simulada sobre un pool de producto constante con la mitad de la
+ * liquidez a cada lado. Sin ruido, sin MEV ni latencia: es lo que un
+ * agregador cotizaría, no lo que modela el PaperBroker.
+ */
+export function stubRoute(
+  quote: PriceQuote,
+  side: TradeSide,
+  amountUsd: number,
+  feeBps: number = DEFAULT_STUB_FEE_BPS
+): RouteQuote {
+  const reserveUsd = Math.max(quote.liquidityUsd / 2, 1);
+  const priceImpactPct = amountUsd / (reserveUsd + amountUsd);
+  const feePct = feeBps / 10_000;
+  const cost = priceImpactPct + feePct;
+
+  return {
+    source: "stub",
+    routeLabel: "stub-cpmm",
+    midPrice: quote.price,
+    priceImpactPct,
+    feePct,
+    expectedPrice: side === "buy" ? quote.price * (1 + cost) : quote.price * (1 - cost),
+  };
+}
+
+/**
+ * StubRouteQuoter — quoter en proceso sobre los precios del QuoteFetcher.
+ * Es el que usa shadow mode si no hay ROUTE_QUOTE_API_URL configurada.
+ */
+export class StubRouteQuoter implements RouteQuoter {
+  constructor(
+    private quoteFetcher: QuoteFetcher,
+    private feeBps: number = DEFAULT_STUB_FEE_BPS
+  ) {}
+
+  async quote(req: RouteQuoteRequest): Promise<RouteQuote> {
+    const quote = await this.quoteFetcher.getQuote(req.tokenAddress, req.network);
+    if (quote.price <= 0) {
+      throw new Error(`Precio inválido para ${req.tokenAddress}: ${quote.price}`);
+    }
+    return stubRoute(quote, req.side, req.amountUsd, this.feeBps);
+  }
+}
+
+/**
+ * JupiterStyleQuoter — consulta una API `/quote` con el formato de Jupiter
+ * (Jupiter real en Solana o el stub `/api/simulation/route-quote`).
+ *
+ * Solo usa magnitudes relativas (priceImpactPct y fee/inAmount), así que
+ * no necesita conocer los decimales reales del token; el precio medio
+ * sale del QuoteFetcher.
+ */
+export class JupiterStyleQuoter implements RouteQuoter {
+  constructor(
+    private baseUrl: string,
+    private quoteFetcher: QuoteFetcher,
+    private slippageBps = 100
+  ) {}
+
+  async quote(req: RouteQuoteRequest): Promise<RouteQuote> {
+    const mid = await this.quoteFetcher.getQuote(req.tokenAddress, req.network);
+    if (mid.price <= 0) {
+      throw new Error(`Precio inválido para ${req.tokenAddress}: ${mid.price}`);
+    }
+
+    const usdc = quoteMintFor(req.network);
+    const isBuy = req.side === "buy";
+    const amount = isBuy
+      ? Math.round(req.amountUsd * 10 ** QUOTE_DECIMALS)
+      : Math.round((req.amountUsd / mid.price) * 10 ** DEFAULT_TOKEN_DECIMALS);
+
+    const params = new URLSearchParams({
+      inputMint: isBuy ? usdc : req.tokenAddress,
+      outputMint: isBuy ? req.tokenAddress : usdc,
+      amount: String(amount),
+      slippageBps: String(this.slippageBps),
+      network: req.network,
+    });
+
+    const res = await fetch(`${this.baseUrl.replace(/\/$/, "")}/quote?${params}`, {
+      headers: { Accept: "application/json" },
+    });
+    if (!res.ok) {
+      throw new Error(`Route quote ${res.status}: ${res.statusText}`);
+    }
+
+    const body = (await res.json()) as JupiterQuoteResponse;
+    const priceImpactPct = Math.abs(parseFloat(body.priceImpactPct) || 0);
+    const feePct = routeFeePct(body);
+    const cost = priceImpactPct + feePct;
+
+    return {
+      source: "jupiter-style",
+      routeLabel: body.routePlan.map((r) => r.swapInfo.label).join(" → ") || "unknown",
+      midPrice: mid.price,
+      priceImpactPct,
+      feePct,
+      expectedPrice: isBuy ? mid.price * (1 + cost) : mid.price * (1 - cost),
+    };
+  }
+}
+
+/** Serializa una RouteQuote del stub al formato de respuesta de Jupiter. */
+export function toJupiterResponse(
+  inputMint: string,
+  outputMint: string,
+  inAmount: bigint,
+  side: TradeSide,
+  route: RouteQuote,
+  slippageBps: number,
+  tokenDecimals: number = DEFAULT_TOKEN_DECIMALS
+): JupiterQuoteResponse {
+  const inDecimals = side === "buy" ? QUOTE_DECIMALS : tokenDecimals;
+  const outDecimals = side === "buy" ? tokenDecimals : QUOTE_DECIMALS;
+  const inUnits = Number(inAmount) / 10 ** inDecimals;
+  const outUnits = side === "buy" ? inUnits / route.expectedPrice : inUnits * route.expectedPrice;
+  const outAmount = BigInt(Math.floor(outUnits * 10 ** outDecimals));
+  const feeAmount = BigInt(Math.floor(Number(inAmount) * route.feePct));
+  const threshold = (outAmount * BigInt(10_000 - slippageBps)) / BigInt(10_000);
+
+  return {
+    inputMint,
+    outputMint,
+    inAmount: inAmount.toString(),
+    outAmount: outAmount.toString(),
+    otherAmountThreshold: threshold.toString(),
+    swapMode: "ExactIn",
+    slippageBps,
+    priceImpactPct: route.priceImpactPct.toFixed(8),
+    routePlan: [{
+      swapInfo: {
+        ammKey: "stub",
+        label: route.routeLabel,
+        inputMint,
+        outputMint,
+        inAmount: inAmount.toString(),
+        outAmount: outAmount.toString(),
+        feeAmount: feeAmount.toString(),
+        feeMint: inputMint,
+      },
+      percent: 100,
+    }],
+  };
+}
+
+function routeFeePct(body: JupiterQuoteResponse): number {
+  let fee = 0;
+  for (const leg of body.routePlan) {
+    const info = leg.swapInfo;
+    const legIn = parseFloat(info.inAmount);
+    if (info.feeMint !== info.inputMint || !(legIn > 0)) continue;
+    fee += (parseFloat(info.feeAmount) / legIn) * (leg.percent / 100);
+  }
+  return fee;
+}
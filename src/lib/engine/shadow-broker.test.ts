@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ShadowBroker } from "./shadow-broker";
+import type { ShadowComparison } from "./shadow-broker";
+import { StubRouteQuoter, stubRoute } from "./route-quoter";
+import type { RouteQuoter } from "./route-quoter";
+import type { QuoteFetcher } from "./paper-broker";
+import { RiskGate } from "./risk-gate";
+import { createSeededRng } from "./random";
+import { buildShadowReport } from "./shadow-report";
+import type { ShadowFillRow } from "./shadow-report";
+import type { OrderRequest, PriceQuote, RiskState } from "./types";
+
+const TOKEN = "0x00000000000000000000000000000000000be001";
+
+test("el fill de paper guarda la cotización de la ruta y el gap entre ambos", async () => {
+  const quotes = quoteFetcher();
+  const broker = new ShadowBroker(new RiskGate(), quotes, new StubRouteQuoter(quotes), {
+    rng: createSeededRng("shadow"),
+  });
+
+  const result = await broker.execute(buyOrder("base", 400), riskState());
+  assert.equal(result.executed, true, result.reason ?? "");
+  assert.equal(result.trade!.executionMode, "shadow");
+
+  const fill = result.fill!;
+  const shadow = result.trade!.metadata!.shadow as ShadowComparison;
+  const amountUsd = fill.entryPrice * fill.quantity;
+  const route = stubRoute(await quotes.getQuote(TOKEN, "base"), "buy", amountUsd);
+
+  assert.equal(shadow.amountUsd, amountUsd);
+  assert.equal(shadow.midPrice, 2);
+  assert.equal(shadow.paperPrice, fill.entryPrice);
+  assert.equal(shadow.modelSlippagePct, fill.slippage);
+  assert.equal(shadow.quotedPrice, route.expectedPrice);
+  assert.equal(shadow.quoteSource, "stub");
+  close(shadow.paperSlippagePct, fill.entryPrice / 2 - 1);
+  close(shadow.quotedSlippagePct, route.priceImpactPct + route.feePct);
+  close(shadow.slippageGapPct, shadow.paperSlippagePct - shadow.quotedSlippagePct);
+});
+
+test("si la cotización de ruta falla el fill de paper sigue y se anota el error", async () => {
+  const quotes = quoteFetcher();
+  const failing: RouteQuoter = { quote: async () => { throw new Error("router caído"); } };
+  const broker = new ShadowBroker(new RiskGate(), quotes, failing, { rng: createSeededRng("shadow") });
+
+  const result = await broker.execute(buyOrder("base", 400), riskState());
+  assert.equal(result.executed, true);
+  assert.equal(result.trade!.metadata!.shadow, undefined);
+  assert.equal(result.trade!.metadata!.shadowQuoteError, "router caído");
+});
+
+test("el informe shadow agrega los gaps de los fills por red y liquidez", async () => {
+  const quotes = quoteFetcher();
+  const broker = new ShadowBroker(new RiskGate(), quotes, new StubRouteQuoter(quotes), {
+    rng: createSeededRng("shadow-report"),
+  });
+
+  const rows: ShadowFillRow[] = [];
+  for (const [network, amountUsd] of [["base", 100], ["base", 300], ["ethereum", 200], ["ethereum", 450]] as const) {
+    const result = await broker.execute(buyOrder(network, amountUsd), riskState());
+    assert.equal(result.executed, true);
+    rows.push(fillRow(network, result.trade!.metadata!.shadow as ShadowComparison));
+  }
+
+  const report = buildShadowReport(rows, 30);
+  const gaps = rows.map((r) => r.slippage_gap_pct!);
+
+  assert.equal(report.overall.fills, 4);
+  close(report.overall.avgGapPct, gaps.reduce((s, g) => s + g, 0) / 4);
+  close(report.overall.optimisticRate, gaps.filter((g) => g < 0).length / 4);
+  assert.equal(report.byNetwork.base.fills, 2);
+  assert.equal(report.byNetwork.ethereum.fills, 2);
+  close(report.byNetwork.base.avgGapPct, (gaps[0] + gaps[1]) / 2);
+  assert.equal(report.byLiquidity.gt1m.fills, 4);
+  assert.equal(report.byLiquidity.lt100k.fills, 0);
+  assert.equal(report.trustworthy, false);
+  assert.match(report.verdict, /Muestra insuficiente \(4\/20/);
+});
+
+// ---- helpers ----
+
+function quoteFetcher(): QuoteFetcher {
+  return {
+    getQuote: async (tokenAddress: string, network: string): Promise<PriceQuote> => ({
+      symbol: "TKN",
+      tokenAddress,
+      network,
+      price: 2,
+      liquidityUsd: 2_000_000,
+      spreadPct: 0.2,
+      timestamp: new Date(),
+    }),
+  } as unknown as QuoteFetcher;
+}
+
+/** Misma fila que persiste el orquestador en shadow_fills. */
+function fillRow(network: string, shadow: ShadowComparison): ShadowFillRow {
+  return {
+    network,
+    amount_usd: shadow.amountUsd,
+    paper_slippage_pct: shadow.paperSlippagePct,
+    model_competition_pct: shadow.modelCompetitionPct,
+    quoted_slippage_pct: shadow.quotedSlippagePct,
+    slippage_gap_pct: shadow.slippageGapPct,
+    quote_liquidity_usd: 2_000_000,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function close(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} ≠ ${expected}`);
+}
+
+function riskState(): RiskState {
+  return {
+    capital: 100_000,
+    pnlToday: 0,
+    pnlThisWeek: 0,
+    tradesTodayCore: 0,
+    tradesTodaySatellite: 0,
+    consecutiveLossesSatellite: 0,
+    isPaused: false,
+    pauseReason: null,
+    pauseUntil: null,
+  };
+}
+
+function buyOrder(network: string, amountUsd: number): OrderRequest {
+  return {
+    userId: "user-1",
+    symbol: "TKN",
+    tokenAddress: TOKEN,
+    network,
+    side: "buy",
+    amountUsd,
+    layer: "core",
+    executionMode: "shadow",
+    entryReason: "test",
+  } as OrderRequest;
+}
@@ -0,0 +1,96 @@
+import type { BrokerResult, ExecutionMode, OrderRequest, RiskState } from "./types";
+import type { RiskGate } from "./risk-gate";
+import { PaperBroker } from "./paper-broker";
+import type { PaperBrokerOptions, QuoteFetcher } from "./paper-broker";
+import type { RouteQuoter } from "./route-quoter";
+
+/**
+ * Fill de paper y cotización de ruta de la misma orden, lado a lado.
+ * Slippages como fracción respecto al precio medio de la ruta
+ * (positivo = peor para nosotros, en ambos lados).
+ */
+export interface ShadowComparison {
+  amountUsd: number;
+  midPrice: number;
+  paperPrice: number;
+  paperSlippagePct: number;
+  /** Componentes del modelo: SlippageModel + CompetitionSimulator. */
+  modelSlippagePct: number;
+  modelCompetitionPct: number;
+  modelPriceImpactPct: number;
+  quotedPrice: number;
+  quotedSlippagePct: number;
+  quotedPriceImpactPct: number;
+  quotedFeePct: number;
+  quoteSource: string;
+  routeLabel: string;
+  /** paperSlippagePct - quotedSlippagePct: negativo = paper optimista. */
+  slippageGapPct: number;
+}
+
+/**
+ * ShadowBroker — paper trading con contraste contra una ruta real.
+ *
+ * Cada orden se ejecuta en el PaperBroker (posición y PnL simulados) y
+ * en paralelo se pide una cotización quote-only a un router/agregador.
+ * La comparación viaja en trade.metadata.shadow para que el caller la
+ * persista; si la cotización falla el fill de paper sigue adelante.
+ */
+export class ShadowBroker extends PaperBroker {
+  readonly mode: ExecutionMode = "shadow";
+
+  constructor(
+    riskGate: RiskGate,
+    quoteFetcher: QuoteFetcher,
+    private quoter: RouteQuoter,
+    opts?: PaperBrokerOptions
+  ) {
+    super(riskGate, quoteFetcher, opts);
+  }
+
+  async execute(order: OrderRequest, riskState: RiskState): Promise<BrokerResult> {
+    const result = await super.execute({ ...order, executionMode: this.mode }, riskState);
+    if (!result.executed || !result.fill || !result.trade) return result;
+
+    const fill = result.fill;
+    const amountUsd = fill.entryPrice * fill.quantity;
+
+    try {
+      const route = await this.quoter.quote({
+        tokenAddress: order.tokenAddress,
+        network: order.network,
+        side: order.side,
+        amountUsd,
+      });
+
+      const sign = order.side === "buy" ? 1 : -1;
+      const paperSlippagePct = sign * (fill.entryPrice / route.midPrice - 1);
+      const quotedSlippagePct = sign * (route.expectedPrice / route.midPrice - 1);
+
+      const shadow: ShadowComparison = {
+        amountUsd,
+        midPrice: route.midPrice,
+        paperPrice: fill.entryPrice,
+        paperSlippagePct,
+        modelSlippagePct: fill.slippage,
+        modelCompetitionPct: fill.competitionSlippagePct ?? 0,
+        modelPriceImpactPct: fill.priceImpactPct ?? 0,
+        quotedPrice: route.expectedPrice,
+        quotedSlippagePct,
+        quotedPriceImpactPct: route.priceImpactPct,
+        quotedFeePct: route.feePct,
+        quoteSource: route.source,
+        routeLabel: route.routeLabel,
+        slippageGapPct: paperSlippagePct - quotedSlippagePct,
+      };
+      result.trade.metadata = { ...result.trade.metadata, shadow };
+    } catch (err) {
+      result.trade.metadata = {
+        ...result.trade.metadata,
+        shadowQuoteError: err instanceof Error ? err.message : String(err),
+      };
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,147 @@
+// ============================================================
+// ShadowReportEngine — paper vs quoted execution gap
+// ============================================================
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface ShadowFillRow {
+  network: string;
+  amount_usd: number | null;
+  paper_slippage_pct: number | null;
+  model_competition_pct: number | null;
+  quoted_slippage_pct: number | null;
+  slippage_gap_pct: number | null;
+  quote_liquidity_usd: number | null;
+  created_at: string;
+}
+
+export interface ShadowGapStats {
+  fills: number;
+  avgPaperSlippagePct: number;
+  avgQuotedSlippagePct: number;
+  avgGapPct: number;
+  medianGapPct: number;
+  p90AbsGapPct: number;
+  /** Fracción de fills donde paper salió mejor que la ruta cotizada. */
+  optimisticRate: number;
+}
+
+export interface ShadowReport {
+  days: number;
+  overall: ShadowGapStats;
+  byNetwork: Record<string, ShadowGapStats>;
+  byLiquidity: Record<"lt100k" | "100k_1m" | "gt1m", ShadowGapStats>;
+  avgCompetitionPct: number;
+  trustworthy: boolean;
+  verdict: string;
+  computedAt: Date;
+}
+
+/** |gap medio| y p90 por debajo de estos umbrales → paper fiable. */
+const MAX_AVG_GAP = 0.005;
+const MAX_P90_GAP = 0.02;
+const MIN_FILLS = 20;
+
+/**
+ * ShadowReportEngine — resume shadow_fills para decidir si el modelo de
+ * ejecución del PaperBroker (SlippageModel + CompetitionSimulator) se
+ * parece a lo que cotiza el mercado antes de pasar a live.
+ */
+export class ShadowReportEngine {
+  constructor(private supabase: SupabaseClient) {}
+
+  async compute(userId: string, days = 30): Promise<ShadowReport> {
+    const since = new Date(Date.now() - days * 24 * 3600_000).toISOString();
+
+    const { data } = await this.supabase
+      .from("shadow_fills")
+      .select(
+        "network, amount_usd, paper_slippage_pct, model_competition_pct, quoted_slippage_pct, slippage_gap_pct, quote_liquidity_usd, created_at"
+      )
+      .eq("user_id", userId)
+      .gte("created_at", since)
+      .order("created_at", { ascending: true });
+
+    return buildShadowReport((data ?? []) as ShadowFillRow[], days);
+  }
+}
+
+export function buildShadowReport(rows: ShadowFillRow[], days: number): ShadowReport {
+  const overall = gapStats(rows);
+
+  const byNetwork: Record<string, ShadowGapStats> = {};
+  for (const network of new Set(rows.map((r) => r.network))) {
+    byNetwork[network] = gapStats(rows.filter((r) => r.network === network));
+  }
+
+  const liq = (r: ShadowFillRow) => num(r.quote_liquidity_usd);
+  const byLiquidity = {
+    lt100k: gapStats(rows.filter((r) => liq(r) < 100_000)),
+    "100k_1m": gapStats(rows.filter((r) => liq(r) >= 100_000 && liq(r) < 1_000_000)),
+    gt1m: gapStats(rows.filter((r) => liq(r) >= 1_000_000)),
+  };
+
+  const enough = overall.fills >= MIN_FILLS;
+  const trustworthy =
+    enough &&
+    Math.abs(overall.avgGapPct) <= MAX_AVG_GAP &&
+    overall.p90AbsGapPct <= MAX_P90_GAP;
+
+  let verdict: string;
+  if (!enough) {
+    verdict = `Muestra insuficiente (${overall.fills}/${MIN_FILLS} fills en shadow)`;
+  } else if (trustworthy) {
+    verdict = "El slippage simulado está alineado con las rutas cotizadas";
+  } else if (overall.avgGapPct < 0) {
+    verdict = `Paper es optimista: ${(Math.abs(overall.avgGapPct) * 100).toFixed(2)}% mejor que la ruta de media`;
+  } else {
+    verdict = `Paper es conservador: ${(overall.avgGapPct * 100).toFixed(2)}% peor que la ruta de media`;
+  }
+
+  return {
+    days,
+    overall,
+    byNetwork,
+    byLiquidity,
+    avgCompetitionPct: round(avg(rows.map((r) => num(r.model_competition_pct)))),
+    trustworthy,
+    verdict,
+    computedAt: new Date(),
+  };
+}
+
+// ---- helpers ----
+
+function gapStats(rows: ShadowFillRow[]): ShadowGapStats {
+  const gaps = rows.map((r) => num(r.slippage_gap_pct));
+  const absSorted = gaps.map(Math.abs).sort((a, b) => a - b);
+
+  return {
+    fills: rows.length,
+    avgPaperSlippagePct: round(avg(rows.map((r) => num(r.paper_slippage_pct)))),
+    avgQuotedSlippagePct: round(avg(rows.map((r) => num(r.quoted_slippage_pct)))),
+    avgGapPct: round(avg(gaps)),
+    medianGapPct: round(percentile([...gaps].sort((a, b) => a - b), 0.5)),
+    p90AbsGapPct: round(percentile(absSorted, 0.9)),
+    optimisticRate: rows.length > 0 ? round(gaps.filter((g) => g < 0).length / rows.length) : 0,
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.floor(p * sorted.length));
+  return sorted[idx];
+}
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return isFinite(n) ? n : 0;
+}
+
+function avg(arr: number[]): number {
+  return arr.length > 0 ? arr.reduce((s, v) => s + v, 0) / arr.length : 0;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
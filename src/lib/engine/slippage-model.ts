@@ -2,6 +2,8 @@
 // SlippageModel — AMM constant-product slippage simulation
 // ============================================================
 
+import type { Rng } from "./random";
+
 export interface SlippageEstimate {
   slippagePct: number;
   priceImpactPct: number;
@@ -12,6 +14,7 @@ export interface SlippageEstimate {
 export interface SlippageModelOpts {
   feeRate?: number;
   concentrationFactor?: number;
+  rng?: Rng;
 }
 
 export class SlippageModel {
@@ -27,6 +30,7 @@ export class SlippageModel {
    *
    * `concentrationFactor` > 1 models concentrated liquidity (Uniswap V3)
    * where the same TVL provides deeper order book in the active range.
+   * `rng` replaces Math.random for the execution noise (seeded replays).
    */
   static estimate(
     sizeUsd: number,
@@ -74,9 +78,8 @@ export class SlippageModel {
       const idealPrice = reserveQuote / reserveBase;
       priceImpactPct = Math.max(0, (effectivePrice - idealPrice) / idealPrice);
     } else {
-      const tokenAmount = sizeUsd / currentPrice;
-      const tokenIn = tokenAmount * (1 - fee);
-      const newReserveBase = reserveBase + tokenIn;
+      // Reservas en USD al precio actual: el token vendido entra por su valor
+      const newReserveBase = reserveBase + amountIn;
       const newReserveQuote = k / newReserveBase;
       const quoteOut = reserveQuote - newReserveQuote;
       if (quoteOut <= 0) {
@@ -87,11 +90,13 @@ export class SlippageModel {
           depthScore: 1,
         };
       }
-      effectivePrice = quoteOut / tokenAmount;
-      priceImpactPct = Math.max(0, (currentPrice - effectivePrice) / currentPrice);
+      const fillRatio = quoteOut / amountIn;
+      effectivePrice = currentPrice * fillRatio;
+      priceImpactPct = Math.max(0, 1 - fillRatio);
     }
 
-    const noise = (Math.random() - 0.3) * 0.001 * (1 + depthScore);
+    const rand = opts?.rng ?? Math.random;
+    const noise = (rand() - 0.3) * 0.001 * (1 + depthScore);
     const slippagePct = Math.max(0.0001, priceImpactPct + fee + noise);
 
     return {
@@ -101,4 +106,15 @@ export class SlippageModel {
       depthScore,
     };
   }
+
+  /**
+   * Spread estimado en % (0.05–10) a partir de la liquidez del pool;
+   * sin volumen el libro está más abierto. Es el `spreadPct` de los
+   * quotes de DexScreener y el que pagan las salidas simuladas.
+   */
+  static estimateSpreadPct(liquidityUsd: number, volume24h: number): number {
+    if (liquidityUsd <= 0) return 5;
+    const spreadPct = Math.max(0.05, (1 / Math.sqrt(liquidityUsd / 1000)) * 100 * (volume24h > 0 ? 0.9 : 1.1));
+    return Math.min(spreadPct, 10);
+  }
 }
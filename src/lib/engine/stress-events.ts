@@ -2,6 +2,8 @@
 // StressEventSimulator — black swan / tail risk simulation
 // ============================================================
 
+import type { Rng } from "./random";
+
 export type StressEventType =
   | "liquidity_rug"
   | "flash_crash"
@@ -77,11 +79,15 @@ export class StressEventSimulator {
   /**
    * Roll dice for each cycle — returns an event if one triggers.
    * Probability scales with pool risk (low liquidity, young pair, early layer).
+   * `cycles` covers a longer (or shorter) exposure window than one cycle,
+   * e.g. the time a position was held since its last roll.
    */
   static rollForEvent(
     liquidityUsd: number,
     pairAgeHours: number,
-    layer: "core" | "satellite"
+    layer: "core" | "satellite",
+    rng: Rng = Math.random,
+    cycles = 1
   ): StressEvent {
     const liqRisk = liquidityUsd < 50_000 ? 2.0 : liquidityUsd < 200_000 ? 1.3 : 1.0;
     const ageRisk = pairAgeHours < 24 ? 2.5 : pairAgeHours < 72 ? 1.5 : 1.0;
@@ -89,14 +95,16 @@ export class StressEventSimulator {
     const multiplier = liqRisk * ageRisk * layerRisk;
 
     for (const [type, profile] of Object.entries(EVENT_PROFILES)) {
-      const prob = profile.baseProbPerCycle * multiplier;
-      if (Math.random() < prob) {
+      const perCycle = Math.min(1, profile.baseProbPerCycle * multiplier);
+      const prob = cycles === 1 ? perCycle : 1 - Math.pow(1 - perCycle, cycles);
+      if (rng() < prob) {
         const severity =
           profile.minSeverity +
-          Math.random() * (profile.maxSeverity - profile.minSeverity);
+          rng() * (profile.maxSeverity - profile.minSeverity);
         return StressEventSimulator.buildEvent(
           type as Exclude<StressEventType, "none">,
-          severity
+          severity,
+          rng
         );
       }
     }
@@ -150,7 +158,8 @@ export class StressEventSimulator {
 
   private static buildEvent(
     type: Exclude<StressEventType, "none">,
-    severity: number
+    severity: number,
+    rng: Rng = Math.random
   ): StressEvent {
     switch (type) {
       case "liquidity_rug":
@@ -190,7 +199,7 @@ export class StressEventSimulator {
           type,
           severity,
           liquidityImpactPct: 0,
-          priceImpactPct: -(0.1 + severity * 0.4) * (Math.random() > 0.5 ? 1 : -1),
+          priceImpactPct: -(0.1 + severity * 0.4) * (rng() > 0.5 ? 1 : -1),
           description: `Oracle failure (${(severity * 100).toFixed(0)}% severity): stale/manipulated price feed`,
         };
     }
@@ -0,0 +1,163 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OnChainSwapBroker } from "./swap-broker";
+import type { QuoteFetcher } from "./paper-broker";
+import { RiskGate } from "./risk-gate";
+import type { ExitOrder, OrderRequest, PendingOrder, RiskState } from "./types";
+import { MockChainRpc } from "../chain/mock-chain";
+import type { MockChainOptions } from "../chain/mock-chain";
+import { MockSigner } from "../chain/signer";
+import { EVM_NETWORKS } from "../chain/networks";
+import { toUnits } from "../chain/abi";
+
+const NETWORK = "base";
+const TOKEN = "0x00000000000000000000000000000000000be001";
+const USDC = EVM_NETWORKS[NETWORK].quoteToken;
+const WETH = EVM_NETWORKS[NETWORK].wrappedNative;
+const WALLET = "0x000000000000000000000000000000000000c7ec";
+
+test("la compra aprueba USDC, va por el salto WETH y la venta devuelve USDC", async () => {
+  const { broker, chain } = setup({ wrappedNativePoolsOnly: true });
+  const usdcBefore = chain.balanceOf(NETWORK, USDC, WALLET);
+
+  const first = await broker.execute(buyOrder(500), riskState());
+  assert.equal(first.executed, true, first.reason ?? "");
+  assert.deepEqual(first.trade!.metadata!.swapPath, [USDC, WETH, TOKEN]);
+  assert.equal(chain.balanceOf(NETWORK, USDC, WALLET), usdcBefore - toUnits(500, 6));
+  assert.equal(chain.balanceOf(NETWORK, TOKEN, WALLET), toUnits(first.trade!.quantity, 18));
+  assert.ok(first.fill!.entryPrice > 0.5, "la entrada paga comisión e impacto");
+
+  // El approve es infinito: la segunda compra solo paga el gas del swap
+  const second = await broker.execute(buyOrder(500), riskState());
+  assert.equal(second.executed, true);
+  assert.ok(Math.abs(first.fill!.gasCost - 2 * second.fill!.gasCost) < 1e-9);
+
+  const quantity = first.trade!.quantity;
+  const fill = await broker.executeExit(exitOrder(quantity));
+  assert.equal(fill.success, true, fill.error);
+  assert.equal(fill.quantity, quantity);
+  assert.ok(fill.exitPrice > 0 && fill.exitPrice < 0.5, `${fill.exitPrice}`);
+  assert.ok(fill.txHash?.startsWith("0x"));
+  assert.equal(chain.balanceOf(NETWORK, TOKEN, WALLET), toUnits(second.trade!.quantity, 18));
+});
+
+test("un swap que revierte o sin ruta se rechaza sin mover saldos", async () => {
+  // La cadena cotiza el token más caro que la referencia: no llega a amountOutMin
+  const { broker, chain } = setup({}, { [TOKEN.toLowerCase()]: 0.6 });
+  const usdcBefore = chain.balanceOf(NETWORK, USDC, WALLET);
+
+  const reverted = await broker.execute(buyOrder(500), riskState());
+  assert.equal(reverted.executed, false);
+  assert.match(reverted.reason!, /revertido/);
+  assert.equal(chain.balanceOf(NETWORK, USDC, WALLET), usdcBefore);
+  assert.equal(chain.balanceOf(NETWORK, TOKEN, WALLET), BigInt(0));
+
+  const noPool = setup({}, { [TOKEN.toLowerCase()]: 0 });
+  const noRoute = await noPool.broker.execute(buyOrder(500), riskState());
+  assert.equal(noRoute.executed, false);
+  assert.match(noRoute.reason!, /Sin ruta/);
+});
+
+test("un swap sin receipt a tiempo queda pendiente con su tx hash y se resuelve al minarse", async () => {
+  const { broker, chain, clock } = setup();
+  // Compra y venta confirmadas para que los approve ya estén hechos
+  const warmup = await broker.execute(buyOrder(500), riskState());
+  assert.equal((await broker.executeExit(exitOrder(warmup.trade!.quantity))).success, true);
+
+  chain.holdReceipts = true;
+  const entry = await broker.execute(buyOrder(250), riskState());
+  assert.equal(entry.executed, true);
+  const pending = entry.trade!.metadata!.pendingOrder as PendingOrder;
+  assert.equal(pending.orderId, entry.trade!.txHash);
+  assert.equal(pending.side, "buy");
+  assert.equal(pending.quoteAmount, 250);
+  assert.equal(await broker.resolveOrder(pending), null);
+
+  chain.mine();
+  const bought = await broker.resolveOrder(pending);
+  assert.ok(bought && bought.quantity > 0);
+  assert.equal(bought.txHash, pending.orderId);
+  assert.ok(Math.abs(bought.price * bought.quantity - 250) < 1e-6);
+
+  const exit = await broker.executeExit(exitOrder(bought.quantity));
+  assert.equal(exit.success, false);
+  assert.equal(exit.pendingOrder?.side, "sell");
+  chain.mine();
+  const sold = await broker.resolveOrder(exit.pendingOrder!);
+  assert.equal(sold?.quantity, bought.quantity);
+  assert.ok(sold!.price > 0 && sold!.price < 0.5);
+
+  // Pasado el deadline del swap sin receipt ya no puede ejecutarse
+  const lost: PendingOrder = { ...pending, orderId: "0x" + "ab".repeat(32) };
+  assert.equal(await broker.resolveOrder(lost), null);
+  clock.now += 60 * 60_000;
+  assert.equal((await broker.resolveOrder(lost))?.quantity, 0);
+});
+
+// ---- helpers ----
+
+function setup(opts: MockChainOptions = {}, chainPrices: Record<string, number> = {}) {
+  const clock = { now: Date.parse("2026-03-02T12:00:00Z") };
+  const prices: Record<string, number> = { [WETH.toLowerCase()]: 3000, [TOKEN.toLowerCase()]: 0.5 };
+  const chain = new MockChainRpc(quotes({ ...prices, ...chainPrices }), { ...opts, clock: () => clock.now });
+  const broker = new OnChainSwapBroker(new RiskGate(), quotes(prices), new MockSigner(WALLET), chain, {
+    clock: () => clock.now,
+  });
+  return { broker, chain, clock };
+}
+
+function quotes(prices: Record<string, number>): QuoteFetcher {
+  return {
+    getQuote: async (tokenAddress: string, network: string) => ({
+      symbol: "TKN",
+      tokenAddress,
+      network,
+      price: prices[tokenAddress.toLowerCase()] ?? 0,
+      liquidityUsd: 2_000_000,
+      spreadPct: 0,
+      timestamp: new Date(),
+    }),
+  } as unknown as QuoteFetcher;
+}
+
+function riskState(): RiskState {
+  return {
+    capital: 100_000,
+    pnlToday: 0,
+    pnlThisWeek: 0,
+    tradesTodayCore: 0,
+    tradesTodaySatellite: 0,
+    consecutiveLossesSatellite: 0,
+    isPaused: false,
+    pauseReason: null,
+    pauseUntil: null,
+  };
+}
+
+function buyOrder(amountUsd: number): OrderRequest {
+  return {
+    userId: "user-1",
+    symbol: "TKN",
+    tokenAddress: TOKEN,
+    network: NETWORK,
+    side: "buy",
+    amountUsd,
+    layer: "core",
+    executionMode: "live",
+    entryReason: "test",
+  } as OrderRequest;
+}
+
+function exitOrder(quantity: number): ExitOrder {
+  return {
+    tradeId: "trade-1",
+    userId: "user-1",
+    symbol: "TKN",
+    tokenAddress: TOKEN,
+    network: NETWORK,
+    positionSide: "buy",
+    quantity,
+    expectedPrice: 0.5,
+    reason: "test",
+  };
+}
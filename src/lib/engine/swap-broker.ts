@@ -0,0 +1,540 @@
+import type {
+  Broker,
+  BrokerResult,
+  ExecutionMode,
+  ExitFill,
+  ExitOrder,
+  FillResult,
+  OrderRequest,
+  OrderResolution,
+  PendingOrder,
+  PriceQuote,
+  RiskState,
+  TradeRecord,
+} from "./types";
+import type { RiskGate } from "./risk-gate";
+import type { QuoteFetcher } from "./paper-broker";
+import type { Clock } from "./clock";
+import { systemClock } from "./clock";
+import type { ChainRpc, TxReceipt, TxSigner } from "../chain/types";
+import type { EvmNetworkConfig } from "../chain/networks";
+import { getEvmNetwork } from "../chain/networks";
+import {
+  MAX_UINT256,
+  TRANSFER_TOPIC,
+  addressWord,
+  decodeUint,
+  decodeUintArray,
+  encodeAllowance,
+  encodeApprove,
+  encodeDecimals,
+  encodeGetAmountsOut,
+  encodeSwapExactTokensForTokens,
+  fromUnits,
+  toUnits,
+} from "../chain/abi";
+
+export interface SwapBrokerOptions {
+  /** Slippage máximo aceptado frente a la cotización (0.03 = 3%). */
+  maxSlippagePct?: number;
+  deadlineSec?: number;
+  /**
+   * Espera máxima del receipt dentro del ciclo. Corta a propósito: el cron
+   * tiene maxDuration 60 s; lo que no se mine a tiempo queda pendiente.
+   */
+  receiptTimeoutMs?: number;
+  clock?: Clock;
+}
+
+interface SwapOutcome {
+  receipt: TxReceipt;
+  amountOut: bigint;
+  gasCostUsd: number;
+  latencyMs: number;
+  path: string[];
+}
+
+/** El swap se envió pero su receipt no llegó a tiempo: queda pendiente. */
+class SwapPendingError extends Error {
+  constructor(readonly pending: PendingOrder, cause: unknown) {
+    super(`Swap ${pending.orderId} enviado sin confirmar: ${errMsg(cause)}`);
+    this.name = "SwapPendingError";
+  }
+}
+
+/** Margen sobre el deadline del swap antes de dar por perdida una tx sin minar. */
+const PENDING_TX_GRACE_MS = 10 * 60_000;
+
+/**
+ * OnChainSwapBroker — ejecución real de swaps en DEX (routers Uniswap V2).
+ *
+ * Flujo de entrada:
+ *  1. RiskGate.evaluate()      → mismo gate que el PaperBroker
+ *  2. fetchQuote()             → precio de referencia y amountOutMin
+ *  3. ruta                     → getAmountsOut del router para USDC → token
+ *                                y USDC → nativo envuelto → token; la que
+ *                                más devuelva (los memecoins suelen tener
+ *                                pool solo contra WETH)
+ *  4. approve (si hace falta)  → USDC al router
+ *  5. build + sign + submit    → vía TxSigner y ChainRpc
+ *  6. receipt                  → cantidad real recibida (logs Transfer),
+ *                                gas real y tx hash
+ *
+ * Las salidas hacen el swap inverso (token → USDC). Si el swap se envía
+ * pero el receipt no llega en `receiptTimeoutMs`, no se da por rechazado:
+ * la entrada se registra provisional con `metadata.pendingOrder` (el tx
+ * hash) y la salida devuelve `pendingOrder`; `resolveOrder` las cierra
+ * con el receipt en un ciclo posterior, como en el CexSpotBroker.
+ * Con MockSigner + MockChainRpc todo el flujo corre en local sin fondos.
+ */
+export class OnChainSwapBroker implements Broker {
+  readonly mode: ExecutionMode = "live";
+  /** Un swap spot no puede abrir cortos: solo compra y vende tokens en cartera. */
+  readonly supportsShort = false;
+  private maxSlippagePct: number;
+  private deadlineSec: number;
+  private receiptTimeoutMs: number;
+  private clock: Clock;
+  private decimalsCache = new Map<string, number>();
+
+  constructor(
+    private riskGate: RiskGate,
+    private quoteFetcher: QuoteFetcher,
+    private signer: TxSigner,
+    private rpc: ChainRpc,
+    opts?: SwapBrokerOptions
+  ) {
+    this.maxSlippagePct = opts?.maxSlippagePct ?? 0.03;
+    this.deadlineSec = opts?.deadlineSec ?? 120;
+    this.receiptTimeoutMs = opts?.receiptTimeoutMs ?? 20_000;
+    this.clock = opts?.clock ?? systemClock;
+  }
+
+  async execute(order: OrderRequest, riskState: RiskState): Promise<BrokerResult> {
+    const verdict = this.riskGate.evaluate(riskState, order.layer);
+    if (!verdict.allowed) {
+      return rejected(verdict.reason!);
+    }
+
+    const positionUsd = Math.min(order.amountUsd, verdict.maxPositionUsd);
+    if (positionUsd <= 0) {
+      return rejected("Tamaño de posición <= 0 tras ajuste de riesgo");
+    }
+
+    if (order.side !== "buy") {
+      return rejected("El broker on-chain solo abre posiciones long");
+    }
+
+    const net = getEvmNetwork(order.network);
+    if (!net) {
+      return rejected(`Red ${order.network} no soportada por el broker on-chain`);
+    }
+
+    let quote: PriceQuote;
+    try {
+      quote = await this.quoteFetcher.getQuote(order.tokenAddress, order.network);
+    } catch (err) {
+      return rejected(`Error obteniendo precio: ${errMsg(err)}`);
+    }
+    if (quote.price <= 0) {
+      return rejected(`Precio inválido para ${order.symbol}: ${quote.price}`);
+    }
+
+    let outcome: SwapOutcome;
+    let tokenDecimals: number;
+    try {
+      tokenDecimals = await this.decimals(order.network, order.tokenAddress);
+      const expectedOut = positionUsd / quote.price;
+      outcome = await this.swap(
+        order.network,
+        net,
+        net.quoteToken,
+        order.tokenAddress,
+        toUnits(positionUsd, net.quoteTokenDecimals),
+        toUnits(expectedOut * (1 - this.maxSlippagePct), tokenDecimals),
+        { symbol: order.symbol, side: "buy", quoteAmount: positionUsd }
+      );
+    } catch (err) {
+      if (err instanceof SwapPendingError) {
+        return this.pendingEntry(order, positionUsd, quote, err);
+      }
+      return rejected(`Error en swap: ${errMsg(err)}`);
+    }
+
+    if (outcome.receipt.status !== "success") {
+      return rejected(`Swap revertido (tx ${outcome.receipt.txHash})`);
+    }
+
+    const quantity = fromUnits(outcome.amountOut, tokenDecimals);
+    if (quantity <= 0) {
+      return rejected(`Swap sin tokens recibidos (tx ${outcome.receipt.txHash})`);
+    }
+
+    const entryPrice = positionUsd / quantity;
+    const slippage = entryPrice / quote.price - 1;
+
+    const fill: FillResult = {
+      success: true,
+      entryPrice,
+      quantity,
+      slippage,
+      gasCost: outcome.gasCostUsd,
+      latencyMs: outcome.latencyMs,
+      fillTimestamp: new Date(this.clock()),
+      txHash: outcome.receipt.txHash,
+    };
+
+    const trade: TradeRecord = {
+      userId: order.userId,
+      signalId: order.signalId,
+      symbol: order.symbol,
+      side: order.side,
+      status: "open",
+      quantity,
+      entryPrice,
+      feesAbs: outcome.gasCostUsd,
+      executionMode: this.mode,
+      layer: order.layer,
+      latencyMs: outcome.latencyMs,
+      entryReason: order.entryReason,
+      walletMovementId: order.walletMovementId,
+      tokenHealthScoreAtEntry: order.tokenHealthScoreAtEntry,
+      walletScoreAtEntry: order.walletScoreAtEntry,
+      txHash: outcome.receipt.txHash,
+      metadata: {
+        ...order.metadata,
+        swapBroker: true,
+        quotePrice: quote.price,
+        quoteLiquidity: quote.liquidityUsd,
+        realizedSlippage: slippage,
+        blockNumber: outcome.receipt.blockNumber,
+        router: net.router,
+        swapPath: outcome.path,
+      },
+    };
+
+    return { executed: true, reason: null, fill, trade };
+  }
+
+  async executeExit(order: ExitOrder): Promise<ExitFill> {
+    const failed = (error: string): ExitFill => ({
+      success: false,
+      exitPrice: order.expectedPrice,
+      quantity: order.quantity,
+      feesAbs: 0,
+      error,
+    });
+
+    if (order.positionSide !== "buy") return failed("Solo se pueden cerrar posiciones long");
+
+    const net = getEvmNetwork(order.network);
+    if (!net) return failed(`Red ${order.network} no soportada por el broker on-chain`);
+
+    try {
+      const tokenDecimals = await this.decimals(order.network, order.tokenAddress);
+      const expectedUsd = order.quantity * order.expectedPrice;
+      const outcome = await this.swap(
+        order.network,
+        net,
+        order.tokenAddress,
+        net.quoteToken,
+        toUnits(order.quantity, tokenDecimals),
+        toUnits(expectedUsd * (1 - this.maxSlippagePct), net.quoteTokenDecimals),
+        { symbol: order.symbol, side: "sell", quantity: order.quantity }
+      );
+
+      if (outcome.receipt.status !== "success") {
+        return failed(`Swap de salida revertido (tx ${outcome.receipt.txHash})`);
+      }
+
+      const usdOut = fromUnits(outcome.amountOut, net.quoteTokenDecimals);
+      return {
+        success: true,
+        exitPrice: order.quantity > 0 ? usdOut / order.quantity : order.expectedPrice,
+        quantity: order.quantity,
+        feesAbs: outcome.gasCostUsd,
+        txHash: outcome.receipt.txHash,
+      };
+    } catch (err) {
+      if (err instanceof SwapPendingError) {
+        return { ...failed(err.message), pendingOrder: err.pending };
+      }
+      return failed(`Error en swap de salida: ${errMsg(err)}`);
+    }
+  }
+
+  /**
+   * Estado final de un swap que quedó pendiente, a partir de su receipt:
+   * revertido cuenta como no ejecutado. null mientras no esté minado; pasado
+   * el deadline del swap (más margen) sin receipt ya no puede ejecutarse y
+   * también cuenta como no ejecutado.
+   */
+  async resolveOrder(pending: PendingOrder): Promise<OrderResolution | null> {
+    const net = getEvmNetwork(pending.network);
+    if (!net) return null;
+
+    try {
+      const receipt = await this.rpc.getTransactionReceipt(pending.network, pending.orderId);
+      if (!receipt) {
+        const age = this.clock() - Date.parse(pending.placedAt);
+        return age > this.deadlineSec * 1000 + PENDING_TX_GRACE_MS
+          ? { quantity: 0, price: 0, feesAbs: 0, txHash: pending.orderId }
+          : null;
+      }
+
+      const feesAbs = await this.gasUsd(pending.network, net, receipt);
+      if (receipt.status !== "success") {
+        return { quantity: 0, price: 0, feesAbs, txHash: receipt.txHash };
+      }
+
+      const from = await this.signer.getAddress();
+      const tokenDecimals = await this.decimals(pending.network, pending.tokenAddress);
+      if (pending.side === "buy") {
+        const quantity = fromUnits(receivedAmount(receipt, pending.tokenAddress, from), tokenDecimals);
+        return {
+          quantity,
+          price: quantity > 0 ? (pending.quoteAmount ?? 0) / quantity : 0,
+          feesAbs,
+          txHash: receipt.txHash,
+        };
+      }
+
+      const quantity = pending.quantity ?? 0;
+      const usdOut = fromUnits(receivedAmount(receipt, net.quoteToken, from), net.quoteTokenDecimals);
+      return {
+        quantity: usdOut > 0 ? quantity : 0,
+        price: quantity > 0 ? usdOut / quantity : 0,
+        feesAbs,
+        txHash: receipt.txHash,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Entrada cuyo swap se envió sin receipt a tiempo: se registra abierta con
+   * la cantidad estimada a la cotización y el tx hash en
+   * `metadata.pendingOrder`, para que el PositionManager la resuelva y no
+   * quede en la wallet un saldo sin trade.
+   */
+  private pendingEntry(
+    order: OrderRequest,
+    positionUsd: number,
+    quote: PriceQuote,
+    err: SwapPendingError
+  ): BrokerResult {
+    const quantity = positionUsd / quote.price;
+    const txHash = err.pending.orderId;
+
+    const fill: FillResult = {
+      success: true,
+      entryPrice: quote.price,
+      quantity,
+      slippage: 0,
+      gasCost: 0,
+      latencyMs: 0,
+      fillTimestamp: new Date(this.clock()),
+      txHash,
+    };
+
+    const trade: TradeRecord = {
+      userId: order.userId,
+      signalId: order.signalId,
+      symbol: order.symbol,
+      side: order.side,
+      status: "open",
+      quantity,
+      entryPrice: quote.price,
+      feesAbs: 0,
+      executionMode: this.mode,
+      layer: order.layer,
+      latencyMs: 0,
+      entryReason: order.entryReason,
+      walletMovementId: order.walletMovementId,
+      tokenHealthScoreAtEntry: order.tokenHealthScoreAtEntry,
+      walletScoreAtEntry: order.walletScoreAtEntry,
+      txHash,
+      metadata: {
+        ...order.metadata,
+        swapBroker: true,
+        quotePrice: quote.price,
+        quoteLiquidity: quote.liquidityUsd,
+        orderStatus: "unknown",
+        orderError: err.message,
+        requestedUsd: positionUsd,
+        pendingOrder: err.pending,
+      },
+    };
+
+    return { executed: true, reason: null, fill, trade };
+  }
+
+  private async swap(
+    network: string,
+    net: EvmNetworkConfig,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    amountOutMin: bigint,
+    order: Pick<PendingOrder, "symbol" | "side" | "quantity" | "quoteAmount">
+  ): Promise<SwapOutcome> {
+    const startedAt = this.clock();
+    const from = await this.signer.getAddress();
+    let gasCostUsd = 0;
+
+    const path = await this.bestPath(network, net, tokenIn, tokenOut, amountIn);
+
+    const allowance = decodeUint(
+      await this.rpc.call(network, tokenIn, encodeAllowance(from, net.router))
+    );
+    if (allowance < amountIn) {
+      const approval = await this.send(network, net, from, tokenIn, encodeApprove(net.router, MAX_UINT256));
+      if (approval.status !== "success") {
+        throw new Error(`approve revertido (tx ${approval.txHash})`);
+      }
+      gasCostUsd += await this.gasUsd(network, net, approval);
+    }
+
+    const deadline = BigInt(Math.floor(this.clock() / 1000) + this.deadlineSec);
+    const data = encodeSwapExactTokensForTokens({
+      amountIn,
+      amountOutMin,
+      path,
+      to: from,
+      deadline,
+    });
+
+    const receipt = await this.send(network, net, from, net.router, data, {
+      ...order,
+      tokenAddress: order.side === "buy" ? tokenOut : tokenIn,
+      network,
+      placedAt: new Date(startedAt).toISOString(),
+    });
+    gasCostUsd += await this.gasUsd(network, net, receipt);
+
+    return {
+      receipt,
+      amountOut: receivedAmount(receipt, tokenOut, from),
+      gasCostUsd,
+      latencyMs: Math.max(0, this.clock() - startedAt),
+      path,
+    };
+  }
+
+  /**
+   * Ruta con más salida según el router: directa o con salto por el nativo
+   * envuelto. Lanza si el router no tiene ninguna (getAmountsOut revierte).
+   */
+  private async bestPath(
+    network: string,
+    net: EvmNetworkConfig,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint
+  ): Promise<string[]> {
+    const native = net.wrappedNative.toLowerCase();
+    const candidates = [[tokenIn, tokenOut]];
+    if (tokenIn.toLowerCase() !== native && tokenOut.toLowerCase() !== native) {
+      candidates.push([tokenIn, net.wrappedNative, tokenOut]);
+    }
+
+    let best: { path: string[]; amountOut: bigint } | null = null;
+    for (const path of candidates) {
+      try {
+        const amounts = decodeUintArray(
+          await this.rpc.call(network, net.router, encodeGetAmountsOut(amountIn, path))
+        );
+        const amountOut = amounts[amounts.length - 1] ?? BigInt(0);
+        if (!best || amountOut > best.amountOut) best = { path, amountOut };
+      } catch { /* sin pool para esa ruta */ }
+    }
+
+    if (!best || best.amountOut <= BigInt(0)) {
+      throw new Error(`Sin ruta en el router para ${tokenIn} → ${tokenOut}`);
+    }
+    return best.path;
+  }
+
+  private async send(
+    network: string,
+    net: EvmNetworkConfig,
+    from: string,
+    to: string,
+    data: string,
+    pending?: Omit<PendingOrder, "orderId">
+  ): Promise<TxReceipt> {
+    const value = BigInt(0);
+    const [nonce, fees, gasEstimate] = await Promise.all([
+      this.rpc.getTransactionCount(network, from),
+      this.rpc.getFeeData(network),
+      this.rpc.estimateGas(network, { from, to, data, value }),
+    ]);
+
+    const rawTx = await this.signer.signTransaction({
+      chainId: net.chainId,
+      from,
+      to,
+      data,
+      value,
+      nonce,
+      // +20% de margen sobre la estimación
+      gasLimit: (gasEstimate * BigInt(12)) / BigInt(10),
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+
+    const txHash = await this.rpc.sendRawTransaction(network, rawTx);
+    try {
+      return await this.rpc.waitForReceipt(network, txHash, this.receiptTimeoutMs);
+    } catch (err) {
+      // Enviada: puede minarse después, así que no se pierde el hash
+      if (pending) throw new SwapPendingError({ ...pending, orderId: txHash }, err);
+      throw err;
+    }
+  }
+
+  /** Coste del gas en USD usando el precio del token nativo envuelto. */
+  private async gasUsd(network: string, net: EvmNetworkConfig, receipt: TxReceipt): Promise<number> {
+    const nativeSpent = fromUnits(receipt.gasUsed * receipt.effectiveGasPrice, 18);
+    try {
+      const native = await this.quoteFetcher.getQuote(net.wrappedNative, network);
+      return nativeSpent * native.price;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async decimals(network: string, token: string): Promise<number> {
+    const key = `${network}:${token.toLowerCase()}`;
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const value = Number(decodeUint(await this.rpc.call(network, token, encodeDecimals())));
+    this.decimalsCache.set(key, value);
+    return value;
+  }
+}
+
+// ---- helpers ----
+
+/** Suma los Transfer del token de salida hacia la wallet en el receipt. */
+function receivedAmount(receipt: TxReceipt, token: string, recipient: string): bigint {
+  const recipientTopic = "0x" + addressWord(recipient);
+  let total = BigInt(0);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== token.toLowerCase()) continue;
+    if (log.topics[0] !== TRANSFER_TOPIC) continue;
+    if (log.topics[2]?.toLowerCase() !== recipientTopic) continue;
+    total += decodeUint(log.data);
+  }
+  return total;
+}
+
+function rejected(reason: string): BrokerResult {
+  return { executed: false, reason, fill: null, trade: null };
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -5,7 +5,8 @@
 export type ExecutionMode = "paper" | "live" | "shadow";
 export type Layer = "core" | "satellite";
 export type TradeSide = "buy" | "sell";
-export type TradeStatus = "open" | "closed" | "cancelled" | "failed";
+/** `opening` = fila reservada por el orquestador mientras se ejecuta la entrada. */
+export type TradeStatus = "opening" | "open" | "closed" | "cancelled" | "failed";
 export type MarketRegime = "risk_on" | "risk_off" | "neutral";
 export type WalletCategory =
   | "alpha"
@@ -24,6 +25,18 @@ export interface RiskConfig {
   maxWeeklyLossPct: number;      // ej. 0.06 = 6%
   satelliteConsecLossLimit: number; // 3 pérdidas seguidas → pausa satellite
   satelliteCooldownMs: number;     // 24h en ms
+  /** Tope de capital en posiciones abiertas por red (fracción del capital). */
+  maxNetworkExposurePct: Record<string, number>;
+  /** Tope para redes sin entrada en maxNetworkExposurePct. */
+  defaultNetworkExposurePct: number;
+  /** Tope de capital en posiciones abiertas en total (fracción del capital). */
+  maxTotalExposurePct: number;
+  /** Tope de capital abierto en un mismo token. */
+  maxTokenExposurePct: number;
+  /** Tope de capital abierto por fuente de señal (momentum, early, distribution...). */
+  maxSourceExposurePct: number;
+  /** Máximo de posiciones del mismo lado abiertas en el mismo régimen (se mueven juntas). */
+  maxCorrelatedPositions: number;
 }
 
 export interface LayerRiskConfig {
@@ -44,6 +57,18 @@ export const DEFAULT_RISK_CONFIG: RiskConfig = {
   maxWeeklyLossPct: 0.06,
   satelliteConsecLossLimit: 3,
   satelliteCooldownMs: 24 * 60 * 60 * 1000,
+  maxNetworkExposurePct: {
+    solana: 0.05,
+    base: 0.03,
+    arbitrum: 0.03,
+    ethereum: 0.03,
+    bsc: 0.02,
+  },
+  defaultNetworkExposurePct: 0.02,
+  maxTotalExposurePct: 0.12,
+  maxTokenExposurePct: 0.01,
+  maxSourceExposurePct: 0.08,
+  maxCorrelatedPositions: 6,
 };
 
 export interface RiskState {
@@ -58,6 +83,23 @@ export interface RiskState {
   pauseUntil: Date | null;
 }
 
+/** Posición abierta tal como la ve el RiskGate (USD a precio de entrada). */
+export interface ExposurePosition {
+  tokenAddress: string;
+  network: string;
+  signalSource: string;
+  side: TradeSide;
+  /** Régimen de mercado al abrir; null en trades antiguos. */
+  regime: string | null;
+  usd: number;
+}
+
+/** Cartera abierta y la entrada candidata, para los límites de exposición. */
+export interface PortfolioExposure {
+  candidate: Omit<ExposurePosition, "usd">;
+  openPositions: ExposurePosition[];
+}
+
 export interface RiskVerdict {
   allowed: boolean;
   reason: string | null;
@@ -99,6 +141,7 @@ export interface FillResult {
   competitionSlippagePct?: number;
   noisePct?: number;
   stressEventType?: string;
+  txHash?: string;
 }
 
 export interface TradeRecord {
@@ -125,9 +168,116 @@ export interface TradeRecord {
   walletMovementId?: string;
   tokenHealthScoreAtEntry?: number;
   walletScoreAtEntry?: number;
+  txHash?: string;
+  /** Conexión de exchange si la posición se abrió en un CEX. */
+  exchangeConnectionId?: string;
   metadata?: Record<string, unknown>;
 }
 
+// --------------- Brokers ---------------
+
+export interface BrokerResult {
+  executed: boolean;
+  reason: string | null;
+  fill: FillResult | null;
+  trade: TradeRecord | null;
+}
+
+/** Orden de salida (total o parcial) de una posición abierta. */
+export interface ExitOrder {
+  tradeId: string;
+  userId: string;
+  symbol: string;
+  tokenAddress: string;
+  network: string;
+  /** Lado de la posición abierta; la salida opera en el lado contrario. */
+  positionSide: TradeSide;
+  quantity: number;
+  /** Precio observado al decidir la salida. */
+  expectedPrice: number;
+  reason: string;
+  /** Conexión de exchange de la posición; sin ella la salida es on-chain. */
+  exchangeConnectionId?: string | null;
+  /**
+   * Liquidez y volumen observados al decidir la salida (en paper, ya con
+   * el shock de stress events). Paper simula el fill contra ellos.
+   */
+  liquidityUsd?: number;
+  volume24h?: number;
+  /** Spread observado en %; sin él paper lo estima con liquidityUsd y volume24h. */
+  spreadPct?: number;
+}
+
+export interface ExitFill {
+  success: boolean;
+  exitPrice: number;
+  quantity: number;
+  feesAbs: number;
+  txHash?: string;
+  error?: string;
+  /**
+   * Lo que quedó sin vender está por debajo del mínimo/step del venue y
+   * no se puede vender: la salida cuenta como completa.
+   */
+  remainderIsDust?: boolean;
+  /** Orden enviada cuyo resultado no se pudo confirmar (con success false). */
+  pendingOrder?: PendingOrder;
+  /** Desglose del fill simulado (paper/shadow), como en FillResult. */
+  slippage?: number;
+  latencyMs?: number;
+  priceImpactPct?: number;
+  wasFrontrun?: boolean;
+  wasBackrun?: boolean;
+  competitionSlippagePct?: number;
+  noisePct?: number;
+}
+
+/**
+ * Orden aceptada por el venue cuyo resultado no se pudo confirmar (p. ej.
+ * falló el polling tras enviarla). Se guarda en la metadata del trade
+ * (`pendingOrder` en entradas, `pendingExit` en salidas) y se resuelve en
+ * el siguiente ciclo con `Broker.resolveOrder`, sin volver a enviarla.
+ */
+export interface PendingOrder {
+  orderId: string;
+  /** Par en el venue. */
+  symbol: string;
+  side: TradeSide;
+  tokenAddress: string;
+  network: string;
+  /** Cantidad pedida (ventas) o importe en quote (compras). */
+  quantity?: number;
+  quoteAmount?: number;
+  exchangeConnectionId?: string | null;
+  placedAt: string;
+}
+
+/** Resultado final de una PendingOrder. */
+export interface OrderResolution {
+  /** Cantidad ejecutada (compras: neta de comisión en base); 0 si no se llenó. */
+  quantity: number;
+  price: number;
+  feesAbs: number;
+  txHash: string;
+  /** Ventas: lo que quedó sin vender es polvo (ver ExitFill). */
+  remainderIsDust?: boolean;
+}
+
+/**
+ * Broker — ejecuta entradas y salidas para un ExecutionMode.
+ * PaperBroker simula; OnChainSwapBroker firma y envía swaps reales;
+ * CexSpotBroker opera spot en un exchange centralizado.
+ */
+export interface Broker {
+  readonly mode: ExecutionMode;
+  /** Si puede abrir posiciones short (órdenes de entrada con side "sell"). */
+  readonly supportsShort: boolean;
+  execute(order: OrderRequest, riskState: RiskState): Promise<BrokerResult>;
+  executeExit(order: ExitOrder): Promise<ExitFill>;
+  /** Estado final de una orden pendiente; null si el venue aún no lo confirma. */
+  resolveOrder?(order: PendingOrder): Promise<OrderResolution | null>;
+}
+
 // --------------- Token Health ---------------
 
 export interface TokenHealthSnapshot {
@@ -0,0 +1,93 @@
+import type {
+  Broker,
+  BrokerResult,
+  ExecutionMode,
+  ExitFill,
+  ExitOrder,
+  Layer,
+  OrderRequest,
+  OrderResolution,
+  PendingOrder,
+  RiskState,
+} from "./types";
+import type { CexSpotBroker } from "./cex-broker";
+
+/**
+ * LiveVenueRouter — broker live que reparte entre on-chain y CEX.
+ *
+ * Entradas: las capas de `cexLayers` (core por defecto) en tokens con par
+ * listado van al CexSpotBroker; el resto al broker on-chain. Salidas: al
+ * venue donde se abrió la posición (`exchangeConnectionId`), nunca a otro.
+ */
+export class LiveVenueRouter implements Broker {
+  readonly mode: ExecutionMode = "live";
+  readonly supportsShort: boolean;
+
+  constructor(
+    private onChain: Broker | null,
+    private cex: CexSpotBroker | null,
+    private cexLayers: Layer[] = ["core"]
+  ) {
+    if (!onChain && !cex) throw new Error("LiveVenueRouter necesita al menos un broker");
+    // Una entrada short podría acabar en cualquiera de los dos venues
+    this.supportsShort = (onChain?.supportsShort ?? true) && (cex?.supportsShort ?? true);
+  }
+
+  async execute(order: OrderRequest, riskState: RiskState): Promise<BrokerResult> {
+    if (
+      this.cex &&
+      this.cexLayers.includes(order.layer) &&
+      (await this.cex.supports(order.tokenAddress, order.network))
+    ) {
+      return this.cex.execute(order, riskState);
+    }
+
+    if (!this.onChain) {
+      return {
+        executed: false,
+        reason: this.cexLayers.includes(order.layer)
+          ? `${order.symbol} no está listado en ${this.cex!.exchange} y no hay broker on-chain`
+          : `Capa ${order.layer} sin venue: solo hay broker CEX (capas ${this.cexLayers.join(", ")})`,
+        fill: null,
+        trade: null,
+      };
+    }
+    return this.onChain.execute(order, riskState);
+  }
+
+  async executeExit(order: ExitOrder): Promise<ExitFill> {
+    if (order.exchangeConnectionId) {
+      if (this.cex && this.cex.connectionId === order.exchangeConnectionId) {
+        return this.cex.executeExit(order);
+      }
+      return unavailable(order, `Conexión de exchange ${order.exchangeConnectionId} no disponible (desactivada o borrada)`);
+    }
+
+    if (!this.onChain) {
+      return unavailable(order, "Broker on-chain no configurado");
+    }
+    return this.onChain.executeExit(order);
+  }
+
+  /** Resuelve en el venue que envió la orden, como las salidas. */
+  async resolveOrder(order: PendingOrder): Promise<OrderResolution | null> {
+    if (order.exchangeConnectionId) {
+      return this.cex && this.cex.connectionId === order.exchangeConnectionId
+        ? this.cex.resolveOrder(order)
+        : null;
+    }
+    return this.onChain?.resolveOrder ? this.onChain.resolveOrder(order) : null;
+  }
+}
+
+// ---- helpers ----
+
+function unavailable(order: ExitOrder, error: string): ExitFill {
+  return {
+    success: false,
+    exitPrice: order.expectedPrice,
+    quantity: order.quantity,
+    feesAbs: 0,
+    error,
+  };
+}
@@ -0,0 +1,89 @@
+import { EXCHANGE_IDS, EXCHANGE_REQUIRES_PASSPHRASE } from "./types";
+import type { ExchangeId } from "./types";
+
+const MAX_LABEL_LENGTH = 60;
+const MAX_CREDENTIAL_LENGTH = 512;
+
+/** Conexión tal como la edita el usuario (sin id = alta nueva). */
+export interface ExchangeConnectionInput {
+  id?: string;
+  exchange: ExchangeId;
+  label: string | null;
+  /** undefined = conservar las credenciales guardadas (solo en edición). */
+  apiKey?: string;
+  apiSecret?: string;
+  passphrase?: string;
+  isTestnet: boolean;
+  isActive: boolean;
+}
+
+/** Valida el body de PUT /api/exchanges. Devuelve errores legibles. */
+export function validateExchangeConnectionInput(
+  raw: unknown
+): { input: ExchangeConnectionInput | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") {
+    return { input: null, errors: ["connection debe ser un objeto"] };
+  }
+  const r = raw as Record<string, unknown>;
+  const id = typeof r.id === "string" && r.id ? r.id : undefined;
+
+  const exchange = r.exchange as ExchangeId;
+  if (!EXCHANGE_IDS.includes(exchange)) {
+    errors.push(`exchange debe ser uno de: ${EXCHANGE_IDS.join(", ")}`);
+  }
+
+  const label = typeof r.label === "string" ? r.label.trim() : "";
+  if (label.length > MAX_LABEL_LENGTH) {
+    errors.push(`label admite como máximo ${MAX_LABEL_LENGTH} caracteres`);
+  }
+
+  const apiKey = optionalCredential(r.apiKey, "apiKey", errors);
+  const apiSecret = optionalCredential(r.apiSecret, "apiSecret", errors);
+  const passphrase = optionalCredential(r.passphrase, "passphrase", errors);
+
+  // Las credenciales se cambian en bloque: key y secret van juntas
+  if ((apiKey === undefined) !== (apiSecret === undefined)) {
+    errors.push("apiKey y apiSecret deben enviarse juntas");
+  }
+  if (!id && apiKey === undefined) {
+    errors.push("apiKey y apiSecret son obligatorias al crear la conexión");
+  }
+  if (apiKey !== undefined && EXCHANGE_REQUIRES_PASSPHRASE[exchange] && !passphrase) {
+    errors.push(`${exchange} requiere passphrase`);
+  }
+
+  if (errors.length > 0) return { input: null, errors };
+
+  return {
+    input: {
+      id,
+      exchange,
+      label: label || null,
+      apiKey,
+      apiSecret,
+      passphrase,
+      isTestnet: r.isTestnet === undefined ? true : Boolean(r.isTestnet),
+      isActive: r.isActive === undefined ? true : Boolean(r.isActive),
+    },
+    errors,
+  };
+}
+
+// ---- helpers ----
+
+/** "" o ausente = no se envía; espacios alrededor se recortan. */
+function optionalCredential(value: unknown, field: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    errors.push(`${field} debe ser texto`);
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.length > MAX_CREDENTIAL_LENGTH) {
+    errors.push(`${field} es demasiado larga`);
+    return undefined;
+  }
+  return trimmed;
+}
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ExchangeConnectionStore } from "./connection-store";
+import { CredentialVault } from "./credential-vault";
+import type { ExchangeConnectionInput } from "./connection-input";
+
+test("editar una conexión inexistente o de otro usuario devuelve null", async () => {
+  const rows = [connectionRow("conn-1", "user-1")];
+  const vault = CredentialVault.fromEnv({ EXCHANGE_ENCRYPTION_KEY: randomBytes(32).toString("base64") });
+  const store = new ExchangeConnectionStore(fakeSupabase(rows), vault);
+
+  // Sin credenciales: la lectura previa no la encuentra
+  assert.equal(await store.save("user-2", input({ id: "conn-1" })), null);
+  assert.equal(await store.save("user-1", input({ id: "conn-404" })), null);
+
+  // Con credenciales: el update no toca ninguna fila
+  const rotated = input({ id: "conn-1", apiKey: "new-key-9876", apiSecret: "new-secret" });
+  assert.equal(await store.save("user-2", rotated), null);
+  assert.equal(rows[0].api_key_hint, "1234");
+
+  const saved = await store.save("user-1", rotated);
+  assert.equal(saved?.id, "conn-1");
+  assert.equal(saved.apiKeyHint, "9876");
+});
+
+// ---- helpers ----
+
+/**
+ * exchange_connections en memoria: filtra por `eq` y aplica el update a
+ * las filas que casan, como el select encadenado de PostgREST.
+ */
+function fakeSupabase(rows: Record<string, unknown>[]): SupabaseClient {
+  const query = () => {
+    const filters: [string, unknown][] = [];
+    let patch: Record<string, unknown> | null = null;
+    const matching = () => rows.filter((r) => filters.every(([col, value]) => r[col] === value));
+    const one = async () => {
+      const found = matching();
+      if (patch) found.forEach((r) => Object.assign(r, patch));
+      return { data: found[0] ?? null, error: null };
+    };
+    const builder = {
+      select: () => builder,
+      update: (values: Record<string, unknown>) => ((patch = values), builder),
+      eq: (col: string, value: unknown) => (filters.push([col, value]), builder),
+      maybeSingle: one,
+      single: one,
+    };
+    return builder;
+  };
+  return { from: () => query() } as unknown as SupabaseClient;
+}
+
+function connectionRow(id: string, userId: string): Record<string, unknown> {
+  return {
+    id,
+    user_id: userId,
+    exchange: "binance",
+    label: null,
+    api_key_hint: "1234",
+    passphrase_encrypted: null,
+    is_testnet: true,
+    is_active: true,
+    last_check_at: null,
+    last_check_ok: null,
+    last_check_error: null,
+    created_at: "2026-03-01T00:00:00Z",
+  };
+}
+
+function input(overrides: Partial<ExchangeConnectionInput>): ExchangeConnectionInput {
+  return { exchange: "binance", label: null, isTestnet: true, isActive: true, ...overrides };
+}
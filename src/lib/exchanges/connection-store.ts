@@ -0,0 +1,220 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CredentialVault, SealedCredentials } from "./credential-vault";
+import type { ExchangeConnectionInput } from "./connection-input";
+import type { ConnectivityCheck, ExchangeConnection, ExchangeCredentials, ExchangeId } from "./types";
+
+const PUBLIC_COLUMNS =
+  "id, exchange, label, api_key_hint, passphrase_encrypted, is_testnet, is_active, " +
+  "last_check_at, last_check_ok, last_check_error, created_at";
+
+const SEALED_COLUMNS =
+  "id, exchange, is_testnet, is_active, api_key_encrypted, api_secret_encrypted, " +
+  "passphrase_encrypted, data_key_encrypted, key_id";
+
+/** Conexión con credenciales ya descifradas, lista para crear el cliente. */
+export interface UnsealedConnection {
+  id: string;
+  exchange: ExchangeId;
+  isTestnet: boolean;
+  isActive: boolean;
+  credentials: ExchangeCredentials;
+}
+
+/**
+ * ExchangeConnectionStore — CRUD de exchange_connections.
+ *
+ * Las credenciales entran en claro solo en `save` y salen en claro solo
+ * en `getCredentials` (uso interno del servidor); todo lo que se lista
+ * hacia la UI es `ExchangeConnection`, sin secretos.
+ */
+export class ExchangeConnectionStore {
+  constructor(
+    private supabase: SupabaseClient,
+    /** Solo hace falta para guardar o leer credenciales; listar funciona sin clave. */
+    private vault: CredentialVault | null = null
+  ) {}
+
+  async list(userId: string): Promise<ExchangeConnection[]> {
+    const { data, error } = await this.supabase
+      .from("exchange_connections")
+      .select(PUBLIC_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`exchange_connections: ${error.message}`);
+    return ((data ?? []) as unknown as PublicRow[]).map(toConnection);
+  }
+
+  async get(userId: string, id: string): Promise<ExchangeConnection | null> {
+    const { data } = await this.supabase
+      .from("exchange_connections")
+      .select(PUBLIC_COLUMNS)
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    return data ? toConnection(data as unknown as PublicRow) : null;
+  }
+
+  /**
+   * Alta (sin id) o edición. En edición, si no llegan credenciales se
+   * conservan las guardadas; cambiar de exchange exige credenciales nuevas.
+   * null si el id no existe o no es del usuario.
+   */
+  async save(userId: string, input: ExchangeConnectionInput): Promise<ExchangeConnection | null> {
+    const row: Record<string, unknown> = {
+      exchange: input.exchange,
+      label: input.label,
+      is_testnet: input.isTestnet,
+      is_active: input.isActive,
+    };
+
+    if (input.apiKey !== undefined && input.apiSecret !== undefined) {
+      Object.assign(
+        row,
+        this.requireVault().seal(userId, {
+          apiKey: input.apiKey,
+          apiSecret: input.apiSecret,
+          passphrase: input.passphrase ?? null,
+        }),
+        {
+          api_key_hint: input.apiKey.slice(-4),
+          // Credenciales nuevas: el check anterior ya no vale
+          last_check_at: null,
+          last_check_ok: null,
+          last_check_error: null,
+        }
+      );
+    } else if (input.id) {
+      const current = await this.get(userId, input.id);
+      if (!current) return null;
+      if (current.exchange !== input.exchange) {
+        throw new Error("Para cambiar de exchange hay que introducir credenciales nuevas");
+      }
+    }
+
+    // Con credenciales nuevas no hay lectura previa: el update sin filas
+    // (id ajeno o inexistente) es el que dice que no existe
+    const { data, error } = input.id
+      ? await this.supabase
+          .from("exchange_connections")
+          .update(row)
+          .eq("id", input.id)
+          .eq("user_id", userId)
+          .select(PUBLIC_COLUMNS)
+          .maybeSingle()
+      : await this.supabase
+          .from("exchange_connections")
+          .insert({ ...row, user_id: userId })
+          .select(PUBLIC_COLUMNS)
+          .single();
+
+    if (input.id && !error && !data) return null;
+    if (error || !data) {
+      throw new Error(`Error guardando exchange_connections: ${error?.message ?? "sin datos"}`);
+    }
+    return toConnection(data as unknown as PublicRow);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("exchange_connections")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId);
+
+    if (error) throw new Error(`exchange_connections: ${error.message}`);
+  }
+
+  /** Descifra las credenciales. null si la conexión no existe o no es del usuario. */
+  async getCredentials(userId: string, id: string): Promise<UnsealedConnection | null> {
+    const { data } = await this.supabase
+      .from("exchange_connections")
+      .select(SEALED_COLUMNS)
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!data) return null;
+    const row = data as unknown as SealedRow;
+    if (!row.data_key_encrypted || !row.key_id) {
+      throw new Error("Conexión sin cifrado de sobre: vuelve a introducir las credenciales");
+    }
+
+    return {
+      id: row.id,
+      exchange: row.exchange,
+      isTestnet: row.is_testnet,
+      isActive: row.is_active,
+      credentials: this.requireVault().open(userId, {
+        api_key_encrypted: row.api_key_encrypted,
+        api_secret_encrypted: row.api_secret_encrypted,
+        passphrase_encrypted: row.passphrase_encrypted,
+        data_key_encrypted: row.data_key_encrypted,
+        key_id: row.key_id,
+      }),
+    };
+  }
+
+  async recordCheck(userId: string, id: string, check: ConnectivityCheck): Promise<void> {
+    const { error } = await this.supabase
+      .from("exchange_connections")
+      .update({
+        last_check_at: check.checkedAt.toISOString(),
+        last_check_ok: check.ok,
+        last_check_error: check.error ? check.error.slice(0, 500) : null,
+      })
+      .eq("id", id)
+      .eq("user_id", userId);
+
+    if (error) throw new Error(`exchange_connections: ${error.message}`);
+  }
+
+  private requireVault(): CredentialVault {
+    if (!this.vault) {
+      throw new Error("EXCHANGE_ENCRYPTION_KEY no configurada: no se pueden guardar credenciales de exchange");
+    }
+    return this.vault;
+  }
+}
+
+// ---- helpers ----
+
+type PublicRow = {
+  id: string;
+  exchange: ExchangeId;
+  label: string | null;
+  api_key_hint: string | null;
+  passphrase_encrypted: string | null;
+  is_testnet: boolean;
+  is_active: boolean;
+  last_check_at: string | null;
+  last_check_ok: boolean | null;
+  last_check_error: string | null;
+  created_at: string;
+};
+
+type SealedRow = Omit<SealedCredentials, "data_key_encrypted" | "key_id"> & {
+  id: string;
+  exchange: ExchangeId;
+  is_testnet: boolean;
+  is_active: boolean;
+  data_key_encrypted: string | null;
+  key_id: string | null;
+};
+
+function toConnection(row: PublicRow): ExchangeConnection {
+  return {
+    id: row.id,
+    exchange: row.exchange,
+    label: row.label,
+    apiKeyHint: row.api_key_hint,
+    hasPassphrase: Boolean(row.passphrase_encrypted),
+    isTestnet: row.is_testnet,
+    isActive: row.is_active,
+    lastCheckAt: row.last_check_at,
+    lastCheckOk: row.last_check_ok,
+    lastCheckError: row.last_check_error,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { CredentialVault, masterKeysFromEnv } from "./credential-vault";
+
+const KEY_1 = randomBytes(32).toString("base64");
+const KEY_2 = randomBytes(32).toString("hex");
+
+test("las credenciales selladas se abren iguales y no quedan en claro", () => {
+  const vault = CredentialVault.fromEnv({ EXCHANGE_ENCRYPTION_KEY: KEY_1 });
+  const credentials = { apiKey: "key-123", apiSecret: "secret-456", passphrase: "pass-789" };
+
+  const sealed = vault.seal("user-1", credentials);
+  assert.equal(sealed.key_id, "k1");
+  assert.ok(!JSON.stringify(sealed).includes("secret-456"));
+  assert.deepEqual(vault.open("user-1", sealed), credentials);
+});
+
+test("un secreto sellado va ligado a su usuario y a su tabla", () => {
+  const vault = CredentialVault.fromEnv({ EXCHANGE_ENCRYPTION_KEY: KEY_1 });
+  const sealed = vault.sealSecret("notification_channels", "user-1", "hmac-secret");
+
+  assert.equal(vault.openSecret("notification_channels", "user-1", sealed), "hmac-secret");
+  assert.throws(() => vault.openSecret("notification_channels", "user-2", sealed));
+  assert.throws(() => vault.openSecret("exchange_connections", "user-1", sealed));
+});
+
+test("tras rotar la clave maestra se abre con la anterior y reseal pasa a la nueva", () => {
+  const before = CredentialVault.fromEnv({ EXCHANGE_ENCRYPTION_KEY: KEY_1 });
+  const sealed = before.seal("user-1", { apiKey: "k", apiSecret: "s", passphrase: null });
+
+  const after = CredentialVault.fromEnv({
+    EXCHANGE_ENCRYPTION_KEY: KEY_2,
+    EXCHANGE_ENCRYPTION_KEY_ID: "k2",
+    EXCHANGE_ENCRYPTION_PREVIOUS_KEYS: `k1:${KEY_1}`,
+  });
+  assert.equal(after.open("user-1", sealed).apiSecret, "s");
+
+  const resealed = { ...sealed, ...after.reseal("user-1", sealed) };
+  assert.equal(resealed.key_id, "k2");
+  const onlyNew = CredentialVault.fromEnv({ EXCHANGE_ENCRYPTION_KEY: KEY_2, EXCHANGE_ENCRYPTION_KEY_ID: "k2" });
+  assert.equal(onlyNew.open("user-1", resealed).apiKey, "k");
+  assert.throws(() => onlyNew.open("user-1", sealed), /k1/);
+});
+
+test("sin clave maestra válida no se puede crear el vault", () => {
+  assert.throws(() => masterKeysFromEnv({}), /EXCHANGE_ENCRYPTION_KEY/);
+  assert.throws(() => masterKeysFromEnv({ EXCHANGE_ENCRYPTION_KEY: "corta" }), /32 bytes/);
+});
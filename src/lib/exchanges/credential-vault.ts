@@ -0,0 +1,189 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import type { ExchangeCredentials } from "./types";
+
+const ALGORITHM = "aes-256-gcm";
+const FORMAT_VERSION = "v1";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/** Columnas cifradas de exchange_connections. */
+export interface SealedCredentials {
+  api_key_encrypted: string;
+  api_secret_encrypted: string;
+  passphrase_encrypted: string | null;
+  data_key_encrypted: string;
+  key_id: string;
+}
+
+/**
+ * Secreto suelto sellado con su propia data key (p. ej. el secreto HMAC o
+ * el token de bot de un canal de notificación).
+ */
+export interface SealedSecret {
+  ciphertext: string;
+  data_key_encrypted: string;
+  key_id: string;
+}
+
+/**
+ * Claves maestras desde el entorno:
+ *   EXCHANGE_ENCRYPTION_KEY           → clave actual (32 bytes en base64 o hex)
+ *   EXCHANGE_ENCRYPTION_KEY_ID        → id con el que se guarda (por defecto "k1")
+ *   EXCHANGE_ENCRYPTION_PREVIOUS_KEYS → "id:clave,id:clave" solo para descifrar
+ *                                       conexiones selladas antes de rotar
+ *
+ * Lanza si no hay clave actual válida: sin ella no se guarda nada.
+ */
+export function masterKeysFromEnv(
+  env: Record<string, string | undefined> = process.env
+): MasterKey[] {
+  const current = env.EXCHANGE_ENCRYPTION_KEY;
+  if (!current) {
+    throw new Error("EXCHANGE_ENCRYPTION_KEY no configurada: no se pueden guardar credenciales de exchange");
+  }
+
+  const keys: MasterKey[] = [{ id: env.EXCHANGE_ENCRYPTION_KEY_ID || "k1", key: parseKey(current) }];
+  for (const entry of (env.EXCHANGE_ENCRYPTION_PREVIOUS_KEYS ?? "").split(",")) {
+    const [id, value] = entry.split(":").map((s) => s.trim());
+    if (id && value) keys.push({ id, key: parseKey(value) });
+  }
+  return keys;
+}
+
+/**
+ * CredentialVault — cifrado en reposo de las credenciales de exchange
+ * con un sobre (envelope): cada conexión tiene su propia data key
+ * aleatoria que cifra key/secret/passphrase (AES-256-GCM), y esa data
+ * key se guarda cifrada con la clave maestra del servidor.
+ *
+ * Cada campo va ligado al usuario y a su columna (AAD), así que un
+ * ciphertext copiado a otra fila u otra columna no descifra. Rotar la
+ * clave maestra solo requiere re-sellar las data keys (`reseal`).
+ *
+ * `sealSecret`/`openSecret` aplican el mismo sobre a un secreto suelto de
+ * otra tabla, ligado a esa tabla y al usuario.
+ */
+export class CredentialVault {
+  private current: MasterKey;
+  private byId: Map<string, Buffer>;
+
+  constructor(keys: MasterKey[]) {
+    if (keys.length === 0) throw new Error("CredentialVault necesita al menos una clave maestra");
+    this.current = keys[0];
+    this.byId = new Map(keys.map((k) => [k.id, k.key]));
+  }
+
+  static fromEnv(env?: Record<string, string | undefined>): CredentialVault {
+    return new CredentialVault(masterKeysFromEnv(env));
+  }
+
+  seal(userId: string, credentials: ExchangeCredentials): SealedCredentials {
+    const dataKey = randomBytes(KEY_BYTES);
+    return {
+      api_key_encrypted: encrypt(dataKey, credentials.apiKey, aad(userId, "api_key")),
+      api_secret_encrypted: encrypt(dataKey, credentials.apiSecret, aad(userId, "api_secret")),
+      passphrase_encrypted: credentials.passphrase
+        ? encrypt(dataKey, credentials.passphrase, aad(userId, "passphrase"))
+        : null,
+      data_key_encrypted: encrypt(this.current.key, dataKey.toString("base64"), aad(userId, "data_key")),
+      key_id: this.current.id,
+    };
+  }
+
+  open(userId: string, sealed: SealedCredentials): ExchangeCredentials {
+    const dataKey = this.unwrapDataKey(userId, sealed);
+    return {
+      apiKey: decrypt(dataKey, sealed.api_key_encrypted, aad(userId, "api_key")),
+      apiSecret: decrypt(dataKey, sealed.api_secret_encrypted, aad(userId, "api_secret")),
+      passphrase: sealed.passphrase_encrypted
+        ? decrypt(dataKey, sealed.passphrase_encrypted, aad(userId, "passphrase"))
+        : null,
+    };
+  }
+
+  sealSecret(table: string, userId: string, secret: string): SealedSecret {
+    const dataKey = randomBytes(KEY_BYTES);
+    return {
+      ciphertext: encrypt(dataKey, secret, aad(userId, "secret", table)),
+      data_key_encrypted: encrypt(this.current.key, dataKey.toString("base64"), aad(userId, "data_key", table)),
+      key_id: this.current.id,
+    };
+  }
+
+  openSecret(table: string, userId: string, sealed: SealedSecret): string {
+    const dataKey = this.unwrapDataKey(userId, sealed, table);
+    return decrypt(dataKey, sealed.ciphertext, aad(userId, "secret", table));
+  }
+
+  /** Vuelve a cifrar la data key con la clave maestra actual (rotación). */
+  reseal(userId: string, sealed: SealedCredentials): Pick<SealedCredentials, "data_key_encrypted" | "key_id"> {
+    const dataKey = this.unwrapDataKey(userId, sealed);
+    return {
+      data_key_encrypted: encrypt(this.current.key, dataKey.toString("base64"), aad(userId, "data_key")),
+      key_id: this.current.id,
+    };
+  }
+
+  private unwrapDataKey(
+    userId: string,
+    sealed: Pick<SealedCredentials, "data_key_encrypted" | "key_id">,
+    table?: string
+  ): Buffer {
+    const master = this.byId.get(sealed.key_id);
+    if (!master) {
+      throw new Error(`Clave maestra "${sealed.key_id}" no disponible: revisa EXCHANGE_ENCRYPTION_PREVIOUS_KEYS`);
+    }
+    return Buffer.from(decrypt(master, sealed.data_key_encrypted, aad(userId, "data_key", table)), "base64");
+  }
+}
+
+// ---- helpers ----
+
+function parseKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`La clave de cifrado debe tener ${KEY_BYTES} bytes (base64 o hex)`);
+  }
+  return key;
+}
+
+function aad(userId: string, field: string, table = "exchange_connections"): Buffer {
+  return Buffer.from(`${table}:${userId}:${field}`);
+}
+
+/** `v1.<iv>.<tag>.<ciphertext>` en base64. */
+function encrypt(key: Buffer, plaintext: string, additionalData: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(additionalData);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(".");
+}
+
+function decrypt(key: Buffer, payload: string, additionalData: Buffer): string {
+  const [version, iv, tag, ciphertext] = payload.split(".");
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Credencial cifrada con formato desconocido");
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+  decipher.setAAD(additionalData);
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error("No se pudo descifrar la credencial (clave o datos incorrectos)");
+  }
+}
@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createExchangeClient } from "./exchange-client";
+import type { ExchangeClient } from "./exchange-client";
+import { MockExchange } from "./mock-exchange";
+import type { MockExchangeConfig } from "./mock-exchange";
+import { EXCHANGE_IDS } from "./types";
+import type { ExchangeCredentials, ExchangeId, SpotOrder } from "./types";
+
+const CREDENTIALS: ExchangeCredentials = { apiKey: "mock-key", apiSecret: "mock-secret", passphrase: "mock-pass" };
+
+test("el check de conectividad firma contra el mock, cuenta saldos y lee el permiso de trading", async () => {
+  for (const exchange of EXCHANGE_IDS) {
+    const { client } = setup(exchange, { balances: { USDT: 10_000, ETH: 0.5, BTC: 0 } });
+    const check = await client.checkConnectivity();
+    assert.equal(check.ok, true, `${exchange}: ${check.error}`);
+    assert.equal(check.assets, 2, exchange);
+    assert.equal(check.canTrade, true, exchange);
+    assert.equal(check.error, null);
+
+    const balances = await client.getBalances();
+    assert.equal(balances.find((b) => b.asset === "USDT")?.free, 10_000, exchange);
+
+    const readOnly = await setup(exchange, { canTrade: false }).client.checkConnectivity();
+    assert.equal(readOnly.ok, true, exchange);
+    assert.equal(readOnly.canTrade, false, exchange);
+
+    // Una firma con otro secret no pasa: el check no lanza, devuelve el error
+    const forged = await setup(exchange, {}, { ...CREDENTIALS, apiSecret: "otro-secret" }).client.checkConnectivity();
+    assert.equal(forged.ok, false, exchange);
+    assert.equal(forged.assets, 0);
+    assert.match(forged.error!, /sign/i, exchange);
+  }
+});
+
+test("una compra y su venta a mercado hacen el round trip con polling, comisión y saldos", async () => {
+  for (const exchange of EXCHANGE_IDS) {
+    const { client, mock } = setup(exchange);
+    const symbol = client.tickerFor("ETH", "USDT");
+
+    const instrument = await client.getInstrument(symbol);
+    assert.ok(instrument?.trading, exchange);
+    assert.equal(instrument.baseAsset, "ETH");
+    assert.equal(instrument.qtyStep, 0.0001);
+    assert.equal(await client.getInstrument(client.tickerFor("NOPE", "USDT")), null, exchange);
+
+    const buyId = await client.placeMarketOrder({ symbol, side: "buy", quoteAmount: 300, clientOrderId: "ct-buy-1" });
+    const buy = await filled(client, symbol, buyId);
+    assert.equal(buy.side, "buy", exchange);
+    assert.equal(buy.executedQty, 0.1, exchange);
+    close(buy.avgPrice, 3000);
+    close(buy.quoteQty, 300);
+    // La comisión de la compra se cobra en el activo recibido
+    close(buy.fee, 0.0001);
+    assert.equal(mock.getBalance("USDT"), 9_700, exchange);
+    close(mock.getBalance("ETH"), 0.0999);
+
+    const sellId = await client.placeMarketOrder({ symbol, side: "sell", quantity: 0.0999, clientOrderId: "ct-sell-1" });
+    const sell = await filled(client, symbol, sellId);
+    assert.equal(sell.side, "sell", exchange);
+    assert.equal(sell.executedQty, 0.0999, exchange);
+    close(sell.fee, 0.0999 * 3000 * 0.001);
+    close(mock.getBalance("ETH"), 0);
+    close(mock.getBalance("USDT"), 9_700 + 0.0999 * 3000 * 0.999);
+
+    await assert.rejects(
+      client.placeMarketOrder({ symbol, side: "sell", quantity: 1, clientOrderId: "ct-sell-2" }),
+      /insufficient balance/,
+      exchange
+    );
+  }
+});
+
+// ---- helpers ----
+
+/** Cliente del exchange apuntado al MockExchange en proceso vía fetchImpl. */
+function setup(
+  exchange: ExchangeId,
+  config: Partial<MockExchangeConfig> = {},
+  credentials: ExchangeCredentials = CREDENTIALS
+) {
+  const mock = new MockExchange({ pollsUntilFilled: 1, ...config });
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const req = new Request(String(input), init);
+    const path = new URL(req.url).pathname.split("/").slice(2).join("/");
+    return mock.handle(exchange, `/${path}`, req);
+  }) as typeof fetch;
+
+  const client = createExchangeClient(exchange, credentials, {
+    env: { [`EXCHANGE_API_URL_${exchange.toUpperCase()}`]: `http://mock/${exchange}` },
+    fetchImpl,
+    isTestnet: true,
+  });
+  return { client, mock };
+}
+
+/** El mock deja la orden abierta en la primera consulta. */
+async function filled(client: ExchangeClient, symbol: string, orderId: string): Promise<SpotOrder> {
+  const first = await client.getOrder(symbol, orderId);
+  assert.equal(first.status, "open", client.exchange);
+  assert.equal(first.executedQty, 0);
+  const order = await client.getOrder(symbol, orderId);
+  assert.equal(order.status, "filled", client.exchange);
+  assert.equal(order.orderId, orderId);
+  return order;
+}
+
+function close(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} ≠ ${expected}`);
+}
@@ -0,0 +1,682 @@
+/**
+ * Clientes REST firmados de exchanges centralizados.
+ *
+ *  - Binance: HMAC-SHA256 (hex) del query string + header `X-MBX-APIKEY`.
+ *  - Bybit v5: HMAC-SHA256 (hex) de `timestamp + apiKey + recvWindow +
+ *    query|body` en headers `X-BAPI-*`.
+ *  - OKX v5: HMAC-SHA256 (base64) de `timestamp + METHOD + path + body`
+ *    en headers `OK-ACCESS-*`, con passphrase. Testnet = demo trading
+ *    (`x-simulated-trading: 1`) sobre el mismo host.
+ *
+ * La URL base se puede sobreescribir por exchange con
+ * `EXCHANGE_API_URL_<EXCHANGE>` (p.ej. el mock local
+ * `/api/simulation/mock-exchange/binance`). Las firmas se calculan
+ * siempre sobre el path relativo del exchange, así que funcionan igual
+ * detrás de un prefijo.
+ */
+
+import { createHmac } from "crypto";
+import type {
+  ConnectivityCheck,
+  ExchangeAssetBalance,
+  ExchangeCredentials,
+  ExchangeId,
+  MarketOrderRequest,
+  SpotInstrument,
+  SpotOrder,
+  SpotOrderStatus,
+} from "./types";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const RECV_WINDOW_MS = 5_000;
+
+const BASE_URLS: Record<ExchangeId, { mainnet: string; testnet: string }> = {
+  binance: { mainnet: "https://api.binance.com", testnet: "https://testnet.binance.vision" },
+  bybit: { mainnet: "https://api.bybit.com", testnet: "https://api-testnet.bybit.com" },
+  okx: { mainnet: "https://www.okx.com", testnet: "https://www.okx.com" },
+};
+
+type HttpMethod = "GET" | "POST" | "DELETE";
+type Params = Record<string, string | number | boolean | undefined | null>;
+
+export interface ExchangeClientOptions {
+  isTestnet?: boolean;
+  env?: Record<string, string | undefined>;
+  /** Inyectable para apuntar a un mock en memoria. */
+  fetchImpl?: typeof fetch;
+}
+
+export interface ExchangeClient {
+  readonly exchange: ExchangeId;
+  readonly isTestnet: boolean;
+  getBalances(): Promise<ExchangeAssetBalance[]>;
+  /** null si el exchange no expone los permisos de la key. */
+  canTrade(): Promise<boolean | null>;
+  checkConnectivity(): Promise<ConnectivityCheck>;
+  /** Ticker del par en el formato del exchange. */
+  tickerFor(baseAsset: string, quoteAsset: string): string;
+  /** null si el par no existe en el exchange. */
+  getInstrument(symbol: string): Promise<SpotInstrument | null>;
+  /** Envía una orden a mercado y devuelve su orderId. */
+  placeMarketOrder(order: MarketOrderRequest): Promise<string>;
+  getOrder(symbol: string, orderId: string): Promise<SpotOrder>;
+  cancelOrder(symbol: string, orderId: string): Promise<void>;
+}
+
+export class ExchangeApiError extends Error {
+  constructor(
+    public exchange: ExchangeId,
+    public status: number,
+    public body: string,
+    public path: string
+  ) {
+    super(`${exchange} API ${status} en ${path}: ${body.slice(0, 300)}`);
+    this.name = "ExchangeApiError";
+  }
+}
+
+export function exchangeBaseUrl(
+  exchange: ExchangeId,
+  isTestnet: boolean,
+  env: Record<string, string | undefined> = process.env
+): string {
+  const override = env[`EXCHANGE_API_URL_${exchange.toUpperCase()}`];
+  if (override) return override.replace(/\/+$/, "");
+  return isTestnet ? BASE_URLS[exchange].testnet : BASE_URLS[exchange].mainnet;
+}
+
+export function createExchangeClient(
+  exchange: ExchangeId,
+  credentials: ExchangeCredentials,
+  options: ExchangeClientOptions = {}
+): ExchangeClient {
+  switch (exchange) {
+    case "binance":
+      return new BinanceClient(credentials, options);
+    case "bybit":
+      return new BybitClient(credentials, options);
+    case "okx":
+      return new OkxClient(credentials, options);
+  }
+}
+
+// --------------- Binance ---------------
+
+interface BinanceAccount {
+  canTrade: boolean;
+  balances: { asset: string; free: string; locked: string }[];
+}
+
+interface BinanceSymbolInfo {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  filters: { filterType: string; minQty?: string; stepSize?: string; minNotional?: string }[];
+}
+
+interface BinanceOrder {
+  orderId: number;
+  symbol: string;
+  side: "BUY" | "SELL";
+  status: string;
+  executedQty: string;
+  cummulativeQuoteQty: string;
+}
+
+const BINANCE_STATUS: Record<string, SpotOrderStatus> = {
+  NEW: "open",
+  PENDING_NEW: "open",
+  PARTIALLY_FILLED: "partially_filled",
+  FILLED: "filled",
+  CANCELED: "canceled",
+  PENDING_CANCEL: "canceled",
+  EXPIRED: "canceled",
+  EXPIRED_IN_MATCH: "canceled",
+  REJECTED: "rejected",
+};
+
+export class BinanceClient implements ExchangeClient {
+  readonly exchange = "binance" as const;
+  readonly isTestnet: boolean;
+  protected baseUrl: string;
+  protected fetchImpl: typeof fetch;
+
+  constructor(protected credentials: ExchangeCredentials, options: ExchangeClientOptions = {}) {
+    this.isTestnet = options.isTestnet ?? false;
+    this.baseUrl = exchangeBaseUrl(this.exchange, this.isTestnet, options.env);
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  async getBalances(): Promise<ExchangeAssetBalance[]> {
+    const account = await this.signed<BinanceAccount>("GET", "/api/v3/account");
+    return account.balances.map((b) => toBalance(b.asset, b.free, b.locked));
+  }
+
+  async canTrade(): Promise<boolean | null> {
+    const account = await this.signed<BinanceAccount>("GET", "/api/v3/account");
+    return account.canTrade;
+  }
+
+  checkConnectivity(): Promise<ConnectivityCheck> {
+    return runConnectivityCheck(this);
+  }
+
+  tickerFor(baseAsset: string, quoteAsset: string): string {
+    return `${baseAsset}${quoteAsset}`.toUpperCase();
+  }
+
+  async getInstrument(symbol: string): Promise<SpotInstrument | null> {
+    const res = await publicGet(this.fetchImpl, this.exchange, this.baseUrl, "/api/v3/exchangeInfo", { symbol });
+    // -1121 = Invalid symbol
+    if (res.status === 400 && res.text.includes("-1121")) return null;
+    if (!res.ok) throw new ExchangeApiError(this.exchange, res.status, res.text, "/api/v3/exchangeInfo");
+
+    const info = (JSON.parse(res.text) as { symbols: BinanceSymbolInfo[] }).symbols[0];
+    if (!info) return null;
+    const lot = info.filters.find((f) => f.filterType === "LOT_SIZE");
+    const notional = info.filters.find((f) => f.filterType === "NOTIONAL" || f.filterType === "MIN_NOTIONAL");
+    return {
+      symbol: info.symbol,
+      baseAsset: info.baseAsset,
+      quoteAsset: info.quoteAsset,
+      qtyStep: Number(lot?.stepSize) || 0,
+      minQty: Number(lot?.minQty) || 0,
+      minNotional: Number(notional?.minNotional) || 0,
+      trading: info.status === "TRADING",
+    };
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<string> {
+    const placed = await this.signed<{ orderId: number }>("POST", "/api/v3/order", {
+      symbol: order.symbol,
+      side: order.side.toUpperCase(),
+      type: "MARKET",
+      quoteOrderQty: order.quoteAmount,
+      quantity: order.quantity,
+      newClientOrderId: order.clientOrderId,
+      newOrderRespType: "ACK",
+    });
+    return String(placed.orderId);
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<SpotOrder> {
+    const order = await this.signed<BinanceOrder>("GET", "/api/v3/order", { symbol, orderId });
+    const executedQty = Number(order.executedQty) || 0;
+    const quoteQty = Number(order.cummulativeQuoteQty) || 0;
+
+    // La orden no trae comisiones: salen de los fills (myTrades)
+    let fee = 0;
+    let feeAsset: string | null = null;
+    if (executedQty > 0) {
+      const fills = await this.signed<{ commission: string; commissionAsset: string }[]>(
+        "GET",
+        "/api/v3/myTrades",
+        { symbol, orderId }
+      );
+      for (const f of fills) {
+        fee += Number(f.commission) || 0;
+        feeAsset = f.commissionAsset;
+      }
+    }
+
+    return {
+      orderId: String(order.orderId),
+      symbol: order.symbol,
+      side: order.side === "BUY" ? "buy" : "sell",
+      status: BINANCE_STATUS[order.status] ?? "open",
+      executedQty,
+      quoteQty,
+      avgPrice: executedQty > 0 ? quoteQty / executedQty : 0,
+      fee,
+      feeAsset,
+    };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    await this.signed("DELETE", "/api/v3/order", { symbol, orderId });
+  }
+
+  protected async signed<T>(method: HttpMethod, path: string, params: Params = {}): Promise<T> {
+    const query = toQueryString({ ...params, recvWindow: RECV_WINDOW_MS, timestamp: Date.now() });
+    const signature = hmacHex(this.credentials.apiSecret, query);
+    const url = `${this.baseUrl}${path}?${query}&signature=${signature}`;
+
+    const res = await this.fetchImpl(url, {
+      method,
+      headers: { "X-MBX-APIKEY": this.credentials.apiKey },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await res.text();
+    if (!res.ok) throw new ExchangeApiError(this.exchange, res.status, text, path);
+    return JSON.parse(text) as T;
+  }
+}
+
+// --------------- Bybit v5 ---------------
+
+interface BybitEnvelope<T> {
+  retCode: number;
+  retMsg: string;
+  result: T;
+}
+
+interface BybitWalletBalance {
+  list: { coin: { coin: string; walletBalance: string; locked: string }[] }[];
+}
+
+interface BybitInstrument {
+  symbol: string;
+  baseCoin: string;
+  quoteCoin: string;
+  status: string;
+  lotSizeFilter: { basePrecision: string; minOrderQty: string; minOrderAmt: string };
+}
+
+interface BybitOrder {
+  orderId: string;
+  symbol: string;
+  side: "Buy" | "Sell";
+  orderStatus: string;
+  cumExecQty: string;
+  cumExecValue: string;
+  cumExecFee: string;
+}
+
+const BYBIT_STATUS: Record<string, SpotOrderStatus> = {
+  Created: "open",
+  New: "open",
+  Untriggered: "open",
+  PartiallyFilled: "partially_filled",
+  Filled: "filled",
+  Cancelled: "canceled",
+  PartiallyFilledCanceled: "canceled",
+  Deactivated: "canceled",
+  Rejected: "rejected",
+};
+
+export class BybitClient implements ExchangeClient {
+  readonly exchange = "bybit" as const;
+  readonly isTestnet: boolean;
+  protected baseUrl: string;
+  protected fetchImpl: typeof fetch;
+
+  constructor(protected credentials: ExchangeCredentials, options: ExchangeClientOptions = {}) {
+    this.isTestnet = options.isTestnet ?? false;
+    this.baseUrl = exchangeBaseUrl(this.exchange, this.isTestnet, options.env);
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  async getBalances(): Promise<ExchangeAssetBalance[]> {
+    const result = await this.signed<BybitWalletBalance>("GET", "/v5/account/wallet-balance", {
+      accountType: "UNIFIED",
+    });
+    return result.list.flatMap((account) =>
+      account.coin.map((c) => {
+        const locked = Number(c.locked) || 0;
+        return toBalance(c.coin, String((Number(c.walletBalance) || 0) - locked), String(locked));
+      })
+    );
+  }
+
+  async canTrade(): Promise<boolean | null> {
+    const result = await this.signed<{ readOnly: number; permissions?: Record<string, string[]> }>(
+      "GET",
+      "/v5/user/query-api"
+    );
+    if (result.readOnly === 1) return false;
+    const spot = result.permissions?.Spot;
+    return spot ? spot.includes("SpotTrade") : true;
+  }
+
+  checkConnectivity(): Promise<ConnectivityCheck> {
+    return runConnectivityCheck(this);
+  }
+
+  tickerFor(baseAsset: string, quoteAsset: string): string {
+    return `${baseAsset}${quoteAsset}`.toUpperCase();
+  }
+
+  async getInstrument(symbol: string): Promise<SpotInstrument | null> {
+    const path = "/v5/market/instruments-info";
+    const res = await publicGet(this.fetchImpl, this.exchange, this.baseUrl, path, { category: "spot", symbol });
+    if (!res.ok) throw new ExchangeApiError(this.exchange, res.status, res.text, path);
+
+    const envelope = JSON.parse(res.text) as BybitEnvelope<{ list: BybitInstrument[] }>;
+    if (envelope.retCode !== 0) throw new ExchangeApiError(this.exchange, res.status, res.text, path);
+    const info = envelope.result.list[0];
+    if (!info) return null;
+    return {
+      symbol: info.symbol,
+      baseAsset: info.baseCoin,
+      quoteAsset: info.quoteCoin,
+      qtyStep: Number(info.lotSizeFilter.basePrecision) || 0,
+      minQty: Number(info.lotSizeFilter.minOrderQty) || 0,
+      minNotional: Number(info.lotSizeFilter.minOrderAmt) || 0,
+      trading: info.status === "Trading",
+    };
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<string> {
+    const isQuote = order.quoteAmount !== undefined;
+    const placed = await this.signed<{ orderId: string }>("POST", "/v5/order/create", {
+      category: "spot",
+      symbol: order.symbol,
+      side: order.side === "buy" ? "Buy" : "Sell",
+      orderType: "Market",
+      qty: String(isQuote ? order.quoteAmount : order.quantity),
+      marketUnit: isQuote ? "quoteCoin" : "baseCoin",
+      orderLinkId: order.clientOrderId,
+    });
+    return placed.orderId;
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<SpotOrder> {
+    const result = await this.signed<{ list: BybitOrder[] }>("GET", "/v5/order/realtime", {
+      category: "spot",
+      symbol,
+      orderId,
+    });
+    const order = result.list[0];
+    if (!order) throw new ExchangeApiError(this.exchange, 404, `orden ${orderId} no encontrada`, "/v5/order/realtime");
+
+    const side = order.side === "Buy" ? "buy" : "sell";
+    const executedQty = Number(order.cumExecQty) || 0;
+    const quoteQty = Number(order.cumExecValue) || 0;
+    const fee = Number(order.cumExecFee) || 0;
+    const [baseAsset, quoteAsset] = splitTicker(order.symbol);
+    return {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side,
+      status: BYBIT_STATUS[order.orderStatus] ?? "open",
+      executedQty,
+      quoteQty,
+      avgPrice: executedQty > 0 ? quoteQty / executedQty : 0,
+      fee,
+      // Spot: la comisión se cobra en el activo recibido
+      feeAsset: fee > 0 ? (side === "buy" ? baseAsset : quoteAsset) : null,
+    };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    await this.signed("POST", "/v5/order/cancel", { category: "spot", symbol, orderId });
+  }
+
+  protected async signed<T>(method: HttpMethod, path: string, params: Params = {}): Promise<T> {
+    const timestamp = String(Date.now());
+    const isGet = method === "GET";
+    const query = isGet ? toQueryString(params) : "";
+    const body = isGet ? "" : JSON.stringify(params);
+    const signature = hmacHex(
+      this.credentials.apiSecret,
+      `${timestamp}${this.credentials.apiKey}${RECV_WINDOW_MS}${isGet ? query : body}`
+    );
+
+    const res = await this.fetchImpl(`${this.baseUrl}${path}${query ? `?${query}` : ""}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "X-BAPI-API-KEY": this.credentials.apiKey,
+        "X-BAPI-TIMESTAMP": timestamp,
+        "X-BAPI-RECV-WINDOW": String(RECV_WINDOW_MS),
+        "X-BAPI-SIGN": signature,
+      },
+      body: isGet ? undefined : body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await res.text();
+    if (!res.ok) throw new ExchangeApiError(this.exchange, res.status, text, path);
+
+    // Bybit responde 200 con retCode ≠ 0 en errores de negocio/auth
+    const envelope = JSON.parse(text) as BybitEnvelope<T>;
+    if (envelope.retCode !== 0) throw new ExchangeApiError(this.exchange, res.status, text, path);
+    return envelope.result;
+  }
+}
+
+// --------------- OKX v5 ---------------
+
+interface OkxEnvelope<T> {
+  code: string;
+  msg: string;
+  data: T;
+}
+
+interface OkxBalance {
+  details: { ccy: string; availBal: string; frozenBal: string }[];
+}
+
+interface OkxInstrument {
+  instId: string;
+  baseCcy: string;
+  quoteCcy: string;
+  lotSz: string;
+  minSz: string;
+  state: string;
+}
+
+interface OkxOrder {
+  ordId: string;
+  instId: string;
+  side: "buy" | "sell";
+  state: string;
+  accFillSz: string;
+  avgPx: string;
+  fee: string;
+  feeCcy: string;
+}
+
+const OKX_STATUS: Record<string, SpotOrderStatus> = {
+  live: "open",
+  partially_filled: "partially_filled",
+  filled: "filled",
+  canceled: "canceled",
+  mmp_canceled: "canceled",
+};
+
+export class OkxClient implements ExchangeClient {
+  readonly exchange = "okx" as const;
+  readonly isTestnet: boolean;
+  protected baseUrl: string;
+  protected fetchImpl: typeof fetch;
+
+  constructor(protected credentials: ExchangeCredentials, options: ExchangeClientOptions = {}) {
+    if (!credentials.passphrase) {
+      throw new Error("OKX requiere passphrase");
+    }
+    this.isTestnet = options.isTestnet ?? false;
+    this.baseUrl = exchangeBaseUrl(this.exchange, this.isTestnet, options.env);
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  async getBalances(): Promise<ExchangeAssetBalance[]> {
+    const data = await this.signed<OkxBalance[]>("GET", "/api/v5/account/balance");
+    return data.flatMap((account) =>
+      account.details.map((d) => toBalance(d.ccy, d.availBal, d.frozenBal))
+    );
+  }
+
+  async canTrade(): Promise<boolean | null> {
+    const data = await this.signed<{ perm?: string }[]>("GET", "/api/v5/account/config");
+    const perm = data[0]?.perm;
+    return perm === undefined ? null : perm.split(",").includes("trade");
+  }
+
+  checkConnectivity(): Promise<ConnectivityCheck> {
+    return runConnectivityCheck(this);
+  }
+
+  tickerFor(baseAsset: string, quoteAsset: string): string {
+    return `${baseAsset}-${quoteAsset}`.toUpperCase();
+  }
+
+  async getInstrument(symbol: string): Promise<SpotInstrument | null> {
+    const path = "/api/v5/public/instruments";
+    const res = await publicGet(this.fetchImpl, this.exchange, this.baseUrl, path, { instType: "SPOT", instId: symbol });
+    if (!res.ok) throw new ExchangeApiError(this.exchange, res.status, res.text, path);
+
+    const envelope = JSON.parse(res.text) as OkxEnvelope<OkxInstrument[]>;
+    // 51001 = Instrument ID does not exist
+    if (envelope.code === "51001") return null;
+    if (envelope.code !== "0") throw new ExchangeApiError(this.exchange, res.status, res.text, path);
+    const info = envelope.data[0];
+    if (!info) return null;
+    return {
+      symbol: info.instId,
+      baseAsset: info.baseCcy,
+      quoteAsset: info.quoteCcy,
+      qtyStep: Number(info.lotSz) || 0,
+      minQty: Number(info.minSz) || 0,
+      minNotional: 0,
+      trading: info.state === "live",
+    };
+  }
+
+  async placeMarketOrder(order: MarketOrderRequest): Promise<string> {
+    const isQuote = order.quoteAmount !== undefined;
+    const data = await this.signed<{ ordId: string; sCode: string; sMsg: string }[]>("POST", "/api/v5/trade/order", {
+      instId: order.symbol,
+      tdMode: "cash",
+      side: order.side,
+      ordType: "market",
+      sz: String(isQuote ? order.quoteAmount : order.quantity),
+      tgtCcy: isQuote ? "quote_ccy" : "base_ccy",
+      // clOrdId de OKX: alfanumérico, hasta 32
+      clOrdId: order.clientOrderId.replace(/[^A-Za-z0-9]/g, "").slice(0, 32),
+    });
+    const placed = data[0];
+    if (!placed || placed.sCode !== "0") {
+      throw new ExchangeApiError(this.exchange, 200, JSON.stringify(placed ?? {}), "/api/v5/trade/order");
+    }
+    return placed.ordId;
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<SpotOrder> {
+    const data = await this.signed<OkxOrder[]>("GET", "/api/v5/trade/order", { instId: symbol, ordId: orderId });
+    const order = data[0];
+    if (!order) throw new ExchangeApiError(this.exchange, 404, `orden ${orderId} no encontrada`, "/api/v5/trade/order");
+
+    const executedQty = Number(order.accFillSz) || 0;
+    const avgPrice = Number(order.avgPx) || 0;
+    // OKX informa la comisión en negativo
+    const fee = Math.abs(Number(order.fee) || 0);
+    return {
+      orderId: order.ordId,
+      symbol: order.instId,
+      side: order.side,
+      status: OKX_STATUS[order.state] ?? "open",
+      executedQty,
+      quoteQty: executedQty * avgPrice,
+      avgPrice,
+      fee,
+      feeAsset: fee > 0 ? order.feeCcy || null : null,
+    };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    await this.signed("POST", "/api/v5/trade/cancel-order", { instId: symbol, ordId: orderId });
+  }
+
+  protected async signed<T>(method: HttpMethod, path: string, params: Params = {}): Promise<T> {
+    const timestamp = new Date().toISOString();
+    const isGet = method === "GET";
+    const query = isGet ? toQueryString(params) : "";
+    const requestPath = `${path}${query ? `?${query}` : ""}`;
+    const body = isGet ? "" : JSON.stringify(params);
+    const signature = createHmac("sha256", this.credentials.apiSecret)
+      .update(`${timestamp}${method}${requestPath}${body}`)
+      .digest("base64");
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "OK-ACCESS-KEY": this.credentials.apiKey,
+      "OK-ACCESS-SIGN": signature,
+      "OK-ACCESS-TIMESTAMP": timestamp,
+      "OK-ACCESS-PASSPHRASE": this.credentials.passphrase ?? "",
+    };
+    if (this.isTestnet) headers["x-simulated-trading"] = "1";
+
+    const res = await this.fetchImpl(`${this.baseUrl}${requestPath}`, {
+      method,
+      headers,
+      body: isGet ? undefined : body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await res.text();
+    if (!res.ok) throw new ExchangeApiError(this.exchange, res.status, text, path);
+
+    const envelope = JSON.parse(text) as OkxEnvelope<T>;
+    if (envelope.code !== "0") throw new ExchangeApiError(this.exchange, res.status, text, path);
+    return envelope.data;
+  }
+}
+
+// ---- helpers ----
+
+/**
+ * Prueba de conectividad común: saldo (auth + firma + reloj) y permiso de
+ * trading. Nunca lanza: el error queda en el resultado.
+ */
+async function runConnectivityCheck(client: ExchangeClient): Promise<ConnectivityCheck> {
+  const started = Date.now();
+  try {
+    const balances = await client.getBalances();
+    const canTrade = await client.canTrade();
+    return {
+      ok: true,
+      latencyMs: Date.now() - started,
+      checkedAt: new Date(),
+      assets: balances.filter((b) => b.free + b.locked > 0).length,
+      canTrade,
+      error: null,
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      checkedAt: new Date(),
+      assets: 0,
+      canTrade: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/** GET sin firmar (endpoints de mercado). No lanza por status: decide el caller. */
+async function publicGet(
+  fetchImpl: typeof fetch,
+  exchange: ExchangeId,
+  baseUrl: string,
+  path: string,
+  params: Params
+): Promise<{ ok: boolean; status: number; text: string }> {
+  const query = toQueryString(params);
+  const res = await fetchImpl(`${baseUrl}${path}${query ? `?${query}` : ""}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const text = await res.text().catch(() => "");
+  return { ok: res.ok, status: res.status, text: text || `${exchange} HTTP ${res.status}` };
+}
+
+/** Separa BASEQUOTE con los quotes habituales (USDT, USDC...). */
+function splitTicker(symbol: string): [string, string] {
+  const quote = ["USDT", "USDC", "BTC", "ETH"].find((q) => symbol.endsWith(q) && symbol.length > q.length);
+  return quote ? [symbol.slice(0, -quote.length), quote] : [symbol, ""];
+}
+
+function toBalance(asset: string, free: string, locked: string): ExchangeAssetBalance {
+  return { asset, free: Number(free) || 0, locked: Number(locked) || 0 };
+}
+
+function toQueryString(params: Params): string {
+  const search = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (v !== undefined && v !== null) search.set(k, String(v));
+  }
+  return search.toString();
+}
+
+function hmacHex(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
@@ -0,0 +1,31 @@
+export { CredentialVault, masterKeysFromEnv } from "./credential-vault";
+export type { MasterKey, SealedCredentials, SealedSecret } from "./credential-vault";
+export {
+  BinanceClient,
+  BybitClient,
+  OkxClient,
+  ExchangeApiError,
+  createExchangeClient,
+  exchangeBaseUrl,
+} from "./exchange-client";
+export type { ExchangeClient, ExchangeClientOptions } from "./exchange-client";
+export { ExchangeConnectionStore } from "./connection-store";
+export type { UnsealedConnection } from "./connection-store";
+export { CexSymbolMapper, CEX_LISTED_TOKENS, cexTokenMapFromEnv } from "./symbol-map";
+export { validateExchangeConnectionInput } from "./connection-input";
+export type { ExchangeConnectionInput } from "./connection-input";
+export { MockExchange, DEFAULT_MOCK_EXCHANGE_CONFIG, getMockExchange } from "./mock-exchange";
+export type { MockExchangeConfig } from "./mock-exchange";
+export { EXCHANGE_IDS, EXCHANGE_LABELS, EXCHANGE_REQUIRES_PASSPHRASE } from "./types";
+export type {
+  ConnectivityCheck,
+  ExchangeAssetBalance,
+  ExchangeConnection,
+  ExchangeCredentials,
+  ExchangeId,
+  MarketOrderRequest,
+  SpotInstrument,
+  SpotOrder,
+  SpotOrderSide,
+  SpotOrderStatus,
+} from "./types";
@@ -0,0 +1,556 @@
+/**
+ * MockExchange — exchange en memoria que habla los tres dialectos REST
+ * (Binance, Bybit v5, OKX v5) y verifica sus firmas de verdad, para
+ * probar conexiones y ejecución spot sin tocar un exchange real.
+ *
+ * Las órdenes a mercado se llenan al precio de `prices` (contra USDT)
+ * con comisión `feeRate` en el activo recibido, y se quedan "abiertas"
+ * las primeras `pollsUntilFilled` consultas para ejercitar el polling.
+ *
+ * Se sirve en `/api/simulation/mock-exchange/<exchange>/...`; para usarlo:
+ *   EXCHANGE_API_URL_BINANCE=http://localhost:3000/api/simulation/mock-exchange/binance
+ * con la key/secret de MOCK_EXCHANGE_API_KEY / MOCK_EXCHANGE_API_SECRET
+ * (obligatorias para la ruta; "mock-key" / "mock-secret" y passphrase
+ * "mock-pass" en OKX son solo los valores por defecto en proceso).
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { ExchangeId, SpotOrderSide } from "./types";
+
+const QUOTE_ASSET = "USDT";
+
+export interface MockExchangeConfig {
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string;
+  /** Saldos iniciales por activo. */
+  balances: Record<string, number>;
+  /** Precio en USDT de cada activo listado. */
+  prices: Record<string, number>;
+  /** Comisión taker, cobrada en el activo recibido. */
+  feeRate: number;
+  /** Consultas de la orden que devuelven "abierta" antes del fill. */
+  pollsUntilFilled: number;
+  /** false = la key es de solo lectura. */
+  canTrade: boolean;
+}
+
+export const DEFAULT_MOCK_EXCHANGE_CONFIG: MockExchangeConfig = {
+  apiKey: "mock-key",
+  apiSecret: "mock-secret",
+  passphrase: "mock-pass",
+  balances: { USDT: 10_000 },
+  prices: {
+    BTC: 60_000,
+    ETH: 3_000,
+    SOL: 150,
+    AAVE: 100,
+    LINK: 15,
+    UNI: 8,
+    WIF: 2,
+    ARB: 0.8,
+    JUP: 0.8,
+    PEPE: 0.00001,
+    SHIB: 0.00002,
+    BONK: 0.00002,
+  },
+  feeRate: 0.001,
+  pollsUntilFilled: 1,
+  canTrade: true,
+};
+
+interface MockOrder {
+  orderId: string;
+  clientOrderId: string;
+  asset: string;
+  side: SpotOrderSide;
+  executedQty: number;
+  quoteQty: number;
+  price: number;
+  fee: number;
+  feeAsset: string;
+  pendingPolls: number;
+}
+
+/** Estado de la orden tal como lo ve el cliente en esta consulta. */
+interface OrderView {
+  status: "open" | "filled";
+  executedQty: number;
+  quoteQty: number;
+  price: number;
+  fee: number;
+}
+
+export class MockExchange {
+  private config: MockExchangeConfig;
+  private balances: Map<string, { free: number; locked: number }>;
+  private orders = new Map<string, MockOrder>();
+  private nextOrderId = 1;
+
+  constructor(config: Partial<MockExchangeConfig> = {}) {
+    this.config = { ...DEFAULT_MOCK_EXCHANGE_CONFIG, ...config };
+    this.balances = new Map(
+      Object.entries(this.config.balances).map(([asset, free]) => [asset, { free, locked: 0 }])
+    );
+  }
+
+  setPrice(asset: string, price: number): void {
+    this.config.prices = { ...this.config.prices, [asset]: price };
+  }
+
+  getBalance(asset: string): number {
+    return this.balances.get(asset)?.free ?? 0;
+  }
+
+  /**
+   * Atiende una petición. `path` es el path relativo del exchange
+   * (p.ej. `/api/v3/account`), sin el prefijo de la ruta del mock.
+   */
+  async handle(exchange: ExchangeId, path: string, req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const rawQuery = url.search.startsWith("?") ? url.search.slice(1) : url.search;
+    const body = req.method === "GET" ? "" : await req.text();
+
+    switch (exchange) {
+      case "binance":
+        return this.handleBinance(req.method, path, rawQuery, req.headers);
+      case "bybit":
+        return this.handleBybit(path, rawQuery, body, req.headers);
+      case "okx":
+        return this.handleOkx(req.method, path, rawQuery, body, req.headers);
+    }
+  }
+
+  // --------------- Binance ---------------
+
+  private handleBinance(method: string, path: string, rawQuery: string, headers: Headers): Response {
+    const params = new URLSearchParams(rawQuery);
+
+    if (path === "/api/v3/exchangeInfo") {
+      const asset = this.assetFromTicker(params.get("symbol") ?? "", "");
+      if (!asset) return json({ code: -1121, msg: "Invalid symbol." }, 400);
+      const step = stepFor(this.config.prices[asset]);
+      return json({
+        symbols: [
+          {
+            symbol: `${asset}${QUOTE_ASSET}`,
+            status: "TRADING",
+            baseAsset: asset,
+            quoteAsset: QUOTE_ASSET,
+            filters: [
+              { filterType: "LOT_SIZE", minQty: String(step), maxQty: "1000000000000", stepSize: String(step) },
+              { filterType: "NOTIONAL", minNotional: "5" },
+            ],
+          },
+        ],
+      });
+    }
+
+    if (headers.get("X-MBX-APIKEY") !== this.config.apiKey) {
+      return json({ code: -2015, msg: "Invalid API-key, IP, or permissions for action." }, 401);
+    }
+    const match = rawQuery.match(/^(.*)&signature=([0-9a-f]+)$/);
+    if (!match || !safeEqual(match[2], hmac(this.config.apiSecret, match[1], "hex"))) {
+      return json({ code: -1022, msg: "Signature for this request is not valid." }, 401);
+    }
+
+    if (path === "/api/v3/account") {
+      return json({
+        canTrade: this.config.canTrade,
+        balances: this.balanceList().map((b) => ({
+          asset: b.asset,
+          free: String(b.free),
+          locked: String(b.locked),
+        })),
+      });
+    }
+
+    if (path === "/api/v3/order" && method === "POST") {
+      const placed = this.placeOrder(
+        this.assetFromTicker(params.get("symbol") ?? "", ""),
+        params.get("side") === "BUY" ? "buy" : "sell",
+        params.get("quoteOrderQty") ? Number(params.get("quoteOrderQty")) : null,
+        params.get("quantity") ? Number(params.get("quantity")) : null,
+        params.get("newClientOrderId") ?? ""
+      );
+      if ("error" in placed) return json({ code: -2010, msg: placed.error }, 400);
+      return json({ symbol: params.get("symbol"), orderId: Number(placed.orderId), clientOrderId: placed.clientOrderId });
+    }
+
+    if (path === "/api/v3/order" || path === "/api/v3/myTrades") {
+      const order = this.orders.get(params.get("orderId") ?? "");
+      if (!order) return json({ code: -2013, msg: "Order does not exist." }, 400);
+
+      if (method === "DELETE") {
+        // Las órdenes a mercado del mock ya están llenas: no se cancelan
+        return json({ code: -2011, msg: "Unknown order sent." }, 400);
+      }
+      const view = this.viewOrder(order);
+      if (path === "/api/v3/myTrades") {
+        return json(
+          view.status === "filled"
+            ? [{ orderId: Number(order.orderId), qty: String(view.executedQty), commission: String(view.fee), commissionAsset: order.feeAsset }]
+            : []
+        );
+      }
+      return json({
+        symbol: `${order.asset}${QUOTE_ASSET}`,
+        orderId: Number(order.orderId),
+        clientOrderId: order.clientOrderId,
+        side: order.side === "buy" ? "BUY" : "SELL",
+        type: "MARKET",
+        status: view.status === "filled" ? "FILLED" : "NEW",
+        executedQty: String(view.executedQty),
+        cummulativeQuoteQty: String(view.quoteQty),
+      });
+    }
+
+    return json({ code: -1100, msg: `Unknown endpoint ${path}` }, 404);
+  }
+
+  // --------------- Bybit v5 ---------------
+
+  private handleBybit(path: string, rawQuery: string, body: string, headers: Headers): Response {
+    const params = new URLSearchParams(rawQuery);
+
+    if (path === "/v5/market/instruments-info") {
+      const asset = this.assetFromTicker(params.get("symbol") ?? "", "");
+      const step = asset ? stepFor(this.config.prices[asset]) : 0;
+      return bybitOk({
+        category: "spot",
+        list: asset
+          ? [
+              {
+                symbol: `${asset}${QUOTE_ASSET}`,
+                baseCoin: asset,
+                quoteCoin: QUOTE_ASSET,
+                status: "Trading",
+                lotSizeFilter: { basePrecision: String(step), minOrderQty: String(step), minOrderAmt: "1" },
+              },
+            ]
+          : [],
+      });
+    }
+
+    const timestamp = headers.get("X-BAPI-TIMESTAMP") ?? "";
+    const recvWindow = headers.get("X-BAPI-RECV-WINDOW") ?? "";
+    if (headers.get("X-BAPI-API-KEY") !== this.config.apiKey) {
+      return json({ retCode: 10003, retMsg: "API key is invalid.", result: {} });
+    }
+    const expected = hmac(
+      this.config.apiSecret,
+      `${timestamp}${this.config.apiKey}${recvWindow}${body || rawQuery}`,
+      "hex"
+    );
+    if (!safeEqual(headers.get("X-BAPI-SIGN") ?? "", expected)) {
+      return json({ retCode: 10004, retMsg: "error sign!", result: {} });
+    }
+
+    if (path === "/v5/account/wallet-balance") {
+      return bybitOk({
+        list: [
+          {
+            accountType: "UNIFIED",
+            coin: this.balanceList().map((b) => ({
+              coin: b.asset,
+              walletBalance: String(b.free + b.locked),
+              locked: String(b.locked),
+            })),
+          },
+        ],
+      });
+    }
+    if (path === "/v5/user/query-api") {
+      return bybitOk({
+        readOnly: this.config.canTrade ? 0 : 1,
+        permissions: { Spot: this.config.canTrade ? ["SpotTrade"] : [] },
+      });
+    }
+
+    if (path === "/v5/order/create") {
+      const req = JSON.parse(body || "{}") as Record<string, string>;
+      const isQuote = req.marketUnit === "quoteCoin" || (req.side === "Buy" && !req.marketUnit);
+      const placed = this.placeOrder(
+        this.assetFromTicker(req.symbol ?? "", ""),
+        req.side === "Buy" ? "buy" : "sell",
+        isQuote ? Number(req.qty) : null,
+        isQuote ? null : Number(req.qty),
+        req.orderLinkId ?? ""
+      );
+      if ("error" in placed) return json({ retCode: 170131, retMsg: placed.error, result: {} });
+      return bybitOk({ orderId: placed.orderId, orderLinkId: placed.clientOrderId });
+    }
+
+    if (path === "/v5/order/realtime") {
+      const order = this.orders.get(params.get("orderId") ?? "");
+      if (!order) return bybitOk({ list: [] });
+      const view = this.viewOrder(order);
+      return bybitOk({
+        list: [
+          {
+            orderId: order.orderId,
+            orderLinkId: order.clientOrderId,
+            symbol: `${order.asset}${QUOTE_ASSET}`,
+            side: order.side === "buy" ? "Buy" : "Sell",
+            orderStatus: view.status === "filled" ? "Filled" : "New",
+            cumExecQty: String(view.executedQty),
+            cumExecValue: String(view.quoteQty),
+            cumExecFee: String(view.fee),
+            avgPrice: String(view.price),
+          },
+        ],
+      });
+    }
+
+    if (path === "/v5/order/cancel") {
+      return json({ retCode: 170213, retMsg: "Order does not exist.", result: {} });
+    }
+
+    return json({ retCode: 10005, retMsg: `Unknown endpoint ${path}`, result: {} }, 404);
+  }
+
+  // --------------- OKX v5 ---------------
+
+  private handleOkx(
+    method: string,
+    path: string,
+    rawQuery: string,
+    body: string,
+    headers: Headers
+  ): Response {
+    const params = new URLSearchParams(rawQuery);
+
+    if (path === "/api/v5/public/instruments") {
+      const asset = this.assetFromTicker(params.get("instId") ?? "", "-");
+      if (!asset) return json({ code: "51001", msg: "Instrument ID does not exist", data: [] });
+      const step = stepFor(this.config.prices[asset]);
+      return okxOk([
+        {
+          instId: `${asset}-${QUOTE_ASSET}`,
+          instType: "SPOT",
+          baseCcy: asset,
+          quoteCcy: QUOTE_ASSET,
+          lotSz: String(step),
+          minSz: String(step),
+          state: "live",
+        },
+      ]);
+    }
+
+    if (headers.get("OK-ACCESS-KEY") !== this.config.apiKey) {
+      return json({ code: "50111", msg: "Invalid OK-ACCESS-KEY", data: [] }, 401);
+    }
+    if (headers.get("OK-ACCESS-PASSPHRASE") !== this.config.passphrase) {
+      return json({ code: "50105", msg: "Invalid OK-ACCESS-PASSPHRASE", data: [] }, 401);
+    }
+    const timestamp = headers.get("OK-ACCESS-TIMESTAMP") ?? "";
+    const requestPath = `${path}${rawQuery ? `?${rawQuery}` : ""}`;
+    const expected = hmac(this.config.apiSecret, `${timestamp}${method}${requestPath}${body}`, "base64");
+    if (!safeEqual(headers.get("OK-ACCESS-SIGN") ?? "", expected)) {
+      return json({ code: "50113", msg: "Invalid Sign", data: [] }, 401);
+    }
+
+    if (path === "/api/v5/account/balance") {
+      return okxOk([
+        {
+          details: this.balanceList().map((b) => ({
+            ccy: b.asset,
+            availBal: String(b.free),
+            frozenBal: String(b.locked),
+          })),
+        },
+      ]);
+    }
+    if (path === "/api/v5/account/config") {
+      return okxOk([{ perm: this.config.canTrade ? "read_only,trade" : "read_only" }]);
+    }
+
+    if (path === "/api/v5/trade/order" && method === "POST") {
+      const req = JSON.parse(body || "{}") as Record<string, string>;
+      const isQuote = req.tgtCcy === "quote_ccy" || (req.side === "buy" && !req.tgtCcy);
+      const placed = this.placeOrder(
+        this.assetFromTicker(req.instId ?? "", "-"),
+        req.side === "buy" ? "buy" : "sell",
+        isQuote ? Number(req.sz) : null,
+        isQuote ? null : Number(req.sz),
+        req.clOrdId ?? ""
+      );
+      if ("error" in placed) {
+        return json({ code: "1", msg: "", data: [{ ordId: "", sCode: "51008", sMsg: placed.error }] });
+      }
+      return okxOk([{ ordId: placed.orderId, clOrdId: placed.clientOrderId, sCode: "0", sMsg: "" }]);
+    }
+
+    if (path === "/api/v5/trade/order") {
+      const order = this.orders.get(params.get("ordId") ?? "");
+      if (!order) return json({ code: "51603", msg: "Order does not exist", data: [] });
+      const view = this.viewOrder(order);
+      return okxOk([
+        {
+          ordId: order.orderId,
+          clOrdId: order.clientOrderId,
+          instId: `${order.asset}-${QUOTE_ASSET}`,
+          side: order.side,
+          state: view.status === "filled" ? "filled" : "live",
+          accFillSz: String(view.executedQty),
+          avgPx: view.executedQty > 0 ? String(view.price) : "",
+          fee: String(-view.fee),
+          feeCcy: order.feeAsset,
+        },
+      ]);
+    }
+
+    if (path === "/api/v5/trade/cancel-order") {
+      return json({ code: "1", msg: "", data: [{ sCode: "51402", sMsg: "Order already completed" }] });
+    }
+
+    return json({ code: "50000", msg: `Unknown endpoint ${path}`, data: [] }, 404);
+  }
+
+  // --------------- Matching ---------------
+
+  /** Llena la orden a mercado al precio configurado y mueve los saldos. */
+  private placeOrder(
+    asset: string | null,
+    side: SpotOrderSide,
+    quoteAmount: number | null,
+    quantity: number | null,
+    clientOrderId: string
+  ): MockOrder | { error: string } {
+    if (!this.config.canTrade) return { error: "API key sin permiso de trading" };
+    if (!asset) return { error: "Par desconocido" };
+    const price = this.config.prices[asset];
+    const step = stepFor(price);
+
+    let executedQty: number;
+    if (side === "buy") {
+      if (!quoteAmount || quoteAmount <= 0) return { error: "Falta el importe en quote" };
+      executedQty = floorToStep(quoteAmount / price, step);
+    } else {
+      if (!quantity || quantity <= 0) return { error: "Falta la cantidad" };
+      executedQty = floorToStep(quantity, step);
+    }
+    if (executedQty <= 0) return { error: "Cantidad por debajo del step" };
+
+    const quoteQty = executedQty * price;
+    const base = this.balances.get(asset) ?? { free: 0, locked: 0 };
+    const quote = this.balances.get(QUOTE_ASSET) ?? { free: 0, locked: 0 };
+
+    let fee: number;
+    let feeAsset: string;
+    if (side === "buy") {
+      if (quote.free < quoteQty) return { error: "Account has insufficient balance for requested action." };
+      fee = executedQty * this.config.feeRate;
+      feeAsset = asset;
+      quote.free -= quoteQty;
+      base.free += executedQty - fee;
+    } else {
+      if (base.free < executedQty) return { error: "Account has insufficient balance for requested action." };
+      fee = quoteQty * this.config.feeRate;
+      feeAsset = QUOTE_ASSET;
+      base.free -= executedQty;
+      quote.free += quoteQty - fee;
+    }
+    this.balances.set(asset, base);
+    this.balances.set(QUOTE_ASSET, quote);
+
+    const order: MockOrder = {
+      orderId: String(this.nextOrderId++),
+      clientOrderId,
+      asset,
+      side,
+      executedQty,
+      quoteQty,
+      price,
+      fee,
+      feeAsset,
+      pendingPolls: this.config.pollsUntilFilled,
+    };
+    this.orders.set(order.orderId, order);
+    return order;
+  }
+
+  private viewOrder(order: MockOrder): OrderView {
+    if (order.pendingPolls > 0) {
+      order.pendingPolls--;
+      return { status: "open", executedQty: 0, quoteQty: 0, price: 0, fee: 0 };
+    }
+    return {
+      status: "filled",
+      executedQty: order.executedQty,
+      quoteQty: order.quoteQty,
+      price: order.price,
+      fee: order.fee,
+    };
+  }
+
+  /** Activo base de `PEPEUSDT` / `PEPE-USDT` si está listado. */
+  private assetFromTicker(ticker: string, separator: string): string | null {
+    const suffix = `${separator}${QUOTE_ASSET}`;
+    if (!ticker.endsWith(suffix)) return null;
+    const asset = ticker.slice(0, -suffix.length);
+    return this.config.prices[asset] ? asset : null;
+  }
+
+  private balanceList(): { asset: string; free: number; locked: number }[] {
+    return [...this.balances.entries()].map(([asset, b]) => ({ asset, ...b }));
+  }
+}
+
+let sharedMock: MockExchange | null = null;
+
+/**
+ * Instancia compartida por la ruta del mock, configurada desde env. Sin
+ * MOCK_EXCHANGE_API_KEY / MOCK_EXCHANGE_API_SECRET devuelve null: la ruta
+ * no acepta las credenciales por defecto, que son públicas.
+ */
+export function getMockExchange(env: Record<string, string | undefined> = process.env): MockExchange | null {
+  if (!env.MOCK_EXCHANGE_API_KEY || !env.MOCK_EXCHANGE_API_SECRET) return null;
+  if (!sharedMock) {
+    sharedMock = new MockExchange({
+      apiKey: env.MOCK_EXCHANGE_API_KEY,
+      apiSecret: env.MOCK_EXCHANGE_API_SECRET,
+      passphrase: env.MOCK_EXCHANGE_PASSPHRASE || DEFAULT_MOCK_EXCHANGE_CONFIG.passphrase,
+    });
+  }
+  return sharedMock;
+}
+
+// ---- helpers ----
+
+/** Step de cantidad según el precio: ~1 céntimo de resolución o mejor. */
+function stepFor(price: number): number {
+  if (price >= 1_000) return 0.0001;
+  if (price >= 1) return 0.01;
+  return 1;
+}
+
+function floorToStep(quantity: number, step: number): number {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return Number((Math.floor(quantity / step + 1e-9) * step).toFixed(decimals));
+}
+
+function hmac(secret: string, payload: string, encoding: "hex" | "base64"): string {
+  return createHmac("sha256", secret).update(payload).digest(encoding);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function bybitOk(result: unknown): Response {
+  return json({ retCode: 0, retMsg: "OK", result, time: Date.now() });
+}
+
+function okxOk(data: unknown): Response {
+  return json({ code: "0", msg: "", data });
+}
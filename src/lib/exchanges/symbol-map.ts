@@ -0,0 +1,93 @@
+import type { ExchangeClient } from "./exchange-client";
+import type { SpotInstrument } from "./types";
+
+/**
+ * Tokens on-chain con su activo en los exchanges, por `red:dirección`.
+ *
+ * Solo mapeamos por dirección: un símbolo de DexScreener no identifica
+ * el token (hay decenas de "PEPE"), así que un token fuera de esta
+ * lista (o de los overrides) no se opera en CEX.
+ */
+export const CEX_LISTED_TOKENS: Record<string, string> = {
+  "ethereum:0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2": "ETH",
+  "ethereum:0x2260fac5e5542a773aa44fbcfedf7c193bc2c599": "BTC",
+  "ethereum:0x514910771af9ca656af840dff83e8264ecf986ca": "LINK",
+  "ethereum:0x1f9840a85d5af5bf1d1762f925bdaddc4201f984": "UNI",
+  "ethereum:0x7fc66500c84a76ad7e9c93437bfc5ac33e2ddae9": "AAVE",
+  "ethereum:0x6982508145454ce325ddbe47a25d4ec3d2311933": "PEPE",
+  "ethereum:0x95ad61b0a150d79219dcf64e1e6cc01f0b64c4ce": "SHIB",
+  "arbitrum:0x82af49447d8a07e3bd95bd0d56f35241523fbab1": "ETH",
+  "arbitrum:0x912ce59144191c1204e64559fe8253a0e49e6548": "ARB",
+  "base:0x4200000000000000000000000000000000000006": "ETH",
+  "solana:So11111111111111111111111111111111111111112": "SOL",
+  "solana:DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263": "BONK",
+  "solana:EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm": "WIF",
+  "solana:JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN": "JUP",
+};
+
+/**
+ * Overrides desde entorno: `CEX_TOKEN_MAP="red:dirección=ACTIVO,..."`.
+ */
+export function cexTokenMapFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of (env.CEX_TOKEN_MAP ?? "").split(",")) {
+    const [key, asset] = entry.split("=").map((s) => s.trim());
+    const [network, address] = (key ?? "").split(":");
+    if (network && address && asset) map[tokenKey(network, address)] = asset.toUpperCase();
+  }
+  return map;
+}
+
+/**
+ * CexSymbolMapper — dirección de token → par spot del exchange.
+ *
+ * Resuelve el activo base con CEX_LISTED_TOKENS + overrides, arma el
+ * ticker contra el quote (USDT) en el formato del exchange y confirma
+ * que el par existe y cotiza. Cachea por proceso, incluidos los "no
+ * listado", para no consultar el exchange en cada ciclo.
+ */
+export class CexSymbolMapper {
+  private assets: Record<string, string>;
+  private cache = new Map<string, SpotInstrument | null>();
+
+  constructor(
+    private client: ExchangeClient,
+    private quoteAsset = "USDT",
+    overrides: Record<string, string> = {}
+  ) {
+    this.assets = { ...CEX_LISTED_TOKENS };
+    for (const [key, asset] of Object.entries(overrides)) {
+      const [network, ...rest] = key.split(":");
+      this.assets[tokenKey(network, rest.join(":"))] = asset;
+    }
+  }
+
+  /** Activo base para el token, sin consultar el exchange. */
+  baseAssetFor(tokenAddress: string, network: string): string | null {
+    return this.assets[tokenKey(network, tokenAddress)] ?? null;
+  }
+
+  /** Par spot operable para el token, o null si no está listado. */
+  async resolve(tokenAddress: string, network: string): Promise<SpotInstrument | null> {
+    const base = this.baseAssetFor(tokenAddress, network);
+    if (!base) return null;
+
+    const ticker = this.client.tickerFor(base, this.quoteAsset);
+    if (this.cache.has(ticker)) return this.cache.get(ticker)!;
+
+    const instrument = await this.client.getInstrument(ticker);
+    const usable = instrument && instrument.trading ? instrument : null;
+    this.cache.set(ticker, usable);
+    return usable;
+  }
+}
+
+// ---- helpers ----
+
+/** Direcciones EVM sin distinguir mayúsculas; Solana (base58) tal cual. */
+function tokenKey(network: string, address: string): string {
+  const net = network.toLowerCase();
+  return `${net}:${net === "solana" ? address : address.toLowerCase()}`;
+}
@@ -0,0 +1,101 @@
+export const EXCHANGE_IDS = ["binance", "bybit", "okx"] as const;
+export type ExchangeId = (typeof EXCHANGE_IDS)[number];
+
+export const EXCHANGE_LABELS: Record<ExchangeId, string> = {
+  binance: "Binance",
+  bybit: "Bybit",
+  okx: "OKX",
+};
+
+/** OKX firma además con una passphrase elegida al crear la API key. */
+export const EXCHANGE_REQUIRES_PASSPHRASE: Record<ExchangeId, boolean> = {
+  binance: false,
+  bybit: false,
+  okx: true,
+};
+
+/** Credenciales en claro: solo existen en memoria del servidor. */
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string | null;
+}
+
+/** Conexión tal como la ve el usuario: nunca lleva credenciales. */
+export interface ExchangeConnection {
+  id: string;
+  exchange: ExchangeId;
+  label: string | null;
+  /** Últimos 4 caracteres de la API key, para reconocerla. */
+  apiKeyHint: string | null;
+  hasPassphrase: boolean;
+  isTestnet: boolean;
+  isActive: boolean;
+  lastCheckAt: string | null;
+  lastCheckOk: boolean | null;
+  lastCheckError: string | null;
+  createdAt: string;
+}
+
+export interface ExchangeAssetBalance {
+  asset: string;
+  free: number;
+  locked: number;
+}
+
+export interface ConnectivityCheck {
+  ok: boolean;
+  latencyMs: number;
+  checkedAt: Date;
+  /** Activos con saldo > 0 (0 si falla). */
+  assets: number;
+  /** La key tiene permiso de trading spot (null si el exchange no lo dice). */
+  canTrade: boolean | null;
+  error: string | null;
+}
+
+// --------------- Spot trading ---------------
+
+/** Par spot del exchange con sus reglas de tamaño. */
+export interface SpotInstrument {
+  /** Ticker en el formato del exchange (PEPEUSDT, PEPE-USDT...). */
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  /** Incremento mínimo de cantidad en base. */
+  qtyStep: number;
+  minQty: number;
+  /** Nocional mínimo en quote (0 si el exchange no lo publica). */
+  minNotional: number;
+  trading: boolean;
+}
+
+export type SpotOrderSide = "buy" | "sell";
+export type SpotOrderStatus = "open" | "partially_filled" | "filled" | "canceled" | "rejected";
+
+/**
+ * Orden a mercado. Las compras indican `quoteAmount` (USDT a gastar) y
+ * las ventas `quantity` (base a vender).
+ */
+export interface MarketOrderRequest {
+  symbol: string;
+  side: SpotOrderSide;
+  quoteAmount?: number;
+  quantity?: number;
+  clientOrderId: string;
+}
+
+export interface SpotOrder {
+  orderId: string;
+  symbol: string;
+  side: SpotOrderSide;
+  status: SpotOrderStatus;
+  /** Cantidad base ejecutada (bruta, antes de comisiones en base). */
+  executedQty: number;
+  /** Quote intercambiado. */
+  quoteQty: number;
+  avgPrice: number;
+  /** Comisión total cobrada (positiva) y su activo; null si aún no hay fills. */
+  fee: number;
+  feeAsset: string | null;
+}
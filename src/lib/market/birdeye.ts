@@ -1,4 +1,12 @@
-import type { DexPair } from "./dexscreener";
+import { DexScreenerClient, type DexPair } from "./dexscreener";
+import { getMarketDataCache } from "./cache";
+import {
+  ProviderHttpError,
+  ProviderUnavailableError,
+  getProviderRouter,
+  parseRetryAfter,
+  type MarketDataProvider,
+} from "./provider-router";
 
 const BASE_URL = "https://public-api.birdeye.so";
 
@@ -13,16 +21,24 @@ type BirdeyeListResponse = {
   success?: boolean;
 };
 
+type BirdeyePriceResponse = {
+  data?: { value?: number | null } | null;
+  success?: boolean;
+};
+
 /**
  * Birdeye client focused on Solana token discovery.
  *
  * It normalizes a few known response shapes and returns token addresses
- * that detectors can later enrich with DexScreener pairs.
+ * that detectors can later enrich with DexScreener pairs. Each request
+ * (all fallback paths together) goes through the ProviderRouter.
  */
-export class BirdeyeClient {
+export class BirdeyeClient implements MarketDataProvider {
+  readonly providerName = "birdeye" as const;
   private apiKey: string;
   private lastRequestMs = 0;
   private readonly minIntervalMs = 1100;
+  private dex = new DexScreenerClient(this.minIntervalMs);
 
   constructor() {
     this.apiKey = process.env.BIRDEYE_API_KEY ?? "";
@@ -32,20 +48,24 @@ export class BirdeyeClient {
   }
 
   async getTrendingTokenAddresses(limit = 50): Promise<string[]> {
-    const body = await this.fetchWithFallback([
-      `/defi/token_trending?sort_by=rank&sort_type=asc&offset=0&limit=${limit}`,
-      `/defi/v3/token/trending?sort_by=rank&sort_type=asc&offset=0&limit=${limit}`,
-    ]);
-    return uniqueAddresses(extractAddressList(body));
+    return getMarketDataCache().getOrFetch("birdeye.trending", String(limit), async () => {
+      const body = await this.fetchWithFallback([
+        `/defi/token_trending?sort_by=rank&sort_type=asc&offset=0&limit=${limit}`,
+        `/defi/v3/token/trending?sort_by=rank&sort_type=asc&offset=0&limit=${limit}`,
+      ]);
+      return uniqueAddresses(extractAddressList(body));
+    });
   }
 
   async getNewTokenAddresses(limit = 50): Promise<string[]> {
-    const body = await this.fetchWithFallback([
-      `/defi/v2/tokens/new_listing?offset=0&limit=${limit}`,
-      `/defi/token_new_listing?offset=0&limit=${limit}`,
-      `/defi/v3/token/new_listing?offset=0&limit=${limit}`,
-    ]);
-    return uniqueAddresses(extractAddressList(body));
+    return getMarketDataCache().getOrFetch("birdeye.new_listing", String(limit), async () => {
+      const body = await this.fetchWithFallback([
+        `/defi/v2/tokens/new_listing?offset=0&limit=${limit}`,
+        `/defi/token_new_listing?offset=0&limit=${limit}`,
+        `/defi/v3/token/new_listing?offset=0&limit=${limit}`,
+      ]);
+      return uniqueAddresses(extractAddressList(body));
+    });
   }
 
   async getTrendingPairs(limit = 50): Promise<DexPair[]> {
@@ -58,7 +78,27 @@ export class BirdeyeClient {
     return this.addressesToPairs(addresses);
   }
 
+  supportsNetwork(network: string): boolean {
+    return network.toLowerCase() === "solana";
+  }
+
+  async getTokenPriceUsd(network: string, tokenAddress: string): Promise<number | null> {
+    if (!this.supportsNetwork(network)) return null;
+
+    const body = await getMarketDataCache().getOrFetch("birdeye.price", tokenAddress, () =>
+      this.fetchWithFallback([`/defi/price?address=${encodeURIComponent(tokenAddress)}`])
+    ) as BirdeyePriceResponse;
+    const price = Number(body.data?.value);
+    return Number.isFinite(price) && price > 0 ? price : null;
+  }
+
   private async addressesToPairs(addresses: string[]): Promise<DexPair[]> {
+    // Sin DexScreener no hay pares: mejor fallar y que Solana pase a Gecko
+    const router = getProviderRouter();
+    if (addresses.length > 0 && !router.isAvailable("dexscreener")) {
+      throw new ProviderUnavailableError("dexscreener", Date.now());
+    }
+
     const pairs: DexPair[] = [];
     for (const address of addresses) {
       const pair = await this.fetchDexPairByAddress(address);
@@ -67,43 +107,48 @@ export class BirdeyeClient {
     return pairs;
   }
 
+  /** Vía DexScreenerClient: comparte caché con health, quotes y posiciones. */
   private async fetchDexPairByAddress(address: string): Promise<DexPair | null> {
-    await this.throttle();
-    const url = `https://api.dexscreener.com/tokens/v1/solana/${address}`;
-    const res = await fetch(url);
-    if (!res.ok) return null;
-    const data = (await res.json()) as DexPair[] | { pairs?: DexPair[] | null };
-    const pairs = Array.isArray(data) ? data : data.pairs ?? [];
-    if (!pairs.length) return null;
-    return pairs.reduce((best, p) =>
-      (p.liquidity?.usd ?? 0) > (best.liquidity?.usd ?? 0) ? p : best
-    );
+    try {
+      return await this.dex.getBestPair("solana", address);
+    } catch {
+      return null;
+    }
   }
 
   private async fetchWithFallback(paths: string[]): Promise<unknown> {
-    let lastError: unknown;
-    for (const path of paths) {
-      try {
-        await this.throttle();
-        const res = await fetch(`${BASE_URL}${path}`, {
-          headers: {
-            "X-API-KEY": this.apiKey,
-            "x-chain": "solana",
-            accept: "application/json",
-          },
-        });
-        if (!res.ok) {
-          const msg = await res.text().catch(() => "");
-          throw new Error(`Birdeye ${res.status}: ${msg}`);
+    return getProviderRouter().call("birdeye", async () => {
+      let lastError: unknown;
+      for (const path of paths) {
+        try {
+          await this.throttle();
+          const res = await fetch(`${BASE_URL}${path}`, {
+            headers: {
+              "X-API-KEY": this.apiKey,
+              "x-chain": "solana",
+              accept: "application/json",
+            },
+          });
+          if (!res.ok) {
+            const msg = await res.text().catch(() => "");
+            throw new ProviderHttpError(
+              "birdeye",
+              res.status,
+              `Birdeye ${res.status}: ${msg}`,
+              parseRetryAfter(res.headers.get("retry-after"))
+            );
+          }
+          return (await res.json()) as BirdeyeListResponse;
+        } catch (err) {
+          // 429: las rutas alternativas comparten cuota
+          if (err instanceof ProviderHttpError && err.status === 429) throw err;
+          lastError = err;
         }
-        return (await res.json()) as BirdeyeListResponse;
-      } catch (err) {
-        lastError = err;
       }
-    }
-    throw lastError instanceof Error
-      ? lastError
-      : new Error("Birdeye request failed");
+      throw lastError instanceof Error
+        ? lastError
+        : new Error("Birdeye request failed");
+    });
   }
 
   private async throttle(): Promise<void> {
@@ -0,0 +1,293 @@
+/**
+ * Caché compartida de market data (DexScreener, GeckoTerminal, Birdeye,
+ * GoPlus).
+ *
+ *  - TTL por endpoint (`DEFAULT_MARKET_CACHE_TTLS_MS`).
+ *  - Coalescing: peticiones idénticas en vuelo comparten la misma promesa.
+ *  - Backends enchufables en cascada: memoria (por proceso) y, con
+ *    MARKET_CACHE_BACKEND=supabase, la tabla `market_data_cache` para
+ *    compartir entre invocaciones serverless.
+ *  - Estadísticas de hits/misses globales y por ciclo (`withCacheStats`).
+ *
+ * Un fallo del backend nunca rompe la petición: se trata como miss.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "../supabase/admin";
+
+export type MarketEndpoint =
+  | "dexscreener.token_pairs"
+  | "dexscreener.search"
+  | "gecko.trending_pools"
+  | "gecko.new_pools"
+  | "gecko.token_price"
+  | "birdeye.trending"
+  | "birdeye.new_listing"
+  | "birdeye.price"
+  | "goplus.token_security";
+
+export const DEFAULT_MARKET_CACHE_TTLS_MS: Record<MarketEndpoint, number> = {
+  // precio / liquidez de un token: lo piden health, quotes, posiciones y outcomes
+  "dexscreener.token_pairs": 15_000,
+  "dexscreener.search": 60_000,
+  "gecko.trending_pools": 60_000,
+  "gecko.new_pools": 60_000,
+  "gecko.token_price": 15_000,
+  "birdeye.trending": 60_000,
+  "birdeye.new_listing": 60_000,
+  "birdeye.price": 15_000,
+  // hechos del contrato: cambian poco y se piden en cada entrada
+  "goplus.token_security": 10 * 60_000,
+};
+
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+export interface EndpointCacheStats {
+  hits: number;
+  misses: number;
+  /** Peticiones servidas por otra idéntica que ya estaba en vuelo. */
+  coalesced: number;
+  errors: number;
+}
+
+export interface CacheStats extends EndpointCacheStats {
+  hitRate: number;
+  byEndpoint: Partial<Record<MarketEndpoint, EndpointCacheStats>>;
+}
+
+/** Backend en memoria del proceso, con tope de entradas. */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory";
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private maxEntries = 5_000) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // copia: quien lee no puede mutar lo cacheado
+    return structuredClone(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    if (this.entries.size >= this.maxEntries) this.evict();
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    for (const [k, e] of this.entries) {
+      if (e.expiresAt <= now) this.entries.delete(k);
+    }
+    // Map mantiene orden de inserción: fuera las más antiguas
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/** Backend en `market_data_cache` (service role), compartido entre instancias. */
+export class SupabaseCacheBackend implements CacheBackend {
+  readonly name = "supabase";
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const { data, error } = await this.supabase
+      .from("market_data_cache")
+      .select("value")
+      .eq("key", key)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return data.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.supabase.from("market_data_cache").upsert(
+      {
+        key,
+        value,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "key" }
+    );
+  }
+}
+
+const cycleStats = new AsyncLocalStorage<StatsCounter>();
+
+/**
+ * MarketDataCache — `getOrFetch` delante de cada llamada a una API de
+ * mercado. Los backends se consultan en orden; un hit en uno posterior
+ * rellena los anteriores.
+ */
+export class MarketDataCache {
+  private inflight = new Map<string, Promise<unknown>>();
+  private stats = new StatsCounter();
+  private ttls: Record<MarketEndpoint, number>;
+
+  constructor(
+    private backends: CacheBackend[] = [new MemoryCacheBackend()],
+    ttls?: Partial<Record<MarketEndpoint, number>>
+  ) {
+    this.ttls = { ...DEFAULT_MARKET_CACHE_TTLS_MS, ...ttls };
+  }
+
+  async getOrFetch<T>(
+    endpoint: MarketEndpoint,
+    key: string,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    const fullKey = `${endpoint}:${key}`;
+
+    const pending = this.inflight.get(fullKey);
+    if (pending) {
+      this.record(endpoint, "coalesced");
+      return pending as Promise<T>;
+    }
+
+    const promise = this.lookupOrFetch(endpoint, fullKey, fetcher);
+    this.inflight.set(fullKey, promise);
+    try {
+      return await promise;
+    } finally {
+      this.inflight.delete(fullKey);
+    }
+  }
+
+  /** Estadísticas acumuladas del proceso. */
+  getStats(): CacheStats {
+    return this.stats.snapshot();
+  }
+
+  private async lookupOrFetch<T>(
+    endpoint: MarketEndpoint,
+    fullKey: string,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    for (let i = 0; i < this.backends.length; i++) {
+      let cached: T | undefined;
+      try {
+        cached = await this.backends[i].get<T>(fullKey);
+      } catch {
+        cached = undefined;
+      }
+      if (cached !== undefined) {
+        this.record(endpoint, "hits");
+        await this.writeBack(this.backends.slice(0, i), fullKey, cached, this.ttls[endpoint]);
+        return cached;
+      }
+    }
+
+    this.record(endpoint, "misses");
+    let value: T;
+    try {
+      value = await fetcher();
+    } catch (err) {
+      this.record(endpoint, "errors");
+      throw err;
+    }
+
+    await this.writeBack(this.backends, fullKey, value, this.ttls[endpoint]);
+    return value;
+  }
+
+  private async writeBack<T>(backends: CacheBackend[], key: string, value: T, ttlMs: number): Promise<void> {
+    await Promise.all(
+      backends.map((b) => b.set(key, value, ttlMs).catch(() => {
+        // no bloquear: el valor ya está en mano
+      }))
+    );
+  }
+
+  private record(endpoint: MarketEndpoint, field: keyof EndpointCacheStats): void {
+    this.stats.add(endpoint, field);
+    cycleStats.getStore()?.add(endpoint, field);
+  }
+}
+
+let sharedCache: MarketDataCache | null = null;
+
+/**
+ * Caché compartida por todos los clientes de mercado del proceso.
+ * MARKET_CACHE_BACKEND=supabase añade la tabla detrás de la memoria.
+ */
+export function getMarketDataCache(): MarketDataCache {
+  if (!sharedCache) {
+    const backends: CacheBackend[] = [new MemoryCacheBackend()];
+    if (process.env.MARKET_CACHE_BACKEND === "supabase") {
+      try {
+        backends.push(new SupabaseCacheBackend(createAdminClient()));
+      } catch {
+        // sin service role: solo memoria
+      }
+    }
+    sharedCache = new MarketDataCache(backends);
+  }
+  return sharedCache;
+}
+
+/** Sustituye la caché compartida (p. ej. sin backends para desactivarla). */
+export function setMarketDataCache(cache: MarketDataCache): void {
+  sharedCache = cache;
+}
+
+/**
+ * Ejecuta `fn` contando aparte los accesos a caché que haga, aunque haya
+ * otros ciclos en paralelo. `currentCacheStats()` los lee desde dentro.
+ */
+export function withCacheStats<T>(fn: () => Promise<T>): Promise<T> {
+  return cycleStats.run(new StatsCounter(), fn);
+}
+
+/** Estadísticas del `withCacheStats` en curso (undefined fuera de uno). */
+export function currentCacheStats(): CacheStats | undefined {
+  return cycleStats.getStore()?.snapshot();
+}
+
+// ---- helpers ----
+
+class StatsCounter {
+  private byEndpoint = new Map<MarketEndpoint, EndpointCacheStats>();
+
+  add(endpoint: MarketEndpoint, field: keyof EndpointCacheStats): void {
+    let s = this.byEndpoint.get(endpoint);
+    if (!s) {
+      s = { hits: 0, misses: 0, coalesced: 0, errors: 0 };
+      this.byEndpoint.set(endpoint, s);
+    }
+    s[field]++;
+  }
+
+  snapshot(): CacheStats {
+    const total: EndpointCacheStats = { hits: 0, misses: 0, coalesced: 0, errors: 0 };
+    const byEndpoint: CacheStats["byEndpoint"] = {};
+    for (const [endpoint, s] of this.byEndpoint) {
+      byEndpoint[endpoint] = { ...s };
+      total.hits += s.hits;
+      total.misses += s.misses;
+      total.coalesced += s.coalesced;
+      total.errors += s.errors;
+    }
+    const served = total.hits + total.misses + total.coalesced;
+    return {
+      ...total,
+      hitRate: served > 0 ? (total.hits + total.coalesced) / served : 0,
+      byEndpoint,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  FixtureContractSecurityProvider,
+  GoPlusSecurityProvider,
+  contractRiskFlags,
+} from "./contract-security";
+import type { ContractSecurityReport } from "./contract-security";
+import { MarketDataCache, setMarketDataCache } from "./cache";
+import type { DexPair } from "./dexscreener";
+import { criticalRiskFlags } from "./token-health";
+import type { TokenHealthResult } from "./token-health";
+import { ConfluenceEngine } from "../signals/confluence-engine";
+import type { MomentumSignal } from "../signals/momentum-detector";
+
+const TOKEN = "0x00000000000000000000000000000000000Be001";
+const SOLANA_MINT = "So1anaMint1111111111111111111111111111111111";
+
+test("el informe EVM de GoPlus se traduce a taxes, proxy, LP y honeypot", async () => {
+  const urls: string[] = [];
+  const report = await withGoPlus(urls, {
+    [TOKEN.toLowerCase()]: {
+      is_mintable: "1",
+      transfer_pausable: "0",
+      buy_tax: "0.02",
+      sell_tax: "0.15",
+      is_proxy: "1",
+      is_honeypot: "0",
+      cannot_sell_all: "1",
+      lp_holders: [
+        { address: "0x000000000000000000000000000000000000dEaD", percent: "0.3" },
+        { address: "0x00000000000000000000000000000000000000b0", percent: "0.1", is_locked: 1 },
+        { address: "0x00000000000000000000000000000000000000b1", percent: "0.6", is_locked: 0 },
+      ],
+    },
+  }, (goplus) => goplus.analyze(TOKEN, "Base"));
+
+  assert.match(urls[0], /\/token_security\/8453\?contract_addresses=/);
+  assert.ok(report);
+  assert.equal(report.network, "base");
+  assert.equal(report.mintAuthority, true);
+  assert.equal(report.freezeAuthority, false);
+  assert.equal(report.buyTaxPct, 0.02);
+  assert.equal(report.sellTaxPct, 0.15);
+  assert.equal(report.isProxy, true);
+  assert.ok(Math.abs(report.lpLockedPct! - 0.4) < 1e-9);
+  // cannot_sell_all también cuenta como honeypot
+  assert.equal(report.sellSimulationOk, false);
+
+  assert.deepEqual(contractRiskFlags(report), [
+    "mint_authority",
+    "high_transfer_tax",
+    "proxy_contract",
+    "lp_unlocked",
+    "sell_simulation_failed",
+  ]);
+});
+
+test("en Solana GoPlus solo aporta autoridades y los campos vacíos no generan flags", async () => {
+  const urls: string[] = [];
+  const solana = await withGoPlus(urls, {
+    [SOLANA_MINT]: { mintable: { status: "0" }, freezable: { status: "1" } },
+  }, (goplus) => goplus.analyze(SOLANA_MINT, "solana"));
+
+  assert.match(urls[0], /\/solana\/token_security\?contract_addresses=So1ana/);
+  assert.deepEqual(contractRiskFlags(solana!), ["freeze_authority"]);
+
+  const evm = await withGoPlus([], {
+    [TOKEN.toLowerCase()]: { is_mintable: "", buy_tax: "", sell_tax: "0.005", is_honeypot: "0" },
+  }, (goplus) => goplus.analyze(TOKEN, "ethereum"));
+  assert.equal(evm!.mintAuthority, null);
+  assert.equal(evm!.buyTaxPct, null);
+  assert.equal(evm!.lpLockedPct, null);
+  assert.equal(evm!.sellSimulationOk, true);
+  assert.deepEqual(contractRiskFlags(evm!), []);
+
+  const unsupported = await withGoPlus([], {}, (goplus) => goplus.analyze(TOKEN, "fantom"));
+  assert.equal(unsupported, null);
+});
+
+test("un flag crítico del contrato bloquea la entrada aunque el resto puntúe", async () => {
+  const fixtures = new FixtureContractSecurityProvider([
+    { tokenAddress: TOKEN, network: "base", isProxy: true, lpLockedPct: 0.9, sellSimulationOk: true },
+    { tokenAddress: TOKEN, network: "ethereum", sellSimulationOk: false },
+  ]);
+
+  const clean = contractRiskFlags((await fixtures.analyze(TOKEN, "base")) as ContractSecurityReport);
+  const honeypot = contractRiskFlags((await fixtures.analyze(TOKEN, "ethereum")) as ContractSecurityReport);
+  assert.deepEqual(clean, ["proxy_contract"]);
+  assert.deepEqual(criticalRiskFlags(honeypot), ["sell_simulation_failed"]);
+  assert.equal(await fixtures.analyze(TOKEN, "arbitrum"), null);
+
+  const engine = new ConfluenceEngine({} as SupabaseClient, "user-1");
+  engine.setWalletSource({
+    getWalletConfluence: async () => ({
+      walletCount: 4,
+      avgWalletScore: 80,
+      totalAmountUsd: 40_000,
+      walletIds: ["w1", "w2", "w3", "w4"],
+    }),
+  });
+
+  assert.ok(await engine.evaluate(momentum(), health(clean), null));
+  assert.equal(await engine.evaluate(momentum(), health(honeypot), null), null);
+});
+
+// ---- helpers ----
+
+/** Ejecuta `run` con fetch devolviendo `result` en el sobre de GoPlus y sin caché. */
+async function withGoPlus<T>(
+  urls: string[],
+  result: Record<string, unknown>,
+  run: (goplus: GoPlusSecurityProvider) => Promise<T>
+): Promise<T> {
+  const original = globalThis.fetch;
+  setMarketDataCache(new MarketDataCache([]));
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    urls.push(String(input));
+    return new Response(JSON.stringify({ code: 1, message: "OK", result }), { status: 200 });
+  }) as typeof fetch;
+  try {
+    return await run(new GoPlusSecurityProvider());
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+function health(contractRiskFlags: string[]): TokenHealthResult {
+  return {
+    tokenId: "token-1",
+    tokenAddress: TOKEN,
+    network: "base",
+    symbol: "TKN",
+    liquidityUsd: 2_000_000,
+    volume24hUsd: 800_000,
+    spreadPct: 0.1,
+    holdersCount: null,
+    top10ConcentrationPct: null,
+    contractRiskFlags,
+    healthScore: 90,
+    bestPair: null,
+  };
+}
+
+function momentum(): MomentumSignal {
+  return {
+    tokenAddress: TOKEN,
+    tokenSymbol: "TKN",
+    tokenName: "Token",
+    network: "base",
+    price: 1,
+    liquidityUsd: 2_000_000,
+    volume24h: 800_000,
+    volumeChange: 2,
+    buyPressure: 0.7,
+    priceChange1h: 4,
+    priceChange6h: 12,
+    priceChange24h: 30,
+    txCount24h: 5_000,
+    pairAge: 30,
+    momentumScore: 85,
+    tier: "strong",
+    bestPair: {} as DexPair,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Análisis de seguridad del contrato de un token (honeypot, taxes,
+ * autoridades, proxy, LP) detrás de una interfaz de proveedor.
+ *
+ *  - GoPlusSecurityProvider: API pública de GoPlus (gratuita, sin API key).
+ *  - FixtureContractSecurityProvider: informes fijos en memoria, para
+ *    pruebas locales y replays sin red.
+ *
+ * El proveedor devuelve hechos; `contractRiskFlags` los convierte en flags
+ * que TokenHealthChecker suma a los de DexScreener.
+ */
+
+import { getMarketDataCache } from "./cache";
+
+const GOPLUS_BASE_URL = "https://api.gopluslabs.io/api/v1";
+/** GoPlus está en el camino de entrada: una respuesta lenta no puede parar el ciclo. */
+const GOPLUS_TIMEOUT_MS = 8_000;
+
+const GOPLUS_CHAIN_IDS: Record<string, string> = {
+  ethereum: "1",
+  bsc: "56",
+  polygon: "137",
+  arbitrum: "42161",
+  optimism: "10",
+  base: "8453",
+  avalanche: "43114",
+};
+
+/** Tax de compra/venta a partir del cual se marca `transfer_tax`. */
+const TRANSFER_TAX_FLAG = 0.01;
+/** Tax a partir del cual salir cuesta demasiado (flag crítico). */
+const HIGH_TRANSFER_TAX_FLAG = 0.1;
+/** Fracción mínima de LP bloqueada o quemada para no marcar `lp_unlocked`. */
+const MIN_LP_LOCKED = 0.5;
+
+/**
+ * Hechos del contrato. `null` = el proveedor no lo sabe (no genera flag).
+ * Taxes y LP como fracción (0.05 = 5%).
+ */
+export interface ContractSecurityReport {
+  tokenAddress: string;
+  network: string;
+  mintAuthority: boolean | null;
+  freezeAuthority: boolean | null;
+  buyTaxPct: number | null;
+  sellTaxPct: number | null;
+  isProxy: boolean | null;
+  /** Fracción del LP bloqueada o quemada. */
+  lpLockedPct: number | null;
+  /** false si la simulación de venta falla (honeypot). */
+  sellSimulationOk: boolean | null;
+  source: string;
+}
+
+export type ContractRiskFlag =
+  | "mint_authority"
+  | "freeze_authority"
+  | "transfer_tax"
+  | "high_transfer_tax"
+  | "proxy_contract"
+  | "lp_unlocked"
+  | "sell_simulation_failed";
+
+export interface ContractSecurityProvider {
+  readonly name: string;
+  /** null si el proveedor no cubre la red o no conoce el token. */
+  analyze(tokenAddress: string, network: string): Promise<ContractSecurityReport | null>;
+}
+
+/** Convierte un informe en flags de riesgo. */
+export function contractRiskFlags(report: ContractSecurityReport): ContractRiskFlag[] {
+  const flags: ContractRiskFlag[] = [];
+
+  if (report.mintAuthority) flags.push("mint_authority");
+  if (report.freezeAuthority) flags.push("freeze_authority");
+
+  const maxTax = Math.max(report.buyTaxPct ?? 0, report.sellTaxPct ?? 0);
+  if (maxTax >= HIGH_TRANSFER_TAX_FLAG) flags.push("high_transfer_tax");
+  else if (maxTax >= TRANSFER_TAX_FLAG) flags.push("transfer_tax");
+
+  if (report.isProxy) flags.push("proxy_contract");
+  if (report.lpLockedPct !== null && report.lpLockedPct < MIN_LP_LOCKED) {
+    flags.push("lp_unlocked");
+  }
+  if (report.sellSimulationOk === false) flags.push("sell_simulation_failed");
+
+  return flags;
+}
+
+/**
+ * GoPlusSecurityProvider — GoPlus token security.
+ *
+ * EVM:    GET /token_security/{chainId}?contract_addresses={address}
+ * Solana: GET /solana/token_security?contract_addresses={address}
+ *
+ * En Solana no hay datos de tax, proxy ni LP: solo autoridades.
+ * Los informes (también "sin datos") pasan por MarketDataCache.
+ */
+export class GoPlusSecurityProvider implements ContractSecurityProvider {
+  readonly name = "goplus";
+
+  async analyze(tokenAddress: string, network: string): Promise<ContractSecurityReport | null> {
+    const net = network.toLowerCase();
+    const key = `${net}:${net === "solana" ? tokenAddress : tokenAddress.toLowerCase()}`;
+    return getMarketDataCache().getOrFetch("goplus.token_security", key, () =>
+      net === "solana" ? this.analyzeSolana(tokenAddress) : this.analyzeEvm(tokenAddress, net)
+    );
+  }
+
+  private async analyzeEvm(tokenAddress: string, net: string): Promise<ContractSecurityReport | null> {
+    const chainId = GOPLUS_CHAIN_IDS[net];
+    if (!chainId) return null;
+
+    const url = `${GOPLUS_BASE_URL}/token_security/${chainId}?contract_addresses=${tokenAddress}`;
+    const data = await this.fetchResult(url);
+    const token = data?.[tokenAddress.toLowerCase()] as GoPlusEvmToken | undefined;
+    if (!token) return null;
+
+    const lpHolders = token.lp_holders ?? [];
+    const lpLockedPct = lpHolders.length > 0
+      ? lpHolders
+          .filter((h) => h.is_locked === 1 || isBurnAddress(h.address))
+          .reduce((s, h) => s + (parseFloat(h.percent ?? "0") || 0), 0)
+      : null;
+
+    const honeypot = flag(token.is_honeypot) || flag(token.cannot_sell_all);
+
+    return {
+      tokenAddress,
+      network: net,
+      mintAuthority: flagOrNull(token.is_mintable),
+      freezeAuthority: flagOrNull(token.transfer_pausable),
+      buyTaxPct: numberOrNull(token.buy_tax),
+      sellTaxPct: numberOrNull(token.sell_tax),
+      isProxy: flagOrNull(token.is_proxy),
+      lpLockedPct,
+      sellSimulationOk: token.is_honeypot === undefined ? null : !honeypot,
+      source: this.name,
+    };
+  }
+
+  private async analyzeSolana(tokenAddress: string): Promise<ContractSecurityReport | null> {
+    const url = `${GOPLUS_BASE_URL}/solana/token_security?contract_addresses=${tokenAddress}`;
+    const data = await this.fetchResult(url);
+    const token = data?.[tokenAddress] as GoPlusSolanaToken | undefined;
+    if (!token) return null;
+
+    return {
+      tokenAddress,
+      network: "solana",
+      mintAuthority: flagOrNull(token.mintable?.status),
+      freezeAuthority: flagOrNull(token.freezable?.status),
+      buyTaxPct: null,
+      sellTaxPct: null,
+      isProxy: null,
+      lpLockedPct: null,
+      sellSimulationOk: null,
+      source: this.name,
+    };
+  }
+
+  private async fetchResult(url: string): Promise<Record<string, unknown> | null> {
+    const res = await fetch(url, { signal: AbortSignal.timeout(GOPLUS_TIMEOUT_MS) });
+    if (!res.ok) {
+      throw new Error(`GoPlus ${res.status}: ${await res.text().catch(() => "")}`);
+    }
+    const body = (await res.json()) as { code?: number; result?: Record<string, unknown> };
+    return body.code === 1 ? body.result ?? null : null;
+  }
+}
+
+/**
+ * FixtureContractSecurityProvider — informes fijos por `network:address`.
+ * Lo que no está en los fixtures devuelve null (sin datos de contrato).
+ */
+export class FixtureContractSecurityProvider implements ContractSecurityProvider {
+  readonly name = "fixture";
+  private reports = new Map<string, ContractSecurityReport>();
+
+  constructor(fixtures: Array<Partial<ContractSecurityReport> & { tokenAddress: string; network: string }> = []) {
+    for (const f of fixtures) {
+      this.reports.set(fixtureKey(f.network, f.tokenAddress), {
+        mintAuthority: null,
+        freezeAuthority: null,
+        buyTaxPct: null,
+        sellTaxPct: null,
+        isProxy: null,
+        lpLockedPct: null,
+        sellSimulationOk: null,
+        source: this.name,
+        ...f,
+      });
+    }
+  }
+
+  async analyze(tokenAddress: string, network: string): Promise<ContractSecurityReport | null> {
+    return this.reports.get(fixtureKey(network, tokenAddress)) ?? null;
+  }
+}
+
+// ---- helpers ----
+
+interface GoPlusEvmToken {
+  is_mintable?: string;
+  transfer_pausable?: string;
+  buy_tax?: string;
+  sell_tax?: string;
+  is_proxy?: string;
+  is_honeypot?: string;
+  cannot_sell_all?: string;
+  lp_holders?: { address: string; percent?: string; is_locked?: number }[];
+}
+
+interface GoPlusSolanaToken {
+  mintable?: { status?: string };
+  freezable?: { status?: string };
+}
+
+function flag(v: string | undefined): boolean {
+  return v === "1";
+}
+
+function flagOrNull(v: string | undefined): boolean | null {
+  return v === undefined || v === "" ? null : v === "1";
+}
+
+function numberOrNull(v: string | undefined): number | null {
+  if (v === undefined || v === "") return null;
+  const n = parseFloat(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function isBurnAddress(address: string): boolean {
+  const a = address.toLowerCase();
+  return a === "0x000000000000000000000000000000000000dead" ||
+    a === "0x0000000000000000000000000000000000000000";
+}
+
+function fixtureKey(network: string, tokenAddress: string): string {
+  return `${network.toLowerCase()}:${tokenAddress.toLowerCase()}`;
+}
@@ -4,8 +4,20 @@
  *
  * Docs: https://docs.dexscreener.com/api/reference
  * Rate limit: 60 req/min
+ *
+ * Las respuestas pasan por la caché compartida de market data: varias
+ * piezas del ciclo piden el mismo token y solo la primera sale a la red.
+ * Las que salen pasan por el ProviderRouter (salud + circuit breaker).
  */
 
+import { getMarketDataCache } from "./cache";
+import {
+  ProviderHttpError,
+  getProviderRouter,
+  parseRetryAfter,
+  type MarketDataProvider,
+} from "./provider-router";
+
 const BASE_URL = "https://api.dexscreener.com";
 
 const CHAIN_MAP: Record<string, string> = {
@@ -46,7 +58,13 @@ export interface DexTokenResponse {
   pairs: DexPair[] | null;
 }
 
-export class DexScreenerClient {
+export class DexScreenerClient implements MarketDataProvider {
+  readonly providerName = "dexscreener" as const;
+  private lastRequestMs = 0;
+
+  /** `minIntervalMs` espacia las peticiones reales (no los hits de caché). */
+  constructor(private readonly minIntervalMs = 0) {}
+
   /**
    * Obtiene datos de pares para un token en una chain específica.
    * GET /tokens/v1/{chainId}/{tokenAddress}
@@ -56,17 +74,32 @@ export class DexScreenerClient {
     tokenAddress: string
   ): Promise<DexPair[]> {
     const chainId = CHAIN_MAP[network.toLowerCase()] ?? network.toLowerCase();
-    const url = `${BASE_URL}/tokens/v1/${chainId}/${tokenAddress}`;
-    const res = await fetch(url);
 
-    if (!res.ok) {
-      throw new Error(`DexScreener ${res.status}: ${await res.text().catch(() => "")}`);
-    }
+    return getMarketDataCache().getOrFetch(
+      "dexscreener.token_pairs",
+      `${chainId}:${tokenAddress}`,
+      async () => {
+        await this.throttle();
+        return getProviderRouter().call("dexscreener", async () => {
+          const url = `${BASE_URL}/tokens/v1/${chainId}/${tokenAddress}`;
+          const res = await fetch(url);
+
+          if (!res.ok) {
+            throw new ProviderHttpError(
+              "dexscreener",
+              res.status,
+              `DexScreener ${res.status}: ${await res.text().catch(() => "")}`,
+              parseRetryAfter(res.headers.get("retry-after"))
+            );
+          }
 
-    const data: DexPair[] | DexTokenResponse = await res.json();
+          const data: DexPair[] | DexTokenResponse = await res.json();
 
-    if (Array.isArray(data)) return data;
-    return data.pairs ?? [];
+          if (Array.isArray(data)) return data;
+          return data.pairs ?? [];
+        });
+      }
+    );
   }
 
   /**
@@ -74,15 +107,25 @@ export class DexScreenerClient {
    * GET /latest/dex/search?q={query}
    */
   async search(query: string): Promise<DexPair[]> {
-    const url = `${BASE_URL}/latest/dex/search?q=${encodeURIComponent(query)}`;
-    const res = await fetch(url);
+    return getMarketDataCache().getOrFetch("dexscreener.search", query.toLowerCase(), async () => {
+      await this.throttle();
+      return getProviderRouter().call("dexscreener", async () => {
+        const url = `${BASE_URL}/latest/dex/search?q=${encodeURIComponent(query)}`;
+        const res = await fetch(url);
 
-    if (!res.ok) {
-      throw new Error(`DexScreener search ${res.status}`);
-    }
+        if (!res.ok) {
+          throw new ProviderHttpError(
+            "dexscreener",
+            res.status,
+            `DexScreener search ${res.status}`,
+            parseRetryAfter(res.headers.get("retry-after"))
+          );
+        }
 
-    const data = (await res.json()) as { pairs: DexPair[] | null };
-    return data.pairs ?? [];
+        const data = (await res.json()) as { pairs: DexPair[] | null };
+        return data.pairs ?? [];
+      });
+    });
   }
 
   /**
@@ -99,4 +142,22 @@ export class DexScreenerClient {
       (p.liquidity?.usd ?? 0) > (best.liquidity?.usd ?? 0) ? p : best
     );
   }
+
+  supportsNetwork(network: string): boolean {
+    return network.toLowerCase() in CHAIN_MAP;
+  }
+
+  /** Precio USD del par con más liquidez. */
+  async getTokenPriceUsd(network: string, tokenAddress: string): Promise<number | null> {
+    const pair = await this.getBestPair(network, tokenAddress);
+    const price = pair ? parseFloat(pair.priceUsd) : NaN;
+    return Number.isFinite(price) ? price : null;
+  }
+
+  private async throttle(): Promise<void> {
+    if (this.minIntervalMs <= 0) return;
+    const wait = this.minIntervalMs - (Date.now() - this.lastRequestMs);
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+    this.lastRequestMs = Date.now();
+  }
 }
@@ -4,8 +4,20 @@
  *
  * Docs: https://www.geckoterminal.com/dex-api
  * Rate limit: ~30 req/min (free tier)
+ *
+ * Las respuestas crudas pasan por la caché compartida de market data; el
+ * throttle y el ProviderRouter solo se aplican a las peticiones que salen
+ * a la red.
  */
 
+import { getMarketDataCache } from "./cache";
+import {
+  ProviderHttpError,
+  getProviderRouter,
+  parseRetryAfter,
+  type MarketDataProvider,
+} from "./provider-router";
+
 const BASE_URL = "https://api.geckoterminal.com/api/v2";
 
 const NETWORK_MAP: Record<string, string> = {
@@ -74,7 +86,12 @@ interface GeckoTerminalResponse {
   included?: GeckoTerminalToken[];
 }
 
-export class GeckoTerminalClient {
+interface GeckoTerminalTokenResponse {
+  data?: { attributes?: { price_usd?: string | null } };
+}
+
+export class GeckoTerminalClient implements MarketDataProvider {
+  readonly providerName = "gecko" as const;
   private lastRequestMs = 0;
   private readonly minIntervalMs = 2100;
 
@@ -93,23 +110,19 @@ export class GeckoTerminalClient {
     pools: GeckoTerminalPool[];
     tokens: Map<string, GeckoTerminalToken>;
   }> {
-    await this.throttle();
-
     const netId = network ? (NETWORK_MAP[network] ?? network) : null;
     const path = netId
       ? `/networks/${netId}/trending_pools`
       : `/networks/trending_pools`;
 
-    const url = `${BASE_URL}${path}?include=base_token`;
-    const res = await fetch(url);
-
-    if (!res.ok) {
-      throw new Error(
-        `GeckoTerminal ${res.status}: ${await res.text().catch(() => "")}`
-      );
-    }
-
-    const body: GeckoTerminalResponse = await res.json();
+    const body = await getMarketDataCache().getOrFetch(
+      "gecko.trending_pools",
+      netId ?? "global",
+      async () => {
+        await this.throttle();
+        return this.request<GeckoTerminalResponse>(`${path}?include=base_token`, "GeckoTerminal");
+      }
+    );
     const tokenMap = new Map<string, GeckoTerminalToken>();
     for (const t of body.included ?? []) tokenMap.set(t.id, t);
 
@@ -150,19 +163,15 @@ export class GeckoTerminalClient {
     pools: GeckoTerminalPool[];
     tokens: Map<string, GeckoTerminalToken>;
   }> {
-    await this.throttle();
-
     const netId = NETWORK_MAP[network] ?? network;
-    const url = `${BASE_URL}/networks/${netId}/new_pools?include=base_token&page=1`;
-    const res = await fetch(url);
 
-    if (!res.ok) {
-      throw new Error(
-        `GeckoTerminal new_pools ${res.status}: ${await res.text().catch(() => "")}`
+    const body = await getMarketDataCache().getOrFetch("gecko.new_pools", netId, async () => {
+      await this.throttle();
+      return this.request<GeckoTerminalResponse>(
+        `/networks/${netId}/new_pools?include=base_token&page=1`,
+        "GeckoTerminal new_pools"
       );
-    }
-
-    const body: GeckoTerminalResponse = await res.json();
+    });
     const tokenMap = new Map<string, GeckoTerminalToken>();
     for (const t of body.included ?? []) tokenMap.set(t.id, t);
 
@@ -194,6 +203,29 @@ export class GeckoTerminalClient {
     return { pools: allPools, tokens: allTokens, errors };
   }
 
+  supportsNetwork(network: string): boolean {
+    return network in NETWORK_MAP;
+  }
+
+  /** Precio USD del token según GeckoTerminal (/networks/{net}/tokens/{addr}). */
+  async getTokenPriceUsd(network: string, tokenAddress: string): Promise<number | null> {
+    const netId = NETWORK_MAP[network] ?? network;
+
+    const body = await getMarketDataCache().getOrFetch(
+      "gecko.token_price",
+      `${netId}:${tokenAddress}`,
+      async () => {
+        await this.throttle();
+        return this.request<GeckoTerminalTokenResponse>(
+          `/networks/${netId}/tokens/${tokenAddress}`,
+          "GeckoTerminal token"
+        );
+      }
+    );
+    const price = parseFloat(body.data?.attributes?.price_usd ?? "");
+    return Number.isFinite(price) ? price : null;
+  }
+
   /**
    * Convierte un network ID de GeckoTerminal al nombre interno del sistema.
    */
@@ -216,4 +248,21 @@ export class GeckoTerminalClient {
     const prefix = pool.id.split("_")[0];
     return prefix || "unknown";
   }
+
+  private async request<T>(path: string, label: string): Promise<T> {
+    return getProviderRouter().call("gecko", async () => {
+      const res = await fetch(`${BASE_URL}${path}`);
+
+      if (!res.ok) {
+        throw new ProviderHttpError(
+          "gecko",
+          res.status,
+          `${label} ${res.status}: ${await res.text().catch(() => "")}`,
+          parseRetryAfter(res.headers.get("retry-after"))
+        );
+      }
+
+      return (await res.json()) as T;
+    });
+  }
 }
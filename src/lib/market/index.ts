@@ -1,6 +1,51 @@
 export { DexScreenerClient } from "./dexscreener";
 export type { DexPair, DexTokenResponse } from "./dexscreener";
+export {
+  MarketDataCache,
+  MemoryCacheBackend,
+  SupabaseCacheBackend,
+  getMarketDataCache,
+  setMarketDataCache,
+  withCacheStats,
+  currentCacheStats,
+  DEFAULT_MARKET_CACHE_TTLS_MS,
+} from "./cache";
+export type { CacheBackend, CacheStats, EndpointCacheStats, MarketEndpoint } from "./cache";
+export {
+  ProviderRouter,
+  ProviderHttpError,
+  ProviderUnavailableError,
+  getProviderRouter,
+  setProviderRouter,
+  MARKET_PROVIDERS,
+  DEFAULT_PROVIDER_ROUTER_CONFIG,
+} from "./provider-router";
+export type {
+  MarketDataProvider,
+  MarketProviderName,
+  ProviderHealth,
+  ProviderRouterConfig,
+  CircuitState,
+} from "./provider-router";
+export { PriceReconciler } from "./price-reconciler";
+export {
+  WebSocketPriceFeed,
+  PollingPriceFeed,
+  FailoverPriceFeed,
+  MockPriceFeed,
+  birdeyeWsProtocol,
+  createPriceFeed,
+  feedTokenKey,
+} from "./price-feed";
+export type { PriceFeed, PriceTick, FeedToken, FeedStatus, WsProtocol } from "./price-feed";
+export type { PriceReconciliation, ProviderPriceQuote } from "./price-reconciler";
 export { TokenHealthChecker } from "./token-health";
+export {
+  GoPlusSecurityProvider,
+  FixtureContractSecurityProvider,
+  contractRiskFlags,
+} from "./contract-security";
+export type { ContractSecurityProvider, ContractSecurityReport, ContractRiskFlag } from "./contract-security";
 export type { TokenHealthResult } from "./token-health";
 export { DexScreenerQuoteFetcher } from "./quote-fetcher";
 export { RegimeDetector } from "./regime-detector";
@@ -0,0 +1,536 @@
+/**
+ * Feeds de precio en streaming para las posiciones abiertas.
+ *
+ *  - WebSocketPriceFeed: suscripción por token (Birdeye en Solana) con
+ *    reconexión exponencial. Sin WebSocket global (Node < 22) queda
+ *    desconectado y manda el fallback.
+ *  - PollingPriceFeed: DexScreener cada `intervalMs` (pasa por la caché y
+ *    el ProviderRouter). Trae además liquidez y volumen.
+ *  - FailoverPriceFeed: WebSocket para el precio y polling lento para
+ *    liquidez/volumen; si el socket cae, polling rápido hasta que vuelva.
+ *  - MockPriceFeed: ticks a mano (`emit`) o random walk local, para tests
+ *    y desarrollo sin red (PRICE_FEED=mock).
+ */
+
+import { DexScreenerClient } from "./dexscreener";
+import { createSeededRng, type Rng } from "../engine/random";
+
+export interface FeedToken {
+  network: string;
+  tokenAddress: string;
+  /** Precio de partida para el MockPriceFeed (p. ej. el de entrada). */
+  referencePrice?: number;
+}
+
+export interface PriceTick {
+  network: string;
+  tokenAddress: string;
+  priceUsd: number;
+  /** Solo si la fuente lo trae (polling); el socket de precio no. */
+  liquidityUsd?: number;
+  volume24h?: number;
+  source: "websocket" | "polling" | "mock";
+  receivedAt: number;
+}
+
+export type FeedStatus = "connecting" | "connected" | "disconnected";
+
+export type TickListener = (tick: PriceTick) => void;
+
+export interface PriceFeed {
+  readonly name: string;
+  supports(token: FeedToken): boolean;
+  /** Devuelve la función para darse de baja. */
+  subscribe(tokens: FeedToken[], onTick: TickListener): () => void;
+  close(): void;
+}
+
+/** Clave de token para feeds y watcher (misma convención que el Orchestrator). */
+export function feedTokenKey(network: string, tokenAddress: string): string {
+  return `${network}:${tokenAddress}`.toLowerCase();
+}
+
+/** Protocolo de un proveedor de precios por WebSocket. */
+export interface WsProtocol {
+  name: string;
+  url: string;
+  protocols?: string[];
+  supports(token: FeedToken): boolean;
+  subscribeMessage(token: FeedToken): string;
+  unsubscribeMessage(token: FeedToken): string;
+  /** Ticks contenidos en un mensaje (vacío si no es de precio). */
+  parse(raw: string): PriceTick[];
+}
+
+/** Birdeye public WebSocket: SUBSCRIBE_PRICE por token, mensajes PRICE_DATA. */
+export function birdeyeWsProtocol(apiKey: string): WsProtocol {
+  const payload = (token: FeedToken) => ({
+    queryType: "simple",
+    chartType: "1m",
+    address: token.tokenAddress,
+    currency: "usd",
+  });
+
+  return {
+    name: "birdeye-ws",
+    url: `wss://public-api.birdeye.so/socket/solana?x-api-key=${encodeURIComponent(apiKey)}`,
+    protocols: ["echo-protocol"],
+    supports: (token) => token.network.toLowerCase() === "solana",
+    subscribeMessage: (token) => JSON.stringify({ type: "SUBSCRIBE_PRICE", data: payload(token) }),
+    unsubscribeMessage: (token) => JSON.stringify({ type: "UNSUBSCRIBE_PRICE", data: payload(token) }),
+    parse(raw) {
+      let msg: { type?: string; data?: { address?: string; c?: number | string } };
+      try {
+        msg = JSON.parse(raw);
+      } catch {
+        return [];
+      }
+      if (msg.type !== "PRICE_DATA" || !msg.data?.address) return [];
+      const price = Number(msg.data.c);
+      if (!Number.isFinite(price) || price <= 0) return [];
+      return [{
+        network: "solana",
+        tokenAddress: msg.data.address,
+        priceUsd: price,
+        source: "websocket",
+        receivedAt: Date.now(),
+      }];
+    },
+  };
+}
+
+export interface WebSocketFeedOptions {
+  reconnectBaseMs: number;
+  maxReconnectMs: number;
+  /** Sin mensajes durante este tiempo se da la conexión por muerta. */
+  idleTimeoutMs: number;
+}
+
+export const DEFAULT_WEBSOCKET_FEED_OPTIONS: WebSocketFeedOptions = {
+  reconnectBaseMs: 1_000,
+  maxReconnectMs: 30_000,
+  idleTimeoutMs: 60_000,
+};
+
+interface Subscription {
+  token: FeedToken;
+  listeners: Set<TickListener>;
+}
+
+/**
+ * WebSocketPriceFeed — una conexión compartida por todas las
+ * suscripciones. Conecta con la primera y cierra con la última.
+ */
+export class WebSocketPriceFeed implements PriceFeed {
+  readonly name: string;
+  private options: WebSocketFeedOptions;
+  private subs = new Map<string, Subscription>();
+  private statusListeners = new Set<(status: FeedStatus) => void>();
+  private socket: WebSocket | null = null;
+  private _status: FeedStatus = "disconnected";
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(private protocol: WsProtocol, options?: Partial<WebSocketFeedOptions>) {
+    this.name = protocol.name;
+    this.options = { ...DEFAULT_WEBSOCKET_FEED_OPTIONS, ...options };
+  }
+
+  /** false si el runtime no tiene WebSocket global. */
+  static isSupported(): boolean {
+    return typeof WebSocket !== "undefined";
+  }
+
+  get status(): FeedStatus {
+    return this._status;
+  }
+
+  onStatus(listener: (status: FeedStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  supports(token: FeedToken): boolean {
+    return this.protocol.supports(token);
+  }
+
+  subscribe(tokens: FeedToken[], onTick: TickListener): () => void {
+    const keys: string[] = [];
+    for (const token of tokens.filter((t) => this.supports(t))) {
+      const key = feedTokenKey(token.network, token.tokenAddress);
+      keys.push(key);
+      let sub = this.subs.get(key);
+      if (!sub) {
+        sub = { token, listeners: new Set() };
+        this.subs.set(key, sub);
+        this.send(this.protocol.subscribeMessage(token));
+      }
+      sub.listeners.add(onTick);
+    }
+
+    if (keys.length > 0) this.ensureConnected();
+
+    return () => {
+      for (const key of keys) {
+        const sub = this.subs.get(key);
+        if (!sub) continue;
+        sub.listeners.delete(onTick);
+        if (sub.listeners.size === 0) {
+          this.subs.delete(key);
+          this.send(this.protocol.unsubscribeMessage(sub.token));
+        }
+      }
+      if (this.subs.size === 0) this.disconnect();
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    this.subs.clear();
+    this.disconnect();
+    this.statusListeners.clear();
+  }
+
+  private ensureConnected(): void {
+    if (this.closed || this.socket || this.reconnectTimer) return;
+    if (!WebSocketPriceFeed.isSupported()) {
+      this.setStatus("disconnected");
+      return;
+    }
+
+    this.setStatus("connecting");
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.protocol.url, this.protocol.protocols);
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.setStatus("connected");
+      for (const sub of this.subs.values()) {
+        socket.send(this.protocol.subscribeMessage(sub.token));
+      }
+      this.touch();
+    };
+
+    socket.onmessage = (ev: MessageEvent) => {
+      this.touch();
+      const raw = typeof ev.data === "string" ? ev.data : String(ev.data);
+      for (const tick of this.protocol.parse(raw)) {
+        const sub = this.subs.get(feedTokenKey(tick.network, tick.tokenAddress));
+        if (!sub) continue;
+        for (const listener of sub.listeners) listener(tick);
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose llega después y reconecta
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.clearIdle();
+      this.setStatus("disconnected");
+      if (!this.closed && this.subs.size > 0) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    const delay = Math.min(
+      this.options.reconnectBaseMs * 2 ** this.attempts,
+      this.options.maxReconnectMs
+    );
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.ensureConnected();
+    }, delay);
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearIdle();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+    this.setStatus("disconnected");
+  }
+
+  /** Reinicia el watchdog: un socket mudo se cierra y reconecta. */
+  private touch(): void {
+    this.clearIdle();
+    this.idleTimer = setTimeout(() => this.socket?.close(), this.options.idleTimeoutMs);
+  }
+
+  private clearIdle(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+
+  private send(message: string): void {
+    if (this.socket && this._status === "connected") this.socket.send(message);
+  }
+
+  private setStatus(status: FeedStatus): void {
+    if (status === this._status) return;
+    this._status = status;
+    for (const listener of this.statusListeners) listener(status);
+  }
+}
+
+/**
+ * PollingPriceFeed — DexScreener por token cada `intervalMs`. Cada
+ * suscripción lleva su propio bucle y nunca solapa dos rondas.
+ */
+export class PollingPriceFeed implements PriceFeed {
+  readonly name = "dexscreener-polling";
+  private stops = new Set<() => void>();
+
+  constructor(
+    private intervalMs = 15_000,
+    private dex = new DexScreenerClient()
+  ) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  subscribe(tokens: FeedToken[], onTick: TickListener, intervalMs = this.intervalMs): () => void {
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const round = async () => {
+      for (const token of tokens) {
+        if (!active) return;
+        try {
+          const pair = await this.dex.getBestPair(token.network, token.tokenAddress);
+          const price = pair ? parseFloat(pair.priceUsd) : NaN;
+          if (!active || !pair || !Number.isFinite(price) || price <= 0) continue;
+          onTick({
+            network: token.network,
+            tokenAddress: token.tokenAddress,
+            priceUsd: price,
+            liquidityUsd: pair.liquidity?.usd ?? 0,
+            volume24h: pair.volume?.h24 ?? 0,
+            source: "polling",
+            receivedAt: Date.now(),
+          });
+        } catch {
+          // siguiente ronda
+        }
+      }
+      if (active) timer = setTimeout(() => void round(), intervalMs);
+    };
+
+    const stop = () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      this.stops.delete(stop);
+    };
+    this.stops.add(stop);
+
+    if (tokens.length > 0) void round();
+    return stop;
+  }
+
+  close(): void {
+    for (const stop of [...this.stops]) stop();
+  }
+}
+
+export interface FailoverFeedOptions {
+  /** Polling de tokens sin socket o con el socket caído. */
+  fastPollMs: number;
+  /** Polling de liquidez/volumen mientras el socket da el precio. */
+  slowPollMs: number;
+}
+
+export const DEFAULT_FAILOVER_FEED_OPTIONS: FailoverFeedOptions = {
+  fastPollMs: 15_000,
+  slowPollMs: 60_000,
+};
+
+/** FailoverPriceFeed — WebSocket primero, polling como respaldo. */
+export class FailoverPriceFeed implements PriceFeed {
+  readonly name: string;
+  private options: FailoverFeedOptions;
+
+  constructor(
+    private primary: WebSocketPriceFeed,
+    private fallback: PollingPriceFeed,
+    options?: Partial<FailoverFeedOptions>
+  ) {
+    this.name = `${primary.name}+${fallback.name}`;
+    this.options = { ...DEFAULT_FAILOVER_FEED_OPTIONS, ...options };
+  }
+
+  get status(): FeedStatus {
+    return this.primary.status;
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  subscribe(tokens: FeedToken[], onTick: TickListener): () => void {
+    const streamed = tokens.filter((t) => this.primary.supports(t));
+    const polledOnly = tokens.filter((t) => !this.primary.supports(t));
+
+    const stopPolledOnly = this.fallback.subscribe(polledOnly, onTick, this.options.fastPollMs);
+    const stopStream = this.primary.subscribe(streamed, onTick);
+
+    // Polling de los tokens con socket: lento si está conectado, rápido si no
+    let stopStreamPoll = this.fallback.subscribe(streamed, onTick, this.streamPollMs());
+    const stopStatus = this.primary.onStatus(() => {
+      stopStreamPoll();
+      stopStreamPoll = this.fallback.subscribe(streamed, onTick, this.streamPollMs());
+    });
+
+    return () => {
+      stopStatus();
+      stopStreamPoll();
+      stopStream();
+      stopPolledOnly();
+    };
+  }
+
+  close(): void {
+    this.primary.close();
+    this.fallback.close();
+  }
+
+  private streamPollMs(): number {
+    return this.primary.status === "connected"
+      ? this.options.slowPollMs
+      : this.options.fastPollMs;
+  }
+}
+
+export interface MockFeedOptions {
+  /** Cadencia del random walk; 0 = solo ticks manuales con `emit`. */
+  intervalMs: number;
+  /** Desviación típica de cada paso, en % del precio. */
+  volatilityPct: number;
+  seed: number | string;
+}
+
+export const DEFAULT_MOCK_FEED_OPTIONS: MockFeedOptions = {
+  intervalMs: 1_000,
+  volatilityPct: 0.5,
+  seed: "mock-price-feed",
+};
+
+/**
+ * MockPriceFeed — feed local sin red. En tests se empujan ticks con
+ * `emit`; con `intervalMs` > 0 cada token suscrito hace un random walk
+ * reproducible desde su `referencePrice`.
+ */
+export class MockPriceFeed implements PriceFeed {
+  readonly name = "mock";
+  private options: MockFeedOptions;
+  private subs = new Map<string, Subscription>();
+  private prices = new Map<string, number>();
+  private rng: Rng;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options?: Partial<MockFeedOptions>) {
+    this.options = { ...DEFAULT_MOCK_FEED_OPTIONS, ...options };
+    this.rng = createSeededRng(this.options.seed);
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  subscribe(tokens: FeedToken[], onTick: TickListener): () => void {
+    const keys = tokens.map((token) => {
+      const key = feedTokenKey(token.network, token.tokenAddress);
+      let sub = this.subs.get(key);
+      if (!sub) {
+        sub = { token, listeners: new Set() };
+        this.subs.set(key, sub);
+      }
+      sub.listeners.add(onTick);
+      if (!this.prices.has(key) && token.referencePrice && token.referencePrice > 0) {
+        this.prices.set(key, token.referencePrice);
+      }
+      return key;
+    });
+
+    if (this.options.intervalMs > 0 && !this.timer && this.subs.size > 0) {
+      this.timer = setInterval(() => this.step(), this.options.intervalMs);
+    }
+
+    return () => {
+      for (const key of keys) {
+        const sub = this.subs.get(key);
+        sub?.listeners.delete(onTick);
+        if (sub && sub.listeners.size === 0) this.subs.delete(key);
+      }
+      if (this.subs.size === 0) this.stopTimer();
+    };
+  }
+
+  /** Entrega un tick a los suscriptores de su token. */
+  emit(tick: Omit<PriceTick, "source" | "receivedAt"> & Partial<Pick<PriceTick, "receivedAt">>): void {
+    const key = feedTokenKey(tick.network, tick.tokenAddress);
+    this.prices.set(key, tick.priceUsd);
+    const sub = this.subs.get(key);
+    if (!sub) return;
+    const full: PriceTick = { ...tick, source: "mock", receivedAt: tick.receivedAt ?? Date.now() };
+    for (const listener of sub.listeners) listener(full);
+  }
+
+  close(): void {
+    this.stopTimer();
+    this.subs.clear();
+  }
+
+  private step(): void {
+    for (const [key, sub] of this.subs) {
+      const last = this.prices.get(key);
+      if (!last) continue;
+      // Box-Muller: paso normal con la volatilidad configurada
+      const u = Math.max(this.rng(), 1e-12);
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.rng());
+      const next = Math.max(last * (1 + (z * this.options.volatilityPct) / 100), last * 0.01);
+      this.emit({ network: sub.token.network, tokenAddress: sub.token.tokenAddress, priceUsd: next });
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * Feed por defecto según PRICE_FEED:
+ *  - "mock":    MockPriceFeed (random walk local)
+ *  - "polling": solo DexScreener
+ *  - otro/vacío: Birdeye WebSocket + polling si hay BIRDEYE_API_KEY y el
+ *                runtime tiene WebSocket; si no, polling.
+ */
+export function createPriceFeed(): PriceFeed {
+  const mode = process.env.PRICE_FEED;
+  if (mode === "mock") return new MockPriceFeed();
+
+  const polling = new PollingPriceFeed();
+  const apiKey = process.env.BIRDEYE_API_KEY;
+  if (mode === "polling" || !apiKey || !WebSocketPriceFeed.isSupported()) return polling;
+
+  return new FailoverPriceFeed(new WebSocketPriceFeed(birdeyeWsProtocol(apiKey)), polling);
+}
@@ -0,0 +1,115 @@
+import { DexScreenerClient } from "./dexscreener";
+import { GeckoTerminalClient } from "./geckoterminal";
+import { BirdeyeClient } from "./birdeye";
+import {
+  getProviderRouter,
+  type MarketDataProvider,
+  type MarketProviderName,
+} from "./provider-router";
+
+export interface ProviderPriceQuote {
+  provider: MarketProviderName;
+  priceUsd: number;
+  /** Desviación respecto a la mediana, en %. */
+  deviationPct: number;
+}
+
+export interface PriceReconciliation {
+  network: string;
+  tokenAddress: string;
+  quotes: ProviderPriceQuote[];
+  /** Mediana de las cotizaciones; null sin ninguna. */
+  referencePriceUsd: number | null;
+  maxDeviationPct: number;
+  /** Proveedores cuyo precio se aleja más de `maxPriceDeviationPct`. */
+  outliers: MarketProviderName[];
+  /** Hay al menos dos fuentes y alguna discrepa. */
+  anomaly: boolean;
+  errors: string[];
+  checkedAt: string;
+}
+
+/**
+ * PriceReconciler — pide el precio de un token a todas las fuentes que
+ * cubren su red (DexScreener, GeckoTerminal y Birdeye en Solana) y lo
+ * compara contra la mediana. Una fuente que se desvía más del umbral del
+ * router se marca como outlier y suma en su salud.
+ *
+ * Las fuentes en circuit-break se saltan (cuentan como error, no como
+ * discrepancia).
+ */
+export class PriceReconciler {
+  private providers: MarketDataProvider[];
+
+  constructor(providers?: MarketDataProvider[]) {
+    this.providers = providers ?? defaultProviders();
+  }
+
+  async reconcile(network: string, tokenAddress: string): Promise<PriceReconciliation> {
+    const router = getProviderRouter();
+    const candidates = this.providers.filter((p) => p.supportsNetwork(network));
+
+    const settled = await Promise.allSettled(
+      candidates.map((p) => p.getTokenPriceUsd(network, tokenAddress))
+    );
+
+    const prices: { provider: MarketProviderName; priceUsd: number }[] = [];
+    const errors: string[] = [];
+    settled.forEach((r, i) => {
+      const provider = candidates[i].providerName;
+      if (r.status === "rejected") {
+        errors.push(`${provider}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`);
+      } else if (r.value !== null && Number.isFinite(r.value) && r.value > 0) {
+        prices.push({ provider, priceUsd: r.value });
+      }
+    });
+
+    const reference = median(prices.map((p) => p.priceUsd));
+    const quotes: ProviderPriceQuote[] = prices.map((p) => ({
+      ...p,
+      deviationPct: reference ? round2((Math.abs(p.priceUsd - reference) / reference) * 100) : 0,
+    }));
+
+    const outliers = quotes.length >= 2
+      ? quotes
+          .filter((q) => q.deviationPct > router.maxPriceDeviationPct)
+          .map((q) => q.provider)
+      : [];
+    for (const provider of outliers) router.recordPriceOutlier(provider);
+
+    return {
+      network,
+      tokenAddress,
+      quotes,
+      referencePriceUsd: reference,
+      maxDeviationPct: quotes.reduce((m, q) => Math.max(m, q.deviationPct), 0),
+      outliers,
+      anomaly: outliers.length > 0,
+      errors,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+}
+
+// ---- helpers ----
+
+function defaultProviders(): MarketDataProvider[] {
+  const providers: MarketDataProvider[] = [new DexScreenerClient(), new GeckoTerminalClient()];
+  try {
+    providers.push(new BirdeyeClient());
+  } catch {
+    // sin BIRDEYE_API_KEY: dos fuentes
+  }
+  return providers;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,328 @@
+/**
+ * Salud y circuit breaker de las fuentes de market data.
+ *
+ * Cada petición real (no los hits de caché) de DexScreener, GeckoTerminal
+ * y Birdeye pasa por `ProviderRouter.call`, que mide latencia, errores y
+ * 429 en una ventana móvil por proveedor. Un proveedor que falla demasiado
+ * queda abierto (`open`) un tiempo creciente y las llamadas fallan al
+ * instante con ProviderUnavailableError; así los detectores pasan a la
+ * fuente alternativa sin esperar timeouts.
+ *
+ * El estado es por proceso, igual que la caché en memoria.
+ */
+
+export type MarketProviderName = "dexscreener" | "birdeye" | "gecko";
+
+export const MARKET_PROVIDERS: MarketProviderName[] = ["dexscreener", "birdeye", "gecko"];
+
+/** Interfaz común de las fuentes de market data (precio de un token). */
+export interface MarketDataProvider {
+  readonly providerName: MarketProviderName;
+  supportsNetwork(network: string): boolean;
+  /** Precio USD del token; null si la fuente no lo conoce. */
+  getTokenPriceUsd(network: string, tokenAddress: string): Promise<number | null>;
+}
+
+/** Respuesta HTTP no-OK de un proveedor. */
+export class ProviderHttpError extends Error {
+  constructor(
+    public provider: MarketProviderName,
+    public status: number,
+    message: string,
+    /** Retry-After del 429, si lo manda. */
+    public retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+export class ProviderUnavailableError extends Error {
+  constructor(public provider: MarketProviderName, public retryAt: number) {
+    super(`${provider} en circuit-break hasta ${new Date(retryAt).toISOString()}`);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface ProviderHealth {
+  provider: MarketProviderName;
+  state: CircuitState;
+  /** 0-100: tasa de éxito ponderada por latencia; 0 con el circuito abierto. */
+  healthScore: number;
+  /** Llamadas en la ventana móvil. */
+  calls: number;
+  errors: number;
+  rateLimited: number;
+  errorRate: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  consecutiveFailures: number;
+  /** Veces que su precio se desvió del consenso (PriceReconciler). */
+  priceOutliers: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  openedUntil: string | null;
+  /** Aperturas del circuito desde que arrancó el proceso. */
+  opens: number;
+}
+
+export interface ProviderRouterConfig {
+  /** Llamadas recientes que cuentan para la tasa de error. */
+  windowSize: number;
+  /** Mínimo de llamadas en ventana antes de abrir por tasa de error. */
+  minCallsToTrip: number;
+  errorRateToTrip: number;
+  /** 429 seguidos que abren el circuito aunque haya pocas llamadas. */
+  rateLimitsToTrip: number;
+  /** Primera apertura; cada reapertura seguida dobla hasta `maxOpenMs`. */
+  openMs: number;
+  maxOpenMs: number;
+  /** Desviación (%) respecto a la mediana que marca un precio anómalo. */
+  maxPriceDeviationPct: number;
+}
+
+export const DEFAULT_PROVIDER_ROUTER_CONFIG: ProviderRouterConfig = {
+  windowSize: 50,
+  minCallsToTrip: 5,
+  errorRateToTrip: 0.5,
+  rateLimitsToTrip: 3,
+  openMs: 60_000,
+  maxOpenMs: 600_000,
+  maxPriceDeviationPct: 5,
+};
+
+interface CallSample {
+  ok: boolean;
+  rateLimited: boolean;
+  latencyMs: number;
+}
+
+interface ProviderState {
+  samples: CallSample[];
+  state: CircuitState;
+  openedUntil: number;
+  /** Aperturas seguidas sin un cierre entre medias (backoff). */
+  reopenStreak: number;
+  probeInFlight: boolean;
+  consecutiveFailures: number;
+  consecutiveRateLimits: number;
+  priceOutliers: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  opens: number;
+}
+
+/**
+ * ProviderRouter — mide cada proveedor y decide si se le puede llamar.
+ *
+ *  closed    → se llama normal; se abre si la tasa de error de la ventana
+ *              supera `errorRateToTrip` o llegan `rateLimitsToTrip` 429.
+ *  open      → falla al instante hasta `openedUntil` (o el Retry-After).
+ *  half_open → deja pasar una sola llamada de prueba: si va bien cierra,
+ *              si falla reabre con el doble de tiempo.
+ */
+export class ProviderRouter {
+  private config: ProviderRouterConfig;
+  private providers = new Map<MarketProviderName, ProviderState>();
+
+  constructor(config?: Partial<ProviderRouterConfig>) {
+    this.config = { ...DEFAULT_PROVIDER_ROUTER_CONFIG, ...config };
+  }
+
+  get maxPriceDeviationPct(): number {
+    return this.config.maxPriceDeviationPct;
+  }
+
+  /** Ejecuta una petición real contra `provider` registrando el resultado. */
+  async call<T>(provider: MarketProviderName, fn: () => Promise<T>): Promise<T> {
+    const s = this.stateOf(provider);
+    this.refresh(s);
+
+    if (s.state === "open" || (s.state === "half_open" && s.probeInFlight)) {
+      throw new ProviderUnavailableError(provider, s.openedUntil);
+    }
+
+    const probe = s.state === "half_open";
+    if (probe) s.probeInFlight = true;
+
+    const t0 = Date.now();
+    try {
+      const value = await fn();
+      this.recordSuccess(s, Date.now() - t0);
+      return value;
+    } catch (err) {
+      this.recordFailure(s, Date.now() - t0, err);
+      throw err;
+    } finally {
+      if (probe) s.probeInFlight = false;
+    }
+  }
+
+  /** true si una llamada ahora no fallaría por circuit-break. */
+  isAvailable(provider: MarketProviderName): boolean {
+    const s = this.stateOf(provider);
+    this.refresh(s);
+    return s.state === "closed" || (s.state === "half_open" && !s.probeInFlight);
+  }
+
+  /** Primer proveedor disponible en orden de preferencia. */
+  pick(candidates: MarketProviderName[]): MarketProviderName | null {
+    return candidates.find((p) => this.isAvailable(p)) ?? null;
+  }
+
+  recordPriceOutlier(provider: MarketProviderName): void {
+    this.stateOf(provider).priceOutliers++;
+  }
+
+  getHealth(): ProviderHealth[] {
+    return MARKET_PROVIDERS.map((provider) => this.healthOf(provider));
+  }
+
+  healthOf(provider: MarketProviderName): ProviderHealth {
+    const s = this.stateOf(provider);
+    this.refresh(s);
+
+    const calls = s.samples.length;
+    const errors = s.samples.filter((x) => !x.ok).length;
+    const errorRate = calls > 0 ? errors / calls : 0;
+    const latencies = s.samples.map((x) => x.latencyMs).sort((a, b) => a - b);
+    const avgLatencyMs = calls > 0 ? latencies.reduce((a, b) => a + b, 0) / calls : 0;
+
+    return {
+      provider,
+      state: s.state,
+      healthScore: s.state === "open" ? 0 : healthScore(errorRate, avgLatencyMs),
+      calls,
+      errors,
+      rateLimited: s.samples.filter((x) => x.rateLimited).length,
+      errorRate: round(errorRate, 3),
+      avgLatencyMs: Math.round(avgLatencyMs),
+      p95LatencyMs: calls > 0 ? latencies[Math.min(calls - 1, Math.floor(calls * 0.95))] : 0,
+      consecutiveFailures: s.consecutiveFailures,
+      priceOutliers: s.priceOutliers,
+      lastError: s.lastError,
+      lastErrorAt: s.lastErrorAt ? new Date(s.lastErrorAt).toISOString() : null,
+      openedUntil: s.state === "open" ? new Date(s.openedUntil).toISOString() : null,
+      opens: s.opens,
+    };
+  }
+
+  private recordSuccess(s: ProviderState, latencyMs: number): void {
+    this.push(s, { ok: true, rateLimited: false, latencyMs });
+    s.consecutiveFailures = 0;
+    s.consecutiveRateLimits = 0;
+    if (s.state === "half_open") {
+      s.state = "closed";
+      s.reopenStreak = 0;
+    }
+  }
+
+  private recordFailure(s: ProviderState, latencyMs: number, err: unknown): void {
+    const rateLimited = err instanceof ProviderHttpError && err.status === 429;
+    this.push(s, { ok: false, rateLimited, latencyMs });
+    s.consecutiveFailures++;
+    s.consecutiveRateLimits = rateLimited ? s.consecutiveRateLimits + 1 : 0;
+    s.lastError = err instanceof Error ? err.message : String(err);
+    s.lastErrorAt = Date.now();
+
+    const retryAfterMs = err instanceof ProviderHttpError ? err.retryAfterMs : null;
+
+    if (s.state === "half_open") {
+      this.open(s, retryAfterMs);
+      return;
+    }
+
+    const calls = s.samples.length;
+    const errorRate = s.samples.filter((x) => !x.ok).length / calls;
+    if (
+      (calls >= this.config.minCallsToTrip && errorRate >= this.config.errorRateToTrip) ||
+      s.consecutiveRateLimits >= this.config.rateLimitsToTrip
+    ) {
+      this.open(s, retryAfterMs);
+    }
+  }
+
+  private open(s: ProviderState, retryAfterMs: number | null): void {
+    const backoff = Math.min(
+      this.config.openMs * 2 ** s.reopenStreak,
+      this.config.maxOpenMs
+    );
+    s.state = "open";
+    s.openedUntil = Date.now() + Math.max(backoff, retryAfterMs ?? 0);
+    s.reopenStreak++;
+    s.opens++;
+  }
+
+  /** open → half_open cuando vence el tiempo de apertura. */
+  private refresh(s: ProviderState): void {
+    if (s.state === "open" && Date.now() >= s.openedUntil) {
+      s.state = "half_open";
+      s.probeInFlight = false;
+    }
+  }
+
+  private push(s: ProviderState, sample: CallSample): void {
+    s.samples.push(sample);
+    if (s.samples.length > this.config.windowSize) s.samples.shift();
+  }
+
+  private stateOf(provider: MarketProviderName): ProviderState {
+    let s = this.providers.get(provider);
+    if (!s) {
+      s = {
+        samples: [],
+        state: "closed",
+        openedUntil: 0,
+        reopenStreak: 0,
+        probeInFlight: false,
+        consecutiveFailures: 0,
+        consecutiveRateLimits: 0,
+        priceOutliers: 0,
+        lastError: null,
+        lastErrorAt: null,
+        opens: 0,
+      };
+      this.providers.set(provider, s);
+    }
+    return s;
+  }
+}
+
+let sharedRouter: ProviderRouter | null = null;
+
+/** Router compartido por todos los clientes de mercado del proceso. */
+export function getProviderRouter(): ProviderRouter {
+  if (!sharedRouter) sharedRouter = new ProviderRouter();
+  return sharedRouter;
+}
+
+export function setProviderRouter(router: ProviderRouter): void {
+  sharedRouter = router;
+}
+
+/** Retry-After (segundos o fecha HTTP) en ms; null si no viene o no se entiende. */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const secs = Number(header);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+
+// ---- helpers ----
+
+/**
+ * Éxito (70%) + latencia (30%): hasta 1 s puntúa entero, a partir de 5 s
+ * nada.
+ */
+function healthScore(errorRate: number, avgLatencyMs: number): number {
+  const latencyFactor = 1 - Math.min(1, Math.max(0, (avgLatencyMs - 1000) / 4000));
+  return Math.round(100 * (0.7 * (1 - errorRate) + 0.3 * latencyFactor));
+}
+
+function round(n: number, decimals: number): number {
+  const f = 10 ** decimals;
+  return Math.round(n * f) / f;
+}
@@ -1,5 +1,6 @@
 import { DexScreenerClient } from "./dexscreener";
 import type { QuoteFetcher } from "../engine/paper-broker";
+import { SlippageModel } from "../engine/slippage-model";
 import type { PriceQuote } from "../engine/types";
 
 /**
@@ -29,10 +30,6 @@ export class DexScreenerQuoteFetcher implements QuoteFetcher {
     const liquidityUsd = pair.liquidity?.usd ?? 0;
     const volume24h = pair.volume?.h24 ?? 0;
 
-    const spreadPct =
-      liquidityUsd > 0
-        ? Math.max(0.05, (1 / Math.sqrt(liquidityUsd / 1000)) * 100 * (volume24h > 0 ? 0.9 : 1.1))
-        : 5;
 
     return {
       symbol: pair.baseToken.symbol,
@@ -40,7 +37,7 @@ export class DexScreenerQuoteFetcher implements QuoteFetcher {
       network,
       price,
       liquidityUsd,
-      spreadPct: Math.min(spreadPct, 10),
+      spreadPct: SlippageModel.estimateSpreadPct(liquidityUsd, volume24h),
       timestamp: new Date(),
     };
   }
@@ -1,12 +1,50 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { DexScreenerClient, type DexPair } from "./dexscreener";
 import { ArkhamClient } from "../arkham/client";
+import {
+  GoPlusSecurityProvider,
+  contractRiskFlags,
+  type ContractSecurityProvider,
+} from "./contract-security";
 
 const MIN_LIQUIDITY_USD = 50_000;
 const MIN_VOLUME_24H_USD = 10_000;
 const MAX_SPREAD_PCT = 3;
 const MAX_TOP10_CONCENTRATION = 0.85;
 
+/**
+ * Penalización de health score por flag. Los flags de contrato pesan más
+ * que los de actividad del par; los no listados restan 5.
+ */
+export const RISK_FLAG_PENALTIES: Record<string, number> = {
+  low_liquidity: 5,
+  low_volume: 5,
+  zero_price: 5,
+  very_new_pair: 5,
+  no_sells_24h: 5,
+  no_buys_24h: 5,
+  mint_authority: 12,
+  freeze_authority: 20,
+  transfer_tax: 8,
+  high_transfer_tax: 25,
+  proxy_contract: 10,
+  lp_unlocked: 12,
+  sell_simulation_failed: 40,
+};
+
+/** Flags que bloquean cualquier entrada, sea cual sea el score. */
+export const CRITICAL_RISK_FLAGS: ReadonlySet<string> = new Set([
+  "zero_price",
+  "no_sells_24h",
+  "freeze_authority",
+  "high_transfer_tax",
+  "sell_simulation_failed",
+]);
+
+export function criticalRiskFlags(flags: string[]): string[] {
+  return flags.filter((f) => CRITICAL_RISK_FLAGS.has(f));
+}
+
 export interface TokenHealthResult {
   tokenId: string;
   tokenAddress: string;
@@ -28,19 +66,24 @@ export interface TokenHealthResult {
  * Fuentes:
  *  - DexScreener (gratis): precio, liquidez, volumen, spread.
  *  - Arkham holders (30 créditos): concentración de holders.
+ *  - ContractSecurityProvider (GoPlus por defecto, gratis): autoridades,
+ *    taxes, proxy, LP bloqueado y simulación de venta.
  *
  * Genera un health_score 0-100 y lo persiste como token_health_snapshot.
  */
 export class TokenHealthChecker {
   private dex: DexScreenerClient;
   private arkham: ArkhamClient | null;
+  private security: ContractSecurityProvider | null;
 
   constructor(
     private supabase: SupabaseClient,
-    arkham?: ArkhamClient
+    arkham?: ArkhamClient,
+    security?: ContractSecurityProvider | null
   ) {
     this.dex = new DexScreenerClient();
     this.arkham = arkham ?? null;
+    this.security = security === undefined ? new GoPlusSecurityProvider() : security;
   }
 
   async checkToken(
@@ -75,7 +118,10 @@ export class TokenHealthChecker {
       }
     }
 
-    const contractRiskFlags = this.detectRiskFlags(bestPair, liquidityUsd, priceUsd);
+    const contractRiskFlags = [
+      ...this.detectRiskFlags(bestPair, liquidityUsd, priceUsd),
+      ...(await this.detectContractFlags(tokenAddress, network)),
+    ];
 
     const healthScore = this.calcHealthScore({
       liquidityUsd,
@@ -151,6 +197,17 @@ export class TokenHealthChecker {
     return flags;
   }
 
+  private async detectContractFlags(tokenAddress: string, network: string): Promise<string[]> {
+    if (!this.security) return [];
+    try {
+      const report = await this.security.analyze(tokenAddress, network);
+      return report ? contractRiskFlags(report) : [];
+    } catch {
+      // Sin datos de contrato: se evalúa solo con los flags del par
+      return [];
+    }
+  }
+
   private calcHealthScore(params: {
     liquidityUsd: number;
     volume24hUsd: number;
@@ -188,8 +245,10 @@ export class TokenHealthChecker {
       else score -= 10;
     }
 
-    // Risk flags (-5 pts cada uno)
-    score -= params.contractRiskFlags.length * 5;
+    // Risk flags (penalización ponderada por flag)
+    for (const flag of params.contractRiskFlags) {
+      score -= RISK_FLAG_PENALTIES[flag] ?? 5;
+    }
 
     // Antigüedad del par
     if (params.pairAge) {
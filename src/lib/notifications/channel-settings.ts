@@ -0,0 +1,74 @@
+import { NOTIFICATION_EVENT_TYPES } from "./types";
+import type { ChannelKind, NotificationEventType } from "./types";
+import { webhookUrlError } from "./webhook-url";
+
+const CHANNEL_KINDS: ChannelKind[] = ["webhook", "telegram", "email"];
+const MAX_PER_HOUR_LIMIT = 500;
+
+/** Canal tal como lo edita el usuario (sin id = alta nueva). */
+export interface ChannelInput {
+  id?: string;
+  kind: ChannelKind;
+  target: string;
+  /** undefined = conservar el secreto guardado; "" = borrarlo. */
+  secret?: string;
+  events: NotificationEventType[];
+  enabled: boolean;
+  maxPerHour: number;
+}
+
+/** Valida el body de PUT /api/notifications. Devuelve errores legibles. */
+export function validateChannelInput(raw: unknown): { input: ChannelInput | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") {
+    return { input: null, errors: ["channel debe ser un objeto"] };
+  }
+  const r = raw as Record<string, unknown>;
+
+  const kind = r.kind as ChannelKind;
+  if (!CHANNEL_KINDS.includes(kind)) {
+    errors.push(`kind debe ser uno de: ${CHANNEL_KINDS.join(", ")}`);
+  }
+
+  const target = typeof r.target === "string" ? r.target.trim() : "";
+  const webhookError = kind === "webhook" && target ? webhookUrlError(target) : null;
+  if (!target) {
+    errors.push("target es obligatorio");
+  } else if (webhookError) {
+    errors.push(webhookError);
+  } else if (kind === "email" && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(target)) {
+    errors.push("Email inválido");
+  } else if (kind === "telegram" && !/^-?\d+$|^@\w+$/.test(target)) {
+    errors.push("El chat_id de Telegram debe ser numérico o @canal");
+  }
+
+  const events = Array.isArray(r.events) ? r.events : [];
+  const unknownEvents = events.filter((e) => !NOTIFICATION_EVENT_TYPES.includes(e as NotificationEventType));
+  if (unknownEvents.length > 0) {
+    errors.push(`Eventos desconocidos: ${unknownEvents.join(", ")}`);
+  }
+
+  const maxPerHour = r.maxPerHour === undefined ? 20 : Number(r.maxPerHour);
+  if (!Number.isInteger(maxPerHour) || maxPerHour < 1 || maxPerHour > MAX_PER_HOUR_LIMIT) {
+    errors.push(`maxPerHour debe ser un entero entre 1 y ${MAX_PER_HOUR_LIMIT}`);
+  }
+
+  if (r.secret !== undefined && typeof r.secret !== "string") {
+    errors.push("secret debe ser texto");
+  }
+
+  if (errors.length > 0) return { input: null, errors };
+
+  return {
+    input: {
+      id: typeof r.id === "string" && r.id ? r.id : undefined,
+      kind,
+      target,
+      secret: r.secret as string | undefined,
+      events: events as NotificationEventType[],
+      enabled: r.enabled === undefined ? true : Boolean(r.enabled),
+      maxPerHour,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Canales de entrega de notificaciones.
+ *
+ *  - WebhookChannel: POST JSON firmado con HMAC-SHA256 (header
+ *    `X-CTech-Signature: sha256=<hex>`) usando el secreto del canal.
+ *    Solo a hosts públicos por https y sin seguir redirecciones (SSRF);
+ *    la conexión va a la IP validada, no a una nueva resolución DNS.
+ *  - TelegramChannel: Bot API `sendMessage` al chat_id del canal.
+ *  - EmailChannel: API HTTP estilo Resend (`POST /emails`).
+ *
+ * Las URLs base de Telegram y email son configurables por env, así que
+ * esos canales pueden apuntarse a un sink HTTP local. Del receptor solo
+ * se guarda el status: su cuerpo de respuesta no llega al log.
+ */
+
+import { createHmac } from "crypto";
+import { request } from "https";
+import { pinnedLookup, resolveWebhookTarget } from "./webhook-url";
+import type { PinnedAddress } from "./webhook-url";
+import type {
+  ChannelKind,
+  DeliveryResult,
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationEvent,
+} from "./types";
+
+const DEFAULT_TELEGRAM_API_BASE_URL = "https://api.telegram.org";
+const DEFAULT_EMAIL_API_URL = "https://api.resend.com/emails";
+const SIGNATURE_HEADER = "X-CTech-Signature";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** Firma HMAC-SHA256 del cuerpo, en hex. La verifica el receptor del webhook. */
+export function signWebhookPayload(body: string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Hace el POST del webhook conectando a `pinned` y devuelve el status HTTP.
+ * No sigue redirecciones.
+ */
+export type WebhookTransport = (
+  url: string,
+  pinned: PinnedAddress,
+  headers: Record<string, string>,
+  body: string
+) => Promise<number>;
+
+export class WebhookChannel implements NotificationChannel {
+  readonly kind = "webhook" as const;
+
+  constructor(private transport: WebhookTransport = pinnedPost) {}
+
+  async send(event: NotificationEvent, config: NotificationChannelConfig): Promise<DeliveryResult> {
+    const body = JSON.stringify({
+      type: event.type,
+      title: event.title,
+      message: event.message,
+      payload: event.payload,
+      occurredAt: event.occurredAt,
+    });
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.secret) {
+      headers[SIGNATURE_HEADER] = `sha256=${signWebhookPayload(body, config.secret)}`;
+    }
+
+    const target = await resolveWebhookTarget(config.target);
+    if (target.error !== null) return { ok: false, httpStatus: null, error: target.error };
+
+    try {
+      return deliveryResult(await this.transport(config.target, target.pinned, headers, body));
+    } catch (err) {
+      return { ok: false, httpStatus: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+}
+
+export class TelegramChannel implements NotificationChannel {
+  readonly kind = "telegram" as const;
+
+  async send(event: NotificationEvent, config: NotificationChannelConfig): Promise<DeliveryResult> {
+    const token = config.secret || process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) {
+      return { ok: false, httpStatus: null, error: "Falta el token del bot de Telegram" };
+    }
+
+    const baseUrl = process.env.TELEGRAM_API_BASE_URL ?? DEFAULT_TELEGRAM_API_BASE_URL;
+    const body = JSON.stringify({
+      chat_id: config.target,
+      text: `${event.title}\n${event.message}`,
+      disable_web_page_preview: true,
+    });
+
+    const result = await post(`${baseUrl}/bot${token}/sendMessage`, { "Content-Type": "application/json" }, body);
+    // El token va en la URL: que no acabe en notification_deliveries
+    return result.error ? { ...result, error: result.error.split(token).join("<token>") } : result;
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly kind = "email" as const;
+
+  async send(event: NotificationEvent, config: NotificationChannelConfig): Promise<DeliveryResult> {
+    const apiKey = process.env.RESEND_API_KEY;
+    const from = process.env.NOTIFY_EMAIL_FROM;
+    if (!apiKey || !from) {
+      return { ok: false, httpStatus: null, error: "RESEND_API_KEY o NOTIFY_EMAIL_FROM no configurados" };
+    }
+
+    const body = JSON.stringify({
+      from,
+      to: [config.target],
+      subject: `[CTech] ${event.title}`,
+      text: `${event.message}\n\n${JSON.stringify(event.payload, null, 2)}`,
+    });
+
+    return post(
+      process.env.EMAIL_API_URL ?? DEFAULT_EMAIL_API_URL,
+      { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+      body
+    );
+  }
+}
+
+export function createChannel(kind: ChannelKind): NotificationChannel {
+  switch (kind) {
+    case "webhook":
+      return new WebhookChannel();
+    case "telegram":
+      return new TelegramChannel();
+    case "email":
+      return new EmailChannel();
+  }
+}
+
+// ---- helpers ----
+
+async function post(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<DeliveryResult> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    return deliveryResult(res.status);
+  } catch (err) {
+    return { ok: false, httpStatus: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** POST por https con el DNS fijado a la dirección ya validada. */
+function pinnedPost(
+  url: string,
+  pinned: PinnedAddress,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinnedLookup(pinned),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function deliveryResult(status: number): DeliveryResult {
+  if (status >= 300 && status < 400) {
+    return { ok: false, httpStatus: status, error: `Redirección HTTP ${status} no seguida` };
+  }
+  if (status < 200 || status >= 300) {
+    return { ok: false, httpStatus: status, error: `HTTP ${status}` };
+  }
+  return { ok: true, httpStatus: status, error: null };
+}
@@ -0,0 +1,20 @@
+export { Notifier, rowToChannelConfig, sealChannelSecret } from "./notifier";
+export type { DispatchSummary } from "./notifier";
+export {
+  WebhookChannel,
+  TelegramChannel,
+  EmailChannel,
+  createChannel,
+  signWebhookPayload,
+} from "./channels";
+export { NOTIFICATION_EVENT_TYPES } from "./types";
+export type {
+  ChannelKind,
+  DeliveryResult,
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationEvent,
+  NotificationEventType,
+} from "./types";
+export { validateChannelInput } from "./channel-settings";
+export type { ChannelInput } from "./channel-settings";
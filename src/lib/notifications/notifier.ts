@@ -0,0 +1,249 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CredentialVault } from "../exchanges/credential-vault";
+import type { SealedSecret } from "../exchanges/credential-vault";
+import { createChannel } from "./channels";
+import type {
+  ChannelKind,
+  DeliveryResult,
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationEvent,
+  NotificationEventType,
+} from "./types";
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const CHANNELS_TABLE = "notification_channels";
+const CHANNEL_COLUMNS =
+  "id, kind, target, secret, secret_encrypted, secret_data_key_encrypted, secret_key_id, events, enabled, max_per_hour";
+
+export interface DispatchSummary {
+  sent: number;
+  failed: number;
+  rateLimited: number;
+}
+
+/**
+ * Notifier — entrega los eventos de un ciclo a los canales del usuario.
+ *
+ *  - Carga los canales activos de `notification_channels` y filtra por
+ *    los eventos suscritos (lista vacía = todos).
+ *  - Rate limit por canal: como mucho `max_per_hour` entregas `sent` en la
+ *    última hora; el resto se registra como `rate_limited` sin enviar.
+ *  - Cada intento queda en `notification_deliveries`.
+ *  - Los secretos de canal están sellados con el CredentialVault; un
+ *    secreto antiguo en claro se re-sella (y se borra) al cargarlo.
+ *
+ * Un fallo de entrega nunca lanza: se registra y se sigue con el resto.
+ */
+export class Notifier {
+  private channels = new Map<ChannelKind, NotificationChannel>();
+  private vault: CredentialVault | null | undefined;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+    channels?: NotificationChannel[],
+    /** Sin indicar se crea desde EXCHANGE_ENCRYPTION_KEY si está configurada. */
+    vault?: CredentialVault | null
+  ) {
+    for (const c of channels ?? []) this.channels.set(c.kind, c);
+    this.vault = vault;
+  }
+
+  async dispatch(events: NotificationEvent[]): Promise<DispatchSummary> {
+    const summary: DispatchSummary = { sent: 0, failed: 0, rateLimited: 0 };
+    if (events.length === 0) return summary;
+
+    const configs = await this.loadChannels();
+    if (configs.length === 0) return summary;
+
+    const sentLastHour = await this.countRecentSent(configs.map((c) => c.id));
+
+    for (const event of events) {
+      for (const config of configs) {
+        if (!subscribes(config, event.type)) continue;
+
+        const used = sentLastHour.get(config.id) ?? 0;
+        if (used >= config.maxPerHour) {
+          summary.rateLimited++;
+          await this.logDelivery(config, event, "rate_limited", {
+            ok: false,
+            httpStatus: null,
+            error: `Límite de ${config.maxPerHour}/h alcanzado`,
+          });
+          continue;
+        }
+
+        const delivery: DeliveryResult = config.secretError
+          ? { ok: false, httpStatus: null, error: config.secretError }
+          : await this.channelFor(config.kind).send(event, config);
+        if (delivery.ok) {
+          summary.sent++;
+          sentLastHour.set(config.id, used + 1);
+        } else {
+          summary.failed++;
+        }
+        await this.logDelivery(config, event, delivery.ok ? "sent" : "failed", delivery);
+      }
+    }
+
+    return summary;
+  }
+
+  private channelFor(kind: ChannelKind): NotificationChannel {
+    let channel = this.channels.get(kind);
+    if (!channel) {
+      channel = createChannel(kind);
+      this.channels.set(kind, channel);
+    }
+    return channel;
+  }
+
+  private async loadChannels(): Promise<NotificationChannelConfig[]> {
+    const { data, error } = await this.supabase
+      .from(CHANNELS_TABLE)
+      .select(CHANNEL_COLUMNS)
+      .eq("user_id", this.userId)
+      .eq("enabled", true);
+
+    if (error) throw new Error(`Canales de notificación: ${error.message}`);
+
+    const configs: NotificationChannelConfig[] = [];
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      configs.push(await this.unsealChannel(row));
+    }
+    return configs;
+  }
+
+  /** Abre el secreto sellado; uno en claro (filas antiguas) se re-sella si hay clave. */
+  private async unsealChannel(row: Record<string, unknown>): Promise<NotificationChannelConfig> {
+    const sealed = sealedSecretOf(row);
+    const plaintext = (row.secret as string | null) ?? null;
+    const vault = sealed || plaintext ? this.getVault() : null;
+
+    if (sealed) {
+      if (!vault) {
+        return { ...rowToChannelConfig(row, null), secretError: "Secreto sellado sin EXCHANGE_ENCRYPTION_KEY para abrirlo" };
+      }
+      try {
+        return rowToChannelConfig(row, vault.openSecret(CHANNELS_TABLE, this.userId, sealed));
+      } catch (err) {
+        return {
+          ...rowToChannelConfig(row, null),
+          secretError: err instanceof Error ? err.message : String(err),
+        };
+      }
+    }
+
+    if (plaintext && vault) {
+      try {
+        await this.supabase
+          .from(CHANNELS_TABLE)
+          .update({ ...sealChannelSecret(vault, this.userId, plaintext), secret: null })
+          .eq("id", row.id as string)
+          .eq("user_id", this.userId);
+      } catch {
+        // se reintenta en el siguiente envío
+      }
+    }
+    return rowToChannelConfig(row, plaintext);
+  }
+
+  private getVault(): CredentialVault | null {
+    if (this.vault === undefined) {
+      try {
+        this.vault = CredentialVault.fromEnv();
+      } catch {
+        this.vault = null;
+      }
+    }
+    return this.vault;
+  }
+
+  private async countRecentSent(channelIds: string[]): Promise<Map<string, number>> {
+    const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+    const { data } = await this.supabase
+      .from("notification_deliveries")
+      .select("channel_id")
+      .in("channel_id", channelIds)
+      .eq("status", "sent")
+      .gte("created_at", since);
+
+    const counts = new Map<string, number>();
+    for (const row of data ?? []) {
+      const id = row.channel_id as string;
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private async logDelivery(
+    config: NotificationChannelConfig,
+    event: NotificationEvent,
+    status: "sent" | "failed" | "rate_limited",
+    delivery: DeliveryResult
+  ): Promise<void> {
+    try {
+      await this.supabase.from("notification_deliveries").insert({
+        user_id: this.userId,
+        channel_id: config.id,
+        event_type: event.type,
+        status,
+        http_status: delivery.httpStatus,
+        error: delivery.error,
+        payload: {
+          title: event.title,
+          message: event.message,
+          ...event.payload,
+        },
+      });
+    } catch {
+      // no bloquear: el log de entregas es best-effort
+    }
+  }
+}
+
+/**
+ * Convierte una fila de notification_channels al formato de los canales,
+ * con el secreto ya abierto (las columnas de la fila van selladas).
+ */
+export function rowToChannelConfig(row: Record<string, unknown>, secret: string | null): NotificationChannelConfig {
+  return {
+    id: row.id as string,
+    kind: row.kind as ChannelKind,
+    target: row.target as string,
+    secret,
+    events: (row.events as NotificationEventType[] | null) ?? [],
+    enabled: Boolean(row.enabled),
+    maxPerHour: Number(row.max_per_hour ?? 20),
+  };
+}
+
+/** Columnas de notification_channels para guardar un secreto sellado. */
+export function sealChannelSecret(
+  vault: CredentialVault,
+  userId: string,
+  secret: string
+): Record<string, string> {
+  const sealed = vault.sealSecret(CHANNELS_TABLE, userId, secret);
+  return {
+    secret_encrypted: sealed.ciphertext,
+    secret_data_key_encrypted: sealed.data_key_encrypted,
+    secret_key_id: sealed.key_id,
+  };
+}
+
+// ---- helpers ----
+
+function sealedSecretOf(row: Record<string, unknown>): SealedSecret | null {
+  if (!row.secret_encrypted || !row.secret_data_key_encrypted || !row.secret_key_id) return null;
+  return {
+    ciphertext: row.secret_encrypted as string,
+    data_key_encrypted: row.secret_data_key_encrypted as string,
+    key_id: row.secret_key_id as string,
+  };
+}
+
+function subscribes(config: NotificationChannelConfig, type: NotificationEventType): boolean {
+  return config.events.length === 0 || config.events.includes(type);
+}
@@ -0,0 +1,60 @@
+// ============================================================
+// Notifications – Tipos compartidos de eventos y canales
+// ============================================================
+
+export type NotificationEventType =
+  | "trade_opened"
+  | "trade_closed"
+  | "risk_pause"
+  | "stress_event"
+  | "calibration_change"
+  | "cycle_error";
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  "trade_opened",
+  "trade_closed",
+  "risk_pause",
+  "stress_event",
+  "calibration_change",
+  "cycle_error",
+];
+
+/** Evento del Orchestrator listo para entregar por cualquier canal. */
+export interface NotificationEvent {
+  type: NotificationEventType;
+  userId: string;
+  title: string;
+  message: string;
+  payload: Record<string, unknown>;
+  occurredAt: string;
+}
+
+export type ChannelKind = "webhook" | "telegram" | "email";
+
+/** Fila de notification_channels. */
+export interface NotificationChannelConfig {
+  id: string;
+  kind: ChannelKind;
+  /** URL del webhook, chat_id de Telegram o dirección de email. */
+  target: string;
+  /** Secreto HMAC del webhook o token del bot de Telegram (ya descifrado). */
+  secret: string | null;
+  /** Motivo si el secreto sellado no se pudo abrir: el canal no envía. */
+  secretError?: string;
+  /** Eventos suscritos; vacío = todos. */
+  events: NotificationEventType[];
+  enabled: boolean;
+  maxPerHour: number;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  httpStatus: number | null;
+  error: string | null;
+}
+
+/** Entrega un evento a un destino concreto (una fila de notification_channels). */
+export interface NotificationChannel {
+  readonly kind: ChannelKind;
+  send(event: NotificationEvent, config: NotificationChannelConfig): Promise<DeliveryResult>;
+}
@@ -0,0 +1,155 @@
+/**
+ * Validación de destinos de webhook contra SSRF: el servidor hace POST a
+ * la URL que pone el usuario, así que solo se admiten hosts públicos por
+ * https. Se comprueba al guardar (texto de la URL) y antes de cada envío
+ * (direcciones a las que resuelve el DNS, por si apunta a la red interna).
+ * El envío se conecta a la dirección validada (`pinnedLookup`): un DNS que
+ * cambie entre la comprobación y la conexión (rebinding) no la redirige.
+ */
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import type { LookupFunction } from "net";
+
+/** Dirección ya validada a la que se conecta el envío. */
+export interface PinnedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+export type WebhookTarget =
+  | { error: string; pinned: null }
+  | { error: null; pinned: PinnedAddress };
+
+/** Resuelve un host a todas sus direcciones (dns.lookup por defecto). */
+export type HostResolver = (host: string) => Promise<{ address: string; family: number }[]>;
+
+/** Motivo por el que la URL no es un webhook aceptable; null si vale. */
+export function webhookUrlError(target: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return "El webhook debe ser una URL válida";
+  }
+
+  if (url.protocol !== "https:") return "El webhook debe usar https";
+  if (url.username || url.password) return "El webhook no puede llevar credenciales en la URL";
+
+  const host = hostOf(url);
+  if (isIP(host)) {
+    return isPublicAddress(host) ? null : "El webhook no puede apuntar a una IP privada o local";
+  }
+  if (!host.includes(".") || BLOCKED_HOST_SUFFIXES.some((s) => host === s.slice(1) || host.endsWith(s))) {
+    return "El webhook debe apuntar a un host público";
+  }
+  return null;
+}
+
+/**
+ * Como `webhookUrlError`, y además resuelve el host: si alguna dirección
+ * es privada, loopback, link-local o de metadata, el envío no se hace.
+ * Devuelve la dirección con la que hay que conectar para no resolver dos
+ * veces.
+ */
+export async function resolveWebhookTarget(
+  target: string,
+  resolve: HostResolver = resolveAll
+): Promise<WebhookTarget> {
+  const error = webhookUrlError(target);
+  if (error) return { error, pinned: null };
+
+  const host = hostOf(new URL(target));
+  const literal = isIP(host);
+  if (literal) return { error: null, pinned: { address: host, family: literal === 6 ? 6 : 4 } };
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await resolve(host);
+  } catch {
+    return { error: `No se pudo resolver ${host}`, pinned: null };
+  }
+  if (addresses.length === 0) return { error: `No se pudo resolver ${host}`, pinned: null };
+  if (!addresses.every((a) => isPublicAddress(a.address))) {
+    return { error: `${host} resuelve a una dirección privada o local`, pinned: null };
+  }
+
+  const first = addresses[0];
+  return { error: null, pinned: { address: first.address, family: isIP(first.address) === 6 ? 6 : 4 } };
+}
+
+/** `lookup` para http(s).request que siempre devuelve la dirección fijada. */
+export function pinnedLookup(pinned: PinnedAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address: pinned.address, family: pinned.family }]);
+    else callback(null, pinned.address, pinned.family);
+  };
+}
+
+// ---- helpers ----
+
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+/** Hostname sin corchetes IPv6 y en minúsculas. */
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+}
+
+function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPublicIPv4(address);
+  if (version === 6) return isPublicIPv6(address);
+  return false;
+}
+
+function isPublicIPv4(address: string): boolean {
+  const [a, b, c] = address.split(".").map(Number);
+  if (a === 0 || a === 10 || a === 127) return false;       // this-network, privada, loopback
+  if (a === 100 && b >= 64 && b <= 127) return false;        // CGNAT
+  if (a === 169 && b === 254) return false;                  // link-local (metadata de clouds)
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && b === 168) return false;
+  if (a === 192 && b === 0 && c === 0) return false;
+  if (a === 198 && (b === 18 || b === 19)) return false;     // benchmarking
+  if (a >= 224) return false;                                // multicast y reservadas
+  return true;
+}
+
+function isPublicIPv6(address: string): boolean {
+  const g = ipv6Groups(address);
+  if (!g) return false;
+  const zeros = (n: number) => g.slice(0, n).every((x) => x === 0);
+  if (zeros(6)) return false;                                          // ::, ::1 e IPv4 compatible (::a.b.c.d)
+  if (zeros(5) && g[5] === 0xffff) return false;                       // IPv4 mapeada (::ffff:a.b.c.d)
+  if (g[0] === 0x64 && g[1] === 0xff9b && (g[2] === 1 || g.slice(2, 6).every((x) => x === 0))) {
+    return false;                                                      // NAT64 64:ff9b::/96 y 64:ff9b:1::/48
+  }
+  if ((g[0] & 0xfe00) === 0xfc00) return false;                        // fc00::/7 (ULA)
+  if ((g[0] & 0xffc0) === 0xfe80) return false;                        // fe80::/10 link-local
+  if ((g[0] & 0xff00) === 0xff00) return false;                        // multicast
+  return true;
+}
+
+/** Los 8 grupos de 16 bits de una IPv6 (admite `::` y la forma con IPv4 al final). */
+function ipv6Groups(address: string): number[] | null {
+  let a = address.toLowerCase().replace(/%.*$/, "");
+  const v4 = a.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const [b0, b1, b2, b3] = v4[2].split(".").map(Number);
+    a = `${v4[1]}${((b0 << 8) | b1).toString(16)}:${((b2 << 8) | b3).toString(16)}`;
+  }
+
+  const halves = a.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail].map((x) => parseInt(x, 16));
+  return groups.every((x) => Number.isInteger(x) && x >= 0 && x <= 0xffff) ? groups : null;
+}
+
+async function resolveAll(host: string): Promise<{ address: string; family: number }[]> {
+  return lookup(host, { all: true, verbatim: true });
+}
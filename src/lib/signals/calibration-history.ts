@@ -0,0 +1,254 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CalibrationState, DetectorInteraction } from "./incremental-calibrator";
+import type { ThresholdSet, WalkForwardResult } from "./walk-forward";
+
+export type CalibrationChangeSource = "recalibration" | "rollback";
+
+/**
+ * Resultado de la pasada: `applied` si cambió los umbrales (o es un
+ * rollback), `rejected` si el walk-forward descartó la propuesta y
+ * `unchanged` si no hubo nada que proponer.
+ */
+export type CalibrationOutcome = "applied" | "rejected" | "unchanged";
+
+/** Métricas con las que se decidió el cambio (las de calibration_state en ese momento). */
+export interface CalibrationInputs {
+  hitRate24h_core: number;
+  hitRate24h_satellite: number;
+  avgPnl24h: number;
+  profitFactor_rolling: number;
+  expectancy_rolling: number;
+  exposureMomentumPct: number;
+  exposureEarlyPct: number;
+  detectorInteraction: DetectorInteraction | null;
+}
+
+export interface CalibrationVersion {
+  id: string;
+  version: number;
+  source: CalibrationChangeSource;
+  outcome: CalibrationOutcome;
+  /** Versión restaurada si `source` es rollback. */
+  restoredVersion: number | null;
+  thresholds: ThresholdSet;
+  inputs: CalibrationInputs;
+  walkForward: WalkForwardResult | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface CalibrationFieldDiff {
+  field: string;
+  from: number | string | null;
+  to: number | string | null;
+  /** to - from para campos numéricos. */
+  delta: number | null;
+}
+
+export interface CalibrationDiff {
+  from: number;
+  to: number;
+  thresholds: CalibrationFieldDiff[];
+  inputs: CalibrationFieldDiff[];
+}
+
+const COLUMNS =
+  "id, version, source, outcome, restored_version, momentum_score_threshold, early_score_threshold, " +
+  "core_min_confidence, satellite_min_confidence, hit_rate_24h_core, hit_rate_24h_satellite, " +
+  "avg_pnl_24h, profit_factor_rolling, expectancy_rolling, exposure_momentum_pct, " +
+  "exposure_early_pct, detector_interaction, walk_forward, note, created_at";
+
+/**
+ * CalibrationHistoryStore — historial append-only de calibration_state.
+ *
+ * El IncrementalCalibrator añade una versión en cada recalibrado (con su
+ * `outcome`, también cuando no cambia nada o el walk-forward rechaza) y
+ * en cada rollback; las filas nunca se editan, así que el historial sirve
+ * para ver la deriva de los umbrales y para volver a cualquier punto
+ * anterior.
+ */
+export class CalibrationHistoryStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async list(userId: string, limit = 100): Promise<CalibrationVersion[]> {
+    const { data, error } = await this.supabase
+      .from("calibration_history")
+      .select(COLUMNS)
+      .eq("user_id", userId)
+      .order("version", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`calibration_history: ${error.message}`);
+    return ((data ?? []) as unknown as HistoryRow[]).map(toVersion);
+  }
+
+  async get(userId: string, version: number): Promise<CalibrationVersion | null> {
+    const { data } = await this.supabase
+      .from("calibration_history")
+      .select(COLUMNS)
+      .eq("user_id", userId)
+      .eq("version", version)
+      .maybeSingle();
+
+    return data ? toVersion(data as unknown as HistoryRow) : null;
+  }
+
+  async latest(userId: string): Promise<CalibrationVersion | null> {
+    const { data } = await this.supabase
+      .from("calibration_history")
+      .select(COLUMNS)
+      .eq("user_id", userId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data ? toVersion(data as unknown as HistoryRow) : null;
+  }
+
+  /**
+   * Inserta la versión siguiente a la última. Si otra pasada concurrente
+   * ocupa ese número (unique user_id + version), reintenta con el nuevo
+   * último.
+   */
+  async append(
+    userId: string,
+    state: CalibrationState,
+    source: CalibrationChangeSource,
+    opts: { outcome?: CalibrationOutcome; restoredVersion?: number; note?: string } = {}
+  ): Promise<CalibrationVersion> {
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.latest(userId);
+
+      const { data, error } = await this.supabase
+        .from("calibration_history")
+        .insert({
+          user_id: userId,
+          version: (last?.version ?? 0) + 1,
+          source,
+          outcome: opts.outcome ?? "applied",
+          restored_version: opts.restoredVersion ?? null,
+          momentum_score_threshold: state.momentumScoreThreshold,
+          early_score_threshold: state.earlyScoreThreshold,
+          core_min_confidence: state.coreMinConfidence,
+          satellite_min_confidence: state.satelliteMinConfidence,
+          hit_rate_24h_core: state.hitRate24h_core,
+          hit_rate_24h_satellite: state.hitRate24h_satellite,
+          avg_pnl_24h: state.avgPnl24h,
+          profit_factor_rolling: state.profitFactor_rolling,
+          expectancy_rolling: state.expectancy_rolling,
+          exposure_momentum_pct: state.exposureMomentumPct,
+          exposure_early_pct: state.exposureEarlyPct,
+          detector_interaction: state.detectorInteraction,
+          walk_forward: state.walkForward,
+          note: opts.note ?? null,
+        })
+        .select(COLUMNS)
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION && attempt < MAX_APPEND_ATTEMPTS) continue;
+      if (error || !data) {
+        throw new Error(`Error guardando calibration_history: ${error?.message ?? "sin datos"}`);
+      }
+      return toVersion(data as unknown as HistoryRow);
+    }
+  }
+}
+
+/** Diferencias campo a campo entre dos versiones (de `a` hacia `b`). */
+export function diffCalibrationVersions(a: CalibrationVersion, b: CalibrationVersion): CalibrationDiff {
+  const thresholdFields: (keyof ThresholdSet)[] = [
+    "momentumScoreThreshold",
+    "earlyScoreThreshold",
+    "coreMinConfidence",
+    "satelliteMinConfidence",
+  ];
+  const inputFields: (keyof Omit<CalibrationInputs, "detectorInteraction">)[] = [
+    "hitRate24h_core",
+    "hitRate24h_satellite",
+    "avgPnl24h",
+    "profitFactor_rolling",
+    "expectancy_rolling",
+    "exposureMomentumPct",
+    "exposureEarlyPct",
+  ];
+
+  const inputs = inputFields
+    .filter((f) => a.inputs[f] !== b.inputs[f])
+    .map((f) => numericDiff(f, a.inputs[f], b.inputs[f]));
+
+  const biasFrom = a.inputs.detectorInteraction?.recommendedBias ?? null;
+  const biasTo = b.inputs.detectorInteraction?.recommendedBias ?? null;
+  if (biasFrom !== biasTo) {
+    inputs.push({ field: "recommendedBias", from: biasFrom, to: biasTo, delta: null });
+  }
+
+  return {
+    from: a.version,
+    to: b.version,
+    thresholds: thresholdFields
+      .filter((f) => a.thresholds[f] !== b.thresholds[f])
+      .map((f) => numericDiff(f, a.thresholds[f], b.thresholds[f])),
+    inputs,
+  };
+}
+
+// ---- helpers ----
+
+const UNIQUE_VIOLATION = "23505";
+const MAX_APPEND_ATTEMPTS = 3;
+
+type HistoryRow = {
+  id: string;
+  version: number;
+  source: CalibrationChangeSource;
+  outcome: CalibrationOutcome | null;
+  restored_version: number | null;
+  momentum_score_threshold: unknown;
+  early_score_threshold: unknown;
+  core_min_confidence: unknown;
+  satellite_min_confidence: unknown;
+  hit_rate_24h_core: unknown;
+  hit_rate_24h_satellite: unknown;
+  avg_pnl_24h: unknown;
+  profit_factor_rolling: unknown;
+  expectancy_rolling: unknown;
+  exposure_momentum_pct: unknown;
+  exposure_early_pct: unknown;
+  detector_interaction: unknown;
+  walk_forward: unknown;
+  note: string | null;
+  created_at: string;
+};
+
+function toVersion(row: HistoryRow): CalibrationVersion {
+  return {
+    id: row.id,
+    version: Number(row.version),
+    source: row.source,
+    outcome: row.outcome ?? "applied",
+    restoredVersion: row.restored_version != null ? Number(row.restored_version) : null,
+    thresholds: {
+      momentumScoreThreshold: Number(row.momentum_score_threshold),
+      earlyScoreThreshold: Number(row.early_score_threshold),
+      coreMinConfidence: Number(row.core_min_confidence),
+      satelliteMinConfidence: Number(row.satellite_min_confidence),
+    },
+    inputs: {
+      hitRate24h_core: Number(row.hit_rate_24h_core),
+      hitRate24h_satellite: Number(row.hit_rate_24h_satellite),
+      avgPnl24h: Number(row.avg_pnl_24h),
+      profitFactor_rolling: Number(row.profit_factor_rolling),
+      expectancy_rolling: Number(row.expectancy_rolling),
+      exposureMomentumPct: Number(row.exposure_momentum_pct),
+      exposureEarlyPct: Number(row.exposure_early_pct),
+      detectorInteraction: (row.detector_interaction as DetectorInteraction | null) ?? null,
+    },
+    walkForward: (row.walk_forward as WalkForwardResult | null) ?? null,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+function numericDiff(field: string, from: number, to: number): CalibrationFieldDiff {
+  return { field, from, to, delta: Math.round((to - from) * 10000) / 10000 };
+}
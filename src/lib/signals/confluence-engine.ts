@@ -1,11 +1,16 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { MomentumSignal } from "./momentum-detector";
 import type { EarlySignal } from "./early-detector";
+import type { DistributionSignal } from "./distribution-detector";
 import type { RegimeSnapshot } from "../market/regime-detector";
 import type { TokenHealthResult } from "../market/token-health";
-import type { OrderRequest, Layer } from "../engine/types";
+import { criticalRiskFlags } from "../market/token-health";
+import type { OrderRequest, Layer, TradeSide } from "../engine/types";
+import { extractSignalFeatures, scoreSignal } from "./learned-scoring";
+import type { ConfluenceModel, LearnedScore, SignalFeatureSources, SignalFeatures } from "./learned-scoring";
 
-export type SignalSource = "momentum" | "early";
+/** distribution: ventas agrupadas de smart money → entrada short. */
+export type SignalSource = "momentum" | "early" | "distribution";
 
 export interface ConfluenceResult {
   token: string;
@@ -13,23 +18,106 @@ export interface ConfluenceResult {
   network: string;
   layer: Layer;
   confidence: number;
+  /** Puntos de cada capa que suman `confidence` (antes del clamp 0-100). */
+  components: ConfluenceComponents;
+  scoring: SignalScoring;
+  walletProvenance: WalletProvenance;
   reasons: string[];
   signalSource: SignalSource;
   order: OrderRequest;
   sources: {
     momentum: MomentumSignal | null;
     early: EarlySignal | null;
+    distribution: DistributionSignal | null;
     walletConfluence: WalletConfluenceInfo | null;
     tokenHealth: TokenHealthResult | null;
     regime: RegimeSnapshot | null;
   };
 }
 
+/**
+ * Aportación de cada capa a la confianza. Se guarda en signal_outcomes y
+ * trades (`pts_*`) para medir qué capa tiene edge (SignalAttributionEngine).
+ */
+export interface ConfluenceComponents {
+  /** Score del detector: momentum o early (0 en shorts). */
+  detector: number;
+  /** Wallet confluence; en shorts, la distribución de smart money. */
+  wallet: number;
+  /** Token health, incluida la penalización por risk flags. */
+  health: number;
+  regime: number;
+  /** Compras orgánicas (early) o acción de precio (short). */
+  pattern: number;
+}
+
+/** Confianza por reglas junto a la del modelo aprendido (learned-scoring). */
+export interface SignalScoring {
+  ruleConfidence: number;
+  features: SignalFeatures;
+  /** Modelo activo; `applied` si sustituye a las reglas (scoringMode "learned"). */
+  learned: LearnedScore | null;
+  /** Modelo en shadow: solo se registra para decidir su promoción. */
+  shadow: LearnedScore | null;
+}
+
+export type ScoringMode = "rules" | "learned";
+
+export const CONFLUENCE_COMPONENTS: (keyof ConfluenceComponents)[] = [
+  "detector",
+  "wallet",
+  "health",
+  "regime",
+  "pattern",
+];
+
+/** Columnas `pts_*` de signal_outcomes y trades. */
+export function componentColumns(c: ConfluenceComponents): Record<string, number> {
+  return {
+    pts_detector: c.detector,
+    pts_wallet: c.wallet,
+    pts_health: c.health,
+    pts_regime: c.regime,
+    pts_pattern: c.pattern,
+  };
+}
+
 export interface WalletConfluenceInfo {
   walletCount: number;
   avgWalletScore: number;
   totalAmountUsd: number;
   walletIds: string[];
+  /** Cuántas de `walletCount` son del SmartMoneySimulator (0 si falta). */
+  simulatedWalletCount?: number;
+}
+
+export type WalletProvenanceSource = "none" | "real" | "simulated" | "mixed";
+
+/**
+ * Procedencia de la wallet confluence de una señal y contrafactual sin
+ * las wallets simuladas: permite medir cuánto infla el simulador.
+ */
+export interface WalletProvenance {
+  source: WalletProvenanceSource;
+  realWallets: number;
+  simulatedWallets: number;
+  /** Confianza solo con wallets reales; null si la señal no existiría sin ellas. */
+  confidenceWithoutSimulated: number | null;
+  passesWithoutSimulated: boolean;
+}
+
+/**
+ * Fuente alternativa de wallet confluence. Por defecto el engine consulta
+ * wallet_movements en Supabase; el backtester inyecta la confluencia
+ * grabada en los snapshots para poder reproducir ciclos offline.
+ * `direction` = "sell" pide la distribución (ventas agrupadas).
+ */
+export interface WalletConfluenceSource {
+  getWalletConfluence(
+    tokenAddress: string,
+    network: string,
+    direction?: TradeSide
+  ): Promise<WalletConfluenceInfo | null>;
 }
 
 export interface ConfluenceConfig {
@@ -43,9 +131,15 @@ export interface ConfluenceConfig {
   coreMinConfidence: number;
   satelliteMinConfidence: number;
   earlyWalletBoostMultiplier: number;
+  /** Permite entradas short por distribución (solo en brokers que lo soportan). */
+  enableShorts: boolean;
+  /** "learned": la confianza sale del modelo activo del usuario si lo hay. */
+  scoringMode: ScoringMode;
+  /** Si las wallets del SmartMoneySimulator cuentan para la confluencia. */
+  countSimulatedWallets: boolean;
 }
 
-const DEFAULT_CONFIG: ConfluenceConfig = {
+export const DEFAULT_CONFLUENCE_CONFIG: ConfluenceConfig = {
   minMomentumScore: 45,
   minEarlyScore: 42,
   minTokenHealth: 60,
@@ -56,6 +150,9 @@ const DEFAULT_CONFIG: ConfluenceConfig = {
   coreMinConfidence: 72,
   satelliteMinConfidence: 45,
   earlyWalletBoostMultiplier: 1.5,
+  enableShorts: false,
+  scoringMode: "rules",
+  countSimulatedWallets: true,
 };
 
 /**
@@ -72,17 +169,43 @@ const DEFAULT_CONFIG: ConfluenceConfig = {
  *  3. Token health (DexScreener + Arkham, $0-$$) — filtro
  *  4. Market regime (Fear & Greed, $0) — modulador
  *
- * Una señal pasa si tiene suficiente confidence (0-100).
+ * Las ventas agrupadas de wallets con buen score (distribución) generan
+ * entradas short vía evaluateShort() y aceleran la salida de los longs
+ * abiertos vía getAdverseFlow().
+ *
+ * La wallet confluence distingue movimientos reales (WalletTracker) de
+ * simulados; con `countSimulatedWallets: false` solo cuentan los reales.
+ * Cada resultado lleva `walletProvenance` con la confianza que habría
+ * tenido sin las wallets simuladas.
+ *
+ * Una señal pasa si tiene suficiente confidence (0-100). Con
+ * `scoringMode: "learned"` y un modelo activo, la confianza es la P(win)
+ * del modelo llevada a la escala de las reglas; las capas siguen
+ * descartando (score mínimo, flags críticos) igual que en modo reglas.
  */
 export class ConfluenceEngine {
   private config: ConfluenceConfig;
+  private walletSource: WalletConfluenceSource | null = null;
+  private models: { active: ConfluenceModel | null; shadow: ConfluenceModel | null } = {
+    active: null,
+    shadow: null,
+  };
 
   constructor(
     private supabase: SupabaseClient,
     private userId: string,
     config?: Partial<ConfluenceConfig>
   ) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...DEFAULT_CONFLUENCE_CONFIG, ...config };
+  }
+
+  setWalletSource(source: WalletConfluenceSource | null): void {
+    this.walletSource = source;
+  }
+
+  /** Modelos aprendidos del usuario (ConfluenceModelManager.getModels). */
+  setLearnedModels(models: { active: ConfluenceModel | null; shadow: ConfluenceModel | null }): void {
+    this.models = models;
   }
 
   /**
@@ -94,17 +217,17 @@ export class ConfluenceEngine {
     regime: RegimeSnapshot | null
   ): Promise<ConfluenceResult | null> {
     const reasons: string[] = [];
-    let confidence = 0;
+    const pts = emptyComponents();
 
     // --- Capa 1: Momentum (max 40 pts) ---
     if (momentum.momentumScore >= 80) {
-      confidence += 40;
+      pts.detector += 40;
       reasons.push(`Momentum fuerte (${momentum.momentumScore})`);
     } else if (momentum.momentumScore >= 65) {
-      confidence += 30;
+      pts.detector += 30;
       reasons.push(`Momentum moderado (${momentum.momentumScore})`);
     } else if (momentum.momentumScore >= this.config.minMomentumScore) {
-      confidence += 18;
+      pts.detector += 18;
       reasons.push(`Momentum débil (${momentum.momentumScore})`);
     } else {
       return null;
@@ -115,40 +238,48 @@ export class ConfluenceEngine {
       momentum.tokenAddress,
       momentum.network
     );
+    const walletPoints = (count: number) => momentumWalletPoints(count, this.config);
     if (walletConf) {
+      pts.wallet += walletPoints(walletConf.walletCount);
       if (walletConf.walletCount >= 5) {
-        confidence += 25;
         reasons.push(`${walletConf.walletCount} wallets buenas comprando (score avg ${walletConf.avgWalletScore.toFixed(0)})`);
       } else if (walletConf.walletCount >= this.config.minWalletsForConfluence) {
-        confidence += 18;
         reasons.push(`${walletConf.walletCount} wallets comprando (score avg ${walletConf.avgWalletScore.toFixed(0)})`);
       }
     }
 
     // --- Capa 3: Token health (max 20 pts) ---
     if (tokenHealth) {
+      // Flags críticos (honeypot, freeze, tax abusivo) bloquean la entrada
+      if (criticalRiskFlags(tokenHealth.contractRiskFlags).length > 0) return null;
+
       if (tokenHealth.healthScore >= 80) {
-        confidence += 20;
+        pts.health += 20;
         reasons.push(`Token muy sano (${tokenHealth.healthScore})`);
       } else if (tokenHealth.healthScore >= this.config.minTokenHealth) {
-        confidence += 12;
+        pts.health += 12;
         reasons.push(`Token aceptable (${tokenHealth.healthScore})`);
       } else {
-        confidence -= 10;
+        pts.health -= 10;
         reasons.push(`Token con riesgo (${tokenHealth.healthScore})`);
       }
 
       if (tokenHealth.contractRiskFlags.length > 0) {
-        confidence -= tokenHealth.contractRiskFlags.length * 5;
+        pts.health -= tokenHealth.contractRiskFlags.length * 5;
         reasons.push(`Risk flags: ${tokenHealth.contractRiskFlags.join(", ")}`);
       }
     }
 
     // --- Capa 4: Market regime (max 15 pts / penalización) ---
-    confidence = this.applyRegime(confidence, regime, reasons);
-    confidence = Math.max(0, Math.min(100, confidence));
+    pts.regime = this.regimePoints(regime, reasons);
+    const sources: SignalFeatureSources = {
+      momentum, early: null, distribution: null, walletConfluence: walletConf, tokenHealth, regime,
+    };
+    const scoring = this.score(totalConfidence(pts), sources);
+    const confidence = effectiveConfidence(scoring);
 
     if (confidence < this.config.satelliteMinConfidence) return null;
+    const provenance = this.walletProvenance(walletConf, confidence, pts, sources, walletPoints);
 
     const layer: Layer =
       confidence >= this.config.coreMinConfidence ? "core" : "satellite";
@@ -160,12 +291,16 @@ export class ConfluenceEngine {
       momentum.network,
       layer,
       confidence,
+      pts,
+      scoring,
+      provenance,
       reasons,
       tokenHealth,
       walletConf,
       regime,
       momentum,
       null,
+      null,
       { momentumScore: momentum.momentumScore, momentumTier: momentum.tier }
     );
   }
@@ -183,17 +318,17 @@ export class ConfluenceEngine {
     regime: RegimeSnapshot | null
   ): Promise<ConfluenceResult | null> {
     const reasons: string[] = [];
-    let confidence = 0;
+    const pts = emptyComponents();
 
     // --- Capa 1: Early score (max 35 pts) ---
     if (early.earlyScore >= 75) {
-      confidence += 35;
+      pts.detector += 35;
       reasons.push(`Early fuerte (${early.earlyScore}, ${early.tier})`);
     } else if (early.earlyScore >= 60) {
-      confidence += 25;
+      pts.detector += 25;
       reasons.push(`Early moderado (${early.earlyScore}, ${early.tier})`);
     } else if (early.earlyScore >= this.config.minEarlyScore) {
-      confidence += 15;
+      pts.detector += 15;
       reasons.push(`Early especulativo (${early.earlyScore})`);
     } else {
       return null;
@@ -206,11 +341,9 @@ export class ConfluenceEngine {
       early.tokenAddress,
       early.network
     );
+    const walletPoints = (count: number) => earlyWalletPoints(count, this.config);
     if (walletConf) {
-      const baseWalletPts = walletConf.walletCount >= 5 ? 25 : 18;
-      const boosted = Math.round(baseWalletPts * this.config.earlyWalletBoostMultiplier);
-      const walletPts = Math.min(boosted, 30);
-      confidence += walletPts;
+      pts.wallet += walletPoints(walletConf.walletCount);
       reasons.push(
         `${walletConf.walletCount} smart wallets en token early (boost x${this.config.earlyWalletBoostMultiplier})`
       );
@@ -219,56 +352,59 @@ export class ConfluenceEngine {
     // --- Capa 3: Token health (max 15 pts, umbral más bajo para early) ---
     if (tokenHealth) {
       if (tokenHealth.healthScore >= 70) {
-        confidence += 15;
+        pts.health += 15;
         reasons.push(`Token sano para early (${tokenHealth.healthScore})`);
       } else if (tokenHealth.healthScore >= this.config.minTokenHealthEarly) {
-        confidence += 8;
+        pts.health += 8;
         reasons.push(`Token aceptable (${tokenHealth.healthScore})`);
       } else {
-        confidence -= 15;
+        pts.health -= 15;
         reasons.push(`Token insalubre (${tokenHealth.healthScore}) — descartado`);
         return null;
       }
 
-      const criticalFlags = tokenHealth.contractRiskFlags.filter(
-        (f) => f === "no_sells_24h" || f === "zero_price"
-      );
+      const criticalFlags = criticalRiskFlags(tokenHealth.contractRiskFlags);
       if (criticalFlags.length > 0) {
         reasons.push(`Critical flags: ${criticalFlags.join(", ")} — honeypot probable`);
         return null;
       }
 
       if (tokenHealth.contractRiskFlags.length > 0) {
-        confidence -= tokenHealth.contractRiskFlags.length * 3;
+        pts.health -= tokenHealth.contractRiskFlags.length * 3;
         reasons.push(`Risk flags: ${tokenHealth.contractRiskFlags.join(", ")}`);
       }
     }
 
     // --- Capa 4: Organic buy patterns (max 10 pts) ---
     if (early.buyerSellerRatio >= 2) {
-      confidence += 10;
+      pts.pattern += 10;
       reasons.push(`Buyers/sellers ratio ${early.buyerSellerRatio.toFixed(1)} (muy orgánico)`);
     } else if (early.buyerSellerRatio >= 1.5) {
-      confidence += 6;
+      pts.pattern += 6;
       reasons.push(`Buyers/sellers ratio ${early.buyerSellerRatio.toFixed(1)}`);
     }
 
     // --- Capa 5: Market regime (max 10 pts / penalización suave) ---
     if (regime) {
       if (regime.regime === "risk_on") {
-        confidence += 10;
+        pts.regime += 10;
         reasons.push("Mercado risk-on");
       } else if (regime.regime === "neutral") {
-        confidence += 3;
+        pts.regime += 3;
       } else {
-        confidence -= 4;
+        pts.regime -= 4;
         reasons.push("Mercado risk-off — penalización suave para early");
       }
     }
 
-    confidence = Math.max(0, Math.min(100, confidence));
+    const sources: SignalFeatureSources = {
+      momentum: null, early, distribution: null, walletConfluence: walletConf, tokenHealth, regime,
+    };
+    const scoring = this.score(totalConfidence(pts), sources);
+    const confidence = effectiveConfidence(scoring);
 
     if (confidence < this.config.satelliteMinConfidence) return null;
+    const provenance = this.walletProvenance(walletConf, confidence, pts, sources, walletPoints);
 
     // Early signals van a Satellite salvo confluencia extrema con wallets
     const layer: Layer =
@@ -281,32 +417,208 @@ export class ConfluenceEngine {
       early.network,
       layer,
       confidence,
+      pts,
+      scoring,
+      provenance,
       reasons,
       tokenHealth,
       walletConf,
       regime,
       null,
       early,
+      null,
       { earlyScore: early.earlyScore, earlyTier: early.tier, pairAgeHours: early.pairAgeHours }
     );
   }
 
-  private applyRegime(
+  /**
+   * Evalúa una entrada short sobre un token en distribución.
+   *
+   * La distribución de smart money es obligatoria (es la tesis del short);
+   * el resto de capas modulan. El régimen puntúa al revés que en long.
+   */
+  async evaluateShort(
+    dist: DistributionSignal,
+    tokenHealth: TokenHealthResult | null,
+    regime: RegimeSnapshot | null
+  ): Promise<ConfluenceResult | null> {
+    if (!this.config.enableShorts) return null;
+
+    const reasons: string[] = [];
+    const pts = emptyComponents();
+
+    // --- Capa 1: Distribución de smart money (max 45 pts, obligatoria) ---
+    const walletConf = await this.checkWalletConfluence(
+      dist.tokenAddress,
+      dist.network,
+      "sell"
+    );
+    if (!walletConf) return null;
+
+    // Sin distribución no hay tesis: sin wallets no hay señal (null)
+    const walletPoints = (count: number) =>
+      count >= this.config.minWalletsForConfluence ? shortWalletPoints(count) : null;
+    pts.wallet += shortWalletPoints(walletConf.walletCount);
+    reasons.push(
+      `${walletConf.walletCount} wallets buenas vendiendo (score avg ${walletConf.avgWalletScore.toFixed(0)}, $${(walletConf.totalAmountUsd / 1000).toFixed(1)}K)`
+    );
+
+    // --- Capa 2: Acción de precio (max 15 pts) ---
+    if (dist.priceChange1h <= -3) {
+      pts.pattern += 15;
+      reasons.push(`Precio cediendo (${dist.priceChange1h.toFixed(1)}% 1h)`);
+    } else if (dist.priceChange1h < 0) {
+      pts.pattern += 8;
+      reasons.push(`Precio plano-bajista (${dist.priceChange1h.toFixed(1)}% 1h)`);
+    } else if (dist.priceChange1h >= 10) {
+      pts.pattern -= 10;
+      reasons.push(`Precio subiendo fuerte (+${dist.priceChange1h.toFixed(1)}% 1h) — riesgo de squeeze`);
+    }
+
+    // --- Capa 3: Token health (max 15 pts) — hace falta liquidez para recomprar ---
+    if (tokenHealth) {
+      if (tokenHealth.healthScore < this.config.minTokenHealth) {
+        return null;
+      }
+      if (criticalRiskFlags(tokenHealth.contractRiskFlags).length > 0) return null;
+
+      pts.health += tokenHealth.healthScore >= 80 ? 15 : 10;
+      reasons.push(`Liquidez sana para cubrir (${tokenHealth.healthScore})`);
+    }
+
+    // --- Capa 4: Market regime invertido (max 15 pts / penalización) ---
+    if (regime) {
+      if (regime.regime === "risk_off") {
+        pts.regime += 15;
+        reasons.push("Mercado risk-off — favorece short");
+      } else if (regime.regime === "neutral") {
+        pts.regime += 5;
+        reasons.push("Mercado neutral");
+      } else {
+        pts.regime -= 8;
+        reasons.push("Mercado risk-on — penalización para short");
+      }
+    }
+
+    const sources: SignalFeatureSources = {
+      momentum: null, early: null, distribution: dist, walletConfluence: walletConf, tokenHealth, regime,
+    };
+    const scoring = this.score(totalConfidence(pts), sources);
+    const confidence = effectiveConfidence(scoring);
+
+    if (confidence < this.config.satelliteMinConfidence) return null;
+    const provenance = this.walletProvenance(walletConf, confidence, pts, sources, walletPoints);
+
+    const layer: Layer =
+      confidence >= this.config.coreMinConfidence ? "core" : "satellite";
+
+    return this.buildResult(
+      "distribution",
+      dist.tokenSymbol,
+      dist.tokenAddress,
+      dist.network,
+      layer,
+      confidence,
+      pts,
+      scoring,
+      provenance,
+      reasons,
+      tokenHealth,
+      walletConf,
+      regime,
+      null,
+      null,
+      dist,
+      { sellerCount: dist.sellerCount, soldUsd: dist.soldUsd }
+    );
+  }
+
+  /**
+   * Smart money operando en contra de una posición abierta: ventas
+   * agrupadas para un long, compras agrupadas para un short.
+   */
+  async getAdverseFlow(
+    tokenAddress: string,
+    network: string,
+    positionSide: TradeSide
+  ): Promise<WalletConfluenceInfo | null> {
+    return this.checkWalletConfluence(
+      tokenAddress,
+      network,
+      positionSide === "buy" ? "sell" : "buy"
+    );
+  }
+
+  private score(ruleConfidence: number, sources: SignalFeatureSources): SignalScoring {
+    const { active, shadow } = this.models;
+    const features = extractSignalFeatures(sources);
+    return {
+      ruleConfidence,
+      features,
+      learned: active ? scoreSignal(active, features, this.config.scoringMode === "learned") : null,
+      shadow: shadow ? scoreSignal(shadow, features, false) : null,
+    };
+  }
+
+  /**
+   * Contrafactual sin wallets simuladas: rehace la capa de wallets solo
+   * con las reales (`walletPoints` → null si la señal no existiría) y
+   * vuelve a puntuar con el mismo modo (reglas o modelo).
+   */
+  private walletProvenance(
+    walletConf: WalletConfluenceInfo | null,
     confidence: number,
+    pts: ConfluenceComponents,
+    sources: SignalFeatureSources,
+    walletPoints: (count: number) => number | null
+  ): WalletProvenance {
+    const simulatedWallets = walletConf?.simulatedWalletCount ?? 0;
+    const realWallets = (walletConf?.walletCount ?? 0) - simulatedWallets;
+    const source: WalletProvenanceSource = !walletConf
+      ? "none"
+      : simulatedWallets === 0
+        ? "real"
+        : realWallets === 0
+          ? "simulated"
+          : "mixed";
+
+    if (simulatedWallets === 0) {
+      return { source, realWallets, simulatedWallets, confidenceWithoutSimulated: confidence, passesWithoutSimulated: true };
+    }
+
+    const realConf = walletConf ? withoutSimulatedWallets(walletConf, this.config.minWalletsForConfluence) : null;
+    const realPts = walletPoints(realConf?.walletCount ?? 0);
+    if (realPts === null) {
+      return { source, realWallets, simulatedWallets, confidenceWithoutSimulated: null, passesWithoutSimulated: false };
+    }
+
+    const without = effectiveConfidence(
+      this.score(totalConfidence({ ...pts, wallet: realPts }), { ...sources, walletConfluence: realConf })
+    );
+    return {
+      source,
+      realWallets,
+      simulatedWallets,
+      confidenceWithoutSimulated: without,
+      passesWithoutSimulated: without >= this.config.satelliteMinConfidence,
+    };
+  }
+
+  private regimePoints(
     regime: RegimeSnapshot | null,
     reasons: string[]
   ): number {
-    if (!regime) return confidence;
+    if (!regime) return 0;
 
     if (regime.regime === "risk_on") {
       reasons.push("Mercado risk-on");
-      return confidence + 15;
+      return 15;
     } else if (regime.regime === "neutral") {
       reasons.push("Mercado neutral");
-      return confidence + 5;
+      return 5;
     } else {
       reasons.push("Mercado risk-off — penalización");
-      return confidence - 8;
+      return -8;
     }
   }
 
@@ -317,12 +629,16 @@ export class ConfluenceEngine {
     network: string,
     layer: Layer,
     confidence: number,
+    components: ConfluenceComponents,
+    scoring: SignalScoring,
+    walletProvenance: WalletProvenance,
     reasons: string[],
     tokenHealth: TokenHealthResult | null,
     walletConf: WalletConfluenceInfo | null,
     regime: RegimeSnapshot | null,
     momentum: MomentumSignal | null,
     early: EarlySignal | null,
+    distribution: DistributionSignal | null,
     extraMeta: Record<string, unknown>
   ): ConfluenceResult {
     const order: OrderRequest = {
@@ -330,7 +646,7 @@ export class ConfluenceEngine {
       symbol,
       tokenAddress,
       network,
-      side: "buy",
+      side: signalSource === "distribution" ? "sell" : "buy",
       amountUsd: 0,
       layer,
       executionMode: "paper",
@@ -342,8 +658,13 @@ export class ConfluenceEngine {
         signalSource,
         confidence,
         walletConfluence: walletConf
-          ? { count: walletConf.walletCount, avgScore: walletConf.avgWalletScore }
+          ? {
+              count: walletConf.walletCount,
+              avgScore: walletConf.avgWalletScore,
+              simulated: walletProvenance.simulatedWallets,
+            }
           : null,
+        walletSource: walletProvenance.source,
         regime: regime?.regime ?? "unknown",
       },
     };
@@ -354,12 +675,16 @@ export class ConfluenceEngine {
       network,
       layer,
       confidence,
+      components,
+      scoring,
+      walletProvenance,
       reasons,
       signalSource,
       order,
       sources: {
         momentum,
         early,
+        distribution,
         walletConfluence: walletConf,
         tokenHealth,
         regime,
@@ -369,36 +694,52 @@ export class ConfluenceEngine {
 
   /**
    * Comprueba si múltiples wallets con buen score han comprado
-   * el mismo token en las últimas N horas.
+   * (o vendido, con direction = "sell") el mismo token en las últimas N horas.
    */
   private async checkWalletConfluence(
     tokenAddress: string,
-    network: string
+    network: string,
+    direction: TradeSide = "buy"
   ): Promise<WalletConfluenceInfo | null> {
+    if (this.walletSource) {
+      const info = await this.walletSource.getWalletConfluence(tokenAddress, network, direction);
+      if (!info || this.config.countSimulatedWallets) return info;
+      return withoutSimulatedWallets(info, this.config.minWalletsForConfluence);
+    }
+
     const windowStart = new Date(
       Date.now() - this.config.confluenceWindowHours * 60 * 60 * 1000
     ).toISOString();
 
-    const { data: movements } = await this.supabase
+    let query = this.supabase
       .from("wallet_movements")
       .select(`
         wallet_id,
         amount_usd,
+        source,
         tracked_wallets!inner (
           id
         )
       `)
       .ilike("token_address", tokenAddress)
       .eq("network", network)
-      .eq("direction", "buy")
+      .eq("direction", direction)
       .eq("tracked_wallets.user_id", this.userId)
       .gte("detected_at", windowStart);
+    if (!this.config.countSimulatedWallets) {
+      query = query.neq("source", "simulated");
+    }
+    const { data: movements } = await query;
 
     if (!movements || movements.length === 0) return null;
 
     const uniqueWalletIds = [...new Set(movements.map((m) => m.wallet_id))];
+    const simulatedIds = new Set(
+      movements.filter((m) => m.source === "simulated").map((m) => m.wallet_id)
+    );
 
     const scores: number[] = [];
+    let simulatedWalletCount = 0;
     for (const wId of uniqueWalletIds) {
       const { data: scoreRow } = await this.supabase
         .from("wallet_scores")
@@ -413,6 +754,7 @@ export class ConfluenceEngine {
         scoreRow.overall_score >= this.config.minWalletScoreForConfluence
       ) {
         scores.push(scoreRow.overall_score);
+        if (simulatedIds.has(wId)) simulatedWalletCount++;
       }
     }
 
@@ -426,6 +768,52 @@ export class ConfluenceEngine {
       avgWalletScore: avgScore,
       totalAmountUsd: totalUsd,
       walletIds: uniqueWalletIds,
+      simulatedWalletCount,
     };
   }
 }
+
+// ---- helpers ----
+
+function emptyComponents(): ConfluenceComponents {
+  return { detector: 0, wallet: 0, health: 0, regime: 0, pattern: 0 };
+}
+
+/** Capa de wallets de un long de momentum (max 25 pts). */
+function momentumWalletPoints(count: number, config: ConfluenceConfig): number {
+  if (count >= 5) return 25;
+  return count >= config.minWalletsForConfluence ? 18 : 0;
+}
+
+/** Capa de wallets de un early: boost sobre la de momentum (max 30 pts). */
+function earlyWalletPoints(count: number, config: ConfluenceConfig): number {
+  if (count < config.minWalletsForConfluence) return 0;
+  const base = count >= 5 ? 25 : 18;
+  return Math.min(Math.round(base * config.earlyWalletBoostMultiplier), 30);
+}
+
+/** Distribución de un short (max 45 pts). */
+function shortWalletPoints(count: number): number {
+  return count >= 5 ? 45 : 32;
+}
+
+/** Solo las wallets reales; null si no llegan al mínimo de confluencia. */
+function withoutSimulatedWallets(
+  info: WalletConfluenceInfo,
+  minWallets: number
+): WalletConfluenceInfo | null {
+  const simulated = info.simulatedWalletCount ?? 0;
+  if (simulated === 0) return info;
+  const walletCount = info.walletCount - simulated;
+  if (walletCount < minWallets) return null;
+  return { ...info, walletCount, simulatedWalletCount: 0 };
+}
+
+function effectiveConfidence(scoring: SignalScoring): number {
+  return scoring.learned?.applied ? scoring.learned.confidence : scoring.ruleConfidence;
+}
+
+function totalConfidence(pts: ConfluenceComponents): number {
+  const sum = CONFLUENCE_COMPONENTS.reduce((s, k) => s + pts[k], 0);
+  return Math.max(0, Math.min(100, sum));
+}
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Duración del lease. Un ciclo normal tarda 1-3 min; si el proceso muere
+ * sin liberar, el siguiente ciclo puede entrar cuando expira.
+ */
+export const CYCLE_LOCK_TTL_SECONDS = 600;
+
+export class CycleLockedError extends Error {
+  constructor(public userId: string) {
+    super("Ya hay un ciclo en curso para este usuario");
+    this.name = "CycleLockedError";
+  }
+}
+
+/**
+ * CycleLock — lease por usuario en `cycle_locks` (acquire/release vía RPC).
+ *
+ * `POST /api/cycle`, `GET /api/cron/cycle` y el bootstrap pueden lanzar
+ * ciclos a la vez para el mismo usuario; solo el que tiene el lease corre.
+ */
+export class CycleLock {
+  constructor(private supabase: SupabaseClient) {}
+
+  /** true si el lease queda a nombre de `cycleId`. */
+  async acquire(
+    userId: string,
+    cycleId: string,
+    ttlSeconds = CYCLE_LOCK_TTL_SECONDS
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc("acquire_cycle_lock", {
+      p_user_id: userId,
+      p_cycle_id: cycleId,
+      p_ttl_seconds: ttlSeconds,
+    });
+    if (error) throw new Error(`Cycle lock: ${error.message}`);
+    return data === true;
+  }
+
+  /** Libera el lease solo si sigue siendo de `cycleId`. */
+  async release(userId: string, cycleId: string): Promise<void> {
+    await this.supabase.rpc("release_cycle_lock", {
+      p_user_id: userId,
+      p_cycle_id: cycleId,
+    });
+  }
+}
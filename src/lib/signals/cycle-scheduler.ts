@@ -0,0 +1,324 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { MomentumDetector } from "./momentum-detector";
+import { EarlyDetector } from "./early-detector";
+import { Orchestrator } from "./orchestrator";
+import { CycleLockedError } from "./cycle-lock";
+import { StrategyConfigStore, resolveStrategyConfig } from "./strategy-config";
+import type { ResolvedStrategyConfig } from "./strategy-config";
+import { BIRDEYE_NETWORK, wantsBirdeyeNetwork } from "./network-tuning";
+import type { SharedDiscovery } from "./network-tuning";
+import { getProviderRouter } from "../market/provider-router";
+
+export interface CycleSchedulerConfig {
+  /** Ciclos de usuario en paralelo. */
+  concurrency: number;
+  /** Presupuesto de reloj del tick completo (discovery incluido), en ms. */
+  budgetMs: number;
+  /**
+   * Tiempo mínimo que se reserva para un ciclo: no se arranca uno si no
+   * cabe en lo que queda de presupuesto. Con ciclos ya terminados se usa
+   * su media si es mayor.
+   */
+  minCycleReserveMs: number;
+}
+
+export const DEFAULT_CYCLE_SCHEDULER_CONFIG: CycleSchedulerConfig = {
+  concurrency: 4,
+  budgetMs: 50_000,
+  minCycleReserveMs: 15_000,
+};
+
+export type UserRunStatus = "ran" | "failed" | "locked" | "carried_over";
+
+export interface UserRunSummary {
+  userId: string;
+  status: UserRunStatus;
+  reason: string | null;
+  cycleId?: string;
+  durationMs?: number;
+  tradesOpened?: number;
+  tradesClosed?: number;
+  errorsCount?: number;
+}
+
+export interface SchedulerTickSummary {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  concurrency: number;
+  budgetMs: number;
+  usersTotal: number;
+  discovery: {
+    shared: boolean;
+    momentumPools: number;
+    earlyPools: number;
+    errors: string[];
+  };
+  runs: UserRunSummary[];
+  /** Usuarios sin ciclo en este tick; van primero en el siguiente. */
+  carriedOver: string[];
+}
+
+/**
+ * CycleScheduler — un tick de `/api/cron/cycle` para todos los usuarios.
+ *
+ *  1. Cola: usuarios con risk_state sin pausar; los que quedaron fuera en
+ *     el tick anterior (`scheduler_runs.carried_over`) van primero.
+ *  2. Un único discovery de mercado (trending + pools nuevos) con la unión
+ *     de redes y fuentes de todos los usuarios.
+ *  3. Fan-out: cada Orchestrator filtra el snapshot con sus umbrales y hace
+ *     confluencia, riesgo y ejecución. Como mucho `concurrency` a la vez.
+ *  4. Presupuesto: cuando el siguiente ciclo ya no cabe en `budgetMs`, el
+ *     resto de la cola se arrastra al siguiente tick.
+ *  5. Resumen (quién corrió, quién no y por qué) en `scheduler_runs`.
+ */
+export class CycleScheduler {
+  private config: CycleSchedulerConfig;
+  private strategyStore: StrategyConfigStore;
+
+  constructor(
+    private supabase: SupabaseClient,
+    config?: Partial<CycleSchedulerConfig>
+  ) {
+    this.config = { ...DEFAULT_CYCLE_SCHEDULER_CONFIG, ...config };
+    this.strategyStore = new StrategyConfigStore(supabase);
+  }
+
+  async tick(): Promise<SchedulerTickSummary> {
+    const startedAt = Date.now();
+    const summary: SchedulerTickSummary = {
+      startedAt: new Date(startedAt).toISOString(),
+      finishedAt: "",
+      durationMs: 0,
+      concurrency: this.config.concurrency,
+      budgetMs: this.config.budgetMs,
+      usersTotal: 0,
+      discovery: { shared: false, momentumPools: 0, earlyPools: 0, errors: [] },
+      runs: [],
+      carriedOver: [],
+    };
+
+    const queue = await this.loadQueue();
+    summary.usersTotal = queue.length;
+
+    let discovery: SharedDiscovery | undefined;
+    if (queue.length > 0) {
+      try {
+        discovery = await this.discover(queue);
+        summary.discovery = {
+          shared: true,
+          momentumPools: discovery.momentum.gecko.pools.length + (discovery.momentum.birdeye?.pairs.length ?? 0),
+          earlyPools: discovery.early.gecko.pools.length + (discovery.early.birdeye?.pairs.length ?? 0),
+          errors: [
+            ...discovery.momentum.gecko.errors,
+            ...discovery.early.gecko.errors,
+            ...[discovery.momentum.birdeye?.error, discovery.early.birdeye?.error]
+              .filter((e): e is string => Boolean(e)),
+          ],
+        };
+      } catch (err) {
+        // Sin snapshot cada ciclo hace su propio discovery
+        summary.discovery.errors.push(`Discovery compartido: ${errMsg(err)}`);
+      }
+    }
+
+    summary.runs = await this.fanOut(queue, discovery, startedAt);
+    summary.carriedOver = summary.runs
+      .filter((r) => r.status === "carried_over")
+      .map((r) => r.userId);
+
+    const finishedAt = Date.now();
+    summary.finishedAt = new Date(finishedAt).toISOString();
+    summary.durationMs = finishedAt - startedAt;
+
+    await this.persistSummary(summary);
+    return summary;
+  }
+
+  /** Usuarios activos, con los arrastrados del tick anterior delante. */
+  private async loadQueue(): Promise<string[]> {
+    const { data: users, error } = await this.supabase
+      .from("risk_state")
+      .select("user_id")
+      .eq("is_paused", false);
+    if (error) throw new Error(`risk_state: ${error.message}`);
+
+    const active = (users ?? []).map((u) => u.user_id as string);
+    if (active.length === 0) return [];
+
+    const { data: last } = await this.supabase
+      .from("scheduler_runs")
+      .select("carried_over")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const activeSet = new Set(active);
+    const carried = ((last?.carried_over as string[] | null) ?? []).filter((id) => activeSet.has(id));
+    const carriedSet = new Set(carried);
+    return [...carried, ...active.filter((id) => !carriedSet.has(id))];
+  }
+
+  /**
+   * Discovery único con la unión de redes de todos los usuarios. Cada
+   * Orchestrator vuelve a filtrar el snapshot con su propia config.
+   */
+  private async discover(userIds: string[]): Promise<SharedDiscovery> {
+    const versions = await this.strategyStore.getActiveForUsers(userIds);
+    const configs = userIds.map((id) => resolveStrategyConfig(versions.get(id)?.config ?? null));
+
+    const [momentum, early] = await Promise.all([
+      new MomentumDetector(sharedDetectorConfig(configs.map((c) => c.momentum)))
+        .discover({ geckoForAllNetworks: needsGeckoForBirdeyeNetwork(configs, "momentum") }),
+      new EarlyDetector(sharedDetectorConfig(configs.map((c) => c.early)))
+        .discover({ geckoForAllNetworks: needsGeckoForBirdeyeNetwork(configs, "early") }),
+    ]);
+
+    return { momentum, early, scannedAt: new Date().toISOString() };
+  }
+
+  /** Ciclos por usuario con concurrencia acotada y corte por presupuesto. */
+  private async fanOut(
+    queue: string[],
+    discovery: SharedDiscovery | undefined,
+    startedAt: number
+  ): Promise<UserRunSummary[]> {
+    const runs = new Map<string, UserRunSummary>();
+
+    await fanOutWithinBudget(
+      queue,
+      {
+        concurrency: this.config.concurrency,
+        budgetMs: this.config.budgetMs,
+        minReserveMs: this.config.minCycleReserveMs,
+        startedAt,
+      },
+      async (userId) => {
+        const t0 = Date.now();
+        try {
+          const result = await new Orchestrator(this.supabase, userId).runCycle({ discovery });
+          runs.set(userId, {
+            userId,
+            status: "ran",
+            reason: null,
+            cycleId: result.cycleId,
+            durationMs: Date.now() - t0,
+            tradesOpened: result.tradesOpened,
+            tradesClosed: result.tradesClosed,
+            errorsCount: result.errors.length,
+          });
+        } catch (err) {
+          runs.set(userId, {
+            userId,
+            status: err instanceof CycleLockedError ? "locked" : "failed",
+            reason: errMsg(err),
+            durationMs: Date.now() - t0,
+          });
+        }
+      }
+    );
+
+    return queue.map((userId) =>
+      runs.get(userId) ?? {
+        userId,
+        status: "carried_over",
+        reason: "Presupuesto del tick agotado",
+      }
+    );
+  }
+
+  private async persistSummary(summary: SchedulerTickSummary): Promise<void> {
+    try {
+      await this.supabase.from("scheduler_runs").insert({
+        started_at: summary.startedAt,
+        finished_at: summary.finishedAt,
+        duration_ms: summary.durationMs,
+        concurrency: summary.concurrency,
+        budget_ms: summary.budgetMs,
+        users_total: summary.usersTotal,
+        users_ran: summary.runs.filter((r) => r.status === "ran").length,
+        discovery: summary.discovery,
+        runs: summary.runs,
+        carried_over: summary.carriedOver,
+      });
+    } catch {
+      // no bloquear: el resumen es informativo
+    }
+  }
+}
+
+/**
+ * Fan-out con presupuesto de reloj: `run` para cada id de la cola, como
+ * mucho `concurrency` a la vez, sin arrancar uno que no quepa en lo que
+ * queda de `budgetMs` desde `startedAt` (se reserva `minReserveMs`, o la
+ * media de los ya terminados si es mayor). `run` no debe lanzar. Devuelve
+ * los ids que no llegaron a arrancar.
+ */
+export async function fanOutWithinBudget(
+  queue: string[],
+  opts: { concurrency: number; budgetMs: number; minReserveMs: number; startedAt: number },
+  run: (id: string) => Promise<void>
+): Promise<string[]> {
+  const durations: number[] = [];
+  let next = 0;
+  let budgetExhausted = false;
+
+  const worker = async () => {
+    while (!budgetExhausted && next < queue.length) {
+      const reserve = Math.max(opts.minReserveMs, avg(durations));
+      if (Date.now() - opts.startedAt + reserve > opts.budgetMs) {
+        budgetExhausted = true;
+        return;
+      }
+
+      const id = queue[next++];
+      const t0 = Date.now();
+      await run(id);
+      durations.push(Date.now() - t0);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(opts.concurrency, queue.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return queue.slice(next);
+}
+
+// ---- helpers ----
+
+type DiscoveryConfig = ResolvedStrategyConfig["momentum"] | ResolvedStrategyConfig["early"];
+
+/** Unión de redes; Birdeye si algún usuario lo usa. */
+function sharedDetectorConfig<T extends DiscoveryConfig>(configs: T[]): Partial<T> {
+  const wantsBirdeye = configs.some(
+    (c) => c.source === "birdeye" && wantsBirdeyeNetwork(c.networks)
+  );
+  const networks = new Set(configs.flatMap((c) => c.networks));
+  if (wantsBirdeye) networks.add(BIRDEYE_NETWORK);
+
+  return {
+    networks: [...networks],
+    source: wantsBirdeye ? "birdeye" : "gecko",
+  } as Partial<T>;
+}
+
+/**
+ * Algún usuario quiere Solana vía GeckoTerminal aunque otros usen Birdeye.
+ * Con GeckoTerminal en circuit-break no: Solana queda para Birdeye.
+ */
+function needsGeckoForBirdeyeNetwork(
+  configs: ResolvedStrategyConfig[],
+  detector: "momentum" | "early"
+): boolean {
+  if (!getProviderRouter().isAvailable("gecko")) return false;
+  return configs.some(
+    (c) => c[detector].source === "gecko" && c[detector].networks.includes(BIRDEYE_NETWORK)
+  );
+}
+
+function avg(values: number[]): number {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
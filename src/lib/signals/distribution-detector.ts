@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DexScreenerClient, type DexPair } from "../market/dexscreener";
+import { systemClock, type Clock } from "../engine/clock";
+
+/**
+ * Token que las wallets tracked están vendiendo en grupo. Es candidato a
+ * short; la confirmación por score de wallets la hace el ConfluenceEngine.
+ */
+export interface DistributionSignal {
+  tokenAddress: string;
+  tokenSymbol: string;
+  network: string;
+  price: number;
+  liquidityUsd: number;
+  volume24h: number;
+  priceChange1h: number;
+  priceChange24h: number;
+  /** Wallets distintas vendiendo en la ventana (sin filtrar por score). */
+  sellerCount: number;
+  soldUsd: number;
+  bestPair: DexPair;
+}
+
+export interface DistributionScanResult {
+  signals: DistributionSignal[];
+  tokensScanned: number;
+  filterStats: Record<string, number>;
+}
+
+export interface DistributionConfig {
+  windowHours: number;
+  minSellers: number;
+  minSoldUsd: number;
+  minLiquidityUsd: number;
+  maxCandidates: number;
+}
+
+export const DEFAULT_DISTRIBUTION_CONFIG: DistributionConfig = {
+  windowHours: 6,
+  minSellers: 3,
+  minSoldUsd: 1_000,
+  minLiquidityUsd: 50_000,
+  maxCandidates: 10,
+};
+
+/**
+ * DistributionDetector — agrupa las ventas recientes de wallet_movements
+ * (detectadas por WalletTracker) por token y devuelve los tokens con
+ * ventas de varias wallets a la vez, enriquecidos con precio/liquidez
+ * de DexScreener.
+ */
+export class DistributionDetector {
+  private dex: DexScreenerClient;
+  private config: DistributionConfig;
+  private clock: Clock = systemClock;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+    config?: Partial<DistributionConfig>
+  ) {
+    this.dex = new DexScreenerClient();
+    this.config = { ...DEFAULT_DISTRIBUTION_CONFIG, ...config };
+  }
+
+  setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  async scan(): Promise<DistributionScanResult> {
+    const windowStart = new Date(
+      this.clock() - this.config.windowHours * 3600_000
+    ).toISOString();
+
+    const { data: movements } = await this.supabase
+      .from("wallet_movements")
+      .select(`
+        wallet_id,
+        token_address,
+        token_symbol,
+        network,
+        amount_usd,
+        tracked_wallets!inner (
+          id
+        )
+      `)
+      .eq("direction", "sell")
+      .eq("tracked_wallets.user_id", this.userId)
+      .gte("detected_at", windowStart);
+
+    const groups = new Map<string, {
+      tokenAddress: string;
+      tokenSymbol: string;
+      network: string;
+      wallets: Set<string>;
+      soldUsd: number;
+    }>();
+
+    for (const m of movements ?? []) {
+      const key = `${m.network}:${String(m.token_address).toLowerCase()}`;
+      const group = groups.get(key) ?? {
+        tokenAddress: m.token_address,
+        tokenSymbol: m.token_symbol ?? "",
+        network: m.network,
+        wallets: new Set<string>(),
+        soldUsd: 0,
+      };
+      group.wallets.add(m.wallet_id);
+      group.soldUsd += Number(m.amount_usd ?? 0);
+      groups.set(key, group);
+    }
+
+    const filterStats: Record<string, number> = {};
+    const reject = (reason: string) => {
+      filterStats[reason] = (filterStats[reason] ?? 0) + 1;
+    };
+
+    const candidates = [...groups.values()]
+      .filter((g) => {
+        if (g.wallets.size < this.config.minSellers) {
+          reject("few_sellers");
+          return false;
+        }
+        if (g.soldUsd < this.config.minSoldUsd) {
+          reject("low_sold_usd");
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.wallets.size - a.wallets.size || b.soldUsd - a.soldUsd)
+      .slice(0, this.config.maxCandidates);
+
+    const signals: DistributionSignal[] = [];
+    for (const c of candidates) {
+      let pair: DexPair | null = null;
+      try {
+        pair = await this.dex.getBestPair(c.network, c.tokenAddress);
+      } catch {
+        reject("pair_error");
+        continue;
+      }
+      if (!pair) {
+        reject("no_pair");
+        continue;
+      }
+
+      const price = parseFloat(pair.priceUsd) || 0;
+      const liquidityUsd = pair.liquidity?.usd ?? 0;
+      if (price <= 0) {
+        reject("zero_price");
+        continue;
+      }
+      // Sin liquidez suficiente no hay forma segura de recomprar
+      if (liquidityUsd < this.config.minLiquidityUsd) {
+        reject("low_liquidity");
+        continue;
+      }
+
+      signals.push({
+        tokenAddress: c.tokenAddress,
+        tokenSymbol: c.tokenSymbol || pair.baseToken.symbol,
+        network: c.network,
+        price,
+        liquidityUsd,
+        volume24h: pair.volume?.h24 ?? 0,
+        priceChange1h: pair.priceChange?.h1 ?? 0,
+        priceChange24h: pair.priceChange?.h24 ?? 0,
+        sellerCount: c.wallets.size,
+        soldUsd: c.soldUsd,
+        bestPair: pair,
+      });
+    }
+
+    return { signals, tokensScanned: groups.size, filterStats };
+  }
+}
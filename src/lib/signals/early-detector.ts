@@ -5,6 +5,18 @@ import {
   type GeckoTerminalToken,
 } from "../market/geckoterminal";
 import { BirdeyeClient } from "../market/birdeye";
+import { systemClock, type Clock } from "../engine/clock";
+import {
+  geckoNetworksAfterBirdeye,
+  mergeFilterStats,
+  prefersBirdeye,
+  thresholdsForNetwork,
+  usesBirdeyePairs,
+  wantsBirdeyeNetwork,
+  type DiscoverOptions,
+  type DiscoverySnapshot,
+  type NetworkOverrides,
+} from "./network-tuning";
 
 /**
  * Señal de un token en fase temprana con potencial.
@@ -49,10 +61,17 @@ export interface EarlyConfig {
   minPairAgeHours: number;
   maxPriceChange24h: number;
   source: "birdeye" | "gecko";
+  /** Umbrales propios de cada red; lo que no se indica usa el valor global. */
+  networkOverrides: NetworkOverrides<EarlyNetworkThresholds>;
 }
 
-const DEFAULT_CONFIG: EarlyConfig = {
-  networks: ["solana"],
+export type EarlyNetworkThresholds = Pick<
+  EarlyConfig,
+  "minLiquidityUsd" | "minPairAgeHours" | "minEarlyScore"
+>;
+
+export const DEFAULT_EARLY_CONFIG: EarlyConfig = {
+  networks: ["solana", "base", "arbitrum", "ethereum", "bsc"],
   minLiquidityUsd: 500,
   maxLiquidityUsd: 2_000_000,
   minVolume24h: 50,
@@ -63,6 +82,12 @@ const DEFAULT_CONFIG: EarlyConfig = {
   minPairAgeHours: 0.00,
   maxPriceChange24h: 400,
   source: "birdeye",
+  networkOverrides: {
+    ethereum: { minLiquidityUsd: 20_000, minPairAgeHours: 1, minEarlyScore: 50 },
+    base: { minLiquidityUsd: 2_000 },
+    arbitrum: { minLiquidityUsd: 2_000 },
+    bsc: { minLiquidityUsd: 5_000, minPairAgeHours: 0.5, minEarlyScore: 48 },
+  },
 };
 
 /**
@@ -83,13 +108,16 @@ const DEFAULT_CONFIG: EarlyConfig = {
  *  - Analiza ratio buyers/sellers (no solo buys/sells)
  *  - Premia crecimiento rápido desde base baja
  *
- * Fuente: GeckoTerminal /new_pools (gratuita).
+ * Fuente: Birdeye new_listing en Solana y GeckoTerminal /new_pools en el
+ * resto de redes. Liquidez mínima, edad mínima y score mínimo se ajustan
+ * por red con `networkOverrides`.
  */
 export class EarlyDetector {
   private gecko: GeckoTerminalClient;
   private birdeye: BirdeyeClient | null;
   private dex: DexScreenerClient;
   private config: EarlyConfig;
+  private clock: Clock = systemClock;
 
   constructor(config?: Partial<EarlyConfig>) {
     this.gecko = new GeckoTerminalClient();
@@ -100,20 +128,73 @@ export class EarlyDetector {
       this.birdeye = null;
     }
     this.dex = new DexScreenerClient();
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...DEFAULT_EARLY_CONFIG, ...config };
   }
 
   async scan(): Promise<EarlyScanResult> {
-    if (this.config.source === "birdeye") {
-      const fromBirdeye = await this.scanFromBirdeye();
-      if (fromBirdeye.signals.length > 0 || fromBirdeye.networkErrors.length === 0) {
-        return fromBirdeye;
-      }
+    return this.scanSnapshot(await this.discover());
+  }
+
+  /**
+   * Pide pools nuevos a Birdeye (Solana) y GeckoTerminal (resto de redes,
+   * o todas si Birdeye falla) sin filtrar.
+   */
+  async discover(opts: DiscoverOptions = {}): Promise<DiscoverySnapshot> {
+    let birdeye: DiscoverySnapshot["birdeye"] = null;
+    if (
+      wantsBirdeyeNetwork(this.config.networks) &&
+      prefersBirdeye(this.config.source, this.birdeye !== null)
+    ) {
+      birdeye = await this.fetchBirdeye();
     }
 
-    const { pools, tokens, errors } =
-      await this.gecko.getNewPoolsMultiChain(this.config.networks);
+    // Birdeye cubre Solana; si falló (o está en circuit-break), Solana
+    // vuelve a GeckoTerminal
+    const networks = birdeye && !birdeye.error && !opts.geckoForAllNetworks
+      ? geckoNetworksAfterBirdeye(this.config.networks)
+      : this.config.networks;
+    const { pools, tokens, errors } = networks.length > 0
+      ? await this.gecko.getNewPoolsMultiChain(networks)
+      : { pools: [], tokens: new Map<string, GeckoTerminalToken>(), errors: [] };
+
+    return { birdeye, gecko: { networks, pools, tokens, errors } };
+  }
+
+  /** Filtra un snapshot de discovery con la config de este detector. */
+  scanSnapshot(snapshot: DiscoverySnapshot): EarlyScanResult {
+    const fromBirdeye =
+      snapshot.birdeye &&
+      wantsBirdeyeNetwork(this.config.networks) &&
+      usesBirdeyePairs(this.config.source, snapshot)
+        ? this.scanPairs(snapshot.birdeye.pairs)
+        : null;
+
+    const geckoNetworks = fromBirdeye
+      ? geckoNetworksAfterBirdeye(this.config.networks)
+      : this.config.networks;
+    if (fromBirdeye && geckoNetworks.length === 0) return fromBirdeye;
+
+    const fromGecko = this.scanGeckoPools(
+      snapshot.gecko.pools.filter((p) => geckoNetworks.includes(this.poolNetwork(p))),
+      snapshot.gecko.tokens,
+      snapshot.gecko.errors
+    );
+    if (!fromBirdeye) return fromGecko;
 
+    return {
+      signals: [...fromBirdeye.signals, ...fromGecko.signals]
+        .sort((a, b) => b.earlyScore - a.earlyScore),
+      poolsScanned: fromBirdeye.poolsScanned + fromGecko.poolsScanned,
+      networkErrors: [...fromBirdeye.networkErrors, ...fromGecko.networkErrors],
+      filterStats: mergeFilterStats(fromBirdeye.filterStats, fromGecko.filterStats),
+    };
+  }
+
+  private scanGeckoPools(
+    pools: GeckoTerminalPool[],
+    tokens: Map<string, GeckoTerminalToken>,
+    errors: string[]
+  ): EarlyScanResult {
     const seen = new Set<string>();
     const signals: EarlySignal[] = [];
     const filterStats: Record<string, number> = {};
@@ -141,45 +222,53 @@ export class EarlyDetector {
     return { signals, poolsScanned: pools.length, networkErrors: errors, filterStats };
   }
 
-  private async scanFromBirdeye(): Promise<EarlyScanResult> {
+  private async fetchBirdeye(): Promise<{ pairs: DexPair[]; error: string | null }> {
     if (!this.birdeye) {
-      return {
-        signals: [],
-        poolsScanned: 0,
-        networkErrors: ["Birdeye no configurado (falta BIRDEYE_API_KEY)"],
-      };
+      return { pairs: [], error: "Birdeye no configurado (falta BIRDEYE_API_KEY)" };
     }
 
     try {
-      const pairs = await this.birdeye.getNewPairs(60);
-      const seen = new Set<string>();
-      const signals: EarlySignal[] = [];
-      const filterStats: Record<string, number> = {};
-
-      for (const pair of pairs) {
-        const key = `${pair.chainId}:${pair.baseToken.address}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-
-        const rejectReason = this.getRejectReason(pair, null);
-        if (rejectReason) {
-          filterStats[rejectReason] = (filterStats[rejectReason] ?? 0) + 1;
-          continue;
-        }
-
-        const signal = this.analyzeEarlyPair(pair, null);
-        if (signal) signals.push(signal);
+      return { pairs: await this.birdeye.getNewPairs(60), error: null };
+    } catch (err) {
+      return { pairs: [], error: `Birdeye new_listing: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+
+  private poolNetwork(pool: GeckoTerminalPool): string {
+    return this.gecko.resolveNetwork(this.gecko.getPoolNetworkId(pool));
+  }
+
+  /**
+   * Filtra y puntúa pares ya obtenidos (sin red, sin datos de pool Gecko).
+   * Usado por el discovery de Birdeye y por el backtester sobre snapshots.
+   */
+  scanPairs(pairs: DexPair[]): EarlyScanResult {
+    const seen = new Set<string>();
+    const signals: EarlySignal[] = [];
+    const filterStats: Record<string, number> = {};
+
+    for (const pair of pairs) {
+      const key = `${pair.chainId}:${pair.baseToken.address}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const rejectReason = this.getRejectReason(pair, null);
+      if (rejectReason) {
+        filterStats[rejectReason] = (filterStats[rejectReason] ?? 0) + 1;
+        continue;
       }
 
-      signals.sort((a, b) => b.earlyScore - a.earlyScore);
-      return { signals, poolsScanned: pairs.length, networkErrors: [], filterStats };
-    } catch (err) {
-      return {
-        signals: [],
-        poolsScanned: 0,
-        networkErrors: [`Birdeye new_listing: ${err instanceof Error ? err.message : String(err)}`],
-      };
+      const signal = this.analyzeEarlyPair(pair, null);
+      if (signal) signals.push(signal);
     }
+
+    signals.sort((a, b) => b.earlyScore - a.earlyScore);
+    return { signals, poolsScanned: pairs.length, networkErrors: [], filterStats };
+  }
+
+  /** Sustituye el reloj del sistema (edad del par en replays). */
+  setClock(clock: Clock): void {
+    this.clock = clock;
   }
 
   async analyzeToken(
@@ -267,13 +356,14 @@ export class EarlyDetector {
     const liquidityUsd = pair.liquidity?.usd ?? 0;
     const volume24h = this.getEffectiveVolume24h(pair);
     const price = parseFloat(pair.priceUsd) || 0;
+    const network = pair.chainId?.toLowerCase() ?? "";
+    const t = this.thresholdsFor(network);
 
-    if (liquidityUsd < this.config.minLiquidityUsd) return null;
+    if (liquidityUsd < t.minLiquidityUsd) return null;
     if (liquidityUsd > this.config.maxLiquidityUsd) return null;
     if (volume24h < this.config.minVolume24h) return null;
     if (price <= 0) return null;
 
-    const network = pair.chainId?.toLowerCase() ?? "";
     if (this.config.networks.length > 0 && !this.config.networks.includes(network)) {
       return null;
     }
@@ -281,7 +371,7 @@ export class EarlyDetector {
     const pairAgeHours = this.getEffectivePairAgeHours(pair);
 
     if (pairAgeHours > this.config.maxPairAgeHours) return null;
-    if (pairAgeHours < this.config.minPairAgeHours) return null;
+    if (pairAgeHours < t.minPairAgeHours) return null;
 
     const priceChange24h = pair.priceChange?.h24 ?? 0;
     if (Math.abs(priceChange24h) > this.config.maxPriceChange24h) return null;
@@ -305,7 +395,7 @@ export class EarlyDetector {
       pair, pool, buyPressure, buyerSellerRatio, volumeChange, pairAgeHours
     );
 
-    if (earlyScore < this.config.minEarlyScore) return null;
+    if (earlyScore < t.minEarlyScore) return null;
 
     const tier: EarlySignal["tier"] =
       earlyScore >= 75 ? "high_potential" :
@@ -434,6 +524,11 @@ export class EarlyDetector {
     return this.config;
   }
 
+  /** Umbrales efectivos para una red (global + networkOverrides). */
+  thresholdsFor(network: string): EarlyConfig {
+    return thresholdsForNetwork<EarlyConfig>(this.config, this.config.networkOverrides, network);
+  }
+
   private getRejectReason(
     pair: DexPair,
     pool: GeckoTerminalPool | null
@@ -441,19 +536,20 @@ export class EarlyDetector {
     const liquidityUsd = pair.liquidity?.usd ?? 0;
     const volume24h = this.getEffectiveVolume24h(pair);
     const price = parseFloat(pair.priceUsd) || 0;
-    if (liquidityUsd < this.config.minLiquidityUsd) return "low_liquidity";
+    const network = pair.chainId?.toLowerCase() ?? "";
+    const t = this.thresholdsFor(network);
+    if (liquidityUsd < t.minLiquidityUsd) return "low_liquidity";
     if (liquidityUsd > this.config.maxLiquidityUsd) return "high_liquidity";
     if (volume24h < this.config.minVolume24h) return "low_volume";
     if (price <= 0) return "invalid_price";
 
-    const network = pair.chainId?.toLowerCase() ?? "";
     if (this.config.networks.length > 0 && !this.config.networks.includes(network)) {
       return "network_filtered";
     }
 
     const pairAgeHours = this.getEffectivePairAgeHours(pair);
     if (pairAgeHours > this.config.maxPairAgeHours) return "too_old_pair";
-    if (pairAgeHours < this.config.minPairAgeHours) return "too_new_pair";
+    if (pairAgeHours < t.minPairAgeHours) return "too_new_pair";
 
     const priceChange24h = pair.priceChange?.h24 ?? 0;
     if (Math.abs(priceChange24h) > this.config.maxPriceChange24h) return "price_too_volatile";
@@ -475,7 +571,7 @@ export class EarlyDetector {
     const earlyScore = this.calcEarlyScore(
       pair, pool, buyPressure, buyerSellerRatio, volumeChange, pairAgeHours
     );
-    if (earlyScore < this.config.minEarlyScore) return "low_early_score";
+    if (earlyScore < t.minEarlyScore) return "low_early_score";
 
     return null;
   }
@@ -498,7 +594,7 @@ export class EarlyDetector {
    */
   private getEffectivePairAgeHours(pair: DexPair): number {
     if (pair.pairCreatedAt && pair.pairCreatedAt > 0) {
-      const ms = Date.now() - pair.pairCreatedAt;
+      const ms = this.clock() - pair.pairCreatedAt;
       return ms / (60 * 60 * 1000);
     }
     return 6;
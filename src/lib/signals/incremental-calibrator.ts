@@ -4,6 +4,16 @@
 // ============================================================
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { WalkForwardEvaluator, outcomeSource, sameThresholds } from "./walk-forward";
+import { CalibrationHistoryStore } from "./calibration-history";
+import type { CalibrationOutcome, CalibrationVersion } from "./calibration-history";
+import type {
+  ReplayOutcome,
+  ReplayScore,
+  ThresholdSet,
+  WalkForwardConfig,
+  WalkForwardResult,
+} from "./walk-forward";
 
 export interface CalibrationState {
   momentumScoreThreshold: number;
@@ -19,6 +29,20 @@ export interface CalibrationState {
   exposureMomentumPct: number;
   exposureEarlyPct: number;
   detectorInteraction: DetectorInteraction;
+  /** Validación walk-forward de la propuesta de este recalibrado (null si no hubo cambio). */
+  walkForward: WalkForwardResult | null;
+  /** Propuestas rechazadas por no mejorar fuera de muestra (más reciente primero). */
+  rejectedProposals: RejectedProposal[];
+}
+
+export interface RejectedProposal {
+  proposal: ThresholdSet;
+  current: ThresholdSet;
+  reason: string;
+  baseline: ReplayScore;
+  candidate: ReplayScore;
+  folds: number;
+  rejectedAt: string;
 }
 
 export interface DetectorInteraction {
@@ -35,6 +59,7 @@ const TARGET_HIT_RATE_SAT = 0.40;
 const BASE_STEP = 2;
 const MIN_OUTCOMES = 20;
 const EXPOSURE_CAP_PCT = 70;
+const MAX_REJECTED_PROPOSALS = 20;
 
 /**
  * IncrementalCalibrator v2:
@@ -52,14 +77,33 @@ const EXPOSURE_CAP_PCT = 70;
  *  - Cross-detector overlap detection (tokens found by both)
  *  - Adaptive step size: larger when metrics diverge far from target,
  *    smaller when close to optimal
+ *
+ *  Walk-forward gate:
+ *  - Every proposed change is replayed on rolling train/test windows
+ *    (WalkForwardEvaluator) and only applied if out-of-sample profit
+ *    factor improves; rejected proposals are kept in calibration_state
+ *
+ *  History:
+ *  - Every recalibration run (applied, rejected or unchanged) and every
+ *    rollback is appended to calibration_history with its inputs and
+ *    outcome; `rollback` restores a version
  */
 export class IncrementalCalibrator {
-  constructor(private supabase: SupabaseClient) {}
+  private walkForward: WalkForwardEvaluator;
+  private history: CalibrationHistoryStore;
+
+  constructor(
+    private supabase: SupabaseClient,
+    walkForwardConfig: Partial<WalkForwardConfig> = {}
+  ) {
+    this.walkForward = new WalkForwardEvaluator(walkForwardConfig);
+    this.history = new CalibrationHistoryStore(supabase);
+  }
 
   async recalibrate(userId: string): Promise<CalibrationState | null> {
     const { data: outcomes } = await this.supabase
       .from("signal_outcomes")
-      .select("layer, pnl_pct_24h, confidence, was_executed, signal_source, metadata")
+      .select("layer, pnl_pct_24h, confidence, momentum_score, was_executed, created_at, metadata")
       .eq("user_id", userId)
       .not("pnl_pct_24h", "is", null)
       .order("created_at", { ascending: false })
@@ -67,82 +111,106 @@ export class IncrementalCalibrator {
 
     if (!outcomes || outcomes.length < MIN_OUTCOMES) return null;
 
-    const coreOutcomes = outcomes.filter((o) => o.layer === "core");
-    const satOutcomes = outcomes.filter((o) => o.layer === "satellite");
-
-    const hitRate_core = calcHitRate(coreOutcomes);
-    const hitRate_sat = calcHitRate(satOutcomes);
-    const avgPnl24h = calcAvgPnl(outcomes);
-    const { profitFactor, expectancy } = calcPfAndExp(outcomes);
-
-    const momentumOutcomes = outcomes.filter(
-      (o) => extractSource(o) === "momentum"
-    );
-    const earlyOutcomes = outcomes.filter(
-      (o) => extractSource(o) === "early"
-    );
-
-    const interaction = computeDetectorInteraction(momentumOutcomes, earlyOutcomes, outcomes);
-    const exposure = computeExposure(momentumOutcomes, earlyOutcomes, outcomes);
-
+    const metrics = analyzeOutcomes(outcomes);
     const current = await this.getCurrentState(userId);
-
-    let momThreshold = current?.momentumScoreThreshold ?? 55;
-    let earlyThreshold = current?.earlyScoreThreshold ?? 50;
-    let coreConf = current?.coreMinConfidence ?? 75;
-    let satConf = current?.satelliteMinConfidence ?? 50;
-
-    const coreStep = adaptiveStep(hitRate_core, TARGET_HIT_RATE_CORE);
-    const satStep = adaptiveStep(hitRate_sat, TARGET_HIT_RATE_SAT);
-
-    if (hitRate_core < TARGET_HIT_RATE_CORE && coreOutcomes.length >= 10) {
-      momThreshold = Math.min(momThreshold + coreStep, 80);
-      coreConf = Math.min(coreConf + coreStep, 90);
-    } else if (hitRate_core > TARGET_HIT_RATE_CORE + 0.15 && coreOutcomes.length >= 10) {
-      momThreshold = Math.max(momThreshold - coreStep, 40);
-      coreConf = Math.max(coreConf - coreStep, 60);
+    const currentThresholds: ThresholdSet = {
+      momentumScoreThreshold: current?.momentumScoreThreshold ?? 55,
+      earlyScoreThreshold: current?.earlyScoreThreshold ?? 50,
+      coreMinConfidence: current?.coreMinConfidence ?? 75,
+      satelliteMinConfidence: current?.satelliteMinConfidence ?? 50,
+    };
+    const proposal = nudgeThresholds(metrics, currentThresholds);
+
+    // Solo se aplica un cambio si mejora fuera de muestra
+    let thresholds = currentThresholds;
+    let walkForward: WalkForwardResult | null = null;
+    let rejectedProposals = current?.rejectedProposals ?? [];
+    let outcome: CalibrationOutcome = "unchanged";
+
+    if (!sameThresholds(proposal, currentThresholds)) {
+      walkForward = this.walkForward.evaluate(
+        [...outcomes].reverse(),
+        currentThresholds,
+        proposeThresholds
+      );
+      if (walkForward.accepted) {
+        thresholds = proposal;
+        outcome = "applied";
+      } else {
+        outcome = "rejected";
+        rejectedProposals = [
+          {
+            proposal,
+            current: currentThresholds,
+            reason: walkForward.reason,
+            baseline: walkForward.baseline,
+            candidate: walkForward.candidate,
+            folds: walkForward.folds.length,
+            rejectedAt: walkForward.evaluatedAt,
+          },
+          ...rejectedProposals,
+        ].slice(0, MAX_REJECTED_PROPOSALS);
+      }
     }
 
-    if (hitRate_sat < TARGET_HIT_RATE_SAT && satOutcomes.length >= 10) {
-      earlyThreshold = Math.min(earlyThreshold + satStep, 70);
-      satConf = Math.min(satConf + satStep, 70);
-    } else if (hitRate_sat > TARGET_HIT_RATE_SAT + 0.15 && satOutcomes.length >= 10) {
-      earlyThreshold = Math.max(earlyThreshold - satStep, 35);
-      satConf = Math.max(satConf - satStep, 35);
-    }
+    const state: CalibrationState = {
+      ...thresholds,
+      hitRate24h_core: round(metrics.hitRate_core),
+      hitRate24h_satellite: round(metrics.hitRate_sat),
+      avgPnl24h: round(metrics.avgPnl24h),
+      profitFactor_rolling: round(metrics.profitFactor),
+      expectancy_rolling: round(metrics.expectancy),
+      lastCalibratedAt: new Date(),
+      exposureMomentumPct: round(metrics.exposure.momentumPct),
+      exposureEarlyPct: round(metrics.exposure.earlyPct),
+      detectorInteraction: metrics.interaction,
+      walkForward,
+      rejectedProposals,
+    };
 
-    if (exposure.momentumPct > EXPOSURE_CAP_PCT && interaction.earlyPF > interaction.momentumPF) {
-      momThreshold = Math.min(momThreshold + 1, 80);
-      earlyThreshold = Math.max(earlyThreshold - 1, 35);
-    } else if (exposure.earlyPct > EXPOSURE_CAP_PCT && interaction.momentumPF > interaction.earlyPF) {
-      earlyThreshold = Math.min(earlyThreshold + 1, 70);
-      momThreshold = Math.max(momThreshold - 1, 40);
+    await this.persistState(userId, state);
+    try {
+      await this.history.append(userId, state, "recalibration", { outcome });
+    } catch {
+      // el historial no bloquea la calibración
     }
+    return state;
+  }
 
-    if (interaction.recommendedBias === "momentum" && interaction.momentumPF > 1.5) {
-      coreConf = Math.max(coreConf - 1, 60);
-    } else if (interaction.recommendedBias === "early" && interaction.earlyPF > 1.5) {
-      satConf = Math.max(satConf - 1, 35);
-    }
+  /**
+   * Vuelve a los umbrales de una versión del historial. Las métricas de
+   * calibration_state no cambian (son las del último recalibrado) y el
+   * rollback queda como versión nueva en el historial.
+   */
+  async rollback(
+    userId: string,
+    version: number,
+    note?: string
+  ): Promise<{ state: CalibrationState; entry: CalibrationVersion } | null> {
+    const target = await this.history.get(userId, version);
+    if (!target) return null;
 
+    const current = await this.getCurrentState(userId);
     const state: CalibrationState = {
-      momentumScoreThreshold: momThreshold,
-      earlyScoreThreshold: earlyThreshold,
-      coreMinConfidence: coreConf,
-      satelliteMinConfidence: satConf,
-      hitRate24h_core: round(hitRate_core),
-      hitRate24h_satellite: round(hitRate_sat),
-      avgPnl24h: round(avgPnl24h),
-      profitFactor_rolling: round(profitFactor),
-      expectancy_rolling: round(expectancy),
+      ...(current ?? {
+        ...target.inputs,
+        detectorInteraction: target.inputs.detectorInteraction ?? {
+          momentumPF: 0, earlyPF: 0, momentumHitRate: 0, earlyHitRate: 0,
+          overlapPct: 0, recommendedBias: "balanced",
+        },
+        rejectedProposals: [],
+      }),
+      ...target.thresholds,
       lastCalibratedAt: new Date(),
-      exposureMomentumPct: round(exposure.momentumPct),
-      exposureEarlyPct: round(exposure.earlyPct),
-      detectorInteraction: interaction,
+      walkForward: null,
     };
 
     await this.persistState(userId, state);
-    return state;
+    const entry = await this.history.append(userId, state, "rollback", {
+      restoredVersion: version,
+      note,
+    });
+    return { state, entry };
   }
 
   async getCurrentState(userId: string): Promise<CalibrationState | null> {
@@ -171,11 +239,13 @@ export class IncrementalCalibrator {
         momentumPF: 0, earlyPF: 0, momentumHitRate: 0, earlyHitRate: 0,
         overlapPct: 0, recommendedBias: "balanced",
       },
+      walkForward: (data.walk_forward as WalkForwardResult | null) ?? null,
+      rejectedProposals: (data.rejected_proposals as RejectedProposal[] | null) ?? [],
     };
   }
 
   private async persistState(userId: string, state: CalibrationState): Promise<void> {
-    await this.supabase
+    const { error } = await this.supabase
       .from("calibration_state")
       .upsert(
         {
@@ -193,31 +263,104 @@ export class IncrementalCalibrator {
           exposure_momentum_pct: state.exposureMomentumPct,
           exposure_early_pct: state.exposureEarlyPct,
           detector_interaction: state.detectorInteraction,
+          walk_forward: state.walkForward,
+          rejected_proposals: state.rejectedProposals,
         },
         { onConflict: "user_id" }
       );
+
+    if (error) throw new Error(`calibration_state: ${error.message}`);
   }
 }
 
 // ---- helpers ----
 
-type Outcome = {
-  pnl_pct_24h: unknown;
-  signal_source?: unknown;
-  metadata?: unknown;
+type Outcome = ReplayOutcome;
+
+type OutcomeMetrics = {
+  hitRate_core: number;
+  hitRate_sat: number;
+  coreCount: number;
+  satCount: number;
+  avgPnl24h: number;
+  profitFactor: number;
+  expectancy: number;
+  interaction: DetectorInteraction;
+  exposure: { momentumPct: number; earlyPct: number };
 };
 
-function extractSource(o: Outcome): "momentum" | "early" | "unknown" {
-  const src = (o.signal_source as string) ?? "";
-  if (src.includes("momentum") || src.includes("trending")) return "momentum";
-  if (src.includes("early")) return "early";
-  const meta = o.metadata as Record<string, unknown> | null;
-  if (meta?.signalSource) {
-    const ms = String(meta.signalSource);
-    if (ms.includes("momentum") || ms.includes("trending")) return "momentum";
-    if (ms.includes("early")) return "early";
+function analyzeOutcomes(outcomes: Outcome[]): OutcomeMetrics {
+  const coreOutcomes = outcomes.filter((o) => o.layer === "core");
+  const satOutcomes = outcomes.filter((o) => o.layer === "satellite");
+  const { profitFactor, expectancy } = calcPfAndExp(outcomes);
+
+  const momentumOutcomes = outcomes.filter((o) => outcomeSource(o) === "momentum");
+  const earlyOutcomes = outcomes.filter((o) => outcomeSource(o) === "early");
+
+  return {
+    hitRate_core: calcHitRate(coreOutcomes),
+    hitRate_sat: calcHitRate(satOutcomes),
+    coreCount: coreOutcomes.length,
+    satCount: satOutcomes.length,
+    avgPnl24h: calcAvgPnl(outcomes),
+    profitFactor,
+    expectancy,
+    interaction: computeDetectorInteraction(momentumOutcomes, earlyOutcomes, outcomes),
+    exposure: computeExposure(momentumOutcomes, earlyOutcomes, outcomes),
+  };
+}
+
+/** Propuesta de umbrales a partir de un conjunto de outcomes (train del walk-forward). */
+function proposeThresholds(outcomes: Outcome[], current: ThresholdSet): ThresholdSet {
+  return nudgeThresholds(analyzeOutcomes(outcomes), current);
+}
+
+function nudgeThresholds(m: OutcomeMetrics, current: ThresholdSet): ThresholdSet {
+  let momThreshold = current.momentumScoreThreshold;
+  let earlyThreshold = current.earlyScoreThreshold;
+  let coreConf = current.coreMinConfidence;
+  let satConf = current.satelliteMinConfidence;
+
+  const coreStep = adaptiveStep(m.hitRate_core, TARGET_HIT_RATE_CORE);
+  const satStep = adaptiveStep(m.hitRate_sat, TARGET_HIT_RATE_SAT);
+
+  if (m.hitRate_core < TARGET_HIT_RATE_CORE && m.coreCount >= 10) {
+    momThreshold = Math.min(momThreshold + coreStep, 80);
+    coreConf = Math.min(coreConf + coreStep, 90);
+  } else if (m.hitRate_core > TARGET_HIT_RATE_CORE + 0.15 && m.coreCount >= 10) {
+    momThreshold = Math.max(momThreshold - coreStep, 40);
+    coreConf = Math.max(coreConf - coreStep, 60);
+  }
+
+  if (m.hitRate_sat < TARGET_HIT_RATE_SAT && m.satCount >= 10) {
+    earlyThreshold = Math.min(earlyThreshold + satStep, 70);
+    satConf = Math.min(satConf + satStep, 70);
+  } else if (m.hitRate_sat > TARGET_HIT_RATE_SAT + 0.15 && m.satCount >= 10) {
+    earlyThreshold = Math.max(earlyThreshold - satStep, 35);
+    satConf = Math.max(satConf - satStep, 35);
+  }
+
+  const { interaction, exposure } = m;
+  if (exposure.momentumPct > EXPOSURE_CAP_PCT && interaction.earlyPF > interaction.momentumPF) {
+    momThreshold = Math.min(momThreshold + 1, 80);
+    earlyThreshold = Math.max(earlyThreshold - 1, 35);
+  } else if (exposure.earlyPct > EXPOSURE_CAP_PCT && interaction.momentumPF > interaction.earlyPF) {
+    earlyThreshold = Math.min(earlyThreshold + 1, 70);
+    momThreshold = Math.max(momThreshold - 1, 40);
   }
-  return "unknown";
+
+  if (interaction.recommendedBias === "momentum" && interaction.momentumPF > 1.5) {
+    coreConf = Math.max(coreConf - 1, 60);
+  } else if (interaction.recommendedBias === "early" && interaction.earlyPF > 1.5) {
+    satConf = Math.max(satConf - 1, 35);
+  }
+
+  return {
+    momentumScoreThreshold: momThreshold,
+    earlyScoreThreshold: earlyThreshold,
+    coreMinConfidence: coreConf,
+    satelliteMinConfidence: satConf,
+  };
 }
 
 function computeDetectorInteraction(
@@ -1,8 +1,39 @@
 export { MomentumDetector } from "./momentum-detector";
 export type { MomentumSignal, MomentumConfig } from "./momentum-detector";
+export { DistributionDetector } from "./distribution-detector";
+export type { DistributionSignal } from "./distribution-detector";
 export { ConfluenceEngine } from "./confluence-engine";
-export type { ConfluenceResult, ConfluenceConfig, WalletConfluenceInfo } from "./confluence-engine";
-export { PositionManager } from "./position-manager";
-export type { OpenPosition, ExitSignal } from "./position-manager";
+export type {
+  ConfluenceResult,
+  ConfluenceConfig,
+  ConfluenceComponents,
+  WalletConfluenceInfo,
+  WalletProvenance,
+} from "./confluence-engine";
+export { ConfluenceModelManager, DEFAULT_LEARNED_SCORING_CONFIG } from "./learned-scoring";
+export type { ConfluenceModel, LearnedScore, LearnedScoringConfig, SignalFeatures } from "./learned-scoring";
+export { SignalAttributionEngine, buildAttributionReport } from "./signal-attribution";
+export type { AttributionReport, WindowRegression, WeightRecommendation } from "./signal-attribution";
+export { PositionManager, RECONCILED_EXIT_REASON } from "./position-manager";
+export type { OpenPosition, ExitSignal, MarketObservation, ObservationLookup } from "./position-manager";
+export { PositionReconciler, DEFAULT_RECONCILER_CONFIG } from "./position-reconciler";
+export type {
+  PositionReconcilerConfig,
+  ReconcilerVenues,
+  ReconciliationItem,
+  ReconciliationReport,
+  ReconciliationStatus,
+} from "./position-reconciler";
+export { PositionWatcher, DEFAULT_POSITION_WATCHER_CONFIG } from "./position-watcher";
+export type { PositionWatcherConfig, PositionUpdate, WatcherEvent } from "./position-watcher";
+export { WalkForwardEvaluator, DEFAULT_WALK_FORWARD_CONFIG } from "./walk-forward";
+export type { WalkForwardConfig, WalkForwardResult, ThresholdSet } from "./walk-forward";
+export { CalibrationHistoryStore, diffCalibrationVersions } from "./calibration-history";
+export type { CalibrationVersion, CalibrationDiff, CalibrationOutcome } from "./calibration-history";
 export { Orchestrator } from "./orchestrator";
 export type { CycleResult } from "./orchestrator";
+export { CycleLock, CycleLockedError, CYCLE_LOCK_TTL_SECONDS } from "./cycle-lock";
+export { CycleScheduler, DEFAULT_CYCLE_SCHEDULER_CONFIG } from "./cycle-scheduler";
+export type { CycleSchedulerConfig, SchedulerTickSummary, UserRunSummary } from "./cycle-scheduler";
+export { ReconcileScheduler, DEFAULT_RECONCILE_SCHEDULER_CONFIG } from "./reconcile-scheduler";
+export type { ReconcileSchedulerConfig, ReconcileTickSummary, ReconcileRunSummary } from "./reconcile-scheduler";
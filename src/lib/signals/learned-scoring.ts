@@ -0,0 +1,632 @@
+// ============================================================
+// Learned scoring — modelo logístico de P(win 24h) por usuario
+// ============================================================
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MomentumSignal } from "./momentum-detector";
+import type { EarlySignal } from "./early-detector";
+import type { DistributionSignal } from "./distribution-detector";
+import type { RegimeSnapshot } from "../market/regime-detector";
+import type { TokenHealthResult } from "../market/token-health";
+
+export const SIGNAL_FEATURES = [
+  "momentumScore",
+  "earlyScore",
+  "buyPressure",
+  "logLiquidity",
+  "logPairAgeHours",
+  "walletCount",
+  "healthScore",
+  "riskOn",
+  "riskOff",
+  "isShort",
+] as const;
+
+export type SignalFeature = (typeof SIGNAL_FEATURES)[number];
+export type SignalFeatures = Record<SignalFeature, number>;
+
+export type ModelStatus = "shadow" | "active" | "retired";
+
+export interface LogisticParams {
+  intercept: number;
+  /** Coeficientes sobre las features estandarizadas (mismo orden que featureNames). */
+  coefficients: number[];
+  means: number[];
+  stds: number[];
+  /** Cuantiles (0%, 5%, …, 100%) de la probabilidad predicha en el train. */
+  probabilityQuantiles: number[];
+  /** Mismos cuantiles de la confianza por reglas en el train. */
+  confidenceQuantiles: number[];
+}
+
+export interface ModelMetrics {
+  trainSamples: number;
+  testSamples: number;
+  /** AUC fuera de muestra (split cronológico) del modelo y de la confianza por reglas. */
+  testAuc: number;
+  ruleTestAuc: number;
+  testLogLoss: number;
+  testBrier: number;
+  winRate: number;
+  /** Evaluación sobre señales puntuadas en shadow después del entrenamiento. */
+  shadow?: {
+    samples: number;
+    auc: number;
+    ruleAuc: number;
+    evaluatedAt: string;
+  };
+}
+
+export interface ConfluenceModel {
+  id: string;
+  version: number;
+  status: ModelStatus;
+  kind: "logistic";
+  featureNames: SignalFeature[];
+  params: LogisticParams;
+  metrics: ModelMetrics;
+  trainedUntil: string;
+  promotedAt: string | null;
+  createdAt: string;
+}
+
+export interface LearnedScore {
+  modelVersion: number;
+  status: ModelStatus;
+  /** P(win a 24h) estimada por el modelo. */
+  probability: number;
+  /** Probabilidad llevada a la escala de la confianza por reglas (0-100). */
+  confidence: number;
+  /** true si esta puntuación sustituye a la confianza por reglas. */
+  applied: boolean;
+}
+
+export interface LearnedScoringConfig {
+  /** Outcomes con PnL 24h necesarios para entrenar. */
+  minTrainingSamples: number;
+  maxTrainingSamples: number;
+  /** Fracción final (más reciente) reservada como test. */
+  testFraction: number;
+  /** Horas entre reentrenos del modelo activo. */
+  retrainEveryHours: number;
+  /** Un shadow que no se promociona en este tiempo se retira. */
+  maxShadowHours: number;
+  /** Señales puntuadas en shadow (con PnL 24h) para decidir la promoción. */
+  minShadowSamples: number;
+  /** Mejora mínima de AUC sobre las reglas para promocionar. */
+  minAucImprovement: number;
+  l2: number;
+  iterations: number;
+  learningRate: number;
+}
+
+export const DEFAULT_LEARNED_SCORING_CONFIG: LearnedScoringConfig = {
+  minTrainingSamples: 150,
+  maxTrainingSamples: 2000,
+  testFraction: 0.3,
+  retrainEveryHours: 168,
+  maxShadowHours: 336,
+  minShadowSamples: 30,
+  minAucImprovement: 0.02,
+  l2: 1,
+  iterations: 400,
+  learningRate: 0.1,
+};
+
+export interface LearnedScoringSummary {
+  active: number | null;
+  shadow: number | null;
+  trained: number | null;
+  promoted: number | null;
+  retired: number[];
+  notes: string[];
+}
+
+/** Fuentes de una señal de confluencia (ConfluenceResult.sources). */
+export interface SignalFeatureSources {
+  momentum: MomentumSignal | null;
+  early: EarlySignal | null;
+  distribution: DistributionSignal | null;
+  walletConfluence: { walletCount: number } | null;
+  tokenHealth: TokenHealthResult | null;
+  regime: RegimeSnapshot | null;
+}
+
+export function extractSignalFeatures(sources: SignalFeatureSources): SignalFeatures {
+  const { momentum, early, distribution, walletConfluence, tokenHealth, regime } = sources;
+  const pair = momentum?.bestPair ?? early?.bestPair ?? distribution?.bestPair ?? null;
+  const txns = pair?.txns?.h24;
+
+  return {
+    momentumScore: momentum?.momentumScore ?? 0,
+    earlyScore: early?.earlyScore ?? 0,
+    buyPressure:
+      momentum?.buyPressure ??
+      early?.buyPressure ??
+      (txns ? txns.buys / Math.max(txns.sells, 1) : 0),
+    logLiquidity: Math.log10(
+      1 + (momentum?.liquidityUsd ?? early?.liquidityUsd ?? distribution?.liquidityUsd ?? 0)
+    ),
+    logPairAgeHours: Math.log1p(
+      momentum ? momentum.pairAge * 24 : early ? early.pairAgeHours : 0
+    ),
+    walletCount: walletConfluence?.walletCount ?? 0,
+    healthScore: tokenHealth?.healthScore ?? 0,
+    riskOn: regime?.regime === "risk_on" ? 1 : 0,
+    riskOff: regime?.regime === "risk_off" ? 1 : 0,
+    isShort: distribution ? 1 : 0,
+  };
+}
+
+/**
+ * Features de una fila de signal_outcomes: la columna `features` si existe
+ * y, para filas anteriores, reconstruidas desde columnas y metadata.
+ */
+export function featuresFromOutcome(row: OutcomeRow): SignalFeatures {
+  if (row.features) return { ...emptyFeatures(), ...(row.features as Partial<SignalFeatures>) };
+
+  const meta = (row.metadata ?? {}) as Record<string, unknown>;
+  const pair = meta.pairSnapshot as
+    | { txns?: { h24?: { buys: number; sells: number } }; pairCreatedAt?: number }
+    | null
+    | undefined;
+  const txns = pair?.txns?.h24;
+  const wallets = meta.walletConfluence as { count?: number } | null | undefined;
+  const ageHours = pair?.pairCreatedAt
+    ? Math.max((new Date(row.created_at).getTime() - pair.pairCreatedAt) / 3600_000, 0)
+    : 0;
+
+  return {
+    momentumScore: Number(row.momentum_score ?? 0),
+    earlyScore: Number(meta.earlyScore ?? 0),
+    buyPressure: txns ? txns.buys / Math.max(txns.sells, 1) : 0,
+    logLiquidity: Math.log10(1 + Number(row.liquidity_usd ?? 0)),
+    logPairAgeHours: Math.log1p(ageHours),
+    walletCount: Number(wallets?.count ?? 0),
+    healthScore: Number(row.health_score ?? 0),
+    riskOn: row.regime === "risk_on" ? 1 : 0,
+    riskOff: row.regime === "risk_off" ? 1 : 0,
+    isShort: meta.side === "sell" ? 1 : 0,
+  };
+}
+
+/** P(win) del modelo para unas features (las que falten cuentan como la media del train). */
+export function predictProbability(model: ConfluenceModel, features: SignalFeatures): number {
+  const { params } = model;
+  const z = model.featureNames.reduce(
+    (s, name, i) => {
+      const v = features[name];
+      return Number.isFinite(v) ? s + params.coefficients[i] * standardize(v, params.means[i], params.stds[i]) : s;
+    },
+    params.intercept
+  );
+  return sigmoid(z);
+}
+
+/**
+ * Lleva una probabilidad a la escala de confianza por reglas emparejando
+ * cuantiles del train: el modelo reordena las señales pero la proporción
+ * que supera coreMinConfidence / satelliteMinConfidence se mantiene.
+ */
+export function probabilityToConfidence(model: ConfluenceModel, probability: number): number {
+  const { probabilityQuantiles: pq, confidenceQuantiles: cq } = model.params;
+  if (pq.length < 2 || pq.length !== cq.length) return Math.round(probability * 100);
+
+  if (probability <= pq[0]) return Math.round(cq[0] * (probability / Math.max(pq[0], 1e-9)));
+  for (let i = 1; i < pq.length; i++) {
+    if (probability <= pq[i]) {
+      const span = pq[i] - pq[i - 1];
+      const f = span > 0 ? (probability - pq[i - 1]) / span : 1;
+      return Math.round(cq[i - 1] + f * (cq[i] - cq[i - 1]));
+    }
+  }
+  return Math.round(cq[cq.length - 1]);
+}
+
+export function scoreSignal(
+  model: ConfluenceModel,
+  features: SignalFeatures,
+  applied: boolean
+): LearnedScore {
+  const probability = predictProbability(model, features);
+  return {
+    modelVersion: model.version,
+    status: model.status,
+    probability: round(probability),
+    confidence: Math.max(0, Math.min(100, probabilityToConfidence(model, probability))),
+    applied,
+  };
+}
+
+/**
+ * ConfluenceModelManager — ciclo de vida del modelo aprendido.
+ *
+ *  1. Entrena una regresión logística (L2) sobre las features de
+ *     signal_outcomes para predecir P(pnl 24h > 0) y la guarda como versión
+ *     nueva en `shadow`, con AUC fuera de muestra frente a las reglas.
+ *  2. En shadow, ConfluenceEngine puntúa cada señal con el modelo junto a
+ *     la confianza por reglas (signal_outcomes.learned_probability).
+ *  3. Cuando hay suficientes señales puntuadas en shadow con PnL 24h, si el
+ *     AUC del modelo supera al de las reglas lo promociona a `active`; con
+ *     `scoringMode: "learned"` el motor usa entonces su puntuación.
+ */
+export class ConfluenceModelManager {
+  private config: LearnedScoringConfig;
+
+  constructor(
+    private supabase: SupabaseClient,
+    config: Partial<LearnedScoringConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_LEARNED_SCORING_CONFIG, ...config };
+  }
+
+  async getModels(userId: string): Promise<{ active: ConfluenceModel | null; shadow: ConfluenceModel | null }> {
+    const { data, error } = await this.supabase
+      .from("confluence_models")
+      .select(MODEL_COLUMNS)
+      .eq("user_id", userId)
+      .in("status", ["active", "shadow"])
+      .order("version", { ascending: false });
+
+    if (error) throw new Error(`confluence_models: ${error.message}`);
+    const models = ((data ?? []) as unknown as ModelRow[]).map(toModel);
+    return {
+      active: models.find((m) => m.status === "active") ?? null,
+      shadow: models.find((m) => m.status === "shadow") ?? null,
+    };
+  }
+
+  async listModels(userId: string, limit = 20): Promise<ConfluenceModel[]> {
+    const { data, error } = await this.supabase
+      .from("confluence_models")
+      .select(MODEL_COLUMNS)
+      .eq("user_id", userId)
+      .order("version", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`confluence_models: ${error.message}`);
+    return ((data ?? []) as unknown as ModelRow[]).map(toModel);
+  }
+
+  /** Evalúa/promociona el shadow y reentrena si toca. Lo llama el Orchestrator en cada ciclo. */
+  async maintain(userId: string): Promise<LearnedScoringSummary> {
+    let { active, shadow } = await this.getModels(userId);
+    const summary: LearnedScoringSummary = {
+      active: active?.version ?? null,
+      shadow: shadow?.version ?? null,
+      trained: null,
+      promoted: null,
+      retired: [],
+      notes: [],
+    };
+
+    if (shadow) {
+      const decision = await this.evaluateShadow(userId, shadow);
+      summary.notes.push(decision.note);
+      if (decision.promote) {
+        await this.promote(userId, shadow, active);
+        if (active) summary.retired.push(active.version);
+        summary.promoted = shadow.version;
+        summary.active = shadow.version;
+        summary.shadow = null;
+        active = { ...shadow, status: "active" };
+        shadow = null;
+      } else if (ageHours(shadow.createdAt) > this.config.maxShadowHours) {
+        await this.setStatus(userId, shadow.version, "retired");
+        summary.retired.push(shadow.version);
+        summary.notes.push(`v${shadow.version} retirado: sin batir a las reglas en ${this.config.maxShadowHours}h`);
+        summary.shadow = null;
+        shadow = null;
+      }
+    }
+
+    const needsModel = !active || ageHours(active.createdAt) > this.config.retrainEveryHours;
+    if (!shadow && needsModel) {
+      const trained = await this.train(userId);
+      if (trained) {
+        summary.trained = trained.version;
+        summary.shadow = trained.version;
+        summary.notes.push(
+          `v${trained.version} entrenado: AUC test ${trained.metrics.testAuc} vs reglas ${trained.metrics.ruleTestAuc}`
+        );
+      }
+    }
+
+    return summary;
+  }
+
+  /** Entrena una versión nueva en shadow; null si no hay datos suficientes. */
+  async train(userId: string): Promise<ConfluenceModel | null> {
+    const { data, error } = await this.supabase
+      .from("signal_outcomes")
+      .select(OUTCOME_COLUMNS)
+      .eq("user_id", userId)
+      .not("pnl_pct_24h", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(this.config.maxTrainingSamples);
+
+    if (error) throw new Error(`signal_outcomes: ${error.message}`);
+    const rows = ((data ?? []) as unknown as OutcomeRow[]).reverse();
+    if (rows.length < this.config.minTrainingSamples) return null;
+
+    const fit = fitModel(rows, this.config);
+    if (!fit) return null;
+
+    const { data: last } = await this.supabase
+      .from("confluence_models")
+      .select("version")
+      .eq("user_id", userId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: saved, error: saveError } = await this.supabase
+      .from("confluence_models")
+      .insert({
+        user_id: userId,
+        version: (last?.version ?? 0) + 1,
+        status: "shadow",
+        kind: "logistic",
+        feature_names: [...SIGNAL_FEATURES],
+        params: fit.params,
+        metrics: fit.metrics,
+        trained_until: rows[rows.length - 1].created_at,
+      })
+      .select(MODEL_COLUMNS)
+      .single();
+
+    if (saveError || !saved) {
+      throw new Error(`Error guardando confluence_models: ${saveError?.message ?? "sin datos"}`);
+    }
+    return toModel(saved as unknown as ModelRow);
+  }
+
+  private async evaluateShadow(
+    userId: string,
+    shadow: ConfluenceModel
+  ): Promise<{ promote: boolean; note: string }> {
+    const { data, error } = await this.supabase
+      .from("signal_outcomes")
+      .select("confidence, rule_confidence, learned_probability, pnl_pct_24h")
+      .eq("user_id", userId)
+      .eq("learned_model_version", shadow.version)
+      .not("pnl_pct_24h", "is", null)
+      .not("learned_probability", "is", null);
+
+    if (error) throw new Error(`signal_outcomes: ${error.message}`);
+    const rows = data ?? [];
+    if (rows.length < this.config.minShadowSamples) {
+      return {
+        promote: false,
+        note: `v${shadow.version} en shadow: ${rows.length}/${this.config.minShadowSamples} señales evaluadas`,
+      };
+    }
+
+    const wins = rows.map((r) => (Number(r.pnl_pct_24h) > 0 ? 1 : 0));
+    const auc = round(calcAuc(rows.map((r) => Number(r.learned_probability)), wins));
+    const ruleAuc = round(calcAuc(rows.map((r) => Number(r.rule_confidence ?? r.confidence)), wins));
+
+    const metrics: ModelMetrics = {
+      ...shadow.metrics,
+      shadow: { samples: rows.length, auc, ruleAuc, evaluatedAt: new Date().toISOString() },
+    };
+    await this.supabase
+      .from("confluence_models")
+      .update({ metrics })
+      .eq("user_id", userId)
+      .eq("version", shadow.version);
+
+    const beatsHoldout = shadow.metrics.testAuc > shadow.metrics.ruleTestAuc;
+    const beatsShadow = auc >= ruleAuc + this.config.minAucImprovement;
+    return {
+      promote: beatsHoldout && beatsShadow,
+      note: `v${shadow.version} shadow: AUC ${auc} vs reglas ${ruleAuc} (${rows.length} señales)` +
+        (beatsHoldout && beatsShadow ? " — promocionado" : ""),
+    };
+  }
+
+  private async promote(
+    userId: string,
+    shadow: ConfluenceModel,
+    active: ConfluenceModel | null
+  ): Promise<void> {
+    // Primero retirar: como mucho un modelo activo por usuario
+    if (active) await this.setStatus(userId, active.version, "retired");
+    await this.setStatus(userId, shadow.version, "active");
+  }
+
+  private async setStatus(userId: string, version: number, status: ModelStatus): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from("confluence_models")
+      .update({
+        status,
+        ...(status === "active" ? { promoted_at: now } : {}),
+        ...(status === "retired" ? { retired_at: now } : {}),
+      })
+      .eq("user_id", userId)
+      .eq("version", version);
+
+    if (error) throw new Error(`confluence_models: ${error.message}`);
+  }
+}
+
+// ---- helpers ----
+
+type OutcomeRow = {
+  confidence: unknown;
+  rule_confidence?: unknown;
+  momentum_score?: unknown;
+  liquidity_usd?: unknown;
+  health_score?: unknown;
+  regime?: unknown;
+  pnl_pct_24h: unknown;
+  features?: unknown;
+  metadata?: unknown;
+  created_at: string;
+};
+
+type ModelRow = {
+  id: string;
+  version: number;
+  status: ModelStatus;
+  kind: "logistic";
+  feature_names: SignalFeature[];
+  params: LogisticParams;
+  metrics: ModelMetrics;
+  trained_until: string;
+  promoted_at: string | null;
+  created_at: string;
+};
+
+const OUTCOME_COLUMNS =
+  "confidence, rule_confidence, momentum_score, liquidity_usd, health_score, regime, pnl_pct_24h, features, metadata, created_at";
+
+const MODEL_COLUMNS =
+  "id, version, status, kind, feature_names, params, metrics, trained_until, promoted_at, created_at";
+
+function toModel(row: ModelRow): ConfluenceModel {
+  return {
+    id: row.id,
+    version: Number(row.version),
+    status: row.status,
+    kind: row.kind,
+    featureNames: row.feature_names,
+    params: row.params,
+    metrics: row.metrics,
+    trainedUntil: row.trained_until,
+    promotedAt: row.promoted_at,
+    createdAt: row.created_at,
+  };
+}
+
+function fitModel(
+  rows: OutcomeRow[],
+  config: LearnedScoringConfig
+): { params: LogisticParams; metrics: ModelMetrics } | null {
+  const X = rows.map((r) => SIGNAL_FEATURES.map((f) => featuresFromOutcome(r)[f]));
+  const y = rows.map((r) => (Number(r.pnl_pct_24h) > 0 ? 1 : 0));
+  const ruleConf = rows.map((r) => Number(r.rule_confidence ?? r.confidence ?? 0));
+
+  // Split cronológico: el test son las señales más recientes
+  const split = Math.floor(rows.length * (1 - config.testFraction));
+  const [trainX, testX] = [X.slice(0, split), X.slice(split)];
+  const [trainY, testY] = [y.slice(0, split), y.slice(split)];
+  const winRate = mean(trainY);
+  if (testX.length === 0 || winRate === 0 || winRate === 1) return null;
+
+  const means = SIGNAL_FEATURES.map((_, j) => mean(trainX.map((row) => row[j])));
+  const stds = SIGNAL_FEATURES.map((_, j) => Math.sqrt(variance(trainX.map((row) => row[j]))) || 1);
+  const Z = trainX.map((row) => row.map((v, j) => standardize(v, means[j], stds[j])));
+
+  // Descenso de gradiente por lotes con L2 (sin penalizar el intercepto)
+  let intercept = Math.log(winRate / (1 - winRate));
+  const w = SIGNAL_FEATURES.map(() => 0);
+  const n = Z.length;
+  for (let it = 0; it < config.iterations; it++) {
+    let gIntercept = 0;
+    const g = w.map(() => 0);
+    for (let i = 0; i < n; i++) {
+      const err = sigmoid(intercept + dot(w, Z[i])) - trainY[i];
+      gIntercept += err;
+      for (let j = 0; j < w.length; j++) g[j] += err * Z[i][j];
+    }
+    intercept -= (config.learningRate * gIntercept) / n;
+    for (let j = 0; j < w.length; j++) {
+      w[j] -= config.learningRate * (g[j] + config.l2 * w[j]) / n;
+    }
+  }
+
+  const predict = (row: number[]) =>
+    sigmoid(intercept + dot(w, row.map((v, j) => standardize(v, means[j], stds[j]))));
+  const trainP = trainX.map(predict);
+  const testP = testX.map(predict);
+
+  const params: LogisticParams = {
+    intercept: round(intercept),
+    coefficients: w.map(round),
+    means: means.map(round),
+    stds: stds.map(round),
+    probabilityQuantiles: quantiles(trainP).map(round),
+    confidenceQuantiles: quantiles(ruleConf.slice(0, split)).map(round),
+  };
+
+  return {
+    params,
+    metrics: {
+      trainSamples: trainX.length,
+      testSamples: testX.length,
+      testAuc: round(calcAuc(testP, testY)),
+      ruleTestAuc: round(calcAuc(ruleConf.slice(split), testY)),
+      testLogLoss: round(logLoss(testP, testY)),
+      testBrier: round(testP.reduce((s, p, i) => s + (p - testY[i]) ** 2, 0) / testP.length),
+      winRate: round(winRate),
+    },
+  };
+}
+
+/** AUC por rangos (Mann-Whitney), con empates a rango medio. */
+function calcAuc(scores: number[], labels: number[]): number {
+  const pos = labels.filter((l) => l === 1).length;
+  const neg = labels.length - pos;
+  if (pos === 0 || neg === 0) return 0.5;
+
+  const order = scores.map((s, i) => ({ s, l: labels[i] })).sort((a, b) => a.s - b.s);
+  let rankSumPos = 0;
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].s === order[i].s) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (order[k].l === 1) rankSumPos += avgRank;
+    i = j + 1;
+  }
+  return (rankSumPos - (pos * (pos + 1)) / 2) / (pos * neg);
+}
+
+function logLoss(p: number[], y: number[]): number {
+  const eps = 1e-9;
+  return -p.reduce((s, v, i) => s + (y[i] ? Math.log(v + eps) : Math.log(1 - v + eps)), 0) / p.length;
+}
+
+function quantiles(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return Array.from({ length: 21 }, (_, i) => {
+    const pos = (i / 20) * (sorted.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+  });
+}
+
+function emptyFeatures(): SignalFeatures {
+  return Object.fromEntries(SIGNAL_FEATURES.map((f) => [f, 0])) as SignalFeatures;
+}
+
+function standardize(v: number, m: number, s: number): number {
+  return s > 0 ? (v - m) / s : 0;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((s, v, i) => s + v * b[i], 0);
+}
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((s, v) => s + v, 0) / xs.length : 0;
+}
+
+function variance(xs: number[]): number {
+  const m = mean(xs);
+  return xs.length > 0 ? xs.reduce((s, v) => s + (v - m) ** 2, 0) / xs.length : 0;
+}
+
+function ageHours(iso: string): number {
+  return (Date.now() - new Date(iso).getTime()) / 3600_000;
+}
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
@@ -5,6 +5,18 @@ import {
   type GeckoTerminalToken,
 } from "../market/geckoterminal";
 import { BirdeyeClient } from "../market/birdeye";
+import { systemClock, type Clock } from "../engine/clock";
+import {
+  geckoNetworksAfterBirdeye,
+  mergeFilterStats,
+  prefersBirdeye,
+  thresholdsForNetwork,
+  usesBirdeyePairs,
+  wantsBirdeyeNetwork,
+  type DiscoverOptions,
+  type DiscoverySnapshot,
+  type NetworkOverrides,
+} from "./network-tuning";
 
 export interface MomentumSignal {
   tokenAddress: string;
@@ -43,10 +55,17 @@ export interface MomentumConfig {
   minPairAgeDays: number;
   maxPriceChange24h: number;
   source: "birdeye" | "gecko";
+  /** Umbrales propios de cada red; lo que no se indica usa el valor global. */
+  networkOverrides: NetworkOverrides<MomentumNetworkThresholds>;
 }
 
-const DEFAULT_CONFIG: MomentumConfig = {
-  networks: ["solana"],
+export type MomentumNetworkThresholds = Pick<
+  MomentumConfig,
+  "minLiquidityUsd" | "minPairAgeDays" | "minMomentumScore"
+>;
+
+export const DEFAULT_MOMENTUM_CONFIG: MomentumConfig = {
+  networks: ["solana", "base", "arbitrum", "ethereum", "bsc"],
   minLiquidityUsd: 10_000,
   maxLiquidityUsd: 50_000_000,
   minVolume24h: 5_000,
@@ -55,6 +74,12 @@ const DEFAULT_CONFIG: MomentumConfig = {
   minPairAgeDays: 0.10,
   maxPriceChange24h: 260,
   source: "birdeye",
+  networkOverrides: {
+    ethereum: { minLiquidityUsd: 100_000, minPairAgeDays: 0.5, minMomentumScore: 45 },
+    base: { minLiquidityUsd: 20_000 },
+    arbitrum: { minLiquidityUsd: 20_000 },
+    bsc: { minLiquidityUsd: 25_000, minMomentumScore: 42 },
+  },
 };
 
 /**
@@ -70,9 +95,13 @@ const DEFAULT_CONFIG: MomentumConfig = {
  *  - Precio subiendo pero no parabólico
  *  - Par con antigüedad suficiente (no scams de 1 día)
  *
- * GeckoTerminal: descubrimiento (trending pools multi-cadena).
+ * Birdeye:       descubrimiento en Solana (si hay API key).
+ * GeckoTerminal: descubrimiento en el resto de redes (trending pools).
  * DexScreener:   datos de ejecución (quotes, pares individuales).
  *
+ * Liquidez mínima, edad del par y score mínimo se ajustan por red con
+ * `networkOverrides`.
+ *
  * Coste: $0 (ambas APIs gratuitas).
  */
 export class MomentumDetector {
@@ -80,6 +109,7 @@ export class MomentumDetector {
   private gecko: GeckoTerminalClient;
   private birdeye: BirdeyeClient | null;
   private config: MomentumConfig;
+  private clock: Clock = systemClock;
 
   constructor(config?: Partial<MomentumConfig>) {
     this.dex = new DexScreenerClient();
@@ -90,7 +120,7 @@ export class MomentumDetector {
     } catch {
       this.birdeye = null;
     }
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...DEFAULT_MOMENTUM_CONFIG, ...config };
   }
 
   /**
@@ -99,16 +129,69 @@ export class MomentumDetector {
    * junto con el total de pools escaneados.
    */
   async scan(): Promise<MomentumScanResult> {
-    if (this.config.source === "birdeye") {
-      const fromBirdeye = await this.scanFromBirdeye();
-      if (fromBirdeye.signals.length > 0 || fromBirdeye.networkErrors.length === 0) {
-        return fromBirdeye;
-      }
+    return this.scanSnapshot(await this.discover());
+  }
+
+  /**
+   * Pide trending a Birdeye (Solana) y GeckoTerminal (resto de redes, o
+   * todas si Birdeye falla) sin filtrar.
+   */
+  async discover(opts: DiscoverOptions = {}): Promise<DiscoverySnapshot> {
+    let birdeye: DiscoverySnapshot["birdeye"] = null;
+    if (
+      wantsBirdeyeNetwork(this.config.networks) &&
+      prefersBirdeye(this.config.source, this.birdeye !== null)
+    ) {
+      birdeye = await this.fetchBirdeye();
     }
 
-    const { pools, tokens, errors } =
-      await this.gecko.getTrendingPoolsMultiChain(this.config.networks);
+    // Birdeye cubre Solana; si falló (o está en circuit-break), Solana
+    // vuelve a GeckoTerminal
+    const networks = birdeye && !birdeye.error && !opts.geckoForAllNetworks
+      ? geckoNetworksAfterBirdeye(this.config.networks)
+      : this.config.networks;
+    const { pools, tokens, errors } = networks.length > 0
+      ? await this.gecko.getTrendingPoolsMultiChain(networks)
+      : { pools: [], tokens: new Map<string, GeckoTerminalToken>(), errors: [] };
+
+    return { birdeye, gecko: { networks, pools, tokens, errors } };
+  }
+
+  /** Filtra un snapshot de discovery con la config de este detector. */
+  scanSnapshot(snapshot: DiscoverySnapshot): MomentumScanResult {
+    const fromBirdeye =
+      snapshot.birdeye &&
+      wantsBirdeyeNetwork(this.config.networks) &&
+      usesBirdeyePairs(this.config.source, snapshot)
+        ? this.scanPairs(snapshot.birdeye.pairs)
+        : null;
+
+    const geckoNetworks = fromBirdeye
+      ? geckoNetworksAfterBirdeye(this.config.networks)
+      : this.config.networks;
+    if (fromBirdeye && geckoNetworks.length === 0) return fromBirdeye;
+
+    const fromGecko = this.scanGeckoPools(
+      snapshot.gecko.pools.filter((p) => geckoNetworks.includes(this.poolNetwork(p))),
+      snapshot.gecko.tokens,
+      snapshot.gecko.errors
+    );
+    if (!fromBirdeye) return fromGecko;
 
+    return {
+      signals: [...fromBirdeye.signals, ...fromGecko.signals]
+        .sort((a, b) => b.momentumScore - a.momentumScore),
+      poolsScanned: fromBirdeye.poolsScanned + fromGecko.poolsScanned,
+      networkErrors: [...fromBirdeye.networkErrors, ...fromGecko.networkErrors],
+      filterStats: mergeFilterStats(fromBirdeye.filterStats, fromGecko.filterStats),
+    };
+  }
+
+  private scanGeckoPools(
+    pools: GeckoTerminalPool[],
+    tokens: Map<string, GeckoTerminalToken>,
+    errors: string[]
+  ): MomentumScanResult {
     const seen = new Set<string>();
     const signals: MomentumSignal[] = [];
     const filterStats: Record<string, number> = {};
@@ -136,45 +219,53 @@ export class MomentumDetector {
     return { signals, poolsScanned: pools.length, networkErrors: errors, filterStats };
   }
 
-  private async scanFromBirdeye(): Promise<MomentumScanResult> {
+  private async fetchBirdeye(): Promise<{ pairs: DexPair[]; error: string | null }> {
     if (!this.birdeye) {
-      return {
-        signals: [],
-        poolsScanned: 0,
-        networkErrors: ["Birdeye no configurado (falta BIRDEYE_API_KEY)"],
-      };
+      return { pairs: [], error: "Birdeye no configurado (falta BIRDEYE_API_KEY)" };
     }
 
     try {
-      const pairs = await this.birdeye.getTrendingPairs(60);
-      const seen = new Set<string>();
-      const signals: MomentumSignal[] = [];
-      const filterStats: Record<string, number> = {};
-
-      for (const pair of pairs) {
-        const key = `${pair.chainId}:${pair.baseToken.address}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-
-        const rejectReason = this.getRejectReason(pair);
-        if (rejectReason) {
-          filterStats[rejectReason] = (filterStats[rejectReason] ?? 0) + 1;
-          continue;
-        }
-
-        const signal = this.analyzePair(pair);
-        if (signal) signals.push(signal);
+      return { pairs: await this.birdeye.getTrendingPairs(60), error: null };
+    } catch (err) {
+      return { pairs: [], error: `Birdeye trending: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+
+  private poolNetwork(pool: GeckoTerminalPool): string {
+    return this.gecko.resolveNetwork(this.gecko.getPoolNetworkId(pool));
+  }
+
+  /**
+   * Filtra y puntúa una lista de pares ya obtenida (sin red).
+   * Usado por el discovery de Birdeye y por el backtester sobre snapshots.
+   */
+  scanPairs(pairs: DexPair[]): MomentumScanResult {
+    const seen = new Set<string>();
+    const signals: MomentumSignal[] = [];
+    const filterStats: Record<string, number> = {};
+
+    for (const pair of pairs) {
+      const key = `${pair.chainId}:${pair.baseToken.address}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const rejectReason = this.getRejectReason(pair);
+      if (rejectReason) {
+        filterStats[rejectReason] = (filterStats[rejectReason] ?? 0) + 1;
+        continue;
       }
 
-      signals.sort((a, b) => b.momentumScore - a.momentumScore);
-      return { signals, poolsScanned: pairs.length, networkErrors: [], filterStats };
-    } catch (err) {
-      return {
-        signals: [],
-        poolsScanned: 0,
-        networkErrors: [`Birdeye trending: ${err instanceof Error ? err.message : String(err)}`],
-      };
+      const signal = this.analyzePair(pair);
+      if (signal) signals.push(signal);
     }
+
+    signals.sort((a, b) => b.momentumScore - a.momentumScore);
+    return { signals, poolsScanned: pairs.length, networkErrors: [], filterStats };
+  }
+
+  /** Sustituye el reloj del sistema (edad del par en replays). */
+  setClock(clock: Clock): void {
+    this.clock = clock;
   }
 
   /**
@@ -280,20 +371,21 @@ export class MomentumDetector {
     const liquidityUsd = pair.liquidity?.usd ?? 0;
     const volume24h = pair.volume?.h24 ?? 0;
     const price = parseFloat(pair.priceUsd) || 0;
+    const network = pair.chainId?.toLowerCase() ?? "";
+    const t = this.thresholdsFor(network);
 
-    if (liquidityUsd < this.config.minLiquidityUsd) return null;
+    if (liquidityUsd < t.minLiquidityUsd) return null;
     if (liquidityUsd > this.config.maxLiquidityUsd) return null;
     if (volume24h < this.config.minVolume24h) return null;
     if (price <= 0) return null;
 
-    const network = pair.chainId?.toLowerCase() ?? "";
     if (this.config.networks.length > 0 && !this.config.networks.includes(network)) {
       return null;
     }
 
-    const pairAgeMs = pair.pairCreatedAt ? Date.now() - pair.pairCreatedAt : 0;
+    const pairAgeMs = pair.pairCreatedAt ? this.clock() - pair.pairCreatedAt : 0;
     const pairAgeDays = pairAgeMs / (24 * 60 * 60 * 1000);
-    if (pairAgeDays < this.config.minPairAgeDays) return null;
+    if (pairAgeDays < t.minPairAgeDays) return null;
 
     const priceChange24h = pair.priceChange?.h24 ?? 0;
     if (Math.abs(priceChange24h) > this.config.maxPriceChange24h) return null;
@@ -314,7 +406,7 @@ export class MomentumDetector {
     const volumeChange = this.calcVolumeAcceleration(pair);
     const momentumScore = this.calcMomentumScore(pair, buyPressure, volumeChange, pairAgeDays);
 
-    if (momentumScore < this.config.minMomentumScore) return null;
+    if (momentumScore < t.minMomentumScore) return null;
 
     const tier: MomentumSignal["tier"] =
       momentumScore >= 80 ? "strong" :
@@ -407,23 +499,29 @@ export class MomentumDetector {
     return this.config;
   }
 
+  /** Umbrales efectivos para una red (global + networkOverrides). */
+  thresholdsFor(network: string): MomentumConfig {
+    return thresholdsForNetwork<MomentumConfig>(this.config, this.config.networkOverrides, network);
+  }
+
   private getRejectReason(pair: DexPair): string | null {
     const liquidityUsd = pair.liquidity?.usd ?? 0;
     const volume24h = pair.volume?.h24 ?? 0;
     const price = parseFloat(pair.priceUsd) || 0;
-    if (liquidityUsd < this.config.minLiquidityUsd) return "low_liquidity";
+    const network = pair.chainId?.toLowerCase() ?? "";
+    const t = this.thresholdsFor(network);
+    if (liquidityUsd < t.minLiquidityUsd) return "low_liquidity";
     if (liquidityUsd > this.config.maxLiquidityUsd) return "high_liquidity";
     if (volume24h < this.config.minVolume24h) return "low_volume";
     if (price <= 0) return "invalid_price";
 
-    const network = pair.chainId?.toLowerCase() ?? "";
     if (this.config.networks.length > 0 && !this.config.networks.includes(network)) {
       return "network_filtered";
     }
 
-    const pairAgeMs = pair.pairCreatedAt ? Date.now() - pair.pairCreatedAt : 0;
+    const pairAgeMs = pair.pairCreatedAt ? this.clock() - pair.pairCreatedAt : 0;
     const pairAgeDays = pairAgeMs / (24 * 60 * 60 * 1000);
-    if (pairAgeDays < this.config.minPairAgeDays) return "too_new_pair";
+    if (pairAgeDays < t.minPairAgeDays) return "too_new_pair";
 
     const priceChange24h = pair.priceChange?.h24 ?? 0;
     if (Math.abs(priceChange24h) > this.config.maxPriceChange24h) return "price_too_volatile";
@@ -442,7 +540,7 @@ export class MomentumDetector {
 
     const volumeChange = this.calcVolumeAcceleration(pair);
     const momentumScore = this.calcMomentumScore(pair, buyPressure, volumeChange, pairAgeDays);
-    if (momentumScore < this.config.minMomentumScore) return "low_momentum_score";
+    if (momentumScore < t.minMomentumScore) return "low_momentum_score";
     return null;
   }
 }
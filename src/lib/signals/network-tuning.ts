@@ -0,0 +1,109 @@
+/**
+ * Ajuste de umbrales por red para los detectores de discovery.
+ *
+ * Cada red tiene costes y perfiles de riesgo distintos: en Ethereum el gas
+ * hace inviables los pools pequeños, en BSC abundan los rugs de pocas horas.
+ * Los detectores aplican primero la config global y encima el override de
+ * la red del par.
+ */
+
+import type { DexPair } from "../market/dexscreener";
+import type { GeckoTerminalPool, GeckoTerminalToken } from "../market/geckoterminal";
+import { getProviderRouter } from "../market/provider-router";
+
+/** Redes con discovery (GeckoTerminal) y gas modelado en el PaperBroker. */
+export const DISCOVERY_NETWORKS = [
+  "solana",
+  "ethereum",
+  "base",
+  "arbitrum",
+  "bsc",
+  "polygon",
+  "optimism",
+] as const;
+
+/** Birdeye solo cubre Solana; el resto de redes se escanea vía GeckoTerminal. */
+export const BIRDEYE_NETWORK = "solana";
+
+/** Overrides parciales por red sobre un subconjunto de campos de la config. */
+export type NetworkOverrides<T> = Record<string, Partial<T>>;
+
+/** Config efectiva para una red: global + override de la red si existe. */
+export function thresholdsForNetwork<T extends object>(
+  config: T,
+  overrides: NetworkOverrides<T> | undefined,
+  network: string
+): T {
+  const override = overrides?.[network];
+  return override ? { ...config, ...override } : config;
+}
+
+/**
+ * Redes que deben pedirse a GeckoTerminal cuando Birdeye ya cubre Solana.
+ * Con `networks` vacío (sin filtro) Birdeye basta, igual que antes.
+ */
+export function geckoNetworksAfterBirdeye(networks: string[]): string[] {
+  return networks.filter((n) => n !== BIRDEYE_NETWORK);
+}
+
+export function wantsBirdeyeNetwork(networks: string[]): boolean {
+  return networks.length === 0 || networks.includes(BIRDEYE_NETWORK);
+}
+
+/**
+ * Discovery de Solana vía Birdeye: si es la fuente configurada o, como
+ * failover, si GeckoTerminal está en circuit-break y hay API key.
+ */
+export function prefersBirdeye(source: "birdeye" | "gecko", birdeyeConfigured: boolean): boolean {
+  return source === "birdeye" || (birdeyeConfigured && !getProviderRouter().isAvailable("gecko"));
+}
+
+/**
+ * Un snapshot aporta los pares de Birdeye a un detector si es su fuente o
+ * si GeckoTerminal no pidió Solana (failover del discovery).
+ */
+export function usesBirdeyePairs(source: "birdeye" | "gecko", snapshot: DiscoverySnapshot): boolean {
+  if (!snapshot.birdeye || snapshot.birdeye.error) return false;
+  return source === "birdeye" || !snapshot.gecko.networks.includes(BIRDEYE_NETWORK);
+}
+
+/** Suma contadores de filtros de dos escaneos (Birdeye + Gecko). */
+export function mergeFilterStats(
+  a: Record<string, number> | undefined,
+  b: Record<string, number> | undefined
+): Record<string, number> {
+  const out: Record<string, number> = { ...a };
+  for (const [k, v] of Object.entries(b ?? {})) out[k] = (out[k] ?? 0) + v;
+  return out;
+}
+
+/**
+ * Datos crudos de discovery (antes de filtrar). Un detector puede filtrar
+ * un snapshot pedido por otro: así el scheduler hace un solo escaneo de
+ * mercado por tick y cada usuario aplica sus propios umbrales.
+ */
+export interface DiscoverySnapshot {
+  /** Pares de Birdeye (Solana); null si no se pidió. */
+  birdeye: { pairs: DexPair[]; error: string | null } | null;
+  gecko: {
+    networks: string[];
+    pools: GeckoTerminalPool[];
+    tokens: Map<string, GeckoTerminalToken>;
+    errors: string[];
+  };
+}
+
+/** Discovery de un tick del scheduler, compartido por todos los usuarios. */
+export interface SharedDiscovery {
+  momentum: DiscoverySnapshot;
+  early: DiscoverySnapshot;
+  scannedAt: string;
+}
+
+export interface DiscoverOptions {
+  /**
+   * Pide a GeckoTerminal todas las redes aunque Birdeye cubra Solana
+   * (snapshot compartido entre usuarios con fuentes distintas).
+   */
+  geckoForAllNetworks?: boolean;
+}
@@ -1,34 +1,66 @@
+import { randomUUID } from "crypto";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { MomentumDetector } from "./momentum-detector";
 import { EarlyDetector } from "./early-detector";
-import { ConfluenceEngine } from "./confluence-engine";
-import type { ConfluenceResult } from "./confluence-engine";
-import { PositionManager } from "./position-manager";
-import type { ExitSignal } from "./position-manager";
+import { DistributionDetector } from "./distribution-detector";
+import { ConfluenceEngine, componentColumns } from "./confluence-engine";
+import type { ConfluenceResult, ScoringMode } from "./confluence-engine";
+import { PositionManager, RECONCILED_EXIT_REASON } from "./position-manager";
+import type { ExitSignal, ObservationLookup } from "./position-manager";
+import { PositionReconciler } from "./position-reconciler";
+import type { ReconciliationReport } from "./position-reconciler";
 import { TokenHealthChecker } from "../market/token-health";
 import { RegimeDetector } from "../market/regime-detector";
 import { DexScreenerQuoteFetcher } from "../market/quote-fetcher";
+import { currentCacheStats, withCacheStats } from "../market/cache";
+import type { CacheStats } from "../market/cache";
+import { PriceReconciler } from "../market/price-reconciler";
+import type { PriceReconciliation } from "../market/price-reconciler";
 import { AdaptiveRiskGate } from "../engine/adaptive-risk-gate";
 import { PaperBroker } from "../engine/paper-broker";
+import { createBroker, createCexBroker, createReconcilerVenues } from "../engine/broker-factory";
+import type { CexSpotBroker } from "../engine/cex-broker";
+import { LiveVenueRouter } from "../engine/venue-router";
+import type { ShadowComparison } from "../engine/shadow-broker";
 import { RollingPerformanceEngine } from "../engine/rolling-performance";
 import type { RollingMetrics } from "../engine/rolling-performance";
-import type { RiskState, TradeRecord } from "../engine/types";
+import type { Broker, BrokerResult, ExecutionMode, ExposurePosition, RiskState, TradeRecord } from "../engine/types";
 import { ArkhamClient } from "../arkham/client";
+import { ArkhamSwapFeed, WalletTracker } from "../arkham/wallet-tracker";
 import { SignalOutcomeTracker } from "./signal-outcome-tracker";
 import { IncrementalCalibrator } from "./incremental-calibrator";
-import type { DetectorInteraction } from "./incremental-calibrator";
+import { ConfluenceModelManager } from "./learned-scoring";
+import type { LearnedScoringSummary } from "./learned-scoring";
+import type { CalibrationState, DetectorInteraction } from "./incremental-calibrator";
 import { SmartMoneySimulator } from "./smart-money-simulator";
+import { calculateAdaptivePositionSize } from "./position-sizing";
 import { ForwardPredictor } from "../engine/forward-predictor";
 import type { ForwardPrediction } from "../engine/forward-predictor";
 import type { StressEvent } from "../engine/stress-events";
+import { StrategyConfigStore, resolveStrategyConfig } from "./strategy-config";
+import type { ResolvedStrategyConfig } from "./strategy-config";
+import { CycleLock, CycleLockedError } from "./cycle-lock";
+import type { SharedDiscovery } from "./network-tuning";
+import { Notifier } from "../notifications/notifier";
+import type { NotificationEvent, NotificationEventType } from "../notifications/types";
+
+/** Una reserva de entrada más vieja que esto es de un ciclo que murió (el lease dura 10 min). */
+const TRADE_RESERVATION_TTL_MS = 15 * 60_000;
 
 export interface CycleResult {
+  /** Id del ciclo; también en trades, signal_outcomes y cycle_runs. */
+  cycleId: string;
   timestamp: Date;
   regime: string;
+  executionMode?: ExecutionMode;
+  /** Versión de strategy_configs aplicada (undefined = defaults). */
+  strategyConfigVersion?: number;
   poolsScanned: number;
   tokensScanned: number;
   earlyPoolsScanned: number;
   earlyCandidates: number;
+  /** Tokens en distribución evaluados para short (solo con shorts activos). */
+  distributionCandidates?: number;
   signalsGenerated: number;
   tradesOpened: number;
   tradesClosed: number;
@@ -44,13 +76,40 @@ export interface CycleResult {
     exposureMomentumPct?: number;
     exposureEarlyPct?: number;
     detectorBias?: string;
+    /** Resultado del walk-forward si el recalibrado propuso cambios. */
+    walkForward?: {
+      accepted: boolean;
+      reason: string;
+      baselinePF: number;
+      candidatePF: number;
+    };
   };
   forwardPrediction7d?: ForwardPrediction;
   forwardPrediction30d?: ForwardPrediction;
   stressEvents: StressEvent[];
+  /** Hits/misses de la caché de market data durante este ciclo. */
+  marketDataCache?: CacheStats;
+  /** Entradas cuyo precio discrepa entre DexScreener, GeckoTerminal y Birdeye. */
+  priceAnomalies?: PriceReconciliation[];
+  /** Modelo aprendido de confluencia: versiones activa/shadow y cambios del ciclo. */
+  learnedScoring?: LearnedScoringSummary & { mode: ScoringMode };
+  /** Movimientos de smart money del ciclo: reales (WalletTracker) y simulados. */
+  smartMoney?: {
+    realMovements: number;
+    simulatedMovements: number;
+    countSimulated: boolean;
+  };
 }
 
-interface EntryResult {
+export interface RunCycleOptions {
+  /**
+   * Discovery ya hecho por el scheduler para este tick. Sin él, el ciclo
+   * pide trending y pools nuevos a las APIs (POST /api/cycle).
+   */
+  discovery?: SharedDiscovery;
+}
+
+export interface EntryResult {
   symbol: string;
   layer: string;
   confidence: number;
@@ -59,43 +118,55 @@ interface EntryResult {
   reason: string;
 }
 
-interface PositionSizingDecision {
-  amountUsd: number;
-  confidenceFactor: number;
-  liquidityFactor: number;
-  liquidityCapUsd: number;
-  maxByRiskGateUsd: number;
-}
-
 /**
  * Orchestrator — pipeline completo end-to-end.
  *
- * Un ciclo:
- *  0. Cargar rolling metrics + calibrar umbrales (auto-tune)
+ * Un ciclo (con el lease de `cycle_locks` del usuario; si otro ciclo lo
+ * tiene, runCycle lanza CycleLockedError sin tocar nada):
+ *  0. Cargar la strategy config activa del usuario, rolling metrics y
+ *     calibrar umbrales (auto-tune)
  *  1. Detectar régimen de mercado
- *  2. Simular smart money para tokens trending
- *  3. Escanear tokens con momentum + early
+ *  2. Ingerir smart money real (WalletTracker, si hay Arkham) y simular
+ *     para tokens trending solo si el usuario cuenta la confluencia simulada
+ *  3. Escanear tokens con momentum + early (+ distribución → short si el
+ *     usuario lo activa y el broker lo soporta)
  *  4. Evaluar salud de cada token candidato
  *  5. Pasar por ConfluenceEngine (momentum + wallets + health + régimen)
  *  6. AdaptiveRiskGate evalúa si se puede operar (con sizing dinámico)
- *  7. PaperBroker ejecuta con SlippageModel + MicroVolatility + CompetitionSim
+ *  7. Broker del modo del usuario: PaperBroker (SlippageModel + MicroVolatility
+ *     + CompetitionSim) o OnChainSwapBroker en live
  *  8. PositionManager revisa posiciones abiertas y cierra las que toque
+ *     (la distribución de smart money acelera las salidas)
  *  9. Actualizar outcomes + recalibrar
+ * 10. Notificar los eventos del ciclo (trades, pausas de riesgo, stress,
+ *     cambios de calibración y errores) a los canales del usuario
  */
 export class Orchestrator {
   private momentum: MomentumDetector;
   private early: EarlyDetector;
+  private distribution: DistributionDetector;
   private confluence: ConfluenceEngine;
   private positions: PositionManager;
   private tokenHealth: TokenHealthChecker;
   private regime: RegimeDetector;
   private riskGate: AdaptiveRiskGate;
-  private broker: PaperBroker;
+  private broker: Broker;
+  private quoteFetcher: DexScreenerQuoteFetcher;
   private outcomeTracker: SignalOutcomeTracker;
   private rollingEngine: RollingPerformanceEngine;
   private calibrator: IncrementalCalibrator;
+  private modelManager: ConfluenceModelManager;
   private smartMoney: SmartMoneySimulator;
+  private walletTracker: WalletTracker | null;
+  private strategyStore: StrategyConfigStore;
+  private strategy: ResolvedStrategyConfig = resolveStrategyConfig(null);
   private _pendingStressEvents: StressEvent[] = [];
+  private _pendingPriceAnomalies: PriceReconciliation[] = [];
+  private priceReconciler: PriceReconciler;
+  private notifier: Notifier;
+  private cycleLock: CycleLock;
+  private cycleId: string | null = null;
+  private _pendingNotifications: NotificationEvent[] = [];
 
   constructor(
     private supabase: SupabaseClient,
@@ -110,37 +181,111 @@ export class Orchestrator {
 
     this.momentum = new MomentumDetector();
     this.early = new EarlyDetector();
+    this.distribution = new DistributionDetector(supabase, userId);
     this.confluence = new ConfluenceEngine(supabase, userId);
     this.positions = new PositionManager(supabase);
     this.tokenHealth = new TokenHealthChecker(supabase, arkham);
     this.regime = new RegimeDetector(supabase);
     this.riskGate = new AdaptiveRiskGate();
-    this.broker = new PaperBroker(
-      this.riskGate,
-      new DexScreenerQuoteFetcher()
-    );
+    this.quoteFetcher = new DexScreenerQuoteFetcher();
+    this.broker = new PaperBroker(this.riskGate, this.quoteFetcher);
+    this.positions.setBroker(this.broker);
     this.outcomeTracker = new SignalOutcomeTracker(supabase);
     this.rollingEngine = new RollingPerformanceEngine(supabase);
     this.calibrator = new IncrementalCalibrator(supabase);
+    this.modelManager = new ConfluenceModelManager(supabase);
     this.smartMoney = new SmartMoneySimulator();
+    this.walletTracker = arkham ? new WalletTracker(new ArkhamSwapFeed(arkham), supabase) : null;
+    this.priceReconciler = new PriceReconciler();
+    this.strategyStore = new StrategyConfigStore(supabase);
+    this.notifier = new Notifier(supabase, userId);
+    this.cycleLock = new CycleLock(supabase);
   }
 
-  async runCycle(): Promise<CycleResult> {
-    const result: CycleResult = {
-      timestamp: new Date(),
-      regime: "unknown",
-      poolsScanned: 0,
-      tokensScanned: 0,
-      earlyPoolsScanned: 0,
-      earlyCandidates: 0,
-      signalsGenerated: 0,
-      tradesOpened: 0,
-      tradesClosed: 0,
-      entries: [],
-      exits: [],
-      errors: [],
-      stressEvents: [],
-    };
+  async runCycle(opts: RunCycleOptions = {}): Promise<CycleResult> {
+    return this.withLease((cycleId) =>
+      withCacheStats(() => this.executeCycle(cycleId, opts))
+    );
+  }
+
+  /**
+   * Solo la gestión de posiciones abiertas, con las mismas reglas, brokers,
+   * contabilidad de riesgo y notificaciones que un ciclo. Lo usa el
+   * PositionWatcher cuando un tick dispara una salida; `observations`
+   * sustituye a DexScreener para los tokens que trae. No deja cycle_run.
+   */
+  async managePositions(observations?: ObservationLookup): Promise<CycleResult> {
+    return this.withLease(async (cycleId) => {
+      const result = emptyCycleResult(cycleId);
+      await this.loadStrategyConfig(result);
+      await this.configureBroker(result);
+
+      const riskState = await this.getRiskState();
+      await this.checkOpenPositions(riskState, result, observations);
+
+      await this.flushNotifications(result);
+      return result;
+    });
+  }
+
+  /**
+   * Cuadra las posiciones live con los saldos reales de wallet y exchanges
+   * (PositionReconciler). Con `autoApply` cierra o reduce las que no
+   * cuadran; esas correcciones pasan por la contabilidad de riesgo y las
+   * notificaciones como cualquier salida. Usa el lease del usuario para
+   * no cruzarse con un ciclo que esté cerrando las mismas posiciones.
+   */
+  async reconcilePositions(autoApply = false): Promise<ReconciliationReport> {
+    return this.withLease(async (cycleId) => {
+      const result = emptyCycleResult(cycleId);
+      await this.loadStrategyConfig(result);
+
+      const reconciler = new PositionReconciler(
+        this.supabase,
+        this.positions,
+        createReconcilerVenues(this.supabase, this.userId)
+      );
+      const report = await reconciler.run(this.userId, { autoApply });
+
+      if (report.exits.length > 0) {
+        const riskState = await this.getRiskState();
+        try {
+          await this.settleExits(riskState, report.exits);
+        } catch (err) {
+          report.errors.push(`Risk state: ${errMsg(err)}`);
+        }
+      }
+
+      await this.flushNotifications(result);
+      return report;
+    });
+  }
+
+  /** Ejecuta `fn` con el lease del usuario; CycleLockedError si otro lo tiene. */
+  private async withLease<T>(fn: (cycleId: string) => Promise<T>): Promise<T> {
+    const cycleId = randomUUID();
+    if (!(await this.cycleLock.acquire(this.userId, cycleId))) {
+      throw new CycleLockedError(this.userId);
+    }
+
+    this.cycleId = cycleId;
+    try {
+      return await fn(cycleId);
+    } finally {
+      this.cycleId = null;
+      try {
+        await this.cycleLock.release(this.userId, cycleId);
+      } catch {
+        // no bloquear: el lease expira solo
+      }
+    }
+  }
+
+  private async executeCycle(cycleId: string, opts: RunCycleOptions): Promise<CycleResult> {
+    const result = emptyCycleResult(cycleId);
+
+    await this.loadStrategyConfig(result);
+    await this.configureBroker(result);
 
     // --- 0. Rolling metrics + adaptive risk + calibration ---
     try {
@@ -152,6 +297,7 @@ export class Orchestrator {
     }
 
     try {
+      const previousCal = await this.calibrator.getCurrentState(this.userId);
       const cal = await this.calibrator.recalibrate(this.userId);
       if (cal) {
         result.calibration = {
@@ -162,9 +308,28 @@ export class Orchestrator {
           exposureMomentumPct: cal.exposureMomentumPct,
           exposureEarlyPct: cal.exposureEarlyPct,
           detectorBias: cal.detectorInteraction.recommendedBias,
+          walkForward: cal.walkForward
+            ? {
+                accepted: cal.walkForward.accepted,
+                reason: cal.walkForward.reason,
+                baselinePF: cal.walkForward.baseline.profitFactor,
+                candidatePF: cal.walkForward.candidate.profitFactor,
+              }
+            : undefined,
         };
 
+        const changes = calibrationChanges(previousCal, cal);
+        if (changes.length > 0) {
+          this.notify(
+            "calibration_change",
+            "Calibración actualizada",
+            changes.join(" · "),
+            { ...result.calibration }
+          );
+        }
+
         this.confluence = new ConfluenceEngine(this.supabase, this.userId, {
+          ...this.strategy.confluence,
           minMomentumScore: cal.momentumScoreThreshold,
           minEarlyScore: cal.earlyScoreThreshold,
           coreMinConfidence: cal.coreMinConfidence,
@@ -175,6 +340,24 @@ export class Orchestrator {
       result.errors.push(`Calibración: ${errMsg(err)}`);
     }
 
+    // --- 0a. Learned scoring: shadow, promoción y reentreno ---
+    try {
+      const summary = await this.modelManager.maintain(this.userId);
+      this.confluence.setLearnedModels(await this.modelManager.getModels(this.userId));
+      result.learnedScoring = { ...summary, mode: this.strategy.confluence.scoringMode };
+
+      if (summary.promoted !== null) {
+        this.notify(
+          "calibration_change",
+          "Modelo de scoring promocionado",
+          summary.notes.join(" · "),
+          { promoted: summary.promoted, retired: summary.retired, mode: this.strategy.confluence.scoringMode }
+        );
+      }
+    } catch (err) {
+      result.errors.push(`Learned scoring: ${errMsg(err)}`);
+    }
+
     // --- 0b. Forward prediction (Monte Carlo) ---
     if (result.rollingMetrics) {
       try {
@@ -199,13 +382,30 @@ export class Orchestrator {
       result.errors.push(`Régimen: ${errMsg(err)}`);
     }
 
+    // --- 1b. Smart money real (los simulados se inyectan por token) ---
+    result.smartMoney = {
+      realMovements: 0,
+      simulatedMovements: 0,
+      countSimulated: this.strategy.confluence.countSimulatedWallets,
+    };
+    if (this.walletTracker) {
+      try {
+        const movements = await this.walletTracker.scanUser(this.userId);
+        result.smartMoney.realMovements = movements.length;
+      } catch (err) {
+        result.errors.push(`Wallet tracker: ${errMsg(err)}`);
+      }
+    }
+
     const riskState = await this.getRiskState();
     const processedTokens = new Set<string>();
 
     // --- 2. Pipeline TRENDING (MomentumDetector → Core/Satellite) ---
     let momentumSignals: Awaited<ReturnType<MomentumDetector["scan"]>>["signals"] = [];
     try {
-      const scanResult = await this.momentum.scan();
+      const scanResult = opts.discovery
+        ? this.momentum.scanSnapshot(opts.discovery.momentum)
+        : await this.momentum.scan();
       momentumSignals = scanResult.signals;
       result.poolsScanned = scanResult.poolsScanned;
       result.tokensScanned = scanResult.signals.length;
@@ -229,7 +429,9 @@ export class Orchestrator {
         const key = `${signal.network}:${signal.tokenAddress}`;
         processedTokens.add(key);
 
-        await this.injectSmartMoney(signal.tokenAddress, signal.tokenSymbol, signal.network, signal.momentumScore, false);
+        result.smartMoney.simulatedMovements += await this.injectSmartMoney(
+          signal.tokenAddress, signal.tokenSymbol, signal.network, signal.momentumScore, false
+        );
 
         let health = null;
         try {
@@ -250,7 +452,7 @@ export class Orchestrator {
         try {
           await this.outcomeTracker.recordSignal(
             this.userId, conf, entry.executed,
-            entry.executed ? null : entry.reason, result.regime
+            entry.executed ? null : entry.reason, result.regime, cycleId
           );
         } catch { /* no bloquear */ }
 
@@ -266,7 +468,9 @@ export class Orchestrator {
     // --- 3. Pipeline EARLY (EarlyDetector → Satellite preferente) ---
     let earlySignals: Awaited<ReturnType<EarlyDetector["scan"]>>["signals"] = [];
     try {
-      const earlyScan = await this.early.scan();
+      const earlyScan = opts.discovery
+        ? this.early.scanSnapshot(opts.discovery.early)
+        : await this.early.scan();
       earlySignals = earlyScan.signals;
       result.earlyPoolsScanned = earlyScan.poolsScanned;
       result.earlyCandidates = earlyScan.signals.length;
@@ -291,7 +495,9 @@ export class Orchestrator {
         if (processedTokens.has(key)) continue;
         processedTokens.add(key);
 
-        await this.injectSmartMoney(signal.tokenAddress, signal.tokenSymbol, signal.network, signal.earlyScore, true);
+        result.smartMoney.simulatedMovements += await this.injectSmartMoney(
+          signal.tokenAddress, signal.tokenSymbol, signal.network, signal.earlyScore, true
+        );
 
         let health = null;
         try {
@@ -312,7 +518,7 @@ export class Orchestrator {
         try {
           await this.outcomeTracker.recordSignal(
             this.userId, conf, entry.executed,
-            entry.executed ? null : entry.reason, result.regime
+            entry.executed ? null : entry.reason, result.regime, cycleId
           );
         } catch { /* no bloquear */ }
 
@@ -325,8 +531,68 @@ export class Orchestrator {
       }
     }
 
+    // --- 3b. Pipeline DISTRIBUTION (ventas agrupadas de smart money → short) ---
+    if (this.strategy.confluence.enableShorts && this.broker.supportsShort) {
+      try {
+        const heldTokens = await this.getOpenTokenKeys();
+        const distScan = await this.distribution.scan();
+        result.distributionCandidates = distScan.signals.length;
+
+        for (const signal of distScan.signals) {
+          const key = `${signal.network}:${signal.tokenAddress}`;
+          if (processedTokens.has(key) || heldTokens.has(key.toLowerCase())) continue;
+          processedTokens.add(key);
+
+          try {
+            let health = null;
+            try {
+              health = await this.tokenHealth.checkToken(
+                signal.tokenAddress, signal.network, this.userId
+              );
+            } catch { /* sigue sin health */ }
+
+            const conf = await this.confluence.evaluateShort(
+              signal, health, regimeSnapshot ?? null
+            );
+            if (!conf) continue;
+
+            result.signalsGenerated++;
+            const entry = await this.executeEntry(conf, riskState);
+            result.entries.push(entry);
+
+            try {
+              await this.outcomeTracker.recordSignal(
+                this.userId, conf, entry.executed,
+                entry.executed ? null : entry.reason, result.regime, cycleId
+              );
+            } catch { /* no bloquear */ }
+
+            if (entry.executed) {
+              result.tradesOpened++;
+              await this.registerOpenedTrade(riskState, conf.layer);
+            }
+          } catch (err) {
+            result.errors.push(`Short ${signal.tokenSymbol}: ${errMsg(err)}`);
+          }
+        }
+      } catch (err) {
+        result.errors.push(`Distribution scan: ${errMsg(err)}`);
+      }
+    }
+
     result.stressEvents = [...this._pendingStressEvents];
     this._pendingStressEvents = [];
+    if (this._pendingPriceAnomalies.length > 0) {
+      result.priceAnomalies = [...this._pendingPriceAnomalies];
+      this._pendingPriceAnomalies = [];
+    }
+    for (const ev of result.stressEvents) {
+      this.notify("stress_event", `Stress event: ${ev.type}`, ev.description, {
+        severity: ev.severity,
+        liquidityImpactPct: ev.liquidityImpactPct,
+        priceImpactPct: ev.priceImpactPct,
+      });
+    }
 
     // --- 4. Actualizar outcomes de señales pasadas ---
     try {
@@ -336,45 +602,234 @@ export class Orchestrator {
     }
 
     // --- 5. Gestionar posiciones abiertas ---
+    await this.checkOpenPositions(riskState, result);
+
+    result.marketDataCache = currentCacheStats();
+
+    await this.persistCycleRun(result);
+    await this.flushNotifications(result);
+    return result;
+  }
+
+  private async checkOpenPositions(
+    riskState: RiskState,
+    result: CycleResult,
+    observations?: ObservationLookup
+  ): Promise<void> {
     try {
-      const exits = await this.positions.checkPositions(this.userId);
+      this.positions.setFlowSource(this.confluence);
+      const exits = await this.positions.checkPositions(this.userId, observations);
       result.exits = exits;
-      result.tradesClosed = exits.length;
-
-      for (const exit of exits) {
-        await this.updateRiskAfterClose(riskState, exit);
+      result.tradesClosed = exits.filter((e) => e.kind === "full").length;
+
+      for (const { symbol, event } of this.positions.takeStressEvents()) {
+        result.stressEvents.push(event);
+        this.notify("stress_event", `Stress event en ${symbol}: ${event.type}`, event.description, {
+          symbol,
+          severity: event.severity,
+          liquidityImpactPct: event.liquidityImpactPct,
+          priceImpactPct: event.priceImpactPct,
+        });
       }
+
+      await this.settleExits(riskState, exits);
     } catch (err) {
       result.errors.push(`Position check: ${errMsg(err)}`);
     }
+  }
 
-    await this.persistCycleRun(result);
-    return result;
+  /**
+   * Contabilidad común de las salidas, vengan del broker o de la
+   * reconciliación: contadores de riesgo y aviso de cierre.
+   */
+  private async settleExits(riskState: RiskState, exits: ExitSignal[]): Promise<void> {
+    for (const exit of exits) {
+      await this.updateRiskAfterClose(riskState, exit);
+      if (exit.kind !== "full") continue;
+
+      const pnl = `$${exit.tradeNetPnlAbs.toFixed(2)} neto (${(exit.pnlPct * 100).toFixed(2)}% bruto)`;
+      const reconciled = exit.reason === RECONCILED_EXIT_REASON;
+      this.notify(
+        "trade_closed",
+        reconciled ? "Trade reconciliado" : "Trade cerrado",
+        reconciled ? `Sin saldo en el venue — PnL estimado ${pnl}` : `${exit.reason} — PnL ${pnl}`,
+        {
+          tradeId: exit.tradeId,
+          reason: exit.reason,
+          exitPrice: exit.exitPrice,
+          pnlPct: exit.pnlPct,
+          pnlAbs: exit.tradeNetPnlAbs,
+          grossPnlAbs: exit.tradePnlAbs,
+          feesAbs: exit.tradeFeesAbs,
+        }
+      );
+    }
   }
 
+  private notify(
+    type: NotificationEventType,
+    title: string,
+    message: string,
+    payload: Record<string, unknown> = {}
+  ): void {
+    this._pendingNotifications.push({
+      type,
+      userId: this.userId,
+      title,
+      message,
+      payload,
+      occurredAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Entrega los eventos acumulados en el ciclo. Los errores se agrupan en
+   * un único evento; las estadísticas de filtros de discovery no cuentan
+   * como error.
+   */
+  private async flushNotifications(result: CycleResult): Promise<void> {
+    const errors = result.errors.filter((e) => !e.includes("filter stats"));
+    if (errors.length > 0) {
+      this.notify(
+        "cycle_error",
+        `Ciclo con ${errors.length} error(es)`,
+        errors.slice(0, 5).join("\n"),
+        { errors }
+      );
+    }
+
+    const events = this._pendingNotifications;
+    this._pendingNotifications = [];
+    try {
+      await this.notifier.dispatch(events);
+    } catch {
+      // no bloquear: el ciclo no falla por las notificaciones
+    }
+  }
+
+  /**
+   * Movimientos sintéticos del SmartMoneySimulator (source = "simulated").
+   * No se generan si el usuario no cuenta la confluencia simulada.
+   */
   private async injectSmartMoney(
     tokenAddress: string,
     tokenSymbol: string,
     network: string,
     score: number,
     isEarly: boolean
-  ): Promise<void> {
+  ): Promise<number> {
+    if (!this.strategy.confluence.countSimulatedWallets) return 0;
     try {
       const movements = this.smartMoney.simulateActivity(
         tokenAddress, tokenSymbol, network, score, isEarly
       );
       if (movements.length > 0) {
-        await this.smartMoney.persistMovements(this.supabase, this.userId, movements);
+        return await this.smartMoney.persistMovements(this.supabase, this.userId, movements);
       }
     } catch {
       // Non-critical, don't block cycle
     }
+    return 0;
+  }
+
+  /**
+   * Carga la versión activa de strategy_configs y reconstruye detectores,
+   * confluencia, posiciones y risk gate con ella. Sin versión activa (o si
+   * falla la lectura) se usan los defaults.
+   */
+  private async loadStrategyConfig(result: CycleResult): Promise<void> {
+    let active = null;
+    try {
+      active = await this.strategyStore.getActive(this.userId);
+    } catch (err) {
+      result.errors.push(`Strategy config: ${errMsg(err)} — usando defaults`);
+    }
+
+    this.strategy = resolveStrategyConfig(active?.config ?? null);
+    result.strategyConfigVersion = active?.version;
+
+    this.momentum = new MomentumDetector(this.strategy.momentum);
+    this.early = new EarlyDetector(this.strategy.early);
+    this.distribution = new DistributionDetector(this.supabase, this.userId, {
+      windowHours: this.strategy.confluence.confluenceWindowHours,
+      minSellers: this.strategy.confluence.minWalletsForConfluence,
+    });
+    this.confluence = new ConfluenceEngine(this.supabase, this.userId, this.strategy.confluence);
+    this.positions = new PositionManager(this.supabase, this.strategy.positions);
+    this.riskGate = new AdaptiveRiskGate(this.strategy.risk, this.strategy.adaptiveRisk);
+    this.broker = new PaperBroker(this.riskGate, this.quoteFetcher);
+    this.positions.setBroker(this.broker);
+  }
+
+  /**
+   * Elige el broker según profiles.execution_mode. El broker live se
+   * registra en el PositionManager siempre que esté configurado, para
+   * poder cerrar posiciones live aunque el usuario haya vuelto a paper.
+   * Live combina on-chain y la conexión de exchange activa del usuario
+   * (LiveVenueRouter): core en tokens listados va al CEX.
+   */
+  private async configureBroker(result: CycleResult): Promise<void> {
+    let mode: ExecutionMode = "paper";
+    try {
+      const { data } = await this.supabase
+        .from("profiles")
+        .select("execution_mode")
+        .eq("id", this.userId)
+        .maybeSingle();
+      mode = (data?.execution_mode as ExecutionMode | undefined) ?? "paper";
+    } catch (err) {
+      result.errors.push(`Modo de ejecución: ${errMsg(err)}`);
+    }
+
+    let onChain: Broker | null = null;
+    let onChainError: string | null = null;
+    try {
+      onChain = createBroker("live", this.riskGate, this.quoteFetcher, process.env, this.userId);
+    } catch (err) {
+      onChainError = errMsg(err);
+    }
+
+    let cex: CexSpotBroker | null = null;
+    try {
+      cex = await createCexBroker(this.supabase, this.userId, this.riskGate, this.quoteFetcher);
+    } catch (err) {
+      result.errors.push(`Broker CEX: ${errMsg(err)}`);
+    }
+
+    let live: Broker | null = null;
+    if (onChain || cex) {
+      live = new LiveVenueRouter(onChain, cex);
+      this.positions.setBroker(live);
+    } else if (mode === "live") {
+      result.errors.push(`Broker live: ${onChainError ?? "sin configurar"} — entradas en paper`);
+    }
+
+    if (mode === "live" && live) {
+      this.broker = live;
+    } else if (mode === "shadow") {
+      this.broker = createBroker("shadow", this.riskGate, this.quoteFetcher);
+      this.positions.setBroker(this.broker);
+    }
+    result.executionMode = this.broker.mode;
   }
 
   private async executeEntry(
     conf: ConfluenceResult,
     riskState: RiskState
   ): Promise<EntryResult> {
+    conf.order.executionMode = this.broker.mode;
+
+    if (conf.order.side === "sell" && !this.broker.supportsShort) {
+      return {
+        symbol: conf.token,
+        layer: conf.layer,
+        confidence: conf.confidence,
+        signalSource: conf.signalSource,
+        executed: false,
+        reason: `El broker ${this.broker.mode} no soporta short`,
+      };
+    }
+
     const realModeGuardError = this.validateRealModeSafety(conf);
     if (realModeGuardError) {
       return {
@@ -387,7 +842,29 @@ export class Orchestrator {
       };
     }
 
-    const verdict = this.riskGate.evaluate(riskState, conf.layer);
+    const openPositions = await this.getOpenExposure();
+    const tokenKey = `${conf.network}:${conf.tokenAddress}`.toLowerCase();
+    if (openPositions.some((p) => `${p.network}:${p.tokenAddress}`.toLowerCase() === tokenKey)) {
+      return {
+        symbol: conf.token,
+        layer: conf.layer,
+        confidence: conf.confidence,
+        signalSource: conf.signalSource,
+        executed: false,
+        reason: "Ya hay una posición abierta en este token",
+      };
+    }
+
+    const verdict = this.riskGate.evaluate(riskState, conf.layer, {
+      candidate: {
+        tokenAddress: conf.tokenAddress,
+        network: conf.network,
+        signalSource: conf.signalSource,
+        side: conf.order.side,
+        regime: conf.sources.regime?.regime ?? null,
+      },
+      openPositions,
+    });
 
     if (!verdict.allowed) {
       return {
@@ -400,13 +877,13 @@ export class Orchestrator {
       };
     }
 
-    const sizing = this.calculateAdaptivePositionSize(conf, verdict.maxPositionUsd);
+    const sizing = calculateAdaptivePositionSize(conf, verdict.maxPositionUsd);
     conf.order.amountUsd = sizing.amountUsd;
     conf.order.metadata = {
       ...conf.order.metadata,
       positionSizing: sizing,
-      priceChange1h: conf.sources.momentum?.priceChange1h ?? conf.sources.early?.priceChange1h ?? 0,
-      entryVolume24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h ?? 0,
+      priceChange1h: conf.sources.momentum?.priceChange1h ?? conf.sources.early?.priceChange1h ?? conf.sources.distribution?.priceChange1h ?? 0,
+      entryVolume24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h ?? conf.sources.distribution?.volume24h ?? 0,
     };
 
     if (conf.order.amountUsd <= 0) {
@@ -420,24 +897,82 @@ export class Orchestrator {
       };
     }
 
-    const brokerResult = await this.broker.execute(conf.order, riskState);
+    const priceCheck = await this.reconcileEntryPrice(conf);
+    if (priceCheck?.anomaly) {
+      this._pendingPriceAnomalies.push(priceCheck);
+      conf.order.metadata = { ...conf.order.metadata, priceReconciliation: priceCheck };
+
+      if (this.broker.mode === "live") {
+        return {
+          symbol: conf.token,
+          layer: conf.layer,
+          confidence: conf.confidence,
+          signalSource: conf.signalSource,
+          executed: false,
+          reason: `Hard gate live: precio inconsistente entre proveedores (${priceCheck.outliers.join(", ")} ±${priceCheck.maxDeviationPct}%)`,
+        };
+      }
+    }
+
+    // La fila se reserva antes de ejecutar: un duplicado se descarta aquí,
+    // sin haber mandado nada al venue
+    const tradeId = await this.reserveTrade(conf);
+    if (!tradeId) {
+      return {
+        symbol: conf.token,
+        layer: conf.layer,
+        confidence: conf.confidence,
+        signalSource: conf.signalSource,
+        executed: false,
+        reason: `Posición duplicada en ${conf.token} — otra entrada ya está abierta o en curso`,
+      };
+    }
+
+    let brokerResult: BrokerResult;
+    try {
+      brokerResult = await this.broker.execute(conf.order, riskState);
+    } catch (err) {
+      await this.releaseTrade(tradeId);
+      throw err;
+    }
 
-    if (this.broker.lastStressEvent?.type !== "none" && this.broker.lastStressEvent) {
+    if (
+      this.broker instanceof PaperBroker &&
+      this.broker.lastStressEvent &&
+      this.broker.lastStressEvent.type !== "none"
+    ) {
       this._pendingStressEvents.push(this.broker.lastStressEvent);
     }
 
     if (!brokerResult.executed || !brokerResult.trade) {
+      await this.releaseTrade(tradeId);
       return {
         symbol: conf.token,
         layer: conf.layer,
         confidence: conf.confidence,
         signalSource: conf.signalSource,
         executed: false,
-        reason: brokerResult.reason ?? "PaperBroker rechazó",
+        reason: brokerResult.reason ?? "Broker rechazó",
       };
     }
 
-    await this.persistTrade(brokerResult.trade, conf);
+    await this.persistTrade(tradeId, brokerResult.trade, conf);
+
+    this.notify(
+      "trade_opened",
+      `Trade abierto: ${conf.token}`,
+      `${conf.order.side === "sell" ? "Short" : "Long"} ${conf.layer} $${conf.order.amountUsd.toFixed(2)} @ ${brokerResult.trade.entryPrice} (conf. ${conf.confidence})`,
+      {
+        symbol: conf.token,
+        tokenAddress: conf.tokenAddress,
+        network: conf.network,
+        layer: conf.layer,
+        side: conf.order.side,
+        amountUsd: conf.order.amountUsd,
+        entryPrice: brokerResult.trade.entryPrice,
+        executionMode: this.broker.mode,
+      }
+    );
 
     return {
       symbol: conf.token,
@@ -449,6 +984,19 @@ export class Orchestrator {
     };
   }
 
+  /**
+   * Contrasta el precio del token entre proveedores antes de ejecutar.
+   * Informativo en paper/shadow; en live una discrepancia bloquea la
+   * entrada. Si la comprobación falla, no bloquea.
+   */
+  private async reconcileEntryPrice(conf: ConfluenceResult): Promise<PriceReconciliation | null> {
+    try {
+      return await this.priceReconciler.reconcile(conf.network, conf.tokenAddress);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Warmup filters are intentionally more permissive for paper simulation.
    * If execution mode is not paper in the future, apply strict hard gates
@@ -458,7 +1006,7 @@ export class Orchestrator {
     if (conf.order.executionMode === "paper") return null;
 
     const liquidityUsd = Math.max(
-      conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? 0,
+      conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? conf.sources.distribution?.liquidityUsd ?? 0,
       0
     );
     if (liquidityUsd < 30_000) {
@@ -480,48 +1028,70 @@ export class Orchestrator {
     return null;
   }
 
-  private calculateAdaptivePositionSize(
-    conf: ConfluenceResult,
-    maxByRiskGateUsd: number
-  ): PositionSizingDecision {
-    const confidence = Math.max(0, Math.min(100, conf.confidence));
-    const confidenceFactor = 0.35 + (confidence / 100) * 0.65;
+  /**
+   * Reserva la fila del trade (status `opening`) antes de ejecutar la orden.
+   * uq_trades_open_token cubre también las reservas, así que dos ciclos no
+   * pueden ejecutar la misma entrada. null si el token ya está abierto o en
+   * curso; una reserva de un ciclo que murió sin completarla caduca a los
+   * TRADE_RESERVATION_TTL_MS y se marca como fallida.
+   */
+  private async reserveTrade(conf: ConfluenceResult): Promise<string | null> {
+    const insert = () =>
+      this.supabase.from("trades").insert({
+        user_id: this.userId,
+        cycle_id: this.cycleId,
+        symbol: conf.token,
+        side: conf.order.side,
+        status: "opening",
+        quantity: 0,
+        execution_mode: this.broker.mode,
+        layer: conf.layer,
+        metadata: { tokenAddress: conf.tokenAddress, network: conf.network },
+      }).select("id").single();
 
-    const liquidityUsd = Math.max(
-      conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? 0, 0
-    );
-    const targetLiquidityFloor = 250_000;
-    const rawLiquidityFactor = liquidityUsd / targetLiquidityFloor;
-    const liquidityFactor = Math.max(0.4, Math.min(rawLiquidityFactor, 1));
-
-    const maxPoolImpactPct = conf.layer === "core" ? 0.005 : 0.003;
-    const liquidityCapUsd = liquidityUsd > 0
-      ? liquidityUsd * maxPoolImpactPct
-      : maxByRiskGateUsd * 0.25;
-
-    const rawSize = maxByRiskGateUsd * confidenceFactor * liquidityFactor;
-    const sized = Math.min(rawSize, liquidityCapUsd, maxByRiskGateUsd);
-    const isPaper = conf.order.executionMode === "paper";
-    const minTicketUsd = isPaper
-      ? (conf.layer === "core" ? 10 : 5)
-      : (conf.layer === "core" ? 25 : 15);
-    const amountUsd = sized >= minTicketUsd ? sized : 0;
+    let { data, error } = await insert();
+    if (error?.code === "23505" && (await this.expireStaleReservations()) > 0) {
+      ({ data, error } = await insert());
+    }
 
-    return {
-      amountUsd: Number(amountUsd.toFixed(2)),
-      confidenceFactor: Number(confidenceFactor.toFixed(4)),
-      liquidityFactor: Number(liquidityFactor.toFixed(4)),
-      liquidityCapUsd: Number(liquidityCapUsd.toFixed(2)),
-      maxByRiskGateUsd: Number(maxByRiskGateUsd.toFixed(2)),
-    };
+    // 23505 = uq_trades_open_token: otro ciclo ya tiene abierta (o abriendo) esta posición
+    if (error?.code === "23505") return null;
+    if (error || !data) {
+      throw new Error(`Reservar trade ${conf.token}: ${error?.message ?? "sin id"}`);
+    }
+    return data.id as string;
   }
 
+  /** Marca como fallidas las reservas de este usuario que nunca se completaron. */
+  private async expireStaleReservations(): Promise<number> {
+    const { data } = await this.supabase
+      .from("trades")
+      .update({
+        status: "failed",
+        error_message: "Reserva de entrada sin completar (el ciclo no terminó)",
+        closed_at: new Date().toISOString(),
+      })
+      .eq("user_id", this.userId)
+      .eq("status", "opening")
+      .lt("opened_at", new Date(Date.now() - TRADE_RESERVATION_TTL_MS).toISOString())
+      .select("id");
+    return data?.length ?? 0;
+  }
+
+  /** Borra la reserva de una entrada que no llegó a ejecutarse: no deja trade. */
+  private async releaseTrade(tradeId: string): Promise<void> {
+    try {
+      await this.supabase.from("trades").delete().eq("id", tradeId).eq("status", "opening");
+    } catch { /* caduca sola */ }
+  }
+
+  /** Completa la fila reservada con el fill de la entrada. */
   private async persistTrade(
+    tradeId: string,
     trade: TradeRecord,
     conf: ConfluenceResult
   ): Promise<void> {
-    await this.supabase.from("trades").insert({
-      user_id: trade.userId,
+    const { data: saved, error } = await this.supabase.from("trades").update({
       signal_id: trade.signalId ?? null,
       symbol: trade.symbol,
       side: trade.side,
@@ -537,16 +1107,82 @@ export class Orchestrator {
       fees_abs: trade.feesAbs,
       token_health_score_at_entry: trade.tokenHealthScoreAtEntry,
       wallet_score_at_entry: trade.walletScoreAtEntry,
+      ...componentColumns(conf.components),
+      tx_hash: trade.txHash ?? null,
+      exchange_connection_id: trade.exchangeConnectionId ?? null,
       metadata: {
         ...trade.metadata,
         tokenAddress: conf.tokenAddress,
         network: conf.network,
         signalSource: conf.signalSource,
         confidence: conf.confidence,
-        entryVolume24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h,
-        entryLiquidity: conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd,
+        ruleConfidence: conf.scoring.ruleConfidence,
+        learnedScore: conf.scoring.learned,
+        regime: conf.sources.regime?.regime ?? null,
+        entryVolume24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h ?? conf.sources.distribution?.volume24h,
+        entryLiquidity: conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? conf.sources.distribution?.liquidityUsd,
+        initialQuantity: trade.quantity,
       },
-    });
+    }).eq("id", tradeId).select("id").single();
+
+    if (error) {
+      throw new Error(`Persistir trade ${trade.symbol}: ${error.message}`);
+    }
+
+    if (saved && trade.metadata?.shadow) {
+      await this.persistShadowFill(saved.id, trade, conf);
+    }
+
+    // Con la orden sin confirmar, el fill de entrada lo registra el PositionManager al resolverla
+    if (saved && !trade.metadata?.pendingOrder) {
+      try {
+        await this.supabase.from("trade_executions").insert({
+          trade_id: saved.id,
+          user_id: trade.userId,
+          kind: "entry",
+          side: trade.side,
+          quantity: trade.quantity,
+          price: trade.entryPrice,
+          fees_abs: trade.feesAbs,
+          reason: trade.entryReason,
+          tx_hash: trade.txHash ?? null,
+        });
+      } catch { /* no bloquear */ }
+    }
+  }
+
+  /** Guarda fill de paper y cotización de ruta lado a lado (shadow mode). */
+  private async persistShadowFill(
+    tradeId: string,
+    trade: TradeRecord,
+    conf: ConfluenceResult
+  ): Promise<void> {
+    const shadow = trade.metadata?.shadow as ShadowComparison;
+    try {
+      await this.supabase.from("shadow_fills").insert({
+        trade_id: tradeId,
+        user_id: trade.userId,
+        symbol: trade.symbol,
+        token_address: conf.tokenAddress,
+        network: conf.network,
+        side: trade.side,
+        amount_usd: shadow.amountUsd,
+        mid_price: shadow.midPrice,
+        paper_price: shadow.paperPrice,
+        paper_slippage_pct: shadow.paperSlippagePct,
+        model_slippage_pct: shadow.modelSlippagePct,
+        model_competition_pct: shadow.modelCompetitionPct,
+        model_price_impact_pct: shadow.modelPriceImpactPct,
+        quoted_price: shadow.quotedPrice,
+        quoted_slippage_pct: shadow.quotedSlippagePct,
+        quoted_price_impact_pct: shadow.quotedPriceImpactPct,
+        quoted_fee_pct: shadow.quotedFeePct,
+        slippage_gap_pct: shadow.slippageGapPct,
+        quote_source: shadow.quoteSource,
+        route_label: shadow.routeLabel,
+        quote_liquidity_usd: trade.metadata?.quoteLiquidity ?? null,
+      });
+    } catch { /* no bloquear */ }
   }
 
   private async getRiskState(): Promise<RiskState> {
@@ -590,6 +1226,40 @@ export class Orchestrator {
     return defaultState;
   }
 
+  /** network:token (minúsculas) de las posiciones abiertas del usuario. */
+  private async getOpenTokenKeys(): Promise<Set<string>> {
+    const { data } = await this.supabase
+      .from("trades")
+      .select("metadata")
+      .eq("user_id", this.userId)
+      .eq("status", "open");
+
+    return new Set(
+      (data ?? []).map((t) =>
+        `${t.metadata?.network ?? ""}:${t.metadata?.tokenAddress ?? ""}`.toLowerCase()
+      )
+    );
+  }
+
+  /** Posiciones abiertas para los límites de cartera del RiskGate. */
+  private async getOpenExposure(): Promise<ExposurePosition[]> {
+    const { data } = await this.supabase
+      .from("trades")
+      .select("side, quantity, entry_price, metadata")
+      .eq("user_id", this.userId)
+      .eq("status", "open");
+
+    return (data ?? []).map((t) => ({
+      tokenAddress: String(t.metadata?.tokenAddress ?? ""),
+      network: String(t.metadata?.network ?? ""),
+      signalSource: String(t.metadata?.signalSource ?? ""),
+      side: t.side === "sell" ? "sell" : "buy",
+      regime: typeof t.metadata?.regime === "string" ? t.metadata.regime : null,
+      // cantidad restante tras parciales × precio de entrada
+      usd: Number(t.quantity) * Number(t.entry_price),
+    }));
+  }
+
   private async updateRiskAfterClose(
     riskState: RiskState,
     exit: ExitSignal
@@ -602,53 +1272,85 @@ export class Orchestrator {
 
     if (!trade) return;
 
-    const layer = trade.layer as "core" | "satellite";
-    const { newState } = this.riskGate.applyTradeResult(
-      riskState,
-      layer,
-      exit.pnlAbs
-    );
-
-    await this.supabase
-      .from("risk_state")
-      .update({
-        pnl_today: newState.pnlToday,
-        pnl_this_week: newState.pnlThisWeek,
-        trades_today_core: newState.tradesTodayCore,
-        trades_today_satellite: newState.tradesTodaySatellite,
-        consecutive_losses_satellite: newState.consecutiveLossesSatellite,
-        is_paused: newState.isPaused,
-        pause_reason: newState.pauseReason,
-        pause_until: newState.pauseUntil?.toISOString() ?? null,
-      })
-      .eq("user_id", this.userId);
+    const config = this.riskGate.getConfig();
+    const { data, error } = await this.supabase.rpc("apply_risk_trade_result", {
+      p_user_id: this.userId,
+      p_layer: trade.layer,
+      p_pnl: exit.netPnlAbs,
+      p_trade_pnl: exit.tradeNetPnlAbs,
+      p_partial: exit.kind === "partial",
+      p_max_daily_loss_pct: config.maxDailyLossPct,
+      p_max_weekly_loss_pct: config.maxWeeklyLossPct,
+      p_satellite_consec_limit: config.satelliteConsecLossLimit,
+      p_satellite_cooldown_seconds: Math.round(config.satelliteCooldownMs / 1000),
+    });
+    if (error) throw new Error(`Risk state: ${error.message}`);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return;
+
+    Object.assign(riskState, {
+      pnlToday: Number(row.pnl_today),
+      pnlThisWeek: Number(row.pnl_this_week),
+      tradesTodayCore: Number(row.trades_today_core),
+      tradesTodaySatellite: Number(row.trades_today_satellite),
+      consecutiveLossesSatellite: Number(row.consecutive_losses_satellite),
+      isPaused: Boolean(row.is_paused),
+      pauseReason: row.pause_reason ?? null,
+      pauseUntil: row.pause_until ? new Date(row.pause_until) : null,
+    });
 
-    Object.assign(riskState, newState);
+    if (row.paused_now) {
+      this.notify("risk_pause", "RiskGate en pausa", riskState.pauseReason ?? "Kill switch activado", {
+        pauseReason: riskState.pauseReason,
+        pauseUntil: riskState.pauseUntil?.toISOString() ?? null,
+        pnlToday: riskState.pnlToday,
+        pnlThisWeek: riskState.pnlThisWeek,
+      });
+    }
   }
 
   private async registerOpenedTrade(
     riskState: RiskState,
     layer: "core" | "satellite"
   ): Promise<void> {
-    if (layer === "core") {
-      riskState.tradesTodayCore += 1;
-    } else {
-      riskState.tradesTodaySatellite += 1;
-    }
+    await this.incrementRiskState(riskState, {
+      tradesCore: layer === "core" ? 1 : 0,
+      tradesSatellite: layer === "satellite" ? 1 : 0,
+      pnl: 0,
+    });
+  }
 
-    await this.supabase
-      .from("risk_state")
-      .update({
-        trades_today_core: riskState.tradesTodayCore,
-        trades_today_satellite: riskState.tradesTodaySatellite,
-      })
-      .eq("user_id", this.userId);
+  /**
+   * Suma deltas a los contadores de risk_state en la DB (RPC
+   * increment_risk_state, sin read-modify-write) y copia los valores
+   * resultantes en `riskState`.
+   */
+  private async incrementRiskState(
+    riskState: RiskState,
+    delta: { tradesCore: number; tradesSatellite: number; pnl: number }
+  ): Promise<void> {
+    const { data, error } = await this.supabase.rpc("increment_risk_state", {
+      p_user_id: this.userId,
+      p_trades_core: delta.tradesCore,
+      p_trades_satellite: delta.tradesSatellite,
+      p_pnl: delta.pnl,
+    });
+    if (error) throw new Error(`Risk state: ${error.message}`);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return;
+    riskState.pnlToday = Number(row.pnl_today);
+    riskState.pnlThisWeek = Number(row.pnl_this_week);
+    riskState.tradesTodayCore = Number(row.trades_today_core);
+    riskState.tradesTodaySatellite = Number(row.trades_today_satellite);
   }
 
   private async persistCycleRun(result: CycleResult): Promise<void> {
     try {
       await this.supabase.from("cycle_runs").insert({
         user_id: this.userId,
+        cycle_id: result.cycleId,
         timestamp: result.timestamp.toISOString(),
         regime: result.regime,
         pools_scanned: result.poolsScanned,
@@ -666,6 +1368,13 @@ export class Orchestrator {
         forward_prediction_7d: result.forwardPrediction7d ?? null,
         forward_prediction_30d: result.forwardPrediction30d ?? null,
         metadata: {
+          executionMode: result.executionMode,
+          distributionCandidates: result.distributionCandidates ?? null,
+          strategyConfigVersion: result.strategyConfigVersion ?? null,
+          marketDataCache: result.marketDataCache ?? null,
+          learnedScoring: result.learnedScoring ?? null,
+          smartMoney: result.smartMoney ?? null,
+          priceAnomalies: result.priceAnomalies ?? null,
           entriesCount: result.entries.length,
           exitsCount: result.exits.length,
         },
@@ -676,6 +1385,42 @@ export class Orchestrator {
   }
 }
 
+function emptyCycleResult(cycleId: string): CycleResult {
+  return {
+    cycleId,
+    timestamp: new Date(),
+    regime: "unknown",
+    poolsScanned: 0,
+    tokensScanned: 0,
+    earlyPoolsScanned: 0,
+    earlyCandidates: 0,
+    signalsGenerated: 0,
+    tradesOpened: 0,
+    tradesClosed: 0,
+    entries: [],
+    exits: [],
+    errors: [],
+    stressEvents: [],
+  };
+}
+
 function errMsg(err: unknown): string {
   return err instanceof Error ? err.message : String(err);
 }
+
+/** Umbrales que cambian entre dos calibraciones, como texto legible. */
+function calibrationChanges(
+  prev: CalibrationState | null,
+  next: CalibrationState
+): string[] {
+  if (!prev) return [];
+  const fields: [keyof CalibrationState, string][] = [
+    ["momentumScoreThreshold", "momentum"],
+    ["earlyScoreThreshold", "early"],
+    ["coreMinConfidence", "core min conf"],
+    ["satelliteMinConfidence", "satellite min conf"],
+  ];
+  return fields
+    .filter(([k]) => prev[k] !== next[k])
+    .map(([k, label]) => `${label}: ${prev[k]} → ${next[k]}`);
+}
@@ -1,6 +1,11 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { DexScreenerClient } from "../market/dexscreener";
-import type { Layer } from "../engine/types";
+import { feedTokenKey } from "../market/price-feed";
+import type { Broker, ExecutionMode, ExitFill, Layer, PendingOrder, TradeSide } from "../engine/types";
+import { StressEventSimulator } from "../engine/stress-events";
+import type { StressEvent } from "../engine/stress-events";
+import type { Rng } from "../engine/random";
+import type { WalletConfluenceInfo } from "./confluence-engine";
 
 export interface OpenPosition {
   tradeId: string;
@@ -8,24 +13,116 @@ export interface OpenPosition {
   symbol: string;
   tokenAddress: string;
   network: string;
-  side: "buy" | "sell";
+  /** buy = long, sell = short. */
+  side: TradeSide;
   layer: Layer;
+  executionMode: ExecutionMode;
   entryPrice: number;
+  /** Cantidad todavía abierta (tras TPs parciales). */
   quantity: number;
+  initialQuantity: number;
+  /** PnL ya realizado por salidas parciales. */
+  realizedPnlAbs: number;
+  /** Costes ya pagados: gas/fees de la entrada y de las salidas parciales. */
+  feesAbs: number;
+  tp1Hit: boolean;
   openedAt: Date;
+  /** Mejor precio desde la entrada: máximo en long, mínimo en short. */
   highestPrice: number;
   currentPrice: number;
   pnlPct: number;
   trailingStopPrice: number;
+  /** Conexión de exchange si la posición está en un CEX. */
+  exchangeConnectionId?: string | null;
   metadata: Record<string, unknown>;
 }
 
 export interface ExitSignal {
   tradeId: string;
+  /**
+   * partial: venta de una fracción (TP1 o fill incompleto en el venue);
+   * full: cierre de lo que queda.
+   */
+  kind: "partial" | "full";
+  /** Salida de TP1: solo esta marca la posición con tp1Hit. */
+  takeProfit1?: boolean;
   reason: string;
   exitPrice: number;
+  /** Cantidad vendida en esta ejecución. */
+  quantity: number;
   pnlPct: number;
+  /** PnL realizado por esta ejecución. */
   pnlAbs: number;
+  /** PnL realizado acumulado del trade tras esta ejecución. */
+  tradePnlAbs: number;
+  /** Costes del fill de salida (gas real en live, simulado en paper). */
+  feesAbs?: number;
+  /** Costes acumulados del trade (entrada + salidas) tras esta ejecución. */
+  tradeFeesAbs: number;
+  /** tradePnlAbs neto de tradeFeesAbs; tradePnlAbs es el bruto. */
+  tradeNetPnlAbs: number;
+  /**
+   * pnlAbs neto de los costes de este fill (y de los de entrada en la
+   * primera salida): la suma de todas las ejecuciones es tradeNetPnlAbs.
+   * Es lo que cuenta para los límites de pérdida del RiskGate.
+   */
+  netPnlAbs: number;
+  /** Slippage simulado del fill de salida (paper/shadow). */
+  slippage?: number;
+  txHash?: string;
+}
+
+/** Observación de mercado de una posición en un instante dado. */
+export interface MarketObservation {
+  price: number;
+  liquidityUsd: number;
+  volume24h: number;
+  /** Smart money operando en contra de la posición (ver AdverseFlowSource). */
+  adverseFlow?: WalletConfluenceInfo | null;
+  /**
+   * Mejor precio visto entre revisiones (máximo en long, mínimo en short),
+   * p. ej. por el PositionWatcher entre ticks. Alimenta el trailing stop.
+   */
+  peakPrice?: number;
+}
+
+/** Observaciones ya tomadas por token (`feedTokenKey`), en vez de pedir a DexScreener. */
+export type ObservationLookup = Map<string, MarketObservation>;
+
+/**
+ * Fuente de flujo de smart money en contra de una posición: ventas
+ * agrupadas para un long, compras agrupadas para un short.
+ * El Orchestrator registra el ConfluenceEngine.
+ */
+export interface AdverseFlowSource {
+  getAdverseFlow(
+    tokenAddress: string,
+    network: string,
+    positionSide: TradeSide
+  ): Promise<WalletConfluenceInfo | null>;
+}
+
+/** Stress event que ha golpeado a una posición abierta. */
+export interface PositionStressEvent {
+  tradeId: string;
+  symbol: string;
+  event: StressEvent;
+}
+
+export interface HoldingStress {
+  /** Observación con el shock acumulado de la posición aplicado. */
+  market: MarketObservation;
+  /** Evento nuevo de esta revisión (null si no saltó ninguno). */
+  event: StressEvent | null;
+  /** Campos de metadata a persistir: factores acumulados y última tirada. */
+  metadata: Record<string, unknown>;
+}
+
+export interface PositionEvaluation {
+  exit: ExitSignal | null;
+  currentPrice: number;
+  highestPrice: number;
+  trailingStopPrice: number;
 }
 
 export interface PositionManagerConfig {
@@ -37,11 +134,21 @@ export interface PositionManagerConfig {
   coreTakeProfit2Pct: number;
   satelliteTakeProfit1Pct: number;
   satelliteTakeProfit2Pct: number;
+  /** Fracción de la posición que se vende al tocar TP1 (0 desactiva el parcial). */
+  takeProfit1Fraction: number;
   volumeDropExitThreshold: number;
   liquidityDropExitPct: number;
+  /** Wallets en contra a partir de las que se cierra la posición entera. */
+  adverseFlowExitMinWallets: number;
+  /** Multiplicador del trailing mientras haya flujo en contra (< 1 lo estrecha). */
+  adverseFlowTrailingFactor: number;
+  /** Stress events sobre posiciones paper/shadow abiertas, no solo en la entrada. */
+  holdingStressEvents: boolean;
+  /** Minutos que cuentan como un ciclo de EVENT_PROFILES al tirar durante el holding. */
+  stressCycleMinutes: number;
 }
 
-const DEFAULT_CONFIG: PositionManagerConfig = {
+export const DEFAULT_POSITION_CONFIG: PositionManagerConfig = {
   coreTrailingStopPct: 0.05,
   satelliteTrailingStopPct: 0.10,
   coreMaxHoldHours: 48,
@@ -50,10 +157,23 @@ const DEFAULT_CONFIG: PositionManagerConfig = {
   coreTakeProfit2Pct: 0.15,
   satelliteTakeProfit1Pct: 0.30,
   satelliteTakeProfit2Pct: 0.80,
+  takeProfit1Fraction: 0.5,
   volumeDropExitThreshold: 0.3,
   liquidityDropExitPct: 0.30,
+  adverseFlowExitMinWallets: 5,
+  adverseFlowTrailingFactor: 0.5,
+  holdingStressEvents: true,
+  stressCycleMinutes: 15,
 };
 
+/** exit_reason de los cierres que hace el PositionReconciler. */
+export const RECONCILED_EXIT_REASON = "reconciled";
+
+/** +1 para long, -1 para short: signo del PnL respecto al movimiento del precio. */
+export function sideSign(side: TradeSide): 1 | -1 {
+  return side === "sell" ? -1 : 1;
+}
+
 /**
  * PositionManager — gestiona trades abiertos y genera señales de salida.
  *
@@ -62,74 +182,291 @@ const DEFAULT_CONFIG: PositionManagerConfig = {
  *  2. Tiempo máximo de holding
  *  3. Volumen cayendo (momentum se agota)
  *  4. Liquidez bajando (peligro de no poder salir)
- *  5. Take profit escalonado
+ *  5. Take profit escalonado: TP1 vende una fracción y sube el stop a
+ *     breakeven; TP2 cierra lo que queda
+ *  6. Smart money en contra (distribución en long, acumulación en short):
+ *     estrecha el trailing y, si es masivo, cierra
+ *
+ * En paper/shadow cada revisión tira stress events sobre la posición
+ * (rollHoldingStress): un rug o un exploit pueden llegar en cualquier
+ * momento del holding, y el shock se queda hasta el cierre.
+ *
+ * Long y short comparten reglas: precios, PnL y stops se calculan con el
+ * signo del lado (sideSign).
+ *
+ * Cada fill (entrada, parcial, salida) se registra en trade_executions.
+ * Las salidas se ejecutan a través del Broker del modo de la posición:
+ * sin broker live registrado, las posiciones live no se cierran.
  */
 export class PositionManager {
   private dex: DexScreenerClient;
   private config: PositionManagerConfig;
+  private brokers: Partial<Record<ExecutionMode, Broker>> = {};
+  private flowSource: AdverseFlowSource | null = null;
+  private rng: Rng;
+  private stressEvents: PositionStressEvent[] = [];
 
   constructor(
     private supabase: SupabaseClient,
-    config?: Partial<PositionManagerConfig>
+    config?: Partial<PositionManagerConfig>,
+    opts?: { rng?: Rng }
   ) {
     this.dex = new DexScreenerClient();
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...DEFAULT_POSITION_CONFIG, ...config };
+    this.rng = opts?.rng ?? Math.random;
+  }
+
+  /** Registra el broker que ejecuta las salidas de las posiciones de su modo. */
+  setBroker(broker: Broker): void {
+    this.brokers[broker.mode] = broker;
+  }
+
+  setFlowSource(source: AdverseFlowSource | null): void {
+    this.flowSource = source;
+  }
+
+  /** Stress events sobre posiciones desde la última llamada (y los descarta). */
+  takeStressEvents(): PositionStressEvent[] {
+    const events = this.stressEvents;
+    this.stressEvents = [];
+    return events;
   }
 
   /**
    * Revisa todas las posiciones abiertas de un usuario
-   * y genera señales de salida donde corresponda.
+   * y genera señales de salida donde corresponda. Con `observations`
+   * (watcher en streaming) los tokens observados no se piden a DexScreener.
    */
-  async checkPositions(userId: string): Promise<ExitSignal[]> {
+  async checkPositions(userId: string, observations?: ObservationLookup): Promise<ExitSignal[]> {
     const positions = await this.getOpenPositions(userId);
     const exits: ExitSignal[] = [];
 
     for (const pos of positions) {
-      const exit = await this.evaluatePosition(pos);
-      if (exit) {
-        await this.closeTrade(exit);
-        exits.push(exit);
+      let exit: ExitSignal | null;
+      if (pos.metadata.pendingOrder || pos.metadata.pendingExit) {
+        // Con una orden sin confirmar no se evalúa ni se manda otra
+        exit = await this.resolvePendingOrder(pos);
+      } else {
+        const evaluated = await this.evaluatePosition(
+          pos,
+          observations?.get(feedTokenKey(pos.network, pos.tokenAddress))
+        );
+        if (!evaluated) continue;
+        exit = await this.fillExit(pos, evaluated.exit, evaluated.market);
+      }
+      if (!exit) continue;
+
+      if (exit.kind === "partial") {
+        await this.applyPartialExit(pos, exit);
+      } else {
+        await this.closeTrade(pos, exit);
       }
+      await this.recordExecution(pos, exit);
+      exits.push(exit);
     }
 
     return exits;
   }
 
-  private async evaluatePosition(pos: OpenPosition): Promise<ExitSignal | null> {
-    let currentPrice: number;
-    let currentLiquidity: number;
-    let currentVolume: number;
+  /**
+   * Evalúa una posición y devuelve la salida, si la hay, junto al mercado
+   * (ya estresado) contra el que se simulará el fill; null sin par.
+   */
+  private async evaluatePosition(
+    pos: OpenPosition,
+    observed?: MarketObservation
+  ): Promise<{ exit: ExitSignal; market: MarketObservation | null } | null> {
+    let observation: MarketObservation;
 
-    try {
-      const pair = await this.dex.getBestPair(pos.network, pos.tokenAddress);
-      if (!pair) {
-        return this.createExit(pos, pos.entryPrice * 0.95, "Par no encontrado en DexScreener — salida preventiva");
+    if (observed) {
+      observation = { ...observed };
+    } else {
+      try {
+        const pair = await this.dex.getBestPair(pos.network, pos.tokenAddress);
+        if (!pair) {
+          const adverse = pos.entryPrice * (1 - 0.05 * sideSign(pos.side));
+          return {
+            exit: this.createExit(pos, adverse, "Par no encontrado en DexScreener — salida preventiva"),
+            market: null,
+          };
+        }
+        observation = {
+          price: parseFloat(pair.priceUsd) || 0,
+          liquidityUsd: pair.liquidity?.usd ?? 0,
+          volume24h: pair.volume?.h24 ?? 0,
+        };
+      } catch {
+        return null;
       }
-      currentPrice = parseFloat(pair.priceUsd) || 0;
-      currentLiquidity = pair.liquidity?.usd ?? 0;
-      currentVolume = pair.volume?.h24 ?? 0;
-    } catch {
-      return null;
     }
 
+    if (this.flowSource) {
+      try {
+        observation.adverseFlow = await this.flowSource.getAdverseFlow(
+          pos.tokenAddress, pos.network, pos.side
+        );
+      } catch { /* sin flujo, reglas normales */ }
+    }
+
+    // Sin precio válido no se evalúa ni se tira: el evento no quedaría
+    // guardado y se volvería a tirar (y notificar) en el siguiente check.
+    // Los ciclos de exposición se acumulan desde stressRolledAt.
+    if (observation.price <= 0) return null;
+
+    const stress = this.rollHoldingStress(pos, observation);
+    const evaluation = this.evaluateMarket(pos, stress.market);
+    if (!evaluation) return null;
+    if (stress.event) {
+      this.stressEvents.push({ tradeId: pos.tradeId, symbol: pos.symbol, event: stress.event });
+    }
+
+    // En memoria también: la salida y los parciales reescriben la metadata
+    pos.metadata = { ...pos.metadata, ...stress.metadata };
+    await this.updatePositionPrice(
+      pos,
+      evaluation.currentPrice,
+      evaluation.highestPrice,
+      evaluation.trailingStopPrice
+    );
+
+    return evaluation.exit ? { exit: evaluation.exit, market: stress.market } : null;
+  }
+
+  /**
+   * Tira stress events sobre una posición abierta (solo paper/shadow;
+   * live ya vive el mercado real). Usa los EVENT_PROFILES de la entrada,
+   * escalados por la liquidez ya degradada, la edad del par a día de hoy
+   * y la capa, con tantos ciclos de exposición como `stressCycleMinutes`
+   * quepan desde la última tirada. Sin red ni base de datos.
+   *
+   * El shock es permanente: precio y liquidez se multiplican por factores
+   * acumulados (`stressPriceFactor`, `stressLiquidityFactor`) que el
+   * caller guarda en metadata, así que las salidas posteriores se
+   * ejecutan al precio estresado.
+   */
+  rollHoldingStress(
+    pos: OpenPosition,
+    market: MarketObservation,
+    now: number = Date.now()
+  ): HoldingStress {
+    if (!this.config.holdingStressEvents || pos.executionMode === "live") {
+      return { market, event: null, metadata: {} };
+    }
+
+    // Sin tirada previa solo se arranca el reloj: el ciclo de entrada ya
+    // tiró en el PaperBroker (y las posiciones antiguas no acumulan días)
+    const lastRoll = Date.parse(String(pos.metadata.stressRolledAt ?? "")) || now;
+    const cycles = Math.max(0, now - lastRoll) / (this.config.stressCycleMinutes * 60_000);
+    let priceFactor = Number(pos.metadata.stressPriceFactor ?? 1) || 1;
+    let liquidityFactor = Number(pos.metadata.stressLiquidityFactor ?? 1) || 1;
+
+    let event: StressEvent | null = null;
+    if (cycles > 0) {
+      const entryPairAge = Number(pos.metadata.pairAgeHours ?? 100) || 100;
+      const rolled = StressEventSimulator.rollForEvent(
+        market.liquidityUsd * liquidityFactor,
+        entryPairAge + (now - pos.openedAt.getTime()) / 3600_000,
+        pos.layer,
+        this.rng,
+        cycles
+      );
+      if (rolled.type !== "none") {
+        event = rolled;
+        priceFactor *= 1 + rolled.priceImpactPct;
+        liquidityFactor *= 1 + rolled.liquidityImpactPct;
+      }
+    }
+
+    const metadata: Record<string, unknown> = {
+      stressPriceFactor: priceFactor,
+      stressLiquidityFactor: liquidityFactor,
+      stressRolledAt: new Date(now).toISOString(),
+    };
+    if (event) {
+      const history = Array.isArray(pos.metadata.holdingStressEvents) ? pos.metadata.holdingStressEvents : [];
+      metadata.holdingStressEvents = [
+        ...history,
+        { ...event, at: new Date(now).toISOString(), marketPrice: market.price },
+      ];
+    }
+
+    return {
+      market: applyStressFactors(market, priceFactor, liquidityFactor),
+      event,
+      metadata,
+    };
+  }
+
+  /** Aplica el shock acumulado de la posición a una observación, sin tirar eventos. */
+  stressedMarket(pos: OpenPosition, market: MarketObservation): MarketObservation {
+    if (!this.config.holdingStressEvents || pos.executionMode === "live") return market;
+    return applyStressFactors(
+      market,
+      Number(pos.metadata.stressPriceFactor ?? 1) || 1,
+      Number(pos.metadata.stressLiquidityFactor ?? 1) || 1
+    );
+  }
+
+  /**
+   * Aplica las reglas de salida a una observación de mercado, sin red
+   * ni base de datos. `now` permite evaluar con reloj virtual (backtester).
+   * Devuelve null si el precio observado no es válido.
+   */
+  evaluateMarket(
+    pos: OpenPosition,
+    market: MarketObservation,
+    now: number = Date.now()
+  ): PositionEvaluation | null {
+    const currentPrice = market.price;
+    const currentLiquidity = market.liquidityUsd;
+    const currentVolume = market.volume24h;
+
     if (currentPrice <= 0) return null;
 
-    const pnlPct = (currentPrice - pos.entryPrice) / pos.entryPrice;
-    const highestPrice = Math.max(pos.highestPrice, currentPrice);
+    const sign = sideSign(pos.side);
+    const pnlPct = sign * (currentPrice - pos.entryPrice) / pos.entryPrice;
+    const peak = market.peakPrice && market.peakPrice > 0 ? market.peakPrice : currentPrice;
+    const highestPrice = sign > 0
+      ? Math.max(pos.highestPrice, currentPrice, peak)
+      : Math.min(pos.highestPrice || currentPrice, currentPrice, peak);
+    const flow = market.adverseFlow ?? null;
 
-    // 1. Trailing stop
-    const trailingPct = pos.layer === "core"
+    // 1. Trailing stop (más estrecho con smart money en contra)
+    const baseTrailingPct = pos.layer === "core"
       ? this.config.coreTrailingStopPct
       : this.config.satelliteTrailingStopPct;
+    const trailingPct = flow
+      ? baseTrailingPct * this.config.adverseFlowTrailingFactor
+      : baseTrailingPct;
 
-    const trailingStopPrice = highestPrice * (1 - trailingPct);
-    await this.updatePositionPrice(pos, currentPrice, highestPrice, trailingStopPrice);
+    const trailingStopPrice = highestPrice * (1 - sign * trailingPct);
+    const result = (exit: ExitSignal | null): PositionEvaluation => ({
+      exit,
+      currentPrice,
+      highestPrice,
+      trailingStopPrice,
+    });
 
-    const isAfterProfitRun = highestPrice > pos.entryPrice;
-    if (currentPrice <= trailingStopPrice && isAfterProfitRun) {
-      return this.createExit(pos, currentPrice,
-        `Trailing stop (${(trailingPct * 100).toFixed(0)}% desde máximo $${highestPrice.toFixed(6)})`
-      );
+    const isAfterProfitRun = sign * (highestPrice - pos.entryPrice) > 0;
+    if (sign * (currentPrice - trailingStopPrice) <= 0 && isAfterProfitRun) {
+      return result(this.createExit(pos, currentPrice,
+        `Trailing stop (${(trailingPct * 100).toFixed(0)}% desde ${sign > 0 ? "máximo" : "mínimo"} $${highestPrice.toFixed(6)})` +
+          (flow ? " — estrechado por smart money en contra" : "")
+      ));
+    }
+
+    // 1b. Stop en breakeven tras TP1
+    if (pos.tp1Hit && sign * (currentPrice - pos.entryPrice) <= 0) {
+      return result(this.createExit(pos, currentPrice,
+        "Stop en breakeven tras TP1 parcial"
+      ));
+    }
+
+    // 1c. Smart money en contra masivo → salida acelerada
+    if (flow && flow.walletCount >= this.config.adverseFlowExitMinWallets) {
+      return result(this.createExit(pos, currentPrice,
+        `${flow.walletCount} wallets buenas ${sign > 0 ? "vendiendo (distribución)" : "comprando (acumulación)"} — salida acelerada`
+      ));
     }
 
     // 2. Tiempo máximo
@@ -137,11 +474,11 @@ export class PositionManager {
       ? this.config.coreMaxHoldHours * 3600_000
       : this.config.satelliteMaxHoldHours * 3600_000;
 
-    const holdTimeMs = Date.now() - pos.openedAt.getTime();
+    const holdTimeMs = now - pos.openedAt.getTime();
     if (holdTimeMs >= maxHoldMs) {
-      return this.createExit(pos, currentPrice,
+      return result(this.createExit(pos, currentPrice,
         `Tiempo máximo alcanzado (${(holdTimeMs / 3600_000).toFixed(0)}h)`
-      );
+      ));
     }
 
     // 3. Volumen cayendo (comparar con metadata de entrada si hay)
@@ -150,18 +487,18 @@ export class PositionManager {
       if (entryVolume && entryVolume > 0) {
         const volumeRatio = currentVolume / entryVolume;
         if (volumeRatio < this.config.volumeDropExitThreshold && pnlPct > 0) {
-          return this.createExit(pos, currentPrice,
+          return result(this.createExit(pos, currentPrice,
             `Volumen cayó al ${(volumeRatio * 100).toFixed(0)}% del volumen de entrada — momentum agotado`
-          );
+          ));
         }
       }
     }
 
     // 4. Liquidez bajando
     if (currentLiquidity > 0 && currentLiquidity < 30_000) {
-      return this.createExit(pos, currentPrice,
+      return result(this.createExit(pos, currentPrice,
         `Liquidez peligrosamente baja ($${currentLiquidity.toFixed(0)}) — salida preventiva`
-      );
+      ));
     }
 
     // 5. Take profit escalonado (cierra si supera TP2)
@@ -170,38 +507,282 @@ export class PositionManager {
       : this.config.satelliteTakeProfit2Pct;
 
     if (pnlPct >= tp2) {
-      return this.createExit(pos, currentPrice,
+      return result(this.createExit(pos, currentPrice,
         `Take profit alcanzado (+${(pnlPct * 100).toFixed(1)}%)`
-      );
+      ));
+    }
+
+    const tp1 = pos.layer === "core"
+      ? this.config.coreTakeProfit1Pct
+      : this.config.satelliteTakeProfit1Pct;
+
+    if (!pos.tp1Hit && pnlPct >= tp1 && this.config.takeProfit1Fraction > 0) {
+      const fraction = Math.min(this.config.takeProfit1Fraction, 1);
+      return result({
+        ...this.createExit(pos, currentPrice,
+          `TP1 parcial (+${(pnlPct * 100).toFixed(1)}%): ${sign > 0 ? "vende" : "recompra"} ${(fraction * 100).toFixed(0)}%, stop a breakeven`,
+          pos.quantity * fraction
+        ),
+        takeProfit1: true,
+      });
     }
 
-    return null;
+    return result(null);
   }
 
+  /**
+   * Construye la señal de salida. Sin `quantity` cierra todo lo que queda;
+   * con `quantity` < restante genera una salida parcial salvo que `kind`
+   * diga otra cosa. `feesAbs` son los costes de este fill, que se suman a
+   * los ya pagados.
+   */
   private createExit(
     pos: OpenPosition,
     exitPrice: number,
-    reason: string
+    reason: string,
+    quantity: number = pos.quantity,
+    feesAbs: number = 0,
+    kind: ExitSignal["kind"] = quantity < pos.quantity ? "partial" : "full"
   ): ExitSignal {
-    const pnlPct = (exitPrice - pos.entryPrice) / pos.entryPrice;
-    const pnlAbs = (exitPrice - pos.entryPrice) * pos.quantity;
+    const sign = sideSign(pos.side);
+    const pnlAbs = sign * (exitPrice - pos.entryPrice) * quantity;
+    const tradePnlAbs = pos.realizedPnlAbs + pnlAbs;
+    const costBasis = pos.entryPrice * (pos.initialQuantity || pos.quantity);
+    const pnlPct = kind === "full" && costBasis > 0
+      ? tradePnlAbs / costBasis
+      : sign * (exitPrice - pos.entryPrice) / pos.entryPrice;
+    const tradeFeesAbs = pos.feesAbs + feesAbs;
+    // Sin salidas previas, pos.feesAbs son solo los costes de entrada
+    const firstExit = pos.quantity >= (pos.initialQuantity || pos.quantity);
+    const costsAbs = feesAbs + (firstExit ? pos.feesAbs : 0);
 
     return {
       tradeId: pos.tradeId,
+      kind,
       reason,
       exitPrice,
+      quantity,
       pnlPct,
       pnlAbs,
+      tradePnlAbs,
+      tradeFeesAbs,
+      tradeNetPnlAbs: tradePnlAbs - tradeFeesAbs,
+      netPnlAbs: pnlAbs - costsAbs,
     };
   }
 
-  private async getOpenPositions(userId: string): Promise<OpenPosition[]> {
-    const { data, error } = await this.supabase
-      .from("trades")
-      .select("*")
-      .eq("user_id", userId)
+  /**
+   * Ejecuta la salida en el broker del modo de la posición y recalcula
+   * el PnL con el precio realmente obtenido. Shadow sin broker propio
+   * simula en el de paper. Devuelve null si no se pudo ejecutar (la
+   * posición sigue abierta y se reintenta en el siguiente ciclo).
+   */
+  private async fillExit(
+    pos: OpenPosition,
+    exit: ExitSignal,
+    market: MarketObservation | null
+  ): Promise<ExitSignal | null> {
+    const broker = this.brokers[pos.executionMode]
+      ?? (pos.executionMode === "shadow" ? this.brokers.paper : undefined);
+    if (!broker) {
+      // paper sin broker se cierra al precio observado; live exige su broker
+      return pos.executionMode === "live" ? null : exit;
+    }
+
+    const fill = await broker.executeExit({
+      tradeId: pos.tradeId,
+      userId: pos.userId,
+      symbol: pos.symbol,
+      tokenAddress: pos.tokenAddress,
+      network: pos.network,
+      positionSide: pos.side,
+      quantity: exit.quantity,
+      expectedPrice: exit.exitPrice,
+      reason: exit.reason,
+      exchangeConnectionId: pos.exchangeConnectionId,
+      liquidityUsd: market?.liquidityUsd,
+      volume24h: market?.volume24h,
+    });
+
+    if (!fill.success) {
+      console.error(`[PositionManager] Salida fallida ${pos.symbol}:`, fill.error);
+      if (fill.pendingOrder) {
+        const pendingExit: PendingExit = {
+          order: fill.pendingOrder,
+          kind: exit.kind,
+          reason: exit.reason,
+          quantity: exit.quantity,
+          takeProfit1: exit.takeProfit1,
+        };
+        await this.writeMetadata(pos, { ...pos.metadata, pendingExit });
+      }
+      return null;
+    }
+
+    return this.exitFromFill(pos, exit, fill);
+  }
+
+  /**
+   * Resuelve la orden que quedó sin confirmar en el venue. Entrada: fija
+   * cantidad, precio y comisiones reales (o marca el trade failed si no se
+   * llenó nada). Salida: devuelve la señal con el fill real para que el
+   * caller la aplique como cualquier otra. Null si aún no hay resultado.
+   */
+  private async resolvePendingOrder(pos: OpenPosition): Promise<ExitSignal | null> {
+    const broker = this.brokers[pos.executionMode];
+    if (!broker?.resolveOrder) return null;
+
+    const entry = pos.metadata.pendingOrder as PendingOrder | undefined;
+    if (entry) {
+      const resolution = await broker.resolveOrder(entry);
+      if (!resolution) return null;
+
+      const metadata = withoutKey(pos.metadata, "pendingOrder");
+      if (resolution.quantity <= 0) {
+        await this.supabase
+          .from("trades")
+          .update({
+            status: "failed",
+            quantity: 0,
+            error_message: `Orden ${entry.orderId} sin ejecutar en el venue`,
+            closed_at: new Date().toISOString(),
+            metadata: { ...metadata, orderStatus: "unfilled" },
+          })
+          .eq("id", pos.tradeId);
+        return null;
+      }
+
+      await this.supabase
+        .from("trades")
+        .update({
+          quantity: resolution.quantity,
+          entry_price: resolution.price,
+          fees_abs: resolution.feesAbs,
+          tx_hash: resolution.txHash,
+          metadata: {
+            ...metadata,
+            orderStatus: "filled",
+            initialQuantity: resolution.quantity,
+            filledUsd: resolution.quantity * resolution.price,
+            currentPrice: resolution.price,
+            highestPrice: resolution.price,
+          },
+        })
+        .eq("id", pos.tradeId);
+      try {
+        await this.supabase.from("trade_executions").insert({
+          trade_id: pos.tradeId,
+          user_id: pos.userId,
+          kind: "entry",
+          side: pos.side,
+          quantity: resolution.quantity,
+          price: resolution.price,
+          fees_abs: resolution.feesAbs,
+          reason: "Orden pendiente resuelta",
+          tx_hash: resolution.txHash,
+        });
+      } catch { /* no bloquear */ }
+      return null;
+    }
+
+    const pendingExit = pos.metadata.pendingExit as PendingExit;
+    const resolution = await broker.resolveOrder(pendingExit.order);
+    if (!resolution) return null;
+
+    // Sin nada vendido, la posición vuelve a evaluarse en el siguiente ciclo
+    pos.metadata = withoutKey(pos.metadata, "pendingExit");
+    if (resolution.quantity <= 0) {
+      await this.writeMetadata(pos, pos.metadata);
+      return null;
+    }
+
+    return this.exitFromFill(pos, pendingExit, {
+      success: true,
+      exitPrice: resolution.price,
+      quantity: resolution.quantity,
+      feesAbs: resolution.feesAbs,
+      txHash: resolution.txHash,
+      remainderIsDust: resolution.remainderIsDust,
+    });
+  }
+
+  /**
+   * Señal de salida a partir del fill del broker: precio obtenido,
+   * cantidad ejecutada y costes (el backtester la usa directamente).
+   * Un cierre completo sigue siéndolo si lo que no se vendió es polvo
+   * por debajo del mínimo del venue (`fill.remainderIsDust`); si el venue
+   * llenó menos, es una parcial sin TP1 y el resto sigue abierto.
+   */
+  exitFromFill(
+    pos: OpenPosition,
+    planned: Pick<ExitSignal, "kind" | "reason" | "quantity" | "takeProfit1">,
+    fill: ExitFill
+  ): ExitSignal {
+    const complete = fill.quantity >= planned.quantity || fill.remainderIsDust === true;
+    const kind = planned.kind === "full" && complete ? "full" : "partial";
+    return {
+      ...this.createExit(pos, fill.exitPrice, planned.reason, fill.quantity, fill.feesAbs, kind),
+      takeProfit1: planned.takeProfit1,
+      feesAbs: fill.feesAbs,
+      slippage: fill.slippage,
+      txHash: fill.txHash,
+    };
+  }
+
+  /**
+   * Aplica una salida parcial sobre la posición en memoria
+   * (el caller persiste; el backtester la usa directamente). Solo la de
+   * TP1 activa `tp1Hit`; un fill incompleto solo reduce la cantidad.
+   */
+  applyPartial(pos: OpenPosition, exit: ExitSignal): OpenPosition {
+    return {
+      ...pos,
+      quantity: pos.quantity - exit.quantity,
+      realizedPnlAbs: exit.tradePnlAbs,
+      feesAbs: exit.tradeFeesAbs,
+      tp1Hit: pos.tp1Hit || exit.takeProfit1 === true,
+    };
+  }
+
+  /**
+   * Corrige una posición cuyo saldo en el venue no cuadra (ver
+   * PositionReconciler): sin saldo la cierra, con menos saldo reduce la
+   * cantidad a lo que hay. No pasa por el broker — lo que falta ya no
+   * está en el venue — así que el fill se valora al último precio
+   * observado (o al de entrada si no hay ninguno). La salida se persiste
+   * y se registra como cualquier otra, con el precio usado y su origen
+   * en la metadata, y el caller la pasa por la contabilidad de riesgo.
+   */
+  async applyReconciliation(pos: OpenPosition, heldQuantity: number): Promise<ExitSignal> {
+    const priceSource = pos.currentPrice > 0 ? "last_price" : "entry_price";
+    const price = pos.currentPrice > 0 ? pos.currentPrice : pos.entryPrice;
+    const missing = Math.min(pos.quantity, Math.max(0, pos.quantity - heldQuantity));
+    const exit = this.createExit(pos, price, RECONCILED_EXIT_REASON, missing);
+    const reconciliation = {
+      price,
+      priceSource,
+      heldQuantity,
+      reconciledAt: new Date().toISOString(),
+    };
+
+    await this.writeMetadata(pos, { ...pos.metadata, reconciliation });
+    if (exit.kind === "full") {
+      await this.closeTrade(pos, exit);
+    } else {
+      await this.applyPartialExit(pos, exit);
+    }
+    await this.recordExecution(pos, exit, { priceSource });
+    return exit;
+  }
+
+  /** Posiciones abiertas de un usuario (o de todos con `null`). */
+  async getOpenPositions(userId: string | null): Promise<OpenPosition[]> {
+    let query = this.supabase.from("trades").select("*");
+    if (userId) query = query.eq("user_id", userId);
+
+    const { data, error } = await query
       .eq("status", "open")
-      .eq("execution_mode", "paper")
+      .in("execution_mode", ["paper", "shadow", "live"])
       .order("opened_at", { ascending: true });
 
     if (error || !data) return [];
@@ -214,49 +795,154 @@ export class PositionManager {
       network: t.metadata?.network ?? "ethereum",
       side: t.side as "buy" | "sell",
       layer: t.layer as Layer,
+      executionMode: t.execution_mode as ExecutionMode,
       entryPrice: Number(t.entry_price) || 0,
       quantity: Number(t.quantity) || 0,
+      initialQuantity: Number(t.metadata?.initialQuantity ?? t.quantity) || 0,
+      realizedPnlAbs: Number(t.metadata?.realizedPnlAbs ?? 0) || 0,
+      feesAbs: Number(t.fees_abs) || 0,
+      tp1Hit: t.metadata?.tp1Hit === true,
       openedAt: new Date(t.opened_at),
       highestPrice: Number(t.metadata?.highestPrice ?? t.entry_price) || 0,
       currentPrice: Number(t.metadata?.currentPrice ?? t.entry_price) || 0,
       pnlPct: Number(t.pnl_pct) || 0,
       trailingStopPrice: Number(t.metadata?.trailingStopPrice ?? 0),
+      exchangeConnectionId: t.exchange_connection_id ?? null,
       metadata: (t.metadata as Record<string, unknown>) ?? {},
     }));
   }
 
+  /**
+   * Persiste la evaluación y la refleja en la posición en memoria: la
+   * salida parcial o el cierre del mismo ciclo reescriben la metadata a
+   * partir de `pos.metadata` y no deben pisar estos valores.
+   */
   private async updatePositionPrice(
     pos: OpenPosition,
     currentPrice: number,
     highestPrice: number,
     trailingStopPrice: number
   ): Promise<void> {
+    pos.currentPrice = currentPrice;
+    pos.highestPrice = highestPrice;
+    pos.trailingStopPrice = trailingStopPrice;
+    pos.metadata = {
+      ...pos.metadata,
+      currentPrice,
+      highestPrice,
+      trailingStopPrice,
+      lastCheckedAt: new Date().toISOString(),
+    };
+
+    await this.supabase
+      .from("trades")
+      .update({ metadata: pos.metadata })
+      .eq("id", pos.tradeId);
+  }
+
+  private async writeMetadata(pos: OpenPosition, metadata: Record<string, unknown>): Promise<void> {
+    pos.metadata = metadata;
+    await this.supabase
+      .from("trades")
+      .update({ metadata })
+      .eq("id", pos.tradeId);
+  }
+
+  private async applyPartialExit(pos: OpenPosition, exit: ExitSignal): Promise<void> {
+    const next = this.applyPartial(pos, exit);
+
     await this.supabase
       .from("trades")
       .update({
+        quantity: next.quantity,
+        fees_abs: next.feesAbs,
         metadata: {
           ...pos.metadata,
-          currentPrice,
-          highestPrice,
-          trailingStopPrice,
-          lastCheckedAt: new Date().toISOString(),
+          initialQuantity: pos.initialQuantity,
+          realizedPnlAbs: next.realizedPnlAbs,
+          ...(exit.takeProfit1
+            ? { tp1Hit: true, tp1At: new Date().toISOString(), breakevenStopPrice: pos.entryPrice }
+            : {}),
         },
       })
       .eq("id", pos.tradeId);
   }
 
-  private async closeTrade(exit: ExitSignal): Promise<void> {
+  private async recordExecution(
+    pos: OpenPosition,
+    exit: ExitSignal,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.supabase.from("trade_executions").insert({
+        trade_id: pos.tradeId,
+        user_id: pos.userId,
+        kind: exit.kind === "partial" ? "partial_exit" : "exit",
+        side: pos.side === "buy" ? "sell" : "buy",
+        quantity: exit.quantity,
+        price: exit.exitPrice,
+        pnl_abs: exit.pnlAbs,
+        fees_abs: exit.feesAbs ?? null,
+        reason: exit.reason,
+        tx_hash: exit.txHash ?? null,
+        ...(metadata ? { metadata } : {}),
+      });
+    } catch {
+      // El histórico de fills no debe bloquear la gestión de posiciones
+    }
+  }
+
+  /**
+   * Cierra el trade con el PnL total (parciales + salida final) sobre la
+   * cantidad inicial: pnl_abs bruto, fees_abs con todos los costes de
+   * entrada y salidas, y pnl_net_abs, que es el que decide is_win.
+   */
+  private async closeTrade(pos: OpenPosition, exit: ExitSignal): Promise<void> {
     await this.supabase
       .from("trades")
       .update({
         status: "closed",
+        quantity: pos.initialQuantity || pos.quantity,
         exit_price: exit.exitPrice,
-        pnl_abs: exit.pnlAbs,
+        pnl_abs: exit.tradePnlAbs,
+        pnl_net_abs: exit.tradeNetPnlAbs,
         pnl_pct: exit.pnlPct,
-        is_win: exit.pnlPct > 0,
+        fees_abs: exit.tradeFeesAbs,
+        is_win: exit.tradeNetPnlAbs > 0,
         exit_reason: exit.reason,
         closed_at: new Date().toISOString(),
+        ...(exit.txHash ? { metadata: { ...pos.metadata, exitTxHash: exit.txHash } } : {}),
       })
       .eq("id", exit.tradeId);
   }
 }
+
+// ---- helpers ----
+
+/** Salida enviada sin confirmar, guardada en `metadata.pendingExit`. */
+interface PendingExit extends Pick<ExitSignal, "kind" | "reason" | "quantity" | "takeProfit1"> {
+  order: PendingOrder;
+}
+
+function withoutKey(metadata: Record<string, unknown>, key: string): Record<string, unknown> {
+  const next = { ...metadata };
+  delete next[key];
+  return next;
+}
+
+/**
+ * Precio y liquidez con el shock aplicado. `peakPrice` no se toca: ya
+ * viene del precio evaluado (p. ej. highestPrice del watcher).
+ */
+function applyStressFactors(
+  market: MarketObservation,
+  priceFactor: number,
+  liquidityFactor: number
+): MarketObservation {
+  if (priceFactor === 1 && liquidityFactor === 1) return market;
+  return {
+    ...market,
+    price: market.price > 0 ? Math.max(1e-12, market.price * priceFactor) : market.price,
+    liquidityUsd: Math.max(0, market.liquidityUsd * liquidityFactor),
+  };
+}
@@ -0,0 +1,552 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ExitSignal, OpenPosition, PositionManager } from "./position-manager";
+import type { ChainRpc } from "../chain/types";
+import { decodeUint, encodeBalanceOf, encodeDecimals, fromUnits } from "../chain/abi";
+import type { ExchangeConnectionStore, UnsealedConnection } from "../exchanges/connection-store";
+import { createExchangeClient } from "../exchanges/exchange-client";
+import type { ExchangeClient } from "../exchanges/exchange-client";
+import { CexSymbolMapper } from "../exchanges/symbol-map";
+
+/**
+ * ok        — el saldo del venue cubre el trade
+ * phantom   — trade abierto sin saldo detrás (venta manual, tx fallida)
+ * shortfall — hay saldo pero menos que la cantidad del trade
+ * surplus   — más saldo que trades (airdrop, compra fuera del bot)
+ * orphaned  — saldo de un token operado sin ningún trade abierto
+ * unchecked — no se pudo leer el venue
+ */
+export type ReconciliationStatus =
+  | "ok"
+  | "phantom"
+  | "shortfall"
+  | "surplus"
+  | "orphaned"
+  | "unchecked";
+
+/** close: cerrar el trade; reduce: bajar su cantidad a lo que hay. */
+export type ReconciliationAction = "close" | "reduce" | "none";
+
+export interface ReconciliationItem {
+  /** "onchain:<red>" o "<exchange>:<connectionId>". */
+  venue: string;
+  status: ReconciliationStatus;
+  /** null en orphaned/surplus: saldo sin trade detrás. */
+  tradeId: string | null;
+  symbol: string;
+  tokenAddress: string | null;
+  network: string | null;
+  /** Activo en el exchange (solo CEX). */
+  asset: string | null;
+  /** Cantidad según el trade abierto (0 si no hay trade). */
+  expectedQuantity: number;
+  /** Saldo real del venue atribuido al trade (o el sobrante). */
+  heldQuantity: number;
+  /** Diferencia valorada al último precio conocido. */
+  differenceUsd: number;
+  action: ReconciliationAction;
+  applied: boolean;
+  /** Precio al que se valoró la corrección aplicada (ver applyReconciliation). */
+  exitPrice?: number;
+  note: string;
+}
+
+export interface ReconciliationReport {
+  id: string | null;
+  userId: string;
+  createdAt: string;
+  autoApply: boolean;
+  venuesChecked: number;
+  positionsChecked: number;
+  /** Items que no están ok. */
+  issues: number;
+  applied: number;
+  items: ReconciliationItem[];
+  errors: string[];
+  /** Correcciones aplicadas, para la contabilidad de riesgo del caller (no se persisten). */
+  exits: ExitSignal[];
+}
+
+/** De dónde leer saldos. Sin un venue, sus posiciones quedan unchecked. */
+export interface ReconcilerVenues {
+  /** Wallet live y RPC para `balanceOf` de las posiciones on-chain. */
+  chain: { rpc: ChainRpc; wallet: string } | null;
+  /** Conexiones de exchange (credenciales descifradas al leer saldos). */
+  exchanges: ExchangeConnectionStore | null;
+  /** Cliente de una conexión; por defecto createExchangeClient. */
+  exchangeClient?: (connection: UnsealedConnection) => ExchangeClient;
+  quoteAsset?: string;
+  /** Overrides de CEX_TOKEN_MAP para mapear tokens a activos. */
+  tokenOverrides?: Record<string, string>;
+}
+
+export interface PositionReconcilerConfig {
+  /** Diferencia relativa que se considera ruido (comisiones, redondeos). */
+  tolerancePct: number;
+  /** Por debajo de este valor un saldo cuenta como vacío. */
+  dustUsd: number;
+  /** Trades cerrados recientes cuyos tokens se buscan como huérfanos. */
+  orphanLookbackDays: number;
+}
+
+export const DEFAULT_RECONCILER_CONFIG: PositionReconcilerConfig = {
+  tolerancePct: 0.02,
+  dustUsd: 1,
+  orphanLookbackDays: 14,
+};
+
+/** Trade live cerrado hace poco: candidato a dejar saldo huérfano. */
+interface RecentTrade {
+  symbol: string;
+  tokenAddress: string;
+  network: string;
+  exchangeConnectionId: string | null;
+  price: number;
+}
+
+/**
+ * PositionReconciler — cuadra los trades live abiertos con los saldos
+ * reales de cada venue.
+ *
+ *  - On-chain: `balanceOf` de la wallet live por token y red
+ *  - CEX: saldo (libre + bloqueado) del activo en la conexión del trade
+ *
+ * Varios trades del mismo token comparten saldo: se reparte del más
+ * antiguo al más nuevo, así que lo que falte recae en los últimos.
+ * Los tokens de trades cerrados en los últimos `orphanLookbackDays`
+ * días que siguen en el venue se marcan como huérfanos.
+ *
+ * Propone cerrar los phantom y reducir los shortfall con exit_reason
+ * `reconciled`; con `autoApply` lo aplica vía PositionManager. Surplus y
+ * huérfanos solo se señalan. Cada ejecución queda en
+ * position_reconciliations.
+ */
+export class PositionReconciler {
+  private config: PositionReconcilerConfig;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private positions: PositionManager,
+    private venues: ReconcilerVenues,
+    config?: Partial<PositionReconcilerConfig>
+  ) {
+    this.config = { ...DEFAULT_RECONCILER_CONFIG, ...config };
+  }
+
+  async run(userId: string, opts: { autoApply?: boolean } = {}): Promise<ReconciliationReport> {
+    const autoApply = opts.autoApply === true;
+    const errors: string[] = [];
+    const items: ReconciliationItem[] = [];
+    const checkedVenues = new Set<string>();
+
+    const open = (await this.positions.getOpenPositions(userId)).filter(
+      (p) => p.executionMode === "live"
+    );
+    const recent = await this.getRecentClosed(userId);
+
+    for (const pos of open.filter((p) => p.side !== "buy")) {
+      items.push(unchecked(pos, venueOf(pos), "Posición corta: el saldo del venue no la refleja"));
+    }
+    // Una orden sin confirmar la resuelve el PositionManager con el fill real
+    const pending = (p: OpenPosition) => Boolean(p.metadata.pendingOrder || p.metadata.pendingExit);
+    for (const pos of open.filter((p) => p.side === "buy" && pending(p))) {
+      items.push(unchecked(pos, venueOf(pos), "Orden pendiente de confirmar en el venue"));
+    }
+    const longs = open.filter((p) => p.side === "buy" && !pending(p));
+
+    await this.reconcileChain(
+      longs.filter((p) => !p.exchangeConnectionId),
+      recent.filter((t) => !t.exchangeConnectionId),
+      items, errors, checkedVenues
+    );
+    await this.reconcileExchanges(
+      userId,
+      longs.filter((p) => p.exchangeConnectionId),
+      recent.filter((t) => t.exchangeConnectionId),
+      items, errors, checkedVenues
+    );
+
+    const exits: ExitSignal[] = [];
+    if (autoApply) {
+      const byId = new Map(open.map((p) => [p.tradeId, p]));
+      for (const item of items) {
+        const pos = item.tradeId ? byId.get(item.tradeId) : undefined;
+        if (!pos || item.action === "none") continue;
+        try {
+          const exit = await this.positions.applyReconciliation(pos, item.heldQuantity);
+          exits.push(exit);
+          item.applied = true;
+          item.exitPrice = exit.exitPrice;
+        } catch (err) {
+          errors.push(`Aplicar ${pos.symbol}: ${errMsg(err)}`);
+        }
+      }
+    }
+
+    const report: ReconciliationReport = {
+      id: null,
+      userId,
+      createdAt: new Date().toISOString(),
+      autoApply,
+      venuesChecked: checkedVenues.size,
+      positionsChecked: open.length,
+      issues: items.filter((i) => i.status !== "ok").length,
+      applied: items.filter((i) => i.applied).length,
+      items,
+      errors,
+      exits,
+    };
+
+    const { data, error } = await this.supabase
+      .from("position_reconciliations")
+      .insert({
+        user_id: userId,
+        auto_apply: report.autoApply,
+        venues_checked: report.venuesChecked,
+        positions_checked: report.positionsChecked,
+        issues: report.issues,
+        applied: report.applied,
+        items: report.items,
+        errors: report.errors,
+      })
+      .select("id, created_at")
+      .single();
+    if (error) {
+      errors.push(`Guardar reconciliación: ${error.message}`);
+    } else if (data) {
+      report.id = data.id;
+      report.createdAt = data.created_at;
+    }
+
+    return report;
+  }
+
+  /** Últimas reconciliaciones del usuario, más reciente primero. */
+  async listReports(userId: string, limit = 10): Promise<ReconciliationReport[]> {
+    const { data, error } = await this.supabase
+      .from("position_reconciliations")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(`position_reconciliations: ${error.message}`);
+
+    return (data ?? []).map((row) => ({
+      id: row.id,
+      userId: row.user_id,
+      createdAt: row.created_at,
+      autoApply: row.auto_apply === true,
+      venuesChecked: Number(row.venues_checked) || 0,
+      positionsChecked: Number(row.positions_checked) || 0,
+      issues: Number(row.issues) || 0,
+      applied: Number(row.applied) || 0,
+      items: (row.items as ReconciliationItem[]) ?? [],
+      errors: (row.errors as string[]) ?? [],
+      exits: [],
+    }));
+  }
+
+  private async reconcileChain(
+    positions: OpenPosition[],
+    recent: RecentTrade[],
+    items: ReconciliationItem[],
+    errors: string[],
+    checkedVenues: Set<string>
+  ): Promise<void> {
+    const chain = this.venues.chain;
+    const groups = groupBy(positions, (p) => tokenKey(p.network, p.tokenAddress));
+
+    for (const group of groups.values()) {
+      const { network, tokenAddress } = group[0];
+      const venue = `onchain:${network}`;
+      if (!chain) {
+        items.push(...group.map((p) => unchecked(p, venue, "Sin wallet live o RPC configurados")));
+        continue;
+      }
+      try {
+        const held = await this.tokenBalance(chain, network, tokenAddress);
+        checkedVenues.add(venue);
+        items.push(...this.allocate(venue, group, held, null));
+      } catch (err) {
+        errors.push(`Saldo ${group[0].symbol} (${network}): ${errMsg(err)}`);
+        items.push(...group.map((p) => unchecked(p, venue, `Error leyendo saldo: ${errMsg(err)}`)));
+      }
+    }
+
+    if (!chain) return;
+    for (const candidate of latestByKey(recent, (t) => tokenKey(t.network, t.tokenAddress))) {
+      if (groups.has(tokenKey(candidate.network, candidate.tokenAddress))) continue;
+      try {
+        const held = await this.tokenBalance(chain, candidate.network, candidate.tokenAddress);
+        checkedVenues.add(`onchain:${candidate.network}`);
+        const orphan = this.orphan(`onchain:${candidate.network}`, candidate, null, held);
+        if (orphan) items.push(orphan);
+      } catch (err) {
+        errors.push(`Saldo ${candidate.symbol} (${candidate.network}): ${errMsg(err)}`);
+      }
+    }
+  }
+
+  private async reconcileExchanges(
+    userId: string,
+    positions: OpenPosition[],
+    recent: RecentTrade[],
+    items: ReconciliationItem[],
+    errors: string[],
+    checkedVenues: Set<string>
+  ): Promise<void> {
+    const byConnection = groupBy(positions, (p) => p.exchangeConnectionId!);
+    const recentByConnection = groupBy(recent, (t) => t.exchangeConnectionId!);
+    const connectionIds = new Set([...byConnection.keys(), ...recentByConnection.keys()]);
+
+    for (const connectionId of connectionIds) {
+      const group = byConnection.get(connectionId) ?? [];
+      const fallbackVenue = `exchange:${connectionId}`;
+      const skip = (note: string) =>
+        items.push(...group.map((p) => unchecked(p, fallbackVenue, note)));
+
+      if (!this.venues.exchanges) {
+        skip("Sin EXCHANGE_ENCRYPTION_KEY: no se pueden leer saldos del exchange");
+        continue;
+      }
+
+      let connection: UnsealedConnection | null;
+      let balances: Map<string, number>;
+      let mapper: CexSymbolMapper;
+      try {
+        connection = await this.venues.exchanges.getCredentials(userId, connectionId);
+        if (!connection) {
+          skip("La conexión de exchange ya no existe");
+          continue;
+        }
+        const client = this.venues.exchangeClient
+          ? this.venues.exchangeClient(connection)
+          : createExchangeClient(connection.exchange, connection.credentials, {
+              isTestnet: connection.isTestnet,
+            });
+        mapper = new CexSymbolMapper(client, this.venues.quoteAsset, this.venues.tokenOverrides);
+        balances = new Map(
+          (await client.getBalances()).map((b) => [b.asset, b.free + b.locked])
+        );
+      } catch (err) {
+        errors.push(`Saldos de ${connectionId}: ${errMsg(err)}`);
+        skip(`Error leyendo saldos: ${errMsg(err)}`);
+        continue;
+      }
+
+      const venue = `${connection.exchange}:${connectionId}`;
+      checkedVenues.add(venue);
+
+      const byAsset = new Map<string, OpenPosition[]>();
+      for (const pos of group) {
+        const asset = mapper.baseAssetFor(pos.tokenAddress, pos.network);
+        if (!asset) {
+          items.push(unchecked(pos, venue, "Token sin activo conocido en el exchange"));
+          continue;
+        }
+        byAsset.set(asset, [...(byAsset.get(asset) ?? []), pos]);
+      }
+      for (const [asset, assetGroup] of byAsset) {
+        items.push(...this.allocate(venue, assetGroup, balances.get(asset) ?? 0, asset));
+      }
+
+      const candidates = recentByConnection.get(connectionId) ?? [];
+      for (const candidate of latestByKey(candidates, (t) => mapper.baseAssetFor(t.tokenAddress, t.network) ?? "")) {
+        const asset = mapper.baseAssetFor(candidate.tokenAddress, candidate.network);
+        if (!asset || byAsset.has(asset)) continue;
+        const orphan = this.orphan(venue, candidate, asset, balances.get(asset) ?? 0);
+        if (orphan) items.push(orphan);
+      }
+    }
+  }
+
+  /**
+   * Reparte el saldo entre los trades del mismo token (del más antiguo al
+   * más nuevo) y clasifica cada uno.
+   */
+  private allocate(
+    venue: string,
+    group: OpenPosition[],
+    held: number,
+    asset: string | null
+  ): ReconciliationItem[] {
+    const { tolerancePct, dustUsd } = this.config;
+    const sorted = [...group].sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime());
+    const expected = sorted.reduce((sum, p) => sum + p.quantity, 0);
+    const items: ReconciliationItem[] = [];
+
+    if (held >= expected * (1 - tolerancePct)) {
+      for (const pos of sorted) {
+        items.push(positionItem(pos, venue, asset, "ok", pos.quantity, 0, "none", "Saldo cubre la posición"));
+      }
+      const surplus = held - expected;
+      const price = lastPrice(sorted[sorted.length - 1]);
+      if (surplus > expected * tolerancePct && surplus * price > dustUsd) {
+        const last = sorted[sorted.length - 1];
+        items.push({
+          venue,
+          status: "surplus",
+          tradeId: null,
+          symbol: last.symbol,
+          tokenAddress: last.tokenAddress,
+          network: last.network,
+          asset,
+          expectedQuantity: 0,
+          heldQuantity: surplus,
+          differenceUsd: surplus * price,
+          action: "none",
+          applied: false,
+          note: "Más saldo que trades abiertos (airdrop o compra fuera del bot); no se ajusta",
+        });
+      }
+      return items;
+    }
+
+    let remaining = held;
+    for (const pos of sorted) {
+      const covered = Math.min(pos.quantity, remaining);
+      remaining -= covered;
+      const price = lastPrice(pos);
+      const missingUsd = (pos.quantity - covered) * price;
+
+      if (covered * price <= dustUsd) {
+        items.push(positionItem(pos, venue, asset, "phantom", 0, missingUsd, "close",
+          "Trade abierto sin saldo en el venue: cerrar como reconciled"));
+      } else if (covered < pos.quantity * (1 - tolerancePct)) {
+        items.push(positionItem(pos, venue, asset, "shortfall", covered, missingUsd, "reduce",
+          `Falta el ${(((pos.quantity - covered) / pos.quantity) * 100).toFixed(1)}% de la cantidad: reducir a lo que hay`));
+      } else {
+        items.push(positionItem(pos, venue, asset, "ok", covered, missingUsd, "none", "Saldo cubre la posición"));
+      }
+    }
+    return items;
+  }
+
+  private orphan(
+    venue: string,
+    trade: RecentTrade,
+    asset: string | null,
+    held: number
+  ): ReconciliationItem | null {
+    const valueUsd = held * trade.price;
+    if (held <= 0 || valueUsd <= this.config.dustUsd) return null;
+    return {
+      venue,
+      status: "orphaned",
+      tradeId: null,
+      symbol: trade.symbol,
+      tokenAddress: trade.tokenAddress,
+      network: trade.network,
+      asset,
+      expectedQuantity: 0,
+      heldQuantity: held,
+      differenceUsd: valueUsd,
+      action: "none",
+      applied: false,
+      note: "Saldo sin trade abierto (salida fallida o no registrada): revisar y vender a mano",
+    };
+  }
+
+  private async tokenBalance(
+    chain: { rpc: ChainRpc; wallet: string },
+    network: string,
+    tokenAddress: string
+  ): Promise<number> {
+    const [rawBalance, rawDecimals] = await Promise.all([
+      chain.rpc.call(network, tokenAddress, encodeBalanceOf(chain.wallet)),
+      chain.rpc.call(network, tokenAddress, encodeDecimals()),
+    ]);
+    return fromUnits(decodeUint(rawBalance), Number(decodeUint(rawDecimals)));
+  }
+
+  private async getRecentClosed(userId: string): Promise<RecentTrade[]> {
+    const since = new Date(Date.now() - this.config.orphanLookbackDays * 86_400_000);
+    const { data, error } = await this.supabase
+      .from("trades")
+      .select("symbol, entry_price, exit_price, metadata, exchange_connection_id, opened_at")
+      .eq("user_id", userId)
+      .eq("execution_mode", "live")
+      .in("status", ["closed", "failed"])
+      .gte("opened_at", since.toISOString())
+      .order("opened_at", { ascending: true });
+    if (error) throw new Error(`trades: ${error.message}`);
+
+    return (data ?? [])
+      .filter((t) => t.metadata?.tokenAddress)
+      .map((t) => ({
+        symbol: t.symbol,
+        tokenAddress: t.metadata.tokenAddress,
+        network: t.metadata?.network ?? "ethereum",
+        exchangeConnectionId: t.exchange_connection_id ?? null,
+        price:
+          Number(t.metadata?.currentPrice) ||
+          Number(t.exit_price) ||
+          Number(t.entry_price) ||
+          0,
+      }));
+  }
+}
+
+// ---- helpers ----
+
+function positionItem(
+  pos: OpenPosition,
+  venue: string,
+  asset: string | null,
+  status: ReconciliationStatus,
+  heldQuantity: number,
+  differenceUsd: number,
+  action: ReconciliationAction,
+  note: string
+): ReconciliationItem {
+  return {
+    venue,
+    status,
+    tradeId: pos.tradeId,
+    symbol: pos.symbol,
+    tokenAddress: pos.tokenAddress,
+    network: pos.network,
+    asset,
+    expectedQuantity: pos.quantity,
+    heldQuantity,
+    differenceUsd,
+    action,
+    applied: false,
+    note,
+  };
+}
+
+function unchecked(pos: OpenPosition, venue: string, note: string): ReconciliationItem {
+  return positionItem(pos, venue, null, "unchecked", 0, 0, "none", note);
+}
+
+function venueOf(pos: OpenPosition): string {
+  return pos.exchangeConnectionId ? `exchange:${pos.exchangeConnectionId}` : `onchain:${pos.network}`;
+}
+
+function lastPrice(pos: OpenPosition): number {
+  return pos.currentPrice > 0 ? pos.currentPrice : pos.entryPrice;
+}
+
+function tokenKey(network: string, address: string): string {
+  return `${network}:${network === "solana" ? address : address.toLowerCase()}`;
+}
+
+function groupBy<T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  return groups;
+}
+
+/** El último de cada clave (las filas vienen en orden cronológico). */
+function latestByKey<T>(rows: T[], keyOf: (row: T) => string): T[] {
+  const latest = new Map<string, T>();
+  for (const row of rows) latest.set(keyOf(row), row);
+  return [...latest.values()];
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,52 @@
+import type { ConfluenceResult } from "./confluence-engine";
+
+export interface PositionSizingDecision {
+  amountUsd: number;
+  confidenceFactor: number;
+  liquidityFactor: number;
+  liquidityCapUsd: number;
+  maxByRiskGateUsd: number;
+}
+
+/**
+ * Sizing adaptativo: parte del máximo que permite el RiskGate y lo escala
+ * por confianza de la señal y profundidad del pool (cap de impacto por capa).
+ *
+ * Compartido por el Orchestrator y el backtester para que ambos
+ * dimensionen las posiciones exactamente igual.
+ */
+export function calculateAdaptivePositionSize(
+  conf: ConfluenceResult,
+  maxByRiskGateUsd: number
+): PositionSizingDecision {
+  const confidence = Math.max(0, Math.min(100, conf.confidence));
+  const confidenceFactor = 0.35 + (confidence / 100) * 0.65;
+
+  const liquidityUsd = Math.max(
+    conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? conf.sources.distribution?.liquidityUsd ?? 0, 0
+  );
+  const targetLiquidityFloor = 250_000;
+  const rawLiquidityFactor = liquidityUsd / targetLiquidityFloor;
+  const liquidityFactor = Math.max(0.4, Math.min(rawLiquidityFactor, 1));
+
+  const maxPoolImpactPct = conf.layer === "core" ? 0.005 : 0.003;
+  const liquidityCapUsd = liquidityUsd > 0
+    ? liquidityUsd * maxPoolImpactPct
+    : maxByRiskGateUsd * 0.25;
+
+  const rawSize = maxByRiskGateUsd * confidenceFactor * liquidityFactor;
+  const sized = Math.min(rawSize, liquidityCapUsd, maxByRiskGateUsd);
+  const isPaper = conf.order.executionMode === "paper";
+  const minTicketUsd = isPaper
+    ? (conf.layer === "core" ? 10 : 5)
+    : (conf.layer === "core" ? 25 : 15);
+  const amountUsd = sized >= minTicketUsd ? sized : 0;
+
+  return {
+    amountUsd: Number(amountUsd.toFixed(2)),
+    confidenceFactor: Number(confidenceFactor.toFixed(4)),
+    liquidityFactor: Number(liquidityFactor.toFixed(4)),
+    liquidityCapUsd: Number(liquidityCapUsd.toFixed(2)),
+    maxByRiskGateUsd: Number(maxByRiskGateUsd.toFixed(2)),
+  };
+}
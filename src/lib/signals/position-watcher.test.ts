@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PositionWatcher } from "./position-watcher";
+import type { PositionUpdate, WatcherExitExecutor } from "./position-watcher";
+import type { ObservationLookup } from "./position-manager";
+import { MockPriceFeed, feedTokenKey } from "../market/price-feed";
+
+const TP_TOKEN = "0x00000000000000000000000000000000000be001";
+const STOP_TOKEN = "0x00000000000000000000000000000000000be002";
+
+test("los ticks del feed llevan las posiciones a take profit y trailing stop", async () => {
+  const { watcher, feed, calls, updates } = await start([
+    tradeRow("trade-tp", "user-1", TP_TOKEN, "paper"),
+    tradeRow("trade-stop", "user-2", STOP_TOKEN, "paper", 1.06),
+  ]);
+
+  feed.emit({ network: "base", tokenAddress: TP_TOKEN, priceUsd: 1.2, liquidityUsd: 2_000_000, volume24h: 900_000 });
+  feed.emit({ network: "base", tokenAddress: STOP_TOKEN, priceUsd: 1.0, liquidityUsd: 2_000_000, volume24h: 900_000 });
+  await settle();
+  watcher.stop();
+
+  assert.match(lastUpdate(updates, "trade-tp").pendingExit!, /Take profit alcanzado \(\+20\.0%\)/);
+  assert.match(lastUpdate(updates, "trade-stop").pendingExit!, /Trailing stop \(5% desde máximo \$1\.06/);
+
+  assert.deepEqual(calls.map((c) => c.userId).sort(), ["user-1", "user-2"]);
+  const tp = calls.find((c) => c.userId === "user-1")!;
+  assert.equal(tp.lookup.get(feedTokenKey("base", TP_TOKEN))?.price, 1.2);
+  assert.equal(tp.lookup.get(feedTokenKey("base", TP_TOKEN))?.peakPrice, 1.2);
+});
+
+test("un precio del MockPriceFeed no dispara salidas de posiciones live", async () => {
+  const { watcher, feed, calls, updates } = await start([
+    tradeRow("trade-live", "user-1", TP_TOKEN, "live"),
+    tradeRow("trade-paper", "user-1", TP_TOKEN, "paper"),
+    tradeRow("trade-other", "user-1", STOP_TOKEN, "live"),
+  ]);
+
+  feed.emit({ network: "base", tokenAddress: TP_TOKEN, priceUsd: 1.2, liquidityUsd: 2_000_000, volume24h: 900_000 });
+  await settle();
+  watcher.stop();
+
+  // El stream sigue mostrando el precio, pero sin salida pendiente para la live
+  assert.equal(lastUpdate(updates, "trade-live").currentPrice, 1.2);
+  assert.equal(lastUpdate(updates, "trade-live").pendingExit, null);
+  assert.ok(lastUpdate(updates, "trade-paper").pendingExit);
+
+  // El token lo comparte una live: su precio simulado no llega al Orchestrator
+  assert.equal(calls.length, 0);
+});
+
+test("el watcher de solo lectura (SSE) publica la salida sin ejecutarla", async () => {
+  const feed = new MockPriceFeed({ intervalMs: 0 });
+  const watcher = new PositionWatcher(fakeSupabase([tradeRow("trade-tp", "user-1", TP_TOKEN, "paper")]), {
+    feed,
+    exits: null,
+  });
+  const updates: PositionUpdate[] = [];
+  watcher.onEvent((e) => e.type === "update" && updates.push(e.update));
+  await watcher.start();
+
+  feed.emit({ network: "base", tokenAddress: TP_TOKEN, priceUsd: 1.2, liquidityUsd: 2_000_000, volume24h: 900_000 });
+  await settle();
+  watcher.stop();
+
+  assert.match(lastUpdate(updates, "trade-tp").pendingExit!, /Take profit/);
+});
+
+// ---- helpers ----
+
+async function start(rows: Record<string, unknown>[]) {
+  const feed = new MockPriceFeed({ intervalMs: 0 });
+  const calls: { userId: string; lookup: ObservationLookup }[] = [];
+  const exits: WatcherExitExecutor = async (userId, lookup) => {
+    calls.push({ userId, lookup });
+    return { exits: [], errors: [] };
+  };
+
+  const watcher = new PositionWatcher(fakeSupabase(rows), { feed, exits });
+  const updates: PositionUpdate[] = [];
+  watcher.onEvent((e) => e.type === "update" && updates.push(e.update));
+  await watcher.start();
+  return { watcher, feed, calls, updates };
+}
+
+/** Cliente que devuelve las filas dadas para `trades` y nada para el resto. */
+function fakeSupabase(trades: Record<string, unknown>[]): SupabaseClient {
+  const query = (rows: unknown[]): unknown =>
+    new Proxy({}, {
+      get: (_target, prop) =>
+        prop === "then"
+          ? (resolve: (v: unknown) => void) => resolve({ data: rows, error: null })
+          : () => query(rows),
+    });
+  return { from: (table: string) => query(table === "trades" ? trades : []) } as unknown as SupabaseClient;
+}
+
+function tradeRow(
+  id: string,
+  userId: string,
+  tokenAddress: string,
+  executionMode: "paper" | "live",
+  highestPrice = 1
+): Record<string, unknown> {
+  return {
+    id,
+    user_id: userId,
+    symbol: "TKN",
+    side: "buy",
+    layer: "core",
+    execution_mode: executionMode,
+    entry_price: 1,
+    quantity: 100,
+    fees_abs: 0,
+    opened_at: new Date().toISOString(),
+    pnl_pct: 0,
+    metadata: { tokenAddress, network: "base", highestPrice },
+  };
+}
+
+function lastUpdate(updates: PositionUpdate[], tradeId: string): PositionUpdate {
+  const found = updates.filter((u) => u.tradeId === tradeId).pop();
+  assert.ok(found, `sin update de ${tradeId}`);
+  return found;
+}
+
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,326 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createPriceFeed, feedTokenKey } from "../market/price-feed";
+import type { FeedToken, PriceFeed, PriceTick } from "../market/price-feed";
+import { PositionManager, sideSign } from "./position-manager";
+import type { ExitSignal, MarketObservation, ObservationLookup, OpenPosition } from "./position-manager";
+import { Orchestrator } from "./orchestrator";
+import { CycleLockedError } from "./cycle-lock";
+import { StrategyConfigStore, resolveStrategyConfig } from "./strategy-config";
+
+export interface PositionWatcherConfig {
+  /** Recarga de posiciones abiertas (entradas nuevas, cierres del ciclo). */
+  refreshPositionsMs: number;
+  /** Espera mínima entre dos intentos de salida del mismo usuario. */
+  exitRetryMs: number;
+}
+
+export const DEFAULT_POSITION_WATCHER_CONFIG: PositionWatcherConfig = {
+  refreshPositionsMs: 30_000,
+  exitRetryMs: 10_000,
+};
+
+/** Ejecuta las salidas de un usuario con las observaciones del stream. */
+export type WatcherExitExecutor = (
+  userId: string,
+  lookup: ObservationLookup
+) => Promise<{ exits: ExitSignal[]; errors: string[] }>;
+
+export interface PositionWatcherOptions {
+  /** Usuarios a vigilar; null = todos (requiere service role). */
+  userIds?: string[] | null;
+  /** Feed de precios; por defecto `createPriceFeed()` (y se cierra en stop). */
+  feed?: PriceFeed;
+  /**
+   * Quién ejecuta las salidas que disparan los ticks. Por defecto
+   * `Orchestrator.managePositions`; null = solo observa y publica eventos
+   * (el SSE del dashboard: las salidas las ejecuta el runner del watcher).
+   */
+  exits?: WatcherExitExecutor | null;
+  config?: Partial<PositionWatcherConfig>;
+}
+
+export interface PositionUpdate {
+  tradeId: string;
+  userId: string;
+  symbol: string;
+  network: string;
+  tokenAddress: string;
+  side: OpenPosition["side"];
+  layer: OpenPosition["layer"];
+  entryPrice: number;
+  currentPrice: number;
+  highestPrice: number;
+  trailingStopPrice: number;
+  /** Fracción con el signo del lado (0.05 = +5%). */
+  pnlPct: number;
+  liquidityUsd: number;
+  /** Origen del precio; null si aún no hay tick (valor de la BD). */
+  source: PriceTick["source"] | null;
+  at: string;
+  /** Regla de salida que dispara este tick (se ejecuta vía Orchestrator). */
+  pendingExit: string | null;
+}
+
+export type WatcherEvent =
+  | { type: "snapshot"; positions: PositionUpdate[] }
+  | { type: "update"; update: PositionUpdate }
+  | { type: "exits"; userId: string; exits: ExitSignal[] }
+  | { type: "error"; message: string };
+
+/**
+ * PositionWatcher — vigila las posiciones abiertas entre ciclos.
+ *
+ * Se suscribe al feed de precios de los tokens con posición abierta y en
+ * cada tick aplica `PositionManager.evaluateMarket` con la config del
+ * usuario. Si una regla dispara, no cierra por su cuenta: llama a
+ * `Orchestrator.managePositions` con la observación del tick (y el mejor
+ * precio visto), que toma el lease del usuario y ejecuta salida, riesgo y
+ * notificaciones igual que un ciclo. Con un ciclo en curso el lease está
+ * ocupado y se reintenta en el siguiente tick.
+ *
+ * Cada tick se publica como evento (`onEvent`) para el SSE del dashboard.
+ * El proceso que ejecuta salidas es el runner (`npm run watcher`); el SSE
+ * arranca uno solo de observación (`exits: null`). Los ticks del
+ * MockPriceFeed (random walk) nunca disparan salidas de posiciones live
+ * ni se pasan al Orchestrator como su precio.
+ */
+export class PositionWatcher {
+  private config: PositionWatcherConfig;
+  private feed: PriceFeed;
+  private ownsFeed: boolean;
+  private userIds: string[] | null;
+  private strategyStore: StrategyConfigStore;
+  private loader: PositionManager;
+  private positions = new Map<string, OpenPosition>();
+  private managers = new Map<string, PositionManager>();
+  private observations = new Map<string, MarketObservation>();
+  private tickSources = new Map<string, PriceTick["source"]>();
+  private listeners = new Set<(event: WatcherEvent) => void>();
+  private unsubscribeFeed: (() => void) | null = null;
+  private subscribedTokens = "";
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private exitsInFlight = new Set<string>();
+  private lastExitAttempt = new Map<string, number>();
+  private running = false;
+  private executeExits: WatcherExitExecutor | null;
+
+  constructor(
+    private supabase: SupabaseClient,
+    opts: PositionWatcherOptions = {}
+  ) {
+    this.config = { ...DEFAULT_POSITION_WATCHER_CONFIG, ...opts.config };
+    this.feed = opts.feed ?? createPriceFeed();
+    this.ownsFeed = !opts.feed;
+    this.userIds = opts.userIds ?? null;
+    this.executeExits = opts.exits === undefined
+      ? (userId, lookup) => new Orchestrator(supabase, userId).managePositions(lookup)
+      : opts.exits;
+    this.strategyStore = new StrategyConfigStore(supabase);
+    this.loader = new PositionManager(supabase);
+  }
+
+  onEvent(listener: (event: WatcherEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    await this.refresh();
+    this.refreshTimer = setInterval(() => void this.refresh(), this.config.refreshPositionsMs);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+    this.unsubscribeFeed?.();
+    this.unsubscribeFeed = null;
+    this.subscribedTokens = "";
+    if (this.ownsFeed) this.feed.close();
+    this.listeners.clear();
+  }
+
+  /** Últimas posiciones conocidas, con el precio del último tick. */
+  snapshot(): PositionUpdate[] {
+    return [...this.positions.values()].map((pos) => this.toUpdate(pos, null, null));
+  }
+
+  /** Recarga posiciones y configs, y ajusta la suscripción al feed. */
+  private async refresh(): Promise<void> {
+    if (!this.running) return;
+    try {
+      const loaded = this.userIds
+        ? (await Promise.all(this.userIds.map((id) => this.loader.getOpenPositions(id)))).flat()
+        : await this.loader.getOpenPositions(null);
+
+      const next = new Map<string, OpenPosition>();
+      for (const pos of loaded.filter((p) => p.tokenAddress)) {
+        // El mejor precio visto por el stream puede ir por delante de la BD
+        const known = this.positions.get(pos.tradeId);
+        if (known) {
+          pos.highestPrice = sideSign(pos.side) > 0
+            ? Math.max(pos.highestPrice, known.highestPrice)
+            : Math.min(pos.highestPrice || known.highestPrice, known.highestPrice || pos.highestPrice);
+          pos.currentPrice = known.currentPrice;
+          pos.trailingStopPrice = known.trailingStopPrice;
+        }
+        next.set(pos.tradeId, pos);
+      }
+      this.positions = next;
+
+      await this.loadManagers([...new Set(loaded.map((p) => p.userId))]);
+      this.resubscribe();
+      this.emit({ type: "snapshot", positions: this.snapshot() });
+    } catch (err) {
+      this.emit({ type: "error", message: `Posiciones: ${errMsg(err)}` });
+    }
+  }
+
+  private async loadManagers(userIds: string[]): Promise<void> {
+    const versions = await this.strategyStore.getActiveForUsers(userIds);
+    this.managers = new Map(
+      userIds.map((id) => [
+        id,
+        new PositionManager(this.supabase, resolveStrategyConfig(versions.get(id)?.config ?? null).positions),
+      ])
+    );
+  }
+
+  private resubscribe(): void {
+    const tokens = new Map<string, FeedToken>();
+    for (const pos of this.positions.values()) {
+      tokens.set(feedTokenKey(pos.network, pos.tokenAddress), {
+        network: pos.network,
+        tokenAddress: pos.tokenAddress,
+        referencePrice: pos.currentPrice || pos.entryPrice,
+      });
+    }
+
+    const signature = [...tokens.keys()].sort().join(",");
+    if (signature === this.subscribedTokens) return;
+
+    this.unsubscribeFeed?.();
+    this.subscribedTokens = signature;
+    this.unsubscribeFeed = tokens.size > 0
+      ? this.feed.subscribe([...tokens.values()], (tick) => this.onTick(tick))
+      : null;
+  }
+
+  private onTick(tick: PriceTick): void {
+    const key = feedTokenKey(tick.network, tick.tokenAddress);
+    const prev = this.observations.get(key);
+    const observation: MarketObservation = {
+      price: tick.priceUsd,
+      // El socket solo trae precio: liquidez y volumen del último polling
+      liquidityUsd: tick.liquidityUsd ?? prev?.liquidityUsd ?? 0,
+      volume24h: tick.volume24h ?? prev?.volume24h ?? 0,
+    };
+    this.observations.set(key, observation);
+    this.tickSources.set(key, tick.source);
+
+    for (const pos of this.positions.values()) {
+      if (feedTokenKey(pos.network, pos.tokenAddress) !== key) continue;
+
+      const manager = this.managers.get(pos.userId) ?? this.loader;
+      // Shock acumulado de stress events en paper; las tiradas nuevas, en checkPositions
+      const evaluation = manager.evaluateMarket(pos, manager.stressedMarket(pos, observation));
+      if (!evaluation) continue;
+
+      pos.currentPrice = evaluation.currentPrice;
+      pos.highestPrice = evaluation.highestPrice;
+      pos.trailingStopPrice = evaluation.trailingStopPrice;
+      pos.pnlPct = sideSign(pos.side) * (evaluation.currentPrice - pos.entryPrice) / pos.entryPrice;
+
+      const pendingExit = this.drivesExits(pos) ? evaluation.exit?.reason ?? null : null;
+      this.emit({ type: "update", update: this.toUpdate(pos, pendingExit, tick.source) });
+      if (pendingExit && this.executeExits) void this.triggerExits(pos.userId);
+    }
+  }
+
+  /** Un precio simulado (MockPriceFeed) no puede cerrar una posición real. */
+  private drivesExits(pos: OpenPosition): boolean {
+    return pos.executionMode !== "live" ||
+      this.tickSources.get(feedTokenKey(pos.network, pos.tokenAddress)) !== "mock";
+  }
+
+  /** Pasa las observaciones del stream al Orchestrator para que ejecute salidas. */
+  private async triggerExits(userId: string): Promise<void> {
+    const execute = this.executeExits;
+    const last = this.lastExitAttempt.get(userId) ?? 0;
+    if (!execute || this.exitsInFlight.has(userId) || Date.now() - last < this.config.exitRetryMs) return;
+
+    this.exitsInFlight.add(userId);
+    this.lastExitAttempt.set(userId, Date.now());
+    try {
+      const owned = [...this.positions.values()].filter((pos) => pos.userId === userId);
+      // El lookup va por token: si una posición live lo comparte, el precio simulado no entra
+      const simulatedOnly = new Set(
+        owned.filter((pos) => !this.drivesExits(pos)).map((pos) => feedTokenKey(pos.network, pos.tokenAddress))
+      );
+
+      const lookup: ObservationLookup = new Map();
+      for (const pos of owned) {
+        const key = feedTokenKey(pos.network, pos.tokenAddress);
+        const observation = this.observations.get(key);
+        if (observation && !simulatedOnly.has(key)) lookup.set(key, { ...observation, peakPrice: pos.highestPrice });
+      }
+      if (lookup.size === 0) return;
+
+      const result = await execute(userId, lookup);
+      for (const e of result.errors) this.emit({ type: "error", message: e });
+      if (result.exits.length > 0) {
+        this.emit({ type: "exits", userId, exits: result.exits });
+        await this.refresh();
+      }
+    } catch (err) {
+      // Con un ciclo en curso, ese ciclo ya revisa las posiciones
+      if (!(err instanceof CycleLockedError)) {
+        this.emit({ type: "error", message: `Salida ${userId}: ${errMsg(err)}` });
+      }
+    } finally {
+      this.exitsInFlight.delete(userId);
+    }
+  }
+
+  private toUpdate(
+    pos: OpenPosition,
+    pendingExit: string | null,
+    source: PriceTick["source"] | null
+  ): PositionUpdate {
+    const observation = this.observations.get(feedTokenKey(pos.network, pos.tokenAddress));
+    return {
+      tradeId: pos.tradeId,
+      userId: pos.userId,
+      symbol: pos.symbol,
+      network: pos.network,
+      tokenAddress: pos.tokenAddress,
+      side: pos.side,
+      layer: pos.layer,
+      entryPrice: pos.entryPrice,
+      currentPrice: pos.currentPrice,
+      highestPrice: pos.highestPrice,
+      trailingStopPrice: pos.trailingStopPrice,
+      pnlPct: pos.pnlPct,
+      liquidityUsd: observation?.liquidityUsd ?? 0,
+      source,
+      at: new Date().toISOString(),
+      pendingExit,
+    };
+  }
+
+  private emit(event: WatcherEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // un listener roto (p. ej. stream cerrado) no para al watcher
+      }
+    }
+  }
+}
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
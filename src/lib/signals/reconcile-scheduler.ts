@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Orchestrator } from "./orchestrator";
+import { CycleLockedError } from "./cycle-lock";
+import { fanOutWithinBudget } from "./cycle-scheduler";
+import { DEFAULT_RECONCILER_CONFIG } from "./position-reconciler";
+
+export interface ReconcileSchedulerConfig {
+  /** Reconciliaciones de usuario en paralelo. */
+  concurrency: number;
+  /** Presupuesto de reloj de la pasada completa, en ms. */
+  budgetMs: number;
+  /** Tiempo mínimo que se reserva para una reconciliación antes de arrancarla. */
+  minRunReserveMs: number;
+}
+
+export const DEFAULT_RECONCILE_SCHEDULER_CONFIG: ReconcileSchedulerConfig = {
+  concurrency: 4,
+  budgetMs: 50_000,
+  minRunReserveMs: 5_000,
+};
+
+export interface ReconcileRunSummary {
+  userId: string;
+  status: "ran" | "failed" | "locked" | "carried_over";
+  reason: string | null;
+  durationMs?: number;
+  issues?: number;
+  applied?: number;
+}
+
+export interface ReconcileTickSummary {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  autoApply: boolean;
+  concurrency: number;
+  budgetMs: number;
+  usersTotal: number;
+  runs: ReconcileRunSummary[];
+  /** Usuarios sin reconciliar en esta pasada; van primero en la siguiente. */
+  carriedOver: string[];
+}
+
+/**
+ * ReconcileScheduler — una pasada de `/api/cron/reconcile` para todos los
+ * usuarios con trades live abiertos o recientes (posibles huérfanos).
+ *
+ * Mismo reparto que el CycleScheduler (fanOutWithinBudget): como mucho
+ * `concurrency` a la vez y sin arrancar una reconciliación que no quepa
+ * en `budgetMs`. La cola va de la reconciliación más antigua a la más
+ * reciente, así que quien se queda fuera va primero en la siguiente.
+ */
+export class ReconcileScheduler {
+  private config: ReconcileSchedulerConfig;
+
+  constructor(
+    private supabase: SupabaseClient,
+    config?: Partial<ReconcileSchedulerConfig>
+  ) {
+    this.config = { ...DEFAULT_RECONCILE_SCHEDULER_CONFIG, ...config };
+  }
+
+  async tick(opts: { autoApply?: boolean } = {}): Promise<ReconcileTickSummary> {
+    const startedAt = Date.now();
+    const autoApply = opts.autoApply === true;
+    const queue = await this.loadQueue();
+    const runs = new Map<string, ReconcileRunSummary>();
+
+    await fanOutWithinBudget(
+      queue,
+      {
+        concurrency: this.config.concurrency,
+        budgetMs: this.config.budgetMs,
+        minReserveMs: this.config.minRunReserveMs,
+        startedAt,
+      },
+      async (userId) => {
+        const t0 = Date.now();
+        try {
+          const report = await new Orchestrator(this.supabase, userId).reconcilePositions(autoApply);
+          runs.set(userId, {
+            userId,
+            status: "ran",
+            reason: null,
+            durationMs: Date.now() - t0,
+            issues: report.issues,
+            applied: report.applied,
+          });
+        } catch (err) {
+          runs.set(userId, {
+            userId,
+            status: err instanceof CycleLockedError ? "locked" : "failed",
+            reason: errMsg(err),
+            durationMs: Date.now() - t0,
+          });
+        }
+      }
+    );
+
+    const summaries = queue.map((userId) =>
+      runs.get(userId) ?? {
+        userId,
+        status: "carried_over" as const,
+        reason: "Presupuesto de la pasada agotado",
+      }
+    );
+    const finishedAt = Date.now();
+
+    return {
+      startedAt: new Date(startedAt).toISOString(),
+      finishedAt: new Date(finishedAt).toISOString(),
+      durationMs: finishedAt - startedAt,
+      autoApply,
+      concurrency: this.config.concurrency,
+      budgetMs: this.config.budgetMs,
+      usersTotal: queue.length,
+      runs: summaries,
+      carriedOver: summaries.filter((r) => r.status === "carried_over").map((r) => r.userId),
+    };
+  }
+
+  /**
+   * Usuarios con trades live abiertos o cerrados dentro de la ventana de
+   * huérfanos; primero los que nunca se reconciliaron, después de la
+   * reconciliación más antigua a la más reciente.
+   */
+  private async loadQueue(): Promise<string[]> {
+    const since = new Date(
+      Date.now() - DEFAULT_RECONCILER_CONFIG.orphanLookbackDays * 86_400_000
+    ).toISOString();
+
+    const { data: rows, error } = await this.supabase
+      .from("trades")
+      .select("user_id")
+      .eq("execution_mode", "live")
+      .or(`status.eq.open,opened_at.gte.${since}`);
+    if (error) throw new Error(`trades: ${error.message}`);
+
+    const userIds = [...new Set((rows ?? []).map((r) => r.user_id as string))];
+    if (userIds.length <= 1) return userIds;
+
+    const { data: reports } = await this.supabase
+      .from("position_reconciliations")
+      .select("user_id, created_at")
+      .in("user_id", userIds)
+      .gte("created_at", new Date(Date.now() - 86_400_000).toISOString());
+
+    const lastRun = new Map<string, number>();
+    for (const r of reports ?? []) {
+      const ts = Date.parse(r.created_at as string);
+      if (ts > (lastRun.get(r.user_id as string) ?? 0)) lastRun.set(r.user_id as string, ts);
+    }
+    return userIds.sort((a, b) => (lastRun.get(a) ?? 0) - (lastRun.get(b) ?? 0));
+  }
+}
+
+// ---- helpers ----
+
+function errMsg(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,302 @@
+// ============================================================
+// SignalAttributionEngine — qué capas de confluencia tienen edge
+// ============================================================
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CONFLUENCE_COMPONENTS } from "./confluence-engine";
+import type { ConfluenceComponents } from "./confluence-engine";
+
+export type ConfluenceComponent = keyof ConfluenceComponents;
+
+export const ATTRIBUTION_WINDOWS = ["1h", "6h", "24h", "48h", "7d"] as const;
+export type AttributionWindow = (typeof ATTRIBUTION_WINDOWS)[number];
+
+/** Máximo de puntos de cada capa en `ConfluenceEngine.evaluate` (early para pattern). */
+export const CURRENT_MAX_POINTS: Record<ConfluenceComponent, number> = {
+  detector: 40,
+  wallet: 25,
+  health: 20,
+  regime: 15,
+  pattern: 10,
+};
+
+export interface AttributionRow {
+  pts_detector: number | null;
+  pts_wallet: number | null;
+  pts_health: number | null;
+  pts_regime: number | null;
+  pts_pattern: number | null;
+  pnl_pct_1h: number | null;
+  pnl_pct_6h: number | null;
+  pnl_pct_24h: number | null;
+  pnl_pct_48h: number | null;
+  pnl_pct_7d: number | null;
+  created_at: string;
+}
+
+export interface ComponentCoefficient {
+  component: ConfluenceComponent;
+  /** PnL adicional por punto de la capa (unidades de pnl_pct_*). */
+  coefficient: number;
+  stdError: number;
+  tStat: number;
+  /** Correlación simple puntos ↔ PnL de la ventana. */
+  correlation: number;
+  meanPts: number;
+}
+
+export interface WindowRegression {
+  window: AttributionWindow;
+  samples: number;
+  intercept: number;
+  rSquared: number;
+  coefficients: ComponentCoefficient[];
+  /** Capas sin variación en la muestra (no se pueden estimar). */
+  constantComponents: ConfluenceComponent[];
+}
+
+export interface WeightRecommendation {
+  component: ConfluenceComponent;
+  currentMaxPts: number;
+  recommendedMaxPts: number;
+  reason: string;
+}
+
+export interface AttributionReport {
+  days: number;
+  samples: number;
+  windows: WindowRegression[];
+  /** Ventana usada para recomendar pesos (24h, o la más larga con datos). */
+  primaryWindow: AttributionWindow | null;
+  recommendations: WeightRecommendation[];
+  verdict: string;
+  computedAt: Date;
+}
+
+const MIN_SAMPLES = 30;
+/** |t| mínimo para mover un peso. */
+const MIN_T_STAT = 1;
+/** Cambio de peso por unidad de t, acotado a [0.5x, 1.5x]. */
+const WEIGHT_PER_T = 0.1;
+
+/**
+ * SignalAttributionEngine — regresión del PnL forward de cada señal
+ * (1h/6h/24h/48h/7d) sobre los puntos que aportó cada capa de
+ * confluencia (`pts_*` en signal_outcomes).
+ *
+ * Un coeficiente positivo y significativo indica que la capa añade edge
+ * por punto; uno negativo, que resta. Las recomendaciones reparten el
+ * mismo total de puntos que hoy, moviendo peso hacia las capas con t alto.
+ */
+export class SignalAttributionEngine {
+  constructor(private supabase: SupabaseClient) {}
+
+  async compute(userId: string, days = 90): Promise<AttributionReport> {
+    const since = new Date(Date.now() - days * 24 * 3600_000).toISOString();
+
+    const { data, error } = await this.supabase
+      .from("signal_outcomes")
+      .select(
+        "pts_detector, pts_wallet, pts_health, pts_regime, pts_pattern, pnl_pct_1h, pnl_pct_6h, pnl_pct_24h, pnl_pct_48h, pnl_pct_7d, created_at"
+      )
+      .eq("user_id", userId)
+      .not("pts_detector", "is", null)
+      .gte("created_at", since)
+      .order("created_at", { ascending: true })
+      .limit(5000);
+
+    if (error) throw new Error(`signal_outcomes: ${error.message}`);
+    return buildAttributionReport((data ?? []) as AttributionRow[], days);
+  }
+}
+
+export function buildAttributionReport(rows: AttributionRow[], days: number): AttributionReport {
+  const windows = ATTRIBUTION_WINDOWS.map((w) => regressWindow(rows, w));
+
+  const usable = windows.filter((w) => w.samples >= MIN_SAMPLES);
+  const primary =
+    usable.find((w) => w.window === "24h") ??
+    usable[usable.length - 1] ??
+    null;
+
+  const recommendations = recommendWeights(primary);
+
+  let verdict: string;
+  if (!primary) {
+    verdict = `Datos insuficientes: hacen falta ${MIN_SAMPLES} señales con PnL y puntos por capa.`;
+  } else {
+    const edge = primary.coefficients
+      .filter((c) => c.tStat >= MIN_T_STAT)
+      .map((c) => c.component);
+    const drag = primary.coefficients
+      .filter((c) => c.tStat <= -MIN_T_STAT)
+      .map((c) => c.component);
+    verdict =
+      `Ventana ${primary.window} (${primary.samples} señales, R² ${primary.rSquared}): ` +
+      (edge.length > 0 ? `edge en ${edge.join(", ")}` : "ninguna capa con edge significativo") +
+      (drag.length > 0 ? `; restan ${drag.join(", ")}` : "") +
+      ".";
+  }
+
+  return {
+    days,
+    samples: rows.length,
+    windows,
+    primaryWindow: primary?.window ?? null,
+    recommendations,
+    verdict,
+    computedAt: new Date(),
+  };
+}
+
+/** OLS con intercepto: pnl ~ b0 + Σ b_k · pts_k (capas constantes fuera). */
+export function regressWindow(rows: AttributionRow[], window: AttributionWindow): WindowRegression {
+  const pnlKey = `pnl_pct_${window}` as keyof AttributionRow;
+  const sample = rows.filter((r) => r[pnlKey] !== null && r[pnlKey] !== undefined);
+  const y = sample.map((r) => Number(r[pnlKey]));
+  const ptsOf = (r: AttributionRow, c: ConfluenceComponent) =>
+    Number(r[`pts_${c}` as keyof AttributionRow] ?? 0);
+
+  const varying = CONFLUENCE_COMPONENTS.filter((c) => variance(sample.map((r) => ptsOf(r, c))) > 1e-9);
+  const constantComponents = CONFLUENCE_COMPONENTS.filter((c) => !varying.includes(c));
+
+  const empty: WindowRegression = {
+    window,
+    samples: sample.length,
+    intercept: 0,
+    rSquared: 0,
+    coefficients: [],
+    constantComponents,
+  };
+  const p = varying.length + 1;
+  if (sample.length < MIN_SAMPLES || sample.length <= p) return empty;
+
+  const X = sample.map((r) => [1, ...varying.map((c) => ptsOf(r, c))]);
+  const xtx = matrix(p, p, (i, j) => X.reduce((s, row) => s + row[i] * row[j], 0));
+  const xty = Array.from({ length: p }, (_, i) => X.reduce((s, row, k) => s + row[i] * y[k], 0));
+  const inv = invert(xtx);
+  if (!inv) return empty;
+
+  const beta = inv.map((row) => row.reduce((s, v, j) => s + v * xty[j], 0));
+  const fitted = X.map((row) => row.reduce((s, v, j) => s + v * beta[j], 0));
+  const meanY = mean(y);
+  const ssRes = y.reduce((s, v, i) => s + (v - fitted[i]) ** 2, 0);
+  const ssTot = y.reduce((s, v) => s + (v - meanY) ** 2, 0);
+  const sigma2 = ssRes / (sample.length - p);
+
+  const coefficients = varying.map((component, k) => {
+    const j = k + 1;
+    const stdError = Math.sqrt(Math.max(sigma2 * inv[j][j], 0));
+    const xs = sample.map((r) => ptsOf(r, component));
+    return {
+      component,
+      coefficient: round(beta[j]),
+      stdError: round(stdError),
+      tStat: round(stdError > 0 ? beta[j] / stdError : 0),
+      correlation: round(correlation(xs, y)),
+      meanPts: round(mean(xs)),
+    };
+  });
+
+  return {
+    window,
+    samples: sample.length,
+    intercept: round(beta[0]),
+    rSquared: round(ssTot > 0 ? 1 - ssRes / ssTot : 0),
+    coefficients,
+    constantComponents,
+  };
+}
+
+/**
+ * Escala el máximo de cada capa por su t-stat (±10% por unidad, entre
+ * 0.5x y 1.5x) y renormaliza al total actual de puntos.
+ */
+function recommendWeights(primary: WindowRegression | null): WeightRecommendation[] {
+  const byComponent = new Map(primary?.coefficients.map((c) => [c.component, c]) ?? []);
+
+  const raw = CONFLUENCE_COMPONENTS.map((component) => {
+    const coef = byComponent.get(component);
+    if (!coef) {
+      return { component, multiplier: 1, reason: primary ? "Sin variación en la muestra" : "Datos insuficientes" };
+    }
+    if (Math.abs(coef.tStat) < MIN_T_STAT) {
+      return { component, multiplier: 1, reason: `No significativo (t=${coef.tStat})` };
+    }
+    const multiplier = Math.max(0.5, Math.min(1.5, 1 + coef.tStat * WEIGHT_PER_T));
+    return {
+      component,
+      multiplier,
+      reason: `${coef.tStat > 0 ? "Aporta" : "Resta"} ${coef.coefficient} de PnL por punto (t=${coef.tStat})`,
+    };
+  });
+
+  const currentTotal = CONFLUENCE_COMPONENTS.reduce((s, c) => s + CURRENT_MAX_POINTS[c], 0);
+  const scaledTotal = raw.reduce((s, r) => s + CURRENT_MAX_POINTS[r.component] * r.multiplier, 0);
+  const norm = scaledTotal > 0 ? currentTotal / scaledTotal : 1;
+
+  return raw.map((r) => ({
+    component: r.component,
+    currentMaxPts: CURRENT_MAX_POINTS[r.component],
+    recommendedMaxPts: Math.round(CURRENT_MAX_POINTS[r.component] * r.multiplier * norm),
+    reason: r.reason,
+  }));
+}
+
+// ---- helpers ----
+
+function matrix(rows: number, cols: number, fill: (i: number, j: number) => number): number[][] {
+  return Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => fill(i, j)));
+}
+
+/** Inversa por Gauss-Jordan con pivoteo parcial; null si es singular. */
+function invert(m: number[][]): number[][] | null {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const div = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= div;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((s, v) => s + v, 0) / xs.length : 0;
+}
+
+function variance(xs: number[]): number {
+  const m = mean(xs);
+  return xs.length > 0 ? xs.reduce((s, v) => s + (v - m) ** 2, 0) / xs.length : 0;
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : 0;
+}
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
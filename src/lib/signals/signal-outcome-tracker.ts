@@ -1,5 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { DexScreenerClient } from "../market/dexscreener";
+import { componentColumns } from "./confluence-engine";
 import type { ConfluenceResult } from "./confluence-engine";
 
 const CHECK_WINDOWS = [
@@ -22,6 +23,7 @@ type SignalOutcomeRow = {
   price_24h: number | null;
   price_48h: number | null;
   price_7d: number | null;
+  metadata: Record<string, unknown> | null;
 };
 
 export class SignalOutcomeTracker {
@@ -36,30 +38,48 @@ export class SignalOutcomeTracker {
     conf: ConfluenceResult,
     wasExecuted: boolean,
     rejectReason: string | null,
-    regime: string
+    regime: string,
+    cycleId?: string
   ): Promise<void> {
     await this.supabase.from("signal_outcomes").insert({
       user_id: userId,
+      cycle_id: cycleId ?? null,
       symbol: conf.token,
       token_address: conf.tokenAddress,
       network: conf.network,
       layer: conf.layer,
       confidence: conf.confidence,
       regime,
-      entry_price: conf.sources.momentum?.price ?? 0,
-      liquidity_usd: conf.sources.momentum?.liquidityUsd ?? 0,
-      volume_24h: conf.sources.momentum?.volume24h ?? 0,
+      entry_price: conf.sources.momentum?.price ?? conf.sources.early?.price ?? conf.sources.distribution?.price ?? 0,
+      liquidity_usd: conf.sources.momentum?.liquidityUsd ?? conf.sources.early?.liquidityUsd ?? conf.sources.distribution?.liquidityUsd ?? 0,
+      volume_24h: conf.sources.momentum?.volume24h ?? conf.sources.early?.volume24h ?? conf.sources.distribution?.volume24h ?? 0,
       momentum_score: conf.sources.momentum?.momentumScore ?? 0,
       health_score: conf.sources.tokenHealth?.healthScore ?? null,
+      ...componentColumns(conf.components),
+      features: conf.scoring.features,
+      rule_confidence: conf.scoring.ruleConfidence,
+      // El shadow es el que necesita puntuaciones para poder promocionarse
+      learned_probability: (conf.scoring.shadow ?? conf.scoring.learned)?.probability ?? null,
+      learned_model_version: (conf.scoring.shadow ?? conf.scoring.learned)?.modelVersion ?? null,
+      wallet_source: conf.walletProvenance.source,
+      confidence_without_simulated: conf.walletProvenance.confidenceWithoutSimulated,
+      passes_without_simulated: conf.walletProvenance.passesWithoutSimulated,
       was_executed: wasExecuted,
       reject_reason: rejectReason,
       reasons: conf.reasons,
       metadata: {
+        signalSource: conf.signalSource,
+        // sell = short: los pnl_pct_* se guardan con el signo del lado
+        side: conf.order.side,
         momentumTier: conf.sources.momentum?.tier,
+        earlyScore: conf.sources.early?.earlyScore,
+        // Par completo en el momento de la señal → replay fiel en el backtester
+        pairSnapshot: conf.sources.momentum?.bestPair ?? conf.sources.early?.bestPair ?? conf.sources.distribution?.bestPair ?? null,
         walletConfluence: conf.sources.walletConfluence
           ? {
               count: conf.sources.walletConfluence.walletCount,
               avgScore: conf.sources.walletConfluence.avgWalletScore,
+              simulated: conf.walletProvenance.simulatedWallets,
             }
           : null,
       },
@@ -74,7 +94,7 @@ export class SignalOutcomeTracker {
     const { data: pending } = await this.supabase
       .from("signal_outcomes")
       .select(
-        "id, token_address, network, entry_price, created_at, checks_done, price_1h, price_6h, price_24h, price_48h, price_7d"
+        "id, token_address, network, entry_price, created_at, checks_done, price_1h, price_6h, price_24h, price_48h, price_7d, metadata"
       )
       .eq("fully_tracked", false)
       .order("created_at", { ascending: true })
@@ -88,6 +108,7 @@ export class SignalOutcomeTracker {
       const ageMs = Date.now() - new Date(row.created_at).getTime();
       const entryPrice = Number(row.entry_price);
       if (entryPrice <= 0) continue;
+      const sign = row.metadata?.side === "sell" ? -1 : 1;
 
       let currentPrice: number | null = null;
       const updates: Record<string, unknown> = {};
@@ -115,7 +136,7 @@ export class SignalOutcomeTracker {
 
         if (currentPrice > 0) {
           updates[win.field] = currentPrice;
-          updates[win.pnlField] = (currentPrice - entryPrice) / entryPrice;
+          updates[win.pnlField] = sign * (currentPrice - entryPrice) / entryPrice;
           newChecksDone++;
         } else {
           allFilled = false;
@@ -189,6 +210,10 @@ export class SignalOutcomeTracker {
         neutral: calcLayerMetrics(outcomes.filter((o) => o.regime === "neutral")),
       },
 
+      byNetwork: calcNetworkMetrics(outcomes),
+
+      smartMoney: calcSmartMoneyMetrics(outcomes),
+
       trackedSignals: withPrice24h.length,
       fullyTracked: withPrice7d.length,
       pendingTracking: total - withPrice7d.length,
@@ -238,6 +263,9 @@ export interface ValidationSummary {
     risk_off: LayerValidation;
     neutral: LayerValidation;
   };
+  /** Mismas métricas 24h agrupadas por red (solana, base, ethereum...). */
+  byNetwork: Record<string, LayerValidation>;
+  smartMoney: SmartMoneyValidation;
 
   trackedSignals: number;
   fullyTracked: number;
@@ -252,6 +280,19 @@ export interface LayerValidation {
   avgPnl24h: number;
 }
 
+/**
+ * Efecto de la confluencia simulada (SmartMoneySimulator): todas las
+ * señales frente a las que habrían pasado solo con wallets reales, y
+ * desglose por procedencia de la wallet confluence.
+ */
+export interface SmartMoneyValidation {
+  withSimulated: LayerValidation;
+  withoutSimulated: LayerValidation;
+  /** Señales que solo existen gracias a wallets simuladas. */
+  simulatedOnly: LayerValidation;
+  bySource: Record<"none" | "real" | "simulated" | "mixed", LayerValidation>;
+}
+
 export interface RecentSignal {
   id: string;
   symbol: string;
@@ -298,6 +339,42 @@ function calcLayerMetrics(
   };
 }
 
+function calcNetworkMetrics(
+  outcomes: Array<Record<string, unknown>>
+): Record<string, LayerValidation> {
+  const groups = new Map<string, Array<Record<string, unknown>>>();
+  for (const o of outcomes) {
+    const network = String(o.network ?? "unknown");
+    groups.set(network, [...(groups.get(network) ?? []), o]);
+  }
+  const result: Record<string, LayerValidation> = {};
+  for (const [network, rows] of groups) {
+    result[network] = calcLayerMetrics(rows);
+  }
+  return result;
+}
+
+function calcSmartMoneyMetrics(
+  outcomes: Array<Record<string, unknown>>
+): SmartMoneyValidation {
+  // Las filas sin wallet_source (anteriores) no distinguen wallets simuladas
+  const tracked = outcomes.filter((o) => o.wallet_source != null);
+  const bySource = (source: string) =>
+    calcLayerMetrics(tracked.filter((o) => o.wallet_source === source));
+
+  return {
+    withSimulated: calcLayerMetrics(tracked),
+    withoutSimulated: calcLayerMetrics(tracked.filter((o) => o.passes_without_simulated !== false)),
+    simulatedOnly: calcLayerMetrics(tracked.filter((o) => o.passes_without_simulated === false)),
+    bySource: {
+      none: bySource("none"),
+      real: bySource("real"),
+      simulated: bySource("simulated"),
+      mixed: bySource("mixed"),
+    },
+  };
+}
+
 function emptyValidation(): ValidationSummary {
   const emptyLayer: LayerValidation = { count: 0, hitRate24h: 0, avgPnl24h: 0 };
   return {
@@ -316,6 +393,13 @@ function emptyValidation(): ValidationSummary {
     avgPnl7d: 0,
     byLayer: { core: emptyLayer, satellite: emptyLayer },
     byRegime: { risk_on: emptyLayer, risk_off: emptyLayer, neutral: emptyLayer },
+    byNetwork: {},
+    smartMoney: {
+      withSimulated: emptyLayer,
+      withoutSimulated: emptyLayer,
+      simulatedOnly: emptyLayer,
+      bySource: { none: emptyLayer, real: emptyLayer, simulated: emptyLayer, mixed: emptyLayer },
+    },
     trackedSignals: 0,
     fullyTracked: 0,
     pendingTracking: 0,
@@ -88,7 +88,9 @@ const SIMULATED_WALLETS: SimulatedWallet[] = [
  *
  * Instead of relying on Arkham API, it creates synthetic "smart money"
  * buying patterns that the ConfluenceEngine can detect through the
- * standard wallet_movements table.
+ * standard wallet_movements table. Both the wallets and the movements
+ * are stored with source = "simulated", so confluence and validation can
+ * tell them apart from real activity (WalletTracker).
  *
  * Activity is deterministic per (token, date) using a seeded hash,
  * so running the same cycle twice on the same day yields identical results.
@@ -165,7 +167,7 @@ export class SmartMoneySimulator {
           network: "multi",
           label: `[SIM] ${wallet.label}`,
           category: wallet.style === "early_sniper" ? "early" : wallet.style === "alpha" ? "alpha" : "momentum",
-          source: "manual",
+          source: "simulated",
           is_active: true,
         },
         { onConflict: "user_id,address,network", ignoreDuplicates: true }
@@ -196,6 +198,7 @@ export class SmartMoneySimulator {
         network: m.network,
         direction: m.direction,
         amount_usd: m.amountUsd,
+        source: "simulated",
         metadata: { source: "simulated", score: m.score },
       }));
 
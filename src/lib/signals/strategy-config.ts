@@ -0,0 +1,527 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MomentumConfig } from "./momentum-detector";
+import { DEFAULT_MOMENTUM_CONFIG } from "./momentum-detector";
+import type { EarlyConfig } from "./early-detector";
+import { DEFAULT_EARLY_CONFIG } from "./early-detector";
+import type { ConfluenceConfig } from "./confluence-engine";
+import { DEFAULT_CONFLUENCE_CONFIG } from "./confluence-engine";
+import type { PositionManagerConfig } from "./position-manager";
+import { DEFAULT_POSITION_CONFIG } from "./position-manager";
+import type { RiskConfig } from "../engine/types";
+import { DEFAULT_RISK_CONFIG } from "../engine/types";
+import type { AdaptiveRiskConfig } from "../engine/adaptive-risk-gate";
+import { DEFAULT_ADAPTIVE_RISK_CONFIG } from "../engine/adaptive-risk-gate";
+import { DISCOVERY_NETWORKS, type NetworkOverrides } from "./network-tuning";
+
+/**
+ * Overrides por usuario sobre los defaults de cada componente.
+ * Solo se guardan los campos que el usuario cambia.
+ */
+export interface StrategyConfig {
+  momentum: Partial<MomentumConfig>;
+  early: Partial<EarlyConfig>;
+  confluence: Partial<ConfluenceConfig>;
+  positions: Partial<PositionManagerConfig>;
+  risk: Partial<Omit<RiskConfig, "core" | "satellite">> & {
+    core?: Partial<RiskConfig["core"]>;
+    satellite?: Partial<RiskConfig["satellite"]>;
+  };
+  adaptiveRisk: Partial<AdaptiveRiskConfig>;
+}
+
+/** Configuración completa (defaults + overrides) que consume el Orchestrator. */
+export interface ResolvedStrategyConfig {
+  momentum: MomentumConfig;
+  early: EarlyConfig;
+  confluence: ConfluenceConfig;
+  positions: PositionManagerConfig;
+  risk: RiskConfig;
+  adaptiveRisk: AdaptiveRiskConfig;
+}
+
+export type StrategySection = keyof StrategyConfig;
+
+export interface StrategyConfigVersion {
+  id: string;
+  version: number;
+  config: StrategyConfig;
+  isActive: boolean;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface StrategyFieldSpec {
+  /** Ruta dentro de la sección; "core.maxTradesPerDay" para campos anidados. */
+  key: string;
+  label: string;
+  kind: "number" | "integer" | "enum" | "list" | "boolean";
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+  /** Vacío = sin override (hereda el valor global). */
+  optional?: boolean;
+  /** La UI agrupa estos campos en un bloque plegable. */
+  group?: string;
+}
+
+const NETWORK_OPTIONS: string[] = [...DISCOVERY_NETWORKS];
+const NETWORK_GROUP = "Umbrales por red";
+
+/** Un campo opcional por red en `networkOverrides.<red>.<campo>`. */
+function perNetworkFields(fields: StrategyFieldSpec[]): StrategyFieldSpec[] {
+  return NETWORK_OPTIONS.flatMap((network) =>
+    fields.map((f) => ({
+      ...f,
+      key: `networkOverrides.${network}.${f.key}`,
+      label: `${network} · ${f.label}`,
+      optional: true,
+      group: NETWORK_GROUP,
+    }))
+  );
+}
+const SOURCE_OPTIONS = ["birdeye", "gecko"];
+const SCORING_MODE_OPTIONS = ["rules", "learned"];
+
+/**
+ * Esquema de validación y de la UI de /dashboard/config. Cubre todos los
+ * campos de MomentumConfig, EarlyConfig, ConfluenceConfig,
+ * PositionManagerConfig, RiskConfig y AdaptiveRiskConfig.
+ */
+export const STRATEGY_SCHEMA: Record<StrategySection, { label: string; fields: StrategyFieldSpec[] }> = {
+  momentum: {
+    label: "Momentum (trending)",
+    fields: [
+      { key: "networks", label: "Redes", kind: "list", options: NETWORK_OPTIONS },
+      { key: "source", label: "Fuente de discovery", kind: "enum", options: SOURCE_OPTIONS },
+      { key: "minLiquidityUsd", label: "Liquidez mínima (USD)", kind: "number", min: 0, max: 1e9, step: 1000 },
+      { key: "maxLiquidityUsd", label: "Liquidez máxima (USD)", kind: "number", min: 0, max: 1e10, step: 1000 },
+      { key: "minVolume24h", label: "Volumen 24h mínimo (USD)", kind: "number", min: 0, max: 1e10, step: 500 },
+      { key: "minBuyPressure", label: "Buy pressure mínima", kind: "number", min: 0, max: 100, step: 0.05 },
+      { key: "minMomentumScore", label: "Momentum score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "minPairAgeDays", label: "Edad mínima del par (días)", kind: "number", min: 0, max: 3650, step: 0.05 },
+      { key: "maxPriceChange24h", label: "Cambio de precio 24h máximo (%)", kind: "number", min: 0, max: 100_000, step: 10 },
+      ...perNetworkFields([
+        { key: "minLiquidityUsd", label: "Liquidez mínima (USD)", kind: "number", min: 0, max: 1e9, step: 1000 },
+        { key: "minPairAgeDays", label: "Edad mínima (días)", kind: "number", min: 0, max: 3650, step: 0.05 },
+        { key: "minMomentumScore", label: "Score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      ]),
+    ],
+  },
+  early: {
+    label: "Early (pools nuevos)",
+    fields: [
+      { key: "networks", label: "Redes", kind: "list", options: NETWORK_OPTIONS },
+      { key: "source", label: "Fuente de discovery", kind: "enum", options: SOURCE_OPTIONS },
+      { key: "minLiquidityUsd", label: "Liquidez mínima (USD)", kind: "number", min: 0, max: 1e9, step: 100 },
+      { key: "maxLiquidityUsd", label: "Liquidez máxima (USD)", kind: "number", min: 0, max: 1e10, step: 1000 },
+      { key: "minVolume24h", label: "Volumen 24h mínimo (USD)", kind: "number", min: 0, max: 1e10, step: 50 },
+      { key: "minBuyPressure", label: "Buy pressure mínima", kind: "number", min: 0, max: 100, step: 0.05 },
+      { key: "minBuyerSellerRatio", label: "Ratio compradores/vendedores mínimo", kind: "number", min: 0, max: 100, step: 0.05 },
+      { key: "minEarlyScore", label: "Early score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "minPairAgeHours", label: "Edad mínima del par (h)", kind: "number", min: 0, max: 720, step: 0.5 },
+      { key: "maxPairAgeHours", label: "Edad máxima del par (h)", kind: "number", min: 0, max: 720, step: 1 },
+      { key: "maxPriceChange24h", label: "Cambio de precio 24h máximo (%)", kind: "number", min: 0, max: 100_000, step: 10 },
+      ...perNetworkFields([
+        { key: "minLiquidityUsd", label: "Liquidez mínima (USD)", kind: "number", min: 0, max: 1e9, step: 100 },
+        { key: "minPairAgeHours", label: "Edad mínima (h)", kind: "number", min: 0, max: 720, step: 0.5 },
+        { key: "minEarlyScore", label: "Score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      ]),
+    ],
+  },
+  confluence: {
+    label: "Confluencia",
+    fields: [
+      { key: "minMomentumScore", label: "Momentum score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "minEarlyScore", label: "Early score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "minTokenHealth", label: "Token health mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "minTokenHealthEarly", label: "Token health mínimo (early)", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "minWalletsForConfluence", label: "Wallets mínimas para confluencia", kind: "integer", min: 0, max: 100 },
+      { key: "minWalletScoreForConfluence", label: "Wallet score mínimo", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "confluenceWindowHours", label: "Ventana de confluencia (h)", kind: "number", min: 0, max: 168, step: 1 },
+      { key: "coreMinConfidence", label: "Confianza mínima core", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "satelliteMinConfidence", label: "Confianza mínima satellite", kind: "number", min: 0, max: 100, step: 1 },
+      { key: "earlyWalletBoostMultiplier", label: "Boost de wallets en early (x)", kind: "number", min: 0, max: 10, step: 0.1 },
+      { key: "enableShorts", label: "Shorts por distribución de smart money", kind: "boolean" },
+      { key: "scoringMode", label: "Scoring (reglas o modelo aprendido)", kind: "enum", options: SCORING_MODE_OPTIONS },
+      { key: "countSimulatedWallets", label: "Contar wallets simuladas en la confluencia", kind: "boolean" },
+    ],
+  },
+  positions: {
+    label: "Gestión de posiciones",
+    fields: [
+      { key: "coreTrailingStopPct", label: "Trailing stop core", kind: "number", min: 0.001, max: 0.9, step: 0.005 },
+      { key: "satelliteTrailingStopPct", label: "Trailing stop satellite", kind: "number", min: 0.001, max: 0.9, step: 0.005 },
+      { key: "coreMaxHoldHours", label: "Holding máximo core (h)", kind: "number", min: 1, max: 2160, step: 1 },
+      { key: "satelliteMaxHoldHours", label: "Holding máximo satellite (h)", kind: "number", min: 1, max: 2160, step: 1 },
+      { key: "coreTakeProfit1Pct", label: "TP1 core", kind: "number", min: 0, max: 100, step: 0.01 },
+      { key: "coreTakeProfit2Pct", label: "TP2 core", kind: "number", min: 0, max: 100, step: 0.01 },
+      { key: "satelliteTakeProfit1Pct", label: "TP1 satellite", kind: "number", min: 0, max: 100, step: 0.01 },
+      { key: "satelliteTakeProfit2Pct", label: "TP2 satellite", kind: "number", min: 0, max: 100, step: 0.01 },
+      { key: "takeProfit1Fraction", label: "Fracción vendida en TP1", kind: "number", min: 0, max: 1, step: 0.05 },
+      { key: "volumeDropExitThreshold", label: "Salida por caída de volumen (ratio)", kind: "number", min: 0, max: 1, step: 0.05 },
+      { key: "liquidityDropExitPct", label: "Salida por caída de liquidez", kind: "number", min: 0, max: 1, step: 0.05 },
+      { key: "adverseFlowExitMinWallets", label: "Wallets en contra para salida inmediata", kind: "integer", min: 1, max: 100 },
+      { key: "adverseFlowTrailingFactor", label: "Factor de trailing con smart money en contra", kind: "number", min: 0.1, max: 1, step: 0.05 },
+      { key: "holdingStressEvents", label: "Stress events durante el holding (paper)", kind: "boolean" },
+      { key: "stressCycleMinutes", label: "Minutos por ciclo de stress", kind: "number", min: 1, max: 1440, step: 1 },
+    ],
+  },
+  risk: {
+    label: "Riesgo",
+    fields: [
+      { key: "core.maxRiskPerTradePct", label: "Riesgo por trade core", kind: "number", min: 0, max: 0.1, step: 0.0005 },
+      { key: "core.maxTradesPerDay", label: "Trades/día core", kind: "integer", min: 0, max: 100 },
+      { key: "satellite.maxRiskPerTradePct", label: "Riesgo por trade satellite", kind: "number", min: 0, max: 0.1, step: 0.0005 },
+      { key: "satellite.maxTradesPerDay", label: "Trades/día satellite", kind: "integer", min: 0, max: 100 },
+      { key: "maxDailyLossPct", label: "Pérdida diaria máxima", kind: "number", min: 0, max: 1, step: 0.005 },
+      { key: "maxWeeklyLossPct", label: "Pérdida semanal máxima", kind: "number", min: 0, max: 1, step: 0.005 },
+      { key: "satelliteConsecLossLimit", label: "Pérdidas seguidas satellite → pausa", kind: "integer", min: 1, max: 50 },
+      { key: "satelliteCooldownMs", label: "Pausa satellite (ms)", kind: "integer", min: 0, max: 30 * 24 * 3600_000 },
+      { key: "maxTotalExposurePct", label: "Exposición abierta máxima (total)", kind: "number", min: 0, max: 1, step: 0.005 },
+      { key: "maxTokenExposurePct", label: "Exposición máxima por token", kind: "number", min: 0, max: 1, step: 0.0025 },
+      { key: "maxSourceExposurePct", label: "Exposición máxima por fuente de señal", kind: "number", min: 0, max: 1, step: 0.005 },
+      { key: "maxCorrelatedPositions", label: "Posiciones correlacionadas máximas (mismo lado y régimen)", kind: "integer", min: 1, max: 100 },
+      { key: "defaultNetworkExposurePct", label: "Exposición máxima por red (resto de redes)", kind: "number", min: 0, max: 1, step: 0.005 },
+      ...NETWORK_OPTIONS.map((network): StrategyFieldSpec => ({
+        key: `maxNetworkExposurePct.${network}`,
+        label: `${network} · Exposición máxima`,
+        kind: "number",
+        min: 0,
+        max: 1,
+        step: 0.005,
+        optional: true,
+        group: "Exposición por red",
+      })),
+    ],
+  },
+  adaptiveRisk: {
+    label: "Riesgo adaptativo",
+    fields: [
+      { key: "profitFactorFloor", label: "Profit factor suelo (reduce sizing)", kind: "number", min: 0, max: 10, step: 0.05 },
+      { key: "profitFactorCeiling", label: "Profit factor techo (aumenta sizing)", kind: "number", min: 0, max: 10, step: 0.05 },
+      { key: "expectancyNegativeStreak", label: "Racha de expectancy negativa", kind: "integer", min: 1, max: 100 },
+      { key: "drawdownPauseThreshold", label: "Drawdown que sugiere pausa", kind: "number", min: 0, max: 1, step: 0.01 },
+      { key: "drawdownAdaptiveFactor", label: "Factor de reducción por drawdown", kind: "number", min: 0, max: 100, step: 0.5 },
+    ],
+  },
+};
+
+export const STRATEGY_DEFAULTS: ResolvedStrategyConfig = {
+  momentum: DEFAULT_MOMENTUM_CONFIG,
+  early: DEFAULT_EARLY_CONFIG,
+  confluence: DEFAULT_CONFLUENCE_CONFIG,
+  positions: DEFAULT_POSITION_CONFIG,
+  risk: DEFAULT_RISK_CONFIG,
+  adaptiveRisk: DEFAULT_ADAPTIVE_RISK_CONFIG,
+};
+
+export function emptyStrategyConfig(): StrategyConfig {
+  return { momentum: {}, early: {}, confluence: {}, positions: {}, risk: {}, adaptiveRisk: {} };
+}
+
+/**
+ * Valida un JSON arbitrario contra STRATEGY_SCHEMA. Devuelve la config
+ * normalizada (solo campos conocidos) y la lista de errores; si hay
+ * errores la config no debe guardarse.
+ */
+export function validateStrategyConfig(input: unknown): { config: StrategyConfig; errors: string[] } {
+  const config = emptyStrategyConfig();
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return { config, errors: ["La configuración debe ser un objeto JSON"] };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!(key in STRATEGY_SCHEMA)) errors.push(`Sección desconocida: ${key}`);
+  }
+
+  for (const section of Object.keys(STRATEGY_SCHEMA) as StrategySection[]) {
+    const raw = input[section];
+    if (raw === undefined || raw === null) continue;
+    if (!isObject(raw)) {
+      errors.push(`${section}: debe ser un objeto`);
+      continue;
+    }
+
+    const specs = STRATEGY_SCHEMA[section].fields;
+    const known = new Set(specs.map((f) => f.key.split(".")[0]));
+    for (const key of Object.keys(raw)) {
+      if (!known.has(key)) errors.push(`${section}.${key}: campo desconocido`);
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const spec of specs) {
+      const value = getPath(raw, spec.key);
+      if (value === undefined) continue;
+      const error = checkField(spec, value);
+      if (error) {
+        errors.push(`${section}.${spec.key}: ${error}`);
+        continue;
+      }
+      setPath(out, spec.key, spec.kind === "list" ? [...new Set(value as string[])] : value);
+    }
+    (config as unknown as Record<string, unknown>)[section] = out;
+  }
+
+  if (errors.length === 0) {
+    errors.push(...crossFieldErrors(resolveStrategyConfig(config)));
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Aplica los overrides sobre los defaults. risk.core/satellite, los topes
+ * por red y los networkOverrides de cada red se combinan en profundidad.
+ */
+export function resolveStrategyConfig(config: StrategyConfig | null): ResolvedStrategyConfig {
+  const c = config ?? emptyStrategyConfig();
+  return {
+    momentum: {
+      ...DEFAULT_MOMENTUM_CONFIG,
+      ...c.momentum,
+      networkOverrides: mergeNetworkOverrides(
+        DEFAULT_MOMENTUM_CONFIG.networkOverrides,
+        c.momentum?.networkOverrides
+      ),
+    },
+    early: {
+      ...DEFAULT_EARLY_CONFIG,
+      ...c.early,
+      networkOverrides: mergeNetworkOverrides(
+        DEFAULT_EARLY_CONFIG.networkOverrides,
+        c.early?.networkOverrides
+      ),
+    },
+    confluence: { ...DEFAULT_CONFLUENCE_CONFIG, ...c.confluence },
+    positions: { ...DEFAULT_POSITION_CONFIG, ...c.positions },
+    risk: {
+      ...DEFAULT_RISK_CONFIG,
+      ...c.risk,
+      core: { ...DEFAULT_RISK_CONFIG.core, ...c.risk?.core },
+      satellite: { ...DEFAULT_RISK_CONFIG.satellite, ...c.risk?.satellite },
+      maxNetworkExposurePct: {
+        ...DEFAULT_RISK_CONFIG.maxNetworkExposurePct,
+        ...c.risk?.maxNetworkExposurePct,
+      },
+    },
+    adaptiveRisk: { ...DEFAULT_ADAPTIVE_RISK_CONFIG, ...c.adaptiveRisk },
+  };
+}
+
+/**
+ * StrategyConfigStore — versiones de strategy_configs por usuario.
+ *
+ * Cada guardado crea una versión nueva y la activa; las anteriores se
+ * conservan para poder reactivarlas.
+ */
+export class StrategyConfigStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getActive(userId: string): Promise<StrategyConfigVersion | null> {
+    const { data } = await this.supabase
+      .from("strategy_configs")
+      .select("id, version, config, is_active, note, created_at")
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    return data ? toVersion(data) : null;
+  }
+
+  /** Versiones activas de varios usuarios en una sola query (scheduler). */
+  async getActiveForUsers(userIds: string[]): Promise<Map<string, StrategyConfigVersion>> {
+    const out = new Map<string, StrategyConfigVersion>();
+    if (userIds.length === 0) return out;
+
+    const { data } = await this.supabase
+      .from("strategy_configs")
+      .select("id, user_id, version, config, is_active, note, created_at")
+      .in("user_id", userIds)
+      .eq("is_active", true);
+
+    for (const row of data ?? []) out.set(row.user_id as string, toVersion(row));
+    return out;
+  }
+
+  async listVersions(userId: string, limit = 20): Promise<StrategyConfigVersion[]> {
+    const { data } = await this.supabase
+      .from("strategy_configs")
+      .select("id, version, config, is_active, note, created_at")
+      .eq("user_id", userId)
+      .order("version", { ascending: false })
+      .limit(limit);
+
+    return (data ?? []).map(toVersion);
+  }
+
+  /** Guarda una config ya validada como nueva versión activa. */
+  async saveVersion(userId: string, config: StrategyConfig, note?: string): Promise<StrategyConfigVersion> {
+    const { data: last } = await this.supabase
+      .from("strategy_configs")
+      .select("version")
+      .eq("user_id", userId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    await this.deactivateAll(userId);
+
+    const { data, error } = await this.supabase
+      .from("strategy_configs")
+      .insert({
+        user_id: userId,
+        version: (last?.version ?? 0) + 1,
+        config,
+        is_active: true,
+        note: note ?? null,
+      })
+      .select("id, version, config, is_active, note, created_at")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Error guardando strategy_configs: ${error?.message ?? "sin datos"}`);
+    }
+    return toVersion(data);
+  }
+
+  /** Reactiva una versión anterior sin crear una nueva. */
+  async activateVersion(userId: string, version: number): Promise<StrategyConfigVersion | null> {
+    const { data: target } = await this.supabase
+      .from("strategy_configs")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("version", version)
+      .maybeSingle();
+
+    if (!target) return null;
+
+    await this.deactivateAll(userId);
+    const { data } = await this.supabase
+      .from("strategy_configs")
+      .update({ is_active: true })
+      .eq("id", target.id)
+      .select("id, version, config, is_active, note, created_at")
+      .single();
+
+    return data ? toVersion(data) : null;
+  }
+
+  private async deactivateAll(userId: string): Promise<void> {
+    await this.supabase
+      .from("strategy_configs")
+      .update({ is_active: false })
+      .eq("user_id", userId)
+      .eq("is_active", true);
+  }
+}
+
+// ---- helpers ----
+
+function mergeNetworkOverrides<T>(
+  base: NetworkOverrides<T>,
+  override: NetworkOverrides<T> | undefined
+): NetworkOverrides<T> {
+  const out: NetworkOverrides<T> = { ...base };
+  for (const [network, values] of Object.entries(override ?? {})) {
+    out[network] = { ...base[network], ...values };
+  }
+  return out;
+}
+
+function crossFieldErrors(c: ResolvedStrategyConfig): string[] {
+  const errors: string[] = [];
+  if (c.momentum.minLiquidityUsd > c.momentum.maxLiquidityUsd) {
+    errors.push("momentum: minLiquidityUsd no puede superar maxLiquidityUsd");
+  }
+  if (c.early.minLiquidityUsd > c.early.maxLiquidityUsd) {
+    errors.push("early: minLiquidityUsd no puede superar maxLiquidityUsd");
+  }
+  if (c.early.minPairAgeHours > c.early.maxPairAgeHours) {
+    errors.push("early: minPairAgeHours no puede superar maxPairAgeHours");
+  }
+  if (c.positions.coreTakeProfit1Pct > c.positions.coreTakeProfit2Pct) {
+    errors.push("positions: TP1 core no puede superar TP2 core");
+  }
+  if (c.positions.satelliteTakeProfit1Pct > c.positions.satelliteTakeProfit2Pct) {
+    errors.push("positions: TP1 satellite no puede superar TP2 satellite");
+  }
+  if (c.risk.maxTokenExposurePct > c.risk.maxTotalExposurePct) {
+    errors.push("risk: la exposición por token no puede superar la exposición total");
+  }
+  if (c.risk.maxDailyLossPct > c.risk.maxWeeklyLossPct) {
+    errors.push("risk: la pérdida diaria máxima no puede superar la semanal");
+  }
+  if (c.adaptiveRisk.profitFactorFloor > c.adaptiveRisk.profitFactorCeiling) {
+    errors.push("adaptiveRisk: profitFactorFloor no puede superar profitFactorCeiling");
+  }
+  return errors;
+}
+
+function checkField(spec: StrategyFieldSpec, value: unknown): string | null {
+  switch (spec.kind) {
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !isFinite(value)) return "debe ser un número";
+      if (spec.kind === "integer" && !Number.isInteger(value)) return "debe ser un entero";
+      if (spec.min !== undefined && value < spec.min) return `mínimo ${spec.min}`;
+      if (spec.max !== undefined && value > spec.max) return `máximo ${spec.max}`;
+      return null;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? null : "debe ser true o false";
+    case "enum":
+      return typeof value === "string" && spec.options?.includes(value)
+        ? null
+        : `debe ser uno de: ${spec.options?.join(", ")}`;
+    case "list": {
+      if (!Array.isArray(value) || value.length === 0) return "debe ser una lista no vacía";
+      const invalid = value.filter((v) => typeof v !== "string" || !spec.options?.includes(v));
+      return invalid.length > 0 ? `valores no soportados: ${invalid.join(", ")}` : null;
+    }
+  }
+}
+
+function getPath(obj: Record<string, unknown>, path: string): unknown {
+  let cur: unknown = obj;
+  for (const part of path.split(".")) {
+    if (!isObject(cur)) return undefined;
+    cur = cur[part];
+  }
+  return cur;
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split(".");
+  let cur = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (!isObject(cur[part])) cur[part] = {};
+    cur = cur[part] as Record<string, unknown>;
+  }
+  cur[parts[parts.length - 1]] = value;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toVersion(row: {
+  id: string;
+  version: number;
+  config: unknown;
+  is_active: boolean;
+  note: string | null;
+  created_at: string;
+}): StrategyConfigVersion {
+  return {
+    id: row.id,
+    version: row.version,
+    // Las versiones guardadas ya pasaron la validación; se normaliza por si el esquema cambió
+    config: validateStrategyConfig(row.config).config,
+    isActive: row.is_active,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,231 @@
+// ============================================================
+// WalkForwardEvaluator — validación fuera de muestra de umbrales
+// ============================================================
+
+import type { Layer } from "../engine/types";
+
+/** Umbrales que ajusta el IncrementalCalibrator y que se validan aquí. */
+export interface ThresholdSet {
+  momentumScoreThreshold: number;
+  earlyScoreThreshold: number;
+  coreMinConfidence: number;
+  satelliteMinConfidence: number;
+}
+
+/** Fila de signal_outcomes con lo necesario para el replay. */
+export type ReplayOutcome = {
+  layer?: unknown;
+  confidence?: unknown;
+  momentum_score?: unknown;
+  pnl_pct_24h: unknown;
+  created_at?: unknown;
+  metadata?: unknown;
+};
+
+export interface WalkForwardConfig {
+  /** Señales de cada ventana de entrenamiento (de donde sale la propuesta). */
+  trainSize: number;
+  /** Señales de cada ventana de test (fuera de muestra). */
+  testSize: number;
+  /** Desplazamiento entre folds consecutivos. */
+  step: number;
+  /** Folds mínimos para poder aceptar un cambio. */
+  minFolds: number;
+  /** Señales mínimas que la propuesta debe dejar pasar en el test agregado. */
+  minTestSignals: number;
+  /** Mejora mínima de PF fuera de muestra (absoluta) para aceptar. */
+  minPfImprovement: number;
+  /** Peso del pnl por capa (proporcional al riesgo por trade). */
+  layerWeights: Record<Layer, number>;
+}
+
+export const DEFAULT_WALK_FORWARD_CONFIG: WalkForwardConfig = {
+  trainSize: 60,
+  testSize: 20,
+  step: 20,
+  minFolds: 2,
+  minTestSignals: 5,
+  minPfImprovement: 0,
+  layerWeights: { core: 1, satellite: 0.5 },
+};
+
+export interface ReplayScore {
+  profitFactor: number;
+  expectancy: number;
+  /** Señales que pasan los umbrales. */
+  signals: number;
+}
+
+export interface WalkForwardFold {
+  trainFrom: string | null;
+  trainTo: string | null;
+  testFrom: string | null;
+  testTo: string | null;
+  proposal: ThresholdSet;
+  baseline: ReplayScore;
+  candidate: ReplayScore;
+}
+
+export interface WalkForwardResult {
+  accepted: boolean;
+  reason: string;
+  /** Agregado de todos los folds con los umbrales actuales. */
+  baseline: ReplayScore;
+  /** Agregado de todos los folds con las propuestas de cada train. */
+  candidate: ReplayScore;
+  folds: WalkForwardFold[];
+  evaluatedAt: string;
+}
+
+export type ThresholdProposer = (train: ReplayOutcome[], current: ThresholdSet) => ThresholdSet;
+
+/**
+ * WalkForwardEvaluator — decide si un recalibrado mejora fuera de muestra.
+ *
+ * Parte los outcomes (ordenados del más antiguo al más reciente) en
+ * ventanas train/test rodantes. En cada fold, `propose` calcula umbrales
+ * solo con el train y se reproducen contra el test junto a los umbrales
+ * actuales. El cambio se acepta si el profit factor agregado de los tests
+ * con las propuestas supera al de los umbrales actuales.
+ *
+ * Limitación: signal_outcomes solo guarda señales que ya pasaron los
+ * umbrales de su momento, así que bajar un umbral no puede "recuperar"
+ * señales descartadas; el replay mide sobre todo el efecto de endurecer.
+ */
+export class WalkForwardEvaluator {
+  private config: WalkForwardConfig;
+
+  constructor(config: Partial<WalkForwardConfig> = {}) {
+    this.config = { ...DEFAULT_WALK_FORWARD_CONFIG, ...config };
+  }
+
+  evaluate(
+    outcomes: ReplayOutcome[],
+    current: ThresholdSet,
+    propose: ThresholdProposer
+  ): WalkForwardResult {
+    const { trainSize, testSize, step } = this.config;
+    const folds: WalkForwardFold[] = [];
+    const baselinePnls: number[] = [];
+    const candidatePnls: number[] = [];
+
+    for (let start = 0; start + trainSize + testSize <= outcomes.length; start += step) {
+      const train = outcomes.slice(start, start + trainSize);
+      const test = outcomes.slice(start + trainSize, start + trainSize + testSize);
+      const proposal = propose(train, current);
+
+      const basePnls = this.replayPnls(test, current);
+      const candPnls = this.replayPnls(test, proposal);
+      baselinePnls.push(...basePnls);
+      candidatePnls.push(...candPnls);
+
+      folds.push({
+        trainFrom: dateOf(train[0]),
+        trainTo: dateOf(train[train.length - 1]),
+        testFrom: dateOf(test[0]),
+        testTo: dateOf(test[test.length - 1]),
+        proposal,
+        baseline: score(basePnls),
+        candidate: score(candPnls),
+      });
+    }
+
+    const baseline = score(baselinePnls);
+    const candidate = score(candidatePnls);
+    const result = (accepted: boolean, reason: string): WalkForwardResult => ({
+      accepted,
+      reason,
+      baseline,
+      candidate,
+      folds,
+      evaluatedAt: new Date().toISOString(),
+    });
+
+    if (folds.length < this.config.minFolds) {
+      return result(false, `Datos insuficientes: ${folds.length}/${this.config.minFolds} folds`);
+    }
+    if (candidate.signals < this.config.minTestSignals) {
+      return result(false, `La propuesta deja pasar ${candidate.signals} señales fuera de muestra`);
+    }
+    if (candidate.profitFactor <= baseline.profitFactor + this.config.minPfImprovement) {
+      return result(
+        false,
+        `PF fuera de muestra no mejora (${candidate.profitFactor} vs ${baseline.profitFactor})`
+      );
+    }
+    return result(
+      true,
+      `PF fuera de muestra ${baseline.profitFactor} → ${candidate.profitFactor}`
+    );
+  }
+
+  /** Pnl (ponderado por capa) de las señales del test que pasan los umbrales. */
+  private replayPnls(test: ReplayOutcome[], thresholds: ThresholdSet): number[] {
+    const pnls: number[] = [];
+    for (const o of test) {
+      const layer = replayLayer(o, thresholds);
+      if (!layer) continue;
+      pnls.push(Number(o.pnl_pct_24h ?? 0) * this.config.layerWeights[layer]);
+    }
+    return pnls;
+  }
+}
+
+/**
+ * Capa que tendría la señal con estos umbrales, o null si no pasa.
+ * Replica los cortes de ConfluenceEngine: score del detector y
+ * satelliteMinConfidence para pasar, coreMinConfidence para ser core.
+ */
+export function replayLayer(o: ReplayOutcome, t: ThresholdSet): Layer | null {
+  const confidence = Number(o.confidence ?? 0);
+  if (confidence < t.satelliteMinConfidence) return null;
+
+  const source = outcomeSource(o);
+  if (source === "momentum") {
+    const momentumScore = Number(o.momentum_score ?? 0);
+    if (momentumScore > 0 && momentumScore < t.momentumScoreThreshold) return null;
+  } else if (source === "early") {
+    const meta = o.metadata as Record<string, unknown> | null;
+    const earlyScore = Number(meta?.earlyScore ?? 0);
+    if (earlyScore > 0 && earlyScore < t.earlyScoreThreshold) return null;
+  }
+
+  return confidence >= t.coreMinConfidence ? "core" : "satellite";
+}
+
+/** Detector que originó la señal (metadata.signalSource). */
+export function outcomeSource(o: { metadata?: unknown }): "momentum" | "early" | "unknown" {
+  const meta = o.metadata as Record<string, unknown> | null;
+  const src = String(meta?.signalSource ?? "");
+  if (src.includes("momentum") || src.includes("trending")) return "momentum";
+  if (src.includes("early")) return "early";
+  return "unknown";
+}
+
+export function sameThresholds(a: ThresholdSet, b: ThresholdSet): boolean {
+  return (
+    a.momentumScoreThreshold === b.momentumScoreThreshold &&
+    a.earlyScoreThreshold === b.earlyScoreThreshold &&
+    a.coreMinConfidence === b.coreMinConfidence &&
+    a.satelliteMinConfidence === b.satelliteMinConfidence
+  );
+}
+
+// ---- helpers ----
+
+function score(pnls: number[]): ReplayScore {
+  const grossProfit = pnls.filter((v) => v > 0).reduce((s, v) => s + v, 0);
+  const grossLoss = Math.abs(pnls.filter((v) => v < 0).reduce((s, v) => s + v, 0));
+  // Mismo tope que el calibrador cuando no hay pérdidas
+  const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 10 : 0;
+  const expectancy = pnls.length > 0 ? pnls.reduce((s, v) => s + v, 0) / pnls.length : 0;
+  return { profitFactor: round(profitFactor), expectancy: round(expectancy), signals: pnls.length };
+}
+
+function dateOf(o: ReplayOutcome | undefined): string | null {
+  return o?.created_at ? String(o.created_at) : null;
+}
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
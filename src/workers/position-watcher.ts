@@ -0,0 +1,54 @@
+/**
+ * Runner del PositionWatcher — proceso de larga duración que vigila las
+ * posiciones abiertas de todos los usuarios y ejecuta sus salidas entre
+ * ciclos (vía Orchestrator, con el lease de cada usuario).
+ *
+ *   npm run watcher
+ *
+ * Usa el service role (NEXT_PUBLIC_SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY)
+ * porque lee las posiciones de todos los usuarios. Es el único que ejecuta
+ * salidas del stream: el SSE del dashboard solo observa. Se para con
+ * SIGINT/SIGTERM.
+ */
+
+import { createAdminClient } from "../lib/supabase/admin";
+import { PositionWatcher } from "../lib/signals/position-watcher";
+import type { WatcherEvent } from "../lib/signals/position-watcher";
+
+function main(): void {
+  const watcher = new PositionWatcher(createAdminClient());
+  let tracked = -1;
+
+  watcher.onEvent((event: WatcherEvent) => {
+    if (event.type === "snapshot" && event.positions.length !== tracked) {
+      tracked = event.positions.length;
+      log(`${tracked} posiciones abiertas vigiladas`);
+    } else if (event.type === "exits") {
+      for (const exit of event.exits) log(`Salida ${event.userId} trade ${exit.tradeId}: ${exit.reason}`);
+    } else if (event.type === "error") {
+      console.error(`[watcher] ${event.message}`);
+    }
+  });
+
+  const shutdown = (signal: string) => {
+    log(`${signal}: parando`);
+    watcher.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  watcher.start().then(
+    () => log(`en marcha (feed ${process.env.PRICE_FEED ?? "auto"})`),
+    (err) => {
+      console.error(`[watcher] no arranca: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  );
+}
+
+function log(message: string): void {
+  console.log(`[watcher] ${new Date().toISOString()} ${message}`);
+}
+
+main();
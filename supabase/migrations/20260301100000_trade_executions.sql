@@ -0,0 +1,33 @@
+-- ============================================================
+-- Trade executions: fills hijos de cada trade (entrada, TP parcial, salida)
+-- ============================================================
+
+create table if not exists public.trade_executions (
+  id            uuid primary key default gen_random_uuid(),
+  trade_id      uuid not null references public.trades(id) on delete cascade,
+  user_id       uuid not null references auth.users(id) on delete cascade,
+  kind          text not null check (kind in ('entry','partial_exit','exit')),
+  side          text not null check (side in ('buy','sell')),
+  quantity      numeric(24,10) not null,
+  price         numeric(24,10) not null,
+  pnl_abs       numeric(24,10),
+  fees_abs      numeric(24,10),
+  reason        text,
+  metadata      jsonb not null default '{}'::jsonb,
+  executed_at   timestamptz not null default now(),
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists idx_trade_executions_trade
+on public.trade_executions(trade_id, executed_at);
+
+create index if not exists idx_trade_executions_user_executed_at
+on public.trade_executions(user_id, executed_at desc);
+
+alter table public.trade_executions enable row level security;
+
+create policy "trade_executions_select_own" on public.trade_executions
+  for select using (auth.uid() = user_id);
+
+create policy "trade_executions_insert_own" on public.trade_executions
+  for insert with check (auth.uid() = user_id);
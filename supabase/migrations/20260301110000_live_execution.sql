@@ -0,0 +1,16 @@
+-- ============================================================
+-- Live execution: modo de ejecución por usuario + tx hashes
+-- ============================================================
+
+alter table public.profiles
+  add column if not exists execution_mode text not null default 'paper'
+    check (execution_mode in ('paper','live','shadow'));
+
+alter table public.trades
+  add column if not exists tx_hash text;
+
+alter table public.trade_executions
+  add column if not exists tx_hash text;
+
+create index if not exists idx_trades_tx_hash
+on public.trades(tx_hash) where tx_hash is not null;
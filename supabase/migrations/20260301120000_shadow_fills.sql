@@ -0,0 +1,40 @@
+-- ============================================================
+-- Shadow fills: fill de paper vs cotización de ruta por orden
+-- ============================================================
+
+create table if not exists public.shadow_fills (
+  id                      uuid primary key default gen_random_uuid(),
+  trade_id                uuid references public.trades(id) on delete cascade,
+  user_id                 uuid not null references auth.users(id) on delete cascade,
+  symbol                  text not null,
+  token_address           text not null,
+  network                 text not null,
+  side                    text not null check (side in ('buy','sell')),
+  amount_usd              numeric(24,10) not null,
+  mid_price               numeric(24,10) not null,
+  paper_price             numeric(24,10) not null,
+  paper_slippage_pct      numeric(12,8) not null,
+  model_slippage_pct      numeric(12,8),
+  model_competition_pct   numeric(12,8),
+  model_price_impact_pct  numeric(12,8),
+  quoted_price            numeric(24,10) not null,
+  quoted_slippage_pct     numeric(12,8) not null,
+  quoted_price_impact_pct numeric(12,8),
+  quoted_fee_pct          numeric(12,8),
+  slippage_gap_pct        numeric(12,8) not null,
+  quote_source            text not null,
+  route_label             text,
+  quote_liquidity_usd     numeric(24,2),
+  created_at              timestamptz not null default now()
+);
+
+create index if not exists idx_shadow_fills_user_created_at
+on public.shadow_fills(user_id, created_at desc);
+
+alter table public.shadow_fills enable row level security;
+
+create policy "shadow_fills_select_own" on public.shadow_fills
+  for select using (auth.uid() = user_id);
+
+create policy "shadow_fills_insert_own" on public.shadow_fills
+  for insert with check (auth.uid() = user_id);
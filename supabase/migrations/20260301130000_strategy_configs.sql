@@ -0,0 +1,29 @@
+-- ============================================================
+-- Strategy configs: overrides de estrategia versionados por usuario
+-- ============================================================
+
+create table if not exists public.strategy_configs (
+  id          uuid primary key default gen_random_uuid(),
+  user_id     uuid not null references auth.users(id) on delete cascade,
+  version     int not null,
+  config      jsonb not null default '{}'::jsonb,
+  is_active   boolean not null default false,
+  note        text,
+  created_at  timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+-- Como mucho una versión activa por usuario
+create unique index if not exists idx_strategy_configs_user_active
+on public.strategy_configs(user_id) where is_active;
+
+alter table public.strategy_configs enable row level security;
+
+create policy "strategy_configs_select_own" on public.strategy_configs
+  for select using (auth.uid() = user_id);
+
+create policy "strategy_configs_insert_own" on public.strategy_configs
+  for insert with check (auth.uid() = user_id);
+
+create policy "strategy_configs_update_own" on public.strategy_configs
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,62 @@
+-- ============================================================
+-- Notificaciones: canales por usuario y log de entregas
+-- ============================================================
+
+create table if not exists public.notification_channels (
+  id            uuid primary key default gen_random_uuid(),
+  user_id       uuid not null references auth.users(id) on delete cascade,
+  kind          text not null check (kind in ('webhook', 'telegram', 'email')),
+  -- URL del webhook, chat_id de Telegram o dirección de email
+  target        text not null,
+  -- Secreto HMAC del webhook o token del bot de Telegram (opcional)
+  secret        text,
+  -- Eventos suscritos; vacío = todos
+  events        text[] not null default '{}',
+  enabled       boolean not null default true,
+  max_per_hour  int not null default 20 check (max_per_hour > 0),
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create index if not exists idx_notification_channels_user
+on public.notification_channels(user_id);
+
+alter table public.notification_channels enable row level security;
+
+create policy "notification_channels_select_own" on public.notification_channels
+  for select using (auth.uid() = user_id);
+
+create policy "notification_channels_insert_own" on public.notification_channels
+  for insert with check (auth.uid() = user_id);
+
+create policy "notification_channels_update_own" on public.notification_channels
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "notification_channels_delete_own" on public.notification_channels
+  for delete using (auth.uid() = user_id);
+
+create table if not exists public.notification_deliveries (
+  id           uuid primary key default gen_random_uuid(),
+  user_id      uuid not null references auth.users(id) on delete cascade,
+  channel_id   uuid references public.notification_channels(id) on delete set null,
+  event_type   text not null,
+  status       text not null check (status in ('sent', 'failed', 'rate_limited')),
+  http_status  int,
+  error        text,
+  payload      jsonb not null default '{}'::jsonb,
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists idx_notification_deliveries_channel_created
+on public.notification_deliveries(channel_id, created_at desc);
+
+create index if not exists idx_notification_deliveries_user_created
+on public.notification_deliveries(user_id, created_at desc);
+
+alter table public.notification_deliveries enable row level security;
+
+create policy "notification_deliveries_select_own" on public.notification_deliveries
+  for select using (auth.uid() = user_id);
+
+create policy "notification_deliveries_insert_own" on public.notification_deliveries
+  for insert with check (auth.uid() = user_id);
@@ -0,0 +1,133 @@
+-- ============================================================
+-- Cycle locks: lease por usuario, cycle_id en trades / señales /
+-- cycle_runs e incrementos atómicos de risk_state
+-- ============================================================
+
+create table if not exists public.cycle_locks (
+  user_id      uuid primary key references auth.users(id) on delete cascade,
+  cycle_id     uuid not null,
+  acquired_at  timestamptz not null default now(),
+  -- Un ciclo que muere sin liberar el lease lo pierde al expirar
+  expires_at   timestamptz not null
+);
+
+alter table public.cycle_locks enable row level security;
+
+create policy "cycle_locks_select_own" on public.cycle_locks
+  for select using (auth.uid() = user_id);
+
+create policy "cycle_locks_insert_own" on public.cycle_locks
+  for insert with check (auth.uid() = user_id);
+
+create policy "cycle_locks_update_own" on public.cycle_locks
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "cycle_locks_delete_own" on public.cycle_locks
+  for delete using (auth.uid() = user_id);
+
+-- Toma el lease si no existe o ha expirado. true = adquirido.
+create or replace function public.acquire_cycle_lock(
+  p_user_id uuid,
+  p_cycle_id uuid,
+  p_ttl_seconds int default 600
+)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_acquired boolean;
+begin
+  insert into public.cycle_locks (user_id, cycle_id, acquired_at, expires_at)
+  values (p_user_id, p_cycle_id, now(), now() + make_interval(secs => p_ttl_seconds))
+  on conflict (user_id) do update
+    set cycle_id = excluded.cycle_id,
+        acquired_at = excluded.acquired_at,
+        expires_at = excluded.expires_at
+    where public.cycle_locks.expires_at < now()
+  returning true into v_acquired;
+
+  return coalesce(v_acquired, false);
+end;
+$$;
+
+-- Libera el lease solo si sigue siendo del ciclo que lo tomó.
+create or replace function public.release_cycle_lock(p_user_id uuid, p_cycle_id uuid)
+returns void
+language sql
+as $$
+  delete from public.cycle_locks
+  where user_id = p_user_id and cycle_id = p_cycle_id;
+$$;
+
+-- Suma deltas a los contadores de risk_state en una sola sentencia
+-- (sin read-modify-write desde la app). Devuelve los valores nuevos.
+create or replace function public.increment_risk_state(
+  p_user_id uuid,
+  p_trades_core int default 0,
+  p_trades_satellite int default 0,
+  p_pnl numeric default 0
+)
+returns table (
+  pnl_today numeric,
+  pnl_this_week numeric,
+  trades_today_core int,
+  trades_today_satellite int
+)
+language sql
+as $$
+  update public.risk_state rs
+  set trades_today_core = rs.trades_today_core + p_trades_core,
+      trades_today_satellite = rs.trades_today_satellite + p_trades_satellite,
+      pnl_today = rs.pnl_today + p_pnl,
+      pnl_this_week = rs.pnl_this_week + p_pnl
+  where rs.user_id = p_user_id
+  returning rs.pnl_today, rs.pnl_this_week, rs.trades_today_core, rs.trades_today_satellite;
+$$;
+
+alter table public.trades
+  add column if not exists cycle_id uuid;
+
+alter table public.signal_outcomes
+  add column if not exists cycle_id uuid;
+
+alter table public.cycle_runs
+  add column if not exists cycle_id uuid;
+
+create index if not exists idx_trades_cycle
+on public.trades(cycle_id) where cycle_id is not null;
+
+create index if not exists idx_signal_outcomes_cycle
+on public.signal_outcomes(cycle_id) where cycle_id is not null;
+
+create unique index if not exists uq_cycle_runs_cycle
+on public.cycle_runs(cycle_id) where cycle_id is not null;
+
+-- Una sola posición abierta por token y usuario. Los duplicados abiertos
+-- previos a esta migración se marcan como fallidos (se queda la posición
+-- más antigua de cada token) para que el índice se pueda crear; en live,
+-- el PositionReconciler los verá como huérfanos si el venue aún tiene saldo.
+with ranked as (
+  select
+    id,
+    row_number() over (
+      partition by user_id, lower(metadata->>'network'), lower(metadata->>'tokenAddress')
+      order by opened_at asc, id
+    ) as rn
+  from public.trades
+  where status = 'open' and metadata ? 'tokenAddress'
+)
+update public.trades t
+set status = 'failed',
+    error_message = 'Posición abierta duplicada del mismo token (dedupe de uq_trades_open_token)',
+    closed_at = now(),
+    updated_at = now()
+from ranked r
+where t.id = r.id and r.rn > 1;
+
+create unique index if not exists uq_trades_open_token
+on public.trades (
+  user_id,
+  lower(metadata->>'network'),
+  lower(metadata->>'tokenAddress')
+)
+where status = 'open' and metadata ? 'tokenAddress';
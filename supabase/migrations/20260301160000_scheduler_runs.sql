@@ -0,0 +1,27 @@
+-- ============================================================
+-- Scheduler runs: resumen de cada tick de /api/cron/cycle
+-- ============================================================
+
+create table if not exists public.scheduler_runs (
+  id            uuid primary key default gen_random_uuid(),
+  started_at    timestamptz not null,
+  finished_at   timestamptz not null,
+  duration_ms   int not null,
+  concurrency   int not null,
+  budget_ms     int not null,
+  users_total   int not null default 0,
+  users_ran     int not null default 0,
+  -- Discovery compartido: pools escaneados y errores de las APIs
+  discovery     jsonb not null default '{}'::jsonb,
+  -- [{ userId, status: ran|failed|locked|carried_over, reason, cycleId, durationMs, ... }]
+  runs          jsonb not null default '[]'::jsonb,
+  -- Usuarios sin ciclo en este tick; el siguiente tick empieza por ellos
+  carried_over  uuid[] not null default '{}',
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists idx_scheduler_runs_started
+on public.scheduler_runs(started_at desc);
+
+-- Solo el service role (cron) lee y escribe: RLS sin policies
+alter table public.scheduler_runs enable row level security;
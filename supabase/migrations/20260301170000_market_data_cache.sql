@@ -0,0 +1,18 @@
+-- ============================================================
+-- Market data cache: respuestas de DexScreener / GeckoTerminal /
+-- Birdeye compartidas entre invocaciones (MARKET_CACHE_BACKEND=supabase)
+-- ============================================================
+
+create table if not exists public.market_data_cache (
+  -- "<endpoint>:<clave>", p. ej. "dexscreener.token_pairs:solana:<mint>"
+  key         text primary key,
+  value       jsonb not null,
+  expires_at  timestamptz not null,
+  updated_at  timestamptz not null default now()
+);
+
+create index if not exists idx_market_data_cache_expires
+on public.market_data_cache(expires_at);
+
+-- Solo el service role lee y escribe: RLS sin policies
+alter table public.market_data_cache enable row level security;
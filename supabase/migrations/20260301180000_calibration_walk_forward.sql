@@ -0,0 +1,9 @@
+-- ============================================================
+-- Calibration state: validación walk-forward de los umbrales
+-- ============================================================
+
+alter table public.calibration_state
+  -- WalkForwardResult del último recalibrado que propuso cambios
+  add column if not exists walk_forward       jsonb,
+  -- Propuestas rechazadas (más reciente primero, máx. 20) con sus scores
+  add column if not exists rejected_proposals jsonb not null default '[]'::jsonb;
@@ -0,0 +1,57 @@
+-- ============================================================
+-- Calibration history: cada cambio de umbrales del calibrador
+-- (y cada rollback) con las métricas que lo motivaron
+-- ============================================================
+
+create table if not exists public.calibration_history (
+  id                        uuid primary key default gen_random_uuid(),
+  user_id                   uuid not null references auth.users(id) on delete cascade,
+  version                   int not null,
+  source                    text not null default 'recalibration'
+    check (source in ('recalibration','rollback')),
+  -- Versión restaurada cuando source = 'rollback'
+  restored_version          int,
+  momentum_score_threshold  numeric not null,
+  early_score_threshold     numeric not null,
+  core_min_confidence       numeric not null,
+  satellite_min_confidence  numeric not null,
+  hit_rate_24h_core         numeric not null default 0,
+  hit_rate_24h_satellite    numeric not null default 0,
+  avg_pnl_24h               numeric not null default 0,
+  profit_factor_rolling     numeric not null default 0,
+  expectancy_rolling        numeric not null default 0,
+  exposure_momentum_pct     numeric not null default 50,
+  exposure_early_pct        numeric not null default 50,
+  detector_interaction      jsonb,
+  walk_forward              jsonb,
+  note                      text,
+  created_at                timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+create index if not exists idx_calibration_history_user_created
+on public.calibration_history(user_id, created_at desc);
+
+-- Append-only: sin policies de update ni delete
+alter table public.calibration_history enable row level security;
+
+create policy "calibration_history_select_own" on public.calibration_history
+  for select using (auth.uid() = user_id);
+
+create policy "calibration_history_insert_own" on public.calibration_history
+  for insert with check (auth.uid() = user_id);
+
+-- El estado actual de cada usuario es la versión 1 de su historial
+insert into public.calibration_history (
+  user_id, version, source,
+  momentum_score_threshold, early_score_threshold, core_min_confidence, satellite_min_confidence,
+  hit_rate_24h_core, hit_rate_24h_satellite, avg_pnl_24h, profit_factor_rolling, expectancy_rolling,
+  exposure_momentum_pct, exposure_early_pct, detector_interaction, walk_forward, created_at
+)
+select
+  user_id, 1, 'recalibration',
+  momentum_score_threshold, early_score_threshold, core_min_confidence, satellite_min_confidence,
+  hit_rate_24h_core, hit_rate_24h_satellite, avg_pnl_24h, profit_factor_rolling, expectancy_rolling,
+  exposure_momentum_pct, exposure_early_pct, detector_interaction, walk_forward, calibrated_at
+from public.calibration_state
+on conflict (user_id, version) do nothing;
@@ -0,0 +1,18 @@
+-- ============================================================
+-- Confluence components: puntos que aporta cada capa del
+-- ConfluenceEngine (detector, wallets, health, régimen, patrón)
+-- ============================================================
+
+alter table public.signal_outcomes
+  add column if not exists pts_detector numeric,
+  add column if not exists pts_wallet   numeric,
+  add column if not exists pts_health   numeric,
+  add column if not exists pts_regime   numeric,
+  add column if not exists pts_pattern  numeric;
+
+alter table public.trades
+  add column if not exists pts_detector numeric,
+  add column if not exists pts_wallet   numeric,
+  add column if not exists pts_health   numeric,
+  add column if not exists pts_regime   numeric,
+  add column if not exists pts_pattern  numeric;
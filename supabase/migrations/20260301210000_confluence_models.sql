@@ -0,0 +1,44 @@
+-- ============================================================
+-- Confluence models: modelo aprendido de P(win 24h) por usuario
+-- (versionado, shadow → active) y sus puntuaciones en cada señal
+-- ============================================================
+
+alter table public.signal_outcomes
+  add column if not exists features              jsonb,
+  add column if not exists rule_confidence       numeric,
+  add column if not exists learned_probability   numeric,
+  add column if not exists learned_model_version int;
+
+create table if not exists public.confluence_models (
+  id             uuid primary key default gen_random_uuid(),
+  user_id        uuid not null references auth.users(id) on delete cascade,
+  version        int not null,
+  status         text not null default 'shadow'
+    check (status in ('shadow','active','retired')),
+  kind           text not null default 'logistic' check (kind in ('logistic')),
+  feature_names  text[] not null,
+  -- Coeficientes, estandarización y cuantiles para mapear a confianza
+  params         jsonb not null,
+  -- AUC / log loss fuera de muestra y evaluación en shadow
+  metrics        jsonb not null default '{}'::jsonb,
+  trained_until  timestamptz not null,
+  promoted_at    timestamptz,
+  retired_at     timestamptz,
+  created_at     timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+-- Como mucho un modelo activo por usuario
+create unique index if not exists idx_confluence_models_user_active
+on public.confluence_models(user_id) where status = 'active';
+
+alter table public.confluence_models enable row level security;
+
+create policy "confluence_models_select_own" on public.confluence_models
+  for select using (auth.uid() = user_id);
+
+create policy "confluence_models_insert_own" on public.confluence_models
+  for insert with check (auth.uid() = user_id);
+
+create policy "confluence_models_update_own" on public.confluence_models
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,38 @@
+-- ============================================================
+-- Smart money provenance: movimientos reales (Arkham / indexer
+-- on-chain) vs simulados (SmartMoneySimulator) y si cada señal
+-- habría pasado sin la confluencia simulada
+-- ============================================================
+
+alter table public.wallet_movements
+  add column if not exists source text not null default 'arkham';
+
+update public.wallet_movements
+set source = 'simulated'
+where metadata->>'source' = 'simulated';
+
+alter table public.wallet_movements
+  drop constraint if exists wallet_movements_source_check;
+alter table public.wallet_movements
+  add constraint wallet_movements_source_check
+  check (source in ('arkham','onchain','simulated'));
+
+create index if not exists idx_wallet_movements_token_source
+on public.wallet_movements(token_address, source, detected_at desc);
+
+alter table public.tracked_wallets
+  drop constraint if exists tracked_wallets_source_check;
+
+update public.tracked_wallets
+set source = 'simulated'
+where address like 'sim-%' and label like '[SIM]%';
+
+alter table public.tracked_wallets
+  add constraint tracked_wallets_source_check
+  check (source in ('arkham','onchain','manual','simulated'));
+
+alter table public.signal_outcomes
+  add column if not exists wallet_source text
+    check (wallet_source in ('none','real','simulated','mixed')),
+  add column if not exists confidence_without_simulated numeric,
+  add column if not exists passes_without_simulated     boolean;
@@ -0,0 +1,18 @@
+-- ============================================================
+-- Exchange connections vault: credenciales cifradas con sobre
+-- (data key por conexión envuelta con la clave maestra del
+-- servidor), pista de la API key y resultado del último check
+-- ============================================================
+
+alter table public.exchange_connections
+  add column if not exists data_key_encrypted text,
+  add column if not exists key_id             text,
+  add column if not exists api_key_hint       text,
+  add column if not exists last_check_ok      boolean,
+  add column if not exists last_check_error   text;
+
+alter table public.exchange_connections
+  drop constraint if exists exchange_connections_exchange_check;
+alter table public.exchange_connections
+  add constraint exchange_connections_exchange_check
+  check (exchange in ('binance','bybit','okx'));
@@ -0,0 +1,30 @@
+-- ============================================================
+-- Position reconciliations: cada pasada del PositionReconciler
+-- (trades live abiertos vs saldos de wallet y exchanges), con
+-- los items detectados y las correcciones aplicadas
+-- ============================================================
+
+create table if not exists public.position_reconciliations (
+  id                 uuid primary key default gen_random_uuid(),
+  user_id            uuid not null references auth.users(id) on delete cascade,
+  auto_apply         boolean not null default false,
+  venues_checked     int not null default 0,
+  positions_checked  int not null default 0,
+  issues             int not null default 0,
+  applied            int not null default 0,
+  -- [{ venue, status: ok|phantom|shortfall|surplus|orphaned|unchecked, tradeId, action, applied, ... }]
+  items              jsonb not null default '[]'::jsonb,
+  errors             jsonb not null default '[]'::jsonb,
+  created_at         timestamptz not null default now()
+);
+
+create index if not exists idx_position_reconciliations_user_created
+on public.position_reconciliations(user_id, created_at desc);
+
+alter table public.position_reconciliations enable row level security;
+
+create policy "position_reconciliations_select_own" on public.position_reconciliations
+  for select using (auth.uid() = user_id);
+
+create policy "position_reconciliations_insert_own" on public.position_reconciliations
+  for insert with check (auth.uid() = user_id);
@@ -0,0 +1,14 @@
+-- ============================================================
+-- Trade net PnL: pnl_abs sigue siendo bruto y fees_abs pasa a
+-- acumular gas/fees de entrada y salidas; pnl_net_abs guarda el
+-- neto que usan RollingPerformanceEngine e is_win
+-- ============================================================
+
+alter table public.trades
+  add column if not exists pnl_net_abs numeric(24,10);
+
+update public.trades
+set pnl_net_abs = pnl_abs - coalesce(fees_abs, 0)
+where status = 'closed'
+  and pnl_abs is not null
+  and pnl_net_abs is null;
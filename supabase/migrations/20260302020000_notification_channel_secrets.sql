@@ -0,0 +1,17 @@
+-- ============================================================
+-- Notification channel secrets: el secreto HMAC del webhook y el
+-- token del bot de Telegram pasan a guardarse sellados con el
+-- CredentialVault (data key propia cifrada con la clave maestra).
+-- La columna `secret` en claro queda solo para filas antiguas: el
+-- Notifier las re-sella y la vacía la primera vez que las carga.
+-- ============================================================
+
+alter table public.notification_channels
+  add column if not exists secret_encrypted text,
+  add column if not exists secret_data_key_encrypted text,
+  add column if not exists secret_key_id text;
+
+-- Tokens de bot que se colaron en el log de entregas vía la URL
+update public.notification_deliveries
+set error = regexp_replace(error, 'bot[0-9]+:[A-Za-z0-9_-]+', 'bot<token>', 'g')
+where error ~ 'bot[0-9]+:';
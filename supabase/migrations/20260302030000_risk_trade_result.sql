@@ -0,0 +1,116 @@
+-- ============================================================
+-- Risk trade result: contadores, racha satellite y pausa de
+-- risk_state se aplican en un RPC (fila bloqueada) en vez de
+-- increment_risk_state + update read-modify-write desde la app
+-- ============================================================
+
+-- Aplica el resultado de una salida a risk_state en una sola transacción:
+-- PnL, contadores, racha satellite y pausa con la misma lógica que
+-- RiskGate.applyTradeResult, con la fila bloqueada (for update) para que
+-- dos ciclos no se pisen. `paused_now` indica si esta llamada activó la pausa.
+create or replace function public.apply_risk_trade_result(
+  p_user_id uuid,
+  p_layer text,
+  p_pnl numeric,
+  p_trade_pnl numeric,
+  p_partial boolean default false,
+  p_max_daily_loss_pct numeric default 0.02,
+  p_max_weekly_loss_pct numeric default 0.06,
+  p_satellite_consec_limit int default 3,
+  p_satellite_cooldown_seconds int default 86400
+)
+returns table (
+  pnl_today numeric,
+  pnl_this_week numeric,
+  trades_today_core int,
+  trades_today_satellite int,
+  consecutive_losses_satellite int,
+  is_paused boolean,
+  pause_reason text,
+  pause_until timestamptz,
+  paused_now boolean
+)
+language plpgsql
+as $$
+declare
+  v_rs public.risk_state%rowtype;
+  v_was_paused boolean;
+  v_loss_pct numeric;
+  v_reason text;
+  v_until timestamptz;
+begin
+  select * into v_rs
+  from public.risk_state
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  v_was_paused := v_rs.is_paused;
+  v_rs.pnl_today := v_rs.pnl_today + p_pnl;
+  v_rs.pnl_this_week := v_rs.pnl_this_week + p_pnl;
+
+  if not p_partial then
+    if p_layer = 'core' then
+      v_rs.trades_today_core := v_rs.trades_today_core + 1;
+    else
+      v_rs.trades_today_satellite := v_rs.trades_today_satellite + 1;
+      v_rs.consecutive_losses_satellite :=
+        case when coalesce(p_trade_pnl, p_pnl) < 0 then v_rs.consecutive_losses_satellite + 1 else 0 end;
+    end if;
+  end if;
+
+  if v_rs.capital > 0 then
+    v_loss_pct := greatest(-v_rs.pnl_today, 0) / v_rs.capital;
+    if v_loss_pct >= p_max_daily_loss_pct then
+      v_reason := format('Pérdida diaria (%s%%) alcanzó límite', to_char(v_loss_pct * 100, 'FM999999990.00'));
+    end if;
+
+    v_loss_pct := greatest(-v_rs.pnl_this_week, 0) / v_rs.capital;
+    if v_loss_pct >= p_max_weekly_loss_pct then
+      v_reason := format('Pérdida semanal (%s%%) alcanzó límite', to_char(v_loss_pct * 100, 'FM999999990.00'));
+    end if;
+  end if;
+
+  if not p_partial
+     and p_layer = 'satellite'
+     and v_rs.consecutive_losses_satellite >= p_satellite_consec_limit then
+    v_reason := format('Satellite: %s pérdidas consecutivas', v_rs.consecutive_losses_satellite);
+    v_until := now() + make_interval(secs => p_satellite_cooldown_seconds);
+  end if;
+
+  if v_reason is not null then
+    v_rs.is_paused := true;
+    v_rs.pause_reason := v_reason;
+    v_rs.pause_until := coalesce(
+      v_until,
+      v_rs.pause_until,
+      (date_trunc('day', now() at time zone 'UTC') + interval '1 day' - interval '1 millisecond') at time zone 'UTC'
+    );
+  end if;
+
+  update public.risk_state rs
+  set pnl_today = v_rs.pnl_today,
+      pnl_this_week = v_rs.pnl_this_week,
+      trades_today_core = v_rs.trades_today_core,
+      trades_today_satellite = v_rs.trades_today_satellite,
+      consecutive_losses_satellite = v_rs.consecutive_losses_satellite,
+      is_paused = v_rs.is_paused,
+      pause_reason = v_rs.pause_reason,
+      pause_until = v_rs.pause_until
+  where rs.id = v_rs.id;
+
+  return query select
+    v_rs.pnl_today,
+    v_rs.pnl_this_week,
+    v_rs.trades_today_core,
+    v_rs.trades_today_satellite,
+    v_rs.consecutive_losses_satellite,
+    v_rs.is_paused,
+    v_rs.pause_reason,
+    v_rs.pause_until,
+    v_rs.is_paused and not v_was_paused;
+end;
+$$;
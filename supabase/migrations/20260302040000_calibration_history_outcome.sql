@@ -0,0 +1,20 @@
+-- ============================================================
+-- Calibration history outcome: cada recalibrado se registra
+-- (aplicado, rechazado por walk-forward o sin cambios); las
+-- filas anteriores eran todas cambios aplicados
+-- ============================================================
+
+alter table public.calibration_history
+  add column if not exists outcome text not null default 'applied';
+
+alter table public.calibration_history
+  drop constraint if exists calibration_history_outcome_check;
+
+alter table public.calibration_history
+  add constraint calibration_history_outcome_check
+  check (outcome in ('applied','rejected','unchanged'));
+
+-- La versión se calcula como última + 1 desde la app; el unique es lo que
+-- hace que dos pasadas concurrentes no la repitan (la segunda reintenta)
+create unique index if not exists uq_calibration_history_user_version
+on public.calibration_history(user_id, version);
@@ -0,0 +1,31 @@
+-- ============================================================
+-- Profiles execution_mode guard: el modo de ejecución lo decide
+-- el operador (service role o SQL), no el usuario. La policy
+-- profiles_update_own deja tocar cualquier columna del perfil
+-- propio, así que un trigger rechaza cambios de execution_mode
+-- (y altas fuera de paper) hechos con el JWT de un usuario
+-- ============================================================
+
+create or replace function public.guard_profile_execution_mode()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), 'service_role') in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' and new.execution_mode <> 'paper' then
+      raise exception 'execution_mode solo lo puede cambiar el operador'
+        using errcode = '42501';
+    end if;
+    if tg_op = 'UPDATE' and new.execution_mode is distinct from old.execution_mode then
+      raise exception 'execution_mode solo lo puede cambiar el operador'
+        using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_profiles_execution_mode_guard on public.profiles;
+create trigger trg_profiles_execution_mode_guard
+before insert or update on public.profiles
+for each row execute function public.guard_profile_execution_mode();
@@ -0,0 +1,23 @@
+-- ============================================================
+-- Trades opening reservation: el orquestador reserva la fila del
+-- trade (status 'opening') antes de mandar la orden al broker y la
+-- completa con el fill. uq_trades_open_token cubre también las
+-- reservas, así que un duplicado se descarta antes de ejecutar
+-- ============================================================
+
+alter table public.trades
+  drop constraint if exists trades_status_check;
+
+alter table public.trades
+  add constraint trades_status_check
+  check (status in ('opening', 'open', 'closed', 'cancelled', 'failed'));
+
+drop index if exists public.uq_trades_open_token;
+
+create unique index if not exists uq_trades_open_token
+on public.trades (
+  user_id,
+  lower(metadata->>'network'),
+  lower(metadata->>'tokenAddress')
+)
+where status in ('opening', 'open') and metadata ? 'tokenAddress';
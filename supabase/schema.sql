@@ -22,6 +22,8 @@ create table if not exists public.profiles (
   full_name text,
   avatar_url text,
   timezone text default 'UTC',
+  execution_mode text not null default 'paper'
+    check (execution_mode in ('paper','live','shadow')),
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
@@ -31,6 +33,32 @@ create trigger trg_profiles_updated_at
 before update on public.profiles
 for each row execute function public.set_updated_at();
 
+-- execution_mode lo decide el operador: profiles_update_own no debe
+-- dejar que un usuario se pase a live (ver la migración del guard)
+create or replace function public.guard_profile_execution_mode()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), 'service_role') in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' and new.execution_mode <> 'paper' then
+      raise exception 'execution_mode solo lo puede cambiar el operador'
+        using errcode = '42501';
+    end if;
+    if tg_op = 'UPDATE' and new.execution_mode is distinct from old.execution_mode then
+      raise exception 'execution_mode solo lo puede cambiar el operador'
+        using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_profiles_execution_mode_guard on public.profiles;
+create trigger trg_profiles_execution_mode_guard
+before insert or update on public.profiles
+for each row execute function public.guard_profile_execution_mode();
+
 alter table public.profiles enable row level security;
 
 drop policy if exists "profiles_select_own" on public.profiles;
@@ -54,14 +82,20 @@ with check (auth.uid() = id);
 create table if not exists public.exchange_connections (
   id uuid primary key default gen_random_uuid(),
   user_id uuid not null references auth.users(id) on delete cascade,
-  exchange text not null,
+  exchange text not null check (exchange in ('binance','bybit','okx')),
   label text,
   api_key_encrypted text not null,
   api_secret_encrypted text not null,
   passphrase_encrypted text,
+  -- Data key de la conexión cifrada con la clave maestra `key_id`
+  data_key_encrypted text,
+  key_id text,
+  api_key_hint text,
   is_testnet boolean not null default true,
   is_active boolean not null default true,
   last_check_at timestamptz,
+  last_check_ok boolean,
+  last_check_error text,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
@@ -153,7 +187,7 @@ create table if not exists public.tracked_wallets (
   category    text not null default 'unknown'
     check (category in ('alpha','momentum','early','lp_arb','swing','unknown')),
   source      text not null default 'manual'
-    check (source in ('arkham','manual')),
+    check (source in ('arkham','onchain','manual','simulated')),
   is_active   boolean not null default true,
   notes       text,
   created_at  timestamptz not null default now(),
@@ -240,6 +274,9 @@ create table if not exists public.wallet_movements (
   tx_hash       text,
   block_number  bigint,
   detected_at   timestamptz not null default now(),
+  -- arkham / onchain = movimiento real; simulated = SmartMoneySimulator
+  source        text not null default 'arkham'
+    check (source in ('arkham','onchain','simulated')),
   metadata      jsonb not null default '{}'::jsonb,
   created_at    timestamptz not null default now()
 );
@@ -250,6 +287,9 @@ on public.wallet_movements(wallet_id, detected_at desc);
 create index if not exists idx_wallet_movements_token
 on public.wallet_movements(token_address, detected_at desc);
 
+create index if not exists idx_wallet_movements_token_source
+on public.wallet_movements(token_address, source, detected_at desc);
+
 alter table public.wallet_movements enable row level security;
 
 drop policy if exists "wallet_movements_select_via_wallet" on public.wallet_movements;
@@ -409,13 +449,16 @@ create table if not exists public.trades (
   exchange_connection_id uuid references public.exchange_connections(id) on delete set null,
   symbol text not null,
   side text not null check (side in ('buy', 'sell')),
-  status text not null default 'open' check (status in ('open', 'closed', 'cancelled', 'failed')),
+  -- 'opening' = reservada antes de ejecutar la entrada; se completa con el fill
+  status text not null default 'open' check (status in ('opening', 'open', 'closed', 'cancelled', 'failed')),
   quantity numeric(24,10) not null,
   entry_price numeric(24,10),
   exit_price numeric(24,10),
   opened_at timestamptz not null default now(),
   closed_at timestamptz,
   pnl_abs numeric(24,10),
+  -- Neto de fees_abs (gas/fees de entrada y salidas)
+  pnl_net_abs numeric(24,10),
   pnl_pct numeric(12,6),
   is_win boolean,
   fees_abs numeric(24,10),
@@ -432,6 +475,14 @@ create table if not exists public.trades (
   wallet_movement_id uuid references public.wallet_movements(id) on delete set null,
   token_health_score_at_entry numeric(6,2),
   wallet_score_at_entry numeric(6,2),
+  -- Puntos de cada capa de confluencia (ConfluenceComponents)
+  pts_detector numeric,
+  pts_wallet numeric,
+  pts_health numeric,
+  pts_regime numeric,
+  pts_pattern numeric,
+  tx_hash text,
+  cycle_id uuid,
   metadata jsonb not null default '{}'::jsonb,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
@@ -449,6 +500,9 @@ on public.trades(execution_mode);
 create index if not exists idx_trades_layer
 on public.trades(layer);
 
+create index if not exists idx_trades_tx_hash
+on public.trades(tx_hash) where tx_hash is not null;
+
 drop trigger if exists trg_trades_updated_at on public.trades;
 create trigger trg_trades_updated_at
 before update on public.trades
@@ -493,6 +547,21 @@ create table if not exists public.signal_outcomes (
   volume_24h      numeric,
   momentum_score  numeric,
   health_score    numeric,
+  -- Puntos de cada capa de confluencia (ConfluenceComponents)
+  pts_detector    numeric,
+  pts_wallet      numeric,
+  pts_health      numeric,
+  pts_regime      numeric,
+  pts_pattern     numeric,
+  -- Features del modelo aprendido y su puntuación (shadow o activo)
+  features              jsonb,
+  rule_confidence       numeric,
+  learned_probability   numeric,
+  learned_model_version int,
+  -- Procedencia de la wallet confluence y contrafactual sin la simulada
+  wallet_source   text check (wallet_source in ('none','real','simulated','mixed')),
+  confidence_without_simulated numeric,
+  passes_without_simulated     boolean,
   was_executed    boolean not null default false,
   reject_reason   text,
 
@@ -513,6 +582,7 @@ create table if not exists public.signal_outcomes (
 
   reasons         text[] not null default '{}',
   metadata        jsonb not null default '{}'::jsonb,
+  cycle_id        uuid,
 
   created_at      timestamptz not null default now()
 );
@@ -557,6 +627,7 @@ create table if not exists public.cycle_runs (
   forward_prediction_7d  jsonb,
   forward_prediction_30d jsonb,
   metadata            jsonb not null default '{}'::jsonb,
+  cycle_id            uuid,
   created_at          timestamptz not null default now()
 );
 
@@ -588,6 +659,8 @@ create table if not exists public.calibration_state (
   exposure_momentum_pct     numeric not null default 50,
   exposure_early_pct        numeric not null default 50,
   detector_interaction      jsonb,
+  walk_forward              jsonb,
+  rejected_proposals        jsonb not null default '[]'::jsonb,
   calibrated_at             timestamptz not null default now(),
   created_at                timestamptz not null default now(),
   constraint uq_calibration_state_user unique (user_id)
@@ -606,3 +679,528 @@ create policy "calibration_state_insert_own" on public.calibration_state
 
 create policy "calibration_state_update_own" on public.calibration_state
   for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- ==================== calibration_history ====================
+
+create table if not exists public.calibration_history (
+  id                        uuid primary key default gen_random_uuid(),
+  user_id                   uuid not null references auth.users(id) on delete cascade,
+  version                   int not null,
+  source                    text not null default 'recalibration'
+    check (source in ('recalibration','rollback')),
+  -- applied | rejected (walk-forward) | unchanged; rollback cuenta como applied
+  outcome                   text not null default 'applied'
+    check (outcome in ('applied','rejected','unchanged')),
+  -- Versión restaurada cuando source = 'rollback'
+  restored_version          int,
+  momentum_score_threshold  numeric not null,
+  early_score_threshold     numeric not null,
+  core_min_confidence       numeric not null,
+  satellite_min_confidence  numeric not null,
+  hit_rate_24h_core         numeric not null default 0,
+  hit_rate_24h_satellite    numeric not null default 0,
+  avg_pnl_24h               numeric not null default 0,
+  profit_factor_rolling     numeric not null default 0,
+  expectancy_rolling        numeric not null default 0,
+  exposure_momentum_pct     numeric not null default 50,
+  exposure_early_pct        numeric not null default 50,
+  detector_interaction      jsonb,
+  walk_forward              jsonb,
+  note                      text,
+  created_at                timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+create index if not exists idx_calibration_history_user_created
+on public.calibration_history(user_id, created_at desc);
+
+-- Append-only: sin policies de update ni delete
+alter table public.calibration_history enable row level security;
+
+create policy "calibration_history_select_own" on public.calibration_history
+  for select using (auth.uid() = user_id);
+
+create policy "calibration_history_insert_own" on public.calibration_history
+  for insert with check (auth.uid() = user_id);
+
+-- ==================== confluence_models ====================
+
+create table if not exists public.confluence_models (
+  id             uuid primary key default gen_random_uuid(),
+  user_id        uuid not null references auth.users(id) on delete cascade,
+  version        int not null,
+  status         text not null default 'shadow'
+    check (status in ('shadow','active','retired')),
+  kind           text not null default 'logistic' check (kind in ('logistic')),
+  feature_names  text[] not null,
+  -- Coeficientes, estandarización y cuantiles para mapear a confianza
+  params         jsonb not null,
+  -- AUC / log loss fuera de muestra y evaluación en shadow
+  metrics        jsonb not null default '{}'::jsonb,
+  trained_until  timestamptz not null,
+  promoted_at    timestamptz,
+  retired_at     timestamptz,
+  created_at     timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+-- Como mucho un modelo activo por usuario
+create unique index if not exists idx_confluence_models_user_active
+on public.confluence_models(user_id) where status = 'active';
+
+alter table public.confluence_models enable row level security;
+
+create policy "confluence_models_select_own" on public.confluence_models
+  for select using (auth.uid() = user_id);
+
+create policy "confluence_models_insert_own" on public.confluence_models
+  for insert with check (auth.uid() = user_id);
+
+create policy "confluence_models_update_own" on public.confluence_models
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- ==================== trade_executions ====================
+
+create table if not exists public.trade_executions (
+  id            uuid primary key default gen_random_uuid(),
+  trade_id      uuid not null references public.trades(id) on delete cascade,
+  user_id       uuid not null references auth.users(id) on delete cascade,
+  kind          text not null check (kind in ('entry','partial_exit','exit')),
+  side          text not null check (side in ('buy','sell')),
+  quantity      numeric(24,10) not null,
+  price         numeric(24,10) not null,
+  pnl_abs       numeric(24,10),
+  fees_abs      numeric(24,10),
+  reason        text,
+  tx_hash       text,
+  metadata      jsonb not null default '{}'::jsonb,
+  executed_at   timestamptz not null default now(),
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists idx_trade_executions_trade
+on public.trade_executions(trade_id, executed_at);
+
+create index if not exists idx_trade_executions_user_executed_at
+on public.trade_executions(user_id, executed_at desc);
+
+alter table public.trade_executions enable row level security;
+
+create policy "trade_executions_select_own" on public.trade_executions
+  for select using (auth.uid() = user_id);
+
+create policy "trade_executions_insert_own" on public.trade_executions
+  for insert with check (auth.uid() = user_id);
+
+-- ==================== position_reconciliations ====================
+
+create table if not exists public.position_reconciliations (
+  id                 uuid primary key default gen_random_uuid(),
+  user_id            uuid not null references auth.users(id) on delete cascade,
+  auto_apply         boolean not null default false,
+  venues_checked     int not null default 0,
+  positions_checked  int not null default 0,
+  issues             int not null default 0,
+  applied            int not null default 0,
+  -- [{ venue, status: ok|phantom|shortfall|surplus|orphaned|unchecked, tradeId, action, applied, ... }]
+  items              jsonb not null default '[]'::jsonb,
+  errors             jsonb not null default '[]'::jsonb,
+  created_at         timestamptz not null default now()
+);
+
+create index if not exists idx_position_reconciliations_user_created
+on public.position_reconciliations(user_id, created_at desc);
+
+alter table public.position_reconciliations enable row level security;
+
+create policy "position_reconciliations_select_own" on public.position_reconciliations
+  for select using (auth.uid() = user_id);
+
+create policy "position_reconciliations_insert_own" on public.position_reconciliations
+  for insert with check (auth.uid() = user_id);
+
+-- ==================== shadow_fills ====================
+
+create table if not exists public.shadow_fills (
+  id                      uuid primary key default gen_random_uuid(),
+  trade_id                uuid references public.trades(id) on delete cascade,
+  user_id                 uuid not null references auth.users(id) on delete cascade,
+  symbol                  text not null,
+  token_address           text not null,
+  network                 text not null,
+  side                    text not null check (side in ('buy','sell')),
+  amount_usd              numeric(24,10) not null,
+  mid_price               numeric(24,10) not null,
+  paper_price             numeric(24,10) not null,
+  paper_slippage_pct      numeric(12,8) not null,
+  model_slippage_pct      numeric(12,8),
+  model_competition_pct   numeric(12,8),
+  model_price_impact_pct  numeric(12,8),
+  quoted_price            numeric(24,10) not null,
+  quoted_slippage_pct     numeric(12,8) not null,
+  quoted_price_impact_pct numeric(12,8),
+  quoted_fee_pct          numeric(12,8),
+  slippage_gap_pct        numeric(12,8) not null,
+  quote_source            text not null,
+  route_label             text,
+  quote_liquidity_usd     numeric(24,2),
+  created_at              timestamptz not null default now()
+);
+
+create index if not exists idx_shadow_fills_user_created_at
+on public.shadow_fills(user_id, created_at desc);
+
+alter table public.shadow_fills enable row level security;
+
+create policy "shadow_fills_select_own" on public.shadow_fills
+  for select using (auth.uid() = user_id);
+
+create policy "shadow_fills_insert_own" on public.shadow_fills
+  for insert with check (auth.uid() = user_id);
+
+-- ==================== strategy_configs ====================
+
+create table if not exists public.strategy_configs (
+  id          uuid primary key default gen_random_uuid(),
+  user_id     uuid not null references auth.users(id) on delete cascade,
+  version     int not null,
+  config      jsonb not null default '{}'::jsonb,
+  is_active   boolean not null default false,
+  note        text,
+  created_at  timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+-- Como mucho una versión activa por usuario
+create unique index if not exists idx_strategy_configs_user_active
+on public.strategy_configs(user_id) where is_active;
+
+alter table public.strategy_configs enable row level security;
+
+create policy "strategy_configs_select_own" on public.strategy_configs
+  for select using (auth.uid() = user_id);
+
+create policy "strategy_configs_insert_own" on public.strategy_configs
+  for insert with check (auth.uid() = user_id);
+
+create policy "strategy_configs_update_own" on public.strategy_configs
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- ==================== notification_channels ====================
+
+create table if not exists public.notification_channels (
+  id            uuid primary key default gen_random_uuid(),
+  user_id       uuid not null references auth.users(id) on delete cascade,
+  kind          text not null check (kind in ('webhook', 'telegram', 'email')),
+  -- URL del webhook, chat_id de Telegram o dirección de email
+  target        text not null,
+  -- Secreto HMAC del webhook o token del bot de Telegram (opcional),
+  -- sellado con el CredentialVault; `secret` en claro solo en filas antiguas
+  secret        text,
+  secret_encrypted          text,
+  secret_data_key_encrypted text,
+  secret_key_id             text,
+  -- Eventos suscritos; vacío = todos
+  events        text[] not null default '{}',
+  enabled       boolean not null default true,
+  max_per_hour  int not null default 20 check (max_per_hour > 0),
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create index if not exists idx_notification_channels_user
+on public.notification_channels(user_id);
+
+alter table public.notification_channels enable row level security;
+
+create policy "notification_channels_select_own" on public.notification_channels
+  for select using (auth.uid() = user_id);
+
+create policy "notification_channels_insert_own" on public.notification_channels
+  for insert with check (auth.uid() = user_id);
+
+create policy "notification_channels_update_own" on public.notification_channels
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "notification_channels_delete_own" on public.notification_channels
+  for delete using (auth.uid() = user_id);
+
+-- ==================== notification_deliveries ====================
+
+create table if not exists public.notification_deliveries (
+  id           uuid primary key default gen_random_uuid(),
+  user_id      uuid not null references auth.users(id) on delete cascade,
+  channel_id   uuid references public.notification_channels(id) on delete set null,
+  event_type   text not null,
+  status       text not null check (status in ('sent', 'failed', 'rate_limited')),
+  http_status  int,
+  error        text,
+  payload      jsonb not null default '{}'::jsonb,
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists idx_notification_deliveries_channel_created
+on public.notification_deliveries(channel_id, created_at desc);
+
+create index if not exists idx_notification_deliveries_user_created
+on public.notification_deliveries(user_id, created_at desc);
+
+alter table public.notification_deliveries enable row level security;
+
+create policy "notification_deliveries_select_own" on public.notification_deliveries
+  for select using (auth.uid() = user_id);
+
+create policy "notification_deliveries_insert_own" on public.notification_deliveries
+  for insert with check (auth.uid() = user_id);
+
+-- ==================== cycle_locks ====================
+
+create table if not exists public.cycle_locks (
+  user_id      uuid primary key references auth.users(id) on delete cascade,
+  cycle_id     uuid not null,
+  acquired_at  timestamptz not null default now(),
+  -- Un ciclo que muere sin liberar el lease lo pierde al expirar
+  expires_at   timestamptz not null
+);
+
+alter table public.cycle_locks enable row level security;
+
+create policy "cycle_locks_select_own" on public.cycle_locks
+  for select using (auth.uid() = user_id);
+
+create policy "cycle_locks_insert_own" on public.cycle_locks
+  for insert with check (auth.uid() = user_id);
+
+create policy "cycle_locks_update_own" on public.cycle_locks
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "cycle_locks_delete_own" on public.cycle_locks
+  for delete using (auth.uid() = user_id);
+
+-- Toma el lease si no existe o ha expirado. true = adquirido.
+create or replace function public.acquire_cycle_lock(
+  p_user_id uuid,
+  p_cycle_id uuid,
+  p_ttl_seconds int default 600
+)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_acquired boolean;
+begin
+  insert into public.cycle_locks (user_id, cycle_id, acquired_at, expires_at)
+  values (p_user_id, p_cycle_id, now(), now() + make_interval(secs => p_ttl_seconds))
+  on conflict (user_id) do update
+    set cycle_id = excluded.cycle_id,
+        acquired_at = excluded.acquired_at,
+        expires_at = excluded.expires_at
+    where public.cycle_locks.expires_at < now()
+  returning true into v_acquired;
+
+  return coalesce(v_acquired, false);
+end;
+$$;
+
+-- Libera el lease solo si sigue siendo del ciclo que lo tomó.
+create or replace function public.release_cycle_lock(p_user_id uuid, p_cycle_id uuid)
+returns void
+language sql
+as $$
+  delete from public.cycle_locks
+  where user_id = p_user_id and cycle_id = p_cycle_id;
+$$;
+
+-- Suma deltas a los contadores de risk_state en una sola sentencia
+-- (sin read-modify-write desde la app). Devuelve los valores nuevos.
+create or replace function public.increment_risk_state(
+  p_user_id uuid,
+  p_trades_core int default 0,
+  p_trades_satellite int default 0,
+  p_pnl numeric default 0
+)
+returns table (
+  pnl_today numeric,
+  pnl_this_week numeric,
+  trades_today_core int,
+  trades_today_satellite int
+)
+language sql
+as $$
+  update public.risk_state rs
+  set trades_today_core = rs.trades_today_core + p_trades_core,
+      trades_today_satellite = rs.trades_today_satellite + p_trades_satellite,
+      pnl_today = rs.pnl_today + p_pnl,
+      pnl_this_week = rs.pnl_this_week + p_pnl
+  where rs.user_id = p_user_id
+  returning rs.pnl_today, rs.pnl_this_week, rs.trades_today_core, rs.trades_today_satellite;
+$$;
+
+-- Aplica el resultado de una salida a risk_state en una sola transacción:
+-- PnL, contadores, racha satellite y pausa con la misma lógica que
+-- RiskGate.applyTradeResult, con la fila bloqueada (for update) para que
+-- dos ciclos no se pisen. `paused_now` indica si esta llamada activó la pausa.
+create or replace function public.apply_risk_trade_result(
+  p_user_id uuid,
+  p_layer text,
+  p_pnl numeric,
+  p_trade_pnl numeric,
+  p_partial boolean default false,
+  p_max_daily_loss_pct numeric default 0.02,
+  p_max_weekly_loss_pct numeric default 0.06,
+  p_satellite_consec_limit int default 3,
+  p_satellite_cooldown_seconds int default 86400
+)
+returns table (
+  pnl_today numeric,
+  pnl_this_week numeric,
+  trades_today_core int,
+  trades_today_satellite int,
+  consecutive_losses_satellite int,
+  is_paused boolean,
+  pause_reason text,
+  pause_until timestamptz,
+  paused_now boolean
+)
+language plpgsql
+as $$
+declare
+  v_rs public.risk_state%rowtype;
+  v_was_paused boolean;
+  v_loss_pct numeric;
+  v_reason text;
+  v_until timestamptz;
+begin
+  select * into v_rs
+  from public.risk_state
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  v_was_paused := v_rs.is_paused;
+  v_rs.pnl_today := v_rs.pnl_today + p_pnl;
+  v_rs.pnl_this_week := v_rs.pnl_this_week + p_pnl;
+
+  if not p_partial then
+    if p_layer = 'core' then
+      v_rs.trades_today_core := v_rs.trades_today_core + 1;
+    else
+      v_rs.trades_today_satellite := v_rs.trades_today_satellite + 1;
+      v_rs.consecutive_losses_satellite :=
+        case when coalesce(p_trade_pnl, p_pnl) < 0 then v_rs.consecutive_losses_satellite + 1 else 0 end;
+    end if;
+  end if;
+
+  if v_rs.capital > 0 then
+    v_loss_pct := greatest(-v_rs.pnl_today, 0) / v_rs.capital;
+    if v_loss_pct >= p_max_daily_loss_pct then
+      v_reason := format('Pérdida diaria (%s%%) alcanzó límite', to_char(v_loss_pct * 100, 'FM999999990.00'));
+    end if;
+
+    v_loss_pct := greatest(-v_rs.pnl_this_week, 0) / v_rs.capital;
+    if v_loss_pct >= p_max_weekly_loss_pct then
+      v_reason := format('Pérdida semanal (%s%%) alcanzó límite', to_char(v_loss_pct * 100, 'FM999999990.00'));
+    end if;
+  end if;
+
+  if not p_partial
+     and p_layer = 'satellite'
+     and v_rs.consecutive_losses_satellite >= p_satellite_consec_limit then
+    v_reason := format('Satellite: %s pérdidas consecutivas', v_rs.consecutive_losses_satellite);
+    v_until := now() + make_interval(secs => p_satellite_cooldown_seconds);
+  end if;
+
+  if v_reason is not null then
+    v_rs.is_paused := true;
+    v_rs.pause_reason := v_reason;
+    v_rs.pause_until := coalesce(
+      v_until,
+      v_rs.pause_until,
+      (date_trunc('day', now() at time zone 'UTC') + interval '1 day' - interval '1 millisecond') at time zone 'UTC'
+    );
+  end if;
+
+  update public.risk_state rs
+  set pnl_today = v_rs.pnl_today,
+      pnl_this_week = v_rs.pnl_this_week,
+      trades_today_core = v_rs.trades_today_core,
+      trades_today_satellite = v_rs.trades_today_satellite,
+      consecutive_losses_satellite = v_rs.consecutive_losses_satellite,
+      is_paused = v_rs.is_paused,
+      pause_reason = v_rs.pause_reason,
+      pause_until = v_rs.pause_until
+  where rs.id = v_rs.id;
+
+  return query select
+    v_rs.pnl_today,
+    v_rs.pnl_this_week,
+    v_rs.trades_today_core,
+    v_rs.trades_today_satellite,
+    v_rs.consecutive_losses_satellite,
+    v_rs.is_paused,
+    v_rs.pause_reason,
+    v_rs.pause_until,
+    v_rs.is_paused and not v_was_paused;
+end;
+$$;
+
+create index if not exists idx_trades_cycle
+on public.trades(cycle_id) where cycle_id is not null;
+
+create index if not exists idx_signal_outcomes_cycle
+on public.signal_outcomes(cycle_id) where cycle_id is not null;
+
+create unique index if not exists uq_cycle_runs_cycle
+on public.cycle_runs(cycle_id) where cycle_id is not null;
+
+-- Una sola posición abierta (o reservada para abrirse) por token y usuario
+create unique index if not exists uq_trades_open_token
+on public.trades (
+  user_id,
+  lower(metadata->>'network'),
+  lower(metadata->>'tokenAddress')
+)
+where status in ('opening', 'open') and metadata ? 'tokenAddress';
+
+-- ==================== scheduler_runs ====================
+create table if not exists public.scheduler_runs (
+  id            uuid primary key default gen_random_uuid(),
+  started_at    timestamptz not null,
+  finished_at   timestamptz not null,
+  duration_ms   int not null,
+  concurrency   int not null,
+  budget_ms     int not null,
+  users_total   int not null default 0,
+  users_ran     int not null default 0,
+  -- Discovery compartido: pools escaneados y errores de las APIs
+  discovery     jsonb not null default '{}'::jsonb,
+  -- [{ userId, status: ran|failed|locked|carried_over, reason, cycleId, durationMs, ... }]
+  runs          jsonb not null default '[]'::jsonb,
+  -- Usuarios sin ciclo en este tick; el siguiente tick empieza por ellos
+  carried_over  uuid[] not null default '{}',
+  created_at    timestamptz not null default now()
+);
+
+create index if not exists idx_scheduler_runs_started
+on public.scheduler_runs(started_at desc);
+
+-- Solo el service role (cron) lee y escribe: RLS sin policies
+alter table public.scheduler_runs enable row level security;
+
+-- ==================== market_data_cache ====================
+create table if not exists public.market_data_cache (
+  -- "<endpoint>:<clave>", p. ej. "dexscreener.token_pairs:solana:<mint>"
+  key         text primary key,
+  value       jsonb not null,
+  expires_at  timestamptz not null,
+  updated_at  timestamptz not null default now()
+);
+
+create index if not exists idx_market_data_cache_expires
+on public.market_data_cache(expires_at);
+
+-- Solo el service role lee y escribe: RLS sin policies
+alter table public.market_data_cache enable row level security;